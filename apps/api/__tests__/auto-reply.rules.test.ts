@@ -0,0 +1,140 @@
+import {
+  AutoReplyRule,
+  AutoReplyRuleError,
+  InboundContext,
+  classifySentiment,
+  findMatchingRule,
+  isWithinQuietHours,
+  validateConditions,
+} from '../src/services/auto-reply-rules';
+import { AutoReplyService } from '../src/services/auto-reply.service';
+import { InboxService } from '../src/services/inbox.service';
+import { QualityService } from '../src/services/quality.service';
+import { TemplateRenderService } from '../src/services/template-render.service';
+import { fakeDb } from './support/fake-db';
+import { conversationRow } from './support/inbox-rows';
+
+function rule(overrides: Partial<AutoReplyRule>): AutoReplyRule {
+  return {
+    id: 'r1',
+    name: 'Rule',
+    platform: null,
+    kinds: ['comment', 'message'],
+    conditions: {},
+    responseTemplate: 'Thanks!',
+    priority: 0,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const context = (overrides: Partial<InboundContext> = {}): InboundContext => ({
+  platform: 'FACEBOOK',
+  kind: 'comment',
+  body: 'How much is the annual plan?',
+  sentimentScore: 50,
+  leadScore: 0,
+  ...overrides,
+});
+
+describe('Auto-reply rules', () => {
+  it('matches keywords as whole words and phrases, case-insensitively', () => {
+    const pricing = rule({ id: 'pricing', conditions: { keywords: ['price', 'how much'] } });
+
+    expect(findMatchingRule([pricing], context())?.id).toBe('pricing');
+    expect(findMatchingRule([pricing], context({ body: 'PRICE?' }))?.id).toBe('pricing');
+    expect(findMatchingRule([pricing], context({ body: 'Priceless photo' }))).toBeNull();
+
+    const both = rule({ conditions: { keywords: ['price', 'shipping'], matchAllKeywords: true } });
+    expect(findMatchingRule([both], context({ body: 'price incl. shipping?' }))).not.toBeNull();
+    expect(findMatchingRule([both], context({ body: 'price?' }))).toBeNull();
+  });
+
+  it('combines regex, sentiment and lead score conditions and respects platform and kind', () => {
+    const complaint = rule({ conditions: { regex: 'order\\s*#?\\d+', sentiment: 'negative', minLeadScore: 10 }, platform: 'FACEBOOK', kinds: ['message'] });
+    const matching = context({ kind: 'message', body: 'Order #123 arrived broken', sentimentScore: 30, leadScore: 20 });
+
+    expect(findMatchingRule([complaint], matching)).not.toBeNull();
+    expect(findMatchingRule([complaint], { ...matching, sentimentScore: 70 })).toBeNull();
+    expect(findMatchingRule([complaint], { ...matching, leadScore: 5 })).toBeNull();
+    expect(findMatchingRule([complaint], { ...matching, kind: 'comment' })).toBeNull();
+    expect(findMatchingRule([complaint], { ...matching, platform: 'LINKEDIN' })).toBeNull();
+    expect(classifySentiment(50)).toBe('neutral');
+  });
+
+  it('picks the highest priority active rule, earlier rules winning ties', () => {
+    const low = rule({ id: 'low', priority: 1, conditions: { keywords: ['plan'] } });
+    const high = rule({ id: 'high', priority: 5, conditions: { keywords: ['plan'] } });
+    const inactive = rule({ id: 'inactive', priority: 10, isActive: false, conditions: { keywords: ['plan'] } });
+    const tie = rule({ id: 'tie', priority: 5, conditions: { keywords: ['annual'] } });
+
+    expect(findMatchingRule([low, inactive, high, tie], context())?.id).toBe('high');
+  });
+
+  it('validates conditions before rules are saved', () => {
+    expect(validateConditions({ keywords: [' price ', ''], regex: 'refund', sentiment: 'negative' }))
+      .toEqual({ keywords: ['price'], regex: 'refund', regexFlags: 'i', sentiment: 'negative' });
+    expect(() => validateConditions({})).toThrow(AutoReplyRuleError);
+    expect(() => validateConditions({ regex: '(' })).toThrow('Invalid regex');
+    expect(() => validateConditions({ regex: 'a', regexFlags: 'g' })).toThrow(AutoReplyRuleError);
+    expect(() => validateConditions({ sentiment: 'angry' })).toThrow(AutoReplyRuleError);
+  });
+
+  it('evaluates quiet hours in the configured timezone, including windows over midnight', () => {
+    const at = new Date('2024-06-01T21:30:00Z');
+
+    expect(isWithinQuietHours(at, '22:00', '07:00', 'UTC')).toBe(false);
+    expect(isWithinQuietHours(at, '22:00', '07:00', 'Europe/Berlin')).toBe(true);
+    expect(isWithinQuietHours(new Date('2024-06-01T06:59:00Z'), '22:00', '07:00', 'UTC')).toBe(true);
+    expect(isWithinQuietHours(at, '12:00', '18:00', 'America/New_York')).toBe(true);
+    expect(isWithinQuietHours(at, null, null)).toBe(false);
+  });
+});
+
+describe('AutoReplyService', () => {
+  // auto_reply_log kept in memory, counted the way countRecentAutoReplies does
+  function createService() {
+    const log: Array<{ id: string; conversationId: string; messageId: string; status: string }> = [];
+    const db = fakeDb({
+      getAutoReplySettings: () => Promise.resolve(null),
+      getAutoReplyRules: () => Promise.resolve([{
+        id: 'r1', organization_id: 'org_1', name: 'Pricing', description: null, platform: null, kinds: ['comment'], conditions: {},
+        response_template: 'Thanks!', priority: 0, is_active: true, created_by: null, created_at: new Date(), updated_at: new Date(),
+      }]),
+      getInboxConversation: id => Promise.resolve(conversationRow({ id })),
+      getAutopostSettings: () => Promise.resolve(null),
+      claimAutoReply: entry => {
+        const id = `arl_${log.length}`;
+        log.push({ id, conversationId: entry.conversationId, messageId: entry.messageId, status: 'pending' });
+        return Promise.resolve(id);
+      },
+      countRecentAutoReplies: (conversationId, _windowMinutes, claimId) => {
+        const claim = log.findIndex(entry => entry.id === claimId);
+        return Promise.resolve(log.filter((entry, i) => entry.conversationId === conversationId && i !== claim
+          && (['sent', 'dry_run'].includes(entry.status) || (entry.status === 'pending' && i < claim))).length);
+      },
+      completeAutoReply: (id, outcome) => {
+        log.find(entry => entry.id === id)!.status = outcome.status;
+        return Promise.resolve();
+      },
+    });
+    const reply = jest.fn((_orgId: string, conversationId: string, body: string) => Promise.resolve({
+      id: 'msg_1', conversationId, direction: 'outbound', isIncoming: false, content: body, author: null,
+      sentBy: null, sentAt: new Date(), externalId: null, deliveryStatus: 'sent', deliveryError: null, metadata: {},
+    }));
+    const inbox: Pick<InboxService, 'reply'> = { reply };
+    const service = new AutoReplyService(db, new QualityService(), new TemplateRenderService(db), inbox as InboxService);
+    return { service, log, reply };
+  }
+
+  it('counts claims still in progress, so messages arriving together get one reply', async () => {
+    const { service, log, reply } = createService();
+    const inbound = (messageId: string) => ({ conversationId: 'conv_1', messageId, platform: 'FACEBOOK', kind: 'comment', body: 'Price?' });
+
+    const outcomes = await Promise.all([service.handleInbound('org_1', inbound('m1')), service.handleInbound('org_1', inbound('m2'))]);
+
+    expect(outcomes.map(o => [o?.status, o?.reason])).toEqual([['sent', undefined], ['skipped', 'rate_limited']]);
+    expect(reply).toHaveBeenCalledTimes(1);
+    expect(log.map(entry => entry.status)).toEqual(['sent', 'skipped']);
+  });
+});
@@ -0,0 +1,255 @@
+import { QueueService } from '../src/queue.service';
+import {
+  BatchBriefKind,
+  BatchGenerationError,
+  BatchGenerationItemStatus,
+  BatchGenerationService,
+  BatchGenerationStatus,
+} from '../src/services/batch-generation.service';
+import { ContentGenerationService } from '../src/services/content-generation.service';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+import { fakeDb } from './support/fake-db';
+
+interface BatchJobRow {
+  id: string;
+  organization_id: string;
+  status: BatchGenerationStatus;
+  total_items: number;
+  progress: number;
+  metadata: Record<string, unknown>;
+  created_by: string;
+  completed_items?: number;
+  failed_items?: number;
+}
+
+interface BatchItemRow {
+  id: string;
+  job_id: string;
+  organization_id: string;
+  brief_id?: string;
+  position: number;
+  brief?: Record<string, unknown>;
+  status: BatchGenerationItemStatus;
+  attempts: number;
+  content_item_id?: string | null;
+  error?: string | null;
+  result?: Record<string, unknown> | null;
+}
+
+// Just enough of DbService's batch methods, kept in memory
+function createDb() {
+  const jobs = new Map<string, BatchJobRow>();
+  const items: BatchItemRow[] = [];
+  const contentItems: string[] = [];
+  const jobItems = (jobId: string) => items.filter(i => i.job_id === jobId).sort((a, b) => a.position - b.position);
+
+  const db = fakeDb({
+    createBatchGenerationJob: job => {
+      jobs.set(job.id, { id: job.id, organization_id: job.organizationId, status: 'pending', total_items: job.items.length, progress: 0, metadata: job.metadata, created_by: job.createdBy });
+      job.items.forEach((item, position) => {
+        items.push({ id: item.id, job_id: job.id, organization_id: job.organizationId, brief_id: item.briefId, position, brief: item.brief, status: 'pending', attempts: 0 });
+      });
+      return Promise.resolve();
+    },
+    getBatchGenerationJob: (jobId, organizationId) => {
+      const job = jobs.get(jobId);
+      return Promise.resolve(job && (!organizationId || job.organization_id === organizationId) ? job : null);
+    },
+    getBatchGenerationItems: (jobId, statuses) =>
+      Promise.resolve(jobItems(jobId).filter(i => !statuses || statuses.includes(i.status))),
+    transitionBatchGenerationJob: (jobId, from, to) => {
+      const job = jobs.get(jobId);
+      if (!job || !from.includes(job.status)) return Promise.resolve(null);
+      job.status = to;
+      return Promise.resolve(job);
+    },
+    resetBatchGenerationItems: (jobId, from, to) => {
+      const reset = jobItems(jobId).filter(i => i.status === from);
+      reset.forEach(i => {
+        i.status = to;
+        if (to === 'pending') i.error = null;
+      });
+      return Promise.resolve(reset);
+    },
+    claimBatchGenerationItem: (itemId, limits) => {
+      const item = items.find(i => i.id === itemId);
+      if (!item) return Promise.resolve({ outcome: 'closed', item: null });
+      if (item.status !== 'pending') return Promise.resolve({ outcome: item.status === 'running' ? 'running' : 'closed', item });
+      const running = items.filter(i => i.organization_id === item.organization_id && i.status === 'running');
+      if (running.length >= limits.organization || running.filter(i => i.job_id === item.job_id).length >= limits.job) {
+        return Promise.resolve({ outcome: 'limited', item });
+      }
+      item.status = 'running';
+      item.attempts++;
+      return Promise.resolve({ outcome: 'claimed', item });
+    },
+    finishBatchGenerationItem: (itemId, outcome) => {
+      const item = items.find(i => i.id === itemId)!;
+      Object.assign(item, { status: outcome.status, content_item_id: outcome.contentItemId ?? item.content_item_id, error: outcome.error ?? null, result: outcome.result ?? item.result });
+      return Promise.resolve(true);
+    },
+    refreshBatchGenerationJob: jobId => {
+      const job = jobs.get(jobId)!;
+      const all = jobItems(jobId);
+      const completed = all.filter(i => i.status === 'completed').length;
+      const open = all.filter(i => i.status === 'pending' || i.status === 'running').length;
+      const previous = job.status;
+      job.completed_items = completed;
+      job.failed_items = all.filter(i => i.status === 'failed').length;
+      if (previous === 'running' && open === 0) job.status = completed === 0 ? 'failed' : 'completed';
+      return Promise.resolve({ job, finished: previous === 'running' && job.status !== 'running' });
+    },
+    createContentItem: (_organizationId, title) => {
+      contentItems.push(title);
+      return Promise.resolve(`ci_${contentItems.length}`);
+    },
+    createContentVersion: () => Promise.resolve('ver_1'),
+    setCurrentContentVersion: () => Promise.resolve(true),
+  });
+  return { db, jobs, items, contentItems };
+}
+
+function createQueue() {
+  const started: string[] = [];
+  const queued: string[] = [];
+  const removed: string[] = [];
+  return {
+    started,
+    queued,
+    removed,
+    enqueueBatchGeneration: (data: { jobId: string }) => {
+      started.push(data.jobId);
+      return Promise.resolve();
+    },
+    enqueueBatchGenerationItems: (jobId: string, organizationId: string, itemIds: string[]) => {
+      queued.push(...itemIds);
+      return Promise.resolve();
+    },
+    removeBatchGenerationItems: (itemIds: string[]) => {
+      removed.push(...itemIds);
+      return Promise.resolve();
+    },
+  };
+}
+
+const BRIEFS = [
+  { id: 'b1', brief: 'Spring launch recap', kind: 'BLOG' as const, title: 'Spring launch' },
+  { id: 'b2', brief: 'Three tips for onboarding', kind: 'SOCIAL' as const, platform: 'LINKEDIN' },
+];
+
+describe('BatchGenerationService', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  function createService(generate: (input: Parameters<ContentGenerationService['generatePost']>[0]) => Promise<unknown> = () => Promise.resolve({
+    outline: null,
+    draft: { answer: 'Generated post', provider: 'openai', model: 'gpt-4o-mini' },
+    citations: [],
+    factCheck: null,
+    sources: ['https://example.com'],
+    brandValidation: null,
+  })) {
+    const store = createDb();
+    const queue = createQueue();
+    const contentGeneration = { generatePost: generate } as unknown as ContentGenerationService;
+    const errorHandling = new EnhancedErrorHandlingService();
+    const service = new BatchGenerationService(store.db, contentGeneration, queue as Partial<QueueService> as QueueService, errorHandling);
+    return { service, db: store, queue };
+  }
+
+  it('stores every brief and queues the batch without the briefs', async () => {
+    const { service, db, queue } = createService();
+    const jobId = await service.createBatchGenerationJob({ organizationId: 'org_1', briefs: BRIEFS }, 'user_1');
+
+    expect(queue.started).toEqual([jobId]);
+    expect(db.items.map(i => [i.brief_id, i.status, i.brief?.kind])).toEqual([['b1', 'pending', 'BLOG'], ['b2', 'pending', 'SOCIAL']]);
+    expect(db.jobs.get(jobId)).toMatchObject({ organization_id: 'org_1', status: 'pending', total_items: 2, created_by: 'user_1' });
+
+    await expect(service.createBatchGenerationJob({ organizationId: 'org_1', briefs: [BRIEFS[0], BRIEFS[0]] })).rejects.toThrow('Duplicate brief id "b1"');
+    await expect(service.createBatchGenerationJob({ organizationId: 'org_1', briefs: [{ ...BRIEFS[0], kind: 'VIDEO' as string as BatchBriefKind }] })).rejects.toThrow(BatchGenerationError);
+    expect(db.jobs.size).toBe(1);
+  });
+
+  it('fans out one child job per brief and links each brief to its content item', async () => {
+    const { service, db, queue } = createService();
+    const jobId = await service.createBatchGenerationJob({ organizationId: 'org_1', briefs: BRIEFS });
+
+    expect(await service.startBatchGeneration(jobId)).toBe(2);
+    for (const itemId of queue.queued) {
+      expect(await service.processBatchItem(jobId, itemId)).toEqual({ status: 'completed' });
+    }
+
+    const result = await service.getBatchGenerationResult('org_1', jobId);
+    expect(result).toMatchObject({ status: 'completed', success: true, completedItems: 2, failedItems: 0 });
+    expect(result!.results.map(r => [r.briefId, r.status, r.contentItemId, r.llm?.provider])).toEqual([
+      ['b1', 'completed', 'ci_1', 'openai'],
+      ['b2', 'completed', 'ci_2', 'openai'],
+    ]);
+    expect(db.contentItems).toEqual(['Spring launch', 'Three tips for onboarding']);
+    // Other organizations cannot see the batch
+    expect(await service.getBatchGenerationResult('org_2', jobId)).toBeNull();
+  });
+
+  it('defers briefs over the organization limit', async () => {
+    process.env.BATCH_GENERATION_ORG_CONCURRENCY = '1';
+    const { service, db, queue } = createService();
+    const jobId = await service.createBatchGenerationJob({ organizationId: 'org_1', briefs: BRIEFS });
+    await service.startBatchGeneration(jobId);
+    // Another batch of the organization is generating
+    db.items.push({ id: 'other', job_id: 'batch_other', organization_id: 'org_1', position: 0, status: 'running', attempts: 1 });
+
+    const outcome = await service.processBatchItem(jobId, queue.queued[0]);
+    expect(outcome).toMatchObject({ status: 'deferred', reason: 'limited' });
+    expect(outcome.delayMs).toBeGreaterThan(0);
+    expect(db.items[0].status).toBe('pending');
+  });
+
+  it('leaves briefs of a paused batch pending until it is resumed', async () => {
+    const { service, db, queue } = createService();
+    const jobId = await service.createBatchGenerationJob({ organizationId: 'org_1', briefs: BRIEFS });
+    await service.startBatchGeneration(jobId);
+    const [first, second] = queue.queued;
+
+    await service.processBatchItem(jobId, first);
+    const paused = await service.pauseBatchGeneration('org_1', jobId);
+    expect(paused).toMatchObject({ status: 'paused', completedItems: 1, pendingItems: 1 });
+    expect(queue.removed).toEqual([second]);
+    expect(await service.processBatchItem(jobId, second)).toEqual({ status: 'skipped', reason: 'batch is paused' });
+    await expect(service.pauseBatchGeneration('org_1', jobId)).rejects.toThrow('Cannot pause a paused batch job');
+
+    queue.queued.length = 0;
+    await service.resumeBatchGeneration('org_1', jobId);
+    expect(queue.queued).toEqual([second]);
+    await service.processBatchItem(jobId, second);
+    expect(db.jobs.get(jobId)?.status).toBe('completed');
+  });
+
+  it('retries failed briefs from their stored brief within the same job', async () => {
+    let socialFailed = false;
+    const { service, db, queue } = createService(input => {
+      if (input.kind === 'SOCIAL' && !socialFailed) {
+        socialFailed = true;
+        return Promise.reject(new Error('validation failed'));
+      }
+      return Promise.resolve({ outline: null, draft: { answer: 'ok', provider: 'perplexity', model: 'sonar' }, citations: [], factCheck: null, sources: [], brandValidation: null });
+    });
+    const jobId = await service.createBatchGenerationJob({ organizationId: 'org_1', briefs: BRIEFS });
+    await service.startBatchGeneration(jobId);
+    for (const itemId of queue.queued) await service.processBatchItem(jobId, itemId);
+
+    expect(db.jobs.get(jobId)).toMatchObject({ status: 'completed', completed_items: 1, failed_items: 1 });
+    expect(db.items[1]).toMatchObject({ status: 'failed', error: 'validation failed' });
+
+    queue.queued.length = 0;
+    expect(await service.retryFailedItems('org_1', jobId)).toEqual({ jobId, retriedItems: 1 });
+    expect(queue.queued).toEqual([db.items[1].id]);
+    expect(db.jobs.get(jobId)?.status).toBe('running');
+
+    expect(await service.processBatchItem(jobId, db.items[1].id)).toEqual({ status: 'completed' });
+    expect(db.items[1]).toMatchObject({ status: 'completed', attempts: 2, content_item_id: 'ci_2' });
+    expect(db.jobs.get(jobId)).toMatchObject({ status: 'completed', completed_items: 2, failed_items: 0 });
+    await expect(service.retryFailedItems('org_1', jobId)).rejects.toThrow('No failed items to retry');
+  });
+});
@@ -0,0 +1,272 @@
+import { CadencePolicyRow, DbService } from '../src/db.service';
+import { CadencePolicyError, CadencePolicyService, CadenceViolationError } from '../src/services/cadence-policy.service';
+import { SmartSchedulingService } from '../src/services/smart-scheduling.service';
+import { fakeDb } from './support/fake-db';
+
+type CadencePolicyUpsert = Parameters<DbService['upsertCadencePolicy']>[0];
+
+const policyRow = (fields: Partial<CadencePolicyRow>): CadencePolicyRow => ({
+  id: 'cadence_new',
+  organization_id: 'org_1',
+  target_account_id: null,
+  timezone: 'UTC',
+  max_per_day: null,
+  max_per_week: null,
+  min_gap_minutes: null,
+  quiet_hours: [],
+  blackouts: [],
+  enabled: true,
+  created_at: new Date('2026-03-01T00:00:00Z'),
+  updated_at: new Date('2026-03-01T00:00:00Z'),
+  ...fields,
+});
+
+function createDb(
+  policies: Array<Partial<CadencePolicyRow>>,
+  schedules: Array<{ id: string; platform: string; scheduled_at: string; target_account_id?: string }> = [],
+  methods: Partial<DbService> = {},
+) {
+  const saved: CadencePolicyUpsert[] = [];
+  // Stands in for the advisory lock: callers run one at a time
+  let lock: Promise<unknown> = Promise.resolve();
+  const getCadenceSchedules = jest.fn((_org: string, platforms: string[]) =>
+    Promise.resolve(schedules.filter(s => platforms.includes(s.platform))
+      .map(s => ({ target_account_id: null, ...s, scheduled_at: new Date(s.scheduled_at) }))));
+  const db = fakeDb({
+    listCadencePolicies: () => Promise.resolve(policies.map((p, i) => policyRow({ id: `cadence_${i}`, ...p }))),
+    getCadenceSchedules,
+    getTargetAccount: id => Promise.resolve(id === 'ta_1' ? { id } : null),
+    withCadenceLock: <T>(_org: string, fn: () => Promise<T>) => {
+      const run = lock.then(fn);
+      lock = run.catch(() => undefined);
+      return run;
+    },
+    upsertCadencePolicy: policy => {
+      saved.push(policy);
+      return Promise.resolve(policyRow({
+        organization_id: policy.organizationId,
+        target_account_id: policy.targetAccountId,
+        timezone: policy.timezone,
+        quiet_hours: policy.quietHours,
+        blackouts: policy.blackouts,
+        enabled: policy.enabled,
+      }));
+    },
+    ...methods,
+  });
+  return { db, saved, getCadenceSchedules };
+}
+
+const at = (iso: string) => new Date(iso);
+
+describe('CadencePolicyService', () => {
+  it('shifts a batch past gaps, daily limits and quiet hours in the policy timezone', async () => {
+    const { db } = createDb(
+      [{ timezone: 'Europe/Berlin', max_per_day: 2, min_gap_minutes: 60, quiet_hours: [{ start: '22:00', end: '07:00' }] }],
+      [{ id: 'sch_1', platform: 'LINKEDIN', scheduled_at: '2026-03-10T09:00:00Z' }],
+    );
+    const service = new CadencePolicyService(db);
+
+    const slots = await service.planSlots('org_1', [
+      { platform: 'LINKEDIN', scheduledAt: at('2026-03-10T09:30:00Z') },
+      { platform: 'LINKEDIN', scheduledAt: at('2026-03-10T12:00:00Z') },
+      { platform: 'FACEBOOK', scheduledAt: at('2026-03-10T09:30:00Z') },
+    ], true);
+
+    expect(slots.map(s => [s.scheduledAt, s.shifted, s.violations.map(v => v.rule)])).toEqual([
+      ['2026-03-10T10:00:00.000Z', true, ['min_gap']],
+      // The first item already used the day's second post; midnight in Berlin is quiet until 07:00
+      ['2026-03-11T06:00:00.000Z', true, ['max_per_day']],
+      ['2026-03-10T09:30:00.000Z', false, []],
+    ]);
+  });
+
+  it('rejects blackouts unless auto-shift moves past them', async () => {
+    const { db } = createDb([{ timezone: 'America/New_York', blackouts: [{ start: '2026-12-24', end: '2026-12-26', reason: 'Holidays' }] }]);
+    const service = new CadencePolicyService(db);
+    const request = [{ platform: 'FACEBOOK', scheduledAt: at('2026-12-25T15:00:00Z') }];
+
+    const rejection = service.enforce('org_1', request, false);
+    await expect(rejection).rejects.toThrow(CadenceViolationError);
+    await expect(rejection).rejects.toThrow('Blackout (Holidays) until 2026-12-27T05:00:00.000Z');
+
+    const [slot] = await service.enforce('org_1', request, true);
+    expect(slot.scheduledAt).toBe('2026-12-27T05:00:00.000Z');
+  });
+
+  it('counts an account policy against that account only', async () => {
+    const { db } = createDb(
+      [{ target_account_id: 'ta_1', max_per_week: 1 }],
+      [
+        { id: 'sch_1', platform: 'LINKEDIN', target_account_id: 'ta_2', scheduled_at: '2026-03-09T10:00:00Z' },
+        { id: 'sch_2', platform: 'LINKEDIN', target_account_id: 'ta_1', scheduled_at: '2026-03-10T10:00:00Z' },
+      ],
+    );
+    const service = new CadencePolicyService(db);
+
+    const slots = await service.planSlots('org_1', [
+      { platform: 'LINKEDIN', scheduledAt: at('2026-03-13T10:00:00Z'), targetAccountId: 'ta_2' },
+      { platform: 'LINKEDIN', scheduledAt: at('2026-03-13T10:00:00Z'), targetAccountId: 'ta_1' },
+    ], false);
+
+    expect(slots[0]).toMatchObject({ scheduledAt: '2026-03-13T10:00:00.000Z', violations: [] });
+    expect(slots[1].scheduledAt).toBeNull();
+    expect(slots[1].violations).toEqual([expect.objectContaining({
+      rule: 'max_per_week',
+      allowedFrom: '2026-03-16T00:00:00.000Z',
+      message: 'account ta_1 already has 1 posts in the week of 2026-03-09; the limit is 1 per week',
+    })]);
+  });
+
+  it('skips the policy lookup of schedules when the organization has no policies', async () => {
+    const { db, getCadenceSchedules } = createDb([]);
+    const slots = await new CadencePolicyService(db).enforce('org_1', [{ platform: 'GBP', scheduledAt: at('2026-03-10T03:00:00Z') }], false);
+    expect(slots[0].scheduledAt).toBe('2026-03-10T03:00:00.000Z');
+    expect(getCadenceSchedules).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of two concurrent requests take the last slot of the day', async () => {
+    const schedules: Array<{ id: string; platform: string; scheduled_at: string }> = [];
+    const { db } = createDb([{ max_per_day: 1 }], schedules);
+    const service = new CadencePolicyService(db);
+    const book = () => service.enforceAndCreate('org_1', [{ platform: 'LINKEDIN', scheduledAt: at('2026-03-10T09:00:00Z') }], false, async slots => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      schedules.push({ id: `sch_${schedules.length}`, platform: 'LINKEDIN', scheduled_at: slots[0].scheduledAt! });
+      return slots;
+    });
+
+    const results = await Promise.allSettled([book(), book()]);
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(CadenceViolationError);
+    expect(schedules).toHaveLength(1);
+  });
+
+  it('validates policies before saving them', async () => {
+    const { db, saved } = createDb([]);
+    const service = new CadencePolicyService(db);
+
+    await expect(service.savePolicy('org_1', { timezone: 'Mars/Olympus' })).rejects.toThrow('Unknown timezone');
+    await expect(service.savePolicy('org_1', { maxPerDay: 0 })).rejects.toThrow('maxPerDay must be a positive whole number');
+    await expect(service.savePolicy('org_1', { quietHours: [{ start: '22:00', end: '7:00' }] })).rejects.toThrow(CadencePolicyError);
+    await expect(service.savePolicy('org_1', { blackouts: [{ start: '2026-12-26', end: '2026-12-24' }] })).rejects.toThrow('end after it starts');
+    await expect(service.savePolicy('org_1', { targetAccountId: 'ta_missing' })).rejects.toThrow('Target account not found');
+
+    const policy = await service.savePolicy('org_1', {
+      targetAccountId: 'ta_1',
+      maxPerDay: 3,
+      quietHours: [{ start: '20:00', end: '08:00', platforms: ['linkedin'] }],
+    });
+    expect(saved[0]).toMatchObject({ organizationId: 'org_1', targetAccountId: 'ta_1', timezone: 'UTC', maxPerDay: 3, maxPerWeek: null, enabled: true });
+    expect(policy.quietHours).toEqual([{ start: '20:00', end: '08:00', platforms: ['LINKEDIN'] }]);
+  });
+});
+
+describe('recurring schedules under cadence policies', () => {
+  function createRecurringDb(policies: Array<Record<string, unknown>>) {
+    const occurrence = new Date(Math.floor((Date.now() + 30 * 60 * 1000) / 1000) * 1000);
+    const schedules: Array<{ contentItemId: string; platform: string; scheduledAt: string }> = [];
+    const recurring = {
+      id: 'recurring_1',
+      organizationId: 'org_1',
+      template: { platforms: ['FACEBOOK', 'LINKEDIN'], rrule: 'FREQ=DAILY', timezone: 'UTC', dtstart: occurrence.toISOString().slice(0, 19) },
+      contentTemplate: { type: 'SOCIAL', brief: 'Daily tip' },
+      next_execution: occurrence.toISOString(),
+    };
+    const createContentItem = jest.fn().mockResolvedValue('ci_1');
+    const { db } = createDb(policies, [], {
+      getDueRecurringSchedules: () => Promise.resolve([{ ...recurring }]),
+      advanceRecurringSchedule: () => Promise.resolve(true),
+      createContentItem,
+      createSchedule: (contentItemId, platform, scheduledAt) => {
+        schedules.push({ contentItemId, platform, scheduledAt: scheduledAt.toISOString() });
+        return Promise.resolve(`sch_${schedules.length}`);
+      },
+    });
+    return { schedules, createContentItem, occurrence, service: new SmartSchedulingService(db, new CadencePolicyService(db)) };
+  }
+
+  it('leaves out platforms the cadence blocks', async () => {
+    const { schedules, occurrence, service } = createRecurringDb([{ quiet_hours: [{ start: '00:00', end: '00:00', platforms: ['FACEBOOK'] }] }]);
+
+    await service.processRecurringSchedules();
+
+    expect(schedules).toEqual([{ contentItemId: 'ci_1', platform: 'LINKEDIN', scheduledAt: occurrence.toISOString() }]);
+  });
+
+  it('generates nothing when every platform is blocked', async () => {
+    const { createContentItem, service } = createRecurringDb([{ quiet_hours: [{ start: '00:00', end: '00:00' }] }]);
+
+    const result = await service.processRecurringSchedules();
+
+    expect(result).toEqual({ processed: 0, created: 0, errors: 0 });
+    expect(createContentItem).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of two concurrent occurrences take the last slot of the day', async () => {
+    const schedules: Array<{ id: string; platform: string; scheduled_at: string }> = [];
+    const occurrence = new Date(Math.floor((Date.now() + 30 * 60 * 1000) / 1000) * 1000);
+    const recurring = (id: string) => ({
+      id,
+      organizationId: 'org_1',
+      template: { platforms: ['LINKEDIN'], rrule: 'FREQ=DAILY', timezone: 'UTC', dtstart: occurrence.toISOString().slice(0, 19) },
+      contentTemplate: { type: 'SOCIAL', brief: 'Daily tip' },
+      next_execution: occurrence.toISOString(),
+    });
+    const { db } = createDb([{ max_per_day: 1 }], schedules, {
+      // Each worker picks up a different recurring schedule due at the same time
+      getDueRecurringSchedules: jest.fn().mockResolvedValueOnce([recurring('recurring_1')]).mockResolvedValueOnce([recurring('recurring_2')]),
+      advanceRecurringSchedule: () => Promise.resolve(true),
+      createContentItem: () => new Promise(resolve => setTimeout(() => resolve('ci_1'), 5)),
+      createSchedule: (_contentItemId, platform, scheduledAt) => {
+        schedules.push({ id: `sch_${schedules.length}`, platform, scheduled_at: scheduledAt.toISOString() });
+        return Promise.resolve(`sch_${schedules.length}`);
+      },
+    });
+    const service = new SmartSchedulingService(db, new CadencePolicyService(db));
+
+    const results = await Promise.all([service.processRecurringSchedules(), service.processRecurringSchedules()]);
+
+    expect(results.map(r => r.created)).toEqual([1, 0]);
+    expect(schedules).toHaveLength(1);
+  });
+});
+
+describe('rescheduling under cadence policies', () => {
+  function createRescheduleDb() {
+    const schedules = [
+      { id: 'sch_1', platform: 'LINKEDIN', scheduled_at: '2026-03-10T09:00:00Z' },
+      { id: 'sch_2', platform: 'LINKEDIN', scheduled_at: '2026-03-10T12:00:00Z' },
+      { id: 'sch_3', platform: 'LINKEDIN', scheduled_at: '2026-03-11T09:00:00Z' },
+      { id: 'sch_4', platform: 'LINKEDIN', scheduled_at: '2026-03-11T12:00:00Z' },
+    ];
+    const rescheduleContent = jest.fn().mockResolvedValue({});
+    const { db } = createDb([{ max_per_day: 2 }], schedules, {
+      getSchedule: id => {
+        const schedule = schedules.find(s => s.id === id);
+        return Promise.resolve(schedule
+          ? { ...schedule, content_item_id: 'ci_1', target_account_id: null, scheduled_at: new Date(schedule.scheduled_at), status: 'pending' }
+          : null);
+      },
+      rescheduleContent,
+    });
+    return { rescheduleContent, service: new SmartSchedulingService(db, new CadencePolicyService(db)) };
+  }
+
+  it('does not count the moved schedule against its new time', async () => {
+    const { rescheduleContent, service } = createRescheduleDb();
+
+    const slot = await service.reschedule('org_1', 'sch_1', at('2026-03-10T15:00:00Z'), false, 'Later');
+
+    expect(slot).toMatchObject({ scheduledAt: '2026-03-10T15:00:00.000Z', shifted: false });
+    expect(rescheduleContent).toHaveBeenCalledWith('sch_1', '2026-03-10T15:00:00.000Z', 'Later', 'org_1');
+  });
+
+  it('rejects a move onto a full day and unknown schedules', async () => {
+    const { rescheduleContent, service } = createRescheduleDb();
+
+    await expect(service.reschedule('org_1', 'sch_1', at('2026-03-11T15:00:00Z'), false)).rejects.toThrow(CadenceViolationError);
+    expect(await service.reschedule('org_1', 'sch_missing', at('2026-03-11T15:00:00Z'), false)).toBeNull();
+    expect(rescheduleContent).not.toHaveBeenCalled();
+  });
+});
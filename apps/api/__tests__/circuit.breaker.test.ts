@@ -0,0 +1,101 @@
+import {
+  admitCall,
+  CircuitOpenError,
+  CLOSED_CIRCUIT,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  parseRetryBudgets,
+  recordCallFailure,
+  recordCallSuccess,
+} from '../src/services/circuit-breaker';
+import { InMemoryCircuitBreakerStore } from '../src/services/circuit-breaker-store';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+
+const CONFIG = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, failureThreshold: 2 };
+
+describe('circuit breaker transitions', () => {
+  it('opens once failures inside the monitoring period reach the threshold', () => {
+    const once = recordCallFailure({ ...CLOSED_CIRCUIT }, CONFIG, 1000, false);
+    expect(once.state).toBe('CLOSED');
+    // The first failure has aged out of the window
+    const later = recordCallFailure(once, CONFIG, 1000 + CONFIG.monitoringPeriod, false);
+    expect(later).toMatchObject({ state: 'CLOSED', failureCount: 1 });
+
+    const open = recordCallFailure(later, CONFIG, 2000 + CONFIG.monitoringPeriod, false);
+    expect(open.state).toBe('OPEN');
+    expect(new Date(open.nextAttemptTime!).getTime()).toBe(2000 + CONFIG.monitoringPeriod + CONFIG.recoveryTimeout);
+  });
+
+  it('admits a single half-open probe and replaces it once it goes stale', () => {
+    const open = recordCallFailure(recordCallFailure({ ...CLOSED_CIRCUIT }, CONFIG, 0, false), CONFIG, 0, false);
+    expect(admitCall(open, CONFIG, CONFIG.recoveryTimeout - 1).admission.allowed).toBe(false);
+
+    const probe = admitCall(open, CONFIG, CONFIG.recoveryTimeout);
+    expect(probe.admission).toMatchObject({ allowed: true, probe: true });
+    expect(probe.next!.state).toBe('HALF_OPEN');
+    expect(admitCall(probe.next!, CONFIG, CONFIG.recoveryTimeout + 1).admission.allowed).toBe(false);
+
+    const replacement = admitCall(probe.next!, CONFIG, CONFIG.recoveryTimeout + CONFIG.probeTimeout);
+    expect(replacement.admission).toMatchObject({ allowed: true, probe: true });
+  });
+
+  it('closes after a successful probe and re-opens after a failed one', () => {
+    expect(recordCallSuccess(true)).toEqual(CLOSED_CIRCUIT);
+    expect(recordCallSuccess(false)).toBeNull();
+
+    const halfOpen = { ...CLOSED_CIRCUIT, state: 'HALF_OPEN' as const, probeStartedAt: new Date(0).toISOString() };
+    expect(recordCallFailure(halfOpen, CONFIG, 5000, true).state).toBe('OPEN');
+  });
+
+  it('validates RETRY_BUDGETS', () => {
+    expect(parseRetryBudgets(undefined)).toEqual({ default: 60 });
+    expect(parseRetryBudgets('{"default": 10, "meta": 2}')).toEqual({ default: 10, meta: 2 });
+    expect(() => parseRetryBudgets('[1]')).toThrow('RETRY_BUDGETS must be a JSON object');
+    expect(() => parseRetryBudgets('{"meta": -1}')).toThrow('RETRY_BUDGETS.meta must be a non-negative integer');
+  });
+});
+
+describe('EnhancedErrorHandlingService with a shared store', () => {
+  const failing = () => Promise.reject(new Error('upstream down'));
+  const previousBudgets = process.env.RETRY_BUDGETS;
+
+  afterEach(() => {
+    if (previousBudgets === undefined) delete process.env.RETRY_BUDGETS;
+    else process.env.RETRY_BUDGETS = previousBudgets;
+  });
+
+  it('rejects calls in every process once one of them opens the breaker', async () => {
+    const store = new InMemoryCircuitBreakerStore();
+    const api = new EnhancedErrorHandlingService(store);
+    const worker = new EnhancedErrorHandlingService(store);
+
+    for (let i = 0; i < DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold; i++) {
+      await expect(api.executeWithCircuitBreaker(failing, 'meta')).rejects.toThrow('upstream down');
+    }
+
+    const call = jest.fn(() => Promise.resolve('ok'));
+    await expect(worker.executeWithCircuitBreaker(call, 'meta')).rejects.toThrow(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+    expect((await worker.getCircuitBreakerState('meta')).state).toBe('OPEN');
+
+    expect(await worker.resetCircuitBreaker('meta')).toBe(true);
+    expect(await worker.resetCircuitBreaker('unknown')).toBe(false);
+    await expect(api.executeWithCircuitBreaker(call, 'meta')).resolves.toBe('ok');
+  });
+
+  it('stops retrying once the provider budget is spent across processes', async () => {
+    process.env.RETRY_BUDGETS = '{"perplexity": 2}';
+    const store = new InMemoryCircuitBreakerStore();
+    const first = new EnhancedErrorHandlingService(store);
+    const second = new EnhancedErrorHandlingService(store);
+    const retryConfig = { maxAttempts: 3, baseDelay: 1, maxDelay: 1, backoffMultiplier: 1, retryBudget: 'perplexity' };
+
+    const call = jest.fn(() => Promise.reject(new Error('upstream timeout')));
+    expect(await first.executeWithRetry(call, 'search', retryConfig)).toMatchObject({ success: false });
+    expect(call).toHaveBeenCalledTimes(3);
+
+    call.mockClear();
+    expect(await second.executeWithRetry(call, 'search', retryConfig)).toMatchObject({ success: false });
+    expect(call).toHaveBeenCalledTimes(1);
+    expect((await second.getRetryBudgets()).perplexity).toEqual({ limit: 2, used: 3 });
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  CONTENT_INDEX_DEFINITION,
+  buildSearchQuery,
+  normalizeSearchFilters,
+  parseSearchResponse,
+  toSearchDocument,
+} from '../src/services/content-search-query';
+
+describe('content search documents', () => {
+  it('indexes the current version with tags and scheduled platforms', () => {
+    const doc = toSearchDocument({
+      id: 'ci_1',
+      organization_id: 'org_1',
+      type: 'BLOG',
+      status: 'APPROVED',
+      title: 'Draft title',
+      version_title: 'Spring launch',
+      summary: 'What ships in spring',
+      body: 'Full body',
+      version_id: 'cv_2',
+      tags: ['launch', null],
+      platforms: ['LINKEDIN'],
+      author_id: null,
+      created_at: new Date('2030-01-01T00:00:00Z'),
+      updated_at: new Date('2030-01-02T00:00:00Z'),
+    });
+    expect(doc).toEqual({
+      id: 'ci_1',
+      organizationId: 'org_1',
+      type: 'BLOG',
+      status: 'APPROVED',
+      title: 'Spring launch',
+      summary: 'What ships in spring',
+      body: 'Full body',
+      versionId: 'cv_2',
+      tags: ['launch'],
+      platforms: ['LINKEDIN'],
+      authorId: null,
+      createdAt: '2030-01-01T00:00:00.000Z',
+      updatedAt: '2030-01-02T00:00:00.000Z',
+    });
+    // Every document field is mapped (the index is strict)
+    expect(Object.keys(CONTENT_INDEX_DEFINITION.mappings.properties).sort()).toEqual(Object.keys(doc).sort());
+  });
+
+  it('keeps the checked-in index definition in step with the code', () => {
+    const fixture: unknown = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../test/es_content_index.json'), 'utf8'));
+    expect(fixture).toEqual(CONTENT_INDEX_DEFINITION);
+  });
+});
+
+describe('content search queries', () => {
+  it('scopes to the organization and applies every filter', () => {
+    const body = buildSearchQuery('org_1', 'spring launch', {
+      type: 'BLOG',
+      status: 'APPROVED',
+      platform: 'LINKEDIN',
+      tags: ['launch', 'q2'],
+      dateFrom: '2030-01-01',
+    }, 3, 10);
+
+    expect(body.from).toBe(20);
+    expect(body.size).toBe(10);
+    expect(body.query.bool.filter).toEqual([
+      { term: { organizationId: 'org_1' } },
+      { term: { type: 'BLOG' } },
+      { term: { status: 'APPROVED' } },
+      { term: { platforms: 'LINKEDIN' } },
+      { term: { tags: 'launch' } },
+      { term: { tags: 'q2' } },
+      { range: { createdAt: { gte: '2030-01-01' } } },
+    ]);
+    expect(body.query.bool.must[0].multi_match).toMatchObject({ query: 'spring launch', fuzziness: 'AUTO' });
+    expect(Object.keys(body.aggs)).toEqual(['type', 'status', 'platform', 'tags']);
+    expect(body.aggs.platform).toEqual({ terms: { field: 'platforms', size: 20 } });
+  });
+
+  it('normalizes filters from query parameters and the legacy JSON parameter', () => {
+    expect(normalizeSearchFilters({ type: 'blog', platform: 'linkedin', tags: 'launch, q2,launch', status: '' })).toEqual({
+      type: 'BLOG',
+      status: undefined,
+      platform: 'LINKEDIN',
+      tags: ['launch', 'q2'],
+      authorId: undefined,
+      dateFrom: undefined,
+      dateTo: undefined,
+    });
+    expect(normalizeSearchFilters({ tags: ['a', 'b'] }).tags).toEqual(['a', 'b']);
+    expect(normalizeSearchFilters({}).tags).toBeUndefined();
+  });
+
+  it('returns ranked hits with highlights and facet counts', () => {
+    const parsed = parseSearchResponse({
+      hits: {
+        total: { value: 42, relation: 'eq' },
+        hits: [
+          {
+            _id: 'ci_1',
+            _score: 7.5,
+            _source: { title: 'Spring launch', type: 'BLOG', status: 'APPROVED', summary: null, tags: ['launch'], platforms: [], createdAt: '2030-01-01T00:00:00.000Z', updatedAt: '2030-01-01T00:00:00.000Z' },
+            highlight: { title: ['<mark>Spring</mark> launch'] },
+          },
+        ],
+      },
+      aggregations: {
+        type: { buckets: [{ key: 'BLOG', doc_count: 30 }, { key: 'SOCIAL', doc_count: 12 }] },
+        status: { buckets: [] },
+        platform: { buckets: [{ key: 'LINKEDIN', doc_count: 5 }] },
+        tags: { buckets: [] },
+      },
+    });
+
+    expect(parsed.total).toBe(42);
+    expect(parsed.results[0]).toMatchObject({ id: 'ci_1', score: 7.5, highlights: { title: ['<mark>Spring</mark> launch'] } });
+    expect(parsed.facets).toEqual({
+      type: [{ value: 'BLOG', count: 30 }, { value: 'SOCIAL', count: 12 }],
+      status: [],
+      platform: [{ value: 'LINKEDIN', count: 5 }],
+      tags: [],
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HubSpotConnector } from '../src/platforms/crm/hubspot-connector';
+import { CrmConnectorError } from '../src/platforms/crm/crm-connector';
+import {
+  DEFAULT_FIELD_MAPPINGS,
+  fromCrmProperties,
+  hashProperties,
+  toCrmProperties,
+  validateFieldMappings,
+} from '../src/platforms/crm/crm-field-mapping';
+
+type Contact = { id: string; properties: Record<string, string>; updatedAt: string };
+type Filter = { propertyName: string; operator: string; value: string };
+type RequestBody = {
+  filterGroups?: Array<{ filters: Filter[] }>;
+  properties?: Record<string, string>;
+  after?: string;
+  limit: number;
+};
+
+// Minimal in-process stand-in for the HubSpot CRM v3 contacts API
+function startMockHubSpot() {
+  const state = {
+    contacts: new Map<string, Contact>(),
+    searches: [] as RequestBody[],
+    rateLimited: false,
+    nextId: 501,
+    clock: Date.parse('2030-01-01T00:00:00Z'),
+  };
+
+  const touch = (contact: Omit<Contact, 'id'>) => {
+    state.clock += 1000;
+    contact.updatedAt = new Date(state.clock).toISOString();
+    contact.properties.lastmodifieddate = contact.updatedAt;
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const path = new URL(req.url || '/', 'http://localhost').pathname;
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.headers.authorization !== 'Bearer pat-test') {
+        return send(401, { status: 'error', message: 'Authentication credentials not found.' });
+      }
+      if (state.rateLimited) return send(429, { status: 'error', message: 'You have reached your secondly limit.' });
+
+      const body = (chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {}) as RequestBody;
+
+      if (req.method === 'GET' && path === '/account-info/v3/details') return send(200, { portalId: 424242, companyName: 'Bowery Test' });
+
+      if (req.method === 'POST' && path === '/crm/v3/objects/contacts/search') {
+        state.searches.push(body);
+        const filters = body.filterGroups?.[0]?.filters || [];
+        let results = Array.from(state.contacts.values()).filter(contact => filters.every(f => {
+          if (f.operator === 'EQ') return String(contact.properties[f.propertyName]).toLowerCase() === f.value.toLowerCase();
+          if (f.operator === 'GT') return Date.parse(contact.properties[f.propertyName]) > Number(f.value);
+          return false;
+        }));
+        results = results.sort((a, b) => Date.parse(a.updatedAt) - Date.parse(b.updatedAt));
+        const start = Number(body.after || 0);
+        const page = results.slice(start, start + body.limit);
+        const next = start + body.limit < results.length ? { next: { after: String(start + body.limit) } } : undefined;
+        return send(200, { total: results.length, results: page, ...(next ? { paging: next } : {}) });
+      }
+
+      if (req.method === 'POST' && path === '/crm/v3/objects/contacts') {
+        const contact = { id: String(state.nextId++), properties: { ...body.properties }, updatedAt: '' };
+        touch(contact);
+        state.contacts.set(contact.id, contact);
+        return send(201, contact);
+      }
+
+      const contactMatch = path.match(/^\/crm\/v3\/objects\/contacts\/(\d+)$/);
+      if (req.method === 'PATCH' && contactMatch) {
+        const contact = state.contacts.get(contactMatch[1]);
+        if (!contact) return send(404, { status: 'error', message: 'resource not found' });
+        Object.assign(contact.properties, body.properties);
+        touch(contact);
+        return send(200, contact);
+      }
+
+      return send(404, { status: 'error', message: 'Not found' });
+    });
+  });
+
+  return new Promise<{ server: http.Server; baseUrl: string; state: typeof state }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, state });
+    });
+  });
+}
+
+describe('HubSpotConnector against a mock HubSpot API', () => {
+  let mock: Awaited<ReturnType<typeof startMockHubSpot>>;
+  let connector: HubSpotConnector;
+
+  beforeEach(async () => {
+    mock = await startMockHubSpot();
+    connector = new HubSpotConnector('pat-test', mock.baseUrl);
+  });
+
+  afterEach(done => {
+    mock.server.close(() => { done(); });
+  });
+
+  it('checks credentials and reports auth failures as non-retryable', async () => {
+    await expect(connector.testConnection()).resolves.toEqual({ accountId: '424242', name: 'Bowery Test' });
+
+    const error: unknown = await new HubSpotConnector('wrong', mock.baseUrl).testConnection().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CrmConnectorError);
+    expect(error).toMatchObject({ status: 401, retryable: false, message: 'Authentication credentials not found.' });
+  });
+
+  it('creates, finds by email and updates contacts', async () => {
+    const created = await connector.createContact({ email: 'ada@example.com', firstname: 'Ada' });
+    expect(created.externalId).toBe('501');
+
+    const found = await connector.findContactByEmail('ADA@example.com');
+    expect(found?.externalId).toBe('501');
+    await expect(connector.findContactByEmail('nobody@example.com')).resolves.toBeNull();
+
+    const updated = await connector.updateContact('501', { company: 'Analytical Engines' });
+    expect(updated.updatedAt.getTime()).toBeGreaterThan(created.updatedAt.getTime());
+    expect(mock.state.contacts.get('501')!.properties).toMatchObject({ firstname: 'Ada', company: 'Analytical Engines' });
+
+    await expect(connector.updateContact('999', { company: 'x' })).rejects.toMatchObject({ status: 404, retryable: false });
+  });
+
+  it('pages through contacts modified after the cursor, oldest first', async () => {
+    for (let i = 0; i < 150; i++) await connector.createContact({ email: `lead${i}@example.com` });
+    const cursor = new Date(mock.state.clock - 120 * 1000);
+
+    const first = await connector.listModifiedContacts(cursor, ['hubspot_owner_id', 'lifecyclestage']);
+    expect(first.records).toHaveLength(100);
+    expect(first.nextPage).toBeDefined();
+    const second = await connector.listModifiedContacts(cursor, ['hubspot_owner_id', 'lifecyclestage'], first.nextPage);
+    expect(second.records).toHaveLength(20);
+    expect(second.nextPage).toBeUndefined();
+
+    expect(first.records[0].properties.email).toBe('lead30@example.com');
+    expect(mock.state.searches[0]).toMatchObject({
+      filterGroups: [{ filters: [{ propertyName: 'lastmodifieddate', operator: 'GT', value: String(cursor.getTime()) }] }],
+      sorts: [{ propertyName: 'lastmodifieddate', direction: 'ASCENDING' }],
+      properties: ['hubspot_owner_id', 'lifecyclestage', 'lastmodifieddate'],
+    });
+  });
+
+  it('marks rate limits as retryable so the sync stops', async () => {
+    mock.state.rateLimited = true;
+    await expect(connector.createContact({ email: 'a@example.com' })).rejects.toMatchObject({ status: 429, retryable: true });
+  });
+});
+
+describe('CRM field mappings', () => {
+  const mappings = DEFAULT_FIELD_MAPPINGS.hubspot;
+
+  it('builds contact properties from a lead, splitting the name and leaving out empty fields', () => {
+    const properties = toCrmProperties(
+      { name: 'Ada King Lovelace', email: 'ada@example.com', phone: null, company: 'Engines', title: '', customFields: {} },
+      mappings,
+    );
+    expect(properties).toEqual({ email: 'ada@example.com', firstname: 'Ada', lastname: 'King Lovelace', company: 'Engines' });
+    expect(hashProperties(properties)).toBe(hashProperties({ company: 'Engines', lastname: 'King Lovelace', firstname: 'Ada', email: 'ada@example.com' }));
+  });
+
+  it('pulls owner and stage into custom fields and only returns changes', () => {
+    const lead = { email: 'ada@example.com', phone: '+44123', company: 'Engines', customFields: { campaign: 'spring' } };
+    const updates = fromCrmProperties(
+      lead,
+      { email: 'ada@example.com', phone: '+44999', company: 'Engines', hubspot_owner_id: '77', lifecyclestage: 'salesqualifiedlead', jobtitle: 'CTO' },
+      mappings,
+    );
+    expect(updates).toEqual({
+      phone: '+44999',
+      customFields: { campaign: 'spring', crmOwnerId: '77', crmStage: 'salesqualifiedlead' },
+    });
+
+    const unchanged = { ...lead, phone: '+44999', customFields: updates.customFields };
+    expect(fromCrmProperties(unchanged, { phone: '+44999', hubspot_owner_id: '77', lifecyclestage: 'salesqualifiedlead' }, mappings)).toEqual({});
+  });
+
+  it('rejects mappings that cannot be applied', () => {
+    expect(validateFieldMappings(mappings)).toEqual(mappings);
+    expect(() => validateFieldMappings([{ agentBoweryField: 'firstName', crmField: 'firstname', direction: 'import' }])).toThrow('firstName cannot be imported');
+    expect(() => validateFieldMappings([{ agentBoweryField: 'nope', crmField: 'x', direction: 'export' }])).toThrow('nope cannot be exported');
+    expect(() => validateFieldMappings([
+      { agentBoweryField: 'company', crmField: 'company', direction: 'import' },
+      { agentBoweryField: 'company', crmField: 'name', direction: 'bidirectional' },
+    ])).toThrow('company is imported from more than one CRM field');
+  });
+});
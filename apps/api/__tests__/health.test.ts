@@ -1,8 +1,9 @@
 import { HealthController } from '../src/health.controller';
+import { fakeDb } from './support/fake-db';
 
 describe('HealthController', () => {
   it('returns ok', () => {
-    const c = new HealthController();
+    const c = new HealthController(fakeDb({}));
     expect(c.health()).toEqual({ status: 'ok' });
   });
 });
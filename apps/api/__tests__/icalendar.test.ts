@@ -0,0 +1,247 @@
+import { CadencePolicyRow, CalendarFeedRow, DbService } from '../src/db.service';
+import { CadencePolicyService } from '../src/services/cadence-policy.service';
+import { ICalendarService, buildCalendarFeed, calendarOccurrences, parseCalendar } from '../src/services/icalendar.service';
+import { fakeDb } from './support/fake-db';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+type CalendarEventRow = Parameters<DbService['importCalendarEvent']>[0];
+
+function createDb(policies: Array<Partial<CadencePolicyRow>> = []) {
+  const feeds: Array<CalendarFeedRow & { token_hash: string }> = [];
+  const imported: CalendarEventRow[] = [];
+  const getCalendarFeedSchedules = jest.fn().mockResolvedValue([]);
+  const db = fakeDb({
+    createCalendarFeed: feed => {
+      const row = {
+        id: `calfeed_${feeds.length}`,
+        organization_id: feed.organizationId,
+        name: feed.name,
+        token_hash: feed.tokenHash,
+        created_by: feed.createdBy,
+        created_at: NOW,
+        last_accessed_at: null,
+        revoked_at: null,
+      };
+      feeds.push(row);
+      return Promise.resolve(row);
+    },
+    useCalendarFeed: tokenHash => Promise.resolve(feeds.find(f => f.token_hash === tokenHash) || null),
+    getCalendarFeedSchedules,
+    getTargetAccount: id => Promise.resolve(
+      id === 'ta_li' ? { id, platform: 'LINKEDIN', account_name: 'Acme', account_type: 'company', is_active: true } : null,
+    ),
+    listCadencePolicies: () => Promise.resolve(policies.map((p, i) => ({
+      id: `cadence_${i}`,
+      organization_id: 'org_1',
+      target_account_id: null,
+      timezone: 'UTC',
+      max_per_day: null,
+      max_per_week: null,
+      min_gap_minutes: null,
+      quiet_hours: [],
+      blackouts: [],
+      enabled: true,
+      created_at: NOW,
+      updated_at: NOW,
+      ...p,
+    }))),
+    // Imported drafts count against the cadence like any other schedule
+    getCadenceSchedules: () => Promise.resolve(imported.flatMap(e => e.schedules.map(s => ({ id: e.eventKey, platform: s.platform, target_account_id: s.targetAccount?.id || null, scheduled_at: s.scheduledAt })))),
+    withCadenceLock: <T>(_org: string, fn: () => Promise<T>) => fn(),
+    importCalendarEvent: event => {
+      if (imported.some(e => e.eventKey === event.eventKey)) return Promise.resolve(null);
+      imported.push(event);
+      return Promise.resolve({ contentItemId: `ci_${imported.length}`, scheduleIds: event.schedules.map((_, i) => `sch_${i}`) });
+    },
+  });
+  return { db, feeds, imported, getCalendarFeedSchedules };
+}
+
+const createService = ({ db }: ReturnType<typeof createDb>) => new ICalendarService(db, new CadencePolicyService(db));
+
+describe('calendar feeds', () => {
+  it('renders schedules as escaped, folded events', () => {
+    const feed = buildCalendarFeed('Marketing; launches', [{
+      id: 'sch_1',
+      content_item_id: 'ci_1',
+      platform: 'LINKEDIN',
+      scheduled_at: '2026-03-05T14:30:00.000Z',
+      status: 'failed',
+      target_account_name: 'Acme, Inc.',
+      error_message: 'Token expired',
+      title: `Spring launch — ${'a very long title '.repeat(4)}`,
+      type: 'SOCIAL',
+    }], NOW);
+
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    for (const line of feed.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(feed).toContain('X-WR-CALNAME:Marketing\\; launches');
+    expect(feed).toContain('UID:sch_1@agent-bowery');
+    expect(feed).toContain('DTSTART:20260305T143000Z');
+    expect(feed).toContain('CATEGORIES:LINKEDIN,SOCIAL');
+
+    const [event] = parseCalendar(feed).events;
+    const description = event.properties.find(p => p.name === 'DESCRIPTION')?.value;
+    expect(description).toBe('Platform: LINKEDIN\\nAccount: Acme\\, Inc.\\nStatus: failed\\nError: Token expired\\nContent: ci_1');
+    expect(event.properties.find(p => p.name === 'SUMMARY')?.value).toMatch(/^Spring launch — a very long title .* \[LINKEDIN\]$/);
+  });
+
+  it('serves a feed only for its token and passes the filters on', async () => {
+    const store = createDb();
+    const service = createService(store);
+    const { token, url } = await service.createFeed('org_1', 'Team', 'user_1');
+
+    expect(url).toMatch(new RegExp(`/calendar/ics/${token}\\.ics$`));
+    expect(store.feeds[0].token_hash).not.toContain(token);
+    expect(await service.renderFeed('not-the-token', {})).toBeNull();
+
+    const feed = await service.renderFeed(token, { platforms: ['FACEBOOK'], targetAccountIds: ['ta_1'] }, NOW);
+    expect(feed).toContain('X-WR-CALNAME:Team');
+    expect(store.getCalendarFeedSchedules).toHaveBeenCalledWith('org_1', {
+      since: new Date('2025-12-01T00:00:00Z'),
+      platforms: ['FACEBOOK'],
+      targetAccountIds: ['ta_1'],
+      limit: 2000,
+    });
+  });
+});
+
+describe('calendar import', () => {
+  it('expands recurring events in their timezone with exceptions and overrides', () => {
+    const { occurrences } = calendarOccurrences(ics(
+      'BEGIN:VEVENT',
+      'UID:weekly-tip',
+      'SUMMARY:Weekly tip\\, LinkedIn',
+      'DTSTART;TZID=America/New_York:20260302T090000',
+      'RRULE:FREQ=WEEKLY;COUNT=4',
+      'EXDATE;TZID=America/New_York:20260316T090000',
+      'CATEGORIES:LinkedIn',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly-tip',
+      'RECURRENCE-ID;TZID=America/New_York:20260323T090000',
+      'DTSTART;TZID=America/New_York:20260324T120000',
+      'SUMMARY:Weekly tip (moved)',
+      'END:VEVENT',
+    ), 'UTC', NOW);
+
+    expect(occurrences.map(o => [o.eventKey, o.scheduledAt.toISOString(), o.title])).toEqual([
+      ['weekly-tip@2026-03-02T14:00:00.000Z', '2026-03-02T14:00:00.000Z', 'Weekly tip, LinkedIn'],
+      ['weekly-tip@2026-03-09T13:00:00.000Z', '2026-03-09T13:00:00.000Z', 'Weekly tip, LinkedIn'],
+      ['weekly-tip@2026-03-23T13:00:00.000Z', '2026-03-24T16:00:00.000Z', 'Weekly tip (moved)'],
+    ]);
+    expect(occurrences[0].categories).toEqual(['LINKEDIN']);
+  });
+
+  it('creates drafts per platform and account, skipping past, cancelled and repeated events', async () => {
+    const store = createDb();
+    const service = createService(store);
+    const file = ics(
+      'X-WR-TIMEZONE:Europe/Berlin',
+      'BEGIN:VEVENT',
+      'UID:launch',
+      'SUMMARY:Launch post',
+      'DESCRIPTION:Line one\\nLine two',
+      'DTSTART;VALUE=DATE:20260310',
+      'CATEGORIES:LINKEDIN,FACEBOOK',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:blog',
+      'SUMMARY:Blog',
+      'DTSTART:20260311T080000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:old',
+      'SUMMARY:Old',
+      'DTSTART:20250101T080000Z',
+      'CATEGORIES:FACEBOOK',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:dropped',
+      'SUMMARY:Dropped',
+      'STATUS:CANCELLED',
+      'DTSTART:20260312T080000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:sch_9@agent-bowery',
+      'SUMMARY:Ours',
+      'DTSTART:20260312T080000Z',
+      'END:VEVENT',
+    );
+
+    const result = await service.importCalendar('org_1', 'user_1', file, { platforms: ['wordpress'], targetAccountIds: ['ta_li'] }, NOW);
+
+    expect(result.imported.map(i => [i.eventKey, i.scheduledAt, i.platforms])).toEqual([
+      ['launch', '2026-03-10T08:00:00.000Z', ['LINKEDIN', 'FACEBOOK']],
+      ['blog', '2026-03-11T08:00:00.000Z', ['WORDPRESS']],
+    ]);
+    expect(store.imported[0]).toMatchObject({ organizationId: 'org_1', title: 'Launch post', type: 'SOCIAL', body: 'Line one\nLine two', authorId: 'user_1' });
+    expect(store.imported[0].schedules.map(s => [s.platform, s.targetAccount?.id])).toEqual([['LINKEDIN', 'ta_li'], ['FACEBOOK', undefined]]);
+    expect(store.imported[1].type).toBe('BLOG');
+    expect(result.skipped.map(s => [s.uid, s.reason])).toEqual([
+      ['old', 'Event is not in the coming year'],
+      ['dropped', 'Event is cancelled'],
+      ['sch_9@agent-bowery', 'Event comes from an Agent Bowery feed'],
+    ]);
+
+    const again = await service.importCalendar('org_1', 'user_1', file, { platforms: ['WORDPRESS'] }, NOW);
+    expect(again.imported).toEqual([]);
+    expect(again.skipped.filter(s => s.reason === 'Event was imported before').map(s => s.uid)).toEqual(['launch', 'blog']);
+  });
+
+  it('rejects files and options it cannot use', async () => {
+    const service = createService(createDb());
+    await expect(service.importCalendar('org_1', 'user_1', 'not a calendar')).rejects.toThrow('Not an iCalendar file');
+    await expect(service.importCalendar('org_1', 'user_1', ics(), { platforms: ['MYSPACE'] })).rejects.toThrow('Unknown platform MYSPACE');
+    await expect(service.importCalendar('org_1', 'user_1', ics(), { targetAccountIds: ['ta_missing'] })).rejects.toThrow('Target account not found');
+
+    const { skipped } = calendarOccurrences(ics(
+      'BEGIN:VEVENT',
+      'UID:hourly',
+      'DTSTART:20260310T080000Z',
+      'RRULE:FREQ=HOURLY',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:windows-zone',
+      'DTSTART;TZID=Pacific Standard Time:20260310T080000',
+      'END:VEVENT',
+    ), 'UTC', NOW);
+    expect(skipped.map(s => s.reason)).toEqual(['FREQ=HOURLY is not supported; use DAILY, WEEKLY, MONTHLY, YEARLY', 'Unknown timezone "Pacific Standard Time"']);
+  });
+
+  it('skips events the posting cadence blocks', async () => {
+    const store = createDb([{ max_per_day: 1 }]);
+    const service = createService(store);
+    const file = ics(
+      'BEGIN:VEVENT',
+      'UID:morning',
+      'SUMMARY:Morning post',
+      'DTSTART:20260310T080000Z',
+      'CATEGORIES:LINKEDIN',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:evening',
+      'SUMMARY:Evening post',
+      'DTSTART:20260310T180000Z',
+      'CATEGORIES:LINKEDIN',
+      'END:VEVENT',
+    );
+
+    const result = await service.importCalendar('org_1', 'user_1', file, {}, NOW);
+
+    expect(result.imported.map(i => i.eventKey)).toEqual(['morning']);
+    expect(result.skipped).toEqual([{
+      uid: 'evening',
+      title: 'Evening post',
+      reason: 'LINKEDIN at 2026-03-10T18:00:00.000Z breaks the posting cadence: LINKEDIN already has 1 posts on 2026-03-10; the limit is 1 per day',
+    }]);
+  });
+});
@@ -0,0 +1,115 @@
+import { MetaClientService, MetaReplyResult } from '../src/platforms/meta/meta-client.service';
+import { LinkedInClientService, LinkedInReplyResult } from '../src/platforms/linkedin/linkedin-client.service';
+import { InboxDeliveryError, InboxService, InboxValidationError } from '../src/services/inbox.service';
+import { AccessTokenInfo, TokenService } from '../src/token.service';
+import { fakeDb } from './support/fake-db';
+import { conversationRow, messageRow } from './support/inbox-rows';
+
+function createService(conversation = conversationRow({ unread_count: 2 })) {
+  const calls: string[] = [];
+  const db = {
+    getInboxConversations: jest.fn().mockResolvedValue({ conversations: [conversation, conversationRow({ id: 'conv_2', unread_count: null })], total: 2 }),
+    getInboxConversation: jest.fn().mockResolvedValue(conversation),
+    markConversationRead: jest.fn().mockResolvedValue(true),
+    updateConversation: jest.fn((id: string, _orgId: string, updates: { status?: string; assignedTo?: string | null }) =>
+      Promise.resolve({ ...conversation, id, assigned_to: updates.assignedTo ?? null, status: updates.status || 'active' })),
+    recordOutboundMessage: jest.fn((conversationId: string, message: { body: string; metadata?: Record<string, unknown> }) => {
+      calls.push('record');
+      return Promise.resolve(messageRow({ conversation_id: conversationId, direction: 'outbound', body: message.body, metadata: message.metadata, delivery_status: 'pending' }));
+    }),
+    completeOutboundMessage: jest.fn((id: string, externalId: string | null) =>
+      Promise.resolve(messageRow({ id, conversation_id: conversation.id, direction: 'outbound', body: 'Thanks!', external_id: externalId, delivery_status: 'sent' }))),
+    failOutboundMessage: jest.fn().mockResolvedValue(null),
+  };
+  // PAGE1 has its own page connection; LinkedIn company 42 is reached through the member who administers it
+  const token = (accessToken: string): AccessTokenInfo => ({ accessToken, dummy: false, socialAccountId: null });
+  const tokens: Pick<TokenService, 'getAccountAccessToken' | 'findConnectedAccount'> = {
+    getAccountAccessToken: (_orgId, platform, externalId) =>
+      Promise.resolve(platform === 'FACEBOOK' && externalId === 'PAGE1' ? token('page1_token') : null),
+    findConnectedAccount: (_orgId, _platform, reach) =>
+      reach({ ...token('member_token'), externalId: '42' }).then(found => found ?? null),
+  };
+  const metaReply = jest.fn<Promise<MetaReplyResult>, [string, string, string]>(() => {
+    calls.push('deliver');
+    return Promise.resolve({ success: true, id: 'C1_R1' });
+  });
+  const meta: Pick<MetaClientService, 'getUserPages' | 'replyToComment'> = {
+    getUserPages: () => Promise.resolve([]),
+    replyToComment: metaReply,
+  };
+  const linkedinReply = jest.fn<Promise<LinkedInReplyResult>, [string, string, string, string, string]>(() => Promise.resolve({ success: true, id: 'urn:li:comment:9' }));
+  const linkedin: Pick<LinkedInClientService, 'getUserCompanies' | 'replyToComment'> = {
+    getUserCompanies: () => Promise.resolve([{ id: '42', name: 'Bowery', description: '', website: '', industry: '', companySize: '' }]),
+    replyToComment: linkedinReply,
+  };
+  const service = new InboxService(fakeDb(db), tokens as TokenService, meta as MetaClientService, linkedin as LinkedInClientService);
+  return { service, db, meta: { replyToComment: metaReply }, linkedin: { replyToComment: linkedinReply }, calls };
+}
+
+describe('InboxService', () => {
+  it('lists conversations with their unread counts and passes the filters through', async () => {
+    const { service, db } = createService();
+    const filters = { status: 'active', assignedTo: null, unreadOnly: true };
+
+    const { conversations, total } = await service.listConversations('org_1', filters, 2, 25);
+
+    expect(db.getInboxConversations).toHaveBeenCalledWith('org_1', filters, 2, 25);
+    expect(total).toBe(2);
+    expect(conversations.map(c => [c.id, c.unreadCount])).toEqual([['conv_1', 2], ['conv_2', 0]]);
+    expect(conversations[0].lead).toMatchObject({ id: 'lead_1', name: 'Ann', tags: [] });
+  });
+
+  it('assigns conversations and rejects unknown statuses', async () => {
+    const { service, db } = createService();
+
+    const assigned = await service.updateConversation('org_1', 'conv_1', { assignedTo: 'user_7' });
+    expect(assigned).toMatchObject({ id: 'conv_1', assignedTo: 'user_7' });
+    await expect(service.updateConversation('org_1', 'conv_1', { status: 'closed' })).rejects.toThrow(InboxValidationError);
+    expect(db.updateConversation).toHaveBeenCalledTimes(1);
+
+    await service.markRead('org_1', 'conv_1');
+    expect(db.markConversationRead).toHaveBeenCalledWith('conv_1', 'org_1');
+  });
+
+  it('records a reply as pending, delivers it with the page\'s own token, then marks it sent', async () => {
+    const { service, db, meta, calls } = createService();
+
+    const message = await service.reply('org_1', 'conv_1', '  Thanks!  ', 'user_7');
+
+    expect(calls).toEqual(['record', 'deliver']);
+    expect(db.recordOutboundMessage).toHaveBeenCalledWith('conv_1', { body: 'Thanks!', sentBy: 'user_7', metadata: {} });
+    expect(meta.replyToComment).toHaveBeenCalledWith('C1', 'page1_token', 'Thanks!');
+    expect(db.completeOutboundMessage).toHaveBeenCalledWith('msg_1', 'C1_R1');
+    expect(message).toMatchObject({ id: 'msg_1', externalId: 'C1_R1', deliveryStatus: 'sent' });
+  });
+
+  it('replies to LinkedIn comments as the company with a token of a member who administers it', async () => {
+    const { service, linkedin } = createService(conversationRow({
+      platform: 'LINKEDIN',
+      external_id: 'urn:li:comment:7',
+      account_external_id: '42',
+      metadata: { sourcePost: 'urn:li:share:1' },
+    }));
+
+    await service.reply('org_1', 'conv_1', 'Thanks!');
+
+    expect(linkedin.replyToComment).toHaveBeenCalledWith('urn:li:share:1', 'urn:li:comment:7', 'member_token', 'Thanks!', 'urn:li:organization:42');
+  });
+
+  it('keeps a reply the platform rejected as failed', async () => {
+    const { service, db, meta } = createService();
+    meta.replyToComment.mockResolvedValueOnce({ success: false, error: 'Comment was deleted' });
+
+    await expect(service.reply('org_1', 'conv_1', 'Thanks!')).rejects.toThrow(new InboxDeliveryError('Comment was deleted'));
+    expect(db.failOutboundMessage).toHaveBeenCalledWith('msg_1', 'Comment was deleted');
+    expect(db.completeOutboundMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects replies to conversations that cannot be answered without recording them', async () => {
+    const { service, db } = createService(conversationRow({ platform: 'GBP', kind: 'review' }));
+
+    await expect(service.reply('org_1', 'conv_1', 'Thanks!')).rejects.toThrow('Replying to GBP reviews is not supported');
+    await expect(service.reply('org_1', 'conv_1', '   ')).rejects.toThrow('message is required');
+    expect(db.recordOutboundMessage).not.toHaveBeenCalled();
+  });
+});
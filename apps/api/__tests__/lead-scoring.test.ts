@@ -0,0 +1,49 @@
+import { DEFAULT_LEAD_SCORING, LeadScoringConfigError, computeLeadScore, mergeScoringConfig } from '../src/services/lead-scoring';
+
+const now = new Date('2024-06-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 86400000);
+
+describe('Lead scoring', () => {
+  it('adds message, intent, sentiment and source points', () => {
+    const { score, breakdown } = computeLeadScore('LINKEDIN', [
+      { body: 'Could we book a demo next week?', sentAt: now, sentimentScore: 50 },
+      { body: 'Love it. What is the pricing for teams?', sentAt: now, sentimentScore: 70 },
+    ], DEFAULT_LEAD_SCORING, now);
+
+    expect(breakdown).toEqual({ messages: 10, sentiment: 5, intent: 45, source: 10, matchedIntents: ['demo', 'pricing'] });
+    expect(score).toBe(70);
+  });
+
+  it('counts each intent once, caps engagement and clamps the total to 0-100', () => {
+    const messages = Array.from({ length: 20 }, () => ({ body: 'price? quote? buy? purchase? demo?', sentAt: now, sentimentScore: 50 }));
+    const { score, breakdown } = computeLeadScore('FACEBOOK', messages, DEFAULT_LEAD_SCORING, now);
+
+    expect(breakdown.messages).toBe(30);
+    expect(breakdown.intent).toBe(50);
+    expect(score).toBe(85);
+
+    const angry = computeLeadScore('manual', [{ body: 'terrible', sentAt: now, sentimentScore: 0 }], mergeScoringConfig({ messagePoints: 0 }), now);
+    expect(angry.score).toBe(0);
+  });
+
+  it('decays engagement by message age', () => {
+    const fresh = computeLeadScore('manual', [{ body: 'quote please', sentAt: now, sentimentScore: 50 }], DEFAULT_LEAD_SCORING, now);
+    const old = computeLeadScore('manual', [{ body: 'quote please', sentAt: daysAgo(30), sentimentScore: 50 }], DEFAULT_LEAD_SCORING, now);
+    const noDecay = computeLeadScore('manual', [{ body: 'quote please', sentAt: daysAgo(30), sentimentScore: 50 }], mergeScoringConfig({ decayHalfLifeDays: 0 }), now);
+
+    expect(fresh.score).toBe(30);
+    expect(old.breakdown).toMatchObject({ messages: 2.5, intent: 12.5 });
+    expect(old.score).toBe(15);
+    expect(noDecay.score).toBe(30);
+  });
+
+  it('merges organization overrides over the defaults and validates them', () => {
+    const config = mergeScoringConfig({ intentKeywords: { ' Consultation ': 40 }, sentimentPoints: { negative: -20 } });
+
+    expect(config.intentKeywords).toEqual({ consultation: 40 });
+    expect(config.sentimentPoints).toEqual({ positive: 5, negative: -20 });
+    expect(config.sourcePoints).toEqual(DEFAULT_LEAD_SCORING.sourcePoints);
+    expect(() => mergeScoringConfig({ messagePoints: -1 })).toThrow(LeadScoringConfigError);
+    expect(() => mergeScoringConfig({ intentKeywords: { demo: 'lots' } })).toThrow(LeadScoringConfigError);
+  });
+});
@@ -0,0 +1,157 @@
+import { DbService, LeadRow } from '../src/db.service';
+import { LeadInput, LeadValidationError, LeadsService, normalizeLeadInput } from '../src/services/leads.service';
+import { fakeDb } from './support/fake-db';
+
+describe('normalizeLeadInput', () => {
+  it('trims text, lower-cases emails, reduces phones to digits and keeps only given fields', () => {
+    expect(normalizeLeadInput({
+      name: '  Ada Lovelace ',
+      email: ' Ada@Example.COM ',
+      phone: '+1 (555) 010-2030',
+      company: '   ',
+      tags: ['vip', ' vip ', '', 'b2b'],
+      score: 71.6,
+      estimatedValue: '1200' as unknown as number,
+      lastContact: '2026-03-10T09:00:00Z',
+    })).toEqual({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      phone: '+15550102030',
+      company: null,
+      tags: ['vip', 'b2b'],
+      score: 72,
+      estimatedValue: 1200,
+      lastContact: new Date('2026-03-10T09:00:00Z'),
+    });
+    expect(normalizeLeadInput({ phone: '555 0102', source: ' ', email: null })).toEqual({ phone: '5550102', source: 'manual', email: null });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => normalizeLeadInput({ email: 'not-an-email' })).toThrow(new LeadValidationError('Invalid email address'));
+    expect(() => normalizeLeadInput({ status: 'won' } as unknown as LeadInput)).toThrow('Invalid status');
+    expect(() => normalizeLeadInput({ score: 101 })).toThrow('Score must be between 0 and 100');
+    expect(() => normalizeLeadInput({ tags: 'vip' } as unknown as LeadInput)).toThrow('tags must be an array');
+    expect(() => normalizeLeadInput({ nextFollowUp: 'soon' })).toThrow('nextFollowUp must be a date');
+    expect(() => normalizeLeadInput({ customFields: [] } as unknown as LeadInput)).toThrow('customFields must be an object');
+  });
+});
+
+describe('LeadsService.mergeAllDuplicates', () => {
+  it('skips leads an earlier group already merged and groups left with a single lead', async () => {
+    const db = {
+      // lead_2 shares an email with lead_1 and a phone with lead_3; lead_4 and lead_5 share a phone
+      findDuplicateLeadGroups: jest.fn().mockResolvedValue([
+        { match_on: 'email', match_value: 'ada@example.com', lead_ids: ['lead_1', 'lead_2'] },
+        { match_on: 'phone', match_value: '5550102', lead_ids: ['lead_2', 'lead_3'] },
+        { match_on: 'phone', match_value: '5550199', lead_ids: ['lead_4', 'lead_5'] },
+      ]),
+      mergeLeads: jest.fn((_orgId: string, primaryId: string, duplicateIds: string[]) =>
+        Promise.resolve({ lead: { id: primaryId } as LeadRow, mergedIds: duplicateIds })),
+    };
+    const service = new LeadsService(fakeDb(db));
+
+    const merges = await service.mergeAllDuplicates('org_1');
+
+    expect(db.mergeLeads.mock.calls).toEqual([
+      ['org_1', 'lead_1', ['lead_2']],
+      ['org_1', 'lead_4', ['lead_5']],
+    ]);
+    expect(merges).toEqual([
+      { primaryId: 'lead_1', mergedIds: ['lead_2'], matchOn: 'email' },
+      { primaryId: 'lead_4', mergedIds: ['lead_5'], matchOn: 'phone' },
+    ]);
+  });
+});
+
+describe('DbService.mergeLeads', () => {
+  const lead = (id: string, createdAt: string, fields: Partial<LeadRow>): LeadRow => ({
+    id,
+    organization_id: 'org_1',
+    source: 'manual',
+    name: null,
+    email: null,
+    phone: null,
+    company: null,
+    title: null,
+    status: 'new',
+    score: 0,
+    score_breakdown: null,
+    score_updated_at: null,
+    tags: [],
+    notes: null,
+    priority: 'medium',
+    assigned_to: null,
+    estimated_value: null,
+    last_contact_at: null,
+    next_follow_up_at: null,
+    custom_fields: {},
+    external_ref: null,
+    metadata: {},
+    merged_into_id: null,
+    merged_at: null,
+    created_at: new Date(createdAt),
+    updated_at: new Date(createdAt),
+    ...fields,
+  });
+
+  // Answers the lead lookup and records the values the primary is updated with
+  function createDb(leads: LeadRow[]) {
+    const queries: Array<{ sql: string; params: unknown[] }> = [];
+    const client = {
+      query: jest.fn((sql: string, params: unknown[] = []) => {
+        queries.push({ sql, params });
+        if (sql.startsWith('SELECT * FROM leads')) return Promise.resolve({ rows: leads });
+        if (sql.includes('SET name = $2')) return Promise.resolve({ rows: [{ id: params[0] }] });
+        return Promise.resolve({ rows: [] });
+      }),
+      release: jest.fn(),
+    };
+    const db = new DbService();
+    (db as unknown as { pool: { connect(): Promise<typeof client> } }).pool = { connect: () => Promise.resolve(client) };
+    return { db, queries };
+  }
+
+  it('keeps the primary\'s values, fills gaps from the oldest duplicate and combines the rest', async () => {
+    const { db, queries } = createDb([
+      lead('lead_1', '2026-01-01T00:00:00Z', {
+        name: 'Ada', notes: 'Met at expo', estimated_value: '500', score: 40, tags: ['vip'],
+        custom_fields: { plan: 'pro' },
+      }),
+      lead('lead_3', '2026-03-01T00:00:00Z', {
+        email: 'newer@example.com', company: 'Newer Co', estimated_value: '1200.50', last_contact_at: new Date('2026-03-05T00:00:00Z'),
+        score: 65, tags: ['b2b', 'vip'], custom_fields: { plan: 'free', region: 'eu' },
+      }),
+      lead('lead_2', '2026-02-01T00:00:00Z', {
+        name: 'Ada L.', email: 'older@example.com', notes: 'Asked for pricing', last_contact_at: new Date('2026-02-10T00:00:00Z'),
+        score: 90, custom_fields: { region: 'us', size: 'smb' },
+      }),
+    ]);
+
+    const result = await db.mergeLeads('org_1', 'lead_1', ['lead_2', 'lead_3']);
+
+    expect(result?.mergedIds.sort()).toEqual(['lead_2', 'lead_3']);
+    const update = queries.find(q => q.sql.includes('SET name = $2'))!;
+    const [, name, email, , company, , notes, , estimatedValue, lastContactAt, score, tags, customFields] = update.params;
+    expect({ name, email, company, notes, estimatedValue, lastContactAt, score, tags, customFields: JSON.parse(customFields as string) as unknown }).toEqual({
+      name: 'Ada',
+      email: 'older@example.com',
+      company: 'Newer Co',
+      notes: 'Met at expo\n\nAsked for pricing',
+      // numeric columns arrive as strings and are compared as numbers
+      estimatedValue: '1200.50',
+      lastContactAt: new Date('2026-03-05T00:00:00Z'),
+      score: 90,
+      tags: ['vip', 'b2b'],
+      customFields: { plan: 'pro', region: 'us', size: 'smb' },
+    });
+    expect(queries.some(q => q.sql.includes(`status = 'merged'`) && (q.params[1] as string[]).length === 2)).toBe(true);
+  });
+
+  it('does nothing when the primary or every duplicate was already merged', async () => {
+    const { db, queries } = createDb([lead('lead_1', '2026-01-01T00:00:00Z', { name: 'Ada' })]);
+
+    expect(await db.mergeLeads('org_1', 'lead_1', ['lead_2'])).toBeNull();
+    expect(queries.map(q => q.sql)).toContain('ROLLBACK');
+    expect(queries.some(q => q.sql.includes('SET name = $2'))).toBe(false);
+  });
+});
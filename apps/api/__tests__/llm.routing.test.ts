@@ -0,0 +1,146 @@
+import { DbService } from '../src/db.service';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+import { LlmService } from '../src/services/llm.service';
+import { PerplexityService } from '../src/services/perplexity.service';
+import {
+  LlmConfigError,
+  estimateCostUsd,
+  loadLlmProviderConfigs,
+  normalizeLlmSettings,
+  parseLlmPricing,
+  parseRouteSpec,
+  resolveRoute,
+} from '../src/services/llm-routing';
+import { LlmCompletionRequest, LlmProvider, LlmProviderError } from '../src/platforms/llm/llm-provider';
+import { fakeDb } from './support/fake-db';
+
+const PROVIDERS = ['perplexity', 'openai', 'local'];
+
+describe('llm routing', () => {
+  it('registers OpenAI and local servers only when configured', () => {
+    expect(loadLlmProviderConfigs({}).map(c => c.id)).toEqual(['perplexity']);
+    const configs = loadLlmProviderConfigs({ OPENAI_API_KEY: 'sk', LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1' });
+    expect(configs.map(c => [c.id, c.type, c.defaultModel])).toEqual([
+      ['perplexity', 'perplexity', 'sonar-large-online'],
+      ['openai', 'openai-compatible', 'gpt-4o-mini'],
+      ['local', 'openai-compatible', 'llama3.1'],
+    ]);
+  });
+
+  it('uses a feature route in place of the organization route, then the default route', () => {
+    const settings = normalizeLlmSettings(
+      { route: [{ provider: 'openai', model: 'gpt-4o' }], features: { content_optimization: [{ provider: 'local' }] } },
+      PROVIDERS,
+    );
+    const defaults = parseRouteSpec('perplexity,openai:gpt-4o', PROVIDERS);
+
+    expect(resolveRoute(settings, 'content_optimization', defaults)).toEqual([
+      { provider: 'local' },
+      { provider: 'perplexity' },
+      { provider: 'openai', model: 'gpt-4o' },
+    ]);
+    // The default step duplicating the organization route is only tried once
+    expect(resolveRoute(settings, 'content_generation', defaults)).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'perplexity' },
+    ]);
+    expect(resolveRoute(null, 'content_generation', defaults)).toEqual(defaults);
+  });
+
+  it('rejects unknown providers and features', () => {
+    expect(() => normalizeLlmSettings({ route: [{ provider: 'anthropic' }] }, PROVIDERS)).toThrow(LlmConfigError);
+    expect(() => normalizeLlmSettings({ features: { chat: [] } }, PROVIDERS)).toThrow('Unknown feature "chat"');
+    expect(() => normalizeLlmSettings({ route: 'openai' }, PROVIDERS)).toThrow(LlmConfigError);
+    expect(() => parseRouteSpec('perplexity,unknown', PROVIDERS)).toThrow(LlmConfigError);
+  });
+
+  it('prices calls per 1K tokens by model, then by provider', () => {
+    const pricing = parseLlmPricing(JSON.stringify({ 'openai:gpt-4o-mini': { prompt: 0.00015, completion: 0.0006 }, perplexity: { prompt: 0.001, completion: 0.001 } }));
+    const usage = { promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 };
+
+    expect(estimateCostUsd(pricing, 'openai', 'gpt-4o-mini', usage)).toBeCloseTo(0.0009, 6);
+    expect(estimateCostUsd(pricing, 'perplexity', 'sonar-large-online', usage)).toBeCloseTo(0.003, 6);
+    expect(estimateCostUsd(pricing, 'local', 'llama3.1', usage)).toBe(0);
+    expect(() => parseLlmPricing('{"openai": {"prompt": -1, "completion": 0}}')).toThrow(LlmConfigError);
+  });
+});
+
+class FakeProvider implements LlmProvider {
+  readonly type = 'openai-compatible' as const;
+  readonly defaultModel = 'fake-model';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(readonly id: string, private readonly fail: boolean) {}
+
+  complete(request: LlmCompletionRequest) {
+    this.requests.push(request);
+    if (this.fail) return Promise.reject(new LlmProviderError(`${this.id} is down`, 503, true));
+    return Promise.resolve({ text: `from ${this.id}`, model: request.model || this.defaultModel, usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 } });
+  }
+}
+
+describe('LlmService', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  function createService(settings: { route: unknown; features: unknown }) {
+    const usage: Array<Parameters<DbService['recordLlmUsage']>[0]> = [];
+    const db = fakeDb({
+      getLlmSettings: organizationId => Promise.resolve({ organization_id: organizationId, ...settings, updated_at: new Date() }),
+      recordLlmUsage: record => {
+        usage.push(record);
+        return Promise.resolve('llm_1');
+      },
+    });
+    process.env.LLM_PRICING = JSON.stringify({ backup: { prompt: 0.01, completion: 0.02 } });
+    const service = new LlmService(db, new EnhancedErrorHandlingService(), {} as PerplexityService);
+    return { service, usage };
+  }
+
+  it('falls back when a provider fails and records usage against the organization and feature', async () => {
+    const { service, usage } = createService({ route: [{ provider: 'primary', model: 'big' }, { provider: 'backup' }], features: {} });
+    const primary = new FakeProvider('primary', true);
+    const backup = new FakeProvider('backup', false);
+    service.registerProvider(primary);
+    service.registerProvider(backup);
+
+    const result = await service.answer({ organizationId: 'org_1', feature: 'content_generation' }, 'Write a post', ['source']);
+
+    expect(primary.requests[0]).toMatchObject({ prompt: 'Write a post', context: ['source'], model: 'big' });
+    expect(result).toMatchObject({ answer: 'from backup', provider: 'backup', model: 'fake-model', fallback: true, costUsd: 0.002 });
+    expect(usage).toEqual([
+      expect.objectContaining({ organizationId: 'org_1', feature: 'content_generation', provider: 'backup', operation: 'answer', totalTokens: 150, costUsd: 0.002, fallback: true }),
+    ]);
+  });
+
+  it('skips a provider whose circuit breaker is open', async () => {
+    const { service } = createService({ route: [{ provider: 'primary' }, { provider: 'backup' }], features: {} });
+    const primary = new FakeProvider('primary', true);
+    service.registerProvider(primary);
+    service.registerProvider(new FakeProvider('backup', false));
+
+    // Default breaker opens after five failures
+    for (let i = 0; i < 5; i++) {
+      await service.answer({ organizationId: 'org_1', feature: 'content_generation' }, 'x');
+    }
+    expect(primary.requests).toHaveLength(5);
+
+    const result = await service.answer({ organizationId: 'org_1', feature: 'content_generation' }, 'x');
+    expect(result.provider).toBe('backup');
+    expect(primary.requests).toHaveLength(5);
+    expect((await service.listProviders()).providers.find(p => p.id === 'primary')?.circuit).toBe('OPEN');
+  });
+
+  it('fails with every provider error when the whole route is down', async () => {
+    const { service } = createService({ route: [{ provider: 'primary' }], features: {} });
+    service.registerProvider(new FakeProvider('primary', true));
+    // Leave nothing for the default route to fall back on
+    (service as unknown as { providers: Map<string, LlmProvider> }).providers.delete('perplexity');
+
+    await expect(service.answer({ organizationId: 'org_1', feature: 'content_generation' }, 'x')).rejects.toThrow(
+      'No LLM provider could answer (primary: primary is down)',
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { DbService, MediaAssetRow, MediaJobRow, MediaPresetRow } from '../src/db.service';
+import { LocalDiskStorageDriver } from '../src/platforms/storage/local-disk-storage-driver';
+import { MediaStorageService } from '../src/services/media-storage.service';
+import { MediaProcessingService } from '../src/services/media-processing.service';
+import { BUILT_IN_MEDIA_PRESETS, MediaJobConflictError, MediaJobsService, MediaJobValidationError } from '../src/services/media-jobs.service';
+import { QueueService } from '../src/queue.service';
+import { fakeDb } from './support/fake-db';
+
+type MediaAssetInput = Parameters<DbService['createMediaAsset']>[0];
+type MediaJobInput = Parameters<DbService['createMediaJobs']>[0][number];
+type MediaPresetInput = Parameters<DbService['createMediaPreset']>[0];
+
+const assetRow = (asset: MediaAssetInput): MediaAssetRow => ({
+  id: asset.id,
+  organization_id: asset.organizationId,
+  storage_driver: asset.storageDriver,
+  storage_key: asset.storageKey,
+  content_hash: asset.contentHash,
+  file_name: asset.fileName,
+  mime_type: asset.mimeType,
+  file_size: String(asset.fileSize),
+  category: asset.category,
+  tags: asset.tags,
+  description: asset.description,
+  metadata: asset.metadata,
+  uploaded_by: asset.uploadedBy,
+  source_asset_id: asset.sourceAssetId ?? null,
+  download_count: 0,
+  last_accessed_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const jobRow = (job: MediaJobInput): MediaJobRow => ({
+  id: job.id,
+  organization_id: job.organizationId,
+  batch_id: job.batchId,
+  type: job.type,
+  source_asset_id: job.sourceAssetId,
+  preset_id: job.presetId,
+  settings: job.settings,
+  status: 'pending',
+  progress: 0,
+  output_asset_id: null,
+  result: null,
+  error: null,
+  attempts: 0,
+  created_by: job.createdBy,
+  created_at: new Date(),
+  started_at: null,
+  completed_at: null,
+  updated_at: new Date(),
+});
+
+const presetRow = (preset: MediaPresetInput): MediaPresetRow => ({
+  id: preset.id,
+  organization_id: preset.organizationId,
+  name: preset.name,
+  description: preset.description,
+  type: preset.type,
+  category: preset.category,
+  settings: preset.settings,
+  created_by: preset.createdBy,
+  created_at: new Date(),
+});
+
+// media_assets, media_jobs and media_presets rows kept in memory, with DbService's claim and finish rules
+function createDb() {
+  const assets = new Map<string, MediaAssetRow>();
+  const jobs = new Map<string, MediaJobRow>();
+  const presets = new Map<string, MediaPresetRow>();
+  const orgAssets = (organizationId: string) => [...assets.values()].filter(a => a.organization_id === organizationId);
+  const store = {
+    assets,
+    jobs,
+    // Called on every progress report, before it is recorded
+    onProgress: (() => undefined) as (id: string, progress: number) => void,
+  };
+
+  const db = fakeDb({
+    getStorageQuota: () => Promise.resolve(null),
+    getMediaAsset: (id, organizationId) => {
+      const asset = assets.get(id);
+      return Promise.resolve(asset && asset.organization_id === organizationId ? asset : null);
+    },
+    getMediaAssetByHash: (organizationId, hash) =>
+      Promise.resolve(orgAssets(organizationId).find(a => a.content_hash === hash) || null),
+    createMediaAsset: asset => {
+      const existing = orgAssets(asset.organizationId).find(a => a.content_hash === asset.contentHash);
+      if (existing) return Promise.resolve({ asset: existing, duplicate: true });
+      const row = assetRow(asset);
+      assets.set(row.id, row);
+      return Promise.resolve({ asset: row, duplicate: false });
+    },
+    deleteMediaAsset: (id, organizationId) => {
+      const asset = assets.get(id);
+      if (!asset || asset.organization_id !== organizationId) return Promise.resolve(null);
+      assets.delete(id);
+      return Promise.resolve(asset);
+    },
+    createMediaJobs: rows => Promise.resolve(rows.map(job => {
+      const row = jobRow(job);
+      jobs.set(row.id, row);
+      return row;
+    })),
+    getMediaJob: (id, organizationId) => {
+      const job = jobs.get(id);
+      return Promise.resolve(job && (organizationId === null || job.organization_id === organizationId) ? job : null);
+    },
+    claimMediaJob: id => {
+      const job = jobs.get(id);
+      if (!job || job.status !== 'pending') return Promise.resolve(null);
+      Object.assign(job, { status: 'processing', progress: 0, started_at: new Date() });
+      return Promise.resolve(job);
+    },
+    updateMediaJobProgress: (id, progress) => {
+      store.onProgress(id, progress);
+      const job = jobs.get(id);
+      if (!job || job.status !== 'processing') return Promise.resolve(false);
+      job.progress = Math.max(job.progress, progress);
+      return Promise.resolve(true);
+    },
+    finishMediaJob: (id, outcome) => {
+      const job = jobs.get(id);
+      if (!job || !['pending', 'processing'].includes(job.status)) return Promise.resolve(false);
+      Object.assign(job, {
+        status: outcome.status,
+        output_asset_id: outcome.outputAssetId ?? job.output_asset_id,
+        result: outcome.result ?? job.result,
+        error: outcome.error ?? null,
+        progress: outcome.status === 'completed' ? 100 : job.progress,
+        completed_at: new Date(),
+      });
+      return Promise.resolve(true);
+    },
+    cancelMediaJob: (id, organizationId) => {
+      const job = jobs.get(id);
+      if (!job || job.organization_id !== organizationId) return Promise.resolve(null);
+      if (!['pending', 'processing'].includes(job.status)) return Promise.resolve({ job, cancelled: false });
+      job.status = 'cancelled';
+      return Promise.resolve({ job, cancelled: true });
+    },
+    listMediaJobs: (organizationId, filters) => {
+      const rows = [...jobs.values()].filter(j => j.organization_id === organizationId && (!filters.status || j.status === filters.status));
+      return Promise.resolve({ rows: rows.slice(filters.offset, filters.offset + filters.limit), total: rows.length });
+    },
+    listMediaPresets: organizationId =>
+      Promise.resolve([...presets.values()].filter(p => p.organization_id === organizationId)),
+    getMediaPreset: (id, organizationId) => {
+      const preset = presets.get(id);
+      return Promise.resolve(preset && preset.organization_id === organizationId ? preset : null);
+    },
+    createMediaPreset: preset => {
+      if ([...presets.values()].some(p => p.organization_id === preset.organizationId && p.name === preset.name)) {
+        return Promise.resolve(null);
+      }
+      const row = presetRow(preset);
+      presets.set(row.id, row);
+      return Promise.resolve(row);
+    },
+  });
+  return { db, store };
+}
+
+function pngOf(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } }).png().toBuffer();
+}
+
+describe('MediaJobsService', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bowery-media-jobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function createService() {
+    const { db, store } = createDb();
+    const queue = { enqueueMediaJobs: jest.fn().mockResolvedValue(undefined), removeMediaJobs: jest.fn().mockResolvedValue(undefined) };
+    const storage = new MediaStorageService(db, new LocalDiskStorageDriver(rootDir));
+    const service = new MediaJobsService(db, storage, new MediaProcessingService(), queue as Partial<QueueService> as QueueService);
+    return { service, storage, store, queue };
+  }
+
+  it('builds presets from the platform adaptation rules', async () => {
+    expect(BUILT_IN_MEDIA_PRESETS.find(p => p.id === 'builtin-instagram-story-image')).toMatchObject({
+      type: 'optimization',
+      category: 'social',
+      settings: { platform: 'INSTAGRAM_STORY', width: 1080, height: 1920, format: 'jpeg' },
+    });
+    expect(BUILT_IN_MEDIA_PRESETS.find(p => p.id === 'builtin-youtube-video')).toMatchObject({
+      type: 'conversion',
+      settings: { targetFormat: 'mp4', resolution: { width: 1920, height: 1080 } },
+    });
+
+    // Publishing sizes images from the same rules
+    const image = await new MediaProcessingService().processImage(await pngOf(2400, 1600), 'facebook');
+    expect(image).toMatchObject({ width: 1200, height: 630, format: 'jpeg' });
+  });
+
+  it('queues a job and stores its output as a file derived from the source', async () => {
+    const { service, storage, store, queue } = createService();
+    const { file: source } = await storage.upload('org_1', 'user_1', {
+      buffer: await pngOf(2000, 1500), fileName: 'launch.png', mimeType: 'image/png', category: 'campaigns', tags: ['launch'],
+    });
+
+    const job = await service.createJob('org_1', 'user_1', source.id, { type: 'optimization', presetId: 'builtin-instagram-image', settings: { quality: 70 } });
+    expect(job).toMatchObject({ status: 'pending', originalFileId: source.id, metadata: { settings: { platform: 'INSTAGRAM', quality: 70, width: 1080 } } });
+    expect(queue.enqueueMediaJobs).toHaveBeenCalledWith('org_1', [job!.id]);
+    expect(await service.createJob('org_2', 'user_2', source.id, { type: 'optimization' })).toBeNull();
+
+    expect(await service.processJob(job!.id)).toEqual({ status: 'completed' });
+    const status = await service.getJob('org_1', job!.id);
+    expect(status).toMatchObject({ status: 'completed', progress: 100, result: { metadata: { format: 'jpeg', width: 1080, height: 1080, quality: 70 } } });
+    expect(status!.result!.processedUrl).toContain(`/storage/files/${status!.result!.processedFileId}/download`);
+
+    const output = await storage.getFile('org_1', status!.result!.processedFileId!);
+    expect(output).toMatchObject({ fileName: 'launch.jpg', mimeType: 'image/jpeg', sourceFileId: source.id, category: 'campaigns', tags: ['launch'] });
+    expect((await sharp(fs.readFileSync(path.join(rootDir, 'org_1', output!.contentHash))).metadata()).format).toBe('jpeg');
+
+    // Finished jobs are not run again
+    expect(await service.processJob(job!.id)).toMatchObject({ status: 'skipped' });
+    expect((await service.listHistory('org_1', {})).totalCount).toBe(1);
+    expect(store.assets.size).toBe(2);
+  });
+
+  it('rejects invalid settings, presets and batches', async () => {
+    const { service, storage } = createService();
+    const { file } = await storage.upload('org_1', null, { buffer: await pngOf(10, 10), fileName: 'a.png', mimeType: 'image/png' });
+
+    await expect(service.createJob('org_1', null, file.id, { type: 'conversion', settings: {} })).rejects.toThrow('targetFormat must be one of');
+    await expect(service.createJob('org_1', null, file.id, { type: 'conversion', settings: { targetFormat: 'mp4', videoCodec: 'rm -rf' } }))
+      .rejects.toThrow(MediaJobValidationError);
+    await expect(service.createJob('org_1', null, file.id, { type: 'conversion', presetId: 'builtin-thumbnail' }))
+      .rejects.toThrow('is for optimization jobs');
+    await expect(service.createBatch('org_1', null, [file.id, 'media_missing'], { type: 'optimization' }))
+      .rejects.toThrow('Files not found: media_missing');
+
+    const preset = await service.createPreset('org_1', 'user_1', { name: 'Blog hero', type: 'optimization', category: 'web', settings: { format: 'webp', width: 1600, junk: true } });
+    expect(preset).toMatchObject({ builtIn: false, settings: { format: 'webp', width: 1600 } });
+    expect(preset.settings).not.toHaveProperty('junk');
+    await expect(service.createPreset('org_1', 'user_1', { name: 'Blog hero', type: 'optimization' })).rejects.toThrow(MediaJobConflictError);
+    expect((await service.getPresets('org_1')).filter(p => !p.builtIn)).toHaveLength(1);
+    expect((await service.getPresets('org_2')).filter(p => !p.builtIn)).toHaveLength(0);
+
+    const batch = await service.createBatch('org_1', null, [file.id], { type: 'optimization', presetId: preset.id });
+    expect(batch.jobs).toHaveLength(1);
+    expect(batch.jobs[0]).toMatchObject({ batchId: batch.batchId, presetId: preset.id });
+  });
+
+  it('cancels pending and running jobs without keeping output', async () => {
+    const { service, storage, store, queue } = createService();
+    const { file } = await storage.upload('org_1', null, { buffer: await pngOf(400, 400), fileName: 'a.png', mimeType: 'image/png' });
+
+    const pending = await service.createJob('org_1', null, file.id, { type: 'conversion', settings: { targetFormat: 'webp' } });
+    await expect(service.cancelJob('org_2', pending!.id)).resolves.toBeNull();
+    expect(await service.cancelJob('org_1', pending!.id)).toMatchObject({ status: 'cancelled' });
+    expect(queue.removeMediaJobs).toHaveBeenCalledWith([pending!.id]);
+    expect(await service.processJob(pending!.id)).toEqual({ status: 'skipped', reason: 'job is cancelled' });
+    await expect(service.cancelJob('org_1', pending!.id)).rejects.toThrow('Job is already cancelled');
+
+    // Cancelled while the worker is converting: the job stops at its next progress report
+    const running = await service.createJob('org_1', null, file.id, { type: 'conversion', settings: { targetFormat: 'webp' } });
+    store.onProgress = (id: string, progress: number) => {
+      if (id === running!.id && progress === 90) store.jobs.get(id)!.status = 'cancelled';
+    };
+    expect(await service.processJob(running!.id)).toEqual({ status: 'cancelled' });
+    expect(store.assets.size).toBe(1);
+  });
+
+  it('fails jobs whose source cannot be processed without retrying them', async () => {
+    const { service, storage, store } = createService();
+    const { file } = await storage.upload('org_1', null, { buffer: Buffer.from('%PDF-1.4'), fileName: 'deck.pdf', mimeType: 'application/pdf' });
+    const job = await service.createJob('org_1', null, file.id, { type: 'optimization' });
+
+    expect(await service.processJob(job!.id)).toEqual({ status: 'failed', reason: 'Files of type application/pdf cannot be processed' });
+    expect(store.jobs.get(job!.id)).toMatchObject({ status: 'failed', error: 'Files of type application/pdf cannot be processed' });
+  });
+});
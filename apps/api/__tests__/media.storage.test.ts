@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type S3 from 'aws-sdk/clients/s3';
+import { DbService, MediaAssetRow, StorageQuotaRow } from '../src/db.service';
+import { LocalDiskStorageDriver } from '../src/platforms/storage/local-disk-storage-driver';
+import { S3StorageDriver } from '../src/platforms/storage/s3-storage-driver';
+import { StorageDriverError } from '../src/platforms/storage/storage-driver';
+import {
+  MediaStorageService,
+  StorageQuotaError,
+  StorageSigningSecretError,
+  StorageValidationError,
+  loadStorageSigningSecret,
+} from '../src/services/media-storage.service';
+import { fakeDb } from './support/fake-db';
+
+type MediaAssetInput = Parameters<DbService['createMediaAsset']>[0];
+type StorageQuotaInput = Parameters<DbService['upsertStorageQuota']>[1];
+
+const assetRow = (asset: MediaAssetInput): MediaAssetRow => ({
+  id: asset.id,
+  organization_id: asset.organizationId,
+  storage_driver: asset.storageDriver,
+  storage_key: asset.storageKey,
+  content_hash: asset.contentHash,
+  file_name: asset.fileName,
+  mime_type: asset.mimeType,
+  file_size: String(asset.fileSize),
+  category: asset.category,
+  tags: asset.tags,
+  description: asset.description,
+  metadata: asset.metadata,
+  uploaded_by: asset.uploadedBy,
+  source_asset_id: asset.sourceAssetId ?? null,
+  download_count: 0,
+  last_accessed_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const quotaRow = (organizationId: string, quota: StorageQuotaInput): StorageQuotaRow => ({
+  organization_id: organizationId,
+  max_storage: String(quota.maxStorage),
+  max_files: quota.maxFiles,
+  max_file_size: String(quota.maxFileSize),
+  allowed_types: quota.allowedTypes,
+  auto_cleanup: quota.autoCleanup,
+  cleanup_days: quota.cleanupDays,
+  updated_at: new Date(),
+});
+
+// media_assets and storage_quotas rows kept in memory, with DbService's dedupe and quota rules
+function createDb() {
+  const assets = new Map<string, MediaAssetRow>();
+  const quotas = new Map<string, StorageQuotaRow>();
+  const orgAssets = (organizationId: string) => [...assets.values()].filter(a => a.organization_id === organizationId);
+
+  const db = fakeDb({
+    getStorageQuota: organizationId => Promise.resolve(quotas.get(organizationId) || null),
+    upsertStorageQuota: (organizationId, quota) => {
+      const row = quotaRow(organizationId, quota);
+      quotas.set(organizationId, row);
+      return Promise.resolve(row);
+    },
+    getMediaAsset: (id, organizationId) => {
+      const asset = assets.get(id);
+      return Promise.resolve(asset && asset.organization_id === organizationId ? asset : null);
+    },
+    getMediaAssetByHash: (organizationId, hash) =>
+      Promise.resolve(orgAssets(organizationId).find(a => a.content_hash === hash) || null),
+    createMediaAsset: (asset, limits) => {
+      const existing = orgAssets(asset.organizationId).find(a => a.content_hash === asset.contentHash);
+      if (existing) return Promise.resolve({ asset: existing, duplicate: true });
+      const used = orgAssets(asset.organizationId).reduce((sum, a) => sum + Number(a.file_size), 0);
+      if (used + asset.fileSize > limits.maxStorage) return Promise.resolve({ asset: null, duplicate: false, exceeded: 'storage' });
+      if (orgAssets(asset.organizationId).length + 1 > limits.maxFiles) return Promise.resolve({ asset: null, duplicate: false, exceeded: 'files' });
+      const row = assetRow(asset);
+      assets.set(row.id, row);
+      return Promise.resolve({ asset: row, duplicate: false });
+    },
+    deleteMediaAsset: (id, organizationId) => {
+      const asset = assets.get(id);
+      if (!asset || asset.organization_id !== organizationId) return Promise.resolve(null);
+      assets.delete(id);
+      return Promise.resolve(asset);
+    },
+    recordMediaAssetDownload: id => {
+      const asset = assets.get(id);
+      if (asset) asset.download_count++;
+      return Promise.resolve(asset || null);
+    },
+    getStorageUsage: organizationId => {
+      const byCategory = new Map<string, { category: string; used: number; files_count: number }>();
+      for (const asset of orgAssets(organizationId)) {
+        const entry = byCategory.get(asset.category) || { category: asset.category, used: 0, files_count: 0 };
+        entry.used += Number(asset.file_size);
+        entry.files_count++;
+        byCategory.set(asset.category, entry);
+      }
+      return Promise.resolve([...byCategory.values()].map(entry => ({ ...entry, used: String(entry.used) })));
+    },
+  });
+  return { db, assets };
+}
+
+function signedParams(url: string) {
+  const parsed = new URL(url);
+  return { expires: Number(parsed.searchParams.get('expires')), signature: parsed.searchParams.get('signature')! };
+}
+
+describe('MediaStorageService', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bowery-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  function createService() {
+    const { db, assets } = createDb();
+    return { service: new MediaStorageService(db, new LocalDiskStorageDriver(rootDir)), assets };
+  }
+
+  it('stores content once per organization under its hash', async () => {
+    const { service, assets } = createService();
+    const first = await service.upload('org_1', 'user_1', { buffer: Buffer.from('png-bytes'), fileName: '../../banner.png', mimeType: 'image/png', tags: ['launch', 'launch'] });
+    expect(first.duplicate).toBe(false);
+    expect(first.file).toMatchObject({ fileName: 'banner.png', fileSize: 9, category: 'general', tags: ['launch'], uploadedBy: 'user_1' });
+    expect(fs.readFileSync(path.join(rootDir, 'org_1', first.file.contentHash)).toString()).toBe('png-bytes');
+
+    const again = await service.upload('org_1', 'user_2', { buffer: Buffer.from('png-bytes'), fileName: 'copy.png', mimeType: 'image/png' });
+    expect(again).toMatchObject({ duplicate: true, file: { id: first.file.id, fileName: 'banner.png' } });
+
+    // Another organization gets its own copy
+    const other = await service.upload('org_2', 'user_3', { buffer: Buffer.from('png-bytes'), fileName: 'banner.png', mimeType: 'image/png' });
+    expect(other.duplicate).toBe(false);
+    expect(assets.size).toBe(2);
+  });
+
+  it('enforces the organization quota and removes rejected uploads', async () => {
+    const { service } = createService();
+    await service.updateQuota('org_1', { maxStorage: 10, maxFileSize: 8, allowedTypes: ['image/*'] });
+
+    await expect(service.upload('org_1', null, { buffer: Buffer.from('a.pdf'), fileName: 'a.pdf', mimeType: 'application/pdf' }))
+      .rejects.toThrow(StorageValidationError);
+    await expect(service.upload('org_1', null, { buffer: Buffer.alloc(9), fileName: 'big.png', mimeType: 'image/png' }))
+      .rejects.toThrow('maximum file size');
+
+    await service.upload('org_1', null, { buffer: Buffer.from('123456'), fileName: 'one.png', mimeType: 'image/png' });
+    await expect(service.upload('org_1', null, { buffer: Buffer.from('abcdef'), fileName: 'two.png', mimeType: 'image/png' }))
+      .rejects.toThrow(StorageQuotaError);
+    expect(fs.readdirSync(path.join(rootDir, 'org_1'))).toHaveLength(1);
+
+    const usage = await service.getUsage('org_1');
+    expect(usage.usage).toMatchObject({ totalUsed: 6, totalAvailable: 4, percentageUsed: 60, filesCount: 1 });
+    await expect(service.updateQuota('org_1', { maxFiles: 0 })).rejects.toThrow('maxFiles must be a positive integer');
+  });
+
+  it('serves files through signed links and counts downloads', async () => {
+    const { service, assets } = createService();
+    const { file } = await service.upload('org_1', 'user_1', { buffer: Buffer.from('hello'), fileName: 'hello.png', mimeType: 'image/png' });
+    const { expires, signature } = signedParams(file.url);
+
+    const download = await service.openDownload(file.id, expires, signature);
+    expect(download!.body!.toString()).toBe('hello');
+    expect(assets.get(file.id)?.download_count).toBe(1);
+
+    expect(await service.openDownload(file.id, expires + 1, signature)).toBeNull();
+    expect(await service.openDownload(file.id, Math.floor(Date.now() / 1000) - 1, signature)).toBeNull();
+
+    expect(await service.deleteFile('org_2', file.id)).toBe(false);
+    expect(await service.deleteFile('org_1', file.id)).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, 'org_1', file.contentHash))).toBe(false);
+    expect(await service.openDownload(file.id, expires, signature)).toBeNull();
+  });
+
+  it('redirects downloads to a presigned URL on S3-compatible stores', async () => {
+    const objects = new Map<string, Buffer>();
+    type ObjectParams = { Key: string; Expires?: number };
+    const s3 = {
+      putObject: (params: ObjectParams & { Body: Buffer }) => ({ promise: () => Promise.resolve(objects.set(params.Key, params.Body)) }),
+      getObject: (params: ObjectParams) => ({
+        promise: () => objects.has(params.Key)
+          ? Promise.resolve({ Body: objects.get(params.Key) })
+          : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey', statusCode: 404 })),
+      }),
+      deleteObject: (params: ObjectParams) => ({ promise: () => Promise.resolve(objects.delete(params.Key)) }),
+      getSignedUrlPromise: (_operation: string, params: ObjectParams) => Promise.resolve(`http://minio:9000/media/${params.Key}?X-Amz-Expires=${params.Expires}`),
+    };
+    const driver = new S3StorageDriver({ bucket: 'media', endpoint: 'http://minio:9000' }, s3 as unknown as S3);
+    const service = new MediaStorageService(createDb().db, driver);
+
+    const { file } = await service.upload('org_1', null, { buffer: Buffer.from('clip'), fileName: 'clip.mp4', mimeType: 'video/mp4' });
+    const { expires, signature } = signedParams(file.url);
+    const download = await service.openDownload(file.id, expires, signature);
+    expect(download!.redirectUrl).toBe(`http://minio:9000/media/org_1/${file.contentHash}?X-Amz-Expires=300`);
+    expect(await driver.get('org_1/missing')).toBeNull();
+  });
+
+  it('keeps local keys inside the storage directory', async () => {
+    const driver = new LocalDiskStorageDriver(rootDir);
+    await expect(driver.put('../escape', Buffer.from('x'))).rejects.toThrow(StorageDriverError);
+    expect(await driver.get('org_1/unknown')).toBeNull();
+  });
+});
+
+describe('storage signing secret', () => {
+  it('only falls back to the development secret outside production', () => {
+    expect(loadStorageSigningSecret({ STORAGE_SIGNING_SECRET: 'storage', JWT_SECRET: 'jwt' })).toBe('storage');
+    expect(loadStorageSigningSecret({ NODE_ENV: 'production', JWT_SECRET: 'jwt' })).toBe('jwt');
+    expect(loadStorageSigningSecret({ NODE_ENV: 'development' })).toBe('dev-secret-change-me');
+
+    expect(() => loadStorageSigningSecret({ NODE_ENV: 'production' })).toThrow(StorageSigningSecretError);
+    expect(() => loadStorageSigningSecret({ NODE_ENV: 'production', STORAGE_SIGNING_SECRET: 'dev-secret-change-me' }))
+      .toThrow('not allowed in production');
+  });
+});
@@ -0,0 +1,148 @@
+import nodemailer from 'nodemailer';
+import { renderNewsletter } from '../src/platforms/mail/newsletter-renderer';
+import { MailTransportService, isHardBounce, isTransientMailError } from '../src/platforms/mail/mail-transport.service';
+import { SubscriberRow } from '../src/db.service';
+import { NewsletterService } from '../src/services/newsletter.service';
+import { fakeDb } from './support/fake-db';
+
+describe('Newsletter rendering', () => {
+  it('escapes plain-text bodies and splits them into paragraphs', () => {
+    const rendered = renderNewsletter({
+      title: 'Weekly <Update>',
+      body: 'First line\nsecond line\n\nTom & Jerry <script>',
+      unsubscribeUrl: 'http://api.local/newsletter/unsubscribe/abc',
+      listName: 'Customers',
+    });
+
+    expect(rendered.subject).toBe('Weekly <Update>');
+    expect(rendered.html).toContain('<h1>Weekly &lt;Update&gt;</h1>');
+    expect(rendered.html).toContain('<p>First line<br>second line</p>');
+    expect(rendered.html).toContain('<p>Tom &amp; Jerry &lt;script&gt;</p>');
+    expect(rendered.html).toContain('subscribed to Customers');
+    expect(rendered.html).toContain('href="http://api.local/newsletter/unsubscribe/abc"');
+    expect(rendered.text).toContain('Tom & Jerry <script>');
+    expect(rendered.text).toContain('Unsubscribe: http://api.local/newsletter/unsubscribe/abc');
+  });
+
+  it('keeps HTML bodies and derives the plain-text part from them', () => {
+    const rendered = renderNewsletter({
+      title: 'Launch',
+      body: '<p>Hello <strong>there</strong></p><ul><li>One</li><li>Two</li></ul><p><a href="https://example.com">Read more</a></p>',
+      summary: 'Our biggest release',
+    });
+
+    expect(rendered.html).toContain('<p>Hello <strong>there</strong></p>');
+    expect(rendered.html).toContain('<span style="display:none">Our biggest release</span>');
+    expect(rendered.text).toContain('Hello there');
+    expect(rendered.text).toContain('- One');
+    expect(rendered.text).toContain('Read more (https://example.com)');
+    expect(rendered.text).not.toContain('<');
+    expect(rendered.text).not.toContain('Unsubscribe');
+  });
+});
+
+describe('Mail transport', () => {
+  it('builds a multipart MIME message through a pluggable nodemailer transport', async () => {
+    const stream = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    const service = new MailTransportService();
+    let raw = '';
+    service.useTransport({
+      name: 'stream',
+      send: async message => {
+        const info = await stream.sendMail(message);
+        raw = (info.message as Buffer).toString('utf8');
+        return { messageId: info.messageId, accepted: true };
+      },
+    });
+
+    const rendered = renderNewsletter({ title: 'Hi', body: 'Body', unsubscribeUrl: 'http://api.local/u/1' });
+    const result = await service.send({
+      from: 'news@example.com',
+      to: 'reader@example.com',
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      headers: { 'List-Unsubscribe': '<http://api.local/u/1>' },
+    });
+
+    expect(result.accepted).toBe(true);
+    expect(raw).toContain('Content-Type: multipart/alternative');
+    expect(raw).toContain('Content-Type: text/plain');
+    expect(raw).toContain('Content-Type: text/html');
+    expect(raw).toContain('List-Unsubscribe: <http://api.local/u/1>');
+  });
+
+  it('classifies SMTP failures for retry and bounce handling', () => {
+    expect(isTransientMailError({ responseCode: 421 })).toBe(true);
+    expect(isTransientMailError({ code: 'ECONNECTION' })).toBe(true);
+    expect(isTransientMailError({ responseCode: 550 })).toBe(false);
+    expect(isHardBounce({ responseCode: 550 })).toBe(true);
+    expect(isHardBounce({ responseCode: 452 })).toBe(false);
+  });
+});
+
+describe('NewsletterService.subscribe', () => {
+  // Subscribers kept in memory, following upsertSubscriber's conflict rules
+  function createService(existing: Array<Pick<SubscriberRow, 'email' | 'status'>>) {
+    const rows = existing.map((row, i): SubscriberRow => ({
+      id: `sub_${i}`,
+      list_id: 'list_1',
+      organization_id: 'org_1',
+      name: null,
+      confirm_token: null,
+      unsubscribe_token: `unsub_${i}`,
+      confirmed_at: null,
+      unsubscribed_at: null,
+      metadata: {},
+      created_at: new Date(),
+      updated_at: new Date(),
+      ...row,
+    }));
+    const db = fakeDb({
+      getSubscriberList: () => Promise.resolve({
+        id: 'list_1', organization_id: 'org_1', name: 'Customers', description: null, from_name: null,
+        from_email: 'news@example.com', double_opt_in: true, created_at: new Date(), updated_at: new Date(),
+      }),
+      upsertSubscriber: (_listId, _orgId, subscriber) => {
+        const row = rows.find(r => r.email === subscriber.email)!;
+        if (row.status === 'pending') {
+          row.status = subscriber.status;
+          row.confirm_token = subscriber.status === 'pending' ? subscriber.confirmToken : null;
+        } else if (row.status !== 'subscribed') {
+          row.confirm_token = subscriber.confirmToken;
+        }
+        return Promise.resolve(row);
+      },
+    });
+    const mail = new MailTransportService();
+    const sent: string[] = [];
+    mail.useTransport({
+      name: 'memory',
+      send: message => {
+        sent.push(`${message.to}: ${message.subject}`);
+        return Promise.resolve({ messageId: 'm_1', accepted: true });
+      },
+    });
+    return { service: new NewsletterService(db, mail), rows, sent };
+  }
+
+  it('does not re-subscribe unsubscribed or bounced addresses that an admin adds as confirmed', async () => {
+    const { service, rows, sent } = createService([
+      { email: 'left@example.com', status: 'unsubscribed' },
+      { email: 'bounced@example.com', status: 'bounced' },
+      { email: 'waiting@example.com', status: 'pending' },
+    ]);
+
+    for (const email of ['left@example.com', 'bounced@example.com', 'waiting@example.com']) {
+      await service.subscribe('list_1', email, undefined, { organizationId: 'org_1', skipConfirmation: true });
+    }
+
+    expect(rows.map(r => r.status)).toEqual(['unsubscribed', 'bounced', 'subscribed']);
+    // The first two can still opt back in through the confirmation link
+    expect(rows.map(r => Boolean(r.confirm_token))).toEqual([true, true, false]);
+    expect(sent).toEqual([
+      'left@example.com: Confirm your subscription to Customers',
+      'bounced@example.com: Confirm your subscription to Customers',
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  DELIVERY_HEADER,
+  NotificationPayload,
+  NotificationTransportError,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  buildSlackPayload,
+  buildTeamsPayload,
+  buildWebhookBody,
+  deliverWithRetry,
+  postJson,
+  signWebhookPayload,
+  toMailTransportError,
+  verifyWebhookSignature,
+} from '../src/platforms/notifications/notification-transports';
+
+const notification: NotificationPayload = {
+  id: 'notif_1',
+  organizationId: 'org_1',
+  type: 'workflow',
+  title: 'Publishing failed',
+  message: 'LinkedIn rejected the post',
+  data: { contentItemId: 'ci_1' },
+  createdAt: '2030-01-01T00:00:00.000Z',
+};
+
+// Receiver that answers with the queued statuses in order, then 200
+function startReceiver(statuses: Array<{ status: number; headers?: Record<string, string>; body?: string }> = []) {
+  const requests: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      const next = statuses.shift() || { status: 200, body: 'ok' };
+      res.writeHead(next.status, next.headers || {});
+      res.end(next.body || '');
+    });
+  });
+  return new Promise<{ server: http.Server; url: string; requests: typeof requests }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/hook`, requests });
+    });
+  });
+}
+
+describe('notification payloads', () => {
+  it('builds Slack blocks and a Teams adaptive card', () => {
+    const slack = buildSlackPayload(notification, { username: 'Bowery' });
+    expect(slack.text).toBe('Publishing failed\nLinkedIn rejected the post');
+    expect(slack.blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'Publishing failed', emoji: true } });
+    expect(slack.username).toBe('Bowery');
+
+    const teams = buildTeamsPayload(notification);
+    expect(teams.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+    expect(teams.attachments[0].content.body[1]).toMatchObject({ type: 'TextBlock', text: 'LinkedIn rejected the post' });
+  });
+
+  it('signs webhook bodies with the timestamp so receivers can verify them', () => {
+    const body = buildWebhookBody(notification);
+    const signature = signWebhookPayload('s3cret-signing-key', 1893456000, body);
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('s3cret-signing-key', 1893456000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature('s3cret-signing-key', 1893456001, body, signature)).toBe(false);
+    expect(verifyWebhookSignature('other-key-000000', 1893456000, body, signature)).toBe(false);
+  });
+});
+
+describe('postJson', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  afterEach(done => {
+    receiver.server.close(() => { done(); });
+  });
+
+  it('sends the exact signed bytes with the signature headers', async () => {
+    receiver = await startReceiver();
+    const body = buildWebhookBody(notification);
+    const signature = signWebhookPayload('s3cret-signing-key', 1893456000, body);
+
+    await expect(postJson(receiver.url, body, {
+      [SIGNATURE_HEADER]: signature,
+      [TIMESTAMP_HEADER]: '1893456000',
+      [DELIVERY_HEADER]: 'delivery_1',
+    })).resolves.toEqual({ responseStatus: 200 });
+
+    const [request] = receiver.requests;
+    expect(request.body).toBe(body);
+    expect(request.headers['x-bowery-delivery']).toBe('delivery_1');
+    expect(verifyWebhookSignature('s3cret-signing-key', Number(request.headers['x-bowery-timestamp']), request.body, String(request.headers['x-bowery-signature']))).toBe(true);
+  });
+
+  it('marks server errors and rate limits retryable and bad webhook URLs permanent', async () => {
+    receiver = await startReceiver([
+      { status: 503 },
+      { status: 429, headers: { 'Retry-After': '7' } },
+      { status: 404, body: 'no_service' },
+    ]);
+    await expect(postJson(receiver.url, { text: 'x' })).rejects.toMatchObject({ status: 503, retryable: true });
+    await expect(postJson(receiver.url, { text: 'x' })).rejects.toMatchObject({ status: 429, retryable: true, retryAfter: 7 });
+    await expect(postJson(receiver.url, { text: 'x' })).rejects.toMatchObject({ status: 404, retryable: false, message: 'HTTP 404: no_service' });
+  });
+});
+
+describe('deliverWithRetry', () => {
+  it('backs off between retryable failures and reports the attempts', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    const outcome = await deliverWithRetry(
+      () => {
+        calls++;
+        if (calls === 1) return Promise.reject(new NotificationTransportError('HTTP 503', true, 503));
+        if (calls === 2) return Promise.reject(new NotificationTransportError('HTTP 429', true, 429, 5));
+        return Promise.resolve({ responseStatus: 200 });
+      },
+      { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 10000 },
+      ms => { delays.push(ms); return Promise.resolve(); },
+    );
+    expect(outcome).toEqual({ status: 'sent', attempts: 3, result: { responseStatus: 200 }, responseStatus: 200 });
+    expect(delays).toEqual([100, 5000]);
+  });
+
+  it('stops at the first permanent failure or when attempts run out', async () => {
+    const sleep = () => Promise.resolve();
+    const permanent = await deliverWithRetry(() => Promise.reject(new NotificationTransportError('HTTP 404', false, 404)), undefined, sleep);
+    expect(permanent).toEqual({ status: 'failed', attempts: 1, error: 'HTTP 404', responseStatus: 404 });
+
+    const exhausted = await deliverWithRetry(
+      () => Promise.reject(new NotificationTransportError('HTTP 502', true, 502)),
+      { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 },
+      sleep,
+    );
+    expect(exhausted).toMatchObject({ status: 'failed', attempts: 2, error: 'HTTP 502' });
+  });
+
+  it('retries SMTP 4xx replies but not 5xx rejections', () => {
+    expect(toMailTransportError({ responseCode: 421, message: 'try later' })).toMatchObject({ retryable: true, status: 421 });
+    expect(toMailTransportError({ responseCode: 550, message: 'no such user' })).toMatchObject({ retryable: false, status: 550 });
+  });
+});
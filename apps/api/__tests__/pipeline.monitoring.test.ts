@@ -0,0 +1,149 @@
+import { firstValueFrom, Subject, toArray } from 'rxjs';
+import { PipelineMonitoringService, PipelineProgress, PipelineStage, PipelineStateError } from '../src/services/pipeline-monitoring.service';
+import { PipelineProgressRow } from '../src/db.service';
+import { PipelineEvent, PipelineEventBus } from '../src/services/pipeline-event-bus.service';
+import { fakeDb } from './support/fake-db';
+
+// pipeline_progress rows kept in memory, with DbService's save-unless-cancelled rule
+function createDb() {
+  const toRow = (progress: PipelineProgress): PipelineProgressRow => ({
+    id: 1,
+    pipeline_id: progress.pipelineId,
+    organization_id: progress.organizationId ?? null,
+    status: progress.status,
+    current_stage: progress.currentStage,
+    total_stages: progress.totalStages,
+    progress: progress.progress,
+    stages: JSON.parse(JSON.stringify(progress.stages)) as PipelineStage[],
+    started_at: progress.startedAt ? new Date(progress.startedAt) : null,
+    completed_at: progress.completedAt ? new Date(progress.completedAt) : null,
+    metadata: progress.metadata || {},
+    created_at: new Date('2026-03-01T00:00:00Z'),
+    updated_at: new Date('2026-03-01T00:00:00Z'),
+  });
+
+  const rows = new Map<string, PipelineProgressRow>();
+
+  const db = fakeDb({
+    createPipelineProgress: (progress: PipelineProgress) => {
+      rows.set(progress.pipelineId, toRow(progress));
+      return Promise.resolve();
+    },
+    savePipelineProgress: (progress: PipelineProgress) => {
+      const row = rows.get(progress.pipelineId);
+      if (!row || row.status === 'cancelled') return Promise.resolve(false);
+      rows.set(progress.pipelineId, toRow(progress));
+      return Promise.resolve(true);
+    },
+    getPipelineProgress: (pipelineId, organizationId) => {
+      const row = rows.get(pipelineId);
+      return Promise.resolve(row && (!organizationId || row.organization_id === organizationId) ? row : null);
+    },
+    getActivePipelines: organizationId =>
+      Promise.resolve([...rows.values()].filter(r => r.organization_id === organizationId && ['pending', 'running'].includes(r.status))),
+    cancelPipelineProgress: (pipelineId, organizationId, reason) => {
+      const row = rows.get(pipelineId);
+      if (!row || row.organization_id !== organizationId || !['pending', 'running'].includes(row.status)) return Promise.resolve(null);
+      row.status = 'cancelled';
+      row.metadata = { ...row.metadata, cancellationReason: reason };
+      row.stages.forEach(stage => {
+        if (stage.status === 'running') stage.status = 'cancelled';
+      });
+      return Promise.resolve(row);
+    },
+  });
+  return { db, rows };
+}
+
+function createBus() {
+  const subject = new Subject<PipelineEvent>();
+  const published: PipelineEvent[] = [];
+  return {
+    published,
+    subject,
+    publish: (event: PipelineEvent) => {
+      published.push(event);
+      subject.next(event);
+      return Promise.resolve();
+    },
+    stream: () => subject.asObservable(),
+  };
+}
+
+const CONFIGURATION = {
+  stages: [
+    { id: 'search', name: 'Source Search' },
+    { id: 'draft', name: 'Content Drafting' },
+  ],
+  options: {},
+};
+
+describe('PipelineMonitoringService', () => {
+  function createService() {
+    const { db, rows } = createDb();
+    const bus = createBus();
+    return { service: new PipelineMonitoringService(db, bus as Partial<PipelineEventBus> as PipelineEventBus), rows, bus };
+  }
+
+  it('persists every transition and publishes it with the pipeline state', async () => {
+    const { service, rows, bus } = createService();
+    await service.startPipeline('gen_1', 'org_1', CONFIGURATION, { input: { brief: 'secret brief' } });
+    await service.startStage('gen_1', 'search');
+    await service.completeStage('gen_1', 'search', true);
+    await service.startStage('gen_1', 'draft');
+    await service.completeStage('gen_1', 'draft', false, 'model timed out');
+
+    expect(bus.published.map(e => [e.type, e.stageId, e.pipeline.progress])).toEqual([
+      ['pipeline_started', undefined, 0],
+      ['stage_started', 'search', 0],
+      ['stage_completed', 'search', 50],
+      ['stage_started', 'draft', 50],
+      ['stage_failed', 'draft', 100],
+      ['pipeline_failed', undefined, 100],
+    ]);
+    expect(bus.published.every(e => e.organizationId === 'org_1' && !('metadata' in e.pipeline))).toBe(true);
+    expect(rows.get('gen_1')).toMatchObject({ status: 'failed', current_stage: 2 });
+
+    // Read back from Postgres, scoped to the organization
+    const progress = await service.getPipelineProgress('gen_1', 'org_1');
+    expect(progress!.stages.map(s => s.status)).toEqual(['completed', 'failed']);
+    expect(await service.getPipelineProgress('gen_1', 'org_2')).toBeNull();
+  });
+
+  it('stops recording a pipeline once it is cancelled', async () => {
+    const { service, rows, bus } = createService();
+    await service.startPipeline('gen_1', 'org_1', CONFIGURATION);
+    await service.startStage('gen_1', 'search');
+
+    expect(await service.cancelPipeline('gen_1', 'org_2')).toBeNull();
+    const cancelled = await service.cancelPipeline('gen_1', 'org_1', 'wrong brief');
+    expect(cancelled).toMatchObject({ status: 'cancelled', metadata: { cancellationReason: 'wrong brief' } });
+    expect(cancelled!.stages[0].status).toBe('cancelled');
+
+    // The generation keeps running in its own process; its progress is no longer recorded
+    await service.completeStage('gen_1', 'search', true);
+    await service.updatePipelineStatus('gen_1', 'completed');
+    expect(rows.get('gen_1')?.status).toBe('cancelled');
+    expect(bus.published.map(e => e.type)).toEqual(['pipeline_started', 'stage_started', 'pipeline_cancelled']);
+
+    await expect(service.cancelPipeline('gen_1', 'org_1')).rejects.toThrow(PipelineStateError);
+  });
+
+  it('streams a snapshot before events that arrived while it loaded, and ends with the pipeline', async () => {
+    const { service, bus } = createService();
+    await service.startPipeline('gen_1', 'org_1', CONFIGURATION);
+
+    const received = firstValueFrom(service.streamEvents('org_1', 'gen_1').pipe(toArray()));
+    // Published before the snapshot query resolves
+    await service.startStage('gen_1', 'search');
+    await service.completeStage('gen_1', 'search', true);
+    await service.startStage('gen_1', 'draft');
+    await service.completeStage('gen_1', 'draft', true);
+    bus.subject.complete();
+
+    const events = await received;
+    expect(events.map(e => e.type)).toEqual(['snapshot', 'stage_started', 'stage_completed', 'stage_started', 'stage_completed']);
+    expect((events[0].data as { pipelines: unknown[] }).pipelines).toHaveLength(1);
+    expect((events[4].data as PipelineEvent).pipeline.status).toBe('completed');
+  });
+});
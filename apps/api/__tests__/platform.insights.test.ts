@@ -0,0 +1,186 @@
+import { ScheduleInsightsRow, TargetAccountInsightsRow } from '../src/db.service';
+import { LinkedInClientService, LinkedInShareStatistics } from '../src/platforms/linkedin/linkedin-client.service';
+import { MetaClientService } from '../src/platforms/meta/meta-client.service';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+import {
+  DailyMetric,
+  PlatformInsightsService,
+  insightsFailureBackoffMs,
+  nextPostInsightsSyncAt,
+} from '../src/services/platform-insights.service';
+import { AccessTokenInfo, TokenService } from '../src/token.service';
+import { fakeDb } from './support/fake-db';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function axiosError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers, data: { error: { message: `status ${status}` } } },
+  });
+}
+
+// Records what the service writes, with claim queues the test fills
+function createDb() {
+  const duePosts: ScheduleInsightsRow[][] = [];
+  const dueAccounts: TargetAccountInsightsRow[][] = [];
+  const posts: Array<{ id: string; organizationId: string; platform: string; date: string; metrics: Record<string, number>; engagement: number | null; nextSyncAt: Date | null }> = [];
+  const accounts: Array<{ id: string; organizationId: string; platform: string; values: DailyMetric[]; nextSyncAt: Date; backfilled: boolean }> = [];
+  const failures: Array<{ kind: string; id: string; error: string; nextSyncAt: Date }> = [];
+  const db = fakeDb({
+    claimDueScheduleInsights: () => Promise.resolve(duePosts.shift() || []),
+    claimDueTargetAccountInsights: () => Promise.resolve(dueAccounts.shift() || []),
+    recordScheduleInsights: (id, organizationId, platform, date, metrics, engagement, nextSyncAt) => {
+      posts.push({ id, organizationId, platform, date, metrics, engagement, nextSyncAt });
+      return Promise.resolve();
+    },
+    recordTargetAccountInsights: (id, organizationId, platform, values, nextSyncAt, backfilled) => {
+      accounts.push({ id, organizationId, platform, values, nextSyncAt, backfilled });
+      return Promise.resolve();
+    },
+    recordInsightsFailure: (kind, id, error, nextSyncAt) => {
+      failures.push({ kind, id, error, nextSyncAt });
+      return Promise.resolve();
+    },
+  });
+  return { db, store: { duePosts, dueAccounts, posts, accounts, failures } };
+}
+
+function createService(overrides: { meta?: Partial<MetaClientService>; linkedin?: Partial<LinkedInClientService> } = {}) {
+  const { db, store } = createDb();
+  // One Meta / LinkedIn user connection; accounts have no connection of their own
+  const token: AccessTokenInfo = { accessToken: 'user-token', dummy: false, socialAccountId: null };
+  const tokenService: Pick<TokenService, 'getValidAccessToken' | 'getAccountAccessToken' | 'findConnectedAccount'> = {
+    getValidAccessToken: () => Promise.resolve(token),
+    getAccountAccessToken: () => Promise.resolve(null),
+    findConnectedAccount: (_orgId, _platform, reach) => reach({ ...token, externalId: 'user' }).then(found => found ?? null),
+  };
+  const meta: Partial<MetaClientService> = {
+    getUserPages: () => Promise.resolve([{ id: '111', name: 'Bowery', accessToken: 'page-token', category: '' }]),
+    ...overrides.meta,
+  };
+  const linkedin: Partial<LinkedInClientService> = {
+    getUserCompanies: () => Promise.resolve([{ id: '555', name: 'Bowery', description: '', website: '', industry: '', companySize: '' }]),
+    ...overrides.linkedin,
+  };
+  const service = new PlatformInsightsService(
+    db,
+    tokenService as TokenService,
+    meta as MetaClientService,
+    linkedin as LinkedInClientService,
+    new EnhancedErrorHandlingService(),
+  );
+  return { service, store, meta, linkedin };
+}
+
+describe('PlatformInsightsService', () => {
+  it('syncs new posts often and slows down as they age', () => {
+    const publishedAt = new Date(NOW.getTime() - 2 * HOUR_MS);
+    expect(nextPostInsightsSyncAt(publishedAt, NOW)?.getTime()).toBe(NOW.getTime() + HOUR_MS);
+    expect(nextPostInsightsSyncAt(new Date(NOW.getTime() - 3 * DAY_MS), NOW)?.getTime()).toBe(NOW.getTime() + 6 * HOUR_MS);
+    expect(nextPostInsightsSyncAt(new Date(NOW.getTime() - 10 * DAY_MS), NOW)?.getTime()).toBe(NOW.getTime() + DAY_MS);
+    expect(nextPostInsightsSyncAt(new Date(NOW.getTime() - 30 * DAY_MS), NOW)).toBeNull();
+
+    expect(insightsFailureBackoffMs(1)).toBe(15 * 60 * 1000);
+    expect(insightsFailureBackoffMs(3)).toBe(60 * 60 * 1000);
+    expect(insightsFailureBackoffMs(20)).toBe(DAY_MS);
+    expect(insightsFailureBackoffMs(1, 7200)).toBe(2 * HOUR_MS);
+  });
+
+  it('stores Facebook post metrics and the engagement rate with the page token', async () => {
+    const getPostInsights = jest.fn().mockResolvedValue({
+      post_impressions: 400,
+      post_engaged_users: 30,
+      post_clicks: 12,
+      post_reactions_by_type_total: { like: 8, love: 2 },
+    });
+    const { service, store } = createService({ meta: { getPostInsights } });
+
+    const synced = await service.syncPost({
+      id: 'sch_1',
+      organization_id: 'org_1',
+      platform: 'FACEBOOK',
+      provider_id: '111_987',
+      scheduled_at: new Date(NOW.getTime() - 2 * HOUR_MS),
+      insights_failures: 0,
+      target_external_id: null,
+    }, NOW);
+
+    expect(synced).toBe(true);
+    expect(getPostInsights).toHaveBeenCalledWith('111_987', 'page-token');
+    expect(store.posts).toEqual([{
+      id: 'sch_1',
+      organizationId: 'org_1',
+      platform: 'FACEBOOK',
+      date: '2026-03-10',
+      metrics: { impressions: 400, engagements: 30, clicks: 12, reactions: 10 },
+      engagement: 0.075,
+      nextSyncAt: new Date(NOW.getTime() + HOUR_MS),
+    }]);
+  });
+
+  it('backfills account history on the first sync and refreshes recent days afterwards', async () => {
+    const day = (date: string, impressionCount: number): LinkedInShareStatistics => ({
+      timeRange: { start: new Date(`${date}T00:00:00Z`).getTime(), end: new Date(`${date}T00:00:00Z`).getTime() + DAY_MS },
+      totalShareStatistics: { impressionCount, clickCount: 3, likeCount: 4, commentCount: 1, shareCount: 2, engagement: 0.05 },
+    });
+    const getCompanyAnalytics = jest.fn<Promise<LinkedInShareStatistics[]>, [string, string, { start: number; end: number }]>(() =>
+      Promise.resolve([day('2026-03-08', 120), day('2026-03-09', 150)]));
+    const { service, store } = createService({ linkedin: { getCompanyAnalytics } });
+    const account = { id: 'ta_1', organization_id: 'org_1', platform: 'LINKEDIN', account_id: '555', account_metadata: {}, insights_failures: 0 };
+
+    expect(await service.syncAccount({ ...account, insights_backfilled_at: null }, NOW)).toBe(true);
+    const [, , backfillRange] = getCompanyAnalytics.mock.calls[0];
+    expect(backfillRange).toEqual({ start: NOW.getTime() - 90 * DAY_MS, end: NOW.getTime() });
+    expect(store.accounts[0]).toMatchObject({ id: 'ta_1', platform: 'LINKEDIN', backfilled: true, nextSyncAt: new Date(NOW.getTime() + 6 * HOUR_MS) });
+    expect(store.accounts[0].values).toEqual(expect.arrayContaining([
+      { date: '2026-03-08', metric: 'impressions', value: 120 },
+      { date: '2026-03-09', metric: 'engagements', value: 10 },
+      { date: '2026-03-09', metric: 'engagement_rate', value: 0.05 },
+    ]));
+
+    expect(await service.syncAccount({ ...account, insights_backfilled_at: new Date('2026-03-10T12:00:00Z') }, NOW)).toBe(true);
+    expect(getCompanyAnalytics.mock.calls[1][2]).toEqual({ start: NOW.getTime() - 3 * DAY_MS, end: NOW.getTime() });
+    expect(store.accounts[1].backfilled).toBe(false);
+  });
+
+  it('backs off failed syncs and keeps request errors away from the circuit breaker', async () => {
+    const getPostAnalytics = jest.fn().mockRejectedValue(axiosError(404));
+    const { service, store } = createService({ linkedin: { getPostAnalytics } });
+    const post = { id: 'sch_2', organization_id: 'org_1', platform: 'LINKEDIN', provider_id: 'urn:li:share:1', scheduled_at: NOW, target_external_id: null };
+
+    // More 404s than the breaker's failure threshold, and every call still reaches LinkedIn
+    for (let i = 0; i < 6; i++) {
+      expect(await service.syncPost({ ...post, insights_failures: i })).toBe(false);
+    }
+    expect(getPostAnalytics).toHaveBeenCalledTimes(6);
+    expect(store.failures[0]).toMatchObject({ kind: 'schedule', id: 'sch_2', error: '404: status 404' });
+    const lastDelay = store.failures[5].nextSyncAt.getTime() - Date.now();
+    expect(lastDelay).toBeGreaterThan(7 * HOUR_MS);
+    expect(lastDelay).toBeLessThanOrEqual(8 * HOUR_MS);
+
+    getPostAnalytics.mockRejectedValueOnce(axiosError(429, { 'retry-after': '36000' }));
+    await service.syncPost({ ...post, insights_failures: 0 });
+    expect(store.failures[6].nextSyncAt.getTime() - Date.now()).toBeGreaterThan(9.9 * HOUR_MS);
+  });
+
+  it('syncs whatever is due and records failures without stopping the run', async () => {
+    const getInstagramMediaInsights = jest.fn()
+      .mockResolvedValueOnce({ reach: 200, likes: 15, comments: 3, shares: 1, saved: 1, total_interactions: 20 })
+      .mockRejectedValueOnce(new Error('Media not found'));
+    const { service, store } = createService({ meta: { getInstagramMediaInsights } });
+    const scheduledAt = new Date(Date.now() - 2 * DAY_MS);
+    store.duePosts.push([
+      { id: 'sch_3', organization_id: 'org_1', platform: 'INSTAGRAM', provider_id: '1789', scheduled_at: scheduledAt, insights_failures: 0, target_external_id: null },
+      { id: 'sch_4', organization_id: 'org_1', platform: 'INSTAGRAM', provider_id: '1790', scheduled_at: scheduledAt, insights_failures: 2, target_external_id: null },
+    ]);
+
+    const summary = await service.syncDue();
+
+    expect(summary).toEqual({ posts: { synced: 1, failed: 1 }, accounts: { synced: 0, failed: 0 } });
+    expect(store.posts[0]).toMatchObject({ id: 'sch_3', engagement: 0.1, metrics: { reach: 200, engagements: 20, saves: 1 } });
+    expect(store.failures).toEqual([expect.objectContaining({ kind: 'schedule', id: 'sch_4', error: 'Media not found' })]);
+  });
+});
@@ -0,0 +1,125 @@
+import { DbService } from '../src/db.service';
+import { PlatformPublishService } from '../src/platform-publish.service';
+import { TokenService } from '../src/token.service';
+import { TokenCacheService } from '../src/token-cache.service';
+import { encryptToken } from '../src/token.util';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+import { TemplateTuningService } from '../src/services/template-tuning.service';
+import { TokenAuditService } from '../src/services/token-audit.service';
+import { MediaProcessingService } from '../src/services/media-processing.service';
+import { NewsletterService } from '../src/services/newsletter.service';
+import { LinkedInClientService } from '../src/platforms/linkedin/linkedin-client.service';
+import { MetaClientService, MetaPageInfo, MetaPostContent, MetaPostResult } from '../src/platforms/meta/meta-client.service';
+import { WordPressClientService } from '../src/platforms/wordpress/wordpress-client.service';
+import { fakeDb } from './support/fake-db';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Organization A's lookups are slower, so its requests interleave with B's
+const latency = (orgId: string) => (orgId === 'org_a' ? 15 : 2);
+
+class FakeDb {
+  getContentSchedules() { return Promise.resolve([]); }
+  async getContentItem(id: string) {
+    const orgId = id === 'ci_a' ? 'org_a' : 'org_b';
+    await delay(latency(orgId));
+    return { id, title: 'Hello', type: 'SOCIAL', organization_id: orgId };
+  }
+  getCurrentContentVersion(id: string) { return Promise.resolve({ body: `Body of ${id}`, metadata: {} }); }
+  async getLatestTokenForPlatform(orgId: string, platform: string, socialAccountId?: string) {
+    await delay(latency(orgId));
+    return {
+      access_token_enc: encryptToken(`user_token_${orgId}`),
+      refresh_token_enc: null,
+      expires_at: null,
+      social_account_id: socialAccountId || `sa_${orgId}_${platform}`,
+    };
+  }
+  query() { return Promise.resolve({ command: 'SELECT', rowCount: 0, oid: 0, fields: [], rows: [] }); }
+}
+
+class FakeTokenCache {
+  entries = new Map<string, string>();
+  async getCachedToken(orgId: string, platform: string, socialAccountId?: string) {
+    await delay(1);
+    return this.entries.get(`${orgId}:${platform}:${socialAccountId || ''}`) || null;
+  }
+  setCachedToken(orgId: string, platform: string, tokenEnc: string, _ttl?: number, socialAccountId?: string) {
+    this.entries.set(`${orgId}:${platform}:${socialAccountId || ''}`, tokenEnc);
+    return Promise.resolve();
+  }
+  evictTokenCache() { return Promise.resolve(0); }
+}
+
+class FakeAudit { record() { return Promise.resolve(); } }
+
+class RecordingMetaClient {
+  posts: Array<{ pageId: string; token: string; message: string }> = [];
+  getUserPages(userToken: string): Promise<MetaPageInfo[]> {
+    // Each user token only sees its own organization's page
+    return Promise.resolve([{ id: `page_for_${userToken}`, name: 'Page', accessToken: `page_token_for_${userToken}`, category: 'Business' }]);
+  }
+  publishFacebookPost(pageId: string, token: string, payload: MetaPostContent): Promise<MetaPostResult> {
+    this.posts.push({ pageId, token, message: payload.message });
+    return Promise.resolve({ success: true, postId: `post_${pageId}`, platform: 'facebook' });
+  }
+}
+
+const createTokenService = (db: DbService, cache: FakeTokenCache) => new TokenService(
+  db,
+  new FakeAudit() as Partial<TokenAuditService> as TokenAuditService,
+  cache as Partial<TokenCacheService> as TokenCacheService,
+);
+
+describe('token isolation between organizations', () => {
+  it('publishes concurrently for two organizations without mixing their tokens', async () => {
+    const db = fakeDb(new FakeDb());
+    const cache = new FakeTokenCache();
+    const tokens = createTokenService(db, cache);
+    const meta = new RecordingMetaClient();
+    const svc = new PlatformPublishService(
+      tokens,
+      db,
+      meta as Partial<MetaClientService> as MetaClientService,
+      {} as LinkedInClientService,
+      {} as MediaProcessingService,
+      { recordPostMetrics: () => Promise.resolve() } as Partial<TemplateTuningService> as TemplateTuningService,
+      {} as WordPressClientService,
+      {} as NewsletterService,
+      new EnhancedErrorHandlingService(),
+    );
+    const publish = (contentItemId: string, organizationId: string) => svc.publishToPlatform({
+      contentItemId, organizationId, platform: 'FACEBOOK', scheduledAt: new Date().toISOString(),
+    });
+
+    // Second round is served from the token cache
+    for (let round = 0; round < 2; round++) {
+      const results = await Promise.all([publish('ci_a', 'org_a'), publish('ci_b', 'org_b'), publish('ci_a', 'org_a')]);
+      expect(results.every(r => r.success)).toBe(true);
+    }
+
+    expect(meta.posts).toHaveLength(6);
+    for (const post of meta.posts) {
+      const org = post.message === 'Body of ci_a' ? 'org_a' : 'org_b';
+      expect(post).toEqual({ pageId: `page_for_user_token_${org}`, token: `page_token_for_user_token_${org}`, message: post.message });
+    }
+    expect(Array.from(cache.entries.keys()).sort()).toEqual(['org_a:FACEBOOK:', 'org_b:FACEBOOK:']);
+  });
+
+  it('keys token lookups and the cache on the social account when one is given', async () => {
+    const db = fakeDb(new FakeDb());
+    const cache = new FakeTokenCache();
+    const tokens = createTokenService(db, cache);
+
+    const [a, b, none] = await Promise.all([
+      tokens.getValidAccessToken({ organizationId: 'org_a', socialAccountId: 'sa_page_1' }, 'meta'),
+      tokens.getValidAccessToken({ organizationId: 'org_b' }, 'linkedin'),
+      tokens.getValidAccessToken({ organizationId: '' }, 'meta'),
+    ]);
+
+    expect(a).toEqual({ accessToken: 'user_token_org_a', dummy: false, socialAccountId: 'sa_page_1' });
+    expect(b).toEqual({ accessToken: 'user_token_org_b', dummy: false, socialAccountId: 'sa_org_b_LINKEDIN' });
+    expect(none).toBeNull();
+    expect(Array.from(cache.entries.keys()).sort()).toEqual(['org_a:FACEBOOK:sa_page_1', 'org_b:LINKEDIN:']);
+  });
+});
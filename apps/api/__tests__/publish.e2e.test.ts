@@ -1,11 +1,13 @@
 import nock from 'nock';
 import { PlatformPublishService } from '../src/platform-publish.service';
+import { TokenService } from '../src/token.service';
+import { encryptToken } from '../src/token.util';
+import { EnhancedErrorHandlingService } from '../src/services/enhanced-error-handling.service';
+import { fakeDb } from './support/fake-db';
 
 // Minimal shapes to satisfy constructor
 class MockTokenService {
-  private orgId?: string;
-  setOrgId(orgId: string) { this.orgId = orgId; }
-  async getValidAccessToken() { return { accessToken: 'test_access', dummy: false }; }
+  async getValidAccessToken(_ctx: any, _provider: string) { return { accessToken: 'test_access', dummy: false, socialAccountId: 'sa_1' }; }
 }
 
 class MockDbService {
@@ -29,6 +31,11 @@ class MockMetaClientService {
 
 class MockLinkedInClientService {}
 class MockMediaProcessingService {}
+class MockTemplateTuningService {
+  async recordPostMetrics(_: any) { return null; }
+}
+class MockWordPressClientService {}
+class MockNewsletterService {}
 
 describe('PlatformPublishService - integration behaviors', () => {
   it('happy path: publishes successfully to Facebook', async () => {
@@ -37,7 +44,11 @@ describe('PlatformPublishService - integration behaviors', () => {
       new MockDbService() as any,
       new MockMetaClientService() as any,
       new MockLinkedInClientService() as any,
-      new MockMediaProcessingService() as any
+      new MockMediaProcessingService() as any,
+      new MockTemplateTuningService() as any,
+      new MockWordPressClientService() as any,
+      new MockNewsletterService() as any,
+      new EnhancedErrorHandlingService()
     );
 
     const result = await svc.publishToPlatform({
@@ -68,7 +79,11 @@ describe('PlatformPublishService - integration behaviors', () => {
       new MockDbService() as any,
       new RateLimitedMetaClient() as any,
       new MockLinkedInClientService() as any,
-      new MockMediaProcessingService() as any
+      new MockMediaProcessingService() as any,
+      new MockTemplateTuningService() as any,
+      new MockWordPressClientService() as any,
+      new MockNewsletterService() as any,
+      new EnhancedErrorHandlingService()
     );
 
     const result = await svc.publishToPlatform({
@@ -92,7 +107,11 @@ describe('PlatformPublishService - integration behaviors', () => {
       new DbWithPublished() as any,
       new MockMetaClientService() as any,
       new MockLinkedInClientService() as any,
-      new MockMediaProcessingService() as any
+      new MockMediaProcessingService() as any,
+      new MockTemplateTuningService() as any,
+      new MockWordPressClientService() as any,
+      new MockNewsletterService() as any,
+      new EnhancedErrorHandlingService()
     );
 
     const result = await svc.publishToPlatform({
@@ -106,6 +125,212 @@ describe('PlatformPublishService - integration behaviors', () => {
   });
 });
 
+describe('PlatformPublishService - target accounts', () => {
+  // What each token's /me/accounts returns: two Meta users' page lists; page tokens list nothing
+  const pagesByToken: Record<string, any[]> = {
+    user_a_token: [
+      { id: 'page_1', name: 'First', accessToken: 'page_1_token', category: 'Business' },
+      { id: 'page_2', name: 'Second', accessToken: 'page_2_token', category: 'Business' },
+    ],
+    user_b_token: [
+      { id: 'page_4', name: 'Fourth', accessToken: 'page_4_token', category: 'Business' },
+      { id: 'page_5', name: 'Fifth', accessToken: 'page_5_token', category: 'Business' },
+    ],
+  };
+
+  class TwoUserMetaClient extends MockMetaClientService {
+    posts: Array<{ pageId: string; token: string }> = [];
+    async getUserPages(token: string) { return pagesByToken[token] || []; }
+    async publishFacebookPost(pageId: string, token: string, _: any) {
+      this.posts.push({ pageId, token });
+      return { success: true, postId: `post_${pageId}`, platform: 'facebook' };
+    }
+  }
+
+  class DbWithTargets extends MockDbService {
+    accounts: Record<string, any> = {
+      ta_second: { id: 'ta_second', platform: 'FACEBOOK', account_id: 'page_2', account_name: 'Second', account_type: 'page', account_metadata: {}, is_active: true },
+      ta_third: { id: 'ta_third', platform: 'FACEBOOK', account_id: 'page_3', account_name: 'Third', account_type: 'page', account_metadata: {}, is_active: true },
+      ta_fourth: { id: 'ta_fourth', platform: 'FACEBOOK', account_id: 'page_4', account_name: 'Fourth', account_type: 'page', account_metadata: {}, is_active: true },
+      ta_fifth: { id: 'ta_fifth', platform: 'FACEBOOK', account_id: 'page_5', account_name: 'Fifth', account_type: 'page', account_metadata: {}, is_active: true },
+      ta_gone: { id: 'ta_gone', platform: 'FACEBOOK', account_id: 'page_9', account_name: 'Old page', account_type: 'page', account_metadata: {}, is_active: false },
+    };
+    // Most recently connected first: Meta user A (stored under its first page), page_3 selected through OAuth
+    // with its own page token, then Meta user B
+    socialAccounts = [
+      { id: 'sa_user_a', platform: 'FACEBOOK', external_id: 'page_1', token: 'user_a_token' },
+      { id: 'sa_page_3', platform: 'FACEBOOK', external_id: 'page_3', token: 'page_3_stored_token' },
+      { id: 'sa_user_b', platform: 'FACEBOOK', external_id: 'page_4', token: 'user_b_token' },
+    ];
+    async getContentSchedules(_: string): Promise<any[]> {
+      return Object.keys(this.accounts).map(id => ({ id: `sch_${id}`, status: 'queued', target_account_id: id }))
+        .concat([{ id: 'sch_none', status: 'queued', target_account_id: null } as any]);
+    }
+    async getTargetAccount(id: string, _orgId?: string) { return this.accounts[id] || null; }
+    async getSocialAccount(_orgId: string, platform: string, externalId: string) {
+      return this.socialAccounts.find(a => a.platform === platform && a.external_id === externalId) || null;
+    }
+    async getConnectedSocialAccounts(_orgId: string, platform: string) {
+      return this.socialAccounts.filter(a => a.platform === platform);
+    }
+    async getLatestTokenForPlatform(_orgId: string, platform: string, socialAccountId?: string) {
+      const account = this.socialAccounts.find(a => (socialAccountId ? a.id === socialAccountId : a.platform === platform));
+      if (!account) return null;
+      return { access_token_enc: encryptToken(account.token), refresh_token_enc: null, expires_at: null, social_account_id: account.id };
+    }
+  }
+
+  const build = (meta: any) => {
+    const db = fakeDb(new DbWithTargets());
+    const tokenCache = { getCachedToken: async () => null, setCachedToken: async () => undefined };
+    return new PlatformPublishService(
+      new TokenService(db, { record: async () => undefined } as any, tokenCache as any),
+      db,
+      meta,
+      new MockLinkedInClientService() as any,
+      new MockMediaProcessingService() as any,
+      new MockTemplateTuningService() as any,
+      new MockWordPressClientService() as any,
+      new MockNewsletterService() as any,
+      new EnhancedErrorHandlingService()
+    );
+  };
+  const publish = (svc: PlatformPublishService, scheduleId: string) => svc.publishToPlatform({
+    contentItemId: 'ci_1', platform: 'FACEBOOK', scheduledAt: new Date().toISOString(), scheduleId, organizationId: 'org_1',
+  });
+
+  it('publishes each schedule to its own page with that page\'s token', async () => {
+    const meta = new TwoUserMetaClient();
+    const svc = build(meta);
+
+    const second = await publish(svc, 'sch_ta_second');
+    const third = await publish(svc, 'sch_ta_third');
+
+    expect(second).toMatchObject({ success: true, providerId: 'post_page_2' });
+    expect(third).toMatchObject({ success: true, providerId: 'post_page_3' });
+    // page_3 was selected through OAuth, so its stored page token is used rather than a user's page list
+    expect(meta.posts).toEqual([
+      { pageId: 'page_2', token: 'page_2_token' },
+      { pageId: 'page_3', token: 'page_3_stored_token' },
+    ]);
+  });
+
+  it('uses the Meta connection that manages the page when the organization has two', async () => {
+    const meta = new TwoUserMetaClient();
+    const svc = build(meta);
+
+    // page_4 is user B's own connection; page_5 is only in user B's page list, behind the newer user A
+    const fourth = await publish(svc, 'sch_ta_fourth');
+    const fifth = await publish(svc, 'sch_ta_fifth');
+
+    expect(fourth).toMatchObject({ success: true, providerId: 'post_page_4' });
+    expect(fifth).toMatchObject({ success: true, providerId: 'post_page_5' });
+    expect(meta.posts).toEqual([
+      { pageId: 'page_4', token: 'page_4_token' },
+      { pageId: 'page_5', token: 'page_5_token' },
+    ]);
+  });
+
+  it('fails without retry when the target account was disconnected', async () => {
+    const meta = new TwoUserMetaClient();
+    const result = await publish(build(meta), 'sch_ta_gone');
+
+    expect(result.success).toBe(false);
+    expect(result.retryable).toBe(false);
+    expect(result.error).toContain('"Old page" (page_9) was disconnected');
+    expect(meta.posts).toHaveLength(0);
+  });
+
+  it('refuses to guess between several pages when the schedule has no target', async () => {
+    const meta = new TwoUserMetaClient();
+    const result = await publish(build(meta), 'sch_none');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('set a target account');
+    expect(meta.posts).toHaveLength(0);
+  });
+});
+
+describe('PlatformPublishService - WordPress sites', () => {
+  class TwoSiteDb extends MockDbService {
+    accounts: Record<string, any> = {
+      ta_blog: { id: 'ta_blog', platform: 'WORDPRESS', account_id: 'https://blog.example.com/', account_name: 'Blog', account_type: 'site', account_metadata: {}, is_active: true },
+    };
+    socialAccounts = [
+      { id: 'sa_shop', platform: 'WORDPRESS', external_id: 'https://shop.example.com', token: 'shop:app-pass' },
+      { id: 'sa_blog', platform: 'WORDPRESS', external_id: 'https://blog.example.com', token: 'blog:app-pass' },
+    ];
+    async getContentSchedules(_: string): Promise<any[]> {
+      return [
+        { id: 'sch_blog', platform: 'WORDPRESS', status: 'queued', target_account_id: 'ta_blog' },
+        { id: 'sch_none', platform: 'WORDPRESS', status: 'queued', target_account_id: null },
+        // Published earlier to the other site; must not be updated by the blog schedule
+        { id: 'sch_shop', platform: 'WORDPRESS', status: 'published', provider_id: '77', target_account_id: 'ta_shop' },
+      ];
+    }
+    async getTargetAccount(id: string, _orgId?: string) { return this.accounts[id] || null; }
+    async getSocialAccount(_orgId: string, platform: string, externalId: string) {
+      return this.socialAccounts.find(a => a.platform === platform && a.external_id === externalId) || null;
+    }
+    async getConnectedSocialAccounts(_orgId: string, platform: string) {
+      return this.socialAccounts.filter(a => a.platform === platform);
+    }
+    async getLatestTokenForPlatform(_orgId: string, platform: string, socialAccountId?: string) {
+      const account = this.socialAccounts.find(a => (socialAccountId ? a.id === socialAccountId : a.platform === platform));
+      if (!account) return null;
+      return { access_token_enc: encryptToken(account.token), refresh_token_enc: null, expires_at: null, social_account_id: account.id };
+    }
+  }
+
+  class RecordingWordPressClient {
+    calls: Array<{ method: string; siteUrl: string; credentials: string }> = [];
+    async createPost(siteUrl: string, credentials: string, _post: any) {
+      this.calls.push({ method: 'create', siteUrl, credentials });
+      return { success: true, postId: '101', status: 'draft' };
+    }
+    async updatePost(siteUrl: string, credentials: string, _id: string, _post: any) {
+      this.calls.push({ method: 'update', siteUrl, credentials });
+      return { success: true, postId: '77', status: 'draft' };
+    }
+  }
+
+  const build = (wordpress: RecordingWordPressClient) => {
+    const db = fakeDb(new TwoSiteDb());
+    const tokenCache = { getCachedToken: async () => null, setCachedToken: async () => undefined };
+    return new PlatformPublishService(
+      new TokenService(db, { record: async () => undefined } as any, tokenCache as any),
+      db,
+      new MockMetaClientService() as any,
+      new MockLinkedInClientService() as any,
+      new MockMediaProcessingService() as any,
+      new MockTemplateTuningService() as any,
+      wordpress as any,
+      new MockNewsletterService() as any,
+      new EnhancedErrorHandlingService()
+    );
+  };
+  const publish = (svc: PlatformPublishService, scheduleId: string) => svc.publishToPlatform({
+    contentItemId: 'ci_1', platform: 'WORDPRESS', scheduledAt: new Date().toISOString(), scheduleId, organizationId: 'org_1',
+  });
+
+  it('posts to the target site with that site\'s own credentials', async () => {
+    const wordpress = new RecordingWordPressClient();
+    const result = await publish(build(wordpress), 'sch_blog');
+
+    expect(result).toMatchObject({ success: true, providerId: '101' });
+    expect(wordpress.calls).toEqual([{ method: 'create', siteUrl: 'https://blog.example.com', credentials: 'blog:app-pass' }]);
+  });
+
+  it('refuses to guess between several sites when the schedule has no target', async () => {
+    const wordpress = new RecordingWordPressClient();
+    const result = await publish(build(wordpress), 'sch_none');
+
+    expect(result).toMatchObject({ success: false, statusCode: 422, retryable: false });
+    expect(result.error).toContain('set a target account');
+    expect(wordpress.calls).toHaveLength(0);
+  });
+});
+
 describe('MetaClientService HTTP - nock', () => {
   afterEach(() => nock.cleanAll());
 
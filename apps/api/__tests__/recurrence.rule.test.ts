@@ -0,0 +1,153 @@
+import { RecurrenceRuleError, formatInTimeZone, nextOccurrences, parseRecurrenceRule } from '../src/services/recurrence-rule';
+import { SmartSchedulingService } from '../src/services/smart-scheduling.service';
+import { CadencePolicyService } from '../src/services/cadence-policy.service';
+import { fakeDb } from './support/fake-db';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+const BEFORE = new Date('2000-01-01T00:00:00Z');
+
+describe('recurrence rules', () => {
+  it('keeps wall-clock times across DST changes', () => {
+    const weekly = { rrule: 'RRULE:FREQ=WEEKLY;BYDAY=MO', dtstart: '2026-03-02T09:00', timezone: 'America/New_York' };
+    expect(iso(nextOccurrences(weekly, BEFORE, 3))).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-16T13:00:00.000Z',
+    ]);
+    expect(iso(nextOccurrences(weekly, new Date('2026-10-20T00:00:00Z'), 2))).toEqual([
+      '2026-10-26T13:00:00.000Z',
+      '2026-11-02T14:00:00.000Z',
+    ]);
+
+    // 02:30 does not exist on the spring-forward day and moves to 03:30
+    const daily = { rrule: 'FREQ=DAILY', dtstart: '2026-03-07T02:30', timezone: 'America/New_York' };
+    const occurrences = nextOccurrences(daily, BEFORE, 3);
+    expect(iso(occurrences)).toEqual(['2026-03-07T07:30:00.000Z', '2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+    expect(formatInTimeZone(occurrences[1], 'America/New_York')).toBe('2026-03-08T03:30:00');
+  });
+
+  it('selects positions within the period with BYSETPOS', () => {
+    const lastWeekday = {
+      rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      dtstart: '2026-01-01T17:30',
+      timezone: 'Europe/Berlin',
+    };
+    expect(iso(nextOccurrences(lastWeekday, BEFORE, 3))).toEqual([
+      '2026-01-30T16:30:00.000Z',
+      '2026-02-27T16:30:00.000Z',
+      '2026-03-31T15:30:00.000Z',
+    ]);
+  });
+
+  it('ends at UNTIL and COUNT, with exception dates still counted', () => {
+    const secondTuesday = { rrule: 'FREQ=MONTHLY;BYDAY=2TU;BYHOUR=10;BYMINUTE=0;UNTIL=20260430', dtstart: '2026-01-01T00:00', timezone: 'UTC' };
+    expect(iso(nextOccurrences(secondTuesday, BEFORE, 10))).toEqual([
+      '2026-01-13T10:00:00.000Z',
+      '2026-02-10T10:00:00.000Z',
+      '2026-03-10T10:00:00.000Z',
+      '2026-04-14T10:00:00.000Z',
+    ]);
+
+    const everyOtherDay = {
+      rrule: 'FREQ=DAILY;INTERVAL=2;COUNT=4',
+      dtstart: '2026-05-01T08:00',
+      timezone: 'UTC',
+      exdates: ['2026-05-03', '2026-05-05T09:00:00+01:00'],
+    };
+    expect(iso(nextOccurrences(everyOtherDay, BEFORE, 10))).toEqual(['2026-05-01T08:00:00.000Z', '2026-05-07T08:00:00.000Z']);
+    expect(iso(nextOccurrences(everyOtherDay, new Date('2026-05-01T08:00:00Z'), 10))).toEqual(['2026-05-07T08:00:00.000Z']);
+  });
+
+  it('rejects malformed and unsupported rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow('FREQ=HOURLY is not supported');
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toThrow('COUNT and UNTIL');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule('FREQ=YEARLY;BYWEEKNO=20')).toThrow('BYWEEKNO is not supported');
+    expect(() => nextOccurrences({ rrule: 'FREQ=DAILY', dtstart: '2026-01-01T09:00', timezone: 'Mars/Olympus' }, BEFORE, 1))
+      .toThrow('Unknown timezone');
+    expect(parseRecurrenceRule('freq=yearly;bymonth=3;byday=-1su;wkst=su')).toEqual({
+      freq: 'YEARLY',
+      interval: 1,
+      byMonth: [3],
+      byDay: [{ weekday: 0, ordinal: -1 }],
+      weekStart: 0,
+    });
+  });
+});
+
+describe('SmartSchedulingService recurring schedules', () => {
+  function createDb() {
+    const recurring: Array<Record<string, unknown> & { id: string; next_execution: string | null }> = [];
+    const schedules: Array<{ contentItemId: string; platform: string; scheduledAt: string }> = [];
+    const db = fakeDb({
+      createRecurringSchedule: (schedule: { id: string; nextExecution: string }) => {
+        recurring.push({ ...schedule, next_execution: schedule.nextExecution });
+        return Promise.resolve();
+      },
+      getDueRecurringSchedules: () => Promise.resolve(recurring.map(s => ({ ...s }))),
+      advanceRecurringSchedule: (id, occurrence, next) => {
+        const row = recurring.find(s => s.id === id)!;
+        if (new Date(row.next_execution!).getTime() !== occurrence.getTime()) return Promise.resolve(false);
+        row.next_execution = next && next.toISOString();
+        return Promise.resolve(true);
+      },
+      listCadencePolicies: () => Promise.resolve([]),
+      withCadenceLock: <T>(_org: string, fn: () => Promise<T>) => fn(),
+      createContentItem: () => Promise.resolve(`ci_${schedules.length}`),
+      createSchedule: (contentItemId, platform, scheduledAt) => {
+        schedules.push({ contentItemId, platform, scheduledAt: scheduledAt.toISOString() });
+        return Promise.resolve(`sch_${schedules.length}`);
+      },
+    });
+    return { db, recurring, schedules };
+  }
+  const createService = ({ db }: ReturnType<typeof createDb>) => new SmartSchedulingService(db, new CadencePolicyService(db));
+
+  it('converts frequency templates and previews them in their timezone', () => {
+    const service = createService(createDb());
+    const preview = service.previewRecurrence(
+      { platforms: ['LINKEDIN'], frequency: 'weekly', daysOfWeek: [2, 4], timeOfDay: '08:15', timezone: 'Europe/London', dtstart: '2026-03-23T00:00' },
+      3,
+      new Date('2026-03-20T00:00:00Z'),
+    );
+    expect(preview.rrule).toBe('FREQ=WEEKLY;BYDAY=TU,TH;BYHOUR=8;BYMINUTE=15');
+    expect(preview.occurrences).toEqual([
+      { at: '2026-03-24T08:15:00.000Z', local: '2026-03-24T08:15:00' },
+      { at: '2026-03-26T08:15:00.000Z', local: '2026-03-26T08:15:00' },
+      { at: '2026-03-31T07:15:00.000Z', local: '2026-03-31T08:15:00' },
+    ]);
+  });
+
+  it('creates schedules at the occurrence once and moves to the next one', async () => {
+    const store = createDb();
+    const service = createService(store);
+    const occurrence = new Date(Math.floor((Date.now() + 30 * 60 * 1000) / 1000) * 1000);
+    store.recurring.push({
+      id: 'recurring_1',
+      organizationId: 'org_1',
+      template: { platforms: ['FACEBOOK', 'LINKEDIN'], rrule: 'FREQ=DAILY', timezone: 'UTC', dtstart: occurrence.toISOString().slice(0, 19) },
+      contentTemplate: { type: 'SOCIAL', brief: 'Daily tip' },
+      next_execution: occurrence.toISOString(),
+    });
+
+    const [first, second] = await Promise.all([service.processRecurringSchedules(), service.processRecurringSchedules()]);
+
+    expect(first.processed + second.processed).toBe(1);
+    expect(store.schedules).toEqual([
+      { contentItemId: 'ci_0', platform: 'FACEBOOK', scheduledAt: occurrence.toISOString() },
+      { contentItemId: 'ci_0', platform: 'LINKEDIN', scheduledAt: occurrence.toISOString() },
+    ]);
+    expect(store.recurring[0].next_execution).toBe(new Date(occurrence.getTime() + 24 * 60 * 60 * 1000).toISOString());
+  });
+
+  it('refuses rules without future occurrences', async () => {
+    const service = createService(createDb());
+    await expect(service.createRecurringSchedule({
+      name: 'Past',
+      organizationId: 'org_1',
+      template: { platforms: ['FACEBOOK'], rrule: 'FREQ=DAILY;COUNT=2', dtstart: '2020-01-01T09:00' },
+      contentTemplate: { type: 'SOCIAL', brief: 'Old' },
+      enabled: true,
+    })).rejects.toThrow(RecurrenceRuleError);
+  });
+});
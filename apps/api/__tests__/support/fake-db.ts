@@ -0,0 +1,9 @@
+import { DbService } from '../../src/db.service';
+
+/**
+ * A DbService for service tests that implements only the methods a test needs. Each method is
+ * checked against DbService's own signature, so the fake breaks when the real method changes.
+ */
+export function fakeDb(methods: Partial<DbService>): DbService {
+  return methods as DbService;
+}
@@ -0,0 +1,52 @@
+import { InboxConversationRow, MessageRow } from '../../src/db.service';
+
+// A conversation as DbService lists it: a Facebook comment thread with one lead
+export function conversationRow(overrides: Partial<InboxConversationRow> = {}): InboxConversationRow {
+  return {
+    id: 'conv_1',
+    platform: 'FACEBOOK',
+    kind: 'comment',
+    external_id: 'C1',
+    account_external_id: 'PAGE1',
+    status: 'active',
+    assigned_to: null,
+    assigned_at: null,
+    last_read_at: null,
+    last_message_at: null,
+    metadata: {},
+    created_at: new Date('2026-03-01T00:00:00Z'),
+    lead_id: 'lead_1',
+    lead_name: 'Ann',
+    lead_email: null,
+    lead_score: 0,
+    lead_status: 'new',
+    lead_tags: [],
+    lead_external_ref: null,
+    unread_count: 0,
+    last_message_id: null,
+    last_message_body: null,
+    last_message_direction: null,
+    last_message_author: null,
+    last_message_sent_at: null,
+    total_count: '1',
+    ...overrides,
+  };
+}
+
+export function messageRow(overrides: Partial<MessageRow> = {}): MessageRow {
+  return {
+    id: 'msg_1',
+    conversation_id: 'conv_1',
+    direction: 'inbound',
+    body: '',
+    sent_at: new Date('2026-03-01T00:00:00Z'),
+    external_id: null,
+    author_external_id: null,
+    author_name: null,
+    metadata: {},
+    sent_by: null,
+    delivery_status: null,
+    delivery_error: null,
+    ...overrides,
+  };
+}
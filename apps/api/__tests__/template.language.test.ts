@@ -0,0 +1,122 @@
+import { TemplateRenderError, TemplateSyntaxError, compileTemplate } from '../src/services/template-language';
+import { PromptPartialError, TemplateRenderService } from '../src/services/template-render.service';
+import { PromptPartialRow } from '../src/db.service';
+import { fakeDb } from './support/fake-db';
+
+const render = (template: string, variables: Record<string, unknown> = {}, strict = false) =>
+  compileTemplate(template).render(variables, { strict });
+
+const partialRow = (name: string, template: string, description: string | null = null): PromptPartialRow => ({
+  id: `pp_${name}`,
+  name,
+  template,
+  description,
+  created_at: new Date('2026-03-01T00:00:00Z'),
+  updated_at: new Date('2026-03-01T00:00:00Z'),
+});
+
+function createDb(partials: Record<string, string> = {}) {
+  const getPromptPartials = jest.fn((names: string[]) =>
+    Promise.resolve(names.filter(name => name in partials).map(name => partialRow(name, partials[name]))));
+  const upsertPromptPartial = jest.fn((partial: { name: string; template: string; description?: string | null }) => {
+    partials[partial.name] = partial.template;
+    return Promise.resolve(partialRow(partial.name, partial.template, partial.description));
+  });
+  const db = fakeDb({ getPromptPartials, upsertPromptPartial, deletePromptPartial: () => Promise.resolve(true) });
+  return { db, getPromptPartials, upsertPromptPartial };
+}
+
+describe('template language', () => {
+  it('keeps substituting dot paths and rendering missing values empty', () => {
+    expect(render('Hi {{ lead.firstName }}{{lead.missing.deep}}, re: {{message.body}}', {
+      lead: { firstName: 'Ada' },
+      message: { body: 'pricing' },
+    })).toBe('Hi Ada, re: pricing');
+  });
+
+  it('renders conditionals and loops without leaving the lines of block tags behind', () => {
+    const template = [
+      'Sources:',
+      '{{#each sources}}',
+      '{{@index}}. {{title}} ({{#if @first}}lead{{else if @last}}last{{else}}mid{{/if}})',
+      '{{else}}',
+      'none',
+      '{{/each}}',
+      '{{#unless angle}}No angle.{{/unless}}',
+      '{{#each tags}}{{@key}}={{this}}{{#unless @last}}, {{/unless}}{{/each}}',
+    ].join('\n');
+
+    expect(render(template, {
+      sources: [{ title: 'A' }, { title: 'B' }, { title: 'C' }],
+      tags: { tone: 'warm', length: 'short' },
+    })).toBe('Sources:\n0. A (lead)\n1. B (mid)\n2. C (last)\nNo angle.\ntone=warm, length=short');
+    expect(render(template, { sources: [], angle: 'x' })).toBe('Sources:\nnone\n\n');
+  });
+
+  it('applies filters with arguments', () => {
+    expect(render('{{ title | truncate: 12 | upper }}', { title: 'spring product launch' })).toBe('SPRING PROD…');
+    expect(render('{{ at | date: "ddd DD MMM YYYY HH:mm", "America/New_York" }}', { at: '2026-03-09T02:30:00Z' })).toBe('Sun 08 Mar 2026 22:30');
+    expect(render('{{ topics | hashtagify }} {{ topic | hashtagify }}', { topics: ['spring launch', 'B2B'], topic: 'café au lait' }))
+      .toBe('#SpringLaunch #B2B #CaféAuLait');
+    expect(render('?q={{ q | urlencode }}&n={{ name | default: "friend" }}&t={{ tags | join: " / " }}', { q: 'a&b c', tags: ['x', 'y'] }))
+      .toBe('?q=a%26b%20c&n=friend&t=x / y');
+  });
+
+  it('reports syntax errors with their line and column', () => {
+    expect(() => compileTemplate('Hello\n  {{#if lead}}\n{{name}}')).toThrow(new TemplateSyntaxError('{{#if}} is not closed with {{/if}}', 2, 3));
+    expect(() => compileTemplate('{{ a }}\n{{ b | shout }}')).toThrow('Unknown filter "shout"; use one of upper, lower, truncate, date, hashtagify, urlencode, default, join, json at line 2, column 1');
+    expect(() => compileTemplate('x {{/each}}')).toThrow('Unexpected {{/each}} at line 1, column 3');
+    expect(() => compileTemplate('{{ name ')).toThrow('Unclosed tag at line 1, column 1');
+  });
+
+  it('fails on undefined variables in strict mode, except in conditions and defaults', () => {
+    const template = '{{#if vip}}VIP {{/if}}{{ lead.name }} {{ nick | default: "-" }}';
+    expect(render(template, { lead: { name: 'Ada' } }, true)).toBe('Ada -');
+    expect(() => render('Line one\n  {{ lead.nmae }}', { lead: { name: 'Ada' } }, true))
+      .toThrow(new TemplateRenderError('"lead.nmae" is undefined', 2, 3));
+    expect(() => render('{{ at | date }}', { at: 'soon' }, true)).toThrow('date: "soon" is not a date at line 1, column 1');
+    expect(render('{{ at | date }}', { at: 'soon' })).toBe('');
+  });
+});
+
+describe('TemplateRenderService', () => {
+  it('loads nested stored partials once and renders them with their own context', async () => {
+    const { db, getPromptPartials } = createDb({
+      signature: '— {{ name }}{{> footer}}',
+      footer: '\n{{ company | upper }}',
+    });
+    const service = new TemplateRenderService(db);
+    const template = 'Thanks!\n{{> signature author}}';
+
+    const first = await service.renderWithPartials(template, { author: { name: 'Ada' }, company: 'acme' });
+    const second = await service.renderWithPartials(template, { author: { name: 'Grace' }, company: 'acme' });
+
+    expect(first).toBe('Thanks!\n— Ada\nACME');
+    expect(second).toBe('Thanks!\n— Grace\nACME');
+    expect(getPromptPartials.mock.calls).toEqual([[['signature']], [['footer']]]);
+    expect(service.compile(template)).toBe(service.compile(template));
+  });
+
+  it('points errors inside partials at the partial and stops runaway nesting', async () => {
+    const service = new TemplateRenderService(createDb({ loop: 'again {{> loop}}' }).db);
+
+    expect(() => service.renderTemplate('{{> missing}}', {})).toThrow('Unknown partial "missing" at line 1, column 1');
+    expect(() => service.renderTemplate('{{> sig}}', {}, undefined, { strict: true, partials: { sig: '\n {{ name }}' } }))
+      .toThrow('"name" is undefined at line 2, column 2 of partial "sig"');
+    await expect(service.renderWithPartials('{{> loop}}', {})).rejects.toThrow('Partials nested more than 10 deep');
+  });
+
+  it('keeps input schema validation and validates partials before saving them', async () => {
+    const { db, upsertPromptPartial } = createDb();
+    const service = new TemplateRenderService(db);
+    const schema = { type: 'object', required: ['brief'], properties: { brief: { type: 'string' } } };
+
+    expect(() => service.renderTemplate('{{brief}}', {}, schema)).toThrow('Template input validation failed');
+    await expect(service.savePartial('bad/name', 'x')).rejects.toThrow(PromptPartialError);
+    await expect(service.savePartial('cta', '{{#each items}}')).rejects.toThrow(TemplateSyntaxError);
+    expect(upsertPromptPartial).not.toHaveBeenCalled();
+
+    await service.savePartial('cta', 'Book a demo at {{ url }}', 'Call to action');
+    expect(await service.renderWithPartials('{{> cta}}', { url: 'https://example.com' })).toBe('Book a demo at https://example.com');
+  });
+});
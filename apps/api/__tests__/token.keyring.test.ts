@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { LEGACY_KEY_ID, TokenKeyError, loadTokenKeyRing } from '../src/token.util';
+import { TokenAuditService } from '../src/services/token-audit.service';
+import { TokenKeyRotationService } from '../src/services/token-key-rotation.service';
+import { fakeDb } from './support/fake-db';
+
+// Ciphertext exactly as written before key ids existed: base64(iv|tag|data) under sha256(TOKEN_ENC_KEY)
+function legacyEncrypt(secret: string, plaintext: string): string {
+  const key = crypto.createHash('sha256').update(secret).digest();
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), enc]).toString('base64');
+}
+
+describe('token key ring', () => {
+  it('tags new ciphertexts with the primary key and decrypts with any key in the ring', () => {
+    const previous = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k1:first-secret' });
+    const oldCiphertext = previous.encrypt('access-token');
+    expect(oldCiphertext.startsWith('v1:k1:')).toBe(true);
+
+    const rotated = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k2:second-secret,k1:first-secret' });
+    expect(rotated.primaryKeyId).toBe('k2');
+    expect(rotated.decrypt(oldCiphertext)).toBe('access-token');
+    expect(rotated.needsReencryption(oldCiphertext)).toBe(true);
+
+    const reencrypted = rotated.reencrypt(oldCiphertext);
+    expect(reencrypted.startsWith('v1:k2:')).toBe(true);
+    expect(rotated.needsReencryption(reencrypted)).toBe(false);
+    expect(rotated.decrypt(reencrypted)).toBe('access-token');
+  });
+
+  it('keeps reading untagged ciphertexts with TOKEN_ENC_KEY', () => {
+    const legacy = legacyEncrypt('old-secret', 'refresh-token');
+    const ring = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k2:second-secret', TOKEN_ENC_KEY: 'old-secret' });
+
+    expect(ring.keyIds).toEqual(['k2', LEGACY_KEY_ID]);
+    expect(ring.decrypt(legacy)).toBe('refresh-token');
+    expect(ring.needsReencryption(legacy)).toBe(true);
+    expect(loadTokenKeyRing({ TOKEN_ENC_KEY: 'old-secret' }).needsReencryption(legacy)).toBe(true);
+  });
+
+  it('honours an explicit primary key id', () => {
+    const ring = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k2:second,k1:first', TOKEN_ENC_PRIMARY_KEY_ID: 'k1' });
+    expect(ring.encrypt('x').startsWith('v1:k1:')).toBe(true);
+    expect(() => loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k1:first', TOKEN_ENC_PRIMARY_KEY_ID: 'k9' })).toThrow(TokenKeyError);
+  });
+
+  it('fails clearly when a key has been removed too early', () => {
+    const ciphertext = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k1:first' }).encrypt('token');
+    // Outside production the development secret would be kept as the legacy key
+    const ring = loadTokenKeyRing({ NODE_ENV: 'production', TOKEN_ENC_KEYS: 'k2:second' });
+    expect(() => ring.decrypt(ciphertext)).toThrow('Token was encrypted with key "k1", which is not in TOKEN_ENC_KEYS');
+    expect(() => ring.decrypt(legacyEncrypt('old-secret', 'token'))).toThrow('needs TOKEN_ENC_KEY');
+  });
+
+  it('rejects a ciphertext relabelled with another key id', () => {
+    const ring = loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k1:same,k2:same' });
+    const relabelled = ring.encrypt('token').replace('v1:k1:', 'v1:k2:');
+    expect(() => ring.decrypt(relabelled)).toThrow();
+  });
+
+  it('rejects malformed key configuration', () => {
+    expect(() => loadTokenKeyRing({ TOKEN_ENC_KEYS: 'no-secret' })).toThrow(TokenKeyError);
+    expect(() => loadTokenKeyRing({ TOKEN_ENC_KEYS: 'bad id:secret' })).toThrow(TokenKeyError);
+    expect(() => loadTokenKeyRing({ TOKEN_ENC_KEYS: 'k1:a,k1:b' })).toThrow('listed twice');
+  });
+
+  it('only falls back to the development secret outside production', () => {
+    const dev = loadTokenKeyRing({ NODE_ENV: 'development' });
+    expect(dev.usesDevFallback).toBe(true);
+    expect(dev.decrypt(legacyEncrypt('dev-secret', 'token'))).toBe('token');
+
+    expect(() => loadTokenKeyRing({ NODE_ENV: 'production' })).toThrow('No token encryption key configured');
+    expect(loadTokenKeyRing({ NODE_ENV: 'production', TOKEN_ENC_KEYS: 'k1:secret' }).usesDevFallback).toBe(false);
+  });
+
+  it('rejects the development secret in production', () => {
+    expect(() => loadTokenKeyRing({ NODE_ENV: 'production', TOKEN_ENC_KEY: 'dev-secret' })).toThrow('not allowed in production');
+    expect(() => loadTokenKeyRing({ NODE_ENV: 'production', TOKEN_ENC_KEYS: 'k1:dev-secret' })).toThrow(TokenKeyError);
+  });
+
+  it('keeps development tokens readable after TOKEN_ENC_KEYS is set, without encrypting with the development secret', () => {
+    const ring = loadTokenKeyRing({ NODE_ENV: 'development', TOKEN_ENC_KEYS: 'k1:secret' });
+
+    expect(ring.usesDevFallback).toBe(false);
+    expect(ring.primaryKeyId).toBe('k1');
+    expect(ring.decrypt(legacyEncrypt('dev-secret', 'old token'))).toBe('old token');
+    expect(ring.needsReencryption(legacyEncrypt('dev-secret', 'old token'))).toBe(true);
+
+    const production = loadTokenKeyRing({ NODE_ENV: 'production', TOKEN_ENC_KEYS: 'k1:secret' });
+    expect(production.keyIds).toEqual(['k1']);
+  });
+});
+
+describe('TokenKeyRotationService', () => {
+  it('settles a background run as failed when its progress cannot be recorded', async () => {
+    const db = fakeDb({ getTokensForReencryption: () => Promise.resolve([]), getSecretsForReencryption: () => Promise.resolve([]) });
+    const audit = new TokenAuditService(db);
+    const record = jest.spyOn(audit, 'record').mockRejectedValue(new Error('token_audit unavailable'));
+    const rotation = new TokenKeyRotationService(db, audit);
+
+    const started = rotation.start();
+    expect(started.state).toBe('running');
+    expect(rotation.start()).toBe(started);
+
+    // run() joins the background run instead of starting another
+    const result = await rotation.run();
+    expect(result).toBe(started);
+    expect(result).toMatchObject({ state: 'failed', error: 'token_audit unavailable' });
+    expect(result.finishedAt).not.toBeNull();
+    expect(record).toHaveBeenCalledTimes(3);
+    expect(await rotation.getStatus()).toBe(started);
+  });
+});
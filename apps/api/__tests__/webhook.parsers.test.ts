@@ -0,0 +1,159 @@
+import {
+  WebhookParseError,
+  decodeGoogleNotification,
+  parseLinkedInWebhook,
+  parseMetaWebhook,
+  reviewToInteraction,
+} from '../src/services/webhook-event-parsers';
+import { DbService } from '../src/db.service';
+import { PermanentWebhookError, WebhookProcessingService } from '../src/services/webhook-processing.service';
+import { AutoReplyService } from '../src/services/auto-reply.service';
+import { LeadScoringService } from '../src/services/lead-scoring.service';
+import { TokenService } from '../src/token.service';
+import { fakeDb } from './support/fake-db';
+
+describe('Webhook event parsers', () => {
+  it('parses Meta page feed comments and Messenger messages, skipping activity by the page itself', () => {
+    const interactions = parseMetaWebhook({
+      object: 'page',
+      entry: [{
+        id: 'PAGE1',
+        time: 1700000000,
+        changes: [
+          { field: 'feed', value: { item: 'comment', verb: 'add', comment_id: 'C1', post_id: 'PAGE1_P1', parent_id: 'PAGE1_P1', from: { id: 'U1', name: 'Ann' }, message: 'Price?', created_time: 1700000000 } },
+          { field: 'feed', value: { item: 'comment', verb: 'add', comment_id: 'C2', post_id: 'PAGE1_P1', parent_id: 'C1', from: { id: 'PAGE1', name: 'Page' }, message: 'DM us' } },
+          { field: 'feed', value: { item: 'comment', verb: 'edited', comment_id: 'C1', from: { id: 'U1' }, message: 'Price??' } },
+          { field: 'feed', value: { item: 'like', verb: 'add', from: { id: 'U2' } } },
+        ],
+        messaging: [
+          { sender: { id: 'U3' }, recipient: { id: 'PAGE1' }, timestamp: 1700000000123, message: { mid: 'm1', text: 'Hello' } },
+          { sender: { id: 'PAGE1' }, recipient: { id: 'U3' }, timestamp: 1700000000456, message: { mid: 'm2', text: 'Hi!', is_echo: true } },
+        ],
+      }],
+    });
+
+    expect(interactions).toHaveLength(2);
+    expect(interactions[0]).toMatchObject({
+      platform: 'FACEBOOK',
+      kind: 'comment',
+      accountExternalId: 'PAGE1',
+      threadExternalId: 'C1',
+      messageExternalId: 'C1',
+      author: { externalId: 'U1', name: 'Ann' },
+      body: 'Price?',
+      metadata: { postId: 'PAGE1_P1', parentId: null },
+    });
+    expect(interactions[0].occurredAt.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+    expect(interactions[1]).toMatchObject({ kind: 'message', threadExternalId: 'PAGE1:U3', messageExternalId: 'm1', body: 'Hello' });
+    expect(interactions[1].occurredAt.getTime()).toBe(1700000000123);
+  });
+
+  it('threads Instagram comment replies under their parent comment', () => {
+    const [reply] = parseMetaWebhook({
+      object: 'instagram',
+      entry: [{ id: 'IG1', time: 1700000000, changes: [{ field: 'comments', value: { id: 'IC2', parent_id: 'IC1', text: 'Same question', from: { id: 'IGU', username: 'bob' }, media: { id: 'M1' } } }] }],
+    });
+
+    expect(reply).toMatchObject({ platform: 'INSTAGRAM', threadExternalId: 'IC1', messageExternalId: 'IC2', author: { name: 'bob' }, metadata: { mediaId: 'M1' } });
+  });
+
+  it('parses LinkedIn organization comment notifications and ignores likes', () => {
+    const interactions = parseLinkedInWebhook({
+      notifications: [
+        {
+          action: 'COMMENT',
+          notificationId: 9001,
+          organizationalEntity: 'urn:li:organization:42',
+          actor: 'urn:li:person:abc',
+          sourcePost: 'urn:li:share:1',
+          generatedActivity: 'urn:li:comment:(urn:li:activity:1,77)',
+          decoratedGeneratedActivity: { comment: { text: 'Great post' } },
+          lastModifiedAt: 1700000000000,
+        },
+        { action: 'LIKE', organizationalEntity: 'urn:li:organization:42', actor: 'urn:li:person:def', sourcePost: 'urn:li:share:1' },
+      ],
+    });
+
+    expect(interactions).toMatchObject([{
+      platform: 'LINKEDIN',
+      kind: 'comment',
+      accountExternalId: 'urn:li:organization:42',
+      messageExternalId: '9001',
+      body: 'Great post',
+      metadata: { commentUrn: 'urn:li:comment:(urn:li:activity:1,77)' },
+    }]);
+  });
+
+  it('decodes Google review notifications and maps reviews', () => {
+    const data = Buffer.from(JSON.stringify({
+      type: 'NEW_REVIEW',
+      location: 'accounts/1/locations/2',
+      review: 'accounts/1/locations/2/reviews/R1',
+    })).toString('base64');
+    expect(decodeGoogleNotification({ message: { data } })).toMatchObject({ location: 'accounts/1/locations/2', reviewName: 'accounts/1/locations/2/reviews/R1' });
+
+    const interaction = reviewToInteraction('accounts/1/locations/2', {
+      name: 'accounts/1/locations/2/reviews/R1',
+      reviewId: 'R1',
+      reviewer: { displayName: 'Cara' },
+      starRating: 'FOUR',
+      comment: 'Lovely staff',
+      createTime: '2024-01-01T10:00:00Z',
+    });
+    expect(interaction).toMatchObject({
+      platform: 'GBP',
+      kind: 'review',
+      threadExternalId: 'accounts/1/locations/2/reviews/R1',
+      author: { externalId: 'reviewer:Cara', name: 'Cara' },
+      body: 'Lovely staff',
+      metadata: { starRating: 4 },
+    });
+  });
+
+  it('rejects malformed payloads', () => {
+    expect(() => parseMetaWebhook({ object: 'page' })).toThrow(WebhookParseError);
+    expect(() => decodeGoogleNotification({ message: { data: '!!notjson' } })).toThrow(WebhookParseError);
+    expect(() => parseLinkedInWebhook({ action: 'COMMENT', actor: 'urn:li:person:x' })).toThrow(WebhookParseError);
+  });
+});
+
+describe('WebhookProcessingService', () => {
+  const comment = (pageId: string, commentId: string) => ({
+    id: pageId,
+    time: 1700000000,
+    changes: [{ field: 'feed', value: { item: 'comment', verb: 'add', comment_id: commentId, post_id: `${pageId}_P1`, from: { id: 'U1', name: 'Ann' }, message: 'Price?' } }],
+  });
+
+  const createService = (payload: unknown) => {
+    const db = {
+      getWebhookEventByIdemKey: jest.fn().mockResolvedValue({ id: 'we_1', status: 'received', organization_id: 'unknown', payload }),
+      markWebhookEventAttempt: jest.fn().mockResolvedValue(undefined),
+      markWebhookEventProcessed: jest.fn().mockResolvedValue(undefined),
+      findOrganizationBySocialAccount: jest.fn((_platforms: string[], externalId: string) => Promise.resolve(externalId === 'PAGE1' ? 'org_1' : null)),
+      recordInboundInteraction: jest.fn<ReturnType<DbService['recordInboundInteraction']>, Parameters<DbService['recordInboundInteraction']>>()
+        .mockResolvedValue({ leadId: 'lead_1', conversationId: 'conv_1', messageId: null, created: false }),
+    };
+    const service = new WebhookProcessingService(fakeDb(db), {} as TokenService, {} as AutoReplyService, {} as LeadScoringService);
+    return { service, db };
+  };
+
+  it('skips entries for unconnected pages and processes the rest of the batch', async () => {
+    const { service, db } = createService({ object: 'page', entry: [comment('PAGE9', 'C9'), comment('PAGE1', 'C1')] });
+
+    const result = await service.processEvent('idem_1', 'meta');
+
+    expect(result).toMatchObject({ status: 'processed', interactions: 2, skipped: 1 });
+    expect(db.recordInboundInteraction).toHaveBeenCalledTimes(1);
+    expect(db.recordInboundInteraction.mock.calls[0][0]).toBe('org_1');
+    expect(db.markWebhookEventProcessed).toHaveBeenCalledWith('idem_1', 'org_1');
+  });
+
+  it('fails permanently when no entry belongs to a connected account or the payload is malformed', async () => {
+    const unknown = createService({ object: 'page', entry: [comment('PAGE9', 'C9')] });
+    await expect(unknown.service.processEvent('idem_2', 'meta')).rejects.toThrow(new PermanentWebhookError('No connected account for PAGE9'));
+    expect(unknown.db.markWebhookEventProcessed).not.toHaveBeenCalled();
+
+    const malformed = createService('{"object": "page",');
+    await expect(malformed.service.processEvent('idem_3', 'meta')).rejects.toBeInstanceOf(PermanentWebhookError);
+  });
+});
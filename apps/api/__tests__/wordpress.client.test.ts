@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WordPressClientService, isRetryableWordPressError } from '../src/platforms/wordpress/wordpress-client.service';
+
+type Term = { id: number; name: string };
+type Post = { id: number; link: string; content?: string; categories?: number[]; tags?: number[]; [field: string]: unknown };
+type Media = { id: number; source_url: string; disposition?: string };
+
+// Minimal in-process stand-in for the WordPress REST API (wp-json/wp/v2)
+function startMockWordPress() {
+  const state = {
+    posts: new Map<number, Post>(),
+    terms: { categories: [{ id: 1, name: 'News' }], tags: [] } as Record<string, Term[]>,
+    media: [] as Media[],
+    requests: [] as Array<{ method: string; path: string; auth?: string }>,
+    nextId: 100,
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const path = url.pathname.replace('/wp-json/wp/v2', '');
+      state.requests.push({ method: req.method || 'GET', path, auth: req.headers.authorization });
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.headers.authorization !== `Basic ${Buffer.from('editor:abcd1234').toString('base64')}`) {
+        return send(401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.' });
+      }
+
+      const body = (chunks.length && req.headers['content-type'] === 'application/json'
+        ? JSON.parse(Buffer.concat(chunks).toString('utf8'))
+        : {}) as Record<string, unknown>;
+
+      if (req.method === 'GET' && path === '/users/me') return send(200, { id: 7, name: 'Editor' });
+
+      const termMatch = path.match(/^\/(categories|tags)$/);
+      if (termMatch) {
+        const list = state.terms[termMatch[1]];
+        if (req.method === 'GET') {
+          const search = (url.searchParams.get('search') || '').toLowerCase();
+          return send(200, list.filter(t => t.name.toLowerCase().includes(search)));
+        }
+        const term = { id: state.nextId++, name: String(body.name) };
+        list.push(term);
+        return send(201, term);
+      }
+
+      if (req.method === 'POST' && path === '/media') {
+        const item = { id: state.nextId++, source_url: 'http://wp.local/uploads/hero.jpg', disposition: req.headers['content-disposition'] };
+        state.media.push(item);
+        return send(201, item);
+      }
+
+      if (req.method === 'POST' && path === '/posts' && body.title === 'During maintenance') {
+        return send(503, { code: 'maintenance', message: 'Briefly unavailable for scheduled maintenance.' });
+      }
+
+      if (req.method === 'POST' && path === '/posts') {
+        const post = { id: state.nextId++, link: 'http://wp.local/?p=1', ...body };
+        state.posts.set(post.id, post);
+        return send(201, post);
+      }
+
+      const postMatch = path.match(/^\/posts\/(\d+)$/);
+      if (req.method === 'POST' && postMatch) {
+        const existing = state.posts.get(Number(postMatch[1]));
+        if (!existing) return send(404, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+        Object.assign(existing, body);
+        return send(200, existing);
+      }
+
+      return send(404, { code: 'rest_no_route', message: 'No route was found' });
+    });
+  });
+
+  return new Promise<{ server: http.Server; siteUrl: string; state: typeof state }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, siteUrl: `http://127.0.0.1:${port}/`, state });
+    });
+  });
+}
+
+describe('WordPressClientService against a mock WordPress site', () => {
+  const client = new WordPressClientService();
+  const credentials = client.encodeCredentials('editor', 'abcd 1234');
+  let mock: Awaited<ReturnType<typeof startMockWordPress>>;
+
+  beforeEach(async () => {
+    mock = await startMockWordPress();
+  });
+
+  afterEach(done => {
+    mock.server.close(() => { done(); });
+  });
+
+  it('validates application password credentials', async () => {
+    await expect(client.validateCredentials(mock.siteUrl, credentials)).resolves.toEqual({ id: '7', name: 'Editor' });
+    await expect(client.validateCredentials(mock.siteUrl, client.encodeCredentials('editor', 'wrong'))).resolves.toBeNull();
+  });
+
+  it('creates a scheduled post with slug, resolved terms and featured image', async () => {
+    const media = await client.uploadMedia(mock.siteUrl, credentials, Buffer.from('img'), 'hero.jpg', 'image/jpeg');
+    const result = await client.createPost(mock.siteUrl, credentials, {
+      title: 'Launch',
+      content: '<p>Hello</p>',
+      slug: 'launch',
+      status: 'future',
+      dateGmt: '2030-01-01T09:00:00',
+      categories: ['news', 'Product'],
+      tags: ['launch'],
+      featuredMediaId: media.id,
+    });
+
+    expect(result.success).toBe(true);
+    const post = mock.state.posts.get(Number(result.postId))!;
+    expect(post).toMatchObject({ slug: 'launch', status: 'future', date_gmt: '2030-01-01T09:00:00', featured_media: media.id });
+    // Existing category is reused, missing category and tag are created
+    expect(post.categories?.[0]).toBe(1);
+    expect(post.categories).toHaveLength(2);
+    expect(post.tags).toHaveLength(1);
+    expect(mock.state.media[0].disposition).toBe('attachment; filename="hero.jpg"');
+  });
+
+  it('updates an existing post in place', async () => {
+    const created = await client.createPost(mock.siteUrl, credentials, { title: 'Draft', content: 'v1', status: 'draft' });
+    const updated = await client.updatePost(mock.siteUrl, credentials, created.postId!, { title: 'Final', content: 'v2', status: 'publish' });
+
+    expect(updated).toMatchObject({ success: true, postId: created.postId, status: 'publish' });
+    expect(mock.state.posts.size).toBe(1);
+    expect(mock.state.posts.get(Number(created.postId))?.content).toBe('v2');
+  });
+
+  it('returns a failed result for unknown posts and wrong application passwords', async () => {
+    const missing = await client.updatePost(mock.siteUrl, credentials, '999', { title: 'x', content: 'y', status: 'draft' });
+    expect(missing).toEqual({ success: false, error: 'Invalid post ID.' });
+
+    // Retrying cannot fix a rejected application password, so the publish job is not retried
+    const rejected = await client.createPost(mock.siteUrl, client.encodeCredentials('editor', 'wrong'), { title: 'x', content: 'y', status: 'draft' });
+    expect(rejected).toEqual({ success: false, error: 'You are not currently logged in.' });
+  });
+
+  it('throws server errors and dropped connections for the publish pipeline to retry', async () => {
+    const busy = client.createPost(mock.siteUrl, credentials, { title: 'During maintenance', content: 'y', status: 'draft' });
+    await expect(busy).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(busy.catch(isRetryableWordPressError)).resolves.toBe(true);
+
+    // Nothing listens on port 1
+    const unreachable = client.createPost('http://127.0.0.1:1/', credentials, { title: 'x', content: 'y', status: 'draft' });
+    await expect(unreachable).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+    await expect(unreachable.catch(isRetryableWordPressError)).resolves.toBe(true);
+  });
+});
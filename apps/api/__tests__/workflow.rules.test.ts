@@ -0,0 +1,165 @@
+import {
+  WorkflowRuleError,
+  evaluateConditions,
+  interpolateParameters,
+  validateActions,
+  validateConditions,
+  validateTriggers,
+} from '../src/services/workflow-rules';
+import { AdvancedWorkflowRulesService } from '../src/services/advanced-workflow-rules.service';
+import { CadencePolicyService } from '../src/services/cadence-policy.service';
+import { NotificationService } from '../src/services/notification.service';
+import { SmartSchedulingService } from '../src/services/smart-scheduling.service';
+import { MailTransportService } from '../src/platforms/mail/mail-transport.service';
+import { CadenceScheduleRow } from '../src/db.service';
+import { fakeDb } from './support/fake-db';
+
+describe('workflow rule conditions', () => {
+  const context = {
+    status: 'DRAFT',
+    type: 'BLOG',
+    metadata: { channel: 'linkedin', wordCount: 1200 },
+    event: { type: 'publish_failed', data: { platform: 'META', error: 'Token expired' } },
+  };
+
+  it('reads nested fields from the content and the event', () => {
+    expect(evaluateConditions([
+      { field: 'event.data.platform', operator: 'equals', value: 'META' },
+      { field: 'event.data.error', operator: 'contains', value: 'token' },
+    ], context)).toBe(true);
+    expect(evaluateConditions([{ field: 'metadata.wordCount', operator: 'greater_than', value: 1500 }], context)).toBe(false);
+    expect(evaluateConditions([{ field: 'metadata.missing.deep', operator: 'equals', value: undefined }], context)).toBe(true);
+  });
+
+  it('joins conditions left to right with each condition\'s logical operator', () => {
+    expect(evaluateConditions([
+      { field: 'type', operator: 'equals', value: 'SOCIAL', logicalOperator: 'OR' },
+      { field: 'metadata.channel', operator: 'in', value: ['linkedin', 'x'] },
+    ], context)).toBe(true);
+    expect(evaluateConditions([
+      { field: 'type', operator: 'equals', value: 'SOCIAL' },
+      { field: 'metadata.channel', operator: 'in', value: ['linkedin', 'x'] },
+    ], context)).toBe(false);
+    expect(evaluateConditions([], context)).toBe(true);
+  });
+});
+
+describe('workflow action parameters', () => {
+  it('fills placeholders from the event and earlier action outputs', () => {
+    const parameters = interpolateParameters(
+      {
+        title: 'Publishing to {{event.data.platform}} failed',
+        message: 'Scheduled for {{last.scheduledAt}} ({{steps.0.scheduleId}}){{missing}}',
+        data: { scheduleId: '{{last.scheduleId}}', optimized: '{{ last.optimized }}' },
+        channels: ['{{rule.name}}'],
+      },
+      {
+        event: { type: 'publish_failed', data: { platform: 'META' } },
+        rule: { name: 'ops' },
+        steps: [{ scheduleId: 'sched_1', scheduledAt: '2030-01-01T09:00:00.000Z', optimized: true }],
+        last: { scheduleId: 'sched_1', scheduledAt: '2030-01-01T09:00:00.000Z', optimized: true },
+      },
+    );
+    expect(parameters).toEqual({
+      title: 'Publishing to META failed',
+      message: 'Scheduled for 2030-01-01T09:00:00.000Z (sched_1)',
+      data: { scheduleId: 'sched_1', optimized: true },
+      channels: ['ops'],
+    });
+  });
+});
+
+describe('workflow rule validation', () => {
+  it('accepts known triggers and drops duplicates', () => {
+    expect(validateTriggers(['content_created', 'publish_failed', 'content_created'])).toEqual(['content_created', 'publish_failed']);
+    expect(validateTriggers(undefined)).toEqual([]);
+    expect(() => validateTriggers(['content_deleted'])).toThrow(WorkflowRuleError);
+  });
+
+  it('rejects malformed conditions', () => {
+    expect(() => validateConditions([{ field: 'status', operator: 'matches', value: 'x' }])).toThrow('conditions[0].operator');
+    expect(() => validateConditions([{ operator: 'equals', value: 'x' }])).toThrow('conditions[0].field is required');
+  });
+
+  it('requires the parameters each action needs and bounds delays', () => {
+    expect(validateActions([
+      { type: 'assign', parameters: { assignee: 'user_1' } },
+      { type: 'schedule', parameters: { platform: 'LINKEDIN' }, delay: '30', continueOnError: true },
+    ])).toEqual([
+      { type: 'assign', parameters: { assignee: 'user_1' } },
+      { type: 'schedule', parameters: { platform: 'LINKEDIN' }, delay: 30, continueOnError: true },
+    ]);
+    expect(() => validateActions([])).toThrow('A rule needs at least one action');
+    expect(() => validateActions([{ type: 'notify', parameters: { title: 'Hi' } }])).toThrow('actions[0] (notify) needs parameters.message');
+    expect(() => validateActions([{ type: 'add_tag', parameters: { tag: 'x' }, delay: 3600 }])).toThrow('actions[0].delay');
+  });
+});
+
+describe('workflow schedule action', () => {
+  function createService(autoShift: boolean) {
+    // One LinkedIn post a day, and the 10th already has one
+    const schedules: CadenceScheduleRow[] = [{ id: 'sch_1', platform: 'LINKEDIN', target_account_id: null, scheduled_at: new Date('2026-03-10T09:00:00Z') }];
+    const createSchedule = jest.fn((_contentItemId: string, platform: string, scheduledAt: Date) => {
+      schedules.push({ id: `sch_${schedules.length + 1}`, platform, target_account_id: null, scheduled_at: scheduledAt });
+      return Promise.resolve(`sch_${schedules.length}`);
+    });
+    const db = fakeDb({
+      getWorkflowRulesForEvent: () => Promise.resolve([{
+        id: 'rule_1',
+        organization_id: 'org_1',
+        triggers: ['content_approved'],
+        actions: [{ type: 'schedule', parameters: { platform: 'LINKEDIN', scheduledAt: '2026-03-10T15:00:00Z', autoShift } }],
+        priority: 1,
+        enabled: true,
+      }]),
+      getContentItem: id => Promise.resolve({ id, organization_id: 'org_1', status: 'APPROVED' }),
+      storeWorkflowExecution: () => Promise.resolve(),
+      listCadencePolicies: () => Promise.resolve([{
+        id: 'cadence_1',
+        organization_id: 'org_1',
+        target_account_id: null,
+        timezone: 'UTC',
+        max_per_day: 1,
+        max_per_week: null,
+        min_gap_minutes: null,
+        quiet_hours: [],
+        blackouts: [],
+        enabled: true,
+        created_at: new Date('2026-03-01T00:00:00Z'),
+        updated_at: new Date('2026-03-01T00:00:00Z'),
+      }]),
+      getCadenceSchedules: () => Promise.resolve(schedules),
+      withCadenceLock: <T>(_org: string, fn: () => Promise<T>) => fn(),
+      createSchedule,
+    });
+    const cadencePolicies = new CadencePolicyService(db);
+    const service = new AdvancedWorkflowRulesService(
+      db,
+      new NotificationService(db, new MailTransportService()),
+      new SmartSchedulingService(db, cadencePolicies),
+      cadencePolicies,
+    );
+    const run = () => service.handleEvent({ type: 'content_approved', organizationId: 'org_1', contentItemId: 'ci_1' });
+    return { run, createSchedule };
+  }
+
+  it('fails when the posting cadence blocks the time', async () => {
+    const { run, createSchedule } = createService(false);
+
+    const [execution] = await run();
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error).toBe('schedule: LINKEDIN at 2026-03-10T15:00:00.000Z breaks the posting cadence: LINKEDIN already has 1 posts on 2026-03-10; the limit is 1 per day');
+    expect(createSchedule).not.toHaveBeenCalled();
+  });
+
+  it('moves to the next allowed time with autoShift', async () => {
+    const { run, createSchedule } = createService(true);
+
+    const [execution] = await run();
+
+    expect(execution.status).toBe('completed');
+    expect(execution.steps[0].output).toMatchObject({ scheduleId: 'sch_2', scheduledAt: '2026-03-11T00:00:00.000Z', shifted: true });
+    expect(createSchedule).toHaveBeenCalledWith('ci_1', 'LINKEDIN', new Date('2026-03-11T00:00:00.000Z'), [], undefined);
+  });
+});
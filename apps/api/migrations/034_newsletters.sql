@@ -0,0 +1,55 @@
+-- 034_newsletters.sql
+-- Subscriber lists, subscribers with double opt-in, and per-recipient newsletter delivery status
+
+CREATE TABLE IF NOT EXISTS subscriber_lists (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL,
+  name text NOT NULL,
+  description text,
+  from_name text,
+  from_email text,
+  double_opt_in boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriber_lists_org ON subscriber_lists(organization_id);
+
+CREATE TABLE IF NOT EXISTS subscribers (
+  id text PRIMARY KEY,
+  list_id text NOT NULL REFERENCES subscriber_lists(id) ON DELETE CASCADE,
+  organization_id text NOT NULL,
+  email text NOT NULL,
+  name text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','subscribed','unsubscribed','bounced')),
+  confirm_token text UNIQUE,
+  unsubscribe_token text NOT NULL UNIQUE,
+  confirmed_at timestamptz,
+  unsubscribed_at timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (list_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscribers_list_status ON subscribers(list_id, status);
+
+CREATE TABLE IF NOT EXISTS newsletter_deliveries (
+  id text PRIMARY KEY,
+  schedule_id text NOT NULL,
+  content_item_id text NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  list_id text NOT NULL REFERENCES subscriber_lists(id) ON DELETE CASCADE,
+  subscriber_id text NOT NULL REFERENCES subscribers(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','sent','failed')),
+  provider_message_id text,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (schedule_id, subscriber_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_newsletter_deliveries_schedule ON newsletter_deliveries(schedule_id, status);
+CREATE INDEX IF NOT EXISTS idx_newsletter_deliveries_content ON newsletter_deliveries(content_item_id);
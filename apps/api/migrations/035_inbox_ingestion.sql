@@ -0,0 +1,60 @@
+-- 035_inbox_ingestion.sql
+-- Identify leads, conversations and messages by their platform ids so webhook events can be ingested idempotently
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS external_ref text,
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_leads_org_source_external
+  ON leads(organization_id, source, external_ref) WHERE external_ref IS NOT NULL;
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS organization_id text,
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'message',
+  ADD COLUMN IF NOT EXISTS account_external_id text,
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS last_message_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_conversations_org_platform_external
+  ON conversations(organization_id, platform, external_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_lead ON conversations(lead_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_org_last_message ON conversations(organization_id, last_message_at DESC);
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS external_id text,
+  ADD COLUMN IF NOT EXISTS author_external_id text,
+  ADD COLUMN IF NOT EXISTS author_name text,
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_messages_conversation_external
+  ON messages(conversation_id, external_id) WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_sent ON messages(conversation_id, sent_at);
+
+-- Align webhook_dlq with DbService.moveWebhookToDLQ
+ALTER TABLE IF EXISTS webhook_dlq
+  ADD COLUMN IF NOT EXISTS webhook_event_id text,
+  ADD COLUMN IF NOT EXISTS organization_id text,
+  ADD COLUMN IF NOT EXISTS platform text,
+  ADD COLUMN IF NOT EXISTS event_type text,
+  ADD COLUMN IF NOT EXISTS payload jsonb,
+  ADD COLUMN IF NOT EXISTS signature text,
+  ADD COLUMN IF NOT EXISTS computed_idempotency_key text,
+  ADD COLUMN IF NOT EXISTS error_message text;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_dlq' AND column_name = 'provider') THEN
+    ALTER TABLE webhook_dlq ALTER COLUMN provider DROP NOT NULL;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_dlq' AND column_name = 'raw_body') THEN
+    ALTER TABLE webhook_dlq ALTER COLUMN raw_body DROP NOT NULL;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_dlq' AND column_name = 'headers') THEN
+    ALTER TABLE webhook_dlq ALTER COLUMN headers DROP NOT NULL;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'webhook_dlq' AND column_name = 'attempts') THEN
+    ALTER TABLE webhook_dlq ALTER COLUMN attempts SET DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS ix_webhook_dlq_event ON webhook_dlq(webhook_event_id);
@@ -0,0 +1,22 @@
+-- 036_leads_crm_fields.sql
+-- Lead fields used by the web leads pages, plus merge tracking for duplicate leads
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS company text,
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS notes text,
+  ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS assigned_to text,
+  ADD COLUMN IF NOT EXISTS estimated_value numeric,
+  ADD COLUMN IF NOT EXISTS last_contact_at timestamptz,
+  ADD COLUMN IF NOT EXISTS next_follow_up_at timestamptz,
+  ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS merged_into_id text REFERENCES leads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merged_at timestamptz;
+
+-- Merged leads are kept (so their platform identities still resolve) but hidden from listings
+CREATE INDEX IF NOT EXISTS idx_leads_org_active ON leads(organization_id, created_at DESC) WHERE merged_into_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_org_email ON leads(organization_id, lower(email)) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_org_phone ON leads(organization_id, phone) WHERE phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_org_score ON leads(organization_id, score DESC);
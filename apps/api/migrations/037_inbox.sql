@@ -0,0 +1,20 @@
+-- 037_inbox.sql
+-- Unified inbox: conversation status, assignment and read tracking, plus who sent outbound replies
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS assigned_to text,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_read_at timestamptz;
+
+-- Conversations created before 035 have no organization; take it from their lead
+UPDATE conversations c
+SET organization_id = l.organization_id
+FROM leads l
+WHERE c.lead_id = l.id AND c.organization_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_org_status ON conversations(organization_id, status, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_org_assigned ON conversations(organization_id, assigned_to) WHERE assigned_to IS NOT NULL;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS sent_by text;
@@ -0,0 +1,50 @@
+-- 038_auto_replies.sql
+-- Auto-reply rules evaluated against inbound comments and messages
+
+CREATE TABLE IF NOT EXISTS auto_reply_rules (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  -- NULL matches every platform
+  platform text,
+  kinds text[] NOT NULL DEFAULT '{comment,message}',
+  conditions jsonb NOT NULL DEFAULT '{}',
+  response_template text NOT NULL,
+  priority int NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auto_reply_rules_org_active ON auto_reply_rules(organization_id, priority DESC) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS auto_reply_settings (
+  organization_id text PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  -- Local wall-clock window in which no auto-replies are sent; may wrap midnight (e.g. 22:00-07:00)
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text NOT NULL DEFAULT 'UTC',
+  max_replies_per_conversation int NOT NULL DEFAULT 1,
+  rate_window_minutes int NOT NULL DEFAULT 1440,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One row per inbound message a rule matched; the unique message_id keeps webhook retries from replying twice
+CREATE TABLE IF NOT EXISTS auto_reply_log (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL,
+  rule_id text REFERENCES auto_reply_rules(id) ON DELETE SET NULL,
+  conversation_id text NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id text NOT NULL UNIQUE,
+  reply_message_id text,
+  status text NOT NULL, -- pending | sent | dry_run | skipped | failed
+  reason text,
+  reply_body text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auto_reply_log_conversation ON auto_reply_log(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auto_reply_log_org ON auto_reply_log(organization_id, created_at DESC);
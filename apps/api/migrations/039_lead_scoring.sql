@@ -0,0 +1,13 @@
+-- 039_lead_scoring.sql
+-- Per-organization lead scoring model and the breakdown behind each lead's score
+
+CREATE TABLE IF NOT EXISTS lead_scoring_models (
+  organization_id text PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Overrides of the default model; missing keys fall back to the defaults
+  config jsonb NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS score_breakdown jsonb,
+  ADD COLUMN IF NOT EXISTS score_updated_at timestamptz;
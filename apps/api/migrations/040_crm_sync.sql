@@ -0,0 +1,53 @@
+-- 040_crm_sync.sql
+-- CRM connections with per-organization field mappings, sync cursors, lead links and sync logs
+
+CREATE TABLE IF NOT EXISTS crm_connections (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('hubspot')),
+  api_url text,
+  credentials_enc text NOT NULL,
+  status text NOT NULL DEFAULT 'connected' CHECK (status IN ('connected', 'disconnected', 'error', 'syncing')),
+  sync_frequency text NOT NULL DEFAULT 'daily' CHECK (sync_frequency IN ('realtime', 'hourly', 'daily', 'weekly')),
+  field_mappings jsonb NOT NULL DEFAULT '[]',
+  -- Leads changed after push_cursor are pushed; CRM records modified after pull_cursor are pulled
+  push_cursor timestamptz,
+  pull_cursor timestamptz,
+  last_sync_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_connections_org ON crm_connections(organization_id);
+
+CREATE TABLE IF NOT EXISTS crm_lead_links (
+  connection_id text NOT NULL REFERENCES crm_connections(id) ON DELETE CASCADE,
+  lead_id text NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  external_id text NOT NULL,
+  -- Hash of the properties last pushed, so unchanged leads are not pushed again
+  pushed_hash text,
+  pushed_at timestamptz,
+  pulled_at timestamptz,
+  PRIMARY KEY (connection_id, lead_id),
+  UNIQUE (connection_id, external_id)
+);
+
+CREATE TABLE IF NOT EXISTS crm_sync_logs (
+  id text PRIMARY KEY,
+  connection_id text NOT NULL REFERENCES crm_connections(id) ON DELETE CASCADE,
+  organization_id text NOT NULL,
+  type text NOT NULL CHECK (type IN ('import', 'export', 'sync')),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'error')),
+  records_processed integer NOT NULL DEFAULT 0,
+  records_succeeded integer NOT NULL DEFAULT 0,
+  records_failed integer NOT NULL DEFAULT 0,
+  -- Per-record failures: [{ direction, leadId?, externalId?, error }]
+  errors jsonb NOT NULL DEFAULT '[]',
+  error_message text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_logs_connection ON crm_sync_logs(connection_id, started_at DESC);
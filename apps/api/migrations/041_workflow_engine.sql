@@ -0,0 +1,72 @@
+-- 041_workflow_engine.sql
+-- Workflow rules triggered by content lifecycle events, their executions with step logs, and the content columns their actions write
+
+CREATE TABLE IF NOT EXISTS workflow_rules (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  category text,
+  -- Lifecycle events that run the rule; rules without triggers only run through workflow/execute
+  trigger_events text[] NOT NULL DEFAULT '{}',
+  conditions jsonb NOT NULL DEFAULT '[]',
+  actions jsonb NOT NULL DEFAULT '[]',
+  priority integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_rules_org_enabled ON workflow_rules(organization_id, enabled);
+CREATE INDEX IF NOT EXISTS idx_workflow_rules_triggers ON workflow_rules USING gin (trigger_events);
+
+CREATE TABLE IF NOT EXISTS workflow_executions (
+  id text PRIMARY KEY,
+  organization_id text,
+  content_item_id text,
+  -- The rule id for event-triggered runs, 'combined_rules' for manual runs
+  workflow_id text NOT NULL,
+  event_type text,
+  event_data jsonb,
+  status text NOT NULL CHECK (status IN ('running', 'completed', 'failed', 'paused')),
+  current_step integer NOT NULL DEFAULT 0,
+  executed_actions jsonb NOT NULL DEFAULT '[]',
+  pending_actions jsonb NOT NULL DEFAULT '[]',
+  -- One entry per action: { step, ruleId, action, status, output?, error?, startedAt, completedAt? }
+  steps jsonb NOT NULL DEFAULT '[]',
+  error text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow ON workflow_executions(workflow_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_org ON workflow_executions(organization_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_content ON workflow_executions(content_item_id);
+
+CREATE TABLE IF NOT EXISTS workflow_templates (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  category text NOT NULL,
+  rules jsonb NOT NULL DEFAULT '[]',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE content_items
+  ADD COLUMN IF NOT EXISTS assigned_to text,
+  ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS assignment_notes text,
+  ADD COLUMN IF NOT EXISTS rejected_by text,
+  ADD COLUMN IF NOT EXISTS rejected_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rejection_reason text,
+  ADD COLUMN IF NOT EXISTS escalated_to text,
+  ADD COLUMN IF NOT EXISTS escalated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS escalation_reason text;
+
+CREATE TABLE IF NOT EXISTS content_tags (
+  content_item_id text NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  tag text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (content_item_id, tag)
+);
@@ -0,0 +1,91 @@
+-- 042_notification_delivery.sql
+-- Notification channels, templates, rules, preferences and notifications, plus one delivery record per channel
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('email', 'slack', 'teams', 'webhook', 'push')),
+  name text NOT NULL,
+  -- email: { to }, slack/teams: { webhookUrl }, webhook: { url }; secrets live in secret_enc
+  configuration jsonb NOT NULL DEFAULT '{}',
+  -- Slack/Teams webhook URL or webhook signing secret, encrypted
+  secret_enc text,
+  max_attempts integer NOT NULL DEFAULT 3,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_org ON notification_channels(organization_id);
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL,
+  subject text,
+  body text NOT NULL,
+  variables jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notification_rules (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  trigger text NOT NULL,
+  conditions jsonb NOT NULL DEFAULT '[]',
+  channels jsonb NOT NULL DEFAULT '[]',
+  template text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_rules_trigger ON notification_rules(organization_id, trigger) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id text NOT NULL,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  channels jsonb NOT NULL DEFAULT '{}',
+  types jsonb NOT NULL DEFAULT '{}',
+  quiet_hours jsonb NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, organization_id)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id text,
+  type text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}',
+  channels jsonb NOT NULL DEFAULT '[]',
+  -- sent: every channel delivered, partial: some did, failed: none did
+  status text NOT NULL CHECK (status IN ('pending', 'sent', 'partial', 'failed', 'delivered')),
+  error text,
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_org_created ON notifications(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, organization_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id text PRIMARY KEY,
+  notification_id text NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  organization_id text NOT NULL,
+  channel_id text NOT NULL,
+  channel_type text,
+  status text NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 0,
+  response_status integer,
+  provider_message_id text,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification ON notification_deliveries(notification_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_org_created ON notification_deliveries(organization_id, created_at DESC);
@@ -0,0 +1,29 @@
+-- 043_llm_providers.sql
+-- Per-organization LLM routing and one usage record per LLM call for token and cost accounting
+
+CREATE TABLE IF NOT EXISTS llm_settings (
+  organization_id text PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Ordered [{ provider, model }] tried before the deployment default route
+  route jsonb NOT NULL DEFAULT '[]',
+  -- Per-feature routes that replace route for that feature, e.g. { "content_optimization": [...] }
+  features jsonb NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  feature text NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  operation text NOT NULL CHECK (operation IN ('answer', 'search')),
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6) NOT NULL DEFAULT 0,
+  -- Served by a later step of the route because earlier providers failed or had an open circuit
+  fallback boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_org_created ON llm_usage(organization_id, created_at);
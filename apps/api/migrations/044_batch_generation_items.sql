@@ -0,0 +1,29 @@
+-- 044_batch_generation_items.sql
+-- Batch generation state lives in Postgres: one row per brief with its outcome and created content item
+
+ALTER TABLE batch_generation_jobs ADD COLUMN IF NOT EXISTS created_by VARCHAR(255);
+ALTER TABLE batch_generation_jobs ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS batch_generation_items (
+  id text PRIMARY KEY,
+  job_id VARCHAR(255) NOT NULL REFERENCES batch_generation_jobs(id) ON DELETE CASCADE,
+  organization_id VARCHAR(255) NOT NULL,
+  brief_id text NOT NULL,
+  position integer NOT NULL,
+  -- { brief, kind, angle, title, platform } as submitted
+  brief jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  content_item_id text REFERENCES content_items(id) ON DELETE SET NULL,
+  error text,
+  -- Provider, model and source count of the generated draft
+  result jsonb,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (job_id, brief_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_generation_items_job ON batch_generation_items(job_id, position);
+-- Running items per organization are counted on every claim
+CREATE INDEX IF NOT EXISTS idx_batch_generation_items_org_running ON batch_generation_items(organization_id) WHERE status = 'running';
@@ -0,0 +1,7 @@
+-- 045_pipeline_progress_org.sql
+-- Pipeline progress is read from Postgres by every API replica, scoped to the organization that ran it
+
+ALTER TABLE pipeline_progress ADD COLUMN IF NOT EXISTS organization_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_progress_org_created ON pipeline_progress(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_pipeline_progress_org_active ON pipeline_progress(organization_id) WHERE status IN ('pending', 'running');
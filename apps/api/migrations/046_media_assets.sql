@@ -0,0 +1,42 @@
+-- 046_media_assets.sql
+-- Uploaded files per organization: metadata lives here, the bytes in the configured storage driver
+
+CREATE TABLE IF NOT EXISTS media_assets (
+  id text PRIMARY KEY,
+  organization_id VARCHAR(255) NOT NULL,
+  -- Driver and key the object was stored with
+  storage_driver text NOT NULL,
+  storage_key text NOT NULL,
+  -- SHA-256 of the bytes; an organization stores identical content once
+  content_hash text NOT NULL,
+  file_name text NOT NULL,
+  mime_type text NOT NULL,
+  file_size bigint NOT NULL CHECK (file_size >= 0),
+  category text NOT NULL DEFAULT 'general',
+  tags text[] NOT NULL DEFAULT '{}',
+  description text,
+  metadata jsonb NOT NULL DEFAULT '{}',
+  uploaded_by VARCHAR(255),
+  download_count integer NOT NULL DEFAULT 0,
+  last_accessed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_assets_org_created ON media_assets(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_media_assets_org_category ON media_assets(organization_id, category);
+CREATE INDEX IF NOT EXISTS idx_media_assets_tags ON media_assets USING GIN (tags);
+
+-- Per-organization limits; organizations without a row get the defaults in MediaStorageService
+CREATE TABLE IF NOT EXISTS storage_quotas (
+  organization_id VARCHAR(255) PRIMARY KEY,
+  max_storage bigint NOT NULL,
+  max_files integer NOT NULL,
+  max_file_size bigint NOT NULL,
+  -- MIME types or wildcards such as image/*
+  allowed_types text[] NOT NULL,
+  auto_cleanup boolean NOT NULL DEFAULT false,
+  cleanup_days integer NOT NULL DEFAULT 90,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
@@ -0,0 +1,48 @@
+-- 047_media_jobs.sql
+-- Asynchronous conversion and optimization of stored media, custom presets, and derived assets
+
+-- Files produced by a media job point at the file they were made from
+ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS source_asset_id text REFERENCES media_assets(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_media_assets_source ON media_assets(source_asset_id) WHERE source_asset_id IS NOT NULL;
+
+-- Organization presets; built-in presets come from the platform adaptation rules and are not stored
+CREATE TABLE IF NOT EXISTS media_presets (
+  id text PRIMARY KEY,
+  organization_id VARCHAR(255) NOT NULL,
+  name text NOT NULL,
+  description text,
+  type text NOT NULL CHECK (type IN ('optimization', 'conversion')),
+  category text NOT NULL DEFAULT 'custom' CHECK (category IN ('web', 'mobile', 'print', 'social', 'custom')),
+  settings jsonb NOT NULL DEFAULT '{}',
+  created_by VARCHAR(255),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS media_jobs (
+  id text PRIMARY KEY,
+  organization_id VARCHAR(255) NOT NULL,
+  -- Set for jobs created together through /media/batch
+  batch_id text,
+  type text NOT NULL CHECK (type IN ('optimization', 'conversion')),
+  -- Kept as history when the source file is deleted; such jobs fail if they have not run yet
+  source_asset_id text REFERENCES media_assets(id) ON DELETE SET NULL,
+  preset_id text,
+  -- Resolved settings (preset merged with overrides) the job runs with
+  settings jsonb NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  output_asset_id text REFERENCES media_assets(id) ON DELETE SET NULL,
+  result jsonb,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_by VARCHAR(255),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  -- Moves with every progress report; a processing job that stops reporting is taken over as stale
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_jobs_org_created ON media_jobs(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_media_jobs_batch ON media_jobs(batch_id) WHERE batch_id IS NOT NULL;
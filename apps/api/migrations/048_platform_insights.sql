@@ -0,0 +1,28 @@
+-- 048_platform_insights.sql
+-- Platform insights ingestion: per-post and per-account daily metrics, schedule engagement, and sync cadence
+
+-- analytics_daily rows are scoped: organization-wide (the original shape), one target account, or one post.
+-- subject_id is the target_accounts.id for account rows and the schedules.id for post rows.
+ALTER TABLE analytics_daily ADD COLUMN IF NOT EXISTS scope text NOT NULL DEFAULT 'organization'
+  CHECK (scope IN ('organization', 'account', 'post'));
+ALTER TABLE analytics_daily ADD COLUMN IF NOT EXISTS subject_id text NOT NULL DEFAULT '';
+ALTER TABLE analytics_daily DROP CONSTRAINT IF EXISTS analytics_daily_organization_id_platform_date_metric_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_daily_subject_metric
+  ON analytics_daily(organization_id, platform, scope, subject_id, date, metric);
+
+-- Engagement rate of a published post (engagements / impressions), read by smart scheduling
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS engagement double precision;
+-- Posts are re-synced on a cadence that slows with age; failures push the next sync out exponentially
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS insights_synced_at timestamptz;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS insights_next_sync_at timestamptz;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS insights_failures integer NOT NULL DEFAULT 0;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS insights_error text;
+CREATE INDEX IF NOT EXISTS idx_schedules_insights_due ON schedules(insights_next_sync_at) WHERE status = 'published';
+
+-- Accounts are backfilled once (insights_backfilled_at) and then kept current
+ALTER TABLE target_accounts ADD COLUMN IF NOT EXISTS insights_backfilled_at timestamptz;
+ALTER TABLE target_accounts ADD COLUMN IF NOT EXISTS insights_synced_at timestamptz;
+ALTER TABLE target_accounts ADD COLUMN IF NOT EXISTS insights_next_sync_at timestamptz;
+ALTER TABLE target_accounts ADD COLUMN IF NOT EXISTS insights_failures integer NOT NULL DEFAULT 0;
+ALTER TABLE target_accounts ADD COLUMN IF NOT EXISTS insights_error text;
+CREATE INDEX IF NOT EXISTS idx_target_accounts_insights_due ON target_accounts(insights_next_sync_at) WHERE is_active = true;
@@ -0,0 +1,24 @@
+-- 049_recurring_schedules.sql
+-- Recurring schedules expanded from RFC 5545 rules in the schedule's timezone
+
+CREATE TABLE IF NOT EXISTS recurring_schedules (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  organization_id VARCHAR(255) NOT NULL,
+  -- platforms plus the resolved rule: rrule, timezone (IANA), dtstart (local wall-clock time) and exdates
+  template jsonb NOT NULL,
+  content_template jsonb NOT NULL DEFAULT '{}',
+  enabled boolean NOT NULL DEFAULT true,
+  -- Next occurrence to turn into schedules; null once COUNT or UNTIL is exhausted
+  next_execution timestamptz,
+  last_execution timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Deployments that created the table by hand
+ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS last_execution timestamptz;
+ALTER TABLE recurring_schedules ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_recurring_schedules_due ON recurring_schedules(next_execution) WHERE enabled = true;
+CREATE INDEX IF NOT EXISTS idx_recurring_schedules_org ON recurring_schedules(organization_id);
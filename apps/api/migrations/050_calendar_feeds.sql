@@ -0,0 +1,31 @@
+-- 050_calendar_feeds.sql
+-- Token-protected iCalendar subscription feeds and .ics imports of the content calendar
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL,
+  name text NOT NULL,
+  -- sha256 of the secret in the feed URL; the secret itself is only shown when the feed is created
+  token_hash text NOT NULL UNIQUE,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_accessed_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_org ON calendar_feeds(organization_id);
+
+-- One row per imported event occurrence, so importing the same file again does not duplicate content
+CREATE TABLE IF NOT EXISTS calendar_import_events (
+  organization_id text NOT NULL,
+  -- Event UID, plus the occurrence instant for recurring events
+  event_key text NOT NULL,
+  content_item_id text NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, event_key)
+);
+
+-- Imported schedules wait as drafts until their content is approved
+ALTER TABLE schedules DROP CONSTRAINT IF EXISTS chk_schedule_status;
+ALTER TABLE schedules
+  ADD CONSTRAINT chk_schedule_status CHECK (status IN ('draft', 'pending', 'queued', 'published', 'failed', 'cancelled'));
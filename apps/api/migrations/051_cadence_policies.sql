@@ -0,0 +1,23 @@
+-- 051_cadence_policies.sql
+-- Posting cadence limits checked when schedules are created: per organization, or per target account
+
+CREATE TABLE IF NOT EXISTS cadence_policies (
+  id text PRIMARY KEY,
+  organization_id text NOT NULL,
+  -- Null for the organization-wide policy, whose limits count each platform's schedules separately
+  target_account_id text REFERENCES target_accounts(id) ON DELETE CASCADE,
+  -- IANA timezone of days, weeks, quiet hours and local blackout times
+  timezone text NOT NULL DEFAULT 'UTC',
+  max_per_day integer CHECK (max_per_day IS NULL OR max_per_day > 0),
+  max_per_week integer CHECK (max_per_week IS NULL OR max_per_week > 0),
+  min_gap_minutes integer CHECK (min_gap_minutes IS NULL OR min_gap_minutes > 0),
+  -- [{ start: 'HH:mm', end: 'HH:mm', platforms?: [...], days?: [0-6] }]
+  quiet_hours jsonb NOT NULL DEFAULT '[]',
+  -- [{ start, end, reason? }]
+  blackouts jsonb NOT NULL DEFAULT '[]',
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cadence_policies_scope ON cadence_policies(organization_id, (COALESCE(target_account_id, '')));
@@ -0,0 +1,11 @@
+-- 052_prompt_partials.sql
+-- Reusable template fragments included from prompt and reply templates with {{> name}}
+
+CREATE TABLE IF NOT EXISTS prompt_partials (
+  id text PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  template text NOT NULL,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
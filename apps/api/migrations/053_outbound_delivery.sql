@@ -0,0 +1,11 @@
+-- 053_outbound_delivery.sql
+-- Outbound replies are recorded before they are sent, so a reply the platform accepted is never lost or sent twice
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS delivery_status text,
+  ADD COLUMN IF NOT EXISTS delivery_error text;
+
+-- Replies recorded before this migration were all delivered
+UPDATE messages SET delivery_status = 'sent' WHERE direction = 'outbound' AND delivery_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_pending_delivery ON messages(sent_at) WHERE delivery_status = 'pending';
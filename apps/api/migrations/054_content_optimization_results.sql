@@ -0,0 +1,6 @@
+-- 054_content_optimization_results.sql
+-- The latest optimization result and A/B test plan generated for a content item
+
+ALTER TABLE content_items
+  ADD COLUMN IF NOT EXISTS optimization_results jsonb,
+  ADD COLUMN IF NOT EXISTS ab_test_plan jsonb;
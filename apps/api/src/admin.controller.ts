@@ -1,4 +1,4 @@
-import { Controller, Post, Param, HttpException, HttpStatus, Body, Get, Query, UseGuards, Req } from '@nestjs/common';
+import { Controller, Post, Put, Delete, Param, HttpException, HttpStatus, Body, Get, Query, UseGuards, Req } from '@nestjs/common';
 import { QueueService } from './queue.service';
 import { DbService } from './db.service';
 import { Roles } from './decorators/roles.decorator';
@@ -7,6 +7,15 @@ import { GatewayAuthGuard } from './guards/gateway-auth.guard';
 import { PerplexityService } from './services/perplexity.service';
 import { ContentGenerationService } from './services/content-generation.service';
 import { TemplateTuningService } from './services/template-tuning.service';
+import { LeadScoringService } from './services/lead-scoring.service';
+import { LeadScoringConfigError } from './services/lead-scoring';
+import { TokenKeyRotationService } from './services/token-key-rotation.service';
+import { getTokenKeyRing } from './token.util';
+import { LlmService } from './services/llm.service';
+import { LlmConfigError } from './services/llm-routing';
+import { EnhancedErrorHandlingService } from './services/enhanced-error-handling.service';
+import { PromptPartialError, TemplateRenderService } from './services/template-render.service';
+import { TemplateError } from './services/template-language';
 
 @UseGuards(GatewayAuthGuard, RolesGuard)
 @Controller('admin')
@@ -16,7 +25,12 @@ export class AdminController {
     private readonly db: DbService, 
     private readonly perplexity: PerplexityService, 
     private readonly generator: ContentGenerationService,
-    private readonly templateTuning: TemplateTuningService
+    private readonly templateTuning: TemplateTuningService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly keyRotation: TokenKeyRotationService,
+    private readonly llm: LlmService,
+    private readonly errorHandling: EnhancedErrorHandlingService,
+    private readonly templates: TemplateRenderService
   ) {}
 
   private extractOrganizationId(req: any): string {
@@ -27,6 +41,23 @@ export class AdminController {
     return orgId;
   }
 
+  // Template syntax and render errors carry their line and column in the message
+  private templateError(error: any): never {
+    if (error instanceof TemplateError || error instanceof PromptPartialError) {
+      throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    throw error;
+  }
+
+  private checkTemplate(template?: string) {
+    if (template === undefined) return;
+    try {
+      this.templates.compile(String(template));
+    } catch (error) {
+      this.templateError(error);
+    }
+  }
+
   @Post('publish-dlq/:id/replay')
   @Roles('admin')
   async replayPublishDlq(@Param('id') id: string) {
@@ -58,6 +89,7 @@ export class AdminController {
   @Post('prompt-templates')
   @Roles('admin')
   async createPromptTemplate(@Body() body: { name: string; version: string; channel: string; inputSchema?: any; template: string; outputSchema?: any; }) {
+    this.checkTemplate(body.template);
     const id = await this.db.createPromptTemplate({
       name: body.name,
       version: body.version,
@@ -69,6 +101,30 @@ export class AdminController {
     return { id };
   }
 
+  // Render a stored template or the given source, strictly unless asked otherwise, to try it out before use
+  @Post('prompt-templates/render')
+  @Roles('admin')
+  async renderPromptTemplate(@Body() body: { templateId?: string; template?: string; variables?: Record<string, any>; partials?: Record<string, string>; strict?: boolean }) {
+    let template = body.template;
+    let inputSchema: any;
+    if (body.templateId) {
+      const row = await this.db.getPromptTemplate(body.templateId);
+      if (!row) throw new HttpException('Prompt template not found', HttpStatus.NOT_FOUND);
+      template = row.template;
+      inputSchema = typeof row.input_schema === 'string' ? JSON.parse(row.input_schema) : row.input_schema;
+    }
+    if (typeof template !== 'string') throw new HttpException('template or templateId is required', HttpStatus.BAD_REQUEST);
+    try {
+      const output = await this.templates.renderWithPartials(template, body.variables || {}, inputSchema, {
+        strict: body.strict !== false,
+        partials: body.partials,
+      });
+      return { output };
+    } catch (error) {
+      this.templateError(error);
+    }
+  }
+
   // Minimal generation trigger for testing
   @Post('generate')
   @Roles('admin')
@@ -87,6 +143,7 @@ export class AdminController {
   @Post('prompt-templates/:id')
   @Roles('admin')
   async updatePromptTemplate(@Param('id') id: string, @Body() body: { inputSchema?: any; template?: string; outputSchema?: any }) {
+    this.checkTemplate(body.template);
     await this.db.updatePromptTemplate(id, body);
     return { id, updated: true };
   }
@@ -94,6 +151,7 @@ export class AdminController {
   @Post('prompt-templates/upsert')
   @Roles('admin')
   async upsertPromptTemplate(@Body() body: { name: string; version: string; channel: string; inputSchema?: any; template: string; outputSchema?: any; }) {
+    this.checkTemplate(body.template);
     // If a template with same (name, version, channel) exists, update it; else create
     const existing = await this.db.listPromptTemplates({ name: body.name, channel: body.channel, limit: 1 });
     if (existing && existing.length > 0 && existing[0].version === body.version) {
@@ -126,6 +184,32 @@ export class AdminController {
     return { templates: rows };
   }
 
+  // Prompt partials, included from templates with {{> name}}
+  @Get('prompt-partials')
+  @Roles('admin')
+  async listPromptPartials() {
+    return { partials: await this.templates.listPartials() };
+  }
+
+  @Put('prompt-partials/:name')
+  @Roles('admin')
+  async savePromptPartial(@Param('name') name: string, @Body() body: { template: string; description?: string }) {
+    try {
+      return await this.templates.savePartial(name, body?.template, body?.description);
+    } catch (error) {
+      this.templateError(error);
+    }
+  }
+
+  @Delete('prompt-partials/:name')
+  @Roles('admin')
+  async deletePromptPartial(@Param('name') name: string) {
+    if (!(await this.templates.deletePartial(name))) {
+      throw new HttpException('Prompt partial not found', HttpStatus.NOT_FOUND);
+    }
+    return { name, deleted: true };
+  }
+
   // Brand Rules admin APIs
   @Get('brand-rules/:organizationId')
   @Roles('admin')
@@ -196,6 +280,107 @@ export class AdminController {
     return { organizationId, resumed: true, settings: saved };
   }
 
+  // Lead scoring model admin APIs
+  @Get('lead-scoring/:organizationId')
+  @Roles('admin')
+  async getLeadScoringModel(@Param('organizationId') organizationId: string) {
+    const model = await this.leadScoring.getModel(organizationId);
+    return { organizationId, model };
+  }
+
+  @Post('lead-scoring/:organizationId')
+  @Roles('admin')
+  async updateLeadScoringModel(@Param('organizationId') organizationId: string, @Body() body: Record<string, unknown>) {
+    try {
+      const model = await this.leadScoring.updateModel(organizationId, body || {});
+      return { organizationId, updated: true, model };
+    } catch (error) {
+      if (error instanceof LeadScoringConfigError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  // Re-scores every lead; also applies decay to leads without recent messages
+  @Post('lead-scoring/:organizationId/recompute')
+  @Roles('admin')
+  async recomputeLeadScores(@Param('organizationId') organizationId: string) {
+    const result = await this.leadScoring.recomputeAll(organizationId);
+    return { organizationId, ...result };
+  }
+
+  // LLM providers and per-organization routing
+  @Get('llm/providers')
+  @Roles('admin')
+  getLlmProviders() {
+    return this.llm.listProviders();
+  }
+
+  // Circuit breakers shared by the API replicas and the worker, and this minute's retry budget per provider
+  @Get('circuit-breakers')
+  @Roles('admin')
+  async getCircuitBreakers() {
+    const breakers = await this.errorHandling.getCircuitBreakerMetrics();
+    return {
+      breakers: Object.entries(breakers).map(([name, breaker]) => ({
+        name,
+        state: breaker.state,
+        failureCount: breaker.failureCount,
+        lastFailureTime: breaker.lastFailureTime || null,
+        nextAttemptTime: breaker.state === 'OPEN' ? breaker.nextAttemptTime || null : null,
+      })),
+      retryBudgets: await this.errorHandling.getRetryBudgets(),
+    };
+  }
+
+  @Post('circuit-breakers/:name/reset')
+  @Roles('admin')
+  async resetCircuitBreaker(@Param('name') name: string) {
+    if (!(await this.errorHandling.resetCircuitBreaker(name))) {
+      throw new HttpException('Circuit breaker not found', HttpStatus.NOT_FOUND);
+    }
+    return { name, reset: true, state: await this.errorHandling.getCircuitBreakerState(name) };
+  }
+
+  @Get('llm/:organizationId')
+  @Roles('admin')
+  async getLlmSettings(@Param('organizationId') organizationId: string) {
+    const settings = await this.llm.getSettings(organizationId);
+    return { organizationId, settings: settings || { route: [], features: {} } };
+  }
+
+  @Post('llm/:organizationId')
+  @Roles('admin')
+  async updateLlmSettings(@Param('organizationId') organizationId: string, @Body() body: Record<string, any>) {
+    try {
+      const settings = await this.llm.updateSettings(organizationId, body || {});
+      return { organizationId, updated: true, settings };
+    } catch (error: any) {
+      if (error instanceof LlmConfigError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  // Tokens and estimated cost by feature, provider and model; defaults to the last 30 days
+  @Get('llm/:organizationId/usage')
+  @Roles('admin')
+  async getLlmUsage(
+    @Param('organizationId') organizationId: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const untilDate = until ? new Date(until) : new Date();
+    const sinceDate = since ? new Date(since) : new Date(untilDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(sinceDate.getTime()) || isNaN(untilDate.getTime())) {
+      throw new HttpException('since and until must be ISO dates', HttpStatus.BAD_REQUEST);
+    }
+    const usage = await this.llm.getUsage(organizationId, sinceDate, untilDate);
+    return { organizationId, ...usage };
+  }
+
   // Auto-approve policy management
   @Get('autoapprove/:organizationId')
   @Roles('admin')
@@ -254,6 +439,24 @@ export class AdminController {
     return { globalPause: false, flags };
   }
 
+  // Token encryption key rotation: re-encrypt stored secrets under the primary key in the background
+  @Post('tokens/reencrypt')
+  @Roles('admin')
+  startTokenReencryption() {
+    return this.keyRotation.start();
+  }
+
+  @Get('tokens/reencrypt')
+  @Roles('admin')
+  async getTokenReencryptionStatus() {
+    const keyRing = getTokenKeyRing();
+    return {
+      primaryKeyId: keyRing.primaryKeyId,
+      keyIds: keyRing.keyIds,
+      run: await this.keyRotation.getStatus(),
+    };
+  }
+
   // Template performance and tuning
   @Get('templates/performance')
   @Roles('admin')
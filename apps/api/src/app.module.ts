@@ -26,6 +26,7 @@ import { PlatformPublishService } from './platform-publish.service';
 import { ContentApprovalService } from './content-approval.service';
 import { MetaClientService } from './platforms/meta/meta-client.service';
 import { LinkedInClientService } from './platforms/linkedin/linkedin-client.service';
+import { WordPressClientService } from './platforms/wordpress/wordpress-client.service';
 import { MediaProcessingService } from './services/media-processing.service';
 import { StorageManagementService } from './services/storage-management.service';
 import { PerplexityService } from './services/perplexity.service';
@@ -43,6 +44,14 @@ import { SmartSchedulingService } from './services/smart-scheduling.service';
 import { EnhancedErrorHandlingService } from './services/enhanced-error-handling.service';
 import { BatchGenerationService } from './services/batch-generation.service';
 import { PipelineMonitoringService } from './services/pipeline-monitoring.service';
+import { PipelineEventBus } from './services/pipeline-event-bus.service';
+import { CircuitBreakerStore, RedisCircuitBreakerStore } from './services/circuit-breaker-store';
+import { StorageController } from './storage.controller';
+import { MediaController } from './media.controller';
+import { MediaJobsService } from './services/media-jobs.service';
+import { MediaStorageService } from './services/media-storage.service';
+import { StorageDriver } from './platforms/storage/storage-driver';
+import { createStorageDriver } from './platforms/storage/create-storage-driver';
 import { PlatformController } from './platform.controller';
 import { AdminController } from './admin.controller';
 import { AuthService } from './auth.service';
@@ -50,10 +59,29 @@ import { SecurityMiddleware } from './middleware/security.middleware';
 import { CSRFMiddleware } from './middleware/csrf.middleware';
 import { AuthRateLimitMiddleware } from './middleware/auth-rate-limit.middleware';
 import { SessionSecurityService } from './services/session-security.service';
+import { NewsletterController } from './newsletter.controller';
+import { NewsletterService } from './services/newsletter.service';
+import { LeadsController } from './leads.controller';
+import { LeadsService } from './services/leads.service';
+import { InboxController } from './inbox.controller';
+import { InboxService } from './services/inbox.service';
+import { AutoReplyController } from './auto-reply.controller';
+import { AutoReplyService } from './services/auto-reply.service';
+import { LeadScoringService } from './services/lead-scoring.service';
+import { CrmController } from './crm.controller';
+import { CrmSyncService } from './services/crm-sync.service';
+import { ContentSearchService } from './services/content-search.service';
+import { TokenKeyRotationService } from './services/token-key-rotation.service';
+import { LlmService } from './services/llm.service';
+import { MailTransportService } from './platforms/mail/mail-transport.service';
+import { WebhookProcessingService } from './services/webhook-processing.service';
+import { CalendarController } from './calendar.controller';
+import { ICalendarService } from './services/icalendar.service';
+import { CadencePolicyService } from './services/cadence-policy.service';
 
 @Module({
-  controllers: [HealthController, JobsController, OAuthController, WebhooksController, PostsController, ContentController, AuthController, TokenController, AdminController],
-  providers: [QueueService, OAuthService, DbService, PlatformService, TokenService, ContentAdaptationService, GlobalHttpExceptionFilter, GatewayAuthGuard, RolesGuard, TokenRefreshInterceptor, PlatformPublishService, ContentApprovalService, MetaClientService, LinkedInClientService, MediaProcessingService, StorageManagementService, TokenAuditService, TokenCacheService, PerplexityService, TemplateRenderService, ContentGenerationService, QualityService, TemplateTuningService, BrandRuleEnforcementService, AdvancedContentOptimizationService, ContentPerformanceAnalyticsService, SmartMediaOptimizationService, AdvancedWorkflowRulesService, NotificationService, SmartSchedulingService, EnhancedErrorHandlingService, BatchGenerationService, PipelineMonitoringService, AuthService, SessionSecurityService],
+  controllers: [HealthController, JobsController, OAuthController, WebhooksController, PostsController, ContentController, AuthController, TokenController, AdminController, NewsletterController, LeadsController, InboxController, AutoReplyController, CrmController, StorageController, MediaController, CalendarController],
+  providers: [QueueService, OAuthService, DbService, PlatformService, TokenService, ContentAdaptationService, GlobalHttpExceptionFilter, GatewayAuthGuard, RolesGuard, TokenRefreshInterceptor, PlatformPublishService, ContentApprovalService, MetaClientService, LinkedInClientService, WordPressClientService, MediaProcessingService, StorageManagementService, TokenAuditService, TokenCacheService, PerplexityService, TemplateRenderService, ContentGenerationService, QualityService, TemplateTuningService, BrandRuleEnforcementService, AdvancedContentOptimizationService, ContentPerformanceAnalyticsService, SmartMediaOptimizationService, AdvancedWorkflowRulesService, NotificationService, SmartSchedulingService, EnhancedErrorHandlingService, BatchGenerationService, PipelineMonitoringService, AuthService, SessionSecurityService, MailTransportService, NewsletterService, WebhookProcessingService, LeadsService, InboxService, AutoReplyService, LeadScoringService, CrmSyncService, ContentSearchService, TokenKeyRotationService, LlmService, PipelineEventBus, RedisCircuitBreakerStore, { provide: CircuitBreakerStore, useExisting: RedisCircuitBreakerStore }, MediaStorageService, { provide: StorageDriver, useFactory: () => createStorageDriver() }, MediaJobsService, ICalendarService, CadencePolicyService],
 })
 export class AppModule {
   configure(consumer: MiddlewareConsumer) {
@@ -61,12 +89,12 @@ export class AppModule {
     consumer.apply(SecurityMiddleware).forRoutes('*');
     consumer.apply(CorrelationMiddleware).forRoutes('*');
     
-    // Apply CSRF protection to all non-GET routes except health checks
-    consumer.apply(CSRFMiddleware).exclude('health', 'auth/dev-token').forRoutes('*');
+    // Apply CSRF protection to all non-GET routes except health checks and public newsletter endpoints
+    consumer.apply(CSRFMiddleware).exclude('health', 'auth/dev-token', 'newsletter/lists/:id/subscribe', 'newsletter/unsubscribe/:token').forRoutes('*');
     
     // Apply rate limiting to specific routes
-    consumer.apply(RateLimitMiddleware).forRoutes('oauth');
+    consumer.apply(RateLimitMiddleware).forRoutes('oauth', 'newsletter');
     consumer.apply(AuthRateLimitMiddleware).forRoutes('auth');
-    consumer.apply(IdempotencyMiddleware).forRoutes('posts', 'schedules', 'content');
+    consumer.apply(IdempotencyMiddleware).forRoutes('posts', 'schedules', 'content', 'leads', 'inbox', 'crm');
   }
 }
@@ -0,0 +1,112 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { AutoReplyRuleInput, AutoReplyService, AutoReplySettingsInput } from './services/auto-reply.service';
+import { AutoReplyRuleError } from './services/auto-reply-rules';
+
+export interface PreviewAutoReplyDto {
+  message: string;
+  platform?: string;
+  kind?: string;
+  leadScore?: number;
+  leadName?: string;
+}
+
+@UseGuards(GatewayAuthGuard, RolesGuard)
+@Controller('inbox/auto-replies')
+export class AutoReplyController {
+  constructor(private readonly autoReplyService: AutoReplyService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof AutoReplyRuleError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    return new HttpException((error instanceof Error && error.message) || 'Auto-reply operation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  @Get('rules')
+  @Roles('editor', 'admin', 'viewer')
+  async getRules(@Req() req: GatewayRequest) {
+    const rules = await this.autoReplyService.getRules(this.extractOrganizationId(req));
+    return { rules };
+  }
+
+  @Post('rules')
+  @Roles('editor', 'admin')
+  async createRule(@Body() body: AutoReplyRuleInput, @Req() req: GatewayRequest) {
+    try {
+      const rule = await this.autoReplyService.createRule(this.extractOrganizationId(req), body || {}, req.user?.sub);
+      return { message: 'Auto-reply rule created successfully', rule };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Put('rules/:id')
+  @Roles('editor', 'admin')
+  async updateRule(@Param('id') ruleId: string, @Body() body: AutoReplyRuleInput, @Req() req: GatewayRequest) {
+    try {
+      const rule = await this.autoReplyService.updateRule(this.extractOrganizationId(req), ruleId, body || {});
+      if (!rule) {
+        throw new HttpException('Auto-reply rule not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'Auto-reply rule updated successfully', rule };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Delete('rules/:id')
+  @Roles('editor', 'admin')
+  async deleteRule(@Param('id') ruleId: string, @Req() req: GatewayRequest) {
+    const deleted = await this.autoReplyService.deleteRule(this.extractOrganizationId(req), ruleId);
+    if (!deleted) {
+      throw new HttpException('Auto-reply rule not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Auto-reply rule deleted successfully', ruleId };
+  }
+
+  @Post('preview')
+  @Roles('editor', 'admin')
+  async preview(@Body() body: PreviewAutoReplyDto, @Req() req: GatewayRequest) {
+    if (!body?.message) {
+      throw new HttpException('message is required', HttpStatus.BAD_REQUEST);
+    }
+    return this.autoReplyService.preview(this.extractOrganizationId(req), { ...body, body: body.message });
+  }
+
+  @Get('settings')
+  @Roles('editor', 'admin', 'viewer')
+  async getSettings(@Req() req: GatewayRequest) {
+    return this.autoReplyService.getSettings(this.extractOrganizationId(req));
+  }
+
+  @Put('settings')
+  @Roles('admin')
+  async updateSettings(@Body() body: AutoReplySettingsInput, @Req() req: GatewayRequest) {
+    try {
+      const settings = await this.autoReplyService.updateSettings(this.extractOrganizationId(req), body || {});
+      return { message: 'Auto-reply settings updated successfully', settings };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Get('log')
+  @Roles('editor', 'admin', 'viewer')
+  async getLog(@Req() req: GatewayRequest, @Query('conversationId') conversationId?: string, @Query('limit') limit?: string) {
+    const entries = await this.autoReplyService.getLog(this.extractOrganizationId(req), {
+      conversationId,
+      limit: limit ? Math.min(200, Math.max(1, parseInt(limit) || 50)) : undefined,
+    });
+    return { entries };
+  }
+}
@@ -0,0 +1,144 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Query, Req, Res, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { CalendarImportError, ICalendarService } from './services/icalendar.service';
+
+// The multipart file as parsed by multer's memory storage
+interface UploadedCalendarFile {
+  originalname: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface CreateCalendarFeedDto {
+  name?: string;
+}
+
+// Multipart fields arrive as strings, so lists may be comma-separated
+export interface ImportCalendarDto {
+  ics?: string;
+  platforms?: string | string[];
+  targetAccountIds?: string | string[];
+  timezone?: string;
+}
+
+const MAX_ICS_BYTES = 1024 * 1024;
+const PLATFORMS = ['FACEBOOK', 'INSTAGRAM', 'LINKEDIN', 'YOUTUBE', 'GBP', 'WORDPRESS', 'MAIL'];
+
+// Repeated (platform=a&platform=b) or comma-separated
+function listParam(value: string | string[] | undefined): string[] {
+  return (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// The feed itself is public: calendar apps fetch it with the secret token in the URL
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendar: ICalendarService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  @Post('feeds')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async createFeed(@Body() body: CreateCalendarFeedDto, @Req() req: GatewayRequest) {
+    const organizationId = this.extractOrganizationId(req);
+    const name = String(body?.name || '').trim() || 'Content calendar';
+    const { feed, token, url } = await this.calendar.createFeed(organizationId, name, req.user?.sub || null);
+    return {
+      success: true,
+      feed,
+      // Shown once: only the token's hash is stored
+      token,
+      url,
+    };
+  }
+
+  @Get('feeds')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async listFeeds(@Req() req: GatewayRequest) {
+    const feeds = await this.calendar.listFeeds(this.extractOrganizationId(req));
+    return { success: true, feeds };
+  }
+
+  @Delete('feeds/:id')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async revokeFeed(@Param('id') feedId: string, @Req() req: GatewayRequest) {
+    const revoked = await this.calendar.revokeFeed(this.extractOrganizationId(req), feedId);
+    if (!revoked) {
+      throw new HttpException('Calendar feed not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, message: 'Calendar feed revoked', feedId };
+  }
+
+  @Get('ics/:token')
+  async feed(
+    @Param('token') token: string,
+    @Query('platform') platform: string | string[] | undefined,
+    @Query('account') account: string | string[] | undefined,
+    @Res() res: Response,
+  ) {
+    const platforms = listParam(platform).map(p => p.toUpperCase());
+    const unknown = platforms.filter(p => !PLATFORMS.includes(p));
+    if (unknown.length > 0) {
+      throw new HttpException(`Unknown platform ${unknown.join(', ')}; use one of ${PLATFORMS.join(', ')}`, HttpStatus.BAD_REQUEST);
+    }
+    const ics = await this.calendar.renderFeed(String(token || '').replace(/\.ics$/i, ''), {
+      platforms,
+      targetAccountIds: listParam(account),
+    });
+    if (ics === null) {
+      throw new HttpException('Calendar feed not found', HttpStatus.NOT_FOUND);
+    }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="content-calendar.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(ics);
+  }
+
+  @Post('import')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_ICS_BYTES, files: 1 } }))
+  async import(@UploadedFile() file: UploadedCalendarFile | undefined, @Body() body: ImportCalendarDto, @Req() req: GatewayRequest) {
+    const organizationId = this.extractOrganizationId(req);
+    const ics = file ? file.buffer.toString('utf8') : body?.ics;
+    if (!ics || typeof ics !== 'string') {
+      throw new HttpException('Upload an .ics file as "file" or send its text as "ics"', HttpStatus.BAD_REQUEST);
+    }
+    if (Buffer.byteLength(ics) > MAX_ICS_BYTES) {
+      throw new HttpException(`Calendar files are limited to ${MAX_ICS_BYTES} bytes`, HttpStatus.PAYLOAD_TOO_LARGE);
+    }
+
+    try {
+      const result = await this.calendar.importCalendar(organizationId, req.user?.sub || 'system', ics, {
+        platforms: listParam(body?.platforms),
+        targetAccountIds: listParam(body?.targetAccountIds),
+        timezone: body?.timezone || undefined,
+      });
+      return {
+        success: true,
+        message: `Imported ${result.imported.length} event(s) as draft content; ${result.skipped.length} skipped`,
+        ...result,
+      };
+    } catch (error) {
+      if (error instanceof CalendarImportError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+}
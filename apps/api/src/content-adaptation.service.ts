@@ -7,6 +7,26 @@ export interface AdaptationRules {
   allowedMediaTypes: string[];
   linkPreview: boolean;
   emojiSupport: boolean;
+  media?: {
+    image?: PlatformImageSpec;
+    video?: PlatformVideoSpec;
+  };
+}
+
+export interface PlatformImageSpec {
+  width: number;
+  height: number;
+  quality: number;
+  format: 'jpeg' | 'png' | 'webp';
+  fit: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+}
+
+export interface PlatformVideoSpec {
+  width: number;
+  height: number;
+  format: 'mp4' | 'webm' | 'mov';
+  quality: 'low' | 'medium' | 'high';
+  fps: number;
 }
 
 export interface AdaptedContent {
@@ -17,82 +37,138 @@ export interface AdaptedContent {
   platformSpecific: Record<string, any>;
 }
 
-@Injectable()
-export class ContentAdaptationService {
-  private readonly platformRules: Record<string, AdaptationRules> = {
-    FACEBOOK: {
-      maxTextLength: 63206,
-      maxHashtags: 30,
-      requiresImage: false,
-      allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
-      linkPreview: true,
-      emojiSupport: true,
+// Text limits, accepted media and target media dimensions per platform; MediaProcessingService and the media
+// presets size images and videos from the media entries
+export const PLATFORM_ADAPTATION_RULES: Record<string, AdaptationRules> = {
+  FACEBOOK: {
+    maxTextLength: 63206,
+    maxHashtags: 30,
+    requiresImage: false,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
+    linkPreview: true,
+    emojiSupport: true,
+    media: {
+      image: { width: 1200, height: 630, quality: 85, format: 'jpeg', fit: 'cover' },
+      video: { width: 1280, height: 720, format: 'mp4', quality: 'medium', fps: 30 },
     },
-    INSTAGRAM: {
-      maxTextLength: 2200,
-      maxHashtags: 30,
-      requiresImage: true,
-      allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  INSTAGRAM: {
+    maxTextLength: 2200,
+    maxHashtags: 30,
+    requiresImage: true,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      image: { width: 1080, height: 1080, quality: 90, format: 'jpeg', fit: 'cover' },
+      video: { width: 1080, height: 1080, format: 'mp4', quality: 'high', fps: 30 },
     },
-    INSTAGRAM_STORY: {
-      maxTextLength: 1000,
-      maxHashtags: 10,
-      requiresImage: true,
-      allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  INSTAGRAM_STORY: {
+    maxTextLength: 1000,
+    maxHashtags: 10,
+    requiresImage: true,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      image: { width: 1080, height: 1920, quality: 90, format: 'jpeg', fit: 'cover' },
+      video: { width: 1080, height: 1920, format: 'mp4', quality: 'high', fps: 30 },
     },
-    INSTAGRAM_REEL: {
-      maxTextLength: 2200,
-      maxHashtags: 30,
-      requiresImage: false,
-      allowedMediaTypes: ['video/mp4'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  INSTAGRAM_REEL: {
+    maxTextLength: 2200,
+    maxHashtags: 30,
+    requiresImage: false,
+    allowedMediaTypes: ['video/mp4'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      video: { width: 1080, height: 1920, format: 'mp4', quality: 'high', fps: 30 },
     },
-    INSTAGRAM_IGTV: {
-      maxTextLength: 2200,
-      maxHashtags: 30,
-      requiresImage: false,
-      allowedMediaTypes: ['video/mp4'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  INSTAGRAM_IGTV: {
+    maxTextLength: 2200,
+    maxHashtags: 30,
+    requiresImage: false,
+    allowedMediaTypes: ['video/mp4'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      video: { width: 1080, height: 1920, format: 'mp4', quality: 'high', fps: 30 },
     },
-    INSTAGRAM_CAROUSEL: {
-      maxTextLength: 2200,
-      maxHashtags: 30,
-      requiresImage: true,
-      allowedMediaTypes: ['image/jpeg', 'image/png'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  INSTAGRAM_CAROUSEL: {
+    maxTextLength: 2200,
+    maxHashtags: 30,
+    requiresImage: true,
+    allowedMediaTypes: ['image/jpeg', 'image/png'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      image: { width: 1080, height: 1080, quality: 90, format: 'jpeg', fit: 'cover' },
     },
-    LINKEDIN: {
-      maxTextLength: 3000,
-      maxHashtags: 5,
-      requiresImage: false,
-      allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4', 'document/pdf'],
-      linkPreview: true,
-      emojiSupport: true,
+  },
+  LINKEDIN: {
+    maxTextLength: 3000,
+    maxHashtags: 5,
+    requiresImage: false,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'video/mp4', 'document/pdf'],
+    linkPreview: true,
+    emojiSupport: true,
+    media: {
+      image: { width: 1200, height: 627, quality: 85, format: 'jpeg', fit: 'cover' },
     },
-    YOUTUBE: {
-      maxTextLength: 5000,
-      maxHashtags: 15,
-      requiresImage: false,
-      allowedMediaTypes: ['video/mp4', 'video/webm'],
-      linkPreview: false,
-      emojiSupport: true,
+  },
+  YOUTUBE: {
+    maxTextLength: 5000,
+    maxHashtags: 15,
+    requiresImage: false,
+    allowedMediaTypes: ['video/mp4', 'video/webm'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      video: { width: 1920, height: 1080, format: 'mp4', quality: 'high', fps: 30 },
     },
-    GBP: {
-      maxTextLength: 1500,
-      maxHashtags: 10,
-      requiresImage: false,
-      allowedMediaTypes: ['image/jpeg', 'image/png'],
-      linkPreview: false,
-      emojiSupport: false,
+  },
+  GBP: {
+    maxTextLength: 1500,
+    maxHashtags: 10,
+    requiresImage: false,
+    allowedMediaTypes: ['image/jpeg', 'image/png'],
+    linkPreview: false,
+    emojiSupport: false,
+    media: {
+      image: { width: 1200, height: 900, quality: 85, format: 'jpeg', fit: 'cover' },
     },
-  };
+  },
+  WORDPRESS: {
+    maxTextLength: 100000,
+    maxHashtags: 0,
+    requiresImage: false,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      image: { width: 1600, height: 900, quality: 85, format: 'jpeg', fit: 'inside' },
+    },
+  },
+  MAIL: {
+    maxTextLength: 100000,
+    maxHashtags: 0,
+    requiresImage: false,
+    allowedMediaTypes: ['image/jpeg', 'image/png', 'image/gif'],
+    linkPreview: false,
+    emojiSupport: true,
+    media: {
+      image: { width: 1200, height: 1200, quality: 85, format: 'jpeg', fit: 'inside' },
+    },
+  },
+};
+
+@Injectable()
+export class ContentAdaptationService {
+  private readonly platformRules = PLATFORM_ADAPTATION_RULES;
 
   adaptContent(originalText: string, platform: string, mediaUrls: string[] = []): AdaptedContent {
     const rules = this.platformRules[platform];
@@ -165,6 +241,9 @@ export class ContentAdaptationService {
     } else if (platform === 'GBP') {
       platformSpecific.language = 'en';
       platformSpecific.location = 'New York, NY';
+    } else if (platform === 'WORDPRESS') {
+      platformSpecific.status = 'publish';
+      platformSpecific.featuredImage = adaptedMediaUrls[0] || null;
     }
     
     return {
@@ -4,6 +4,7 @@ import { ContentAdaptationService } from './content-adaptation.service';
 import { QualityService } from './services/quality.service';
 import { PerplexityService } from './services/perplexity.service';
 import { BrandRuleEnforcementService } from './services/brand-rule-enforcement.service';
+import { AdvancedWorkflowRulesService } from './services/advanced-workflow-rules.service';
 
 export interface ApprovalRequest {
   contentItemId: string;
@@ -23,6 +24,7 @@ export class ContentApprovalService {
     private readonly quality: QualityService,
     private readonly perplexity: PerplexityService,
     private readonly brandEnforcement: BrandRuleEnforcementService,
+    private readonly workflowRules: AdvancedWorkflowRulesService,
   ) {}
 
   async approveContentWithPreviews(request: ApprovalRequest): Promise<{
@@ -170,6 +172,13 @@ export class ContentApprovalService {
 
       this.logger.log(`Content ${contentItemId} approved by ${approvedBy} with ${Object.keys(adaptedPreviews).length} platform previews`);
 
+      this.workflowRules.emit({
+        type: 'content_approved',
+        organizationId: content.organization_id,
+        contentItemId,
+        data: { approvedBy, platforms: Object.keys(adaptedPreviews) },
+      });
+
       return {
         success: true,
         contentItemId,
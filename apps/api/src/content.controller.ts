@@ -1,4 +1,5 @@
-import { Body, Controller, Get, Param, Post, Put, Delete, UseGuards, Query, HttpException, HttpStatus, Req } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, Put, Delete, UseGuards, Query, HttpException, HttpStatus, Req, Sse, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { DbService } from './db.service';
 import { QueueService } from './queue.service';
 import { ContentAdaptationService } from './content-adaptation.service';
@@ -12,10 +13,15 @@ import { AdvancedContentOptimizationService } from './services/advanced-content-
 import { ContentPerformanceAnalyticsService } from './services/content-performance-analytics.service';
 import { SmartMediaOptimizationService } from './services/smart-media-optimization.service';
 import { AdvancedWorkflowRulesService } from './services/advanced-workflow-rules.service';
-import { NotificationService } from './services/notification.service';
-import { SmartSchedulingService } from './services/smart-scheduling.service';
-import { BatchGenerationService } from './services/batch-generation.service';
-import { PipelineMonitoringService } from './services/pipeline-monitoring.service';
+import { WorkflowRuleError } from './services/workflow-rules';
+import { NotificationChannelError, NotificationService } from './services/notification.service';
+import { RecurringSchedule, SmartSchedulingService } from './services/smart-scheduling.service';
+import { RecurrenceRuleError } from './services/recurrence-rule';
+import { CadencePolicyError, CadencePolicyInput, CadencePolicyService, CadenceRequest, CadenceViolationError } from './services/cadence-policy.service';
+import { BatchGenerationError, BatchGenerationRequest, BatchGenerationService } from './services/batch-generation.service';
+import { PipelineMonitoringService, PipelineStateError } from './services/pipeline-monitoring.service';
+import { ContentSearchService } from './services/content-search.service';
+import { normalizeSearchFilters } from './services/content-search-query';
 
 export interface CreateContentDto {
   title: string;
@@ -38,6 +44,10 @@ export interface ScheduleContentDto {
   scheduledAt: string;
   mediaUrls?: string[];
   adaptedContent?: any;
+  // One schedule is created per account; omit to publish to the platform's only connected account
+  targetAccountIds?: string[];
+  // Move schedules that break a cadence policy to the next allowed time instead of rejecting them
+  autoShift?: boolean;
 }
 
 export interface ApproveContentDto {
@@ -63,6 +73,8 @@ export class ContentController {
     private readonly smartScheduling: SmartSchedulingService,
     private readonly batchGeneration: BatchGenerationService,
     private readonly pipelineMonitoring: PipelineMonitoringService,
+    private readonly contentSearch: ContentSearchService,
+    private readonly cadencePolicies: CadencePolicyService,
   ) {}
 
   private extractOrganizationId(req: any): string {
@@ -75,7 +87,7 @@ export class ContentController {
 
   @Post('generate')
   @Roles('editor', 'admin')
-  async generateContent(@Body() body: { organizationId?: string; channel?: string; kind: 'BLOG'|'NEWSLETTER'|'SOCIAL'; brief: string; angle?: string; title?: string }, @Req() req: any) {
+  async generateContent(@Body() body: { organizationId?: string; channel?: string; kind: 'BLOG'|'NEWSLETTER'|'SOCIAL'; brief: string; angle?: string; title?: string; pipelineId?: string }, @Req() req: any) {
     try {
       const organizationId = body.organizationId || this.extractOrganizationId(req);
       const channel = body.channel || 'default';
@@ -89,6 +101,11 @@ export class ContentController {
         throw new HttpException('Invalid content kind. Must be BLOG, NEWSLETTER, or SOCIAL', HttpStatus.BAD_REQUEST);
       }
 
+      // Clients pick the pipeline id up front so they can subscribe to its events before generation starts
+      if (body.pipelineId !== undefined && !/^[A-Za-z0-9_-]{8,64}$/.test(body.pipelineId)) {
+        throw new HttpException('pipelineId must be 8-64 letters, digits, dashes or underscores', HttpStatus.BAD_REQUEST);
+      }
+
       // Generate content using the AI pipeline
       const result = await this.contentGeneration.generatePost({
         kind: body.kind,
@@ -96,7 +113,8 @@ export class ContentController {
         angle: body.angle,
         organizationId,
         channel,
-        platform: body.kind === 'SOCIAL' ? 'FACEBOOK' : undefined // Default platform for social
+        platform: body.kind === 'SOCIAL' ? 'FACEBOOK' : undefined, // Default platform for social
+        pipelineId: body.pipelineId
       });
 
       // Create content item
@@ -121,8 +139,8 @@ export class ContentController {
       );
 
       // Create version with generated content
-      const generatedContent = result.draft?.answer || result.draft?.data || '';
-      const generatedOutline = result.outline?.answer || result.outline?.data || '';
+      const generatedContent = result.draft?.answer || '';
+      const generatedOutline = result.outline?.answer || '';
       
       // Handle social content metadata
       const socialMetadata = result.socialMetadata || {};
@@ -140,10 +158,7 @@ export class ContentController {
           outline: generatedOutline,
           socialMetadata,
           generationMetadata: {
-            promptTemplates: {
-              outline: result.outline?.template || 'default',
-              draft: result.draft?.template || 'default'
-            },
+            llm: { provider: result.draft?.provider, model: result.draft?.model },
             platform: socialMetadata.platform,
             characterCount: socialMetadata.characterCount,
             hashtags: socialMetadata.hashtags
@@ -177,6 +192,10 @@ export class ContentController {
       }
       
       // Handle specific error types
+      if (error instanceof Error && error.message.includes('duplicate key') && error.message.includes('pipeline')) {
+        throw new HttpException('A pipeline with this id already exists', HttpStatus.CONFLICT);
+      }
+
       if (error.message?.includes('template')) {
         throw new HttpException('Template not found for content generation', HttpStatus.NOT_FOUND);
       }
@@ -210,6 +229,8 @@ export class ContentController {
       metadata,
       req.user?.sub || 'system'
     );
+
+    this.workflowRules.emit({ type: 'content_created', organizationId: orgId, contentItemId, data: { type, status } });
     
     return {
       message: 'Content item created successfully',
@@ -255,6 +276,103 @@ export class ContentController {
     };
   }
 
+  /**
+   * Ranked content search. Filters come from type/status/platform/tags (comma separated) query parameters or
+   * the `filters` JSON parameter. Falls back to Postgres matching (no highlights or facets) when Elasticsearch
+   * is unavailable; `engine` says which answered.
+   */
+  @Get('search')
+  @Roles('editor', 'admin', 'viewer')
+  async searchContent(
+    @Query('q') query: string,
+    @Query('filters') filters?: string,
+    @Query('type') type?: string,
+    @Query('status') status?: string,
+    @Query('platform') platform?: string,
+    @Query('tags') tags?: string,
+    @Query('page') page = '1',
+    @Query('limit') limit = '20',
+    @Req() req: any
+  ) {
+    const orgId = this.extractOrganizationId(req);
+    
+    if (!query || query.trim().length === 0) {
+      throw new HttpException('Search query is required', HttpStatus.BAD_REQUEST);
+    }
+
+    let parsedFilters: Record<string, any> = {};
+    try {
+      parsedFilters = filters ? JSON.parse(filters) : {};
+    } catch {
+      throw new HttpException('filters must be valid JSON', HttpStatus.BAD_REQUEST);
+    }
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+
+    try {
+      const search = await this.contentSearch.search(
+        orgId,
+        query.trim(),
+        normalizeSearchFilters({ ...parsedFilters, type: type ?? parsedFilters.type, status: status ?? parsedFilters.status, platform: platform ?? parsedFilters.platform, tags: tags ?? parsedFilters.tags }),
+        pageNum,
+        limitNum
+      );
+
+      return {
+        success: true,
+        query,
+        engine: search.engine,
+        results: search.results,
+        facets: search.facets,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: search.total,
+          totalPages: Math.ceil(search.total / limitNum)
+        }
+      };
+    } catch (error) {
+      throw new HttpException('Content search failed', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * Rebuild the search index from the database (also available as `npm run search:reindex`)
+   */
+  @Post('search/reindex')
+  @Roles('admin')
+  async reindexContent() {
+    if (!this.contentSearch.enabled) {
+      throw new HttpException('Elasticsearch is not configured', HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    try {
+      const result = await this.contentSearch.reindex();
+      return { success: true, ...result };
+    } catch (error) {
+      throw new HttpException(`Reindex failed: ${error instanceof Error ? error.message : 'Unknown error'}`, HttpStatus.BAD_GATEWAY);
+    }
+  }
+
+  @Get('target-accounts')
+  @Roles('editor', 'admin', 'viewer')
+  async getTargetAccounts(
+    @Query('platform') platform?: string,
+    @Req() req: any
+  ) {
+    const orgId = this.extractOrganizationId(req);
+    
+    try {
+      const accounts = await this.dbService.getTargetAccounts(orgId, platform);
+      return {
+        success: true,
+        accounts,
+        platform: platform || 'all'
+      };
+    } catch (error) {
+      throw new HttpException('Failed to get target accounts', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
   @Get(':id')
   @Roles('editor', 'admin', 'viewer')
   async getContent(@Param('id') contentItemId: string) {
@@ -322,6 +440,8 @@ export class ContentController {
       mediaUrls,
       metadata
     );
+
+    this.workflowRules.emit({ type: 'version_added', organizationId: content.organization_id, contentItemId, data: { versionId } });
     
     return {
       message: 'Content version created successfully',
@@ -385,7 +505,7 @@ export class ContentController {
   @Post(':id/schedule')
   @Roles('editor', 'admin')
   async schedule(@Param('id') contentItemId: string, @Body() scheduleDto: ScheduleContentDto) {
-    const { platform, scheduledAt, mediaUrls = [], adaptedContent } = scheduleDto;
+    const { platform, scheduledAt, mediaUrls = [], adaptedContent, targetAccountIds = [], autoShift = false } = scheduleDto;
     
     // Verify content item exists and is approved
     const content = await this.dbService.getContentItem(contentItemId);
@@ -403,34 +523,49 @@ export class ContentController {
       throw new HttpException(`Unsupported platform: ${platform}`, HttpStatus.BAD_REQUEST);
     }
     
-    // Create schedule record
-    const scheduleId = await this.dbService.createSchedule(
-      contentItemId,
-      platform,
-      new Date(scheduledAt),
-      mediaUrls,
-      adaptedContent
-    );
+    if (isNaN(new Date(scheduledAt).getTime())) {
+      throw new HttpException('scheduledAt must be an ISO date-time', HttpStatus.BAD_REQUEST);
+    }
     
-    // Enqueue the publish job
-    await this.queueService.enqueuePublish({
-      contentItemId,
-      platform,
-      scheduledAt,
-      scheduleId,
-      // ensure org propagation
-      // assumes content.organization_id exists on the fetched content
-      // fallback should be handled in QueueService/worker if undefined
-      // @ts-ignore
-      organizationId: (content as any).organization_id
-    });
+    const targets = await this.loadScheduleTargets(content.organization_id, platform, targetAccountIds);
+    // Create one schedule record per target account
+    const { slots, scheduleIds } = await this.scheduleWithinCadence(
+      content.organization_id,
+      targets.map(target => ({ platform, scheduledAt: new Date(scheduledAt), targetAccountId: target?.id || null })),
+      autoShift === true,
+      (index, slotAt) => this.dbService.createSchedule(contentItemId, platform, new Date(slotAt), mediaUrls, adaptedContent, targets[index] || undefined)
+    );
+
+    for (const [index, target] of targets.entries()) {
+      const scheduleId = scheduleIds[index];
+      const slotAt = slots[index].scheduledAt as string;
+
+      // Enqueue the publish job
+      await this.queueService.enqueuePublish({
+        contentItemId,
+        platform,
+        scheduledAt: slotAt,
+        scheduleId,
+        organizationId: content.organization_id
+      });
+
+      this.workflowRules.emit({
+        type: 'content_scheduled',
+        organizationId: content.organization_id,
+        contentItemId,
+        data: { scheduleId, platform, scheduledAt: slotAt, targetAccountId: target?.id },
+      });
+    }
     
     return {
       message: 'Content scheduled successfully',
       contentItemId,
       platform,
-      scheduleId,
-      scheduledAt
+      scheduleId: scheduleIds[0],
+      scheduleIds,
+      scheduledAt: slots[0].scheduledAt,
+      // Requested and actual times per schedule, with the rules that shifted it
+      slots
     };
   }
 
@@ -438,7 +573,7 @@ export class ContentController {
   @Roles('editor', 'admin')
   async bulkSchedule(
     @Param('id') contentItemId: string,
-    @Body() body: { items: Array<{ platform: string; scheduledAt: string; mediaUrls?: string[]; adaptedContent?: any }> }
+    @Body() body: { items: Array<{ platform: string; scheduledAt: string; mediaUrls?: string[]; adaptedContent?: any; targetAccountId?: string }>; autoShift?: boolean }
   ) {
     if (!body?.items || !Array.isArray(body.items) || body.items.length === 0) {
       throw new HttpException('No schedule items provided', HttpStatus.BAD_REQUEST);
@@ -451,27 +586,45 @@ export class ContentController {
       throw new HttpException('Content must be approved before scheduling', HttpStatus.BAD_REQUEST);
     }
 
-    const scheduleIds: string[] = [];
+    // Check every target up front so a bad account doesn't leave the batch half-scheduled
+    const targets: any[] = [];
     for (const it of body.items) {
-      const scheduleId = await this.dbService.createSchedule(
-        contentItemId,
-        it.platform,
-        new Date(it.scheduledAt),
-        it.mediaUrls || [],
-        it.adaptedContent
-      );
-      scheduleIds.push(scheduleId);
+      if (isNaN(new Date(it.scheduledAt).getTime())) {
+        throw new HttpException(`Invalid scheduledAt: ${String(it.scheduledAt)}`, HttpStatus.BAD_REQUEST);
+      }
+      const [target] = await this.loadScheduleTargets(content.organization_id, it.platform, it.targetAccountId ? [it.targetAccountId] : []);
+      targets.push(target);
+    }
+    // The items count against each other, so the cadence is checked for the whole batch before any is created
+    const { slots, scheduleIds } = await this.scheduleWithinCadence(
+      content.organization_id,
+      body.items.map((it, index) => ({ platform: it.platform, scheduledAt: new Date(it.scheduledAt), targetAccountId: targets[index]?.id || null })),
+      body.autoShift === true,
+      (index, slotAt) => {
+        const it = body.items[index];
+        return this.dbService.createSchedule(contentItemId, it.platform, new Date(slotAt), it.mediaUrls || [], it.adaptedContent, targets[index] || undefined);
+      }
+    );
+
+    for (const [index, it] of body.items.entries()) {
+      const scheduleId = scheduleIds[index];
+      const slotAt = slots[index].scheduledAt as string;
       await this.queueService.enqueuePublish({
         contentItemId,
         platform: it.platform,
-        scheduledAt: it.scheduledAt,
+        scheduledAt: slotAt,
         scheduleId,
-        // @ts-ignore
-        organizationId: (content as any).organization_id
+        organizationId: content.organization_id
+      });
+      this.workflowRules.emit({
+        type: 'content_scheduled',
+        organizationId: content.organization_id,
+        contentItemId,
+        data: { scheduleId, platform: it.platform, scheduledAt: slotAt, targetAccountId: targets[index]?.id },
       });
     }
 
-    return { message: 'Bulk schedules created', contentItemId, scheduleIds, count: scheduleIds.length };
+    return { message: 'Bulk schedules created', contentItemId, scheduleIds, count: scheduleIds.length, slots };
   }
 
   @Get(':id/status')
@@ -663,12 +816,14 @@ export class ContentController {
     platform: string; 
     historicalData?: any;
     contentItemId?: string;
-  }) {
+  }, @Req() req: any) {
+    const organizationId = this.extractOrganizationId(req);
     try {
       const optimization = await this.contentOptimization.optimizeContentForPerformance(
         body.content,
         body.platform,
-        body.historicalData
+        body.historicalData,
+        organizationId
       );
 
       // Store optimization results if contentItemId provided
@@ -701,11 +856,13 @@ export class ContentController {
     content: string; 
     platform: string;
     contentItemId?: string;
-  }) {
+  }, @Req() req: any) {
+    const organizationId = this.extractOrganizationId(req);
     try {
       const abTestPlan = await this.contentOptimization.generateABTestVariations(
         body.content,
-        body.platform
+        body.platform,
+        organizationId
       );
 
       // Store AB test plan if contentItemId provided
@@ -873,30 +1030,95 @@ export class ContentController {
   }
 
   // Advanced Workflow Rules Endpoints
+  @Get('workflow/rules')
+  @Roles('editor', 'admin', 'viewer')
+  async getWorkflowRules(@Req() req: any) {
+    const rules = await this.workflowRules.listWorkflowRules(this.extractOrganizationId(req));
+    return { rules };
+  }
+
+  /**
+   * triggers lists the lifecycle events that run the rule automatically: content_created, version_added,
+   * content_approved, content_scheduled, content_published, publish_failed
+   */
   @Post('workflow/rules')
   @Roles('admin')
   async createWorkflowRule(@Body() body: {
     name: string;
     description: string;
-    organizationId: string;
+    category?: string;
+    triggers?: any[];
     conditions: any[];
     actions: any[];
     priority: number;
     enabled: boolean;
-  }) {
+  }, @Req() req: any) {
     try {
-      const ruleId = await this.workflowRules.createWorkflowRule(body);
+      const ruleId = await this.workflowRules.createWorkflowRule({ ...body, organizationId: this.extractOrganizationId(req) });
       return {
         success: true,
         ruleId,
         message: 'Workflow rule created successfully'
       };
     } catch (error) {
+      if (error instanceof WorkflowRuleError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       console.error('Workflow rule creation error:', error);
       throw new HttpException('Workflow rule creation failed', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
+  @Put('workflow/rules/:ruleId')
+  @Roles('admin')
+  async updateWorkflowRule(@Param('ruleId') ruleId: string, @Body() body: any, @Req() req: any) {
+    let rule;
+    try {
+      rule = await this.workflowRules.updateWorkflowRule(this.extractOrganizationId(req), ruleId, body || {});
+    } catch (error) {
+      if (error instanceof WorkflowRuleError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+    if (!rule) {
+      throw new HttpException('Workflow rule not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Workflow rule updated successfully', rule };
+  }
+
+  @Delete('workflow/rules/:ruleId')
+  @Roles('admin')
+  async deleteWorkflowRule(@Param('ruleId') ruleId: string, @Req() req: any) {
+    const deleted = await this.workflowRules.deleteWorkflowRule(this.extractOrganizationId(req), ruleId);
+    if (!deleted) {
+      throw new HttpException('Workflow rule not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Workflow rule deleted successfully', ruleId };
+  }
+
+  /**
+   * Rule runs with their step logs, newest first
+   */
+  @Get('workflow/executions')
+  @Roles('editor', 'admin', 'viewer')
+  async getWorkflowExecutions(
+    @Req() req: any,
+    @Query('ruleId') ruleId?: string,
+    @Query('contentItemId') contentItemId?: string,
+    @Query('eventType') eventType?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit = '50'
+  ) {
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit) || 50));
+    const executions = await this.workflowRules.getExecutions(
+      this.extractOrganizationId(req),
+      { ruleId, contentItemId, eventType, status },
+      limitNum
+    );
+    return { executions };
+  }
+
   @Post('workflow/execute/:contentItemId')
   @Roles('editor', 'admin')
   async executeWorkflowRules(
@@ -976,6 +1198,7 @@ export class ContentController {
     name: string;
     organizationId: string;
     configuration: Record<string, any>;
+    maxAttempts?: number;
     enabled: boolean;
   }) {
     try {
@@ -986,6 +1209,9 @@ export class ContentController {
         message: 'Notification channel created successfully'
       };
     } catch (error) {
+      if (error instanceof NotificationChannelError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       console.error('Notification channel creation error:', error);
       throw new HttpException('Notification channel creation failed', HttpStatus.INTERNAL_SERVER_ERROR);
     }
@@ -1086,6 +1312,19 @@ export class ContentController {
     }
   }
 
+  /**
+   * Per-channel delivery status for a notification: attempts, last error and the receiver's response status
+   */
+  @Get('notifications/:notificationId/deliveries')
+  @Roles('editor', 'admin')
+  async getNotificationDeliveries(@Param('notificationId') notificationId: string, @Req() req: any) {
+    const deliveries = await this.notificationService.getNotificationDeliveries(this.extractOrganizationId(req), notificationId);
+    if (!deliveries) {
+      throw new HttpException('Notification not found', HttpStatus.NOT_FOUND);
+    }
+    return { notificationId, deliveries };
+  }
+
   @Get('notifications/analytics')
   @Roles('admin')
   async getNotificationAnalytics(
@@ -1223,34 +1462,107 @@ export class ContentController {
   @Roles('admin')
   async createRecurringSchedule(@Body() body: {
     name: string;
-    organizationId: string;
-    template: {
-      platforms: string[];
-      frequency: 'daily' | 'weekly' | 'monthly';
-      timeOfDay: string;
-      daysOfWeek?: number[];
-      dayOfMonth?: number;
-    };
+    organizationId?: string;
+    template: RecurringSchedule['template'];
     contentTemplate: {
       type: 'BLOG' | 'NEWSLETTER' | 'SOCIAL';
       brief: string;
       angle?: string;
     };
     enabled: boolean;
-  }) {
+  }, @Req() req: any) {
     try {
-      const scheduleId = await this.smartScheduling.createRecurringSchedule(body);
+      const scheduleId = await this.smartScheduling.createRecurringSchedule({
+        ...body,
+        organizationId: this.extractOrganizationId(req),
+      });
       return {
         success: true,
         scheduleId,
         message: 'Recurring schedule created successfully'
       };
     } catch (error) {
+      if (error instanceof HttpException) throw error;
+      if (error instanceof RecurrenceRuleError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       console.error('Recurring schedule creation error:', error);
       throw new HttpException('Recurring schedule creation failed', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
+  // Next occurrences of a template before (or without) saving it; count defaults to 10, at most 100
+  @Post('scheduling/recurring/preview')
+  @Roles('editor', 'admin')
+  previewRecurringSchedule(@Body() body: { template: RecurringSchedule['template']; count?: number; after?: string }) {
+    const count = Math.min(100, Math.max(1, Math.floor(Number(body?.count) || 10)));
+    const after = body?.after ? new Date(body.after) : new Date();
+    if (isNaN(after.getTime())) {
+      throw new HttpException('after must be an ISO date-time', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      return { success: true, ...this.smartScheduling.previewRecurrence(body?.template || ({} as RecurringSchedule['template']), count, after) };
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  @Get('scheduling/cadence-policies')
+  @Roles('editor', 'admin', 'viewer')
+  async listCadencePolicies(@Req() req: any) {
+    const policies = await this.cadencePolicies.listPolicies(this.extractOrganizationId(req));
+    return { success: true, policies };
+  }
+
+  // Creates or replaces the policy of the organization (no targetAccountId) or of one target account
+  @Put('scheduling/cadence-policies')
+  @Roles('admin')
+  async saveCadencePolicy(@Body() body: CadencePolicyInput, @Req() req: any) {
+    try {
+      const policy = await this.cadencePolicies.savePolicy(this.extractOrganizationId(req), body || {});
+      return { success: true, policy };
+    } catch (error) {
+      if (error instanceof CadencePolicyError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  @Delete('scheduling/cadence-policies/:policyId')
+  @Roles('admin')
+  async deleteCadencePolicy(@Param('policyId') policyId: string, @Req() req: any) {
+    const deleted = await this.cadencePolicies.deletePolicy(this.extractOrganizationId(req), policyId);
+    if (!deleted) {
+      throw new HttpException('Cadence policy not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, message: 'Cadence policy deleted' };
+  }
+
+  // Dry run of the cadence check: the rules each time breaks and, with autoShift, where it would move
+  @Post('scheduling/cadence-policies/check')
+  @Roles('editor', 'admin')
+  async checkCadence(
+    @Body() body: { items: Array<{ platform: string; scheduledAt: string; targetAccountId?: string }>; autoShift?: boolean },
+    @Req() req: any
+  ) {
+    if (!body?.items || !Array.isArray(body.items) || body.items.length === 0) {
+      throw new HttpException('No schedule items provided', HttpStatus.BAD_REQUEST);
+    }
+    const requests = body.items.map(it => {
+      const scheduledAt = new Date(it?.scheduledAt);
+      if (isNaN(scheduledAt.getTime())) {
+        throw new HttpException(`Invalid scheduledAt: ${String(it?.scheduledAt)}`, HttpStatus.BAD_REQUEST);
+      }
+      return { platform: it.platform, scheduledAt, targetAccountId: it.targetAccountId || null };
+    });
+    const slots = await this.cadencePolicies.planSlots(this.extractOrganizationId(req), requests, body.autoShift === true);
+    return { success: true, allowed: slots.every(slot => slot.scheduledAt !== null), slots };
+  }
+
   @Get('scheduling/analytics/:platform')
   @Roles('admin')
   async getScheduleAnalytics(
@@ -1280,28 +1592,18 @@ export class ContentController {
   }
 
   // Batch Generation Endpoints
+  /**
+   * Queue briefs for generation by the worker; each brief becomes a DRAFT content item. Job state is kept in
+   * Postgres, so progress and the controls below work across API restarts and replicas.
+   */
   @Post('generate/batch')
   @Roles('editor', 'admin')
-  async createBatchGeneration(@Body() body: {
-    organizationId: string;
-    channel?: string;
-    briefs: Array<{
-      id: string;
-      brief: string;
-      kind: 'BLOG' | 'NEWSLETTER' | 'SOCIAL';
-      angle?: string;
-      title?: string;
-      platform?: string;
-    }>;
-    options?: {
-      parallel?: boolean;
-      maxConcurrency?: number;
-      retryFailed?: boolean;
-      notifyOnCompletion?: boolean;
-    };
-  }) {
+  async createBatchGeneration(@Body() body: Omit<BatchGenerationRequest, 'organizationId'>, @Req() req: any) {
     try {
-      const jobId = await this.batchGeneration.createBatchGenerationJob(body);
+      const jobId = await this.batchGeneration.createBatchGenerationJob(
+        { ...body, organizationId: this.extractOrganizationId(req) },
+        req.user?.sub || 'system'
+      );
       return {
         success: true,
         jobId,
@@ -1310,6 +1612,9 @@ export class ContentController {
         options: body.options
       };
     } catch (error) {
+      if (error instanceof BatchGenerationError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       console.error('Batch generation creation error:', error);
       throw new HttpException('Batch generation creation failed', HttpStatus.INTERNAL_SERVER_ERROR);
     }
@@ -1317,124 +1622,167 @@ export class ContentController {
 
   @Get('generate/batch/:jobId/progress')
   @Roles('editor', 'admin')
-  async getBatchGenerationProgress(@Param('jobId') jobId: string) {
-    try {
-      const progress = await this.batchGeneration.getBatchGenerationProgress(jobId);
-      return {
-        success: true,
-        progress,
-        insights: {
-          completionRate: Math.round((progress.completedItems / progress.totalItems) * 100),
-          failureRate: Math.round((progress.failedItems / progress.totalItems) * 100),
-          estimatedTimeRemaining: progress.estimatedTimeRemaining
-        }
-      };
-    } catch (error) {
-      console.error('Batch generation progress error:', error);
-      throw new HttpException('Batch generation progress failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  async getBatchGenerationProgress(@Param('jobId') jobId: string, @Req() req: any) {
+    const progress = await this.batchGeneration.getBatchGenerationProgress(this.extractOrganizationId(req), jobId);
+    if (!progress) {
+      throw new HttpException('Batch generation job not found', HttpStatus.NOT_FOUND);
     }
+    return {
+      success: true,
+      progress,
+      insights: {
+        completionRate: Math.round((progress.completedItems / progress.totalItems) * 100),
+        failureRate: Math.round((progress.failedItems / progress.totalItems) * 100),
+        estimatedTimeRemaining: progress.estimatedTimeRemaining
+      }
+    };
   }
 
+  /**
+   * Per-brief outcomes with the content items created so far
+   */
   @Get('generate/batch/:jobId/result')
   @Roles('editor', 'admin')
-  async getBatchGenerationResult(@Param('jobId') jobId: string) {
-    try {
-      const result = await this.batchGeneration.getBatchGenerationResult(jobId);
-      return {
-        success: true,
-        result,
-        insights: {
-          successRate: result.summary.successRate,
-          averageGenerationTime: result.summary.averageGenerationTime,
-          totalDuration: result.summary.totalDuration
-        }
-      };
-    } catch (error) {
-      console.error('Batch generation result error:', error);
-      throw new HttpException('Batch generation result failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  async getBatchGenerationResult(@Param('jobId') jobId: string, @Req() req: any) {
+    const result = await this.batchGeneration.getBatchGenerationResult(this.extractOrganizationId(req), jobId);
+    if (!result) {
+      throw new HttpException('Batch generation job not found', HttpStatus.NOT_FOUND);
     }
+    return {
+      success: true,
+      result,
+      insights: {
+        successRate: result.summary.successRate,
+        averageGenerationTime: result.summary.averageGenerationTime,
+        totalDuration: result.summary.totalDuration
+      }
+    };
+  }
+
+  @Post('generate/batch/:jobId/pause')
+  @Roles('editor', 'admin')
+  async pauseBatchGeneration(@Param('jobId') jobId: string, @Req() req: any) {
+    const progress = await this.batchControl(() => this.batchGeneration.pauseBatchGeneration(this.extractOrganizationId(req), jobId));
+    return { success: true, progress, message: 'Batch generation job paused' };
+  }
+
+  @Post('generate/batch/:jobId/resume')
+  @Roles('editor', 'admin')
+  async resumeBatchGeneration(@Param('jobId') jobId: string, @Req() req: any) {
+    const progress = await this.batchControl(() => this.batchGeneration.resumeBatchGeneration(this.extractOrganizationId(req), jobId));
+    return { success: true, progress, message: 'Batch generation job resumed' };
   }
 
   @Post('generate/batch/:jobId/cancel')
   @Roles('admin')
-  async cancelBatchGeneration(@Param('jobId') jobId: string) {
-    try {
-      await this.batchGeneration.cancelBatchGeneration(jobId);
-      return {
-        success: true,
-        message: 'Batch generation job cancelled successfully'
-      };
-    } catch (error) {
-      console.error('Batch generation cancellation error:', error);
-      throw new HttpException('Batch generation cancellation failed', HttpStatus.INTERNAL_SERVER_ERROR);
-    }
+  async cancelBatchGeneration(@Param('jobId') jobId: string, @Req() req: any) {
+    const progress = await this.batchControl(() => this.batchGeneration.cancelBatchGeneration(this.extractOrganizationId(req), jobId));
+    return {
+      success: true,
+      progress,
+      message: 'Batch generation job cancelled successfully'
+    };
   }
 
+  /**
+   * Failed briefs run again within the same job
+   */
   @Post('generate/batch/:jobId/retry')
   @Roles('admin')
-  async retryFailedBatchItems(@Param('jobId') jobId: string) {
+  async retryFailedBatchItems(@Param('jobId') jobId: string, @Req() req: any) {
+    const retry = await this.batchControl(() => this.batchGeneration.retryFailedItems(this.extractOrganizationId(req), jobId));
+    return {
+      success: true,
+      retryJobId: retry.jobId,
+      retriedItems: retry.retriedItems,
+      message: 'Failed batch items queued for retry'
+    };
+  }
+
+  // Job-state conflicts (e.g. resuming a cancelled batch) are 409s, unknown jobs 404s
+  private async batchControl<T>(action: () => Promise<T | null>): Promise<T> {
+    let result: T | null;
     try {
-      const retryJobId = await this.batchGeneration.retryFailedItems(jobId);
-      return {
-        success: true,
-        retryJobId,
-        message: 'Retry batch job created successfully'
-      };
+      result = await action();
     } catch (error) {
-      console.error('Batch generation retry error:', error);
-      throw new HttpException('Batch generation retry failed', HttpStatus.INTERNAL_SERVER_ERROR);
+      if (error instanceof BatchGenerationError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      throw error;
+    }
+    if (!result) {
+      throw new HttpException('Batch generation job not found', HttpStatus.NOT_FOUND);
     }
+    return result;
   }
 
   // Pipeline Monitoring Endpoints
   @Get('pipeline/:pipelineId/progress')
   @Roles('editor', 'admin')
-  async getPipelineProgress(@Param('pipelineId') pipelineId: string) {
-    try {
-      const progress = await this.pipelineMonitoring.getPipelineProgress(pipelineId);
-      return {
-        success: true,
-        progress,
-        insights: {
-          stageProgress: Math.round((progress.currentStage / progress.totalStages) * 100),
-          estimatedTimeRemaining: progress.estimatedTimeRemaining,
-          currentStage: progress.stages[progress.currentStage]?.name || 'Unknown'
-        }
-      };
-    } catch (error) {
-      console.error('Pipeline progress error:', error);
-      throw new HttpException('Pipeline progress failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  async getPipelineProgress(@Param('pipelineId') pipelineId: string, @Req() req: any) {
+    const organizationId = this.extractOrganizationId(req);
+    const progress = await this.pipelineMonitoring.getPipelineProgress(pipelineId, organizationId);
+    if (!progress) {
+      throw new HttpException('Pipeline not found', HttpStatus.NOT_FOUND);
     }
+    return {
+      success: true,
+      progress,
+      insights: {
+        stageProgress: progress.progress,
+        estimatedTimeRemaining: progress.estimatedTimeRemaining,
+        currentStage: progress.stages.find(s => s.status === 'running')?.name || progress.stages[progress.currentStage]?.name || 'Unknown'
+      }
+    };
   }
 
   @Get('pipeline/:pipelineId/metrics')
   @Roles('editor', 'admin')
-  async getPipelineMetrics(@Param('pipelineId') pipelineId: string) {
-    try {
-      const metrics = await this.pipelineMonitoring.getPipelineMetrics(pipelineId);
-      return {
-        success: true,
-        metrics,
-        insights: {
-          success: metrics.success,
-          totalDuration: metrics.totalDuration,
-          stageCount: metrics.stageMetrics.length,
-          failedStages: metrics.stageMetrics.filter(s => !s.success).length
-        }
-      };
-    } catch (error) {
-      console.error('Pipeline metrics error:', error);
-      throw new HttpException('Pipeline metrics failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  async getPipelineMetrics(@Param('pipelineId') pipelineId: string, @Req() req: any) {
+    const organizationId = this.extractOrganizationId(req);
+    const metrics = await this.pipelineMonitoring.getPipelineMetrics(pipelineId, organizationId);
+    if (!metrics) {
+      throw new HttpException('Pipeline not found', HttpStatus.NOT_FOUND);
     }
+    return {
+      success: true,
+      metrics,
+      insights: {
+        success: metrics.success,
+        totalDuration: metrics.totalDuration,
+        stageCount: metrics.stageMetrics.length,
+        failedStages: metrics.stageMetrics.filter(s => !s.success).length
+      }
+    };
+  }
+
+  /**
+   * Server-Sent Events for every pipeline of the organization: a snapshot of the active pipelines, then
+   * pipeline and stage transitions as they happen
+   */
+  @Sse('pipeline/events')
+  @Roles('editor', 'admin', 'viewer')
+  streamPipelineEvents(@Req() req: any): Observable<MessageEvent> {
+    return this.pipelineMonitoring.streamEvents(this.extractOrganizationId(req));
+  }
+
+  /**
+   * Server-Sent Events for one pipeline; the stream ends when the pipeline completes, fails or is cancelled
+   */
+  @Sse('pipeline/:pipelineId/events')
+  @Roles('editor', 'admin', 'viewer')
+  streamPipelineEventsFor(@Param('pipelineId') pipelineId: string, @Req() req: any): Observable<MessageEvent> {
+    return this.pipelineMonitoring.streamEvents(this.extractOrganizationId(req), pipelineId);
   }
 
   @Get('pipeline/analytics')
   @Roles('admin')
   async getPipelineAnalytics(
-    @Query('organizationId') organizationId: string,
     @Query('startDate') startDate: string,
-    @Query('endDate') endDate: string
+    @Query('endDate') endDate: string,
+    @Req() req: any
   ) {
+    const organizationId = this.extractOrganizationId(req);
     try {
       const analytics = await this.pipelineMonitoring.getPipelineAnalytics(organizationId, {
         start: startDate,
@@ -1461,40 +1809,61 @@ export class ContentController {
   @Roles('admin')
   async cancelPipeline(
     @Param('pipelineId') pipelineId: string,
-    @Body() body: { reason?: string }
+    @Body() body: { reason?: string },
+    @Req() req: any
   ) {
+    const organizationId = this.extractOrganizationId(req);
+    let progress;
     try {
-      await this.pipelineMonitoring.cancelPipeline(pipelineId, body.reason);
-      return {
-        success: true,
-        message: 'Pipeline cancelled successfully'
-      };
+      progress = await this.pipelineMonitoring.cancelPipeline(pipelineId, organizationId, body.reason);
     } catch (error) {
-      console.error('Pipeline cancellation error:', error);
-      throw new HttpException('Pipeline cancellation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+      if (error instanceof PipelineStateError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      throw error;
+    }
+    if (!progress) {
+      throw new HttpException('Pipeline not found', HttpStatus.NOT_FOUND);
     }
+    return {
+      success: true,
+      progress,
+      message: 'Pipeline cancelled successfully'
+    };
   }
 
   @Post('schedules/:id/reschedule')
   @Roles('editor', 'admin')
   async rescheduleContent(
     @Param('id') scheduleId: string,
-    @Body() body: { scheduledAt: string; reason?: string },
+    @Body() body: { scheduledAt: string; reason?: string; autoShift?: boolean },
     @Req() req: any
   ) {
     const orgId = this.extractOrganizationId(req);
-    
+    const scheduledAt = new Date(body.scheduledAt);
+    if (!body.scheduledAt || isNaN(scheduledAt.getTime())) {
+      throw new HttpException('scheduledAt must be a date', HttpStatus.BAD_REQUEST);
+    }
+
+    let slot;
     try {
-      const result = await this.dbService.rescheduleContent(scheduleId, body.scheduledAt, body.reason, orgId);
-      return {
-        success: true,
-        message: 'Content rescheduled successfully',
-        scheduleId,
-        newScheduledAt: body.scheduledAt
-      };
+      slot = await this.smartScheduling.reschedule(orgId, scheduleId, scheduledAt, body.autoShift === true, body.reason);
     } catch (error) {
+      if (error instanceof CadenceViolationError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
       throw new HttpException('Failed to reschedule content', HttpStatus.INTERNAL_SERVER_ERROR);
     }
+    if (!slot) {
+      throw new HttpException('Schedule not found', HttpStatus.NOT_FOUND);
+    }
+    return {
+      success: true,
+      message: 'Content rescheduled successfully',
+      scheduleId,
+      newScheduledAt: slot.scheduledAt,
+      slot
+    };
   }
 
   @Post('schedules/:id/cancel')
@@ -1560,66 +1929,6 @@ export class ContentController {
     }
   }
 
-  @Get('search')
-  @Roles('editor', 'admin', 'viewer')
-  async searchContent(
-    @Query('q') query: string,
-    @Query('filters') filters?: string,
-    @Query('page') page = '1',
-    @Query('limit') limit = '20',
-    @Req() req: any
-  ) {
-    const orgId = this.extractOrganizationId(req);
-    
-    if (!query || query.trim().length === 0) {
-      throw new HttpException('Search query is required', HttpStatus.BAD_REQUEST);
-    }
-
-    try {
-      const parsedFilters = filters ? JSON.parse(filters) : {};
-      const results = await this.dbService.searchContentItems(
-        orgId,
-        query.trim(),
-        parsedFilters,
-        parseInt(page),
-        parseInt(limit)
-      );
-
-      return {
-        success: true,
-        query,
-        results,
-        pagination: {
-          page: parseInt(page),
-          limit: parseInt(limit),
-          total: results.length
-        }
-      };
-    } catch (error) {
-      throw new HttpException('Content search failed', HttpStatus.INTERNAL_SERVER_ERROR);
-    }
-  }
-
-  @Get('target-accounts')
-  @Roles('editor', 'admin', 'viewer')
-  async getTargetAccounts(
-    @Query('platform') platform?: string,
-    @Req() req: any
-  ) {
-    const orgId = this.extractOrganizationId(req);
-    
-    try {
-      const accounts = await this.dbService.getTargetAccounts(orgId, platform);
-      return {
-        success: true,
-        accounts,
-        platform: platform || 'all'
-      };
-    } catch (error) {
-      throw new HttpException('Failed to get target accounts', HttpStatus.INTERNAL_SERVER_ERROR);
-    }
-  }
-
   @Post('target-accounts')
   @Roles('admin')
   async createTargetAccount(
@@ -1704,7 +2013,60 @@ export class ContentController {
         targetAccount: result
       };
     } catch (error) {
+      if (error instanceof Error && /not found|inactive|access denied/.test(error.message)) {
+        throw new HttpException(error.message, HttpStatus.NOT_FOUND);
+      }
       throw new HttpException('Failed to update schedule target account', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  /**
+   * Fit the requests to the posting cadence and create a schedule for each allowed slot, holding the
+   * organization's cadence lock so concurrent requests cannot overbook it.
+   */
+  private async scheduleWithinCadence(
+    organizationId: string,
+    requests: CadenceRequest[],
+    autoShift: boolean,
+    createSchedule: (index: number, slotAt: string) => Promise<string>
+  ) {
+    try {
+      return await this.cadencePolicies.enforceAndCreate(organizationId, requests, autoShift, async slots => {
+        const scheduleIds: string[] = [];
+        for (const [index, slot] of slots.entries()) {
+          scheduleIds.push(await createSchedule(index, slot.scheduledAt as string));
+        }
+        return { slots, scheduleIds };
+      });
+    } catch (error) {
+      if (error instanceof CadenceViolationError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the accounts a schedule request targets. No ids means a single schedule without a target,
+   * which publishes to the platform's only connected account.
+   */
+  private async loadScheduleTargets(organizationId: string, platform: string, targetAccountIds: string[]) {
+    if (!Array.isArray(targetAccountIds) || targetAccountIds.length === 0) return [null];
+
+    const targets = [];
+    for (const id of Array.from(new Set(targetAccountIds))) {
+      const account = await this.dbService.getTargetAccount(id, organizationId);
+      if (!account) {
+        throw new HttpException(`Target account not found: ${id}`, HttpStatus.NOT_FOUND);
+      }
+      if (!account.is_active) {
+        throw new HttpException(`Target account "${account.account_name}" is disconnected`, HttpStatus.BAD_REQUEST);
+      }
+      if (account.platform !== platform) {
+        throw new HttpException(`Target account "${account.account_name}" is a ${account.platform} account, not ${platform}`, HttpStatus.BAD_REQUEST);
+      }
+      targets.push(account);
+    }
+    return targets;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { CrmConnectionInput, CrmSyncInProgressError, CrmSyncService, CrmSyncType, CrmValidationError } from './services/crm-sync.service';
+import { DEFAULT_FIELD_MAPPINGS } from './platforms/crm/crm-field-mapping';
+
+const SYNC_TYPES: CrmSyncType[] = ['import', 'export', 'sync'];
+
+@UseGuards(GatewayAuthGuard, RolesGuard)
+@Controller('crm')
+export class CrmController {
+  constructor(private readonly crmSyncService: CrmSyncService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof CrmValidationError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    if (error instanceof CrmSyncInProgressError) return new HttpException(error.message, HttpStatus.CONFLICT);
+    return new HttpException((error instanceof Error && error.message) || 'CRM operation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  @Get('connections')
+  @Roles('editor', 'admin', 'viewer')
+  async getConnections(@Req() req: GatewayRequest) {
+    const connections = await this.crmSyncService.listConnections(this.extractOrganizationId(req));
+    return { connections };
+  }
+
+  @Get('field-mappings/defaults')
+  @Roles('editor', 'admin', 'viewer')
+  getDefaultFieldMappings() {
+    return { fieldMappings: DEFAULT_FIELD_MAPPINGS };
+  }
+
+  @Get('connections/:id')
+  @Roles('editor', 'admin', 'viewer')
+  async getConnection(@Param('id') connectionId: string, @Req() req: GatewayRequest) {
+    const connection = await this.crmSyncService.getConnection(this.extractOrganizationId(req), connectionId);
+    if (!connection) {
+      throw new HttpException('CRM connection not found', HttpStatus.NOT_FOUND);
+    }
+    return { connection };
+  }
+
+  @Post('connections')
+  @Roles('admin')
+  async createConnection(@Body() body: CrmConnectionInput, @Req() req: GatewayRequest) {
+    try {
+      const connection = await this.crmSyncService.createConnection(this.extractOrganizationId(req), body || {});
+      return { message: 'CRM connection created successfully', connection };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Put('connections/:id')
+  @Roles('admin')
+  async updateConnection(@Param('id') connectionId: string, @Body() body: CrmConnectionInput, @Req() req: GatewayRequest) {
+    try {
+      const connection = await this.crmSyncService.updateConnection(this.extractOrganizationId(req), connectionId, body || {});
+      if (!connection) {
+        throw new HttpException('CRM connection not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'CRM connection updated successfully', connection };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Delete('connections/:id')
+  @Roles('admin')
+  async deleteConnection(@Param('id') connectionId: string, @Req() req: GatewayRequest) {
+    const deleted = await this.crmSyncService.deleteConnection(this.extractOrganizationId(req), connectionId);
+    if (!deleted) {
+      throw new HttpException('CRM connection not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'CRM connection deleted successfully', connectionId };
+  }
+
+  @Post('connections/:id/test')
+  @Roles('editor', 'admin')
+  async testConnection(@Param('id') connectionId: string, @Req() req: GatewayRequest) {
+    const result = await this.crmSyncService.testConnection(this.extractOrganizationId(req), connectionId);
+    if (!result) {
+      throw new HttpException('CRM connection not found', HttpStatus.NOT_FOUND);
+    }
+    return result;
+  }
+
+  /**
+   * Run a sync now. type is 'export' (push leads), 'import' (pull owner, stage and other imported fields) or 'sync' (both).
+   */
+  @Post('connections/:id/sync')
+  @Roles('editor', 'admin')
+  async syncConnection(@Param('id') connectionId: string, @Body() body: { type?: string }, @Req() req: GatewayRequest) {
+    const type = (body?.type || 'sync') as CrmSyncType;
+    if (!SYNC_TYPES.includes(type)) {
+      throw new HttpException(`type must be one of ${SYNC_TYPES.join(', ')}`, HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const log = await this.crmSyncService.sync(this.extractOrganizationId(req), connectionId, type);
+      if (!log) {
+        throw new HttpException('CRM connection not found', HttpStatus.NOT_FOUND);
+      }
+      return { log };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Get('sync-logs')
+  @Roles('editor', 'admin', 'viewer')
+  async getSyncLogs(@Req() req: GatewayRequest, @Query('connectionId') connectionId?: string, @Query('limit') limit = '50') {
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit) || 50));
+    const logs = await this.crmSyncService.getSyncLogs(this.extractOrganizationId(req), connectionId, limitNum);
+    return { logs };
+  }
+}
@@ -1,12 +1,573 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { loadEnv } from '../../../packages/config/env';
+import { CrmFieldMapping } from './platforms/crm/crm-field-mapping';
+import { AutoReplyConditions } from './services/auto-reply-rules';
+import { ContentSearchFilters } from './services/content-search-query';
+import type { BlackoutWindow, QuietHours } from './services/cadence-policy.service';
+import type { LlmSettings } from './services/llm-routing';
+import type { LeadScoreBreakdown } from './services/lead-scoring';
+import type { PipelineProgress, PipelineStage } from './services/pipeline-monitoring.service';
 
 const env = loadEnv();
 
+/**
+ * A content item (or something derived from it: versions, tags, schedules) was written
+ */
+export interface ContentChange {
+  contentItemId: string;
+  deleted: boolean;
+}
+
+export interface WebhookEventRow {
+  id: string;
+  organization_id: string;
+  platform: string;
+  event_type: string;
+  // JSON body as received; older rows hold it as a JSON-encoded string
+  payload: unknown;
+  headers: Record<string, string>;
+  signature: string | null;
+  computed_idempotency_key: string;
+  status: string;
+  attempts: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduleRow {
+  id: string;
+  content_item_id: string;
+  platform: string;
+  target_account_id: string | null;
+  scheduled_at: Date;
+  status: string;
+}
+
+// A published post claimed for an insights sync
+export interface ScheduleInsightsRow {
+  id: string;
+  platform: string;
+  provider_id: string;
+  scheduled_at: Date;
+  insights_failures: number;
+  organization_id: string;
+  target_external_id: string | null;
+}
+
+// A target account claimed for an insights sync; platform is upper-cased
+export interface TargetAccountInsightsRow {
+  id: string;
+  organization_id: string;
+  platform: string;
+  account_id: string;
+  account_metadata: Record<string, unknown> | null;
+  insights_backfilled_at: Date | null;
+  insights_failures: number;
+}
+
+// A content item with its current version, tags and scheduled platforms, as content search indexes it
+export interface ContentSearchDocumentRow {
+  id: string;
+  organization_id: string;
+  type: string;
+  status: string;
+  title: string;
+  author_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  version_id: string | null;
+  version_title: string | null;
+  summary: string | null;
+  body: string | null;
+  tags: Array<string | null>;
+  platforms: Array<string | null>;
+}
+
+// A content item found by the Postgres search fallback, with its current version and the total match count
+export interface ContentSearchMatchRow {
+  id: string;
+  organization_id: string;
+  type: string;
+  status: string;
+  title: string;
+  created_at: Date;
+  updated_at: Date;
+  version_title: string | null;
+  version_body: string | null;
+  summary: string | null;
+  // bigint window count; node-postgres returns it as a string
+  total_count: string;
+}
+
+export interface LeadRow {
+  id: string;
+  organization_id: string;
+  source: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  title: string | null;
+  status: string;
+  score: number;
+  score_breakdown: Record<string, unknown> | null;
+  score_updated_at: Date | null;
+  tags: string[];
+  notes: string | null;
+  priority: string;
+  assigned_to: string | null;
+  // numeric column; node-postgres returns it as a string
+  estimated_value: string | null;
+  last_contact_at: Date | null;
+  next_follow_up_at: Date | null;
+  custom_fields: Record<string, unknown>;
+  external_ref: string | null;
+  metadata: Record<string, unknown>;
+  merged_into_id: string | null;
+  merged_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ConversationRow {
+  id: string;
+  organization_id: string | null;
+  lead_id: string;
+  platform: string;
+  kind: string;
+  external_id: string;
+  account_external_id: string | null;
+  status: string;
+  assigned_to: string | null;
+  assigned_at: Date | null;
+  last_read_at: Date | null;
+  last_message_at: Date | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A lead's conversation with its message count and latest message body
+export interface LeadConversationRow extends ConversationRow {
+  message_count: number;
+  last_message: string | null;
+}
+
+// A conversation with its lead, unread inbound count and latest message, as the inbox lists it
+export interface InboxConversationRow {
+  id: string;
+  platform: string;
+  kind: string;
+  external_id: string;
+  account_external_id: string | null;
+  status: string;
+  assigned_to: string | null;
+  assigned_at: Date | null;
+  last_read_at: Date | null;
+  last_message_at: Date | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  lead_id: string;
+  lead_name: string | null;
+  lead_email: string | null;
+  lead_score: number;
+  lead_status: string;
+  lead_tags: string[];
+  lead_external_ref: string | null;
+  unread_count: number | null;
+  last_message_id: string | null;
+  last_message_body: string | null;
+  last_message_direction: string | null;
+  last_message_author: string | null;
+  last_message_sent_at: Date | null;
+  // bigint window count; node-postgres returns it as a string
+  total_count: string;
+}
+
+export interface MessageRow {
+  id: string;
+  conversation_id: string;
+  direction: string;
+  body: string;
+  sent_at: Date;
+  external_id: string | null;
+  author_external_id: string | null;
+  author_name: string | null;
+  metadata: Record<string, unknown>;
+  sent_by: string | null;
+  // pending, sent or failed for outbound replies; null for inbound messages
+  delivery_status: string | null;
+  delivery_error: string | null;
+}
+
+export interface AutopostSettingsRow {
+  organization_id: string;
+  autopost_enabled: boolean;
+  dry_run: boolean;
+  updated_at: Date;
+}
+
+export interface AutoReplyRuleRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  description: string | null;
+  // null matches every platform
+  platform: string | null;
+  kinds: string[];
+  conditions: AutoReplyConditions;
+  response_template: string;
+  priority: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AutoReplySettingsRow {
+  organization_id: string;
+  enabled: boolean;
+  // Postgres time columns come back as HH:MM:SS
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  max_replies_per_conversation: number;
+  rate_window_minutes: number;
+  updated_at: Date;
+}
+
+// An auto_reply_log entry with the name of its rule, null once the rule is deleted
+export interface AutoReplyLogRow {
+  id: string;
+  organization_id: string;
+  rule_id: string | null;
+  rule_name: string | null;
+  conversation_id: string;
+  message_id: string;
+  reply_message_id: string | null;
+  status: string;
+  reason: string | null;
+  reply_body: string | null;
+  created_at: Date;
+}
+
+// Token ciphertexts with the organization and platform of their account, null when the account row is gone
+export interface TokenCiphertextRow {
+  id: string;
+  social_account_id: string;
+  access_token_enc: string;
+  refresh_token_enc: string | null;
+  organization_id: string | null;
+  platform: string | null;
+}
+
+export interface SecretCiphertextRow {
+  id: string;
+  organization_id: string | null;
+  ciphertext: string;
+}
+
+export interface TokenAuditRow {
+  id: string;
+  organization_id: string;
+  provider: string;
+  social_account_id: string;
+  event: string;
+  success: boolean;
+  reason: string | null;
+  expires_at: Date | null;
+  scopes: string | null;
+  correlation_id: string | null;
+  created_at: Date;
+}
+
+export interface CadencePolicyRow {
+  id: string;
+  organization_id: string;
+  target_account_id: string | null;
+  timezone: string;
+  max_per_day: number | null;
+  max_per_week: number | null;
+  min_gap_minutes: number | null;
+  quiet_hours: QuietHours[];
+  blackouts: BlackoutWindow[];
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A schedule counted against cadence limits
+export interface CadenceScheduleRow {
+  id: string;
+  platform: string;
+  target_account_id: string | null;
+  scheduled_at: Date;
+}
+
+// Routes as stored; LlmService validates them against the configured providers before use
+export interface LlmSettingsRow {
+  organization_id: string;
+  route: unknown;
+  features: unknown;
+  updated_at: Date;
+}
+
+// Token counts are bigint sums and cost a numeric, so pg returns them as strings
+export interface LlmUsageSummaryRow {
+  feature: string;
+  provider: string;
+  model: string;
+  calls: number;
+  fallback_calls: number;
+  prompt_tokens: string;
+  completion_tokens: string;
+  total_tokens: string;
+  cost_usd: string;
+}
+
+export interface PromptPartialRow {
+  id: string;
+  name: string;
+  template: string;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DuplicateLeadGroupRow {
+  match_on: 'email' | 'phone';
+  match_value: string;
+  lead_ids: string[];
+}
+
+export interface LeadScoringModelRow {
+  organization_id: string;
+  // Overrides of the default model, validated by mergeScoringConfig when read
+  config: Record<string, unknown>;
+  updated_at: Date;
+}
+
+export interface LeadScoringSignals {
+  lead: Pick<LeadRow, 'id' | 'source' | 'merged_into_id'>;
+  messages: Array<Pick<MessageRow, 'body' | 'sent_at'>>;
+}
+
+// A calendar feed as listed; the token hash is never read back
+export interface CalendarFeedRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  created_by: string | null;
+  created_at: Date;
+  last_accessed_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export interface CalendarFeedScheduleRow {
+  id: string;
+  content_item_id: string;
+  platform: string;
+  scheduled_at: Date;
+  status: string;
+  target_account_id: string | null;
+  target_account_name: string | null;
+  error_message: string | null;
+  created_at: Date;
+  updated_at: Date;
+  title: string;
+  type: string;
+  content_status: string;
+}
+
+export interface PipelineProgressRow {
+  id: number;
+  pipeline_id: string;
+  organization_id: string | null;
+  status: PipelineProgress['status'];
+  current_stage: number;
+  total_stages: number;
+  progress: number;
+  stages: PipelineStage[];
+  started_at: Date | null;
+  completed_at: Date | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CrmConnectionRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  provider: 'hubspot';
+  api_url: string | null;
+  credentials_enc: string;
+  status: 'connected' | 'disconnected' | 'error' | 'syncing';
+  sync_frequency: string;
+  field_mappings: CrmFieldMapping[];
+  push_cursor: Date | null;
+  pull_cursor: Date | null;
+  last_sync_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CrmConnectionUpdates {
+  name?: string;
+  apiUrl?: string | null;
+  credentialsEnc?: string;
+  status?: CrmConnectionRow['status'];
+  syncFrequency?: string;
+  fieldMappings?: CrmFieldMapping[];
+  lastError?: string | null;
+}
+
+// A lead with the time it last changed and its link to the connection's CRM record
+export interface CrmPushCandidateRow extends LeadRow {
+  changed_at: Date;
+  crm_external_id: string | null;
+  crm_pushed_hash: string | null;
+}
+
+export interface CrmSyncLogRow {
+  id: string;
+  connection_id: string;
+  organization_id: string;
+  type: 'import' | 'export' | 'sync';
+  status: 'running' | 'success' | 'partial' | 'error';
+  records_processed: number;
+  records_succeeded: number;
+  records_failed: number;
+  errors: Array<{ direction: 'export' | 'import'; leadId?: string; externalId?: string; error: string }>;
+  error_message: string | null;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+export interface SubscriberListRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  description: string | null;
+  from_name: string | null;
+  from_email: string | null;
+  double_opt_in: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SubscriberRow {
+  id: string;
+  list_id: string;
+  organization_id: string;
+  email: string;
+  name: string | null;
+  status: 'pending' | 'subscribed' | 'unsubscribed' | 'bounced';
+  confirm_token: string | null;
+  unsubscribe_token: string;
+  confirmed_at: Date | null;
+  unsubscribed_at: Date | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewsletterDeliveryRow {
+  id: string;
+  schedule_id: string;
+  content_item_id: string;
+  list_id: string;
+  subscriber_id: string;
+  email: string;
+  status: 'queued' | 'sent' | 'failed';
+  provider_message_id: string | null;
+  error: string | null;
+  attempts: number;
+  sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MediaAssetRow {
+  id: string;
+  organization_id: string;
+  storage_driver: string;
+  storage_key: string;
+  content_hash: string;
+  file_name: string;
+  mime_type: string;
+  // bigint column; node-postgres returns it as a string
+  file_size: string;
+  category: string;
+  tags: string[];
+  description: string | null;
+  metadata: Record<string, unknown>;
+  uploaded_by: string | null;
+  source_asset_id: string | null;
+  download_count: number;
+  last_accessed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface StorageQuotaRow {
+  organization_id: string;
+  // bigint columns, returned as strings
+  max_storage: string;
+  max_files: number;
+  max_file_size: string;
+  allowed_types: string[];
+  auto_cleanup: boolean;
+  cleanup_days: number;
+  updated_at: Date;
+}
+
+export interface StorageUsageRow {
+  category: string;
+  used: string;
+  files_count: number;
+}
+
+export interface MediaJobRow {
+  id: string;
+  organization_id: string;
+  batch_id: string | null;
+  type: 'optimization' | 'conversion';
+  source_asset_id: string | null;
+  preset_id: string | null;
+  // Resolved settings the job runs with
+  settings: Record<string, unknown>;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  output_asset_id: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  attempts: number;
+  created_by: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  updated_at: Date;
+}
+
+export interface MediaPresetRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  description: string | null;
+  type: 'optimization' | 'conversion';
+  category: 'web' | 'mobile' | 'print' | 'social' | 'custom';
+  settings: Record<string, unknown>;
+  created_by: string | null;
+  created_at: Date;
+}
+
 @Injectable()
 export class DbService implements OnModuleInit, OnModuleDestroy {
   private pool!: Pool;
+  private contentChangeListeners: Array<(change: ContentChange) => void> = [];
 
   async onModuleInit() {
     this.pool = new Pool({
@@ -32,6 +593,23 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     await this.pool.end();
   }
 
+  /**
+   * Subscribe to content writes made through this service (used to keep the search index in sync)
+   */
+  onContentChanged(listener: (change: ContentChange) => void): void {
+    this.contentChangeListeners.push(listener);
+  }
+
+  private notifyContentChanged(contentItemId: string, deleted: boolean = false) {
+    for (const listener of this.contentChangeListeners) {
+      try {
+        listener({ contentItemId, deleted });
+      } catch (error) {
+        console.error('Content change listener failed:', error);
+      }
+    }
+  }
+
   async query(text: string, params?: any[]) {
     this.ensurePool();
     const client = await this.pool.connect();
@@ -78,20 +656,21 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async getLatestTokenForPlatform(organizationId: string, platform: string) {
+  async getLatestTokenForPlatform(organizationId: string, platform: string, socialAccountId?: string) {
     this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
         SELECT t.id, t.access_token_enc, t.refresh_token_enc, t.expires_at, t.scopes, t.created_at,
-               sa.platform, sa.external_id, sa.display_name
+               t.social_account_id, sa.platform, sa.external_id, sa.display_name
         FROM tokens t
         JOIN social_accounts sa ON t.social_account_id = sa.id
-        WHERE sa.platform = $1::platform AND sa.organization_id = $2
+        WHERE sa.organization_id = $2
+          AND (CASE WHEN $3::text IS NULL THEN sa.platform = $1::platform ELSE sa.id = $3 END)
         ORDER BY t.created_at DESC
         LIMIT 1;
       `;
-      const { rows } = await client.query(sql, [platform, organizationId]);
+      const { rows } = await client.query(sql, [platform, organizationId, socialAccountId || null]);
       return rows[0] || null;
     } finally {
       client.release();
@@ -165,14 +744,18 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     platform: string,
     scheduledAt: Date,
     mediaUrls: string[] = [],
-    adaptedContent?: any
+    adaptedContent?: any,
+    targetAccount?: { id: string; account_name: string; account_type: string; account_metadata?: any }
   ) {
     const client = await this.pool.connect();
     try {
       const id = `sch_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
       const sql = `
-        INSERT INTO schedules (id, content_item_id, platform, scheduled_at, status, media_urls, adapted_content, created_at, updated_at)
-        VALUES ($1, $2, $3::platform, $4, 'pending', $5, $6, now(), now())
+        INSERT INTO schedules (
+          id, content_item_id, platform, scheduled_at, status, media_urls, adapted_content,
+          target_account_id, target_account_name, target_account_type, target_account_metadata, created_at, updated_at
+        )
+        VALUES ($1, $2, $3::platform, $4, 'pending', $5, $6, $7, $8, $9, COALESCE($10::jsonb, '{}'::jsonb), now(), now())
         RETURNING id;
       `;
       const { rows } = await client.query(sql, [
@@ -181,8 +764,13 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         platform,
         scheduledAt,
         mediaUrls,
-        adaptedContent ? JSON.stringify(adaptedContent) : null
+        adaptedContent ? JSON.stringify(adaptedContent) : null,
+        targetAccount?.id || null,
+        targetAccount?.account_name || null,
+        targetAccount?.account_type || null,
+        targetAccount ? JSON.stringify(targetAccount.account_metadata || {}) : null,
       ]);
+      this.notifyContentChanged(contentItemId);
       return rows[0].id as string;
     } finally {
       client.release();
@@ -304,11 +892,11 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async markWebhookEventProcessed(idemKey: string) {
+  async markWebhookEventProcessed(idemKey: string, organizationId?: string) {
     const client = await this.pool.connect();
     try {
-      const sql = `UPDATE webhook_events SET status = 'processed', updated_at = now() WHERE computed_idempotency_key = $1`;
-      await client.query(sql, [idemKey]);
+      const sql = `UPDATE webhook_events SET status = 'processed', organization_id = COALESCE($2, organization_id), updated_at = now() WHERE computed_idempotency_key = $1`;
+      await client.query(sql, [idemKey, organizationId || null]);
     } finally {
       client.release();
     }
@@ -355,6 +943,142 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async getWebhookEventByIdemKey(idemKey: string): Promise<WebhookEventRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<WebhookEventRow>(`SELECT * FROM webhook_events WHERE computed_idempotency_key = $1`, [idemKey]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async markWebhookEventAttempt(id: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE webhook_events
+        SET attempts = COALESCE(attempts, 0) + 1, status = 'processing', updated_at = now()
+        WHERE id = $1
+        RETURNING attempts;
+      `;
+      const { rows } = await client.query<{ attempts: number }>(sql, [id]);
+      return rows[0]?.attempts;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findOrganizationBySocialAccount(platforms: string[], externalId: string): Promise<string | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT organization_id FROM social_accounts
+        WHERE platform = ANY($1::platform[]) AND external_id = $2
+        ORDER BY updated_at DESC
+        LIMIT 1;
+      `;
+      const { rows } = await client.query<{ organization_id: string }>(sql, [platforms, externalId]);
+      return rows[0]?.organization_id || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store an inbound comment/message/review as lead + conversation + message in one transaction.
+   * Re-delivered events are no-ops: the message is keyed by its platform id within the conversation.
+   */
+  async recordInboundInteraction(organizationId: string, interaction: {
+    platform: string;
+    kind: string;
+    accountExternalId: string;
+    threadExternalId: string;
+    messageExternalId: string;
+    author: { externalId: string; name?: string };
+    body: string;
+    occurredAt: Date;
+    metadata: Record<string, unknown>;
+  }): Promise<{ leadId: string; conversationId: string; messageId: string | null; created: boolean }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const leadSql = `
+        INSERT INTO leads (id, organization_id, source, name, external_ref, status, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, 'new', now(), now())
+        ON CONFLICT (organization_id, source, external_ref) WHERE external_ref IS NOT NULL
+        DO UPDATE SET name = COALESCE(leads.name, EXCLUDED.name), updated_at = now()
+        RETURNING COALESCE(merged_into_id, id) AS id;
+      `;
+      const leadId = `lead_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows: leadRows } = await client.query<{ id: string }>(leadSql, [
+        leadId,
+        organizationId,
+        interaction.platform,
+        interaction.author.name || null,
+        interaction.author.externalId,
+      ]);
+
+      const conversationSql = `
+        INSERT INTO conversations (id, lead_id, organization_id, platform, external_id, kind, account_external_id, metadata, last_message_at, created_at, updated_at)
+        VALUES ($1, $2, $3, $4::platform, $5, $6, $7, $8, $9, now(), now())
+        ON CONFLICT (organization_id, platform, external_id)
+        DO UPDATE SET last_message_at = GREATEST(conversations.last_message_at, EXCLUDED.last_message_at),
+                      status = CASE WHEN conversations.status = 'archived' THEN 'active' ELSE conversations.status END,
+                      updated_at = now()
+        RETURNING id;
+      `;
+      const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows: conversationRows } = await client.query<{ id: string }>(conversationSql, [
+        conversationId,
+        leadRows[0].id,
+        organizationId,
+        interaction.platform,
+        interaction.threadExternalId,
+        interaction.kind,
+        interaction.accountExternalId,
+        JSON.stringify(interaction.metadata || {}),
+        interaction.occurredAt,
+      ]);
+
+      const messageSql = `
+        INSERT INTO messages (id, conversation_id, direction, body, sent_at, external_id, author_external_id, author_name, metadata)
+        VALUES ($1, $2, 'inbound', $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (conversation_id, external_id) WHERE external_id IS NOT NULL DO NOTHING
+        RETURNING id;
+      `;
+      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows: messageRows } = await client.query<{ id: string }>(messageSql, [
+        messageId,
+        conversationRows[0].id,
+        interaction.body,
+        interaction.occurredAt,
+        interaction.messageExternalId,
+        interaction.author.externalId,
+        interaction.author.name || null,
+        JSON.stringify(interaction.metadata || {}),
+      ]);
+
+      await client.query('COMMIT');
+      return {
+        leadId: leadRows[0].id,
+        conversationId: conversationRows[0].id,
+        messageId: messageRows[0]?.id || null,
+        created: messageRows.length > 0,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   // Content Repository Methods
   async createContentItem(
     organizationId: string, 
@@ -380,6 +1104,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         throw new Error('Failed to create content item');
       }
       
+      this.notifyContentChanged(rows[0].id);
       return rows[0].id as string;
     } catch (error) {
       console.error('Error creating content item:', error);
@@ -452,6 +1177,8 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     status?: string; 
     adaptedPreviews?: any;
     currentVersionId?: string;
+    optimizationResults?: any;
+    abTestPlan?: any;
   }) {
     const client = await this.pool.connect();
     try {
@@ -475,12 +1202,21 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         fields.push(`current_version_id = $${paramCount++}`);
         values.push(updates.currentVersionId);
       }
+      if (updates.optimizationResults !== undefined) {
+        fields.push(`optimization_results = $${paramCount++}`);
+        values.push(JSON.stringify(updates.optimizationResults));
+      }
+      if (updates.abTestPlan !== undefined) {
+        fields.push(`ab_test_plan = $${paramCount++}`);
+        values.push(JSON.stringify(updates.abTestPlan));
+      }
 
       fields.push(`updated_at = now()`);
       values.push(id);
 
       const sql = `UPDATE content_items SET ${fields.join(', ')} WHERE id = $${paramCount}`;
       await client.query(sql, values);
+      this.notifyContentChanged(id);
       return true;
     } finally {
       client.release();
@@ -492,6 +1228,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     try {
       const sql = `DELETE FROM content_items WHERE id = $1`;
       await client.query(sql, [id]);
+      this.notifyContentChanged(id, true);
     } finally {
       client.release();
     }
@@ -537,6 +1274,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         throw new Error('Failed to create content version');
       }
       
+      this.notifyContentChanged(contentItemId);
       return rows[0].id as string;
     } catch (error) {
       console.error('Error creating content version:', error);
@@ -605,6 +1343,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     try {
       const sql = `UPDATE content_items SET current_version_id = $2, updated_at = now() WHERE id = $1`;
       const result = await client.query(sql, [contentItemId, versionId]);
+      this.notifyContentChanged(contentItemId);
       return (result?.rowCount ?? 0) > 0;
     } finally {
       client.release();
@@ -631,6 +1370,14 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         notes || null, 
         adaptedPreviews ? JSON.stringify(adaptedPreviews) : null
       ]);
+      if (rows.length > 0) {
+        // Schedules imported from a calendar wait as drafts until their content is approved
+        await client.query(
+          `UPDATE schedules SET status = 'pending', updated_at = now() WHERE content_item_id = $1 AND status = 'draft'`,
+          [contentItemId],
+        );
+        this.notifyContentChanged(contentItemId);
+      }
       return rows.length > 0;
     } finally {
       client.release();
@@ -690,6 +1437,13 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       // Delete tokens
       await client.query('DELETE FROM tokens WHERE social_account_id = $1', [socialAccountId]);
 
+      // Schedules aimed at this account now fail with a clear error instead of posting elsewhere
+      await client.query(
+        `UPDATE target_accounts SET is_active = false, updated_at = NOW()
+         WHERE organization_id = $1 AND platform = $2 AND account_id = $3`,
+        [organizationId, platform, externalId],
+      );
+
       // Delete social account
       await client.query('DELETE FROM social_accounts WHERE id = $1', [socialAccountId]);
 
@@ -911,6 +1665,59 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // Prompt Partials
+  async listPromptPartials(): Promise<PromptPartialRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<PromptPartialRow>(`SELECT * FROM prompt_partials ORDER BY name`);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPromptPartials(names: string[]): Promise<PromptPartialRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<PromptPartialRow>(`SELECT * FROM prompt_partials WHERE name = ANY($1::text[])`, [names]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertPromptPartial(partial: { name: string; template: string; description?: string | null }): Promise<PromptPartialRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `pp_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows } = await client.query<PromptPartialRow>(
+        `INSERT INTO prompt_partials (id, name, template, description)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (name) DO UPDATE SET
+           template = EXCLUDED.template, description = EXCLUDED.description, updated_at = NOW()
+         RETURNING *`,
+        [id, partial.name, partial.template, partial.description ?? null],
+      );
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async deletePromptPartial(name: string): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(`DELETE FROM prompt_partials WHERE name = $1`, [name]);
+      return (result?.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
   async getBrandRules(organizationId: string) {
     const client = await this.pool.connect();
     try {
@@ -1015,11 +1822,11 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async getAutopostSettings(organizationId: string) {
+  async getAutopostSettings(organizationId: string): Promise<AutopostSettingsRow | null> {
     const client = await this.pool.connect();
     try {
       const sql = `SELECT * FROM autopost_settings WHERE organization_id = $1`;
-      const { rows } = await client.query(sql, [organizationId]);
+      const { rows } = await client.query<AutopostSettingsRow>(sql, [organizationId]);
       return rows[0] || null;
     } finally {
       client.release();
@@ -1293,42 +2100,6 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async updateContentItem(contentItemId: string, updates: Partial<any>): Promise<void> {
-    const client = await this.pool.connect();
-    try {
-      const updateFields = Object.keys(updates).map((key, index) => 
-        `${key} = $${index + 2}`
-      ).join(', ');
-      
-      const sql = `
-        UPDATE content_items 
-        SET ${updateFields}
-        WHERE id = $1
-      `;
-      
-      const values = [contentItemId, ...Object.values(updates)];
-      await client.query(sql, values);
-    } finally {
-      client.release();
-    }
-  }
-
-  async getContentItem(contentItemId: string): Promise<any> {
-    const client = await this.pool.connect();
-    try {
-      const sql = `
-        SELECT ci.*, cv.title as version_title, cv.body as version_body, cv.summary, cv.media_urls, cv.metadata
-        FROM content_items ci
-        LEFT JOIN content_versions cv ON ci.current_version_id = cv.id
-        WHERE ci.id = $1
-      `;
-      const { rows } = await client.query(sql, [contentItemId]);
-      return rows[0] || null;
-    } finally {
-      client.release();
-    }
-  }
-
   async getContentPerformanceMetrics(contentItemId: string, days: number = 30): Promise<any[]> {
     // Mock implementation - in real system, this would query performance metrics table
     return [
@@ -1357,14 +2128,16 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     const client = await this.pool.connect();
     try {
       const sql = `
-        INSERT INTO workflow_rules (id, name, description, organization_id, conditions, actions, priority, enabled, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        INSERT INTO workflow_rules (id, name, description, organization_id, category, trigger_events, conditions, actions, priority, enabled, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       `;
       await client.query(sql, [
         rule.id,
         rule.name,
         rule.description,
         rule.organizationId,
+        rule.category || null,
+        rule.triggers || [],
         JSON.stringify(rule.conditions),
         JSON.stringify(rule.actions),
         rule.priority,
@@ -1396,33 +2169,119 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         paramIndex++;
       }
 
-      sql += ` ORDER BY priority DESC`;
+      sql += ` ORDER BY priority DESC, created_at ASC`;
       const { rows } = await client.query(sql, params);
-      return rows.map(row => ({
-        ...row,
-        conditions: JSON.parse(row.conditions || '[]'),
-        actions: JSON.parse(row.actions || '[]')
-      }));
+      return rows.map(row => this.parseWorkflowRule(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Enabled rules listening for a lifecycle event, highest priority first
+   */
+  async getWorkflowRulesForEvent(organizationId: string, eventType: string): Promise<any[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `SELECT * FROM workflow_rules
+         WHERE organization_id = $1 AND enabled = true AND $2 = ANY(trigger_events)
+         ORDER BY priority DESC, created_at ASC`,
+        [organizationId, eventType]
+      );
+      return rows.map(row => this.parseWorkflowRule(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async getWorkflowRule(id: string, organizationId: string): Promise<any> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(`SELECT * FROM workflow_rules WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return rows[0] ? this.parseWorkflowRule(rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateWorkflowRule(id: string, organizationId: string, updates: Record<string, any>): Promise<any> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const columns: Record<string, string> = {
+        name: 'name',
+        description: 'description',
+        category: 'category',
+        triggers: 'trigger_events',
+        conditions: 'conditions',
+        actions: 'actions',
+        priority: 'priority',
+        enabled: 'enabled',
+      };
+      const setClauses: string[] = [];
+      const params: any[] = [id, organizationId];
+      for (const [field, column] of Object.entries(columns)) {
+        if (updates[field] === undefined) continue;
+        params.push(column === 'conditions' || column === 'actions' ? JSON.stringify(updates[field]) : updates[field]);
+        setClauses.push(`${column} = $${params.length}`);
+      }
+      if (setClauses.length === 0) {
+        return this.getWorkflowRule(id, organizationId);
+      }
+      const { rows } = await client.query(
+        `UPDATE workflow_rules SET ${setClauses.join(', ')}, updated_at = now() WHERE id = $1 AND organization_id = $2 RETURNING *;`,
+        params
+      );
+      return rows[0] ? this.parseWorkflowRule(rows[0]) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteWorkflowRule(id: string, organizationId: string): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(`DELETE FROM workflow_rules WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return (rowCount || 0) > 0;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Insert or update an execution, so a run is recorded when it starts and again when it finishes
+   */
   async storeWorkflowExecution(execution: any): Promise<void> {
     const client = await this.pool.connect();
     try {
       const sql = `
-        INSERT INTO workflow_executions (id, content_item_id, workflow_id, status, current_step, executed_actions, pending_actions, error, started_at, completed_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        INSERT INTO workflow_executions (id, organization_id, content_item_id, workflow_id, event_type, event_data, status, current_step, executed_actions, pending_actions, steps, error, started_at, completed_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        ON CONFLICT (id) DO UPDATE SET
+          status = EXCLUDED.status,
+          current_step = EXCLUDED.current_step,
+          executed_actions = EXCLUDED.executed_actions,
+          pending_actions = EXCLUDED.pending_actions,
+          steps = EXCLUDED.steps,
+          error = EXCLUDED.error,
+          completed_at = EXCLUDED.completed_at
       `;
       await client.query(sql, [
         execution.id,
+        execution.organizationId || null,
         execution.contentItemId,
         execution.workflowId,
+        execution.eventType || null,
+        execution.eventData ? JSON.stringify(execution.eventData) : null,
         execution.status,
         execution.currentStep,
         JSON.stringify(execution.executedActions),
         JSON.stringify(execution.pendingActions),
+        JSON.stringify(execution.steps || []),
         execution.error,
         execution.startedAt,
         execution.completedAt
@@ -1437,20 +2296,69 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     try {
       const sql = `
         SELECT * FROM workflow_executions 
-        WHERE workflow_id = $1 AND started_at >= NOW() - INTERVAL '${days} days'
+        WHERE workflow_id = $1 AND started_at >= NOW() - ($2::int * INTERVAL '1 day')
         ORDER BY started_at DESC
       `;
-      const { rows } = await client.query(sql, [workflowId]);
-      return rows.map(row => ({
-        ...row,
-        executedActions: JSON.parse(row.executed_actions || '[]'),
-        pendingActions: JSON.parse(row.pending_actions || '[]')
-      }));
+      const { rows } = await client.query(sql, [workflowId, days]);
+      return rows.map(row => this.parseWorkflowExecution(row));
+    } finally {
+      client.release();
+    }
+  }
+
+  async listWorkflowExecutions(organizationId: string, filters: {
+    ruleId?: string;
+    contentItemId?: string;
+    eventType?: string;
+    status?: string;
+  } = {}, limit: number = 50): Promise<any[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      let sql = `SELECT * FROM workflow_executions WHERE organization_id = $1`;
+      const params: any[] = [organizationId];
+      const filterColumns: Record<string, string> = {
+        ruleId: 'workflow_id',
+        contentItemId: 'content_item_id',
+        eventType: 'event_type',
+        status: 'status',
+      };
+      for (const [field, column] of Object.entries(filterColumns)) {
+        const value = (filters as Record<string, any>)[field];
+        if (!value) continue;
+        params.push(value);
+        sql += ` AND ${column} = $${params.length}`;
+      }
+      params.push(limit);
+      sql += ` ORDER BY started_at DESC LIMIT $${params.length}`;
+      const { rows } = await client.query(sql, params);
+      return rows.map(row => this.parseWorkflowExecution(row));
     } finally {
       client.release();
     }
   }
 
+  private parseWorkflowRule(row: any) {
+    return {
+      ...row,
+      triggers: row.trigger_events || [],
+      conditions: typeof row.conditions === 'string' ? JSON.parse(row.conditions || '[]') : row.conditions || [],
+      actions: typeof row.actions === 'string' ? JSON.parse(row.actions || '[]') : row.actions || []
+    };
+  }
+
+  private parseWorkflowExecution(row: any) {
+    const json = (value: any) => (typeof value === 'string' ? JSON.parse(value || '[]') : value || []);
+    return {
+      ...row,
+      startedAt: row.started_at instanceof Date ? row.started_at.toISOString() : row.started_at,
+      completedAt: row.completed_at instanceof Date ? row.completed_at.toISOString() : row.completed_at,
+      executedActions: json(row.executed_actions),
+      pendingActions: json(row.pending_actions),
+      steps: json(row.steps)
+    };
+  }
+
   async createWorkflowTemplate(template: any): Promise<void> {
     const client = await this.pool.connect();
     try {
@@ -1482,7 +2390,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const row = rows[0];
       return {
         ...row,
-        rules: JSON.parse(row.rules || '[]')
+        rules: typeof row.rules === 'string' ? JSON.parse(row.rules || '[]') : row.rules || []
       };
     } finally {
       client.release();
@@ -1535,8 +2443,8 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     const client = await this.pool.connect();
     try {
       const sql = `
-        INSERT INTO notification_channels (id, type, name, organization_id, configuration, enabled, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        INSERT INTO notification_channels (id, type, name, organization_id, configuration, secret_enc, max_attempts, enabled, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       `;
       await client.query(sql, [
         channel.id,
@@ -1544,6 +2452,8 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         channel.name,
         channel.organizationId,
         JSON.stringify(channel.configuration),
+        channel.secretEnc || null,
+        channel.maxAttempts || 3,
         channel.enabled,
         channel.createdAt
       ]);
@@ -1608,8 +2518,9 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const { rows } = await client.query(sql, [organizationId, trigger]);
       return rows.map(row => ({
         ...row,
-        conditions: JSON.parse(row.conditions || '[]'),
-        channels: JSON.parse(row.channels || '[]')
+        organizationId: row.organization_id,
+        conditions: this.parseNotificationJson(row.conditions, []),
+        channels: this.parseNotificationJson(row.channels, [])
       }));
     } finally {
       client.release();
@@ -1626,7 +2537,8 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const row = rows[0];
       return {
         ...row,
-        configuration: JSON.parse(row.configuration || '{}')
+        organizationId: row.organization_id,
+        configuration: this.parseNotificationJson(row.configuration, {})
       };
     } finally {
       client.release();
@@ -1643,7 +2555,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const row = rows[0];
       return {
         ...row,
-        variables: JSON.parse(row.variables || '[]')
+        variables: this.parseNotificationJson(row.variables, [])
       };
     } finally {
       client.release();
@@ -1677,9 +2589,9 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const row = rows[0];
       return {
         ...row,
-        channels: JSON.parse(row.channels || '{}'),
-        types: JSON.parse(row.types || '{}'),
-        quietHours: JSON.parse(row.quiet_hours || '{}')
+        channels: this.parseNotificationJson(row.channels, {}),
+        types: this.parseNotificationJson(row.types, {}),
+        quietHours: this.parseNotificationJson(row.quiet_hours, {})
       };
     } finally {
       client.release();
@@ -1721,11 +2633,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         LIMIT $3
       `;
       const { rows } = await client.query(sql, [userId, organizationId, limit]);
-      return rows.map(row => ({
-        ...row,
-        data: JSON.parse(row.data || '{}'),
-        channels: JSON.parse(row.channels || '[]')
-      }));
+      return rows.map(row => this.parseNotification(row));
     } finally {
       client.release();
     }
@@ -1736,84 +2644,202 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     try {
       const sql = `
         SELECT * FROM notifications 
-        WHERE organization_id = $1 AND created_at >= NOW() - INTERVAL '${days} days'
+        WHERE organization_id = $1 AND created_at >= NOW() - ($2::int * INTERVAL '1 day')
         ORDER BY created_at DESC
       `;
-      const { rows } = await client.query(sql, [organizationId]);
-      return rows.map(row => ({
-        ...row,
-        data: JSON.parse(row.data || '{}'),
-        channels: JSON.parse(row.channels || '[]')
-      }));
+      const { rows } = await client.query(sql, [organizationId, days]);
+      return rows.map(row => this.parseNotification(row));
     } finally {
       client.release();
     }
   }
 
-  // Smart Scheduling Methods
-  async getPlatformPerformanceData(platform: string, organizationId: string, days: number): Promise<any[]> {
+  async getNotification(notificationId: string): Promise<any> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const sql = `
-        SELECT s.scheduled_at as published_at, s.engagement, s.status
-        FROM schedules s
-        JOIN content_items ci ON s.content_item_id = ci.id
-        WHERE s.platform = $1 AND ci.organization_id = $2
-        AND s.scheduled_at >= NOW() - INTERVAL '${days} days'
-        AND s.status = 'published'
-        ORDER BY s.scheduled_at DESC
-      `;
-      const { rows } = await client.query(sql, [platform, organizationId]);
-      return rows;
+      const { rows } = await client.query(`SELECT * FROM notifications WHERE id = $1`, [notificationId]);
+      return rows[0] ? this.parseNotification(rows[0]) : null;
     } finally {
       client.release();
     }
   }
 
-  async getAudienceData(organizationId: string, platform: string): Promise<any> {
+  async createNotificationDelivery(delivery: {
+    id: string;
+    notificationId: string;
+    organizationId: string;
+    channelId: string;
+    channelType?: string | null;
+    status: string;
+  }): Promise<void> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
-        SELECT COUNT(*) as size, AVG(engagement) as avg_engagement
-        FROM schedules s
-        JOIN content_items ci ON s.content_item_id = ci.id
-        WHERE s.platform = $1 AND ci.organization_id = $2
-        AND s.status = 'published'
+        INSERT INTO notification_deliveries (id, notification_id, organization_id, channel_id, channel_type, status)
+        VALUES ($1, $2, $3, $4, $5, $6)
       `;
-      const { rows } = await client.query(sql, [platform, organizationId]);
-      return rows[0] || { size: 0, avg_engagement: 0 };
+      await client.query(sql, [
+        delivery.id,
+        delivery.notificationId,
+        delivery.organizationId,
+        delivery.channelId,
+        delivery.channelType || null,
+        delivery.status,
+      ]);
     } finally {
       client.release();
     }
   }
 
-  async getSchedulesInTimeRange(organizationId: string, platform: string, scheduledAt: string, hoursWindow: number): Promise<any[]> {
+  async completeNotificationDelivery(id: string, result: {
+    status: string;
+    attempts: number;
+    responseStatus?: number | null;
+    providerMessageId?: string | null;
+    error?: string | null;
+  }): Promise<void> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
-        SELECT s.* FROM schedules s
-        JOIN content_items ci ON s.content_item_id = ci.id
-        WHERE s.platform = $1 AND ci.organization_id = $2
-        AND s.scheduled_at BETWEEN $3 - INTERVAL '${hoursWindow} hours' AND $3 + INTERVAL '${hoursWindow} hours'
-        AND s.status IN ('pending', 'queued')
-        ORDER BY s.scheduled_at ASC
+        UPDATE notification_deliveries
+        SET status = $2, attempts = $3, response_status = $4, provider_message_id = $5, last_error = $6, completed_at = now()
+        WHERE id = $1
       `;
-      const { rows } = await client.query(sql, [platform, organizationId, scheduledAt]);
-      return rows;
+      await client.query(sql, [
+        id,
+        result.status,
+        result.attempts,
+        result.responseStatus ?? null,
+        result.providerMessageId || null,
+        result.error || null,
+      ]);
     } finally {
       client.release();
     }
   }
 
-  async createRecurringSchedule(schedule: any): Promise<void> {
+  async getNotificationDeliveries(notificationId: string, organizationId: string): Promise<any[]> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
-        INSERT INTO recurring_schedules (id, name, organization_id, template, content_template, enabled, next_execution, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        SELECT * FROM notification_deliveries
+        WHERE notification_id = $1 AND organization_id = $2
+        ORDER BY created_at ASC
       `;
-      await client.query(sql, [
-        schedule.id,
+      const { rows } = await client.query(sql, [notificationId, organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delivery counts per channel type and status over the last `days` days
+   */
+  async getNotificationDeliveryStats(organizationId: string, days: number): Promise<Array<{ channelType: string; status: string; count: number; attempts: number }>> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT COALESCE(channel_type, 'unknown') AS channel_type, status, COUNT(*)::int AS count, COALESCE(SUM(attempts), 0)::int AS attempts
+        FROM notification_deliveries
+        WHERE organization_id = $1 AND created_at >= NOW() - ($2::int * INTERVAL '1 day')
+        GROUP BY 1, 2
+      `;
+      const { rows } = await client.query(sql, [organizationId, days]);
+      return rows.map(row => ({ channelType: row.channel_type, status: row.status, count: row.count, attempts: row.attempts }));
+    } finally {
+      client.release();
+    }
+  }
+
+  private parseNotification(row: any) {
+    return {
+      ...row,
+      organizationId: row.organization_id,
+      userId: row.user_id,
+      data: this.parseNotificationJson(row.data, {}),
+      channels: this.parseNotificationJson(row.channels, []),
+      sentAt: row.sent_at instanceof Date ? row.sent_at.toISOString() : row.sent_at,
+      createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+    };
+  }
+
+  // Notification columns are jsonb since 042; older rows may still arrive as JSON text
+  private parseNotificationJson(value: any, fallback: any) {
+    if (typeof value === 'string') return value ? JSON.parse(value) : fallback;
+    return value ?? fallback;
+  }
+
+  // Smart Scheduling Methods
+  async getPlatformPerformanceData(platform: string, organizationId: string, days: number): Promise<any[]> {
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT s.scheduled_at AS "publishedAt", s.engagement, s.status
+        FROM schedules s
+        JOIN content_items ci ON s.content_item_id = ci.id
+        WHERE s.platform = $1 AND ci.organization_id = $2
+        AND s.scheduled_at >= NOW() - INTERVAL '${days} days'
+        AND s.status = 'published'
+        AND s.engagement IS NOT NULL
+        ORDER BY s.scheduled_at DESC
+      `;
+      const { rows } = await client.query(sql, [platform, organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAudienceData(organizationId: string, platform: string): Promise<any> {
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT COUNT(*) as size, AVG(engagement) as avg_engagement
+        FROM schedules s
+        JOIN content_items ci ON s.content_item_id = ci.id
+        WHERE s.platform = $1 AND ci.organization_id = $2
+        AND s.status = 'published'
+      `;
+      const { rows } = await client.query(sql, [platform, organizationId]);
+      return rows[0] || { size: 0, avg_engagement: 0 };
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSchedulesInTimeRange(organizationId: string, platform: string, scheduledAt: string, hoursWindow: number): Promise<any[]> {
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT s.* FROM schedules s
+        JOIN content_items ci ON s.content_item_id = ci.id
+        WHERE s.platform = $1 AND ci.organization_id = $2
+        AND s.scheduled_at BETWEEN $3 - INTERVAL '${hoursWindow} hours' AND $3 + INTERVAL '${hoursWindow} hours'
+        AND s.status IN ('pending', 'queued')
+        ORDER BY s.scheduled_at ASC
+      `;
+      const { rows } = await client.query(sql, [platform, organizationId, scheduledAt]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createRecurringSchedule(schedule: any): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        INSERT INTO recurring_schedules (id, name, organization_id, template, content_template, enabled, next_execution, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `;
+      await client.query(sql, [
+        schedule.id,
         schedule.name,
         schedule.organizationId,
         JSON.stringify(schedule.template),
@@ -1827,40 +2853,44 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async getDueRecurringSchedules(): Promise<any[]> {
+  // Enabled schedules whose next occurrence is within leadMs; finished schedules have no next_execution
+  async getDueRecurringSchedules(leadMs: number = 0): Promise<any[]> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
         SELECT * FROM recurring_schedules 
-        WHERE enabled = true AND next_execution <= NOW()
+        WHERE enabled = true AND next_execution IS NOT NULL
+          AND next_execution <= NOW() + ($1::int * INTERVAL '1 millisecond')
         ORDER BY next_execution ASC
       `;
-      const { rows } = await client.query(sql);
+      const { rows } = await client.query(sql, [leadMs]);
       return rows.map(row => ({
         ...row,
-        template: JSON.parse(row.template || '{}'),
-        contentTemplate: JSON.parse(row.content_template || '{}')
+        organizationId: row.organization_id,
+        template: typeof row.template === 'string' ? JSON.parse(row.template || '{}') : row.template || {},
+        contentTemplate: typeof row.content_template === 'string' ? JSON.parse(row.content_template || '{}') : row.content_template || {}
       }));
     } finally {
       client.release();
     }
   }
 
-  async updateRecurringSchedule(scheduleId: string, updates: any): Promise<void> {
+  /**
+   * Move a recurring schedule from the occurrence being processed to its next one (null when the rule is
+   * exhausted). False when another worker already moved it.
+   */
+  async advanceRecurringSchedule(scheduleId: string, occurrence: Date, nextExecution: Date | null): Promise<boolean> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const updateFields = Object.keys(updates).map((key, index) => 
-        `${key} = $${index + 2}`
-      ).join(', ');
-      
-      const sql = `
-        UPDATE recurring_schedules 
-        SET ${updateFields}
-        WHERE id = $1
-      `;
-      
-      const values = [scheduleId, ...Object.values(updates)];
-      await client.query(sql, values);
+      const { rowCount } = await client.query(
+        `UPDATE recurring_schedules
+         SET next_execution = $3, last_execution = $2, updated_at = NOW()
+         WHERE id = $1 AND next_execution = $2`,
+        [scheduleId, occurrence, nextExecution],
+      );
+      return (rowCount ?? 0) > 0;
     } finally {
       client.release();
     }
@@ -1897,6 +2927,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         WHERE id = $1
       `;
       await client.query(sql, [contentItemId, rejectedBy, reason]);
+      this.notifyContentChanged(contentItemId);
     } finally {
       client.release();
     }
@@ -1915,6 +2946,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         WHERE id = $1
       `;
       await client.query(sql, [contentItemId, escalateTo, reason]);
+      this.notifyContentChanged(contentItemId);
     } finally {
       client.release();
     }
@@ -1946,90 +2978,262 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         ON CONFLICT (content_item_id, tag) DO NOTHING
       `;
       await client.query(sql, [contentItemId, tag]);
+      this.notifyContentChanged(contentItemId);
     } finally {
       client.release();
     }
   }
 
   // Batch Generation Methods
-  async createBatchGenerationJob(job: any): Promise<void> {
+  /**
+   * Insert a batch job together with one item per brief; nothing is queued until both exist
+   */
+  async createBatchGenerationJob(job: {
+    id: string;
+    organizationId: string;
+    createdBy: string;
+    metadata: Record<string, any>;
+    items: Array<{ id: string; briefId: string; brief: Record<string, any> }>;
+  }): Promise<void> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const sql = `
-        INSERT INTO batch_generation_jobs (id, organization_id, status, total_items, completed_items, failed_items, progress, results, metadata, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
-      `;
-      await client.query(sql, [
-        job.id,
-        job.organizationId,
-        job.status,
-        job.totalItems,
-        job.completedItems,
-        job.failedItems,
-        job.progress,
-        JSON.stringify(job.results),
-        JSON.stringify(job.metadata)
-      ]);
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO batch_generation_jobs (id, organization_id, status, total_items, metadata, created_by, created_at)
+         VALUES ($1, $2, 'pending', $3, $4, $5, NOW())`,
+        [job.id, job.organizationId, job.items.length, JSON.stringify(job.metadata), job.createdBy],
+      );
+      await client.query(
+        `INSERT INTO batch_generation_items (id, job_id, organization_id, brief_id, position, brief)
+         SELECT item.id, $1, $2, item.brief_id, item.position::int - 1, item.brief
+         FROM unnest($3::text[], $4::text[], $5::jsonb[]) WITH ORDINALITY AS item(id, brief_id, brief, position)`,
+        [job.id, job.organizationId, job.items.map(i => i.id), job.items.map(i => i.briefId), job.items.map(i => JSON.stringify(i.brief))],
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
   }
 
-  async updateBatchGenerationJob(jobId: string, updates: any): Promise<void> {
+  /**
+   * A batch job; scoped to the organization when one is given (API), unscoped for the worker
+   */
+  async getBatchGenerationJob(jobId: string, organizationId?: string): Promise<any> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const updateFields = Object.keys(updates).map((key, index) => 
-        `${key} = $${index + 2}`
-      ).join(', ');
-      
-      const sql = `
-        UPDATE batch_generation_jobs 
-        SET ${updateFields}
-        WHERE id = $1
-      `;
-      
-      const values = [jobId, ...Object.values(updates)];
-      await client.query(sql, values);
+      const { rows } = await client.query(
+        `SELECT * FROM batch_generation_jobs WHERE id = $1 AND ($2::text IS NULL OR organization_id = $2)`,
+        [jobId, organizationId ?? null],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getBatchGenerationItems(jobId: string, statuses?: string[]): Promise<any[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `SELECT * FROM batch_generation_items
+         WHERE job_id = $1 AND ($2::text[] IS NULL OR status = ANY($2::text[]))
+         ORDER BY position`,
+        [jobId, statuses ?? null],
+      );
+      return rows;
     } finally {
       client.release();
     }
   }
 
-  async getBatchGenerationJob(jobId: string): Promise<any> {
+  /**
+   * Move a job to a new status only from one of the expected ones; null when the job was elsewhere
+   */
+  async transitionBatchGenerationJob(jobId: string, from: string[], to: 'running' | 'paused' | 'cancelled'): Promise<any> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const sql = `SELECT * FROM batch_generation_jobs WHERE id = $1`;
-      const { rows } = await client.query(sql, [jobId]);
-      if (rows.length === 0) return null;
-      
+      const { rows } = await client.query(
+        `UPDATE batch_generation_jobs
+         SET status = $3,
+             started_at = CASE WHEN $3 = 'running' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+             paused_at = CASE WHEN $3 = 'paused' THEN NOW() ELSE NULL END,
+             completed_at = CASE WHEN $3 = 'cancelled' THEN NOW() ELSE NULL END
+         WHERE id = $1 AND status = ANY($2::text[])
+         RETURNING *`,
+        [jobId, from, to],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Set items of a job from one status to another (e.g. pending to cancelled, failed back to pending) and return them
+   */
+  async resetBatchGenerationItems(jobId: string, from: 'pending' | 'failed', to: 'pending' | 'cancelled'): Promise<any[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `UPDATE batch_generation_items
+         SET status = $3,
+             error = CASE WHEN $3 = 'pending' THEN NULL ELSE error END,
+             completed_at = CASE WHEN $3 = 'cancelled' THEN NOW() ELSE NULL END
+         WHERE job_id = $1 AND status = $2
+         RETURNING *`,
+        [jobId, from, to],
+      );
+      return rows.sort((a: any, b: any) => a.position - b.position);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark an item running if it is pending (or its previous run went stale) and the organization and the job
+   * are both below their limits of running items. Claims for one organization are serialized so concurrent
+   * workers cannot both take the last free slot.
+   */
+  async claimBatchGenerationItem(
+    itemId: string,
+    limits: { organization: number; job: number },
+    staleAfterMs: number,
+  ): Promise<{ outcome: 'claimed' | 'limited' | 'running' | 'closed'; item: any }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows: found } = await client.query(`SELECT organization_id FROM batch_generation_items WHERE id = $1`, [itemId]);
+      if (!found[0]) {
+        await client.query('ROLLBACK');
+        return { outcome: 'closed', item: null };
+      }
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('batch_generation:' || $1))`, [found[0].organization_id]);
+
+      const { rows: items } = await client.query(`SELECT * FROM batch_generation_items WHERE id = $1 FOR UPDATE`, [itemId]);
+      const item = items[0];
+      const stale = item.status === 'running' && item.started_at && Date.now() - new Date(item.started_at).getTime() >= staleAfterMs;
+      if (item.status !== 'pending' && !stale) {
+        await client.query('ROLLBACK');
+        return { outcome: item.status === 'running' ? 'running' : 'closed', item };
+      }
+
+      // Stale runs (a worker that died mid-item) no longer hold a slot
+      const { rows: counts } = await client.query(
+        `SELECT COUNT(*)::int AS organization, COUNT(*) FILTER (WHERE job_id = $2)::int AS job
+         FROM batch_generation_items
+         WHERE organization_id = $1 AND status = 'running' AND started_at > NOW() - ($3::int * INTERVAL '1 millisecond')`,
+        [item.organization_id, item.job_id, staleAfterMs],
+      );
+      if (counts[0].organization >= limits.organization || counts[0].job >= limits.job) {
+        await client.query('ROLLBACK');
+        return { outcome: 'limited', item };
+      }
+
+      const { rows: claimed } = await client.query(
+        `UPDATE batch_generation_items SET status = 'running', attempts = attempts + 1, started_at = NOW(), error = NULL
+         WHERE id = $1 RETURNING *`,
+        [itemId],
+      );
+      await client.query('COMMIT');
+      return { outcome: 'claimed', item: claimed[0] };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record how an item ended; a running item can also go back to pending to be claimed again
+   */
+  async finishBatchGenerationItem(
+    itemId: string,
+    outcome: { status: 'completed' | 'failed' | 'pending'; contentItemId?: string; error?: string; result?: Record<string, any> },
+  ): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE batch_generation_items
+         SET status = $2, content_item_id = COALESCE($3, content_item_id), error = $4, result = COALESCE($5, result),
+             completed_at = CASE WHEN $2 = 'pending' THEN NULL ELSE NOW() END
+         WHERE id = $1 AND status IN ('pending', 'running')`,
+        [itemId, outcome.status, outcome.contentItemId ?? null, outcome.error ?? null, outcome.result ? JSON.stringify(outcome.result) : null],
+      );
+      return (rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Recount a job's items and, once nothing is pending or running, complete a running job (failed when no
+   * item succeeded). finished is true only for the call that completed it.
+   */
+  async refreshBatchGenerationJob(jobId: string): Promise<{ job: any; finished: boolean }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `WITH before AS (
+           SELECT id, status FROM batch_generation_jobs WHERE id = $1 FOR UPDATE
+         ), counts AS (
+           SELECT COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+                  COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+                  COUNT(*) FILTER (WHERE status IN ('pending', 'running'))::int AS open
+           FROM batch_generation_items WHERE job_id = $1
+         )
+         UPDATE batch_generation_jobs j
+         SET completed_items = counts.completed,
+             failed_items = counts.failed,
+             progress = CASE WHEN j.total_items = 0 THEN 100 ELSE ROUND((counts.completed + counts.failed) * 100.0 / j.total_items) END,
+             status = CASE WHEN before.status = 'running' AND counts.open = 0
+                           THEN CASE WHEN counts.completed = 0 THEN 'failed' ELSE 'completed' END
+                           ELSE j.status END,
+             completed_at = CASE WHEN before.status = 'running' AND counts.open = 0 THEN NOW() ELSE j.completed_at END
+         FROM before, counts
+         WHERE j.id = before.id
+         RETURNING j.*, before.status AS previous_status`,
+        [jobId],
+      );
       const row = rows[0];
-      return {
-        ...row,
-        results: JSON.parse(row.results || '[]'),
-        metadata: JSON.parse(row.metadata || '{}')
-      };
+      if (!row) return { job: null, finished: false };
+      const { previous_status, ...job } = row;
+      return { job, finished: previous_status === 'running' && job.status !== 'running' };
     } finally {
       client.release();
     }
   }
 
   // Pipeline Monitoring Methods
-  async createPipelineProgress(progress: any): Promise<void> {
+  async createPipelineProgress(progress: PipelineProgress): Promise<void> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
-        INSERT INTO pipeline_progress (pipeline_id, status, current_stage, total_stages, progress, stages, started_at, completed_at, metadata, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+        INSERT INTO pipeline_progress (pipeline_id, organization_id, status, current_stage, total_stages, progress, stages, started_at, completed_at, metadata, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
       `;
       await client.query(sql, [
         progress.pipelineId,
+        progress.organizationId ?? null,
         progress.status,
         progress.currentStage,
         progress.totalStages,
         progress.progress,
         JSON.stringify(progress.stages),
-        progress.startedAt,
-        progress.completedAt,
+        progress.startedAt ?? null,
+        progress.completedAt ?? null,
         JSON.stringify(progress.metadata || {})
       ]);
     } finally {
@@ -2037,63 +3241,126 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async updatePipelineProgress(pipelineId: string, updates: any): Promise<void> {
+  /**
+   * Write a pipeline's whole state. Cancelled pipelines are left alone; returns false when nothing was written.
+   */
+  async savePipelineProgress(progress: PipelineProgress): Promise<boolean> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      const updateFields = Object.keys(updates).map((key, index) => 
-        `${key} = $${index + 2}`
-      ).join(', ');
-      
-      const sql = `
-        UPDATE pipeline_progress 
-        SET ${updateFields}
-        WHERE pipeline_id = $1
-      `;
-      
-      const values = [pipelineId, ...Object.values(updates)];
-      await client.query(sql, values);
+      const { rowCount } = await client.query(
+        `UPDATE pipeline_progress
+         SET status = $2, current_stage = $3, progress = $4, stages = $5, started_at = $6, completed_at = $7, metadata = $8
+         WHERE pipeline_id = $1 AND status <> 'cancelled'`,
+        [
+          progress.pipelineId,
+          progress.status,
+          progress.currentStage,
+          progress.progress,
+          JSON.stringify(progress.stages),
+          progress.startedAt ?? null,
+          progress.completedAt ?? null,
+          JSON.stringify(progress.metadata || {}),
+        ],
+      );
+      return (rowCount ?? 0) > 0;
     } finally {
       client.release();
     }
   }
 
-  async updatePipelineStage(pipelineId: string, stageId: string, updates: any): Promise<void> {
+  async getPipelineProgress(pipelineId: string, organizationId?: string): Promise<PipelineProgressRow | null> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      // Get current stages
-      const getSql = `SELECT stages FROM pipeline_progress WHERE pipeline_id = $1`;
-      const { rows } = await client.query(getSql, [pipelineId]);
-      
-      if (rows.length === 0) return;
-      
-      const stages = JSON.parse(rows[0].stages || '[]');
-      const stageIndex = stages.findIndex((s: any) => s.id === stageId);
-      
-      if (stageIndex !== -1) {
-        stages[stageIndex] = { ...stages[stageIndex], ...updates };
-        
-        const updateSql = `UPDATE pipeline_progress SET stages = $2 WHERE pipeline_id = $1`;
-        await client.query(updateSql, [pipelineId, JSON.stringify(stages)]);
-      }
+      const { rows } = await client.query<PipelineProgressRow>(
+        `SELECT * FROM pipeline_progress WHERE pipeline_id = $1 AND ($2::text IS NULL OR organization_id = $2)`,
+        [pipelineId, organizationId ?? null],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Pending and running pipelines of an organization started within the window, newest first
+   */
+  async getActivePipelines(organizationId: string, withinMs: number): Promise<PipelineProgressRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<PipelineProgressRow>(
+        `SELECT * FROM pipeline_progress
+         WHERE organization_id = $1 AND status IN ('pending', 'running')
+           AND created_at > NOW() - ($2::int * INTERVAL '1 millisecond')
+         ORDER BY created_at DESC
+         LIMIT 50`,
+        [organizationId, withinMs],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel a pending or running pipeline and its running stage; null when it does not exist or has already finished
+   */
+  async cancelPipelineProgress(pipelineId: string, organizationId: string, reason?: string): Promise<PipelineProgressRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<PipelineProgressRow>(
+        `UPDATE pipeline_progress
+         SET status = 'cancelled', completed_at = NOW(), progress = 100,
+             metadata = metadata || jsonb_build_object('cancellationReason', $3::text),
+             stages = (
+               SELECT COALESCE(jsonb_agg(
+                 CASE WHEN stage->>'status' = 'running'
+                      THEN stage || jsonb_build_object('status', 'cancelled', 'completedAt', to_jsonb(NOW()))
+                      ELSE stage END
+                 ORDER BY position), '[]'::jsonb)
+               FROM jsonb_array_elements(stages) WITH ORDINALITY AS s(stage, position)
+             )
+         WHERE pipeline_id = $1 AND organization_id = $2 AND status IN ('pending', 'running')
+         RETURNING *`,
+        [pipelineId, organizationId, reason ?? null],
+      );
+      return rows[0] || null;
     } finally {
       client.release();
     }
   }
 
-  async getPipelineAnalytics(organizationId: string, timeRange: { start: string; end: string }): Promise<any[]> {
+  async getPipelineAnalytics(organizationId: string, timeRange: { start: string; end: string }): Promise<PipelineProgressRow[]> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const sql = `
         SELECT * FROM pipeline_progress 
-        WHERE created_at BETWEEN $1 AND $2
+        WHERE organization_id = $1 AND created_at BETWEEN $2 AND $3
         ORDER BY created_at DESC
       `;
-      const { rows } = await client.query(sql, [timeRange.start, timeRange.end]);
-      return rows.map(row => ({
-        ...row,
-        stages: JSON.parse(row.stages || '[]'),
-        metadata: JSON.parse(row.metadata || '{}')
-      }));
+      const { rows } = await client.query<PipelineProgressRow>(sql, [organizationId, timeRange.start, timeRange.end]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSchedule(scheduleId: string, organizationId: string): Promise<ScheduleRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<ScheduleRow>(
+        `SELECT s.id, s.content_item_id, s.platform, s.target_account_id, s.scheduled_at, s.status
+         FROM schedules s
+         JOIN content_items ci ON s.content_item_id = ci.id
+         WHERE s.id = $1 AND ci.organization_id = $2`,
+        [scheduleId, organizationId],
+      );
+      return rows[0] || null;
     } finally {
       client.release();
     }
@@ -2113,7 +3380,8 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       const params = [newScheduledAt, reason || null, scheduleId];
 
       if (organizationId) {
-        sql += ` AND organization_id = $4`;
+        // Schedules belong to an organization through their content item
+        sql += ` AND content_item_id IN (SELECT id FROM content_items WHERE organization_id = $4)`;
         params.push(organizationId);
       }
 
@@ -2137,7 +3405,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
         SET status = 'cancelled',
             updated_at = NOW(),
             error_message = $1
-        WHERE id = $2 AND status IN ('pending', 'queued')
+        WHERE id = $2 AND status IN ('draft', 'pending', 'queued')
       `;
       const params = [reason || 'Cancelled by user', scheduleId];
 
@@ -2158,12 +3426,21 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async searchContentItems(organizationId: string, query: string, filters: any = {}, page: number = 1, limit: number = 20) {
+  async searchContentItems(
+    organizationId: string,
+    query: string,
+    filters: ContentSearchFilters = {},
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<ContentSearchMatchRow[]> {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
       const offset = (page - 1) * limit;
+      // total_count lets callers paginate without a second query
       let sql = `
-        SELECT ci.*, cv.title as version_title, cv.body as version_body, cv.summary, cv.media_urls, cv.metadata
+        SELECT ci.*, cv.title as version_title, cv.body as version_body, cv.summary, cv.media_urls, cv.metadata,
+               COUNT(*) OVER() AS total_count
         FROM content_items ci
         LEFT JOIN content_versions cv ON ci.current_version_id = cv.id
         WHERE ci.organization_id = $1
@@ -2171,12 +3448,24 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
           ci.title ILIKE $2 OR 
           cv.body ILIKE $2 OR 
           cv.summary ILIKE $2 OR
-          ci.tags::text ILIKE $2
+          EXISTS (SELECT 1 FROM content_tags t WHERE t.content_item_id = ci.id AND t.tag ILIKE $2)
         )
       `;
-      const params: any[] = [organizationId, `%${query}%`];
+      const params: unknown[] = [organizationId, `%${query.replace(/[\\%_]/g, c => `\\${c}`)}%`];
       let paramCount = 2;
 
+      if (filters.platform) {
+        paramCount++;
+        sql += ` AND EXISTS (SELECT 1 FROM schedules s WHERE s.content_item_id = ci.id AND s.platform::text = $${paramCount})`;
+        params.push(filters.platform);
+      }
+
+      for (const tag of filters.tags || []) {
+        paramCount++;
+        sql += ` AND EXISTS (SELECT 1 FROM content_tags t WHERE t.content_item_id = ci.id AND t.tag = $${paramCount})`;
+        params.push(tag);
+      }
+
       // Apply filters
       if (filters.status) {
         paramCount++;
@@ -2211,7 +3500,7 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       sql += ` ORDER BY ci.created_at DESC LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}`;
       params.push(limit, offset);
 
-      const { rows } = await client.query(sql, params);
+      const { rows } = await client.query<ContentSearchMatchRow>(sql, params);
       return rows;
     } finally {
       client.release();
@@ -2336,47 +3625,114 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async updateScheduleTargetAccount(scheduleId: string, targetAccountId: string, organizationId?: string) {
+  async getTargetAccount(id: string, organizationId?: string) {
+    this.ensurePool();
     const client = await this.pool.connect();
     try {
-      // First get the target account details
-      const accountSql = `SELECT * FROM target_accounts WHERE id = $1 AND is_active = true`;
-      const { rows: accountRows } = await client.query(accountSql, [targetAccountId]);
-      
-      if (accountRows.length === 0) {
-        throw new Error('Target account not found or inactive');
-      }
-
-      const account = accountRows[0];
-
-      // Update the schedule
-      let sql = `
-        UPDATE schedules 
-        SET target_account_id = $1,
-            target_account_name = $2,
-            target_account_type = $3,
-            target_account_metadata = $4,
-            updated_at = NOW()
-        WHERE id = $5
-      `;
-      const params = [
-        targetAccountId,
-        account.account_name,
-        account.account_type,
-        account.account_metadata,
-        scheduleId
-      ];
-
+      // Inactive accounts are returned too so callers can tell "disconnected" from "never existed"
+      let sql = `SELECT * FROM target_accounts WHERE id = $1`;
+      const params: any[] = [id];
       if (organizationId) {
-        sql += ` AND organization_id = $6`;
+        sql += ` AND organization_id = $2`;
         params.push(organizationId);
       }
-
-      sql += ` RETURNING id, target_account_id, target_account_name, target_account_type`;
+      const { rows } = await client.query(sql, params);
+      if (rows.length === 0) return null;
+      return {
+        ...rows[0],
+        account_metadata: typeof rows[0].account_metadata === 'string' ? JSON.parse(rows[0].account_metadata || '{}') : rows[0].account_metadata || {},
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The connected account with this platform id (e.g. a selected Facebook page), whose tokens are its own
+   */
+  async getSocialAccount(organizationId: string, platform: string, externalId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `SELECT id, organization_id, platform, external_id, display_name
+         FROM social_accounts
+         WHERE organization_id = $1 AND platform = $2::platform AND external_id = $3`,
+        [organizationId, platform, externalId],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Accounts of a platform that have a token, most recently connected first
+  async getConnectedSocialAccounts(organizationId: string, platform: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query(
+        `SELECT sa.id, sa.organization_id, sa.platform, sa.external_id, sa.display_name
+         FROM social_accounts sa
+         JOIN LATERAL (SELECT MAX(created_at) AS connected_at FROM tokens WHERE social_account_id = sa.id) t ON t.connected_at IS NOT NULL
+         WHERE sa.organization_id = $1 AND sa.platform = $2::platform
+         ORDER BY t.connected_at DESC`,
+        [organizationId, platform],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateScheduleTargetAccount(scheduleId: string, targetAccountId: string, organizationId?: string) {
+    const client = await this.pool.connect();
+    try {
+      // First get the target account details
+      let accountSql = `SELECT * FROM target_accounts WHERE id = $1 AND is_active = true`;
+      const accountParams: any[] = [targetAccountId];
+      if (organizationId) {
+        accountSql += ` AND organization_id = $2`;
+        accountParams.push(organizationId);
+      }
+      const { rows: accountRows } = await client.query(accountSql, accountParams);
+      
+      if (accountRows.length === 0) {
+        throw new Error('Target account not found or inactive');
+      }
+
+      const account = accountRows[0];
+
+      // Update the schedule
+      let sql = `
+        UPDATE schedules 
+        SET target_account_id = $1,
+            target_account_name = $2,
+            target_account_type = $3,
+            target_account_metadata = $4,
+            updated_at = NOW()
+        WHERE id = $5 AND platform::text = $6
+      `;
+      const params = [
+        targetAccountId,
+        account.account_name,
+        account.account_type,
+        account.account_metadata,
+        scheduleId,
+        account.platform
+      ];
+
+      // Schedules carry no organization column; scope through the content item
+      if (organizationId) {
+        sql += ` AND content_item_id IN (SELECT id FROM content_items WHERE organization_id = $7)`;
+        params.push(organizationId);
+      }
+
+      sql += ` RETURNING id, target_account_id, target_account_name, target_account_type`;
 
       const { rows } = await client.query(sql, params);
       if (rows.length === 0) {
-        throw new Error('Schedule not found or access denied');
+        throw new Error(`Schedule not found, access denied, or not a ${account.platform} schedule`);
       }
       return rows[0];
     } finally {
@@ -2470,4 +3826,2681 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
       client.release();
     }
   }
-}
\ No newline at end of file
+
+  // Newsletter subscriber lists and delivery tracking
+  async createSubscriberList(organizationId: string, list: {
+    name: string;
+    description?: string;
+    fromName?: string;
+    fromEmail?: string;
+    doubleOptIn?: boolean;
+  }): Promise<SubscriberListRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `sl_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const sql = `
+        INSERT INTO subscriber_lists (id, organization_id, name, description, from_name, from_email, double_opt_in, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, now(), now())
+        RETURNING *;
+      `;
+      const { rows } = await client.query<SubscriberListRow>(sql, [
+        id,
+        organizationId,
+        list.name,
+        list.description || null,
+        list.fromName || null,
+        list.fromEmail || null,
+        list.doubleOptIn ?? true,
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSubscriberLists(organizationId: string): Promise<Array<SubscriberListRow & { subscriber_count: number }>> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT sl.*,
+               COUNT(s.id) FILTER (WHERE s.status = 'subscribed')::int AS subscriber_count
+        FROM subscriber_lists sl
+        LEFT JOIN subscribers s ON s.list_id = sl.id
+        WHERE sl.organization_id = $1
+        GROUP BY sl.id
+        ORDER BY sl.created_at ASC;
+      `;
+      const { rows } = await client.query<SubscriberListRow & { subscriber_count: number }>(sql, [organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSubscriberList(id: string, organizationId?: string): Promise<SubscriberListRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      let sql = `SELECT * FROM subscriber_lists WHERE id = $1`;
+      const params: string[] = [id];
+      if (organizationId) {
+        sql += ` AND organization_id = $2`;
+        params.push(organizationId);
+      }
+      const { rows } = await client.query<SubscriberListRow>(sql, params);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteSubscriberList(id: string, organizationId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `DELETE FROM subscriber_lists WHERE id = $1 AND organization_id = $2`,
+        [id, organizationId],
+      );
+      return (rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertSubscriber(listId: string, organizationId: string, subscriber: {
+    email: string;
+    name?: string;
+    status: 'pending' | 'subscribed';
+    // Stored for pending subscribers, and for unsubscribed or bounced ones so they can opt back in
+    confirmToken: string;
+    unsubscribeToken: string;
+    metadata?: Record<string, unknown>;
+  }): Promise<SubscriberRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      // Pending subscribers restart opt-in. Subscribed ones are left untouched, and unsubscribed or bounced ones
+      // keep their status: only following the new confirmation link (confirmSubscriber) brings them back.
+      const sql = `
+        INSERT INTO subscribers (id, list_id, organization_id, email, name, status, confirm_token, unsubscribe_token, confirmed_at, metadata, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $6 = 'pending' THEN $7 ELSE NULL END, $8, CASE WHEN $6 = 'subscribed' THEN now() ELSE NULL END, $9, now(), now())
+        ON CONFLICT (list_id, email)
+        DO UPDATE SET
+          name = COALESCE(EXCLUDED.name, subscribers.name),
+          status = CASE WHEN subscribers.status = 'pending' THEN EXCLUDED.status ELSE subscribers.status END,
+          confirm_token = CASE
+            WHEN subscribers.status = 'pending' THEN EXCLUDED.confirm_token
+            WHEN subscribers.status IN ('unsubscribed', 'bounced') THEN $7
+            ELSE subscribers.confirm_token
+          END,
+          confirmed_at = CASE WHEN subscribers.status = 'pending' THEN EXCLUDED.confirmed_at ELSE subscribers.confirmed_at END,
+          updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<SubscriberRow>(sql, [
+        id,
+        listId,
+        organizationId,
+        subscriber.email.toLowerCase(),
+        subscriber.name || null,
+        subscriber.status,
+        subscriber.confirmToken,
+        subscriber.unsubscribeToken,
+        JSON.stringify(subscriber.metadata || {}),
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSubscribers(listId: string, opts: { status?: string; limit?: number; offset?: number } = {}): Promise<SubscriberRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      let sql = `SELECT * FROM subscribers WHERE list_id = $1`;
+      const params: Array<string | number> = [listId];
+      if (opts.status) {
+        params.push(opts.status);
+        sql += ` AND status = $${params.length}`;
+      }
+      sql += ` ORDER BY created_at ASC`;
+      if (opts.limit) {
+        params.push(opts.limit, opts.offset || 0);
+        sql += ` LIMIT $${params.length - 1} OFFSET $${params.length}`;
+      }
+      const { rows } = await client.query<SubscriberRow>(sql, params);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async confirmSubscriber(confirmToken: string): Promise<SubscriberRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE subscribers
+        SET status = 'subscribed', confirmed_at = now(), unsubscribed_at = NULL, confirm_token = NULL, updated_at = now()
+        WHERE confirm_token = $1 AND status IN ('pending', 'unsubscribed', 'bounced')
+        RETURNING *;
+      `;
+      const { rows } = await client.query<SubscriberRow>(sql, [confirmToken]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async unsubscribeByToken(unsubscribeToken: string): Promise<SubscriberRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE subscribers
+        SET status = 'unsubscribed', unsubscribed_at = COALESCE(unsubscribed_at, now()), confirm_token = NULL, updated_at = now()
+        WHERE unsubscribe_token = $1
+        RETURNING *;
+      `;
+      const { rows } = await client.query<SubscriberRow>(sql, [unsubscribeToken]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async markSubscriberBounced(subscriberId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE subscribers SET status = 'bounced', updated_at = now() WHERE id = $1 AND status = 'subscribed'`,
+        [subscriberId],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getNewsletterDeliveries(scheduleId: string): Promise<NewsletterDeliveryRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<NewsletterDeliveryRow>(
+        `SELECT * FROM newsletter_deliveries WHERE schedule_id = $1 ORDER BY created_at ASC`,
+        [scheduleId],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordNewsletterDelivery(delivery: {
+    scheduleId: string;
+    contentItemId: string;
+    listId: string;
+    subscriberId: string;
+    email: string;
+    status: 'queued' | 'sent' | 'failed';
+    providerMessageId?: string;
+    error?: string;
+  }): Promise<NewsletterDeliveryRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `nd_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const sql = `
+        INSERT INTO newsletter_deliveries (id, schedule_id, content_item_id, list_id, subscriber_id, email, status, provider_message_id, error, attempts, sent_at, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 1, CASE WHEN $7 = 'sent' THEN now() ELSE NULL END, now(), now())
+        ON CONFLICT (schedule_id, subscriber_id)
+        DO UPDATE SET
+          status = EXCLUDED.status,
+          provider_message_id = COALESCE(EXCLUDED.provider_message_id, newsletter_deliveries.provider_message_id),
+          error = EXCLUDED.error,
+          attempts = newsletter_deliveries.attempts + 1,
+          sent_at = COALESCE(EXCLUDED.sent_at, newsletter_deliveries.sent_at),
+          updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<NewsletterDeliveryRow>(sql, [
+        id,
+        delivery.scheduleId,
+        delivery.contentItemId,
+        delivery.listId,
+        delivery.subscriberId,
+        delivery.email,
+        delivery.status,
+        delivery.providerMessageId || null,
+        delivery.error || null,
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  // Leads
+  private static readonly LEAD_COLUMNS: Record<string, string> = {
+    name: 'name',
+    email: 'email',
+    phone: 'phone',
+    company: 'company',
+    title: 'title',
+    source: 'source',
+    status: 'status',
+    score: 'score',
+    tags: 'tags',
+    notes: 'notes',
+    priority: 'priority',
+    assignedTo: 'assigned_to',
+    estimatedValue: 'estimated_value',
+    lastContact: 'last_contact_at',
+    nextFollowUp: 'next_follow_up_at',
+    customFields: 'custom_fields',
+  };
+
+  async createLead(organizationId: string, lead: Record<string, unknown>): Promise<LeadRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `lead_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const columns = ['id', 'organization_id'];
+      const params: unknown[] = [id, organizationId];
+      for (const [field, column] of Object.entries(DbService.LEAD_COLUMNS)) {
+        if (lead[field] === undefined) continue;
+        columns.push(column);
+        params.push(column === 'custom_fields' ? JSON.stringify(lead[field]) : lead[field]);
+      }
+      const sql = `
+        INSERT INTO leads (${columns.join(', ')}, created_at, updated_at)
+        VALUES (${params.map((_, i) => `$${i + 1}`).join(', ')}, now(), now())
+        RETURNING *;
+      `;
+      const { rows } = await client.query<LeadRow>(sql, params);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLeads(organizationId: string, filters: {
+    status?: string;
+    source?: string;
+    minScore?: number;
+    maxScore?: number;
+    assignedTo?: string;
+    search?: string;
+  } = {}, page: number = 1, limit: number = 20, sort: 'created_at' | 'updated_at' | 'score' = 'created_at') {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      let sql = `
+        SELECT l.*, COUNT(*) OVER() AS total_count
+        FROM leads l
+        WHERE l.organization_id = $1 AND l.merged_into_id IS NULL
+      `;
+      const params: unknown[] = [organizationId];
+
+      if (filters.status) {
+        params.push(filters.status);
+        sql += ` AND l.status = $${params.length}`;
+      }
+      if (filters.source) {
+        params.push(filters.source);
+        sql += ` AND l.source = $${params.length}`;
+      }
+      if (filters.minScore !== undefined) {
+        params.push(filters.minScore);
+        sql += ` AND l.score >= $${params.length}`;
+      }
+      if (filters.maxScore !== undefined) {
+        params.push(filters.maxScore);
+        sql += ` AND l.score <= $${params.length}`;
+      }
+      if (filters.assignedTo) {
+        params.push(filters.assignedTo);
+        sql += ` AND l.assigned_to = $${params.length}`;
+      }
+      if (filters.search) {
+        params.push(`%${filters.search}%`);
+        sql += ` AND (l.name ILIKE $${params.length} OR l.email ILIKE $${params.length} OR l.company ILIKE $${params.length})`;
+      }
+
+      const orderBy = sort === 'score' ? 'l.score DESC, l.created_at DESC' : `l.${sort} DESC`;
+      params.push(limit, (page - 1) * limit);
+      sql += ` ORDER BY ${orderBy} LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+      const { rows } = await client.query<LeadRow & { total_count: string }>(sql, params);
+      return {
+        leads: rows,
+        total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLead(id: string, organizationId: string): Promise<LeadRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<LeadRow>(`SELECT * FROM leads WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateLead(id: string, organizationId: string, updates: Record<string, unknown>): Promise<LeadRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const setClauses: string[] = [];
+      const params: unknown[] = [];
+      for (const [field, column] of Object.entries(DbService.LEAD_COLUMNS)) {
+        if (updates[field] === undefined) continue;
+        params.push(column === 'custom_fields' ? JSON.stringify(updates[field]) : updates[field]);
+        setClauses.push(`${column} = $${params.length}`);
+      }
+      if (setClauses.length === 0) {
+        return this.getLead(id, organizationId);
+      }
+
+      params.push(id, organizationId);
+      const sql = `
+        UPDATE leads
+        SET ${setClauses.join(', ')}, updated_at = now()
+        WHERE id = $${params.length - 1} AND organization_id = $${params.length}
+        RETURNING *;
+      `;
+      const { rows } = await client.query<LeadRow>(sql, params);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteLead(id: string, organizationId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      // Leads merged into this one go too, otherwise they would reappear once merged_into_id is cleared
+      const { rowCount } = await client.query(
+        `DELETE FROM leads WHERE organization_id = $2 AND (id = $1 OR merged_into_id = $1)`,
+        [id, organizationId]
+      );
+      return (rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLeadConversations(leadId: string, organizationId: string): Promise<LeadConversationRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT c.*,
+               (SELECT COUNT(*)::int FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+               (SELECT m.body FROM messages m WHERE m.conversation_id = c.id ORDER BY m.sent_at DESC LIMIT 1) AS last_message
+        FROM conversations c
+        JOIN leads l ON l.id = c.lead_id
+        WHERE c.lead_id = $1 AND l.organization_id = $2
+        ORDER BY COALESCE(c.last_message_at, c.created_at) DESC;
+      `;
+      const { rows } = await client.query<LeadConversationRow>(sql, [leadId, organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async linkConversationToLead(conversationId: string, leadId: string, organizationId: string): Promise<ConversationRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE conversations c
+        SET lead_id = l.id, updated_at = now()
+        FROM leads l
+        WHERE c.id = $1 AND l.id = $2 AND l.organization_id = $3
+          AND EXISTS (SELECT 1 FROM leads cl WHERE cl.id = c.lead_id AND cl.organization_id = $3)
+        RETURNING c.*;
+      `;
+      const { rows } = await client.query<ConversationRow>(sql, [conversationId, leadId, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Groups of active leads in an organization sharing an email (case-insensitive) or phone, oldest first
+   */
+  async findDuplicateLeadGroups(organizationId: string): Promise<DuplicateLeadGroupRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT 'email' AS match_on, lower(email) AS match_value, array_agg(id ORDER BY created_at ASC) AS lead_ids
+        FROM leads
+        WHERE organization_id = $1 AND merged_into_id IS NULL AND email IS NOT NULL AND email <> ''
+        GROUP BY lower(email)
+        HAVING COUNT(*) > 1
+        UNION ALL
+        SELECT 'phone' AS match_on, phone AS match_value, array_agg(id ORDER BY created_at ASC) AS lead_ids
+        FROM leads
+        WHERE organization_id = $1 AND merged_into_id IS NULL AND phone IS NOT NULL AND phone <> ''
+        GROUP BY phone
+        HAVING COUNT(*) > 1;
+      `;
+      const { rows } = await client.query<DuplicateLeadGroupRow>(sql, [organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Fold duplicate leads into a primary lead: conversations move over, empty fields are filled,
+   * tags are unioned and the highest score wins. Duplicates are kept as merged tombstones.
+   */
+  async mergeLeads(organizationId: string, primaryId: string, duplicateIds: string[]): Promise<{ lead: LeadRow; mergedIds: string[] } | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows: leads } = await client.query<LeadRow>(
+        `SELECT * FROM leads WHERE organization_id = $1 AND id = ANY($2::text[]) AND merged_into_id IS NULL FOR UPDATE`,
+        [organizationId, [primaryId, ...duplicateIds]],
+      );
+      const primary = leads.find(l => l.id === primaryId);
+      const duplicates = leads.filter(l => l.id !== primaryId);
+      if (!primary || duplicates.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      const mergedIds = duplicates.map(l => l.id);
+
+      // Duplicates are ordered oldest first, so the earliest non-empty value fills each gap
+      duplicates.sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+      const firstValue = (field: 'name' | 'email' | 'phone' | 'company' | 'title' | 'assigned_to') =>
+        primary[field] ?? duplicates.map(d => d[field]).find(v => v !== null && v !== undefined) ?? null;
+      // numeric columns come back from pg as strings
+      const rank = (v: string | number | Date) => (v instanceof Date ? v.getTime() : Number(v));
+      const maxValue = (field: 'estimated_value' | 'last_contact_at' | 'score') => {
+        const values = [primary, ...duplicates].map(l => l[field]).filter((v): v is string | number | Date => v !== null && v !== undefined);
+        return values.length ? values.reduce((a, b) => (rank(b) > rank(a) ? b : a)) : null;
+      };
+      const notes = [primary, ...duplicates].map(l => l.notes).filter(Boolean).join('\n\n') || null;
+      const tags = Array.from(new Set([primary, ...duplicates].flatMap(l => l.tags || [])));
+      // Older duplicates win over newer ones, and the primary's own fields win over both
+      const customFields = [...[...duplicates].reverse(), primary]
+        .reduce<Record<string, unknown>>((fields, l) => ({ ...fields, ...(l.custom_fields || {}) }), {});
+
+      const updateSql = `
+        UPDATE leads
+        SET name = $2, email = $3, phone = $4, company = $5, title = $6, notes = $7, assigned_to = $8,
+            estimated_value = $9, last_contact_at = $10, score = $11, tags = $12, custom_fields = $13, updated_at = now()
+        WHERE id = $1
+        RETURNING *;
+      `;
+      const { rows: merged } = await client.query<LeadRow>(updateSql, [
+        primaryId,
+        firstValue('name'),
+        firstValue('email'),
+        firstValue('phone'),
+        firstValue('company'),
+        firstValue('title'),
+        notes,
+        firstValue('assigned_to'),
+        maxValue('estimated_value'),
+        maxValue('last_contact_at'),
+        maxValue('score') ?? 0,
+        tags,
+        JSON.stringify(customFields),
+      ]);
+
+      await client.query(`UPDATE conversations SET lead_id = $1, updated_at = now() WHERE lead_id = ANY($2::text[])`, [primaryId, mergedIds]);
+      // Earlier merges that pointed at a duplicate now point at the primary
+      await client.query(`UPDATE leads SET merged_into_id = $1 WHERE merged_into_id = ANY($2::text[])`, [primaryId, mergedIds]);
+      await client.query(
+        `UPDATE leads SET merged_into_id = $1, merged_at = now(), status = 'merged', updated_at = now() WHERE id = ANY($2::text[])`,
+        [primaryId, mergedIds],
+      );
+
+      await client.query('COMMIT');
+      return { lead: merged[0], mergedIds };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Inbox Methods
+
+  // Conversation with its lead, unread inbound count and latest message
+  private static readonly INBOX_CONVERSATION_SELECT = `
+    SELECT c.id, c.platform, c.kind, c.external_id, c.account_external_id, c.status, c.assigned_to, c.assigned_at,
+           c.last_read_at, c.last_message_at, c.metadata, c.created_at,
+           l.id AS lead_id, l.name AS lead_name, l.email AS lead_email, l.score AS lead_score, l.status AS lead_status,
+           l.tags AS lead_tags, l.external_ref AS lead_external_ref,
+           u.unread_count,
+           lm.id AS last_message_id, lm.body AS last_message_body, lm.direction AS last_message_direction,
+           lm.author_name AS last_message_author, lm.sent_at AS last_message_sent_at,
+           COUNT(*) OVER() AS total_count
+    FROM conversations c
+    JOIN leads l ON l.id = c.lead_id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*)::int AS unread_count
+      FROM messages m
+      WHERE m.conversation_id = c.id AND m.direction = 'inbound' AND m.sent_at > COALESCE(c.last_read_at, '-infinity'::timestamptz)
+    ) u ON true
+    LEFT JOIN LATERAL (
+      SELECT m.id, m.body, m.direction, m.author_name, m.sent_at
+      FROM messages m
+      WHERE m.conversation_id = c.id
+      ORDER BY m.sent_at DESC
+      LIMIT 1
+    ) lm ON true
+  `;
+
+  async getInboxConversations(organizationId: string, filters: {
+    status?: string;
+    platform?: string;
+    assignedTo?: string | null;
+    unreadOnly?: boolean;
+    search?: string;
+  } = {}, page: number = 1, limit: number = 20) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      let sql = `${DbService.INBOX_CONVERSATION_SELECT} WHERE c.organization_id = $1`;
+      const params: unknown[] = [organizationId];
+
+      if (filters.status) {
+        params.push(filters.status);
+        sql += ` AND c.status = $${params.length}`;
+      }
+      if (filters.platform) {
+        params.push(filters.platform);
+        sql += ` AND c.platform = $${params.length}::platform`;
+      }
+      if (filters.assignedTo === null) {
+        sql += ` AND c.assigned_to IS NULL`;
+      } else if (filters.assignedTo) {
+        params.push(filters.assignedTo);
+        sql += ` AND c.assigned_to = $${params.length}`;
+      }
+      if (filters.unreadOnly) {
+        sql += ` AND u.unread_count > 0`;
+      }
+      if (filters.search) {
+        params.push(`%${filters.search}%`);
+        sql += ` AND (l.name ILIKE $${params.length} OR EXISTS (
+          SELECT 1 FROM messages sm WHERE sm.conversation_id = c.id AND sm.body ILIKE $${params.length}
+        ))`;
+      }
+
+      params.push(limit, (page - 1) * limit);
+      sql += ` ORDER BY COALESCE(c.last_message_at, c.created_at) DESC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+      const { rows } = await client.query<InboxConversationRow>(sql, params);
+      return {
+        conversations: rows,
+        total: rows.length > 0 ? parseInt(rows[0].total_count, 10) : 0,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async getInboxConversation(id: string, organizationId: string): Promise<InboxConversationRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `${DbService.INBOX_CONVERSATION_SELECT} WHERE c.id = $1 AND c.organization_id = $2`;
+      const { rows } = await client.query<InboxConversationRow>(sql, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Messages of a conversation, newest first; pass `before` to page back through older messages
+   */
+  async getConversationMessages(conversationId: string, organizationId: string, limit: number = 50, before?: Date): Promise<MessageRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const params: unknown[] = [conversationId, organizationId, limit];
+      let sql = `
+        SELECT m.*
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE m.conversation_id = $1 AND c.organization_id = $2
+      `;
+      if (before) {
+        params.push(before);
+        sql += ` AND m.sent_at < $${params.length}`;
+      }
+      sql += ` ORDER BY m.sent_at DESC LIMIT $3`;
+      const { rows } = await client.query<MessageRow>(sql, params);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async markConversationRead(id: string, organizationId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE conversations SET last_read_at = now() WHERE id = $1 AND organization_id = $2`,
+        [id, organizationId]
+      );
+      return (rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Change a conversation's status and/or assignee; `assignedTo: null` unassigns it
+   */
+  async updateConversation(id: string, organizationId: string, updates: { status?: string; assignedTo?: string | null }): Promise<InboxConversationRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const setClauses: string[] = [];
+      const params: unknown[] = [id, organizationId];
+      if (updates.status !== undefined) {
+        params.push(updates.status);
+        setClauses.push(`status = $${params.length}`);
+      }
+      if (updates.assignedTo !== undefined) {
+        params.push(updates.assignedTo);
+        setClauses.push(`assigned_to = $${params.length}`, `assigned_at = CASE WHEN $${params.length}::text IS NULL THEN NULL ELSE now() END`);
+      }
+      if (setClauses.length === 0) {
+        return this.getInboxConversation(id, organizationId);
+      }
+
+      const { rowCount } = await client.query(
+        `UPDATE conversations SET ${setClauses.join(', ')}, updated_at = now() WHERE id = $1 AND organization_id = $2`,
+        params
+      );
+      return rowCount ? this.getInboxConversation(id, organizationId) : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record a reply sent from the inbox. Replying marks the conversation read and counts as contact with the lead.
+   */
+  /**
+   * Record an outbound reply as pending before it is sent; completeOutboundMessage or failOutboundMessage settles it
+   */
+  async recordOutboundMessage(conversationId: string, message: {
+    body: string;
+    sentBy?: string | null;
+    metadata?: Record<string, unknown>;
+  }): Promise<MessageRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows } = await client.query<MessageRow>(
+        `INSERT INTO messages (id, conversation_id, direction, body, sent_at, sent_by, metadata, delivery_status)
+         VALUES ($1, $2, 'outbound', $3, now(), $4, $5, 'pending')
+         RETURNING *;`,
+        [id, conversationId, message.body, message.sentBy || null, JSON.stringify(message.metadata || {})]
+      );
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a pending reply as delivered, and count it as contact on its conversation and lead
+   */
+  async completeOutboundMessage(messageId: string, externalId: string | null): Promise<MessageRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { rows } = await client.query<MessageRow>(
+        `UPDATE messages SET delivery_status = 'sent', external_id = $2, sent_at = now(), delivery_error = NULL
+         WHERE id = $1
+         RETURNING *;`,
+        [messageId, externalId]
+      );
+      const { rows: conversations } = await client.query<{ lead_id: string }>(
+        `UPDATE conversations SET last_message_at = now(), last_read_at = now(), updated_at = now() WHERE id = $1 RETURNING lead_id`,
+        [rows[0]?.conversation_id]
+      );
+      if (conversations[0]) {
+        await client.query(
+          `UPDATE leads
+           SET last_contact_at = now(), status = CASE WHEN status = 'new' THEN 'contacted' ELSE status END, updated_at = now()
+           WHERE id = $1`,
+          [conversations[0].lead_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return rows[0] || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async failOutboundMessage(messageId: string, error: string): Promise<MessageRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MessageRow>(
+        `UPDATE messages SET delivery_status = 'failed', delivery_error = $2 WHERE id = $1 RETURNING *`,
+        [messageId, error]
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Auto-reply Methods
+
+  async getAutoReplyRules(organizationId: string, activeOnly: boolean = false): Promise<AutoReplyRuleRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT * FROM auto_reply_rules
+        WHERE organization_id = $1 ${activeOnly ? 'AND is_active' : ''}
+        ORDER BY priority DESC, created_at ASC;
+      `;
+      const { rows } = await client.query<AutoReplyRuleRow>(sql, [organizationId]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async createAutoReplyRule(organizationId: string, rule: {
+    name: string;
+    description?: string | null;
+    platform?: string | null;
+    kinds?: string[];
+    conditions: AutoReplyConditions;
+    responseTemplate: string;
+    priority?: number;
+    isActive?: boolean;
+    createdBy?: string;
+  }): Promise<AutoReplyRuleRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `arr_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const sql = `
+        INSERT INTO auto_reply_rules (id, organization_id, name, description, platform, kinds, conditions, response_template, priority, is_active, created_by, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6, '{comment,message}'::text[]), $7, $8, COALESCE($9, 0), COALESCE($10, true), $11, now(), now())
+        RETURNING *;
+      `;
+      const { rows } = await client.query<AutoReplyRuleRow>(sql, [
+        id,
+        organizationId,
+        rule.name,
+        rule.description || null,
+        rule.platform || null,
+        rule.kinds || null,
+        JSON.stringify(rule.conditions),
+        rule.responseTemplate,
+        rule.priority ?? null,
+        rule.isActive ?? null,
+        rule.createdBy || null,
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateAutoReplyRule(id: string, organizationId: string, updates: Record<string, unknown>): Promise<AutoReplyRuleRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const columns: Record<string, string> = {
+        name: 'name',
+        description: 'description',
+        platform: 'platform',
+        kinds: 'kinds',
+        conditions: 'conditions',
+        responseTemplate: 'response_template',
+        priority: 'priority',
+        isActive: 'is_active',
+      };
+      const setClauses: string[] = [];
+      const params: unknown[] = [id, organizationId];
+      for (const [field, column] of Object.entries(columns)) {
+        if (updates[field] === undefined) continue;
+        params.push(column === 'conditions' ? JSON.stringify(updates[field]) : updates[field]);
+        setClauses.push(`${column} = $${params.length}`);
+      }
+      if (setClauses.length === 0) {
+        const { rows } = await client.query<AutoReplyRuleRow>(`SELECT * FROM auto_reply_rules WHERE id = $1 AND organization_id = $2`, params);
+        return rows[0] || null;
+      }
+      const { rows } = await client.query<AutoReplyRuleRow>(
+        `UPDATE auto_reply_rules SET ${setClauses.join(', ')}, updated_at = now() WHERE id = $1 AND organization_id = $2 RETURNING *;`,
+        params
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteAutoReplyRule(id: string, organizationId: string): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(`DELETE FROM auto_reply_rules WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return (rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAutoReplySettings(organizationId: string): Promise<AutoReplySettingsRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<AutoReplySettingsRow>(`SELECT * FROM auto_reply_settings WHERE organization_id = $1`, [organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertAutoReplySettings(organizationId: string, settings: {
+    enabled?: boolean;
+    quietHoursStart?: string | null;
+    quietHoursEnd?: string | null;
+    timezone?: string;
+    maxRepliesPerConversation?: number;
+    rateWindowMinutes?: number;
+  }): Promise<AutoReplySettingsRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      // Quiet hours are set or cleared as a pair; undefined leaves them unchanged
+      const setQuietHours = settings.quietHoursStart !== undefined || settings.quietHoursEnd !== undefined;
+      const sql = `
+        INSERT INTO auto_reply_settings (organization_id, enabled, quiet_hours_start, quiet_hours_end, timezone, max_replies_per_conversation, rate_window_minutes, updated_at)
+        VALUES ($1, COALESCE($2, true), $3::time, $4::time, COALESCE($5, 'UTC'), COALESCE($6, 1), COALESCE($7, 1440), now())
+        ON CONFLICT (organization_id) DO UPDATE SET
+          enabled = COALESCE($2, auto_reply_settings.enabled),
+          quiet_hours_start = CASE WHEN $8 THEN $3::time ELSE auto_reply_settings.quiet_hours_start END,
+          quiet_hours_end = CASE WHEN $8 THEN $4::time ELSE auto_reply_settings.quiet_hours_end END,
+          timezone = COALESCE($5, auto_reply_settings.timezone),
+          max_replies_per_conversation = COALESCE($6, auto_reply_settings.max_replies_per_conversation),
+          rate_window_minutes = COALESCE($7, auto_reply_settings.rate_window_minutes),
+          updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<AutoReplySettingsRow>(sql, [
+        organizationId,
+        settings.enabled ?? null,
+        settings.quietHoursStart ?? null,
+        settings.quietHoursEnd ?? null,
+        settings.timezone ?? null,
+        settings.maxRepliesPerConversation ?? null,
+        settings.rateWindowMinutes ?? null,
+        setQuietHours,
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Auto-replies in the conversation within the window that count against the rate limit of the given claim:
+   * replies already sent, plus claims still pending that were taken before it. Two messages arriving together
+   * are ordered by their claims, so only the first one can take the last reply in the window.
+   */
+  async countRecentAutoReplies(conversationId: string, windowMinutes: number, claimId: string): Promise<number> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT COUNT(*)::int AS count
+        FROM auto_reply_log l, auto_reply_log claim
+        WHERE claim.id = $3
+          AND l.conversation_id = $1
+          AND l.id <> claim.id
+          AND l.created_at > now() - ($2::int * interval '1 minute')
+          AND (l.status IN ('sent', 'dry_run') OR (l.status = 'pending' AND (l.created_at, l.id) < (claim.created_at, claim.id)));
+      `;
+      const { rows } = await client.query<{ count: number }>(sql, [conversationId, windowMinutes, claimId]);
+      return rows[0]?.count || 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Claim an inbound message for auto-reply. Returns null when the message was already handled.
+   */
+  async claimAutoReply(entry: { organizationId: string; ruleId: string; conversationId: string; messageId: string }): Promise<string | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `arl_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const sql = `
+        INSERT INTO auto_reply_log (id, organization_id, rule_id, conversation_id, message_id, status, created_at)
+        VALUES ($1, $2, $3, $4, $5, 'pending', now())
+        ON CONFLICT (message_id) DO NOTHING
+        RETURNING id;
+      `;
+      const { rows } = await client.query<{ id: string }>(sql, [id, entry.organizationId, entry.ruleId, entry.conversationId, entry.messageId]);
+      return rows[0]?.id || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async completeAutoReply(id: string, outcome: { status: 'sent' | 'dry_run' | 'skipped' | 'failed'; reason?: string; replyMessageId?: string | null; replyBody?: string }) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE auto_reply_log SET status = $2, reason = $3, reply_message_id = $4, reply_body = $5 WHERE id = $1`,
+        [id, outcome.status, outcome.reason || null, outcome.replyMessageId || null, outcome.replyBody || null]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getAutoReplyLog(organizationId: string, options: { conversationId?: string; limit?: number } = {}): Promise<AutoReplyLogRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const params: unknown[] = [organizationId];
+      let sql = `
+        SELECT l.*, r.name AS rule_name
+        FROM auto_reply_log l
+        LEFT JOIN auto_reply_rules r ON r.id = l.rule_id
+        WHERE l.organization_id = $1
+      `;
+      if (options.conversationId) {
+        params.push(options.conversationId);
+        sql += ` AND l.conversation_id = $${params.length}`;
+      }
+      params.push(options.limit || 50);
+      sql += ` ORDER BY l.created_at DESC LIMIT $${params.length}`;
+      const { rows } = await client.query<AutoReplyLogRow>(sql, params);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Lead Scoring Methods
+
+  async getLeadScoringModel(organizationId: string): Promise<LeadScoringModelRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<LeadScoringModelRow>(`SELECT * FROM lead_scoring_models WHERE organization_id = $1`, [organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertLeadScoringModel(organizationId: string, config: Record<string, unknown>): Promise<LeadScoringModelRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        INSERT INTO lead_scoring_models (organization_id, config, updated_at)
+        VALUES ($1, $2, now())
+        ON CONFLICT (organization_id) DO UPDATE SET config = EXCLUDED.config, updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<LeadScoringModelRow>(sql, [organizationId, JSON.stringify(config)]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * A lead and the inbound messages across all of its conversations, newest first
+   */
+  async getLeadScoringSignals(leadId: string, organizationId: string, messageLimit: number = 500): Promise<LeadScoringSignals | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows: leads } = await client.query<LeadScoringSignals['lead']>(
+        `SELECT id, source, merged_into_id FROM leads WHERE id = $1 AND organization_id = $2`,
+        [leadId, organizationId]
+      );
+      if (!leads[0]) return null;
+
+      const sql = `
+        SELECT m.body, m.sent_at
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE c.lead_id = $1 AND m.direction = 'inbound'
+        ORDER BY m.sent_at DESC
+        LIMIT $2;
+      `;
+      const { rows: messages } = await client.query<LeadScoringSignals['messages'][number]>(sql, [leadId, messageLimit]);
+      return { lead: leads[0], messages };
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateLeadScore(leadId: string, score: number, breakdown: LeadScoreBreakdown) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `UPDATE leads SET score = $2, score_breakdown = $3, score_updated_at = now() WHERE id = $1`,
+        [leadId, score, JSON.stringify(breakdown)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getActiveLeadIds(organizationId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<{ id: string }>(
+        `SELECT id FROM leads WHERE organization_id = $1 AND merged_into_id IS NULL ORDER BY created_at ASC`,
+        [organizationId]
+      );
+      return rows.map(r => r.id);
+    } finally {
+      client.release();
+    }
+  }
+
+  // CRM Sync Methods
+  async createCrmConnection(organizationId: string, connection: {
+    name: string;
+    provider: string;
+    apiUrl?: string | null;
+    credentialsEnc: string;
+    syncFrequency?: string;
+    fieldMappings: CrmFieldMapping[];
+  }): Promise<CrmConnectionRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `crm_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const sql = `
+        INSERT INTO crm_connections (id, organization_id, name, provider, api_url, credentials_enc, sync_frequency, field_mappings, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, 'daily'), $8, now(), now())
+        RETURNING *;
+      `;
+      const { rows } = await client.query<CrmConnectionRow>(sql, [
+        id,
+        organizationId,
+        connection.name,
+        connection.provider,
+        connection.apiUrl ?? null,
+        connection.credentialsEnc,
+        connection.syncFrequency ?? null,
+        JSON.stringify(connection.fieldMappings),
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCrmConnections(organizationId: string): Promise<CrmConnectionRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CrmConnectionRow>(
+        `SELECT * FROM crm_connections WHERE organization_id = $1 ORDER BY created_at ASC`,
+        [organizationId]
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCrmConnection(id: string, organizationId: string): Promise<CrmConnectionRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CrmConnectionRow>(`SELECT * FROM crm_connections WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateCrmConnection(id: string, organizationId: string, updates: CrmConnectionUpdates): Promise<CrmConnectionRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const columns: Record<keyof CrmConnectionUpdates, string> = {
+        name: 'name',
+        apiUrl: 'api_url',
+        credentialsEnc: 'credentials_enc',
+        status: 'status',
+        syncFrequency: 'sync_frequency',
+        fieldMappings: 'field_mappings',
+        lastError: 'last_error',
+      };
+      const setClauses: string[] = [];
+      const params: unknown[] = [id, organizationId];
+      for (const [field, column] of Object.entries(columns) as Array<[keyof CrmConnectionUpdates, string]>) {
+        if (updates[field] === undefined) continue;
+        params.push(column === 'field_mappings' ? JSON.stringify(updates[field]) : updates[field]);
+        setClauses.push(`${column} = $${params.length}`);
+      }
+      if (setClauses.length === 0) {
+        return this.getCrmConnection(id, organizationId);
+      }
+      const { rows } = await client.query<CrmConnectionRow>(
+        `UPDATE crm_connections SET ${setClauses.join(', ')}, updated_at = now() WHERE id = $1 AND organization_id = $2 RETURNING *;`,
+        params
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteCrmConnection(id: string, organizationId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(`DELETE FROM crm_connections WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return (rowCount || 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a connection as syncing; returns null when it is missing, disconnected or already syncing.
+   * A sync left 'syncing' for over an hour (e.g. the process died) can be claimed again.
+   */
+  async claimCrmSync(id: string, organizationId: string): Promise<CrmConnectionRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE crm_connections SET status = 'syncing', updated_at = now()
+        WHERE id = $1 AND organization_id = $2
+          AND (status IN ('connected', 'error') OR (status = 'syncing' AND updated_at < now() - interval '1 hour'))
+        RETURNING *;
+      `;
+      const { rows } = await client.query<CrmConnectionRow>(sql, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async finishCrmSync(
+    id: string,
+    result: { status: 'connected' | 'error'; lastError: string | null; pushCursor: Date | null; pullCursor: Date | null },
+  ): Promise<CrmConnectionRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE crm_connections
+        SET status = $2, last_error = $3, push_cursor = $4, pull_cursor = $5, last_sync_at = now(), updated_at = now()
+        WHERE id = $1
+        RETURNING *;
+      `;
+      const { rows } = await client.query<CrmConnectionRow>(sql, [id, result.status, result.lastError, result.pushCursor, result.pullCursor]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Leads changed (edited or re-scored) at or after `since`, oldest first, with the connection's link to the CRM record.
+   * afterId pages through leads sharing the same change time.
+   */
+  async getCrmPushCandidates(connectionId: string, organizationId: string, since: Date | null, afterId: string, limit: number = 100): Promise<CrmPushCandidateRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT * FROM (
+          SELECT l.*, GREATEST(l.updated_at, COALESCE(l.score_updated_at, l.updated_at)) AS changed_at,
+                 k.external_id AS crm_external_id, k.pushed_hash AS crm_pushed_hash
+          FROM leads l
+          LEFT JOIN crm_lead_links k ON k.lead_id = l.id AND k.connection_id = $1
+          WHERE l.organization_id = $2 AND l.merged_into_id IS NULL
+        ) candidates
+        WHERE $3::timestamptz IS NULL OR changed_at > $3 OR (changed_at = $3 AND id > $4)
+        ORDER BY changed_at ASC, id ASC
+        LIMIT $5;
+      `;
+      const { rows } = await client.query<CrmPushCandidateRow>(sql, [connectionId, organizationId, since, afterId, limit]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLeadByCrmExternalId(connectionId: string, externalId: string, organizationId: string): Promise<LeadRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        SELECT l.* FROM crm_lead_links k
+        JOIN leads l ON l.id = k.lead_id
+        WHERE k.connection_id = $1 AND k.external_id = $2 AND l.organization_id = $3 AND l.merged_into_id IS NULL;
+      `;
+      const { rows } = await client.query<LeadRow>(sql, [connectionId, externalId, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertCrmLeadLink(connectionId: string, leadId: string, externalId: string, pushedHash: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        INSERT INTO crm_lead_links (connection_id, lead_id, external_id, pushed_hash, pushed_at)
+        VALUES ($1, $2, $3, $4, now())
+        ON CONFLICT (connection_id, lead_id) DO UPDATE SET
+          external_id = EXCLUDED.external_id,
+          pushed_hash = EXCLUDED.pushed_hash,
+          pushed_at = now();
+      `;
+      await client.query(sql, [connectionId, leadId, externalId, pushedHash]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async markCrmLeadPulled(connectionId: string, leadId: string) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query(`UPDATE crm_lead_links SET pulled_at = now() WHERE connection_id = $1 AND lead_id = $2`, [connectionId, leadId]);
+    } finally {
+      client.release();
+    }
+  }
+
+  async createCrmSyncLog(connectionId: string, organizationId: string, type: CrmSyncLogRow['type']): Promise<CrmSyncLogRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `crmlog_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows } = await client.query<CrmSyncLogRow>(
+        `INSERT INTO crm_sync_logs (id, connection_id, organization_id, type) VALUES ($1, $2, $3, $4) RETURNING *;`,
+        [id, connectionId, organizationId, type]
+      );
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async completeCrmSyncLog(id: string, result: {
+    status: 'success' | 'partial' | 'error';
+    processed: number;
+    succeeded: number;
+    failed: number;
+    errors: CrmSyncLogRow['errors'];
+    errorMessage: string | null;
+  }): Promise<CrmSyncLogRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        UPDATE crm_sync_logs
+        SET status = $2, records_processed = $3, records_succeeded = $4, records_failed = $5, errors = $6, error_message = $7, completed_at = now()
+        WHERE id = $1
+        RETURNING *;
+      `;
+      const { rows } = await client.query<CrmSyncLogRow>(sql, [
+        id,
+        result.status,
+        result.processed,
+        result.succeeded,
+        result.failed,
+        JSON.stringify(result.errors),
+        result.errorMessage,
+      ]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCrmSyncLogs(organizationId: string, connectionId?: string, limit: number = 50): Promise<CrmSyncLogRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const params: Array<string | number> = [organizationId];
+      let sql = `SELECT * FROM crm_sync_logs WHERE organization_id = $1`;
+      if (connectionId) {
+        params.push(connectionId);
+        sql += ` AND connection_id = $${params.length}`;
+      }
+      params.push(limit);
+      sql += ` ORDER BY started_at DESC LIMIT $${params.length}`;
+      const { rows } = await client.query<CrmSyncLogRow>(sql, params);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Content Search Methods
+  /**
+   * Content items with their current version (or latest version when none is marked current), tags and
+   * scheduled platforms, shaped for the search index
+   */
+  async getContentSearchDocuments(contentItemIds: string[]): Promise<ContentSearchDocumentRow[]> {
+    if (contentItemIds.length === 0) return [];
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<ContentSearchDocumentRow>(`${CONTENT_SEARCH_DOCUMENT_SQL} WHERE ci.id = ANY($1::text[])`, [contentItemIds]);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * One page of search documents in id order, for full reindexing
+   */
+  async getContentSearchDocumentPage(afterId: string | null, limit: number, organizationId?: string): Promise<ContentSearchDocumentRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const params: unknown[] = [afterId || '', limit];
+      let sql = `${CONTENT_SEARCH_DOCUMENT_SQL} WHERE ci.id > $1`;
+      if (organizationId) {
+        params.push(organizationId);
+        sql += ` AND ci.organization_id = $3`;
+      }
+      sql += ` ORDER BY ci.id LIMIT $2`;
+      const { rows } = await client.query<ContentSearchDocumentRow>(sql, params);
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getContentItemIdsUpdatedSince(since: Date, organizationId?: string): Promise<string[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const params: unknown[] = [since];
+      let sql = `SELECT id FROM content_items WHERE updated_at >= $1`;
+      if (organizationId) {
+        params.push(organizationId);
+        sql += ` AND organization_id = $2`;
+      }
+      const { rows } = await client.query<{ id: string }>(sql, params);
+      return rows.map(row => row.id);
+    } finally {
+      client.release();
+    }
+  }
+
+  // Token Key Rotation Methods
+  async getTokensForReencryption(afterId: string | null, limit: number): Promise<TokenCiphertextRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<TokenCiphertextRow>(
+        `SELECT t.id, t.social_account_id, t.access_token_enc, t.refresh_token_enc, sa.organization_id, sa.platform::text AS platform
+         FROM tokens t
+         LEFT JOIN social_accounts sa ON sa.id = t.social_account_id
+         WHERE ($1::text IS NULL OR t.id > $1)
+         ORDER BY t.id
+         LIMIT $2`,
+        [afterId, limit]
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getSecretsForReencryption(table: EncryptedSecretTable, afterId: string | null, limit: number): Promise<SecretCiphertextRow[]> {
+    const column = ENCRYPTED_SECRET_COLUMNS[table];
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<SecretCiphertextRow>(
+        `SELECT id, organization_id, ${column} AS ciphertext
+         FROM ${table}
+         WHERE ${column} IS NOT NULL AND ($1::text IS NULL OR id > $1)
+         ORDER BY id
+         LIMIT $2`,
+        [afterId, limit]
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Swap ciphertexts only if they are unchanged since they were read, so a token refreshed meanwhile is left alone
+   */
+  async replaceTokenCiphertexts(
+    id: string,
+    previous: { accessTokenEnc: string; refreshTokenEnc: string | null },
+    next: { accessTokenEnc: string; refreshTokenEnc: string | null }
+  ): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE tokens SET access_token_enc = $2, refresh_token_enc = $3
+         WHERE id = $1 AND access_token_enc = $4 AND refresh_token_enc IS NOT DISTINCT FROM $5`,
+        [id, next.accessTokenEnc, next.refreshTokenEnc, previous.accessTokenEnc, previous.refreshTokenEnc]
+      );
+      return (rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async replaceSecretCiphertext(table: EncryptedSecretTable, id: string, previous: string, next: string): Promise<boolean> {
+    const column = ENCRYPTED_SECRET_COLUMNS[table];
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE ${table} SET ${column} = $2 WHERE id = $1 AND ${column} = $3`,
+        [id, next, previous]
+      );
+      return (rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getLatestTokenAuditEvent(event: string): Promise<TokenAuditRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<TokenAuditRow>(
+        `SELECT * FROM token_audit WHERE event = $1 ORDER BY created_at DESC LIMIT 1`,
+        [event]
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // LLM Methods
+  async getLlmSettings(organizationId: string): Promise<LlmSettingsRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<LlmSettingsRow>(`SELECT * FROM llm_settings WHERE organization_id = $1`, [organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertLlmSettings(organizationId: string, settings: LlmSettings): Promise<LlmSettingsRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        INSERT INTO llm_settings (organization_id, route, features, updated_at)
+        VALUES ($1, $2, $3, now())
+        ON CONFLICT (organization_id) DO UPDATE SET route = EXCLUDED.route, features = EXCLUDED.features, updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<LlmSettingsRow>(sql, [organizationId, JSON.stringify(settings.route), JSON.stringify(settings.features)]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordLlmUsage(usage: {
+    organizationId: string;
+    feature: string;
+    provider: string;
+    model: string;
+    operation: 'answer' | 'search';
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    fallback: boolean;
+  }) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `llm_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      await client.query(
+        `INSERT INTO llm_usage
+           (id, organization_id, feature, provider, model, operation, prompt_tokens, completion_tokens, total_tokens, cost_usd, fallback, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, now())`,
+        [
+          id,
+          usage.organizationId,
+          usage.feature,
+          usage.provider,
+          usage.model,
+          usage.operation,
+          usage.promptTokens,
+          usage.completionTokens,
+          usage.totalTokens,
+          usage.costUsd,
+          usage.fallback,
+        ]
+      );
+      return id;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Tokens and cost per feature, provider and model for an organization over a period
+   */
+  async getLlmUsageSummary(organizationId: string, since: Date, until: Date): Promise<LlmUsageSummaryRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<LlmUsageSummaryRow>(
+        `SELECT feature, provider, model,
+                COUNT(*)::int AS calls,
+                COUNT(*) FILTER (WHERE fallback)::int AS fallback_calls,
+                COALESCE(SUM(prompt_tokens), 0)::bigint AS prompt_tokens,
+                COALESCE(SUM(completion_tokens), 0)::bigint AS completion_tokens,
+                COALESCE(SUM(total_tokens), 0)::bigint AS total_tokens,
+                COALESCE(SUM(cost_usd), 0) AS cost_usd
+         FROM llm_usage
+         WHERE organization_id = $1 AND created_at >= $2 AND created_at < $3
+         GROUP BY feature, provider, model
+         ORDER BY cost_usd DESC, total_tokens DESC`,
+        [organizationId, since, until]
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Media Storage Methods
+  async getStorageQuota(organizationId: string): Promise<StorageQuotaRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<StorageQuotaRow>(`SELECT * FROM storage_quotas WHERE organization_id = $1`, [organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async upsertStorageQuota(organizationId: string, quota: {
+    maxStorage: number;
+    maxFiles: number;
+    maxFileSize: number;
+    allowedTypes: string[];
+    autoCleanup: boolean;
+    cleanupDays: number;
+  }): Promise<StorageQuotaRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const sql = `
+        INSERT INTO storage_quotas (organization_id, max_storage, max_files, max_file_size, allowed_types, auto_cleanup, cleanup_days, updated_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+        ON CONFLICT (organization_id) DO UPDATE SET
+          max_storage = EXCLUDED.max_storage, max_files = EXCLUDED.max_files, max_file_size = EXCLUDED.max_file_size,
+          allowed_types = EXCLUDED.allowed_types, auto_cleanup = EXCLUDED.auto_cleanup, cleanup_days = EXCLUDED.cleanup_days,
+          updated_at = now()
+        RETURNING *;
+      `;
+      const { rows } = await client.query<StorageQuotaRow>(sql, [
+        organizationId,
+        quota.maxStorage,
+        quota.maxFiles,
+        quota.maxFileSize,
+        quota.allowedTypes,
+        quota.autoCleanup,
+        quota.cleanupDays,
+      ]);
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async getMediaAsset(id: string, organizationId: string): Promise<MediaAssetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(`SELECT * FROM media_assets WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getMediaAssetByHash(organizationId: string, contentHash: string): Promise<MediaAssetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(
+        `SELECT * FROM media_assets WHERE organization_id = $1 AND content_hash = $2`,
+        [organizationId, contentHash],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record an uploaded file unless the organization already has the same content or the new file would
+   * exceed its storage or file-count limit. Uploads of one organization are serialized so concurrent
+   * uploads cannot overrun the quota together.
+   */
+  async createMediaAsset(
+    asset: {
+      id: string;
+      organizationId: string;
+      storageDriver: string;
+      storageKey: string;
+      contentHash: string;
+      fileName: string;
+      mimeType: string;
+      fileSize: number;
+      category: string;
+      tags: string[];
+      description: string | null;
+      metadata: Record<string, unknown>;
+      uploadedBy: string | null;
+      // The file a media job derived this one from
+      sourceAssetId?: string | null;
+    },
+    limits: { maxStorage: number; maxFiles: number },
+  ): Promise<{ asset: MediaAssetRow; duplicate: boolean; exceeded?: undefined } | { asset: null; duplicate: false; exceeded: 'storage' | 'files' }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('media_assets:' || $1))`, [asset.organizationId]);
+
+      const { rows: existing } = await client.query<MediaAssetRow>(
+        `SELECT * FROM media_assets WHERE organization_id = $1 AND content_hash = $2`,
+        [asset.organizationId, asset.contentHash],
+      );
+      if (existing[0]) {
+        await client.query('COMMIT');
+        return { asset: existing[0], duplicate: true };
+      }
+
+      const { rows: usage } = await client.query<{ total_used: string; files_count: number }>(
+        `SELECT COALESCE(SUM(file_size), 0)::bigint AS total_used, COUNT(*)::int AS files_count
+         FROM media_assets WHERE organization_id = $1`,
+        [asset.organizationId],
+      );
+      const exceeded = Number(usage[0].total_used) + asset.fileSize > limits.maxStorage
+        ? 'storage'
+        : usage[0].files_count + 1 > limits.maxFiles ? 'files' : undefined;
+      if (exceeded) {
+        await client.query('ROLLBACK');
+        return { asset: null, duplicate: false, exceeded };
+      }
+
+      const { rows } = await client.query<MediaAssetRow>(
+        `INSERT INTO media_assets
+           (id, organization_id, storage_driver, storage_key, content_hash, file_name, mime_type, file_size,
+            category, tags, description, metadata, uploaded_by, source_asset_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, now(), now())
+         RETURNING *`,
+        [
+          asset.id,
+          asset.organizationId,
+          asset.storageDriver,
+          asset.storageKey,
+          asset.contentHash,
+          asset.fileName,
+          asset.mimeType,
+          asset.fileSize,
+          asset.category,
+          asset.tags,
+          asset.description,
+          JSON.stringify(asset.metadata),
+          asset.uploadedBy,
+          asset.sourceAssetId ?? null,
+        ],
+      );
+      await client.query('COMMIT');
+      return { asset: rows[0], duplicate: false };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listMediaAssets(organizationId: string, filters: {
+    category?: string;
+    tags?: string[];
+    search?: string;
+    sortBy: 'name' | 'size' | 'uploadedAt' | 'category';
+    sortOrder: 'asc' | 'desc';
+    limit: number;
+    offset: number;
+  }): Promise<{ rows: MediaAssetRow[]; total: number }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const conditions = ['organization_id = $1'];
+      const params: unknown[] = [organizationId];
+      if (filters.category) {
+        params.push(filters.category);
+        conditions.push(`category = $${params.length}`);
+      }
+      if (filters.tags && filters.tags.length > 0) {
+        params.push(filters.tags);
+        conditions.push(`tags @> $${params.length}::text[]`);
+      }
+      if (filters.search) {
+        params.push(`%${filters.search.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+        conditions.push(`(file_name ILIKE $${params.length} OR description ILIKE $${params.length})`);
+      }
+      const orderColumn = { name: 'file_name', size: 'file_size', uploadedAt: 'created_at', category: 'category' }[filters.sortBy];
+      const direction = filters.sortOrder === 'asc' ? 'ASC' : 'DESC';
+      const where = conditions.join(' AND ');
+
+      const { rows: count } = await client.query<{ total: number }>(`SELECT COUNT(*)::int AS total FROM media_assets WHERE ${where}`, params);
+      const { rows } = await client.query<MediaAssetRow>(
+        `SELECT * FROM media_assets WHERE ${where}
+         ORDER BY ${orderColumn} ${direction}, id ${direction}
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, filters.limit, filters.offset],
+      );
+      return { rows, total: count[0].total };
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateMediaAssetMetadata(id: string, organizationId: string, updates: { category?: string; tags?: string[]; description?: string | null }): Promise<MediaAssetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(
+        `UPDATE media_assets SET
+           category = COALESCE($3, category),
+           tags = COALESCE($4, tags),
+           description = CASE WHEN $5 THEN $6 ELSE description END,
+           updated_at = now()
+         WHERE id = $1 AND organization_id = $2
+         RETURNING *`,
+        [id, organizationId, updates.category ?? null, updates.tags ?? null, updates.description !== undefined, updates.description ?? null],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteMediaAsset(id: string, organizationId: string): Promise<MediaAssetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(`DELETE FROM media_assets WHERE id = $1 AND organization_id = $2 RETURNING *`, [id, organizationId]);
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Signed download links are not tied to a session, so the asset is looked up by id alone
+  async recordMediaAssetDownload(id: string): Promise<MediaAssetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(
+        `UPDATE media_assets SET download_count = download_count + 1, last_accessed_at = now() WHERE id = $1 RETURNING *`,
+        [id],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getStorageUsage(organizationId: string): Promise<StorageUsageRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<StorageUsageRow>(
+        `SELECT category, COALESCE(SUM(file_size), 0)::bigint AS used, COUNT(*)::int AS files_count
+         FROM media_assets WHERE organization_id = $1
+         GROUP BY category ORDER BY used DESC`,
+        [organizationId],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Daily uploads since `since`, the stored total just before it, and the most downloaded files
+   */
+  async getStorageAnalytics(organizationId: string, since: Date) {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows: daily } = await client.query<{ date: string; uploads: number; total_size: string }>(
+        `SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS date, COUNT(*)::int AS uploads, SUM(file_size)::bigint AS total_size
+         FROM media_assets WHERE organization_id = $1 AND created_at >= $2
+         GROUP BY 1 ORDER BY 1`,
+        [organizationId, since],
+      );
+      const { rows: before } = await client.query<{ total_used: string }>(
+        `SELECT COALESCE(SUM(file_size), 0)::bigint AS total_used FROM media_assets WHERE organization_id = $1 AND created_at < $2`,
+        [organizationId, since],
+      );
+      const { rows: topFiles } = await client.query<Pick<MediaAssetRow, 'id' | 'file_name' | 'file_size' | 'download_count' | 'last_accessed_at'>>(
+        `SELECT id, file_name, file_size, download_count, last_accessed_at FROM media_assets
+         WHERE organization_id = $1 AND download_count > 0
+         ORDER BY download_count DESC, last_accessed_at DESC LIMIT 10`,
+        [organizationId],
+      );
+      return { daily, usedBefore: Number(before[0].total_used), topFiles };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Assets of organizations with auto-cleanup whose last download (or upload) is older than their cleanup period
+  async getExpiredMediaAssets(limit: number = 500): Promise<MediaAssetRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaAssetRow>(
+        `SELECT a.* FROM media_assets a
+         JOIN storage_quotas q ON q.organization_id = a.organization_id
+         WHERE q.auto_cleanup AND COALESCE(a.last_accessed_at, a.created_at) < now() - make_interval(days => q.cleanup_days)
+         ORDER BY a.created_at ASC LIMIT $1`,
+        [limit],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Media Job Methods
+  async createMediaJobs(jobs: Array<{
+    id: string;
+    organizationId: string;
+    batchId: string | null;
+    type: 'optimization' | 'conversion';
+    sourceAssetId: string;
+    presetId: string | null;
+    settings: Record<string, any>;
+    createdBy: string | null;
+  }>): Promise<MediaJobRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const created: MediaJobRow[] = [];
+      for (const job of jobs) {
+        const { rows } = await client.query<MediaJobRow>(
+          `INSERT INTO media_jobs (id, organization_id, batch_id, type, source_asset_id, preset_id, settings, created_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           RETURNING *`,
+          [job.id, job.organizationId, job.batchId, job.type, job.sourceAssetId, job.presetId, JSON.stringify(job.settings), job.createdBy],
+        );
+        created.push(rows[0]);
+      }
+      await client.query('COMMIT');
+      return created;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // organizationId null looks the job up for the worker, which is not acting for an organization
+  async getMediaJob(id: string, organizationId: string | null): Promise<MediaJobRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaJobRow>(
+        `SELECT * FROM media_jobs WHERE id = $1 AND ($2::text IS NULL OR organization_id = $2)`,
+        [id, organizationId],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listMediaJobs(organizationId: string, filters: {
+    type?: string;
+    status?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ rows: MediaJobRow[]; total: number }> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const conditions = ['organization_id = $1'];
+      const params: unknown[] = [organizationId];
+      if (filters.type) {
+        params.push(filters.type);
+        conditions.push(`type = $${params.length}`);
+      }
+      if (filters.status) {
+        params.push(filters.status);
+        conditions.push(`status = $${params.length}`);
+      }
+      const where = conditions.join(' AND ');
+      const { rows: count } = await client.query<{ total: number }>(`SELECT COUNT(*)::int AS total FROM media_jobs WHERE ${where}`, params);
+      const { rows } = await client.query<MediaJobRow>(
+        `SELECT * FROM media_jobs WHERE ${where}
+         ORDER BY created_at DESC, id DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, filters.limit, filters.offset],
+      );
+      return { rows, total: count[0].total };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Start a pending job, or take over one whose worker stopped reporting progress for staleAfterMs.
+   * Null when the job is gone, finished, cancelled or still running elsewhere.
+   */
+  async claimMediaJob(id: string, staleAfterMs: number): Promise<MediaJobRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaJobRow>(
+        `UPDATE media_jobs
+         SET status = 'processing', progress = 0, attempts = attempts + 1, started_at = NOW(), updated_at = NOW(), error = NULL
+         WHERE id = $1
+           AND (status = 'pending' OR (status = 'processing' AND updated_at < NOW() - ($2::int * INTERVAL '1 millisecond')))
+         RETURNING *`,
+        [id, staleAfterMs],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Report progress of a running job. False once the job is no longer processing, e.g. it was cancelled.
+   * A job that keeps reporting is never taken over as stale.
+   */
+  async updateMediaJobProgress(id: string, progress: number): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE media_jobs SET progress = GREATEST(progress, $2), updated_at = NOW()
+         WHERE id = $1 AND status = 'processing'`,
+        [id, progress],
+      );
+      return (rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record how a job ended; a job can also go back to pending to be claimed by its next attempt.
+   * False when the job was cancelled or had already finished.
+   */
+  async finishMediaJob(
+    id: string,
+    outcome: { status: 'completed' | 'failed' | 'pending'; outputAssetId?: string; result?: Record<string, any>; error?: string },
+  ): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rowCount } = await client.query(
+        `UPDATE media_jobs
+         SET status = $2, output_asset_id = COALESCE($3, output_asset_id), result = COALESCE($4, result), error = $5,
+             progress = CASE WHEN $2 = 'completed' THEN 100 WHEN $2 = 'pending' THEN 0 ELSE progress END,
+             completed_at = CASE WHEN $2 = 'pending' THEN NULL ELSE NOW() END, updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'processing')`,
+        [id, outcome.status, outcome.outputAssetId ?? null, outcome.result ? JSON.stringify(outcome.result) : null, outcome.error ?? null],
+      );
+      return (rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel a pending or processing job. Null when the organization has no such job; cancelled is false when
+   * it had already finished.
+   */
+  async cancelMediaJob(id: string, organizationId: string): Promise<{ job: MediaJobRow; cancelled: boolean } | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaJobRow>(
+        `UPDATE media_jobs SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+         WHERE id = $1 AND organization_id = $2 AND status IN ('pending', 'processing')
+         RETURNING *`,
+        [id, organizationId],
+      );
+      if (rows[0]) return { job: rows[0], cancelled: true };
+      const { rows: existing } = await client.query<MediaJobRow>(
+        `SELECT * FROM media_jobs WHERE id = $1 AND organization_id = $2`,
+        [id, organizationId],
+      );
+      return existing[0] ? { job: existing[0], cancelled: false } : null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listMediaPresets(organizationId: string): Promise<MediaPresetRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaPresetRow>(
+        `SELECT * FROM media_presets WHERE organization_id = $1 ORDER BY name ASC`,
+        [organizationId],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getMediaPreset(id: string, organizationId: string): Promise<MediaPresetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaPresetRow>(
+        `SELECT * FROM media_presets WHERE id = $1 AND organization_id = $2`,
+        [id, organizationId],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Null when the organization already has a preset with the name
+  async createMediaPreset(preset: {
+    id: string;
+    organizationId: string;
+    name: string;
+    description: string | null;
+    type: 'optimization' | 'conversion';
+    category: MediaPresetRow['category'];
+    settings: Record<string, any>;
+    createdBy: string | null;
+  }): Promise<MediaPresetRow | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<MediaPresetRow>(
+        `INSERT INTO media_presets (id, organization_id, name, description, type, category, settings, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (organization_id, name) DO NOTHING
+         RETURNING *`,
+        [preset.id, preset.organizationId, preset.name, preset.description, preset.type, preset.category, JSON.stringify(preset.settings), preset.createdBy],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Platform Insights Methods
+  /**
+   * Claim published posts whose insights are due, pushing their next sync out by leaseMs so other workers
+   * skip them. Posts never synced are due straight away; posts older than trackingDays are no longer synced.
+   */
+  async claimDueScheduleInsights(limit: number, leaseMs: number, trackingDays: number): Promise<ScheduleInsightsRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<ScheduleInsightsRow>(
+        `UPDATE schedules s
+         SET insights_next_sync_at = NOW() + ($2::int * INTERVAL '1 millisecond')
+         FROM (
+           SELECT s2.id, ci.organization_id, ta.account_id AS target_external_id
+           FROM schedules s2
+           JOIN content_items ci ON ci.id = s2.content_item_id
+           LEFT JOIN target_accounts ta ON ta.id = s2.target_account_id
+           WHERE s2.status = 'published'
+             AND s2.provider_id IS NOT NULL AND s2.provider_id NOT LIKE 'dry_run_%'
+             AND s2.platform IN ('FACEBOOK', 'INSTAGRAM', 'LINKEDIN')
+             AND s2.scheduled_at >= NOW() - ($3::int * INTERVAL '1 day')
+             AND (s2.insights_next_sync_at <= NOW() OR (s2.insights_next_sync_at IS NULL AND s2.insights_synced_at IS NULL))
+           ORDER BY s2.insights_next_sync_at ASC NULLS FIRST, s2.scheduled_at DESC
+           LIMIT $1
+           FOR UPDATE OF s2 SKIP LOCKED
+         ) due
+         WHERE s.id = due.id
+         RETURNING s.id, s.platform::text AS platform, s.provider_id, s.scheduled_at, s.insights_failures,
+                   due.organization_id, due.target_external_id`,
+        [limit, leaseMs, trackingDays],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Claim active target accounts whose insights are due, as claimDueScheduleInsights does for posts.
+   * Accounts without insights_backfilled_at have not had their history loaded yet.
+   */
+  async claimDueTargetAccountInsights(limit: number, leaseMs: number): Promise<TargetAccountInsightsRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<TargetAccountInsightsRow>(
+        `UPDATE target_accounts ta
+         SET insights_next_sync_at = NOW() + ($2::int * INTERVAL '1 millisecond')
+         FROM (
+           SELECT id FROM target_accounts
+           WHERE is_active = true
+             AND UPPER(platform) IN ('FACEBOOK', 'INSTAGRAM', 'LINKEDIN')
+             AND (insights_next_sync_at IS NULL OR insights_next_sync_at <= NOW())
+           ORDER BY insights_next_sync_at ASC NULLS FIRST
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         ) due
+         WHERE ta.id = due.id
+         RETURNING ta.id, ta.organization_id, UPPER(ta.platform) AS platform, ta.account_id, ta.account_metadata,
+                   ta.insights_backfilled_at, ta.insights_failures`,
+        [limit, leaseMs],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store a post's metrics for the day and its engagement rate, and set when it is synced next
+   * (null once it is no longer tracked)
+   */
+  async recordScheduleInsights(
+    scheduleId: string,
+    organizationId: string,
+    platform: string,
+    date: string,
+    metrics: Record<string, number>,
+    engagement: number | null,
+    nextSyncAt: Date | null,
+  ): Promise<void> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const values = Object.entries(metrics).map(([metric, value]) => ({ date, metric, value }));
+      await this.upsertAnalyticsDaily(client, organizationId, platform, 'post', scheduleId, values);
+      await client.query(
+        `UPDATE schedules
+         SET engagement = COALESCE($2, engagement), insights_synced_at = NOW(), insights_next_sync_at = $3,
+             insights_failures = 0, insights_error = NULL
+         WHERE id = $1`,
+        [scheduleId, engagement, nextSyncAt],
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Store an account's daily metrics; backfilled marks its history as loaded
+  async recordTargetAccountInsights(
+    targetAccountId: string,
+    organizationId: string,
+    platform: string,
+    values: Array<{ date: string; metric: string; value: number }>,
+    nextSyncAt: Date,
+    backfilled: boolean,
+  ): Promise<void> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.upsertAnalyticsDaily(client, organizationId, platform, 'account', targetAccountId, values);
+      await client.query(
+        `UPDATE target_accounts
+         SET insights_synced_at = NOW(), insights_next_sync_at = $2, insights_failures = 0, insights_error = NULL,
+             insights_backfilled_at = CASE WHEN $3 THEN COALESCE(insights_backfilled_at, NOW()) ELSE insights_backfilled_at END
+         WHERE id = $1`,
+        [targetAccountId, nextSyncAt, backfilled],
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordInsightsFailure(kind: 'schedule' | 'target_account', id: string, error: string, nextSyncAt: Date): Promise<void> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const table = kind === 'schedule' ? 'schedules' : 'target_accounts';
+      await client.query(
+        `UPDATE ${table}
+         SET insights_failures = insights_failures + 1, insights_error = $2, insights_next_sync_at = $3
+         WHERE id = $1`,
+        [id, error, nextSyncAt],
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  // Calendar Feed Methods
+  async createCalendarFeed(feed: { organizationId: string; name: string; tokenHash: string; createdBy: string | null }): Promise<CalendarFeedRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `calfeed_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows } = await client.query<CalendarFeedRow>(
+        `INSERT INTO calendar_feeds (id, organization_id, name, token_hash, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, organization_id, name, created_by, created_at, last_accessed_at, revoked_at`,
+        [id, feed.organizationId, feed.name, feed.tokenHash, feed.createdBy],
+      );
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async listCalendarFeeds(organizationId: string): Promise<CalendarFeedRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CalendarFeedRow>(
+        `SELECT id, organization_id, name, created_by, created_at, last_accessed_at, revoked_at
+         FROM calendar_feeds WHERE organization_id = $1 ORDER BY created_at DESC`,
+        [organizationId],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  async revokeCalendarFeed(id: string, organizationId: string): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE calendar_feeds SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 AND organization_id = $2`,
+        [id, organizationId],
+      );
+      return (result?.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Feed URLs are not tied to a session, so the feed is looked up by its token alone
+  async useCalendarFeed(tokenHash: string): Promise<Pick<CalendarFeedRow, 'id' | 'organization_id' | 'name'> | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<Pick<CalendarFeedRow, 'id' | 'organization_id' | 'name'>>(
+        `UPDATE calendar_feeds SET last_accessed_at = NOW()
+         WHERE token_hash = $1 AND revoked_at IS NULL
+         RETURNING id, organization_id, name`,
+        [tokenHash],
+      );
+      return rows[0] || null;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCalendarFeedSchedules(organizationId: string, filters: {
+    since: Date;
+    platforms?: string[];
+    targetAccountIds?: string[];
+    limit: number;
+  }): Promise<CalendarFeedScheduleRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CalendarFeedScheduleRow>(
+        `SELECT s.id, s.content_item_id, s.platform, s.scheduled_at, s.status, s.target_account_id, s.target_account_name,
+                s.error_message, s.created_at, s.updated_at, ci.title, ci.type, ci.status AS content_status
+         FROM schedules s
+         JOIN content_items ci ON s.content_item_id = ci.id
+         WHERE ci.organization_id = $1
+           AND s.scheduled_at >= $2
+           AND ($3::text[] IS NULL OR s.platform::text = ANY($3))
+           AND ($4::text[] IS NULL OR s.target_account_id = ANY($4))
+         ORDER BY s.scheduled_at ASC
+         LIMIT $5`,
+        [
+          organizationId,
+          filters.since,
+          filters.platforms?.length ? filters.platforms : null,
+          filters.targetAccountIds?.length ? filters.targetAccountIds : null,
+          filters.limit,
+        ],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Create a draft content item with its first version and draft schedules for an imported calendar event.
+   * Returns null when the organization already imported the event.
+   */
+  async importCalendarEvent(event: {
+    organizationId: string;
+    eventKey: string;
+    title: string;
+    type: string;
+    body: string;
+    authorId: string;
+    schedules: Array<{
+      platform: string;
+      scheduledAt: Date;
+      targetAccount?: { id: string; account_name: string; account_type: string; account_metadata?: Record<string, unknown> };
+    }>;
+  }): Promise<{ contentItemId: string; scheduleIds: string[] } | null> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const contentItemId = `ci_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      await client.query(
+        `INSERT INTO content_items (id, organization_id, title, type, status, author_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4::content_type, 'DRAFT', $5, now(), now())`,
+        [contentItemId, event.organizationId, event.title, event.type, event.authorId],
+      );
+      const { rows: claimed } = await client.query(
+        `INSERT INTO calendar_import_events (organization_id, event_key, content_item_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (organization_id, event_key) DO NOTHING
+         RETURNING event_key`,
+        [event.organizationId, event.eventKey, contentItemId],
+      );
+      if (claimed.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const versionId = `cv_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      await client.query(
+        `INSERT INTO content_versions (id, content_item_id, version, title, body, media_urls, metadata_json, created_at)
+         VALUES ($1, $2, 1, $3, $4, '{}', $5, now())`,
+        [versionId, contentItemId, event.title, event.body, JSON.stringify({ source: 'calendar_import', eventKey: event.eventKey })],
+      );
+      await client.query(`UPDATE content_items SET current_version_id = $2 WHERE id = $1`, [contentItemId, versionId]);
+
+      const scheduleIds: string[] = [];
+      for (const schedule of event.schedules) {
+        const id = `sch_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+        await client.query(
+          `INSERT INTO schedules (
+             id, content_item_id, platform, scheduled_at, status, media_urls,
+             target_account_id, target_account_name, target_account_type, target_account_metadata, created_at, updated_at
+           )
+           VALUES ($1, $2, $3::platform, $4, 'draft', '{}', $5, $6, $7, COALESCE($8::jsonb, '{}'::jsonb), now(), now())`,
+          [
+            id,
+            contentItemId,
+            schedule.platform,
+            schedule.scheduledAt,
+            schedule.targetAccount?.id || null,
+            schedule.targetAccount?.account_name || null,
+            schedule.targetAccount?.account_type || null,
+            schedule.targetAccount ? JSON.stringify(schedule.targetAccount.account_metadata || {}) : null,
+          ],
+        );
+        scheduleIds.push(id);
+      }
+      await client.query('COMMIT');
+      this.notifyContentChanged(contentItemId);
+      return { contentItemId, scheduleIds };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Cadence Policy Methods
+  async listCadencePolicies(organizationId: string, enabledOnly: boolean = false): Promise<CadencePolicyRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CadencePolicyRow>(
+        `SELECT * FROM cadence_policies
+         WHERE organization_id = $1 AND ($2::boolean = false OR enabled = true)
+         ORDER BY target_account_id NULLS FIRST, created_at ASC`,
+        [organizationId, enabledOnly],
+      );
+      return rows.map(row => ({
+        ...row,
+        quiet_hours: typeof row.quiet_hours === 'string' ? JSON.parse(row.quiet_hours) : row.quiet_hours,
+        blackouts: typeof row.blackouts === 'string' ? JSON.parse(row.blackouts) : row.blackouts,
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  // One policy per organization and per target account; saving a scope again replaces its policy
+  async upsertCadencePolicy(policy: {
+    organizationId: string;
+    targetAccountId: string | null;
+    timezone: string;
+    maxPerDay: number | null;
+    maxPerWeek: number | null;
+    minGapMinutes: number | null;
+    quietHours: QuietHours[];
+    blackouts: BlackoutWindow[];
+    enabled: boolean;
+  }): Promise<CadencePolicyRow> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const id = `cadence_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const { rows } = await client.query<CadencePolicyRow>(
+        `INSERT INTO cadence_policies (
+           id, organization_id, target_account_id, timezone, max_per_day, max_per_week, min_gap_minutes, quiet_hours, blackouts, enabled
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (organization_id, (COALESCE(target_account_id, ''))) DO UPDATE SET
+           timezone = EXCLUDED.timezone, max_per_day = EXCLUDED.max_per_day, max_per_week = EXCLUDED.max_per_week,
+           min_gap_minutes = EXCLUDED.min_gap_minutes, quiet_hours = EXCLUDED.quiet_hours, blackouts = EXCLUDED.blackouts,
+           enabled = EXCLUDED.enabled, updated_at = NOW()
+         RETURNING *`,
+        [
+          id,
+          policy.organizationId,
+          policy.targetAccountId,
+          policy.timezone,
+          policy.maxPerDay,
+          policy.maxPerWeek,
+          policy.minGapMinutes,
+          JSON.stringify(policy.quietHours),
+          JSON.stringify(policy.blackouts),
+          policy.enabled,
+        ],
+      );
+      return rows[0];
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteCadencePolicy(id: string, organizationId: string): Promise<boolean> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(`DELETE FROM cadence_policies WHERE id = $1 AND organization_id = $2`, [id, organizationId]);
+      return (result?.rowCount ?? 0) > 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run `fn` holding the organization's cadence lock, so a cadence check and the schedules it lets through are not
+   * interleaved with another request's. The lock belongs to this connection's session and `fn` may use others.
+   */
+  async withCadenceLock<T>(organizationId: string, fn: () => Promise<T>): Promise<T> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      await client.query(`SELECT pg_advisory_lock(hashtext('cadence:' || $1))`, [organizationId]);
+      try {
+        return await fn();
+      } finally {
+        await client.query(`SELECT pg_advisory_unlock(hashtext('cadence:' || $1))`, [organizationId]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  // Schedules that count against cadence limits: everything not failed or cancelled
+  async getCadenceSchedules(organizationId: string, platforms: string[], from: Date, to: Date): Promise<CadenceScheduleRow[]> {
+    this.ensurePool();
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query<CadenceScheduleRow>(
+        `SELECT s.id, s.platform, s.target_account_id, s.scheduled_at
+         FROM schedules s
+         JOIN content_items ci ON s.content_item_id = ci.id
+         WHERE ci.organization_id = $1
+           AND s.platform::text = ANY($2)
+           AND s.scheduled_at >= $3 AND s.scheduled_at < $4
+           AND s.status IN ('draft', 'pending', 'queued', 'published')
+         ORDER BY s.scheduled_at ASC`,
+        [organizationId, platforms, from, to],
+      );
+      return rows;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async upsertAnalyticsDaily(
+    client: PoolClient,
+    organizationId: string,
+    platform: string,
+    scope: 'account' | 'post',
+    subjectId: string,
+    values: Array<{ date: string; metric: string; value: number }>,
+  ): Promise<void> {
+    if (values.length === 0) return;
+    await client.query(
+      `INSERT INTO analytics_daily (id, organization_id, platform, scope, subject_id, date, metric, value)
+       SELECT v.id, $1, $2::platform, $3, $4, v.date, v.metric, v.value
+       FROM unnest($5::text[], $6::date[], $7::text[], $8::float8[]) AS v(id, date, metric, value)
+       ON CONFLICT (organization_id, platform, scope, subject_id, date, metric) DO UPDATE SET value = EXCLUDED.value`,
+      [
+        organizationId,
+        platform,
+        scope,
+        subjectId,
+        values.map(() => `ad_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`),
+        values.map(v => v.date),
+        values.map(v => v.metric),
+        values.map(v => v.value),
+      ],
+    );
+  }
+}
+
+// Tables besides tokens that hold a secret encrypted with encryptToken, and the column it lives in
+export const ENCRYPTED_SECRET_COLUMNS = {
+  crm_connections: 'credentials_enc',
+  notification_channels: 'secret_enc',
+} as const;
+export type EncryptedSecretTable = keyof typeof ENCRYPTED_SECRET_COLUMNS;
+
+const CONTENT_SEARCH_DOCUMENT_SQL = `
+  SELECT ci.id, ci.organization_id, ci.type, ci.status, ci.title, ci.author_id, ci.created_at, ci.updated_at,
+         cv.id AS version_id, cv.title AS version_title, cv.summary, cv.body,
+         COALESCE((SELECT array_agg(t.tag ORDER BY t.tag) FROM content_tags t WHERE t.content_item_id = ci.id), '{}') AS tags,
+         COALESCE((SELECT array_agg(DISTINCT s.platform::text) FROM schedules s WHERE s.content_item_id = ci.id), '{}') AS platforms
+  FROM content_items ci
+  LEFT JOIN LATERAL (
+    SELECT v.* FROM content_versions v
+    WHERE v.content_item_id = ci.id
+    ORDER BY (v.id = ci.current_version_id) DESC, v.version DESC
+    LIMIT 1
+  ) cv ON true
+`;
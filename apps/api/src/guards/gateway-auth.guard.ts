@@ -4,6 +4,18 @@ import jwt from 'jsonwebtoken';
 
 export type Role = 'admin' | 'editor' | 'viewer';
 
+// The verified token payload on a request the guard let through; API key requests have none
+export interface GatewayUser {
+  sub: string;
+  roles?: Role[];
+  orgId?: string;
+  organizationId?: string;
+}
+
+export interface GatewayRequest {
+  user?: GatewayUser;
+}
+
 @Injectable()
 export class GatewayAuthGuard implements CanActivate {
   canActivate(context: ExecutionContext): boolean {
@@ -23,8 +35,8 @@ export class GatewayAuthGuard implements CanActivate {
     const token = auth.slice('Bearer '.length);
     const secret = process.env.JWT_SECRET || '';
     try {
-      const payload = jwt.verify(token, secret) as { sub: string; roles?: Role[] };
-      (req as any).user = payload;
+      const payload = jwt.verify(token, secret) as GatewayUser;
+      (req as Request & GatewayRequest).user = payload;
       return true; // For now, any valid JWT is allowed
     } catch {
       return false;
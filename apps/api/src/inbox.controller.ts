@@ -0,0 +1,144 @@
+import { Body, Controller, Get, HttpException, HttpStatus, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { InboxDeliveryError, InboxService, InboxValidationError } from './services/inbox.service';
+
+export interface UpdateConversationDto {
+  status?: string;
+  // A user id, 'me', or null to unassign
+  assignedTo?: string | null;
+}
+
+export interface ReplyDto {
+  message: string;
+}
+
+@UseGuards(GatewayAuthGuard, RolesGuard)
+@Controller('inbox')
+export class InboxController {
+  constructor(private readonly inboxService: InboxService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof InboxValidationError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    if (error instanceof InboxDeliveryError) return new HttpException(error.message, HttpStatus.BAD_GATEWAY);
+    return new HttpException((error instanceof Error && error.message) || 'Inbox operation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  private resolveAssignee(value: string | null | undefined, req: GatewayRequest): string | null | undefined {
+    if (value === 'me') return req.user?.sub;
+    if (value === 'unassigned' || value === '') return null;
+    return value;
+  }
+
+  @Get('conversations')
+  @Roles('editor', 'admin', 'viewer')
+  async getConversations(
+    @Req() req: GatewayRequest,
+    @Query('status') status?: string,
+    @Query('platform') platform?: string,
+    @Query('assignedTo') assignedTo?: string,
+    @Query('unread') unread?: string,
+    @Query('search') search?: string,
+    @Query('page') page = '1',
+    @Query('limit') limit = '20',
+  ) {
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+
+    const { conversations, total } = await this.inboxService.listConversations(
+      this.extractOrganizationId(req),
+      {
+        status,
+        platform: platform ? platform.toUpperCase() : undefined,
+        assignedTo: this.resolveAssignee(assignedTo, req),
+        unreadOnly: unread === 'true',
+        search,
+      },
+      pageNum,
+      limitNum,
+    );
+
+    return {
+      conversations,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    };
+  }
+
+  @Get('conversations/:id')
+  @Roles('editor', 'admin', 'viewer')
+  async getConversation(
+    @Param('id') conversationId: string,
+    @Req() req: GatewayRequest,
+    @Query('limit') limit?: string,
+    @Query('before') before?: string,
+  ) {
+    const beforeDate = before ? new Date(before) : undefined;
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      throw new HttpException('before must be a date', HttpStatus.BAD_REQUEST);
+    }
+    const result = await this.inboxService.getConversation(this.extractOrganizationId(req), conversationId, {
+      limit: limit ? Math.min(200, Math.max(1, parseInt(limit) || 50)) : undefined,
+      before: beforeDate,
+    });
+    if (!result) {
+      throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+    }
+    return result;
+  }
+
+  @Post('conversations/:id/read')
+  @Roles('editor', 'admin', 'viewer')
+  async markRead(@Param('id') conversationId: string, @Req() req: GatewayRequest) {
+    const updated = await this.inboxService.markRead(this.extractOrganizationId(req), conversationId);
+    if (!updated) {
+      throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Conversation marked as read', conversationId };
+  }
+
+  @Put('conversations/:id')
+  @Roles('editor', 'admin')
+  async updateConversation(@Param('id') conversationId: string, @Body() body: UpdateConversationDto, @Req() req: GatewayRequest) {
+    try {
+      const conversation = await this.inboxService.updateConversation(this.extractOrganizationId(req), conversationId, {
+        status: body?.status,
+        assignedTo: this.resolveAssignee(body?.assignedTo, req),
+      });
+      if (!conversation) {
+        throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'Conversation updated successfully', conversation };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Post('conversations/:id/reply')
+  @Roles('editor', 'admin')
+  async reply(@Param('id') conversationId: string, @Body() body: ReplyDto, @Req() req: GatewayRequest) {
+    try {
+      const message = await this.inboxService.reply(this.extractOrganizationId(req), conversationId, body?.message, req.user?.sub);
+      if (!message) {
+        throw new HttpException('Conversation not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'Reply sent successfully', reply: message };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+}
@@ -52,7 +52,12 @@ export class TokenRefreshInterceptor implements NestInterceptor {
     return new Observable(observer => {
       const req = context.switchToHttp().getRequest();
       const correlationId = (req as any)?.correlationId;
-      this.tokenService.handleTokenRefresh(provider as any, 'old_token', correlationId)
+      const organizationId = req?.user?.orgId || req?.user?.organizationId;
+      if (!organizationId) {
+        observer.error(new Error(`Token refresh for ${provider} needs an organization context`));
+        return;
+      }
+      this.tokenService.handleTokenRefresh({ organizationId, correlationId }, provider as any)
         .then(newToken => {
           if (newToken) {
             logJson(this.logger, 'log', 'token_refreshed_retrying', { provider, correlationId });
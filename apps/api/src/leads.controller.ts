@@ -0,0 +1,169 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Put, Query, Req, UseGuards } from '@nestjs/common';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { LeadInput, LeadValidationError, LeadsService } from './services/leads.service';
+
+export interface MergeLeadsDto {
+  primaryId: string;
+  duplicateIds: string[];
+}
+
+const SORT_FIELDS = ['created_at', 'updated_at', 'score'] as const;
+
+@UseGuards(GatewayAuthGuard, RolesGuard)
+@Controller('leads')
+export class LeadsController {
+  constructor(private readonly leadsService: LeadsService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  private toHttpError(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof LeadValidationError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    return new HttpException((error instanceof Error && error.message) || 'Lead operation failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  @Get()
+  @Roles('editor', 'admin', 'viewer')
+  async getLeads(
+    @Req() req: GatewayRequest,
+    @Query('status') status?: string,
+    @Query('source') source?: string,
+    @Query('minScore') minScore?: string,
+    @Query('maxScore') maxScore?: string,
+    @Query('assignedTo') assignedTo?: string,
+    @Query('search') search?: string,
+    @Query('sort') sort?: string,
+    @Query('page') page = '1',
+    @Query('limit') limit = '20',
+  ) {
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const sortField = SORT_FIELDS.find(s => s === sort) || 'created_at';
+
+    const { leads, total } = await this.leadsService.listLeads(
+      this.extractOrganizationId(req),
+      {
+        status,
+        source,
+        minScore: minScore !== undefined ? Number(minScore) : undefined,
+        maxScore: maxScore !== undefined ? Number(maxScore) : undefined,
+        assignedTo,
+        search,
+      },
+      pageNum,
+      limitNum,
+      sortField,
+    );
+
+    return {
+      leads,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    };
+  }
+
+  @Get('duplicates')
+  @Roles('editor', 'admin')
+  async getDuplicates(@Req() req: GatewayRequest) {
+    const groups = await this.leadsService.findDuplicates(this.extractOrganizationId(req));
+    return { groups };
+  }
+
+  @Post('merge')
+  @Roles('editor', 'admin')
+  async mergeLeads(@Body() body: MergeLeadsDto, @Req() req: GatewayRequest) {
+    try {
+      const result = await this.leadsService.mergeLeads(this.extractOrganizationId(req), body?.primaryId, body?.duplicateIds);
+      if (!result) {
+        throw new HttpException('Lead not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'Leads merged successfully', ...result };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Post('merge-duplicates')
+  @Roles('admin')
+  async mergeAllDuplicates(@Req() req: GatewayRequest) {
+    const merges = await this.leadsService.mergeAllDuplicates(this.extractOrganizationId(req));
+    return {
+      message: `Merged ${merges.reduce((n, m) => n + m.mergedIds.length, 0)} duplicate leads`,
+      merges,
+    };
+  }
+
+  @Get(':id')
+  @Roles('editor', 'admin', 'viewer')
+  async getLead(@Param('id') leadId: string, @Req() req: GatewayRequest) {
+    const lead = await this.leadsService.getLead(this.extractOrganizationId(req), leadId);
+    if (!lead) {
+      throw new HttpException('Lead not found', HttpStatus.NOT_FOUND);
+    }
+    return lead;
+  }
+
+  @Post()
+  @Roles('editor', 'admin')
+  async createLead(@Body() body: LeadInput, @Req() req: GatewayRequest) {
+    try {
+      const lead = await this.leadsService.createLead(this.extractOrganizationId(req), body || {});
+      return { message: 'Lead created successfully', lead };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Put(':id')
+  @Roles('editor', 'admin')
+  async updateLead(@Param('id') leadId: string, @Body() body: LeadInput, @Req() req: GatewayRequest) {
+    try {
+      const lead = await this.leadsService.updateLead(this.extractOrganizationId(req), leadId, body || {});
+      if (!lead) {
+        throw new HttpException('Lead not found', HttpStatus.NOT_FOUND);
+      }
+      return { message: 'Lead updated successfully', lead };
+    } catch (error) {
+      throw this.toHttpError(error);
+    }
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  async deleteLead(@Param('id') leadId: string, @Req() req: GatewayRequest) {
+    const deleted = await this.leadsService.deleteLead(this.extractOrganizationId(req), leadId);
+    if (!deleted) {
+      throw new HttpException('Lead not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Lead deleted successfully', leadId };
+  }
+
+  @Get(':id/conversations')
+  @Roles('editor', 'admin', 'viewer')
+  async getConversations(@Param('id') leadId: string, @Req() req: GatewayRequest) {
+    const conversations = await this.leadsService.getConversations(this.extractOrganizationId(req), leadId);
+    return { conversations };
+  }
+
+  @Post(':id/conversations/:conversationId')
+  @Roles('editor', 'admin')
+  async linkConversation(@Param('id') leadId: string, @Param('conversationId') conversationId: string, @Req() req: GatewayRequest) {
+    const conversation = await this.leadsService.linkConversation(this.extractOrganizationId(req), leadId, conversationId);
+    if (!conversation) {
+      throw new HttpException('Lead or conversation not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Conversation linked to lead', leadId, conversationId };
+  }
+}
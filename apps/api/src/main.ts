@@ -5,9 +5,31 @@ import { AppModule } from './app.module';
 import { json, raw, urlencoded } from 'body-parser';
 import { loadEnv } from '../../../packages/config/env';
 import cookieParser from 'cookie-parser';
+import { getTokenKeyRing } from './token.util';
+import { loadStorageSigningSecret } from './services/media-storage.service';
 
 async function bootstrap() {
   const env = loadEnv();
+  // Token encryption keys: a bad key ring (or, in production, none at all) would leave stored tokens unreadable
+  try {
+    const keyRing = getTokenKeyRing();
+    if (keyRing.usesDevFallback) {
+      // eslint-disable-next-line no-console
+      console.warn('TOKEN_ENC_KEYS not configured; encrypting tokens with the development key');
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Invalid token encryption keys: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  // Download links signed with a known secret could be forged by anyone
+  try {
+    loadStorageSigningSecret();
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Invalid storage configuration: ${(error as Error).message}`);
+    process.exit(1);
+  }
   const app = await NestFactory.create(AppModule);
   
   // Security headers
@@ -0,0 +1,158 @@
+import { Body, Controller, Get, HttpException, HttpStatus, Param, Post, Query, Req, UseGuards } from '@nestjs/common';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { MediaJobConflictError, MediaJobRequest, MediaJobsService, MediaJobType, MediaJobValidationError } from './services/media-jobs.service';
+
+export interface MediaBatchDto {
+  fileIds: string[];
+  operations: { type: MediaJobType; settings?: Record<string, unknown>; presetId?: string };
+}
+
+// Settings for a single optimization or conversion, next to the preset they override
+export interface MediaJobSettingsDto {
+  presetId?: string;
+  [setting: string]: unknown;
+}
+
+// Conversion and optimization run on the worker; these routes queue jobs and report on them
+@UseGuards(GatewayAuthGuard, RolesGuard)
+@Controller('media')
+export class MediaController {
+  constructor(private readonly mediaJobs: MediaJobsService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  private toHttpException(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof MediaJobValidationError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    if (error instanceof MediaJobConflictError) return new HttpException(error.message, HttpStatus.CONFLICT);
+    return new HttpException((error instanceof Error && error.message) || 'Media request failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  private async queueJob(fileId: string, request: MediaJobRequest, req: GatewayRequest) {
+    let job;
+    try {
+      job = await this.mediaJobs.createJob(this.extractOrganizationId(req), req.user?.sub || null, fileId, request);
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+    if (!job) {
+      throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, jobId: job.id, status: job.status, originalFileId: fileId, statusUrl: `/media/status/${job.id}` };
+  }
+
+  // Body: optimization settings, optionally with presetId
+  @Post('optimize/:fileId')
+  @Roles('editor', 'admin')
+  async optimize(@Param('fileId') fileId: string, @Body() body: MediaJobSettingsDto, @Req() req: GatewayRequest) {
+    const { presetId, ...settings } = body || {};
+    return this.queueJob(fileId, { type: 'optimization', presetId, settings }, req);
+  }
+
+  // Body: conversion settings, optionally with presetId
+  @Post('convert/:fileId')
+  @Roles('editor', 'admin')
+  async convert(@Param('fileId') fileId: string, @Body() body: MediaJobSettingsDto, @Req() req: GatewayRequest) {
+    const { presetId, ...settings } = body || {};
+    return this.queueJob(fileId, { type: 'conversion', presetId, settings }, req);
+  }
+
+  @Get('status/:jobId')
+  @Roles('editor', 'admin', 'viewer')
+  async getStatus(@Param('jobId') jobId: string, @Req() req: GatewayRequest) {
+    const job = await this.mediaJobs.getJob(this.extractOrganizationId(req), jobId);
+    if (!job) {
+      throw new HttpException('Media job not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, jobId: job.id, ...job };
+  }
+
+  @Post('cancel/:jobId')
+  @Roles('editor', 'admin')
+  async cancel(@Param('jobId') jobId: string, @Req() req: GatewayRequest) {
+    let job;
+    try {
+      job = await this.mediaJobs.cancelJob(this.extractOrganizationId(req), jobId);
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+    if (!job) {
+      throw new HttpException('Media job not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, message: 'Media job cancelled', job };
+  }
+
+  @Post('batch')
+  @Roles('editor', 'admin')
+  async batch(@Body() body: MediaBatchDto, @Req() req: GatewayRequest) {
+    const operations = body?.operations;
+    if (!operations || typeof operations !== 'object') {
+      throw new HttpException('operations is required', HttpStatus.BAD_REQUEST);
+    }
+    try {
+      const { batchId, jobs, estimatedTime } = await this.mediaJobs.createBatch(
+        this.extractOrganizationId(req),
+        req.user?.sub || null,
+        body.fileIds,
+        { type: operations.type, presetId: operations.presetId, settings: operations.settings },
+      );
+      return {
+        success: true,
+        batchId,
+        totalFiles: jobs.length,
+        estimatedTime,
+        jobs: jobs.map(job => ({ fileId: job.originalFileId, jobId: job.id, status: 'queued' })),
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get('presets')
+  @Roles('editor', 'admin', 'viewer')
+  async getPresets(@Req() req: GatewayRequest) {
+    const presets = await this.mediaJobs.getPresets(this.extractOrganizationId(req));
+    return { success: true, presets };
+  }
+
+  @Post('presets')
+  @Roles('editor', 'admin')
+  async createPreset(@Body() body: Record<string, unknown>, @Req() req: GatewayRequest) {
+    try {
+      const preset = await this.mediaJobs.createPreset(this.extractOrganizationId(req), req.user?.sub || null, body || {});
+      return { success: true, preset };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get('history')
+  @Roles('editor', 'admin', 'viewer')
+  async getHistory(
+    @Req() req: GatewayRequest,
+    @Query('type') type?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    try {
+      const result = await this.mediaJobs.listHistory(this.extractOrganizationId(req), {
+        type,
+        status,
+        limit: limit ? parseInt(limit, 10) || 50 : 50,
+        offset: offset ? parseInt(offset, 10) || 0 : 0,
+      });
+      return { success: true, ...result };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpException, HttpStatus, Param, Post, Query, Req, UseGuards } from '@nestjs/common';
+import { DbService } from './db.service';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { NewsletterService } from './services/newsletter.service';
+
+export interface CreateSubscriberListDto {
+  name: string;
+  description?: string;
+  fromName?: string;
+  fromEmail?: string;
+  doubleOptIn?: boolean;
+}
+
+export interface SubscribeDto {
+  email: string;
+  name?: string;
+}
+
+// Subscribe, confirm and unsubscribe are public: they are reached from sign-up forms and email links
+@Controller('newsletter')
+export class NewsletterController {
+  constructor(
+    private readonly dbService: DbService,
+    private readonly newsletterService: NewsletterService,
+  ) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  @Get('lists')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getLists(@Req() req: GatewayRequest) {
+    const lists = await this.newsletterService.getLists(this.extractOrganizationId(req));
+    return { lists };
+  }
+
+  @Post('lists')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async createList(@Body() body: CreateSubscriberListDto, @Req() req: GatewayRequest) {
+    try {
+      const list = await this.newsletterService.createList(this.extractOrganizationId(req), body || ({} as CreateSubscriberListDto));
+      return { message: 'Subscriber list created successfully', list };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      throw new HttpException((error instanceof Error && error.message) || 'Failed to create subscriber list', HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  @Delete('lists/:id')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('admin')
+  async deleteList(@Param('id') listId: string, @Req() req: GatewayRequest) {
+    const deleted = await this.newsletterService.deleteList(this.extractOrganizationId(req), listId);
+    if (!deleted) {
+      throw new HttpException('Subscriber list not found', HttpStatus.NOT_FOUND);
+    }
+    return { message: 'Subscriber list deleted successfully', listId };
+  }
+
+  @Get('lists/:id/subscribers')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async getSubscribers(
+    @Param('id') listId: string,
+    @Req() req: GatewayRequest,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const subscribers = await this.newsletterService.getSubscribers(this.extractOrganizationId(req), listId, {
+      status,
+      limit: limit ? Math.min(parseInt(limit, 10) || 100, 1000) : 100,
+      offset: offset ? parseInt(offset, 10) || 0 : 0,
+    });
+    if (!subscribers) {
+      throw new HttpException('Subscriber list not found', HttpStatus.NOT_FOUND);
+    }
+    return { listId, subscribers };
+  }
+
+  // Admin import: already-consented addresses skip the confirmation email
+  @Post('lists/:id/subscribers')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async addSubscriber(@Param('id') listId: string, @Body() body: SubscribeDto & { confirmed?: boolean }, @Req() req: GatewayRequest) {
+    try {
+      const subscriber = await this.newsletterService.subscribe(listId, body?.email, body?.name, {
+        organizationId: this.extractOrganizationId(req),
+        skipConfirmation: body?.confirmed === true,
+      });
+      return { message: 'Subscriber added successfully', subscriber };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      const message = (error instanceof Error && error.message) || 'Failed to add subscriber';
+      const status = message === 'Subscriber list not found' ? HttpStatus.NOT_FOUND : HttpStatus.BAD_REQUEST;
+      throw new HttpException(message, status);
+    }
+  }
+
+  @Get('deliveries/:scheduleId')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getDeliveries(@Param('scheduleId') scheduleId: string, @Req() req: GatewayRequest) {
+    const organizationId = this.extractOrganizationId(req);
+    const deliveries = await this.dbService.getNewsletterDeliveries(scheduleId);
+    if (deliveries.length > 0) {
+      const content = await this.dbService.getContentItem(deliveries[0].content_item_id) as { organization_id: string } | null;
+      if (!content || content.organization_id !== organizationId) {
+        throw new HttpException('Schedule not found', HttpStatus.NOT_FOUND);
+      }
+    }
+
+    const counts = deliveries.reduce((acc: Record<string, number>, d) => {
+      acc[d.status] = (acc[d.status] || 0) + 1;
+      return acc;
+    }, {});
+    return { scheduleId, counts, deliveries };
+  }
+
+  @Post('lists/:id/subscribe')
+  async subscribe(@Param('id') listId: string, @Body() body: SubscribeDto) {
+    try {
+      const subscriber = await this.newsletterService.subscribe(listId, body?.email, body?.name);
+      return {
+        status: subscriber.status,
+        message: subscriber.status === 'subscribed'
+          ? 'Subscribed successfully'
+          : 'Check your inbox to confirm your subscription',
+      };
+    } catch (error) {
+      const message = (error instanceof Error && error.message) || 'Failed to subscribe';
+      const status = message === 'Subscriber list not found' ? HttpStatus.NOT_FOUND : HttpStatus.BAD_REQUEST;
+      throw new HttpException(message, status);
+    }
+  }
+
+  @Get('confirm/:token')
+  async confirm(@Param('token') token: string) {
+    const subscriber = await this.newsletterService.confirm(token);
+    if (!subscriber) {
+      throw new HttpException('Invalid or expired confirmation link', HttpStatus.NOT_FOUND);
+    }
+    return { status: subscriber.status, message: 'Subscription confirmed' };
+  }
+
+  @Get('unsubscribe/:token')
+  async unsubscribe(@Param('token') token: string) {
+    const subscriber = await this.newsletterService.unsubscribe(token);
+    if (!subscriber) {
+      throw new HttpException('Invalid unsubscribe link', HttpStatus.NOT_FOUND);
+    }
+    return { status: subscriber.status, message: 'You have been unsubscribed' };
+  }
+
+  // RFC 8058 one-click unsubscribe, posted by mail clients via the List-Unsubscribe-Post header
+  @Post('unsubscribe/:token')
+  @HttpCode(HttpStatus.OK)
+  async unsubscribeOneClick(@Param('token') token: string) {
+    return this.unsubscribe(token);
+  }
+}
@@ -14,6 +14,7 @@ import { Roles } from './decorators/roles.decorator';
 import { logJson, redactToken } from './utils/logger';
 import { MetaClientService } from './platforms/meta/meta-client.service';
 import { LinkedInClientService } from './platforms/linkedin/linkedin-client.service';
+import { WordPressClientService } from './platforms/wordpress/wordpress-client.service';
 
 const supportedProviders = new Set(['meta', 'linkedin', 'google', 'youtube']);
 
@@ -40,7 +41,7 @@ function mapPlatform(provider: string): string {
 @Controller('oauth')
 export class OAuthController {
   private readonly redis: Redis;
-  constructor(private readonly oauth: OAuthService, private readonly db: DbService, private readonly audit: TokenAuditService, private readonly tokenService: TokenService, private readonly metaClient: MetaClientService, private readonly linkedinClient: LinkedInClientService) {
+  constructor(private readonly oauth: OAuthService, private readonly db: DbService, private readonly audit: TokenAuditService, private readonly tokenService: TokenService, private readonly metaClient: MetaClientService, private readonly linkedinClient: LinkedInClientService, private readonly wordpressClient: WordPressClientService) {
     const url = process.env.REDIS_URL || 'redis://redis:6379';
     this.redis = new Redis(url);
   }
@@ -270,16 +271,19 @@ export class OAuthController {
   }
 
   /**
-   * List Facebook Pages available for the current org's connected Meta user token
+   * List Facebook Pages available for the current org's connected Meta user token: the connection stored under
+   * ?accountId= (its first page's id), or the most recently connected one
    */
   @Get('meta/pages')
   @Roles('editor', 'admin')
-  async listMetaPages(@Res() res: Response) {
+  async listMetaPages(@Res() res: Response, @Query('accountId') accountId?: string) {
     try {
       const orgId = ((res.req as any)?.user?.orgId) as string | undefined;
       if (!orgId) throw new HttpException('org_not_found', HttpStatus.FORBIDDEN);
-      this.tokenService.setOrgId(orgId);
-      const t = await this.tokenService.getValidAccessToken('meta');
+      const correlationId = (res.req as any)?.correlationId;
+      const t = accountId
+        ? await this.tokenService.getAccountAccessToken(orgId, 'FACEBOOK', accountId, correlationId)
+        : await this.tokenService.getValidAccessToken({ organizationId: orgId, correlationId }, 'meta');
       if (!t?.accessToken) {
         throw new HttpException('meta_token_not_found', HttpStatus.BAD_REQUEST);
       }
@@ -303,12 +307,9 @@ export class OAuthController {
       const { pageId } = body || ({} as any);
       if (!pageId) throw new HttpException('pageId_required', HttpStatus.BAD_REQUEST);
 
-      // Get user token and fetch pages to find the selected page's access token
-      this.tokenService.setOrgId(orgId);
-      const t = await this.tokenService.getValidAccessToken('meta');
-      if (!t?.accessToken) throw new HttpException('meta_token_not_found', HttpStatus.BAD_REQUEST);
-      const pages = await this.metaClient.getUserPages(t.accessToken);
-      const page = pages.find(p => p.id === pageId);
+      // Find the Meta connection that manages the page, for the page's own access token
+      const page = await this.tokenService.findConnectedAccount(orgId, 'FACEBOOK', async t =>
+        (await this.metaClient.getUserPages(t.accessToken)).find(p => p.id === pageId), (res.req as any)?.correlationId);
       if (!page) throw new HttpException('page_not_accessible', HttpStatus.NOT_FOUND);
 
       // Upsert social account for the selected page and store the page access token
@@ -337,6 +338,47 @@ export class OAuthController {
     }
   }
 
+  /**
+   * Connect a WordPress site using an application password (WordPress has no OAuth for self-hosted sites)
+   * Body: { siteUrl: string; username: string; applicationPassword: string }
+   */
+  @Post('wordpress/connect')
+  @Roles('admin')
+  async connectWordPress(@Res() res: Response, @Body() body: { siteUrl: string; username: string; applicationPassword: string }) {
+    try {
+      const orgId = ((res.req as any)?.user?.orgId) as string | undefined;
+      if (!orgId) throw new HttpException('org_not_found', HttpStatus.FORBIDDEN);
+      const { siteUrl, username, applicationPassword } = body || ({} as any);
+      if (!siteUrl || !username || !applicationPassword) {
+        throw new HttpException('siteUrl_username_applicationPassword_required', HttpStatus.BAD_REQUEST);
+      }
+      const normalizedSiteUrl = siteUrl.replace(/\/+$/, '');
+
+      const credentials = this.wordpressClient.encodeCredentials(username, applicationPassword);
+      const user = await this.wordpressClient.validateCredentials(normalizedSiteUrl, credentials);
+      if (!user) throw new HttpException('wordpress_credentials_invalid', HttpStatus.BAD_REQUEST);
+
+      const platform = 'WORDPRESS';
+      const socialId = await this.db.upsertSocialAccount(orgId, platform, normalizedSiteUrl, user.name || normalizedSiteUrl);
+      const scopes = 'application_password';
+      await this.db.insertToken(socialId, encryptToken(credentials), null, null, scopes);
+      await this.tokenService.evictTokenCache(orgId, platform, socialId);
+
+      await this.audit.record('acquire', {
+        orgId,
+        provider: 'wordpress',
+        socialAccountId: socialId,
+        success: true,
+        scopes,
+        correlationId: (res.req as any)?.correlationId,
+      });
+
+      return res.status(HttpStatus.OK).json({ saved: true, platform, socialAccountId: socialId, site: { url: normalizedSiteUrl, user: user.name } });
+    } catch (e: any) {
+      throw new HttpException(e?.message || 'failed_to_connect_wordpress', e?.status || HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
   // Dev-only: persist a dummy token without performing an actual OAuth exchange
   @Get(':provider/dev-save')
   async devSave(@Param('provider') provider: string, @Res() res: Response) {
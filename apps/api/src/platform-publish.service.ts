@@ -1,18 +1,59 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { TokenService } from './token.service';
+import { AccessTokenInfo, TokenService, providerForPlatform } from './token.service';
 import { DbService } from './db.service';
 import { MetaClientService } from './platforms/meta/meta-client.service';
 import { LinkedInClientService } from './platforms/linkedin/linkedin-client.service';
+import { WordPressClientService, WordPressPostStatus, isRetryableWordPressError } from './platforms/wordpress/wordpress-client.service';
 import { MediaProcessingService } from './services/media-processing.service';
 import { TemplateTuningService } from './services/template-tuning.service';
+import { NewsletterService } from './services/newsletter.service';
+import { EnhancedErrorHandlingService } from './services/enhanced-error-handling.service';
+import { CircuitOpenError } from './services/circuit-breaker';
 import axios, { AxiosResponse, AxiosError } from 'axios';
 
+// The featured image is downloaded inside the publish job, so a slow or huge image must not hold it up
+const FEATURED_IMAGE_TIMEOUT_MS = 30000;
+const FEATURED_IMAGE_MAX_BYTES = 20 * 1024 * 1024;
+
 export interface PublishResult {
   success: boolean;
   providerId?: string;
   error?: string;
   retryAfter?: number;
   statusCode?: number;
+  // Set when the failure is transient and the publish job should be retried
+  retryable?: boolean;
+}
+
+/**
+ * The account a schedule publishes to (a target_accounts row). accountId is the platform's own id:
+ * Facebook page id, Instagram business account id or LinkedIn organization id.
+ */
+export interface PublishTarget {
+  id: string;
+  platform: string;
+  accountId: string;
+  accountName: string;
+  accountType: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * The schedule's target account cannot be published to (deactivated, removed, or no longer reachable with
+ * the connected credentials). Retrying will not help; the schedule needs a new target or a reconnect.
+ */
+export class PublishTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublishTargetError';
+  }
+}
+
+// A provider-side failure (rate limit or 5xx), counted by the provider's circuit breaker
+class ProviderOutageError extends Error {
+  constructor(readonly result: PublishResult) {
+    super(result.error || 'Provider outage');
+  }
 }
 
 export interface PublishJobData {
@@ -36,27 +77,26 @@ export class PlatformPublishService {
     private readonly linkedinClient: LinkedInClientService,
     private readonly mediaService: MediaProcessingService,
     private readonly templateTuning: TemplateTuningService,
+    private readonly wordpressClient: WordPressClientService,
+    private readonly newsletterService: NewsletterService,
+    private readonly errorHandling: EnhancedErrorHandlingService,
   ) {}
 
   async publishToPlatform(jobData: PublishJobData): Promise<PublishResult> {
-    const { contentItemId, platform, adaptedContent, mediaUrls = [], scheduleId, organizationId } = jobData;
+    const { contentItemId, platform, adaptedContent, mediaUrls = [], scheduleId, organizationId, scheduledAt } = jobData;
     
     try {
       // Idempotency: check if already published for this schedule
+      let currentSchedule: any = null;
       if (scheduleId) {
         const schedule = await this.dbService.getContentSchedules(contentItemId);
-        const current = (schedule || []).find((s: any) => s.id === scheduleId);
-        if (current && current.status === 'published') {
+        currentSchedule = (schedule || []).find((s: any) => s.id === scheduleId) || null;
+        if (currentSchedule && currentSchedule.status === 'published') {
           this.logger.log(`Skip publish: already published schedule ${scheduleId}`);
-          return { success: true, providerId: current.provider_id, statusCode: 200 };
+          return { success: true, providerId: currentSchedule.provider_id, statusCode: 200 };
         }
       }
 
-      // Ensure token context scoped per org when provided
-      if (organizationId && (this.tokenService as any).setOrgId) {
-        (this.tokenService as any).setOrgId(organizationId);
-      }
-
       // Per-org dry run override
       let isDryRun = process.env.DRY_RUN === 'true';
       if (organizationId && (this.dbService as any).getAutopostSettings) {
@@ -72,10 +112,10 @@ export class PlatformPublishService {
         } catch {}
       }
 
-      // Get valid access token
-      const tokenInfo = await this.tokenService.getValidAccessToken(platform.toLowerCase() as any);
-      if (!tokenInfo) {
-        return { success: false, error: 'No valid token available' };
+      // Newsletters go out over SMTP and don't use platform tokens
+      if (platform.toUpperCase() === 'MAIL') {
+        if (isDryRun) { this.logger.log('[DRY_RUN] Newsletter send skipped'); return { success: true, providerId: 'dry_run_mail', statusCode: 200 }; }
+        return await this.publishNewsletter(contentItemId, scheduleId, adaptedContent);
       }
 
       // Get content details
@@ -86,27 +126,49 @@ export class PlatformPublishService {
         return { success: false, error: 'Content not found' };
       }
 
-      // Platform-specific publishing
+      // Tokens always come from the organization that owns the content
+      const tokenOrgId: string = content.organization_id || organizationId;
+
+      // The schedule's chosen account, checked before dry runs so a disconnected target shows up early
+      const target = currentSchedule?.target_account_id
+        ? await this.resolvePublishTarget(currentSchedule.target_account_id, platform, tokenOrgId)
+        : null;
+
+      // Each platform resolves its token from the target's own connection (see the resolve* helpers);
+      // schedules without a target use the organization's connection for the provider
       switch (platform.toUpperCase()) {
         case 'FACEBOOK':
           if (isDryRun) { this.logger.log('[DRY_RUN] Facebook publish skipped'); return { success: true, providerId: 'dry_run_facebook', statusCode: 200 }; }
-          return await this.publishToFacebookReal(tokenInfo.accessToken, adaptedContent || currentVersion, mediaUrls, contentItemId);
+          return await this.withProviderCircuit('meta', () => this.publishToFacebookReal(adaptedContent || currentVersion, mediaUrls, contentItemId, tokenOrgId, target));
         case 'INSTAGRAM':
           if (isDryRun) { this.logger.log('[DRY_RUN] Instagram publish skipped'); return { success: true, providerId: 'dry_run_instagram', statusCode: 200 }; }
-          return await this.publishToInstagramReal(tokenInfo.accessToken, adaptedContent || currentVersion, mediaUrls, contentItemId);
+          return await this.withProviderCircuit('meta', () => this.publishToInstagramReal(adaptedContent || currentVersion, mediaUrls, contentItemId, tokenOrgId, target));
         case 'LINKEDIN':
           if (isDryRun) { this.logger.log('[DRY_RUN] LinkedIn publish skipped'); return { success: true, providerId: 'dry_run_linkedin', statusCode: 200 }; }
-          return await this.publishToLinkedInReal(tokenInfo.accessToken, adaptedContent || currentVersion, mediaUrls, contentItemId);
-        case 'YOUTUBE':
+          return await this.withProviderCircuit('linkedin', () => this.publishToLinkedInReal(adaptedContent || currentVersion, mediaUrls, contentItemId, tokenOrgId, target));
+        case 'YOUTUBE': {
           if (isDryRun) { this.logger.log('[DRY_RUN] YouTube publish skipped'); return { success: true, providerId: 'dry_run_youtube', statusCode: 200 }; }
+          const tokenInfo = await this.publishToken(tokenOrgId, platform, target);
+          if (!tokenInfo) return { success: false, error: 'No valid token available' };
           return await this.publishToYouTube(tokenInfo.accessToken, adaptedContent || currentVersion, mediaUrls);
-        case 'GBP':
+        }
+        case 'GBP': {
           if (isDryRun) { this.logger.log('[DRY_RUN] Google Business publish skipped'); return { success: true, providerId: 'dry_run_gbp', statusCode: 200 }; }
+          const tokenInfo = await this.publishToken(tokenOrgId, platform, target);
+          if (!tokenInfo) return { success: false, error: 'No valid token available' };
           return await this.publishToGoogleBusiness(tokenInfo.accessToken, adaptedContent || currentVersion, mediaUrls);
+        }
+        case 'WORDPRESS':
+          if (isDryRun) { this.logger.log('[DRY_RUN] WordPress publish skipped'); return { success: true, providerId: 'dry_run_wordpress', statusCode: 200 }; }
+          return await this.publishToWordPress(content, currentVersion, mediaUrls, scheduledAt, scheduleId, target);
         default:
           return { success: false, error: `Unsupported platform: ${platform}` };
       }
     } catch (error: any) {
+      if (error instanceof PublishTargetError) {
+        this.logger.warn(`Publish target error for ${platform}: ${error.message}`);
+        return { success: false, error: error.message, statusCode: 422, retryable: false };
+      }
       this.logger.error(`Publish error for ${platform}:`, error);
       // Surface retry-after to worker for adaptive backoff
       if (error && error.retryAfter) {
@@ -119,19 +181,19 @@ export class PlatformPublishService {
     }
   }
 
-  private async publishToFacebookReal(accessToken: string, content: any, mediaUrls: string[], contentItemId: string): Promise<PublishResult> {
+  private async publishToFacebookReal(
+    content: any,
+    mediaUrls: string[],
+    contentItemId: string,
+    organizationId: string,
+    target: PublishTarget | null = null,
+  ): Promise<PublishResult> {
     try {
       if (process.env.DRY_RUN === 'true') {
         this.logger.log('[DRY_RUN] Facebook publish skipped');
         return { success: true, providerId: 'dry_run_facebook', statusCode: 200 };
       }
-      // Get user's Facebook pages
-      const pages = await this.metaClient.getUserPages(accessToken);
-      if (pages.length === 0) {
-        return { success: false, error: 'No Facebook pages found for this account' };
-      }
-
-      const page = pages[0]; // Use first page for now
+      const page = await this.resolveFacebookPage(organizationId, target?.accountId);
       
       let result: any;
       
@@ -171,27 +233,19 @@ export class PlatformPublishService {
     }
   }
 
-  private async publishToInstagramReal(accessToken: string, content: any, mediaUrls: string[], contentItemId: string): Promise<PublishResult> {
+  private async publishToInstagramReal(
+    content: any,
+    mediaUrls: string[],
+    contentItemId: string,
+    organizationId: string,
+    target: PublishTarget | null = null,
+  ): Promise<PublishResult> {
     try {
       if (process.env.DRY_RUN === 'true') {
         this.logger.log('[DRY_RUN] Instagram publish skipped');
         return { success: true, providerId: 'dry_run_instagram', statusCode: 200 };
       }
-      // Get user's Facebook pages first
-      const pages = await this.metaClient.getUserPages(accessToken);
-      if (pages.length === 0) {
-        return { success: false, error: 'No Facebook pages found for this account' };
-      }
-
-      const page = pages[0];
-      
-      // Get Instagram accounts connected to this page
-      const instagramAccounts = await this.metaClient.getInstagramAccounts(page.accessToken, page.id);
-      if (instagramAccounts.length === 0) {
-        return { success: false, error: 'No Instagram business accounts found for this page' };
-      }
-
-      const instagramAccount = instagramAccounts[0];
+      const { page, instagramAccount } = await this.resolveInstagramAccount(organizationId, target);
       
       // Determine content type and handle accordingly
       const mediaType = content.metadata?.mediaType || 'photo';
@@ -301,19 +355,19 @@ export class PlatformPublishService {
     }
   }
 
-  private async publishToLinkedInReal(accessToken: string, content: any, mediaUrls: string[], contentItemId: string): Promise<PublishResult> {
+  private async publishToLinkedInReal(
+    content: any,
+    mediaUrls: string[],
+    contentItemId: string,
+    organizationId: string,
+    target: PublishTarget | null = null,
+  ): Promise<PublishResult> {
     try {
       if (process.env.DRY_RUN === 'true') {
         this.logger.log('[DRY_RUN] LinkedIn publish skipped');
         return { success: true, providerId: 'dry_run_linkedin', statusCode: 200 };
       }
-      // Get user's LinkedIn companies
-      const companies = await this.linkedinClient.getUserCompanies(accessToken);
-      if (companies.length === 0) {
-        return { success: false, error: 'No LinkedIn companies found for this account' };
-      }
-
-      const company = companies[0]; // Use first company for now
+      const { company, accessToken } = await this.resolveLinkedInCompany(organizationId, target);
       
       let result: any;
       
@@ -426,7 +480,347 @@ export class PlatformPublishService {
     }
   }
 
+  private async publishToWordPress(
+    content: any,
+    version: any,
+    mediaUrls: string[],
+    scheduledAt: string,
+    scheduleId?: string,
+    target: PublishTarget | null = null,
+  ): Promise<PublishResult> {
+    try {
+      const { siteUrl, credentials } = await this.resolveWordPressSite(content.organization_id, target);
+
+      const metadata = version.metadata_json || version.metadata || {};
+      const wpOptions = metadata.wordpress || {};
+
+      // Explicit status wins; otherwise future-dated schedules are handed to WordPress' own scheduler
+      const publishAt = scheduledAt ? new Date(scheduledAt) : null;
+      let status: WordPressPostStatus = wpOptions.status || 'publish';
+      let dateGmt: string | undefined;
+      if (!wpOptions.status && publishAt && publishAt.getTime() > Date.now() + 60 * 1000) {
+        status = 'future';
+      }
+      if (status === 'future' && publishAt) {
+        dateGmt = publishAt.toISOString().replace(/\.\d{3}Z$/, '');
+      }
+
+      // Featured image: first schedule media URL, falling back to the version's media
+      let featuredMediaId: number | undefined;
+      const imageUrl = mediaUrls[0] || (version.media_urls || [])[0];
+      if (imageUrl) {
+        const imageResponse = await axios.get(imageUrl, {
+          responseType: 'arraybuffer',
+          timeout: FEATURED_IMAGE_TIMEOUT_MS,
+          maxContentLength: FEATURED_IMAGE_MAX_BYTES,
+        });
+        const processedImage = await this.mediaService.processImage(Buffer.from(imageResponse.data), 'wordpress');
+        const filename = `${content.slug || content.id}.${processedImage.format === 'jpeg' ? 'jpg' : processedImage.format}`;
+        const media = await this.wordpressClient.uploadMedia(siteUrl, credentials, processedImage.buffer, filename, `image/${processedImage.format}`);
+        featuredMediaId = media.id;
+      }
+
+      const post = {
+        title: version.title || content.title,
+        content: version.body,
+        excerpt: version.summary || undefined,
+        slug: content.slug || undefined,
+        status,
+        dateGmt,
+        categories: wpOptions.categories || metadata.categories || [],
+        tags: wpOptions.tags || metadata.tags || content.tags || [],
+        featuredMediaId,
+      };
+
+      // Re-publishing an item updates the post created by an earlier schedule to the same site
+      const schedules = await this.dbService.getContentSchedules(content.id);
+      const previous = (schedules || []).find((s: any) =>
+        s.platform === 'WORDPRESS' && s.status === 'published' && s.provider_id && s.id !== scheduleId
+        && (s.target_account_id || null) === (target?.id || null),
+      );
+
+      const result = previous
+        ? await this.wordpressClient.updatePost(siteUrl, credentials, previous.provider_id, post)
+        : await this.wordpressClient.createPost(siteUrl, credentials, post);
+
+      if (result.success) {
+        if (result.status === 'publish') {
+          await this.recordPublishMetrics(content.id, 'WORDPRESS', result.postId!, version);
+        }
+
+        return {
+          success: true,
+          providerId: result.postId,
+          statusCode: 200,
+        };
+      } else {
+        return {
+          success: false,
+          error: result.error,
+          statusCode: 400,
+        };
+      }
+    } catch (error) {
+      return { ...this.handleProviderError(error, 'WordPress'), retryable: isRetryableWordPressError(error) };
+    }
+  }
+
+  private async publishNewsletter(contentItemId: string, scheduleId: string | undefined, adaptedContent: any): Promise<PublishResult> {
+    const content = await this.dbService.getContentItem(contentItemId);
+    const version = await this.dbService.getCurrentContentVersion(contentItemId);
+    if (!content || !version) {
+      return { success: false, error: 'Content not found' };
+    }
+
+    // The target list can be set on the schedule's adapted content or the version metadata
+    const schedules = scheduleId ? await this.dbService.getContentSchedules(contentItemId) : [];
+    const schedule = (schedules || []).find((s: any) => s.id === scheduleId);
+    const listId = await this.newsletterService.resolveListId(content.organization_id, adaptedContent || schedule?.adapted_content, version);
+    if (!listId) {
+      return { success: false, error: 'No subscriber list configured for this organization', statusCode: 400 };
+    }
+
+    const summary = await this.newsletterService.sendNewsletter({
+      scheduleId: scheduleId || `adhoc_${contentItemId}_${Date.now()}`,
+      contentItemId,
+      listId,
+    });
+
+    if (summary.deferred > 0) {
+      return {
+        success: false,
+        error: `Newsletter delivery deferred for ${summary.deferred} of ${summary.total} recipients`,
+        retryAfter: 60,
+        retryable: true,
+      };
+    }
+    if (summary.total > 0 && summary.sent + summary.skipped === 0) {
+      return { success: false, error: 'Newsletter rejected for all recipients', statusCode: 400 };
+    }
+
+    return {
+      success: true,
+      providerId: `list:${listId}`,
+      statusCode: 200,
+    };
+  }
+
+  /**
+   * Load the schedule's target account and check it can still be published to
+   */
+  private async resolvePublishTarget(targetAccountId: string, platform: string, organizationId?: string): Promise<PublishTarget> {
+    const account = await this.dbService.getTargetAccount(targetAccountId, organizationId);
+    if (!account) {
+      throw new PublishTargetError(`Target account ${targetAccountId} no longer exists; choose another target account for this schedule`);
+    }
+    if (!account.is_active) {
+      throw new PublishTargetError(
+        `Target account "${account.account_name}" (${account.account_id}) was disconnected; reconnect it or choose another target account`,
+      );
+    }
+    if (String(account.platform).toUpperCase() !== platform.toUpperCase()) {
+      throw new PublishTargetError(`Target account "${account.account_name}" is a ${account.platform} account and cannot receive ${platform} posts`);
+    }
+    return {
+      id: account.id,
+      platform: account.platform,
+      accountId: account.account_id,
+      accountName: account.account_name,
+      accountType: account.account_type,
+      metadata: account.account_metadata || {},
+    };
+  }
+
+  // The target's own connection, or for schedules without a target the organization's connection for the provider
+  private async publishToken(organizationId: string, platform: string, target: PublishTarget | null): Promise<AccessTokenInfo | null> {
+    if (target) {
+      return this.tokenService.getAccountAccessToken(organizationId, target.platform, target.accountId);
+    }
+    const provider = providerForPlatform(platform);
+    return provider ? this.tokenService.getValidAccessToken({ organizationId }, provider) : null;
+  }
+
+  /**
+   * The page to post to and its own page token. A page selected through OAuth has its own connection; otherwise
+   * the page comes from the page list of whichever Meta connection manages it. Without a target, only an
+   * unambiguous single page of the organization's Meta connection is used.
+   */
+  private async resolveFacebookPage(organizationId: string, pageId?: string): Promise<{ id: string; accessToken: string }> {
+    if (pageId) {
+      const own = await this.tokenService.getAccountAccessToken(organizationId, 'FACEBOOK', pageId);
+      if (own) {
+        // A user connection is stored under its first page; exchange its user token for that page's token
+        const pages = await this.metaClient.getUserPages(own.accessToken).catch(() => []);
+        return pages.find(p => p.id === pageId) || { id: pageId, accessToken: own.accessToken };
+      }
+      const page = await this.tokenService.findConnectedAccount(organizationId, 'FACEBOOK', async connection =>
+        (await this.metaClient.getUserPages(connection.accessToken)).find(p => p.id === pageId));
+      if (!page) {
+        throw new PublishTargetError(`Facebook page ${pageId} is not accessible with any connected Meta account; reconnect it or choose another target account`);
+      }
+      return page;
+    }
+
+    const tokenInfo = await this.tokenService.getValidAccessToken({ organizationId }, 'meta');
+    if (!tokenInfo) {
+      throw new PublishTargetError('No Meta account is connected for this organization');
+    }
+    const pages = await this.metaClient.getUserPages(tokenInfo.accessToken);
+    if (pages.length === 0) {
+      throw new PublishTargetError('No Facebook pages found for this account');
+    }
+    if (pages.length > 1) {
+      throw new PublishTargetError(`The connected Meta account manages ${pages.length} Facebook pages; set a target account on the schedule`);
+    }
+    return pages[0];
+  }
+
+  /**
+   * The Instagram business account to post to and the page token it is published with. An Instagram account
+   * selected through OAuth has its own connection holding that token; otherwise the target's metadata.pageId
+   * names the linked page, and without it each page of the Meta connections is checked.
+   */
+  private async resolveInstagramAccount(
+    organizationId: string,
+    target: PublishTarget | null,
+  ): Promise<{ page: { accessToken: string }; instagramAccount: { id: string } }> {
+    if (!target) {
+      const page = await this.resolveFacebookPage(organizationId);
+      const instagramAccounts = await this.metaClient.getInstagramAccounts(page.accessToken, page.id);
+      if (instagramAccounts.length > 1) {
+        throw new PublishTargetError('The connected Meta account has several Instagram accounts; set a target account on the schedule');
+      }
+      if (instagramAccounts.length === 0) {
+        throw new PublishTargetError('No Instagram business accounts found for this page');
+      }
+      return { page, instagramAccount: instagramAccounts[0] };
+    }
+
+    const own = await this.tokenService.getAccountAccessToken(organizationId, 'INSTAGRAM', target.accountId);
+    if (own) {
+      return { page: { accessToken: own.accessToken }, instagramAccount: { id: target.accountId } };
+    }
+
+    const linksTarget = async (page: { id: string; accessToken: string }) => {
+      const instagramAccounts = await this.metaClient.getInstagramAccounts(page.accessToken, page.id);
+      const instagramAccount = instagramAccounts.find(a => String(a.id) === String(target.accountId));
+      return instagramAccount ? { page, instagramAccount } : null;
+    };
+    const pageId: string | undefined = target.metadata?.pageId || target.metadata?.page_id;
+    const found = pageId
+      ? await linksTarget(await this.resolveFacebookPage(organizationId, pageId))
+      : await this.tokenService.findConnectedAccount(organizationId, 'FACEBOOK', async connection => {
+        for (const page of await this.metaClient.getUserPages(connection.accessToken)) {
+          const linked = await linksTarget(page);
+          if (linked) return linked;
+        }
+        return null;
+      });
+    if (!found) {
+      throw new PublishTargetError(
+        `Instagram account "${target.accountName}" (${target.accountId}) is no longer linked to an accessible Facebook page; reconnect it or choose another target account`,
+      );
+    }
+    return found;
+  }
+
+  /**
+   * The company to post as and the token of a member who administers it: the company's own connection when it
+   * was selected through OAuth, otherwise the LinkedIn connection whose member administers it. Without a target,
+   * only an unambiguous single company of the organization's LinkedIn connection is used.
+   */
+  private async resolveLinkedInCompany(organizationId: string, target: PublishTarget | null): Promise<{ company: { id: string }; accessToken: string }> {
+    if (target) {
+      const own = await this.tokenService.getAccountAccessToken(organizationId, 'LINKEDIN', target.accountId);
+      if (own) return { company: { id: target.accountId }, accessToken: own.accessToken };
+      const found = await this.tokenService.findConnectedAccount(organizationId, 'LINKEDIN', async connection => {
+        const companies = await this.linkedinClient.getUserCompanies(connection.accessToken);
+        const company = companies.find(c => String(c.id) === String(target.accountId));
+        return company ? { company, accessToken: connection.accessToken } : null;
+      });
+      if (!found) {
+        throw new PublishTargetError(
+          `LinkedIn company "${target.accountName}" (${target.accountId}) is no longer administered by a connected LinkedIn account; reconnect it or choose another target account`,
+        );
+      }
+      return found;
+    }
+
+    const tokenInfo = await this.tokenService.getValidAccessToken({ organizationId }, 'linkedin');
+    if (!tokenInfo) {
+      throw new PublishTargetError('No LinkedIn account is connected for this organization');
+    }
+    const companies = await this.linkedinClient.getUserCompanies(tokenInfo.accessToken);
+    if (companies.length === 0) {
+      throw new PublishTargetError('No LinkedIn companies found for this account');
+    }
+    if (companies.length > 1) {
+      throw new PublishTargetError(`The connected LinkedIn account administers ${companies.length} companies; set a target account on the schedule`);
+    }
+    return { company: companies[0], accessToken: tokenInfo.accessToken };
+  }
+
+  /**
+   * The site and its application password, from the same connection: the target's own site, or the
+   * organization's only connected site for schedules without a target.
+   */
+  private async resolveWordPressSite(organizationId: string, target: PublishTarget | null): Promise<{ siteUrl: string; credentials: string }> {
+    if (target) {
+      const siteUrl = target.accountId.replace(/\/+$/, '');
+      const own = await this.tokenService.getAccountAccessToken(organizationId, 'WORDPRESS', siteUrl);
+      if (!own) {
+        throw new PublishTargetError(`WordPress site "${target.accountName}" (${siteUrl}) is not connected; reconnect it or choose another target account`);
+      }
+      return { siteUrl, credentials: own.accessToken };
+    }
+
+    // The connected site URL is stored as the social account's external id
+    const sites = await this.dbService.getConnectedSocialAccounts(organizationId, 'WORDPRESS');
+    if (sites.length === 0) {
+      throw new PublishTargetError('No WordPress site connected for this organization');
+    }
+    if (sites.length > 1) {
+      throw new PublishTargetError(`The organization has ${sites.length} WordPress sites connected; set a target account on the schedule`);
+    }
+    const tokenInfo = await this.tokenService.getValidAccessToken({ organizationId, socialAccountId: sites[0].id }, 'wordpress');
+    if (!tokenInfo) {
+      throw new PublishTargetError(`WordPress site ${sites[0].external_id} has no stored credentials; reconnect it`);
+    }
+    return { siteUrl: sites[0].external_id, credentials: tokenInfo.accessToken };
+  }
+
+  /**
+   * Publish through the provider's shared circuit breaker. Rate limits and 5xx responses count as failures
+   * and are retried through the publish queue while the provider's retry budget lasts; while the breaker is
+   * open, publishes are not attempted and come back once it may half-open.
+   */
+  private async withProviderCircuit(provider: 'meta' | 'linkedin', publish: () => Promise<PublishResult>): Promise<PublishResult> {
+    try {
+      return await this.errorHandling.executeWithCircuitBreaker(async () => {
+        const result = await publish();
+        if (!result.success && result.statusCode && (result.statusCode === 429 || result.statusCode >= 500)) {
+          throw new ProviderOutageError(result);
+        }
+        return result;
+      }, provider);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        this.logger.warn(`Not publishing to ${provider}: ${error.message}`);
+        return { success: false, error: error.message, statusCode: 503, retryAfter: error.retryAfterSeconds, retryable: true };
+      }
+      if (error instanceof ProviderOutageError) {
+        return { ...error.result, retryable: await this.errorHandling.consumeRetryBudget(provider) };
+      }
+      throw error;
+    }
+  }
+
   private handleProviderError(error: any, platform: string): PublishResult {
+    if (error instanceof PublishTargetError) {
+      this.logger.warn(`${platform} publish target error: ${error.message}`);
+      return { success: false, error: error.message, statusCode: 422, retryable: false };
+    }
+
     if (axios.isAxiosError(error)) {
       const axiosError = error as AxiosError;
       const statusCode = axiosError.response?.status;
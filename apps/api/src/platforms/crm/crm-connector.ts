@@ -0,0 +1,53 @@
+/**
+ * Contract every CRM connector implements. Connectors only speak the CRM's API; cursors, lead links
+ * and field mappings are handled by CrmSyncService so a new CRM only needs these calls.
+ */
+
+export type CrmProvider = 'hubspot';
+
+export interface CrmRecord {
+  externalId: string;
+  properties: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export interface CrmRecordPage {
+  records: CrmRecord[];
+  // Pass back to fetch the next page; undefined when there are no more
+  nextPage?: string;
+}
+
+export interface CrmConnectionInfo {
+  accountId: string;
+  name?: string;
+}
+
+export class CrmConnectorError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryable: boolean = false) {
+    super(message);
+    this.name = 'CrmConnectorError';
+  }
+}
+
+export interface CrmConnector {
+  readonly provider: CrmProvider;
+
+  /**
+   * Check the credentials, returning the CRM account they belong to
+   */
+  testConnection(): Promise<CrmConnectionInfo>;
+
+  /**
+   * Find the contact with the given email, used to link leads to contacts created outside the app
+   */
+  findContactByEmail(email: string): Promise<CrmRecord | null>;
+
+  createContact(properties: Record<string, string | number>): Promise<CrmRecord>;
+
+  updateContact(externalId: string, properties: Record<string, string | number>): Promise<CrmRecord>;
+
+  /**
+   * Contacts modified after `since` (all contacts when null), oldest change first
+   */
+  listModifiedContacts(since: Date | null, properties: string[], page?: string): Promise<CrmRecordPage>;
+}
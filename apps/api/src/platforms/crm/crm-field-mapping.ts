@@ -0,0 +1,149 @@
+/**
+ * Field mappings between leads and CRM contact properties. Export mappings build the properties pushed
+ * to the CRM; import mappings turn pulled properties back into lead updates. Lead fields use the API's
+ * camelCase names, with `customFields.<key>` addressing a single custom field.
+ */
+
+import crypto from 'crypto';
+import { CrmProvider } from './crm-connector';
+
+export type CrmMappingDirection = 'import' | 'export' | 'bidirectional';
+
+export interface CrmFieldMapping {
+  agentBoweryField: string;
+  crmField: string;
+  direction: CrmMappingDirection;
+}
+
+export class CrmMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrmMappingError';
+  }
+}
+
+const DIRECTIONS: CrmMappingDirection[] = ['import', 'export', 'bidirectional'];
+// firstName / lastName are derived from the lead's name, so they can only be exported
+const EXPORT_FIELDS = ['name', 'firstName', 'lastName', 'email', 'phone', 'company', 'title', 'source', 'status', 'score', 'priority', 'assignedTo', 'estimatedValue', 'notes', 'tags'];
+const IMPORT_FIELDS = ['name', 'email', 'phone', 'company', 'title', 'status', 'priority', 'assignedTo', 'estimatedValue', 'notes'];
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+export const DEFAULT_FIELD_MAPPINGS: Record<CrmProvider, CrmFieldMapping[]> = {
+  hubspot: [
+    { agentBoweryField: 'email', crmField: 'email', direction: 'bidirectional' },
+    { agentBoweryField: 'firstName', crmField: 'firstname', direction: 'export' },
+    { agentBoweryField: 'lastName', crmField: 'lastname', direction: 'export' },
+    { agentBoweryField: 'phone', crmField: 'phone', direction: 'bidirectional' },
+    { agentBoweryField: 'company', crmField: 'company', direction: 'bidirectional' },
+    { agentBoweryField: 'title', crmField: 'jobtitle', direction: 'export' },
+    // Owner and stage come back from the CRM; owners are CRM users, not app users, so they are kept as custom fields
+    { agentBoweryField: 'customFields.crmOwnerId', crmField: 'hubspot_owner_id', direction: 'import' },
+    { agentBoweryField: 'customFields.crmStage', crmField: 'lifecyclestage', direction: 'import' },
+  ],
+};
+
+export function validateFieldMappings(value: unknown): CrmFieldMapping[] {
+  if (!Array.isArray(value)) throw new CrmMappingError('fieldMappings must be an array');
+
+  const entries: unknown[] = value;
+  const importTargets = new Set<string>();
+  return entries.map((entry, index) => {
+    const input = (entry ?? {}) as { [K in keyof CrmFieldMapping]?: unknown };
+    const field = typeof input.agentBoweryField === 'string' ? input.agentBoweryField.trim() : '';
+    const crmField = typeof input.crmField === 'string' ? input.crmField.trim() : '';
+    const direction = DIRECTIONS.find(d => d === input.direction);
+    if (!field || !crmField) throw new CrmMappingError(`fieldMappings[${index}] needs agentBoweryField and crmField`);
+    if (!direction) throw new CrmMappingError(`fieldMappings[${index}].direction must be one of ${DIRECTIONS.join(', ')}`);
+
+    const isCustom = field.startsWith(CUSTOM_FIELD_PREFIX) && field.length > CUSTOM_FIELD_PREFIX.length;
+    if (direction !== 'import' && !isCustom && !EXPORT_FIELDS.includes(field)) {
+      throw new CrmMappingError(`${field} cannot be exported`);
+    }
+    if (direction !== 'export') {
+      if (!isCustom && !IMPORT_FIELDS.includes(field)) throw new CrmMappingError(`${field} cannot be imported`);
+      if (importTargets.has(field)) throw new CrmMappingError(`${field} is imported from more than one CRM field`);
+      importTargets.add(field);
+    }
+    return { agentBoweryField: field, crmField, direction };
+  });
+}
+
+/**
+ * CRM properties for a lead (in the API shape returned by toLead). Empty values are left out so a push
+ * never clears data entered in the CRM.
+ */
+export function toCrmProperties(lead: Record<string, unknown>, mappings: CrmFieldMapping[]): Record<string, string | number> {
+  const properties: Record<string, string | number> = {};
+  for (const mapping of mappings) {
+    if (mapping.direction === 'import') continue;
+    const value = readLeadField(lead, mapping.agentBoweryField);
+    if (value === null || value === undefined || value === '') continue;
+    properties[mapping.crmField] = typeof value === 'number' ? value : String(value);
+  }
+  return properties;
+}
+
+/**
+ * Lead updates for the imported properties that differ from the lead. Custom fields are merged into the
+ * lead's existing ones. Returns an empty object when nothing changed.
+ */
+export function fromCrmProperties(lead: Record<string, unknown>, properties: Record<string, unknown>, mappings: CrmFieldMapping[]): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  const customFields = { ...customFieldsOf(lead) };
+  let customChanged = false;
+
+  for (const mapping of mappings) {
+    if (mapping.direction === 'export' || properties[mapping.crmField] === undefined) continue;
+    const raw = properties[mapping.crmField];
+    const value = raw === null || raw === '' ? null : mapping.agentBoweryField === 'estimatedValue' ? Number(raw) : String(raw);
+
+    if (mapping.agentBoweryField.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const key = mapping.agentBoweryField.slice(CUSTOM_FIELD_PREFIX.length);
+      if ((customFields[key] ?? null) !== value) {
+        customFields[key] = value;
+        customChanged = true;
+      }
+    } else if ((lead[mapping.agentBoweryField] ?? null) !== value) {
+      updates[mapping.agentBoweryField] = value;
+    }
+  }
+
+  if (customChanged) updates.customFields = customFields;
+  return updates;
+}
+
+/**
+ * CRM properties read back on pull
+ */
+export function importedCrmFields(mappings: CrmFieldMapping[]): string[] {
+  return Array.from(new Set(mappings.filter(m => m.direction !== 'export').map(m => m.crmField)));
+}
+
+/**
+ * Stable hash of pushed properties, used to skip leads whose exported fields have not changed
+ */
+export function hashProperties(properties: Record<string, unknown>): string {
+  const sorted = Object.keys(properties).sort().map(key => [key, properties[key]]);
+  return crypto.createHash('sha1').update(JSON.stringify(sorted)).digest('hex');
+}
+
+function customFieldsOf(lead: Record<string, unknown>): Record<string, unknown> {
+  const customFields = lead.customFields;
+  return customFields && typeof customFields === 'object' ? customFields as Record<string, unknown> : {};
+}
+
+function readLeadField(lead: Record<string, unknown>, field: string): unknown {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) return customFieldsOf(lead)[field.slice(CUSTOM_FIELD_PREFIX.length)];
+
+  const name = typeof lead.name === 'string' ? lead.name.trim() : '';
+  switch (field) {
+    case 'firstName':
+      return name.split(/\s+/)[0] || null;
+    case 'lastName':
+      return name.split(/\s+/).slice(1).join(' ') || null;
+    case 'tags':
+      return Array.isArray(lead.tags) && lead.tags.length ? lead.tags.join(';') : null;
+    default:
+      return lead[field];
+  }
+}
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { CrmConnectionInfo, CrmConnector, CrmConnectorError, CrmRecord, CrmRecordPage } from './crm-connector';
+
+export const HUBSPOT_API_URL = 'https://api.hubapi.com';
+
+// HubSpot's search endpoint returns at most 100 records per page
+const PAGE_SIZE = 100;
+
+// HubSpot returns every property value as a string, or null when it is unset
+interface HubSpotObject {
+  id: string;
+  properties?: Record<string, string | null>;
+  updatedAt?: string;
+}
+
+interface HubSpotSearchResponse {
+  results?: HubSpotObject[];
+  paging?: { next?: { after?: string } };
+}
+
+/**
+ * HubSpot CRM v3 contacts, authenticated with a private app access token.
+ * The base URL is configurable so the connector can run against a sandbox or a local stub.
+ */
+export class HubSpotConnector implements CrmConnector {
+  readonly provider = 'hubspot' as const;
+
+  constructor(private readonly accessToken: string, private readonly baseUrl: string = HUBSPOT_API_URL) {}
+
+  async testConnection(): Promise<CrmConnectionInfo> {
+    const data = await this.request<{ portalId: number; companyName?: string }>('GET', '/account-info/v3/details');
+    return { accountId: String(data.portalId), name: data.companyName || undefined };
+  }
+
+  async findContactByEmail(email: string): Promise<CrmRecord | null> {
+    const data = await this.request<HubSpotSearchResponse>('POST', '/crm/v3/objects/contacts/search', {
+      filterGroups: [{ filters: [{ propertyName: 'email', operator: 'EQ', value: email }] }],
+      properties: ['email'],
+      limit: 1,
+    });
+    const [result] = data.results || [];
+    return result ? this.toRecord(result) : null;
+  }
+
+  async createContact(properties: Record<string, string | number>): Promise<CrmRecord> {
+    return this.toRecord(await this.request<HubSpotObject>('POST', '/crm/v3/objects/contacts', { properties }));
+  }
+
+  async updateContact(externalId: string, properties: Record<string, string | number>): Promise<CrmRecord> {
+    return this.toRecord(await this.request<HubSpotObject>('PATCH', `/crm/v3/objects/contacts/${encodeURIComponent(externalId)}`, { properties }));
+  }
+
+  async listModifiedContacts(since: Date | null, properties: string[], page?: string): Promise<CrmRecordPage> {
+    const data = await this.request<HubSpotSearchResponse>('POST', '/crm/v3/objects/contacts/search', {
+      filterGroups: since
+        ? [{ filters: [{ propertyName: 'lastmodifieddate', operator: 'GT', value: String(since.getTime()) }] }]
+        : [],
+      sorts: [{ propertyName: 'lastmodifieddate', direction: 'ASCENDING' }],
+      properties: Array.from(new Set([...properties, 'lastmodifieddate'])),
+      limit: PAGE_SIZE,
+      ...(page ? { after: page } : {}),
+    });
+    return {
+      records: (data.results || []).map(result => this.toRecord(result)),
+      nextPage: data.paging?.next?.after,
+    };
+  }
+
+  private toRecord(result: HubSpotObject): CrmRecord {
+    const properties = result.properties || {};
+    return {
+      externalId: String(result.id),
+      properties,
+      updatedAt: new Date(result.updatedAt || properties.lastmodifieddate || Date.now()),
+    };
+  }
+
+  private async request<T>(method: 'GET' | 'POST' | 'PATCH', path: string, data?: object): Promise<T> {
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.baseUrl.replace(/\/+$/, '')}${path}`,
+        data,
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        timeout: 30000,
+      });
+      return response.data;
+    } catch (error) {
+      const response = axios.isAxiosError<{ message?: string }>(error) ? error.response : undefined;
+      const status = response?.status;
+      const message = response?.data?.message || (error instanceof Error && error.message) || 'HubSpot request failed';
+      // Network failures, rate limits and HubSpot outages affect every record, so the sync stops and retries later
+      throw new CrmConnectorError(message, status, status === undefined || status === 429 || status >= 500);
+    }
+  }
+}
@@ -18,6 +18,12 @@ export interface LinkedInPostResult {
   error?: string;
 }
 
+export interface LinkedInReplyResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
 export interface LinkedInCompanyInfo {
   id: string;
   name: string;
@@ -27,6 +33,12 @@ export interface LinkedInCompanyInfo {
   companySize: string;
 }
 
+// One day of a company's share statistics, starting at timeRange.start
+export interface LinkedInShareStatistics {
+  timeRange?: { start?: number; end?: number };
+  totalShareStatistics?: Record<string, number>;
+}
+
 export interface LinkedInAnalytics {
   impressions: number;
   clicks: number;
@@ -228,64 +240,45 @@ export class LinkedInClientService {
   }
 
   /**
-   * Get post analytics
+   * Get post analytics. Errors are thrown so the insights sync can back off.
    */
   async getPostAnalytics(postId: string, accessToken: string): Promise<LinkedInAnalytics> {
-    try {
-      const response = await axios.get(`${this.apiUrl}/socialActions/${postId}/statistics`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'X-Restli-Protocol-Version': '2.0.0'
-        }
-      });
-
-      const stats = response.data;
-      return {
-        impressions: stats.numImpressions || 0,
-        clicks: stats.numClicks || 0,
-        likes: stats.numLikes || 0,
-        comments: stats.numComments || 0,
-        shares: stats.numShares || 0,
-        views: stats.numViews || 0
-      };
-    } catch (error) {
-      this.logger.error('Failed to get LinkedIn post analytics:', error);
-      return {
-        impressions: 0,
-        clicks: 0,
-        likes: 0,
-        comments: 0,
-        shares: 0,
-        views: 0
-      };
-    }
+    const response = await axios.get(`${this.apiUrl}/socialActions/${encodeURIComponent(postId)}/statistics`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0'
+      }
+    });
+
+    const stats = response.data;
+    return {
+      impressions: stats.numImpressions || 0,
+      clicks: stats.numClicks || 0,
+      likes: stats.numLikes || 0,
+      comments: stats.numComments || 0,
+      shares: stats.numShares || 0,
+      views: stats.numViews || 0
+    };
   }
 
   /**
-   * Get company page analytics
+   * Get daily share statistics of a company page; each element has a timeRange and totalShareStatistics.
+   * Errors are thrown so the insights sync can back off.
    */
-  async getCompanyAnalytics(companyId: string, accessToken: string, dateRange: { start: number; end: number }): Promise<any> {
-    try {
-      const response = await axios.get(`${this.apiUrl}/organizationPageStatistics`, {
-        params: {
-          q: 'organization',
-          organization: `urn:li:organization:${companyId}`,
-          timeGranularity: 'DAY',
-          startTime: dateRange.start,
-          endTime: dateRange.end,
-          metrics: 'FOLLOWERS_COUNT,IMPRESSIONS,CLICKS,ENGAGEMENT'
-        },
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'X-Restli-Protocol-Version': '2.0.0'
-        }
-      });
+  async getCompanyAnalytics(companyId: string, accessToken: string, dateRange: { start: number; end: number }): Promise<LinkedInShareStatistics[]> {
+    const response = await axios.get<{ elements?: LinkedInShareStatistics[] }>(`${this.apiUrl}/organizationalEntityShareStatistics`, {
+      params: {
+        q: 'organizationalEntity',
+        organizationalEntity: `urn:li:organization:${companyId}`,
+        timeIntervals: `(timeRange:(start:${dateRange.start},end:${dateRange.end}),timeGranularityType:DAY)`
+      },
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0'
+      }
+    });
 
-      return response.data.elements;
-    } catch (error) {
-      this.logger.error('Failed to get LinkedIn company analytics:', error);
-      return [];
-    }
+    return response.data.elements || [];
   }
 
   /**
@@ -311,13 +304,14 @@ export class LinkedInClientService {
   }
 
   /**
-   * Reply to a comment
+   * Reply to a comment on a post, as the organization that owns the post
    */
-  async replyToComment(postId: string, commentId: string, accessToken: string, message: string): Promise<boolean> {
+  async replyToComment(postUrn: string, commentUrn: string, accessToken: string, message: string, actorUrn: string): Promise<LinkedInReplyResult> {
     try {
-      await axios.post(`${this.apiUrl}/comments`, {
-        actor: `urn:li:person:${commentId}`,
-        object: `urn:li:ugcPost:${postId}`,
+      const response = await axios.post(`${this.apiUrl}/socialActions/${encodeURIComponent(commentUrn)}/comments`, {
+        actor: actorUrn,
+        object: postUrn,
+        parentComment: commentUrn,
         message: {
           text: message
         }
@@ -329,10 +323,10 @@ export class LinkedInClientService {
         }
       });
 
-      return true;
-    } catch (error) {
+      return { success: true, id: response.data?.$URN || response.headers?.['x-restli-id'] || response.data?.id };
+    } catch (error: any) {
       this.logger.error('Failed to reply to LinkedIn comment:', error);
-      return false;
+      return { success: false, error: error?.response?.data?.message || error?.message };
     }
   }
 
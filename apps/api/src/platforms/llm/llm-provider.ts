@@ -0,0 +1,78 @@
+/**
+ * Contract every LLM provider implements. Providers only speak their API; routing, per-organization model
+ * selection, fallbacks and usage accounting are handled by LlmService.
+ */
+
+export type LlmProviderType = 'perplexity' | 'openai-compatible';
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletionRequest {
+  prompt: string;
+  // Source snippets the answer should draw on
+  context?: string[];
+  // Provider default when omitted
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  usage: LlmUsage;
+  // Served from a provider-side cache; no tokens were spent
+  cached?: boolean;
+}
+
+export interface LlmSearchOptions {
+  topK?: number;
+  freshnessDays?: number;
+}
+
+export interface LlmSearchResult {
+  sources: string[];
+  model: string;
+  usage: LlmUsage;
+  cached?: boolean;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryable: boolean = false) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  readonly type: LlmProviderType;
+  readonly defaultModel: string;
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+
+  /**
+   * Web search for sources to ground generation; only providers with search access implement it
+   */
+  search?(query: string, options?: LlmSearchOptions): Promise<LlmSearchResult>;
+}
+
+type UsageCounts = Partial<Record<'prompt_tokens' | 'completion_tokens' | 'total_tokens' | 'prompt' | 'completion' | 'total', unknown>>;
+
+export const EMPTY_USAGE: LlmUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Token usage from a provider response; OpenAI-style `usage` and Perplexity's `meta.usage` are both accepted
+ */
+export function parseUsage(data: unknown): LlmUsage {
+  const payload = (data || {}) as { usage?: UsageCounts; meta?: { usage?: UsageCounts } };
+  const usage: UsageCounts = payload.usage || payload.meta?.usage || {};
+  const promptTokens = Number(usage.prompt_tokens || usage.prompt || 0);
+  const completionTokens = Number(usage.completion_tokens || usage.completion || 0);
+  const totalTokens = Number(usage.total_tokens || usage.total || promptTokens + completionTokens);
+  return { promptTokens, completionTokens, totalTokens };
+}
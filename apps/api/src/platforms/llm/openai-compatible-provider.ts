@@ -0,0 +1,69 @@
+import axios, { AxiosInstance } from 'axios';
+import { LlmCompletion, LlmCompletionRequest, LlmProvider, LlmProviderError, parseUsage } from './llm-provider';
+
+export interface OpenAiCompatibleConfig {
+  id: string;
+  // Up to and including the version segment, e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  // Local servers usually need none
+  apiKey?: string;
+  defaultModel: string;
+  timeoutMs?: number;
+}
+
+// The fields read from a chat completion; token usage is read by parseUsage
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: unknown } }>;
+}
+
+/**
+ * Chat completions against any OpenAI-compatible endpoint: OpenAI itself, hosted gateways, or a local
+ * server such as Ollama, vLLM or LM Studio
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly type = 'openai-compatible' as const;
+  readonly id: string;
+  readonly defaultModel: string;
+  private readonly http: AxiosInstance;
+
+  constructor(config: OpenAiCompatibleConfig) {
+    this.id = config.id;
+    this.defaultModel = config.defaultModel;
+    this.http = axios.create({
+      baseURL: config.baseUrl.replace(/\/+$/, ''),
+      timeout: config.timeoutMs ?? 60000,
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+    });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = request.model || this.defaultModel;
+    const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+    if (request.context?.length) {
+      messages.push({ role: 'system', content: `Use these sources where relevant:\n${request.context.map(source => `- ${source}`).join('\n')}` });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    try {
+      const { data } = await this.http.post<ChatCompletionResponse>('/chat/completions', {
+        model,
+        messages,
+        max_tokens: request.maxTokens ?? 800,
+        temperature: request.temperature ?? 0.3,
+      });
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new LlmProviderError(`${this.id} returned no completion`, undefined, true);
+      }
+      return { text, model: data?.model || model, usage: parseUsage(data) };
+    } catch (error) {
+      if (error instanceof LlmProviderError) throw error;
+      const response = axios.isAxiosError<{ error?: { message?: string } }>(error) ? error.response : undefined;
+      const status = response?.status;
+      const detail = response?.data?.error?.message || (error instanceof Error && error.message) || 'request failed';
+      // Connection failures, rate limits and server errors are worth another try; bad requests are not
+      throw new LlmProviderError(`${this.id}: ${detail}`, status, !status || status === 429 || status >= 500);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { PerplexityService } from '../../services/perplexity.service';
+import { EMPTY_USAGE, LlmCompletion, LlmCompletionRequest, LlmProvider, LlmSearchOptions, LlmSearchResult, parseUsage } from './llm-provider';
+
+// PerplexityService returns the API payload, with `cached` set when it came from its cache
+interface PerplexityAnswerPayload {
+  answer?: unknown;
+  data?: unknown;
+  cached?: boolean;
+}
+
+interface PerplexitySearchPayload {
+  data?: { sources?: string[] };
+  sources?: string[];
+  cached?: boolean;
+}
+
+/**
+ * Perplexity through PerplexityService, which keeps its response cache, retries and perplexity_* metrics
+ */
+export class PerplexityProvider implements LlmProvider {
+  readonly id = 'perplexity';
+  readonly type = 'perplexity' as const;
+
+  constructor(private readonly perplexity: PerplexityService, readonly defaultModel: string) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = request.model || this.defaultModel;
+    const res = await this.perplexity.answer(request.prompt, request.context || [], {
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      model,
+    }) as PerplexityAnswerPayload | null;
+    const text = res?.answer ?? res?.data ?? '';
+    return {
+      text: typeof text === 'string' ? text : JSON.stringify(text),
+      model,
+      usage: res?.cached ? EMPTY_USAGE : parseUsage(res),
+      cached: Boolean(res?.cached),
+    };
+  }
+
+  async search(query: string, options: LlmSearchOptions = {}): Promise<LlmSearchResult> {
+    const res = await this.perplexity.search(query, options) as PerplexitySearchPayload | null;
+    const nested = res?.data?.sources;
+    const sources = Array.isArray(nested) ? nested : (res?.sources || []);
+    return {
+      sources,
+      model: this.defaultModel,
+      usage: res?.cached ? EMPTY_USAGE : parseUsage(res),
+      cached: Boolean(res?.cached),
+    };
+  }
+}
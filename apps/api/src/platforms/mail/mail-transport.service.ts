@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailSendResult {
+  messageId: string;
+  accepted: boolean;
+}
+
+/**
+ * Anything that can deliver a rendered MIME message (SMTP, provider APIs, test doubles)
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailSendResult>;
+}
+
+/**
+ * SMTP delivery via nodemailer, configured from a connection URL (smtp[s]://user:pass@host:port)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: nodemailer.Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(smtpUrl: string) {
+    this.transporter = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+    });
+
+    return {
+      messageId: info.messageId,
+      accepted: (info.rejected || []).length === 0,
+    };
+  }
+}
+
+/**
+ * Development fallback when no SMTP server is configured: logs instead of sending
+ */
+export class LogMailTransport implements MailTransport {
+  readonly name = 'log';
+  private readonly logger = new Logger(LogMailTransport.name);
+
+  send(message: MailMessage): Promise<MailSendResult> {
+    this.logger.log(`[MAIL] to=${message.to} subject="${message.subject}"`);
+    return Promise.resolve({
+      messageId: `log_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+      accepted: true,
+    });
+  }
+}
+
+@Injectable()
+export class MailTransportService {
+  private readonly logger = new Logger(MailTransportService.name);
+  private transport: MailTransport;
+
+  constructor() {
+    const smtpUrl = process.env.SMTP_URL;
+    this.transport = smtpUrl ? new SmtpMailTransport(smtpUrl) : new LogMailTransport();
+    if (!smtpUrl) {
+      this.logger.warn('SMTP_URL not configured; newsletter mail will be logged, not sent');
+    }
+  }
+
+  /**
+   * Swap the underlying transport (e.g. a provider API or a test double)
+   */
+  useTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  get defaultFrom(): string {
+    return process.env.MAIL_FROM || 'Agent Bowery <newsletter@localhost>';
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    return this.transport.send(message);
+  }
+}
+
+// Fields nodemailer sets on the errors it throws for SMTP replies and socket failures
+interface SmtpErrorFields {
+  responseCode?: unknown;
+  code?: unknown;
+}
+
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET']);
+
+/**
+ * SMTP 4xx replies and connection problems are worth retrying; 5xx replies are permanent rejections
+ */
+export function isTransientMailError(error: unknown): boolean {
+  const { responseCode, code } = (error ?? {}) as SmtpErrorFields;
+  const reply = Number(responseCode);
+  if (reply >= 400 && reply < 500) return true;
+  if (reply >= 500) return false;
+  return typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code);
+}
+
+/**
+ * Permanent rejections that mean the mailbox itself is unusable (unknown user, mailbox unavailable)
+ */
+export function isHardBounce(error: unknown): boolean {
+  return [550, 551, 553].includes(Number(((error ?? {}) as SmtpErrorFields).responseCode));
+}
@@ -0,0 +1,90 @@
+export interface NewsletterRenderInput {
+  title: string;
+  body: string;
+  summary?: string | null;
+  listName?: string;
+  unsubscribeUrl?: string;
+}
+
+export interface RenderedNewsletter {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Bodies using common formatting markup are treated as authored HTML; anything else is escaped as text
+const HTML_TAG = /<\/?(p|div|br|h[1-6]|ul|ol|li|a|strong|em|b|i|img|table|blockquote|span)(\s[^>]*)?\/?>/i;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a content version into the HTML and plain-text parts of a newsletter.
+ * Bodies that already contain markup are kept as-is; plain text is escaped and split into paragraphs.
+ */
+export function renderNewsletter(input: NewsletterRenderInput): RenderedNewsletter {
+  const body = (input.body || '').replace(/\r\n/g, '\n').trim();
+  const isHtml = HTML_TAG.test(body);
+
+  const bodyHtml = isHtml
+    ? body
+    : body
+        .split(/\n{2,}/)
+        .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+        .join('\n');
+  const bodyText = isHtml ? htmlToText(body) : body;
+
+  const footerHtml = input.unsubscribeUrl
+    ? `<p style="font-size:12px;color:#666">You are receiving this because you subscribed${input.listName ? ` to ${escapeHtml(input.listName)}` : ''}. <a href="${escapeHtml(input.unsubscribeUrl)}">Unsubscribe</a></p>`
+    : '';
+  const footerText = input.unsubscribeUrl ? `Unsubscribe: ${input.unsubscribeUrl}` : '';
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>',
+    '<body style="font-family:Arial,sans-serif;line-height:1.5;max-width:640px;margin:0 auto;padding:16px">',
+    // Preheader: shown as the inbox preview line by most clients
+    input.summary ? `<span style="display:none">${escapeHtml(input.summary)}</span>` : '',
+    `<h1>${escapeHtml(input.title)}</h1>`,
+    bodyHtml,
+    footerHtml ? `<hr>\n${footerHtml}` : '',
+    '</body>',
+    '</html>',
+  ].filter(Boolean).join('\n');
+
+  const text = [input.title, '', bodyText, footerText ? `\n--\n${footerText}` : '']
+    .join('\n')
+    .trim() + '\n';
+
+  return {
+    subject: input.title,
+    html,
+    text,
+  };
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -29,6 +29,12 @@ export interface MetaPostResult {
   platform?: 'facebook' | 'instagram' | 'instagram_story' | 'instagram_reel' | 'instagram_igtv' | 'instagram_carousel';
 }
 
+export interface MetaReplyResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
 export interface MetaPageInfo {
   id: string;
   name: string;
@@ -43,6 +49,12 @@ export interface InstagramAccountInfo {
   followersCount: number;
 }
 
+// A Graph API insights metric; daily values carry the end_time of the day they cover
+export interface MetaInsight {
+  name: string;
+  values?: Array<{ value: unknown; end_time?: string }>;
+}
+
 @Injectable()
 export class MetaClientService {
   private readonly logger = new Logger(MetaClientService.name);
@@ -460,63 +472,126 @@ export class MetaClientService {
   }
 
   /**
-   * Get post insights/analytics
+   * Get post insights/analytics as lifetime values keyed by metric name.
+   * Errors are thrown so the insights sync can back off.
+   */
+  async getPostInsights(postId: string, accessToken: string): Promise<Record<string, unknown>> {
+    const response = await axios.get<{ data: MetaInsight[] }>(`${this.graphApiUrl}/${postId}/insights`, {
+      params: {
+        access_token: accessToken,
+        metric: 'post_impressions,post_engaged_users,post_clicks,post_reactions_by_type_total'
+      }
+    });
+
+    return response.data.data.reduce<Record<string, unknown>>((acc, insight) => {
+      acc[insight.name] = insight.values?.[0]?.value || 0;
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Get daily page insights; each metric's values carry the end_time of the day they cover.
+   * Errors are thrown so the insights sync can back off.
+   */
+  async getPageInsights(pageId: string, accessToken: string, dateRange: { since: string; until: string }): Promise<MetaInsight[]> {
+    const response = await axios.get<{ data: MetaInsight[] }>(`${this.graphApiUrl}/${pageId}/insights`, {
+      params: {
+        access_token: accessToken,
+        metric: 'page_fans,page_impressions,page_engaged_users',
+        since: dateRange.since,
+        until: dateRange.until,
+        period: 'day'
+      }
+    });
+
+    return response.data.data;
+  }
+
+  /**
+   * Get lifetime insights of an Instagram media object keyed by metric name
+   */
+  async getInstagramMediaInsights(mediaId: string, accessToken: string): Promise<Record<string, number>> {
+    const response = await axios.get(`${this.graphApiUrl}/${mediaId}/insights`, {
+      params: {
+        access_token: accessToken,
+        metric: 'reach,likes,comments,shares,saved,total_interactions'
+      }
+    });
+
+    return response.data.data.reduce((acc: Record<string, number>, insight: any) => {
+      acc[insight.name] = insight.values?.[0]?.value ?? insight.total_value?.value ?? 0;
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Get daily Instagram business account insights, in the same shape as page insights
    */
-  async getPostInsights(postId: string, accessToken: string): Promise<any> {
+  async getInstagramAccountInsights(accountId: string, accessToken: string, dateRange: { since: string; until: string }): Promise<MetaInsight[]> {
+    const response = await axios.get<{ data: MetaInsight[] }>(`${this.graphApiUrl}/${accountId}/insights`, {
+      params: {
+        access_token: accessToken,
+        metric: 'reach,follower_count',
+        since: dateRange.since,
+        until: dateRange.until,
+        period: 'day'
+      }
+    });
+
+    return response.data.data;
+  }
+
+  /**
+   * Reply to a Facebook comment
+   */
+  async replyToComment(commentId: string, accessToken: string, message: string): Promise<MetaReplyResult> {
     try {
-      const response = await axios.get(`${this.graphApiUrl}/${postId}/insights`, {
-        params: {
-          access_token: accessToken,
-          metric: 'post_impressions,post_engaged_users,post_clicks,post_reactions_by_type_total'
-        }
+      const response = await axios.post(`${this.graphApiUrl}/${commentId}/comments`, {
+        access_token: accessToken,
+        message: message
       });
 
-      return response.data.data.reduce((acc: any, insight: any) => {
-        acc[insight.name] = insight.values[0]?.value || 0;
-        return acc;
-      }, {});
+      return { success: true, id: response.data?.id };
     } catch (error: any) {
-      this.logger.error('Failed to get post insights:', error);
-      return {};
+      this.logger.error('Failed to reply to comment:', error);
+      return { success: false, error: error?.response?.data?.error?.message || error?.message };
     }
   }
 
   /**
-   * Get page insights
+   * Reply to an Instagram comment
    */
-  async getPageInsights(pageId: string, accessToken: string, dateRange: { since: string; until: string }): Promise<any> {
+  async replyToInstagramComment(commentId: string, pageAccessToken: string, message: string): Promise<MetaReplyResult> {
     try {
-      const response = await axios.get(`${this.graphApiUrl}/${pageId}/insights`, {
-        params: {
-          access_token: accessToken,
-          metric: 'page_fans,page_impressions,page_engaged_users',
-          since: dateRange.since,
-          until: dateRange.until,
-          period: 'day'
-        }
+      const response = await axios.post(`${this.graphApiUrl}/${commentId}/replies`, {
+        access_token: pageAccessToken,
+        message: message
       });
 
-      return response.data.data;
+      return { success: true, id: response.data?.id };
     } catch (error: any) {
-      this.logger.error('Failed to get page insights:', error);
-      return [];
+      this.logger.error('Failed to reply to Instagram comment:', error);
+      return { success: false, error: error?.response?.data?.error?.message || error?.message };
     }
   }
 
   /**
-   * Reply to a comment
+   * Send a Messenger / Instagram direct message in reply to a user who messaged the page
    */
-  async replyToComment(commentId: string, accessToken: string, message: string): Promise<boolean> {
+  async sendMessage(pageAccessToken: string, recipientId: string, message: string): Promise<MetaReplyResult> {
     try {
-      await axios.post(`${this.graphApiUrl}/${commentId}/comments`, {
-        access_token: accessToken,
-        message: message
+      const response = await axios.post(`${this.graphApiUrl}/me/messages`, {
+        recipient: { id: recipientId },
+        messaging_type: 'RESPONSE',
+        message: { text: message }
+      }, {
+        params: { access_token: pageAccessToken }
       });
 
-      return true;
+      return { success: true, id: response.data?.message_id };
     } catch (error: any) {
-      this.logger.error('Failed to reply to comment:', error);
-      return false;
+      this.logger.error('Failed to send message:', error);
+      return { success: false, error: error?.response?.data?.error?.message || error?.message };
     }
   }
 
@@ -0,0 +1,224 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { isTransientMailError } from '../mail/mail-transport.service';
+
+export type NotificationChannelType = 'email' | 'slack' | 'teams' | 'webhook' | 'push';
+
+/**
+ * What every transport needs to know about the notification being delivered
+ */
+export interface NotificationPayload {
+  id: string;
+  organizationId: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface TransportResult {
+  // Provider message id or HTTP status, kept on the delivery record
+  providerMessageId?: string;
+  responseStatus?: number;
+}
+
+export class NotificationTransportError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly status?: number,
+    // Seconds the receiver asked us to wait (Retry-After)
+    readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = 'NotificationTransportError';
+  }
+}
+
+export const SIGNATURE_HEADER = 'X-Bowery-Signature';
+export const TIMESTAMP_HEADER = 'X-Bowery-Timestamp';
+export const DELIVERY_HEADER = 'X-Bowery-Delivery';
+
+const HTTP_TIMEOUT_MS = 10000;
+
+interface SlackText {
+  type: 'plain_text' | 'mrkdwn';
+  text: string;
+  emoji?: boolean;
+}
+
+export interface SlackMessage {
+  text: string;
+  blocks: Array<{ type: 'header' | 'section'; text: SlackText } | { type: 'context'; elements: SlackText[] }>;
+  username?: string;
+  icon_emoji?: string;
+}
+
+export interface TeamsMessage {
+  type: 'message';
+  attachments: Array<{
+    contentType: string;
+    contentUrl: null;
+    content: {
+      $schema: string;
+      type: 'AdaptiveCard';
+      version: string;
+      body: Array<{ type: 'TextBlock'; text: string; wrap: boolean; weight?: string; size?: string; isSubtle?: boolean }>;
+    };
+  }>;
+}
+
+/**
+ * Slack incoming-webhook message: plain text fallback plus header and body blocks
+ */
+export function buildSlackPayload(notification: NotificationPayload, config: { username?: string; iconEmoji?: string } = {}): SlackMessage {
+  return {
+    text: `${notification.title}\n${notification.message}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: notification.title.slice(0, 150), emoji: true } },
+      { type: 'section', text: { type: 'mrkdwn', text: notification.message.slice(0, 3000) } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `${notification.type} · ${notification.id}` }] },
+    ],
+    ...(config.username ? { username: config.username } : {}),
+    ...(config.iconEmoji ? { icon_emoji: config.iconEmoji } : {}),
+  };
+}
+
+/**
+ * Teams incoming-webhook message carrying an Adaptive Card, which both Office 365 connectors and
+ * Workflows webhooks accept
+ */
+export function buildTeamsPayload(notification: NotificationPayload): TeamsMessage {
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            { type: 'TextBlock', text: notification.title, weight: 'Bolder', size: 'Medium', wrap: true },
+            { type: 'TextBlock', text: notification.message, wrap: true },
+            { type: 'TextBlock', text: `${notification.type} · ${notification.id}`, isSubtle: true, size: 'Small', wrap: true },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+export function buildWebhookBody(notification: NotificationPayload): string {
+  return JSON.stringify({
+    id: notification.id,
+    event: 'notification',
+    type: notification.type,
+    organizationId: notification.organizationId,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data || {},
+    createdAt: notification.createdAt,
+  });
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", so receivers can reject replays of old deliveries
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature || '');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * POST to an incoming webhook. Network errors, timeouts, 408, 429 and 5xx are retryable; other 4xx mean the
+ * webhook URL or payload is wrong and retrying will not help.
+ */
+export async function postJson(url: string, body: string | object, headers: Record<string, string> = {}): Promise<TransportResult> {
+  try {
+    const response = await axios.post(url, body, {
+      headers: { 'Content-Type': 'application/json', ...headers },
+      timeout: HTTP_TIMEOUT_MS,
+      maxRedirects: 0,
+      // Keep the exact bytes that were signed
+      transformRequest: typeof body === 'string' ? [(data: string) => data] : undefined,
+    });
+    return { responseStatus: response.status };
+  } catch (error) {
+    const response = axios.isAxiosError<string | { error?: unknown; message?: unknown } | null>(error) ? error.response : undefined;
+    const status = response?.status;
+    const responseBody = response?.data;
+    const detail = typeof responseBody === 'string' ? responseBody : responseBody?.error || responseBody?.message;
+    const message = status
+      ? `HTTP ${status}${detail ? `: ${String(detail).slice(0, 200)}` : ''}`
+      : (error instanceof Error && error.message) || 'Request failed';
+    const retryAfter = Number(response?.headers['retry-after']);
+    throw new NotificationTransportError(
+      message,
+      status === undefined || status === 408 || status === 429 || status >= 500,
+      status,
+      Number.isFinite(retryAfter) ? retryAfter : undefined,
+    );
+  }
+}
+
+/**
+ * Wrap an SMTP failure so 4xx replies and connection problems are retried and 5xx rejections are not
+ */
+export function toMailTransportError(error: unknown): NotificationTransportError {
+  const responseCode = Number((error as { responseCode?: unknown } | null)?.responseCode) || undefined;
+  const message = (error instanceof Error && error.message) || 'Mail delivery failed';
+  return new NotificationTransportError(message, isTransientMailError(error), responseCode);
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export interface DeliveryOutcome {
+  status: 'sent' | 'failed';
+  attempts: number;
+  result?: TransportResult;
+  error?: string;
+  responseStatus?: number;
+}
+
+/**
+ * Run one channel's send with exponential backoff between retryable failures. Never throws.
+ */
+export async function deliverWithRetry(
+  send: () => Promise<TransportResult>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms)),
+): Promise<DeliveryOutcome> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  let attempts = 0;
+
+  for (;;) {
+    attempts++;
+    try {
+      const result = await send();
+      return { status: 'sent', attempts, result, responseStatus: result.responseStatus };
+    } catch (error) {
+      const transportError = error instanceof NotificationTransportError ? error : undefined;
+      if (!transportError?.retryable || attempts >= maxAttempts) {
+        const message = (error instanceof Error && error.message) || 'Delivery failed';
+        return { status: 'failed', attempts, error: message, responseStatus: transportError?.status };
+      }
+      const backoff = policy.baseDelayMs * Math.pow(2, attempts - 1);
+      const requested = transportError.retryAfter !== undefined ? transportError.retryAfter * 1000 : 0;
+      await sleep(Math.min(policy.maxDelayMs, Math.max(backoff, requested)));
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import axios from 'axios';
+
+export class ElasticsearchError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    // Connection failures and 429/5xx: the cluster is unavailable rather than the request being wrong
+    readonly unavailable: boolean = false,
+  ) {
+    super(message);
+    this.name = 'ElasticsearchError';
+  }
+}
+
+export interface BulkOperation {
+  action: 'index' | 'delete';
+  id: string;
+  document?: object;
+}
+
+interface BulkItemOutcome {
+  _id: string;
+  status: number;
+  error?: { type: string; reason?: string };
+}
+
+export interface BulkResult {
+  succeeded: number;
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Minimal Elasticsearch 8 REST client covering what content search needs: index management, aliases,
+ * single and bulk writes, and search
+ */
+export class ElasticsearchClient {
+  constructor(private readonly node: string, private readonly timeoutMs: number = 5000) {}
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.request('GET', '/');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async indexExists(index: string): Promise<boolean> {
+    try {
+      await this.request('HEAD', `/${encodeURIComponent(index)}`);
+      return true;
+    } catch (error) {
+      if (error instanceof ElasticsearchError && error.status === 404) return false;
+      throw error;
+    }
+  }
+
+  async createIndex(index: string, definition: object): Promise<void> {
+    await this.request('PUT', `/${encodeURIComponent(index)}`, definition);
+  }
+
+  async deleteIndex(index: string): Promise<void> {
+    try {
+      await this.request('DELETE', `/${encodeURIComponent(index)}`);
+    } catch (error) {
+      if (!(error instanceof ElasticsearchError && error.status === 404)) throw error;
+    }
+  }
+
+  /**
+   * Indices the alias currently points at (empty when the alias does not exist)
+   */
+  async getAliasTargets(alias: string): Promise<string[]> {
+    try {
+      return Object.keys(await this.request<Record<string, unknown>>('GET', `/_alias/${encodeURIComponent(alias)}`));
+    } catch (error) {
+      if (error instanceof ElasticsearchError && error.status === 404) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Point the alias at `index` and away from `previous` in one atomic update
+   */
+  async swapAlias(alias: string, index: string, previous: string[]): Promise<void> {
+    await this.request('POST', '/_aliases', {
+      actions: [
+        ...previous.map(old => ({ remove: { index: old, alias } })),
+        { add: { index, alias, is_write_index: true } },
+      ],
+    });
+  }
+
+  async index(index: string, id: string, document: object): Promise<void> {
+    await this.request('PUT', `/${encodeURIComponent(index)}/_doc/${encodeURIComponent(id)}`, document);
+  }
+
+  async delete(index: string, id: string): Promise<void> {
+    try {
+      await this.request('DELETE', `/${encodeURIComponent(index)}/_doc/${encodeURIComponent(id)}`);
+    } catch (error) {
+      // Already gone
+      if (!(error instanceof ElasticsearchError && error.status === 404)) throw error;
+    }
+  }
+
+  async bulk(index: string, operations: BulkOperation[]): Promise<BulkResult> {
+    if (operations.length === 0) return { succeeded: 0, failed: [] };
+    const lines: string[] = [];
+    for (const op of operations) {
+      lines.push(JSON.stringify({ [op.action]: { _index: index, _id: op.id } }));
+      if (op.action === 'index') lines.push(JSON.stringify(op.document));
+    }
+    const data = await this.request<{ items?: Array<{ index?: BulkItemOutcome; delete?: BulkItemOutcome }> }>(
+      'POST',
+      '/_bulk',
+      `${lines.join('\n')}\n`,
+      'application/x-ndjson',
+    );
+
+    const result: BulkResult = { succeeded: 0, failed: [] };
+    for (const item of data.items || []) {
+      const outcome = item.index || item.delete;
+      if (!outcome) continue;
+      // Deleting a document that was never indexed is fine
+      if (outcome.error && !(item.delete && outcome.status === 404)) {
+        result.failed.push({ id: outcome._id, error: outcome.error.reason || outcome.error.type });
+      } else {
+        result.succeeded++;
+      }
+    }
+    return result;
+  }
+
+  async search<T = unknown>(index: string, body: object): Promise<T> {
+    return this.request<T>('POST', `/${encodeURIComponent(index)}/_search`, body);
+  }
+
+  private async request<T = unknown>(
+    method: 'GET' | 'HEAD' | 'PUT' | 'POST' | 'DELETE',
+    path: string,
+    data?: unknown,
+    contentType: string = 'application/json',
+  ): Promise<T> {
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.node.replace(/\/+$/, '')}${path}`,
+        data,
+        headers: { 'Content-Type': contentType },
+        timeout: this.timeoutMs,
+      });
+      return response.data;
+    } catch (error) {
+      const response = axios.isAxiosError<{ error?: { reason?: string; type?: string } }>(error) ? error.response : undefined;
+      const status = response?.status;
+      const reason = response?.data?.error?.reason || response?.data?.error?.type || (error instanceof Error && error.message) || 'Elasticsearch request failed';
+      throw new ElasticsearchError(reason, status, status === undefined || status === 429 || status >= 500);
+    }
+  }
+}
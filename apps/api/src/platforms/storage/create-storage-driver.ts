@@ -0,0 +1,29 @@
+import * as path from 'path';
+import { StorageDriver } from './storage-driver';
+import { LocalDiskStorageDriver } from './local-disk-storage-driver';
+import { S3StorageDriver } from './s3-storage-driver';
+
+/**
+ * The driver selected by STORAGE_DRIVER: `local` (default) keeps files under STORAGE_LOCAL_DIR, `s3` in
+ * STORAGE_S3_BUCKET on AWS or the S3-compatible store at STORAGE_S3_ENDPOINT
+ */
+export function createStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  const type = (env.STORAGE_DRIVER || 'local').toLowerCase();
+
+  if (type === 's3') {
+    if (!env.STORAGE_S3_BUCKET) {
+      throw new Error('STORAGE_S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    return new S3StorageDriver({
+      bucket: env.STORAGE_S3_BUCKET,
+      region: env.STORAGE_S3_REGION,
+      endpoint: env.STORAGE_S3_ENDPOINT,
+      accessKeyId: env.STORAGE_S3_ACCESS_KEY_ID,
+      secretAccessKey: env.STORAGE_S3_SECRET_ACCESS_KEY,
+    });
+  }
+  if (type === 'local') {
+    return new LocalDiskStorageDriver(env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'));
+  }
+  throw new Error(`Unknown STORAGE_DRIVER: ${type}`);
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { StorageDriver, StorageDriverError } from './storage-driver';
+
+/**
+ * Objects as files under a root directory, for development and single-host deployments. Every API replica
+ * must mount the same directory.
+ */
+export class LocalDiskStorageDriver extends StorageDriver {
+  readonly type = 'local' as const;
+
+  constructor(private readonly rootDir: string) {
+    super();
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename, so readers never see a partly written object
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, body);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw new StorageDriverError(`Failed to store ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new StorageDriverError(`Failed to read ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  presignedDownloadUrl(): Promise<string | null> {
+    return Promise.resolve(null);
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new StorageDriverError(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,72 @@
+import S3 from 'aws-sdk/clients/s3';
+import { StorageDriver, StorageDriverError } from './storage-driver';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region?: string;
+  // Custom endpoint for S3-compatible stores such as MinIO; path-style addressing is used with it
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * Objects in an S3 bucket or any S3-compatible store. Downloads go straight to the store through presigned URLs.
+ */
+export class S3StorageDriver extends StorageDriver {
+  readonly type = 's3' as const;
+  private readonly s3: S3;
+
+  constructor(private readonly config: S3StorageConfig, s3?: S3) {
+    super();
+    this.s3 = s3 || new S3({
+      region: config.region || 'us-east-1',
+      endpoint: config.endpoint,
+      s3ForcePathStyle: !!config.endpoint,
+      signatureVersion: 'v4',
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    try {
+      await this.s3.putObject({ Bucket: this.config.bucket, Key: key, Body: body, ContentType: contentType }).promise();
+    } catch (error) {
+      throw this.toError('store', key, error);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const object = await this.s3.getObject({ Bucket: this.config.bucket, Key: key }).promise();
+      return object.Body ? Buffer.from(object.Body as Uint8Array) : Buffer.alloc(0);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'NoSuchKey') return null;
+      throw this.toError('read', key, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.s3.deleteObject({ Bucket: this.config.bucket, Key: key }).promise();
+    } catch (error) {
+      throw this.toError('delete', key, error);
+    }
+  }
+
+  presignedDownloadUrl(key: string, expiresInSeconds: number, fileName: string): Promise<string | null> {
+    return this.s3.getSignedUrlPromise('getObject', {
+      Bucket: this.config.bucket,
+      Key: key,
+      Expires: expiresInSeconds,
+      ResponseContentDisposition: `attachment; filename="${fileName.replace(/["\\\r\n]/g, '_')}"`,
+    });
+  }
+
+  private toError(action: string, key: string, error: unknown): StorageDriverError {
+    const status = (error as { statusCode?: number }).statusCode;
+    return new StorageDriverError(`Failed to ${action} ${key}: ${(error as Error).message}`, !status || status >= 500);
+  }
+}
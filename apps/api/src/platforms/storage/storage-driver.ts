@@ -0,0 +1,32 @@
+/**
+ * Contract every object storage driver implements. Drivers only store bytes under opaque keys; file metadata,
+ * deduplication, quotas and signed download links are handled by MediaStorageService.
+ */
+
+export type StorageDriverType = 'local' | 's3';
+
+export class StorageDriverError extends Error {
+  constructor(message: string, readonly retryable: boolean = false) {
+    super(message);
+    this.name = 'StorageDriverError';
+  }
+}
+
+export abstract class StorageDriver {
+  abstract readonly type: StorageDriverType;
+
+  // Overwrites any object already stored under the key
+  abstract put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  // Null when there is no such object
+  abstract get(key: string): Promise<Buffer | null>;
+
+  // Deleting a missing object is not an error
+  abstract delete(key: string): Promise<void>;
+
+  /**
+   * A URL the object can be fetched from directly until it expires, or null when downloads have to be
+   * served by the API (local disk)
+   */
+  abstract presignedDownloadUrl(key: string, expiresInSeconds: number, fileName: string): Promise<string | null>;
+}
@@ -0,0 +1,253 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+
+// Connection failures and timeouts that can clear up by the next attempt
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT']);
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying. Other responses, including
+ * 401/403 for a wrong or revoked application password, fail the same way on every attempt.
+ */
+export function isRetryableWordPressError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  if (status) return status === 429 || status >= 500;
+  return RETRYABLE_NETWORK_CODES.has(error.code || '');
+}
+
+// The REST API's message for a rejected request, falling back to the transport error
+function describeWordPressError(error: unknown): string {
+  if (axios.isAxiosError<{ message?: string }>(error)) return error.response?.data?.message || error.message;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The fields read back from the wp/v2 post, media, term and user endpoints
+interface WordPressPostResponse {
+  id: number;
+  link: string;
+  status: string;
+}
+
+interface WordPressMediaResponse {
+  id: number;
+  source_url: string;
+}
+
+interface WordPressTerm {
+  id: number;
+  name: string;
+}
+
+export type WordPressPostStatus = 'draft' | 'publish' | 'future' | 'pending' | 'private';
+
+export interface WordPressSiteCredentials {
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+}
+
+export interface WordPressPostContent {
+  title: string;
+  content: string;
+  excerpt?: string;
+  slug?: string;
+  status: WordPressPostStatus;
+  // Required by WordPress when status is 'future'
+  dateGmt?: string;
+  categories?: string[];
+  tags?: string[];
+  featuredMediaId?: number;
+}
+
+export interface WordPressPostResult {
+  success: boolean;
+  postId?: string;
+  url?: string;
+  status?: string;
+  error?: string;
+}
+
+export interface WordPressMediaResult {
+  id: number;
+  url: string;
+}
+
+@Injectable()
+export class WordPressClientService {
+  private readonly logger = new Logger(WordPressClientService.name);
+
+  /**
+   * Encode WordPress application password credentials for storage as the account's access token
+   */
+  encodeCredentials(username: string, applicationPassword: string): string {
+    return Buffer.from(`${username}:${applicationPassword.replace(/\s+/g, '')}`).toString('base64');
+  }
+
+  /**
+   * Create a post on a WordPress site
+   */
+  async createPost(siteUrl: string, credentials: string, content: WordPressPostContent): Promise<WordPressPostResult> {
+    try {
+      const payload = await this.buildPostPayload(siteUrl, credentials, content);
+      const response = await axios.post<WordPressPostResponse>(`${this.apiUrl(siteUrl)}/posts`, payload, {
+        headers: this.headers(credentials),
+        timeout: 30000,
+      });
+
+      return {
+        success: true,
+        postId: String(response.data.id),
+        url: response.data.link,
+        status: response.data.status,
+      };
+    } catch (error) {
+      const message = describeWordPressError(error);
+      this.logger.error('Failed to create WordPress post:', message);
+      if (isRetryableWordPressError(error)) throw error;
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Update an existing post on a WordPress site
+   */
+  async updatePost(siteUrl: string, credentials: string, postId: string, content: WordPressPostContent): Promise<WordPressPostResult> {
+    try {
+      const payload = await this.buildPostPayload(siteUrl, credentials, content);
+      const response = await axios.post<WordPressPostResponse>(`${this.apiUrl(siteUrl)}/posts/${postId}`, payload, {
+        headers: this.headers(credentials),
+        timeout: 30000,
+      });
+
+      return {
+        success: true,
+        postId: String(response.data.id),
+        url: response.data.link,
+        status: response.data.status,
+      };
+    } catch (error) {
+      const message = describeWordPressError(error);
+      this.logger.error(`Failed to update WordPress post ${postId}:`, message);
+      if (isRetryableWordPressError(error)) throw error;
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Upload a media file to the WordPress media library
+   */
+  async uploadMedia(siteUrl: string, credentials: string, buffer: Buffer, filename: string, mimeType: string): Promise<WordPressMediaResult> {
+    const response = await axios.post<WordPressMediaResponse>(`${this.apiUrl(siteUrl)}/media`, buffer, {
+      headers: {
+        ...this.headers(credentials),
+        'Content-Type': mimeType,
+        'Content-Disposition': `attachment; filename="${filename.replace(/"/g, '')}"`,
+      },
+      maxBodyLength: Infinity,
+      timeout: 60000,
+    });
+
+    return {
+      id: response.data.id,
+      url: response.data.source_url,
+    };
+  }
+
+  /**
+   * Resolve category names to term IDs, creating missing categories
+   */
+  async resolveCategoryIds(siteUrl: string, credentials: string, names: string[]): Promise<number[]> {
+    return this.resolveTermIds(siteUrl, credentials, 'categories', names);
+  }
+
+  /**
+   * Resolve tag names to term IDs, creating missing tags
+   */
+  async resolveTagIds(siteUrl: string, credentials: string, names: string[]): Promise<number[]> {
+    return this.resolveTermIds(siteUrl, credentials, 'tags', names);
+  }
+
+  /**
+   * Validate credentials against the site's current user endpoint
+   */
+  async validateCredentials(siteUrl: string, credentials: string): Promise<{ id: string; name: string } | null> {
+    try {
+      const response = await axios.get<{ id: number; name: string }>(`${this.apiUrl(siteUrl)}/users/me`, {
+        params: { context: 'edit' },
+        headers: this.headers(credentials),
+        timeout: 15000,
+      });
+
+      return { id: String(response.data.id), name: response.data.name };
+    } catch (error) {
+      this.logger.error('WordPress credential validation failed:', describeWordPressError(error));
+      return null;
+    }
+  }
+
+  private async buildPostPayload(siteUrl: string, credentials: string, content: WordPressPostContent): Promise<Record<string, unknown>> {
+    const payload: Record<string, unknown> = {
+      title: content.title,
+      content: content.content,
+      status: content.status,
+    };
+
+    if (content.excerpt) payload.excerpt = content.excerpt;
+    if (content.slug) payload.slug = content.slug;
+    if (content.status === 'future' && content.dateGmt) payload.date_gmt = content.dateGmt;
+    if (content.featuredMediaId) payload.featured_media = content.featuredMediaId;
+
+    if (content.categories && content.categories.length > 0) {
+      payload.categories = await this.resolveCategoryIds(siteUrl, credentials, content.categories);
+    }
+    if (content.tags && content.tags.length > 0) {
+      payload.tags = await this.resolveTagIds(siteUrl, credentials, content.tags);
+    }
+
+    return payload;
+  }
+
+  private async resolveTermIds(siteUrl: string, credentials: string, taxonomy: 'categories' | 'tags', names: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    const unique = Array.from(new Set(names.map(n => n.trim()).filter(Boolean)));
+
+    for (const name of unique) {
+      const existing = await axios.get<WordPressTerm[]>(`${this.apiUrl(siteUrl)}/${taxonomy}`, {
+        params: { search: name, per_page: 100 },
+        headers: this.headers(credentials),
+        timeout: 15000,
+      });
+      const match = (existing.data || []).find(term => String(term.name).toLowerCase() === name.toLowerCase());
+      if (match) {
+        ids.push(match.id);
+        continue;
+      }
+
+      const created = await axios.post<WordPressTerm>(`${this.apiUrl(siteUrl)}/${taxonomy}`, { name }, {
+        headers: this.headers(credentials),
+        timeout: 15000,
+      });
+      ids.push(created.data.id);
+    }
+
+    return ids;
+  }
+
+  private apiUrl(siteUrl: string): string {
+    return `${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2`;
+  }
+
+  private headers(credentials: string): Record<string, string> {
+    return {
+      'Authorization': `Basic ${credentials}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+}
@@ -1,13 +1,15 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { Queue } from 'bullmq';
 import { DbService } from './db.service';
 
 @Injectable()
 export class QueueService {
+  private readonly logger = new Logger(QueueService.name);
   private readonly testQueue: Queue;
   private readonly publishQueue: Queue;
   private readonly webhookQueue: Queue;
   private readonly batchGenerationQueue: Queue;
+  private readonly mediaJobsQueue: Queue;
 
   constructor(private readonly dbService: DbService) {
     const connection = { url: process.env.REDIS_URL || 'redis://redis:6379' };
@@ -15,6 +17,7 @@ export class QueueService {
     this.publishQueue = new Queue('publish-jobs', { connection });
     this.webhookQueue = new Queue('webhook-jobs', { connection });
     this.batchGenerationQueue = new Queue('batch-generation-jobs', { connection });
+    this.mediaJobsQueue = new Queue('media-jobs', { connection });
   }
 
   async enqueueTest(data: any) {
@@ -29,7 +32,7 @@ export class QueueService {
         throw new Error('Global pause is active - all publishing is disabled');
       }
     } catch (error) {
-      throw new Error(`Global pause check failed: ${error.message}`);
+      throw new Error(`Global pause check failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 
     // Auto-post guardrails: check quality + autopost settings
@@ -50,7 +53,7 @@ export class QueueService {
         // If dry_run is true, we'll still queue but PlatformPublishService will simulate
         // If dry_run is false, we'll queue for real publishing
       } catch (error) {
-        throw new Error(`Auto-post guardrail failed: ${error.message}`);
+        throw new Error(`Auto-post guardrail failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
 
@@ -73,31 +76,80 @@ export class QueueService {
     });
   }
 
-  async enqueueBatchGeneration(data: {
-    jobId: string;
-    organizationId: string;
-    briefs: any[];
-    options: any;
-  }): Promise<void> {
-    try {
-      await this.batchGenerationQueue.add('process-batch-generation', data, {
+  /**
+   * Start a batch: the worker fans out one child job per pending brief. Briefs stay in Postgres, not Redis.
+   */
+  async enqueueBatchGeneration(data: { jobId: string; organizationId: string }): Promise<void> {
+    await this.batchGenerationQueue.add('process-batch-generation', data, {
+      jobId: `batch-${data.jobId}`,
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 2000 },
+      removeOnComplete: true,
+      removeOnFail: 100,
+    });
+    this.logger.log(`Enqueued batch generation job: ${data.jobId}`);
+  }
+
+  /**
+   * One child job per brief. Job ids are per item, so enqueueing an item that is still queued is a no-op;
+   * finished child jobs are removed at once so the item can be queued again on resume or retry.
+   */
+  async enqueueBatchGenerationItems(jobId: string, organizationId: string, itemIds: string[]): Promise<void> {
+    if (itemIds.length === 0) return;
+    await this.batchGenerationQueue.addBulk(itemIds.map(itemId => ({
+      name: 'generate-batch-item',
+      data: { jobId, organizationId, itemId },
+      opts: {
+        jobId: this.batchItemJobId(itemId),
         attempts: 3,
-        backoff: {
-          type: 'exponential',
-          delay: 2000,
-        },
-        removeOnComplete: 10,
-        removeOnFail: 5,
-      });
-      
-      this.logger.log(`Enqueued batch generation job: ${data.jobId}`, {
-        jobId: data.jobId,
-        totalItems: data.briefs.length,
-        organizationId: data.organizationId
-      });
-    } catch (error) {
-      this.logger.error(`Failed to enqueue batch generation job: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    })));
+  }
+
+  /**
+   * Drop child jobs that have not started yet (pause, cancel); items a worker already holds are left to finish
+   */
+  async removeBatchGenerationItems(itemIds: string[]): Promise<void> {
+    for (const itemId of itemIds) {
+      await this.batchGenerationQueue.remove(this.batchItemJobId(itemId));
     }
   }
+
+  private batchItemJobId(itemId: string): string {
+    return `batch-item-${itemId}`;
+  }
+
+  /**
+   * One queue job per media job; settings and progress stay in Postgres
+   */
+  async enqueueMediaJobs(organizationId: string, mediaJobIds: string[]): Promise<void> {
+    if (mediaJobIds.length === 0) return;
+    await this.mediaJobsQueue.addBulk(mediaJobIds.map(mediaJobId => ({
+      name: 'process-media-job',
+      data: { mediaJobId, organizationId },
+      opts: {
+        jobId: this.mediaJobQueueId(mediaJobId),
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 10000 },
+        removeOnComplete: true,
+        removeOnFail: 100,
+      },
+    })));
+  }
+
+  /**
+   * Drop queued media jobs that have not started; a running one stops at its next progress report
+   */
+  async removeMediaJobs(mediaJobIds: string[]): Promise<void> {
+    for (const mediaJobId of mediaJobIds) {
+      await this.mediaJobsQueue.remove(this.mediaJobQueueId(mediaJobId));
+    }
+  }
+
+  private mediaJobQueueId(mediaJobId: string): string {
+    return `media-job-${mediaJobId}`;
+  }
 }
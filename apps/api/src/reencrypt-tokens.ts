@@ -0,0 +1,26 @@
+/* eslint-disable no-console */
+import { DbService } from './db.service';
+import { TokenAuditService } from './services/token-audit.service';
+import { TokenKeyRotationService } from './services/token-key-rotation.service';
+
+// Re-encrypts stored tokens and secrets under TOKEN_ENC_PRIMARY_KEY_ID: npm run tokens:reencrypt
+async function run() {
+  const db = new DbService();
+  await db.onModuleInit();
+  const rotation = new TokenKeyRotationService(db, new TokenAuditService(db));
+  try {
+    const result = await rotation.run();
+    console.log(
+      `Re-encrypted ${result.reencrypted} of ${result.scanned} secrets with key ${result.primaryKeyId} (${result.skipped} skipped, ${result.failed} failed)`,
+    );
+    if (result.state === 'failed') throw new Error(result.error || 'Re-encryption stopped');
+    if (result.failed > 0) process.exitCode = 1;
+  } finally {
+    await db.onModuleDestroy();
+  }
+}
+
+run().catch(error => {
+  console.error('Re-encryption failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
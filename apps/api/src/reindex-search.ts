@@ -0,0 +1,22 @@
+/* eslint-disable no-console */
+import { DbService } from './db.service';
+import { ContentSearchService } from './services/content-search.service';
+
+// Rebuilds the Elasticsearch content index from Postgres: npm run search:reindex
+async function run() {
+  const db = new DbService();
+  await db.onModuleInit();
+  const search = new ContentSearchService(db);
+  try {
+    const result = await search.reindex();
+    console.log(`Indexed ${result.indexed} content items into ${result.index} (${result.failed} failed) in ${result.durationMs}ms`);
+    if (result.failed > 0) process.exitCode = 1;
+  } finally {
+    await db.onModuleDestroy();
+  }
+}
+
+run().catch(error => {
+  console.error('Reindex failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DbService } from '../db.service';
-import { PerplexityService } from './perplexity.service';
+import { LlmCallContext, LlmService } from './llm.service';
 import { ContentAdaptationService } from '../content-adaptation.service';
 
 export interface OptimizationResult {
@@ -42,14 +42,15 @@ export class AdvancedContentOptimizationService {
 
   constructor(
     private readonly db: DbService,
-    private readonly perplexity: PerplexityService,
+    private readonly llm: LlmService,
     private readonly contentAdaptation: ContentAdaptationService,
   ) {}
 
   async optimizeContentForPerformance(
     content: string, 
     platform: string, 
-    historicalData?: any
+    historicalData?: any,
+    organizationId?: string
   ): Promise<OptimizationResult> {
     try {
       // Get platform-specific optimization guidelines
@@ -78,7 +79,7 @@ Focus on:
 - Current trends
 - Content structure`;
 
-      const optimization = await this.perplexity.answer(optimizationPrompt, [], { 
+      const optimization = await this.llm.answer(this.llmContext(organizationId), optimizationPrompt, [], { 
         maxTokens: 1500,
         temperature: 0.7 
       });
@@ -102,7 +103,7 @@ Focus on:
     }
   }
 
-  async generateABTestVariations(content: string, platform: string): Promise<ABTestPlan> {
+  async generateABTestVariations(content: string, platform: string, organizationId?: string): Promise<ABTestPlan> {
     try {
       const testId = `ab_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
       
@@ -112,7 +113,7 @@ Focus on:
 
       for (const type of variationTypes) {
         try {
-          const variation = await this.generateVariation(content, platform, type);
+          const variation = await this.generateVariation(content, platform, type, organizationId);
           variations.push({
             id: `${testId}_${type}`,
             content: variation.content,
@@ -161,7 +162,7 @@ Focus on:
     }
   }
 
-  async analyzeContentPerformance(content: string, platform: string): Promise<{
+  async analyzeContentPerformance(content: string, platform: string, organizationId?: string): Promise<{
     readabilityScore: number;
     engagementScore: number;
     platformCompliance: number;
@@ -182,7 +183,7 @@ Provide analysis on:
 
 Be specific and actionable.`;
 
-      const analysis = await this.perplexity.answer(analysisPrompt, [], { 
+      const analysis = await this.llm.answer(this.llmContext(organizationId), analysisPrompt, [], { 
         maxTokens: 1000,
         temperature: 0.5 
       });
@@ -206,6 +207,10 @@ Be specific and actionable.`;
     }
   }
 
+  private llmContext(organizationId?: string): LlmCallContext {
+    return { organizationId, feature: 'content_optimization' };
+  }
+
   private getPlatformOptimizationGuidelines(platform: string): string {
     const guidelines = {
       'FACEBOOK': `
@@ -252,7 +257,7 @@ Be specific and actionable.`;
     return guidelines[platform] || guidelines['FACEBOOK'];
   }
 
-  private async generateVariation(content: string, platform: string, type: string): Promise<{
+  private async generateVariation(content: string, platform: string, type: string, organizationId?: string): Promise<{
     content: string;
     description: string;
     predictedEngagement: number;
@@ -265,7 +270,7 @@ Be specific and actionable.`;
       structure: `Improve the structure and flow of this ${platform} content: "${content}"`
     };
 
-    const result = await this.perplexity.answer(prompts[type], [], { maxTokens: 500 });
+    const result = await this.llm.answer(this.llmContext(organizationId), prompts[type], [], { maxTokens: 500 });
     
     return {
       content: this.extractOptimizedContent(result.answer),
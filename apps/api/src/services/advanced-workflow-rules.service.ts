@@ -1,11 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DbService } from '../db.service';
+import { NotificationService } from './notification.service';
+import { SmartSchedulingService } from './smart-scheduling.service';
+import { CadencePolicyService } from './cadence-policy.service';
+import {
+  WorkflowAction,
+  WorkflowCondition,
+  WorkflowEvent,
+  WorkflowEventType,
+  evaluateConditions,
+  interpolateParameters,
+  validateActions,
+  validateConditions,
+  validateTriggers,
+} from './workflow-rules';
+
+export { WorkflowAction, WorkflowCondition, WorkflowEvent, WorkflowEventType } from './workflow-rules';
 
 export interface WorkflowRule {
   id: string;
   name: string;
   description: string;
   organizationId: string;
+  category?: string;
+  // Lifecycle events that run the rule automatically
+  triggers?: WorkflowEventType[];
   conditions: WorkflowCondition[];
   actions: WorkflowAction[];
   priority: number;
@@ -14,19 +33,6 @@ export interface WorkflowRule {
   updatedAt: string;
 }
 
-export interface WorkflowCondition {
-  field: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'greater_than' | 'less_than' | 'in' | 'not_in';
-  value: any;
-  logicalOperator?: 'AND' | 'OR';
-}
-
-export interface WorkflowAction {
-  type: 'approve' | 'reject' | 'escalate' | 'notify' | 'schedule' | 'assign' | 'add_tag' | 'change_status';
-  parameters: Record<string, any>;
-  delay?: number; // seconds
-}
-
 export interface WorkflowTemplate {
   id: string;
   name: string;
@@ -37,14 +43,29 @@ export interface WorkflowTemplate {
   createdAt: string;
 }
 
+export interface WorkflowStepLog {
+  step: number;
+  ruleId: string;
+  action: WorkflowAction['type'];
+  status: 'completed' | 'failed' | 'skipped';
+  output?: Record<string, any>;
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
 export interface WorkflowExecution {
   id: string;
+  organizationId?: string;
   contentItemId: string;
   workflowId: string;
+  eventType?: WorkflowEventType;
+  eventData?: Record<string, any>;
   status: 'running' | 'completed' | 'failed' | 'paused';
   currentStep: number;
   executedActions: WorkflowAction[];
   pendingActions: WorkflowAction[];
+  steps: WorkflowStepLog[];
   error?: string;
   startedAt: string;
   completedAt?: string;
@@ -69,15 +90,29 @@ export interface WorkflowAnalytics {
 export class AdvancedWorkflowRulesService {
   private readonly logger = new Logger(AdvancedWorkflowRulesService.name);
 
-  constructor(private readonly db: DbService) {}
+  constructor(
+    private readonly db: DbService,
+    private readonly notificationService: NotificationService,
+    private readonly smartScheduling: SmartSchedulingService,
+    private readonly cadencePolicies: CadencePolicyService,
+  ) {}
 
   async createWorkflowRule(rule: Omit<WorkflowRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    // Invalid rules fail here with a WorkflowRuleError rather than on every event
+    const validated = {
+      ...rule,
+      triggers: validateTriggers(rule.triggers),
+      conditions: validateConditions(rule.conditions),
+      actions: validateActions(rule.actions),
+      priority: Number(rule.priority) || 0,
+      enabled: rule.enabled !== false,
+    };
     try {
       const ruleId = `wf_rule_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
       
       await this.db.createWorkflowRule({
         id: ruleId,
-        ...rule,
+        ...validated,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       });
@@ -90,6 +125,46 @@ export class AdvancedWorkflowRulesService {
     }
   }
 
+  async listWorkflowRules(organizationId: string): Promise<WorkflowRule[]> {
+    const rows = await this.db.getWorkflowRules(organizationId);
+    return rows.map(toWorkflowRule);
+  }
+
+  async updateWorkflowRule(
+    organizationId: string,
+    ruleId: string,
+    updates: Partial<Omit<WorkflowRule, 'id' | 'organizationId' | 'createdAt' | 'updatedAt'>>,
+  ): Promise<WorkflowRule | null> {
+    const data: Record<string, any> = {};
+    if (updates.name !== undefined) data.name = updates.name;
+    if (updates.description !== undefined) data.description = updates.description;
+    if (updates.category !== undefined) data.category = updates.category;
+    if (updates.triggers !== undefined) data.triggers = validateTriggers(updates.triggers);
+    if (updates.conditions !== undefined) data.conditions = validateConditions(updates.conditions);
+    if (updates.actions !== undefined) data.actions = validateActions(updates.actions);
+    if (updates.priority !== undefined) data.priority = Number(updates.priority) || 0;
+    if (updates.enabled !== undefined) data.enabled = Boolean(updates.enabled);
+
+    const row = await this.db.updateWorkflowRule(ruleId, organizationId, data);
+    return row ? toWorkflowRule(row) : null;
+  }
+
+  async deleteWorkflowRule(organizationId: string, ruleId: string): Promise<boolean> {
+    return this.db.deleteWorkflowRule(ruleId, organizationId);
+  }
+
+  async getExecutions(
+    organizationId: string,
+    filters: { ruleId?: string; contentItemId?: string; eventType?: string; status?: string },
+    limit: number = 50,
+  ): Promise<WorkflowExecution[]> {
+    const rows = await this.db.listWorkflowExecutions(organizationId, filters, limit);
+    return rows.map(toWorkflowExecution);
+  }
+
+  /**
+   * Run all enabled rules (regardless of trigger) against a content item, recorded as one combined execution
+   */
   async executeWorkflowRules(contentItemId: string, organizationId: string): Promise<WorkflowExecution> {
     try {
       const executionId = `wf_exec_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
@@ -105,12 +180,14 @@ export class AdvancedWorkflowRulesService {
 
       const execution: WorkflowExecution = {
         id: executionId,
+        organizationId,
         contentItemId,
         workflowId: 'combined_rules',
         status: 'running',
         currentStep: 0,
         executedActions: [],
         pendingActions: [],
+        steps: [],
         startedAt: new Date().toISOString()
       };
 
@@ -118,20 +195,10 @@ export class AdvancedWorkflowRulesService {
       const sortedRules = rules.sort((a, b) => b.priority - a.priority);
       
       for (const rule of sortedRules) {
-        if (await this.evaluateRuleConditions(rule, contentItem)) {
+        const context = this.buildContext(contentItem, rule);
+        if (evaluateConditions(rule.conditions, context)) {
           this.logger.log(`Rule ${rule.id} conditions met for content ${contentItemId}`);
-          
-          // Execute rule actions
-          for (const action of rule.actions) {
-            try {
-              await this.executeAction(action, contentItemId, organizationId);
-              execution.executedActions.push(action);
-              this.logger.log(`Executed action ${action.type} for content ${contentItemId}`);
-            } catch (error) {
-              this.logger.error(`Failed to execute action ${action.type}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-              execution.pendingActions.push(action);
-            }
-          }
+          await this.runActions(rule, execution, context);
         }
       }
 
@@ -148,6 +215,44 @@ export class AdvancedWorkflowRulesService {
     }
   }
 
+  /**
+   * Queue a lifecycle event without waiting for its rules, for callers that should not be slowed down or
+   * failed by workflow actions
+   */
+  emit(event: WorkflowEvent): void {
+    void this.handleEvent(event);
+  }
+
+  /**
+   * Run every enabled rule listening for the event whose conditions match, each recorded as its own execution.
+   * Never throws. Changes made by actions do not raise further events, so rules cannot trigger each other in a loop.
+   */
+  async handleEvent(event: WorkflowEvent): Promise<WorkflowExecution[]> {
+    const executions: WorkflowExecution[] = [];
+    try {
+      const rules = (await this.db.getWorkflowRulesForEvent(event.organizationId, event.type)).map(toWorkflowRule);
+      if (rules.length === 0) return executions;
+
+      let contentItem = await this.db.getContentItem(event.contentItemId);
+      if (!contentItem) {
+        this.logger.warn(`Content ${event.contentItemId} not found for ${event.type} event`);
+        return executions;
+      }
+
+      for (const rule of rules) {
+        const context = this.buildContext(contentItem, rule, event);
+        if (!evaluateConditions(rule.conditions, context)) continue;
+
+        executions.push(await this.runRule(rule, event, context));
+        // Later rules see the content as changed by earlier ones
+        contentItem = (await this.db.getContentItem(event.contentItemId)) || contentItem;
+      }
+    } catch (error) {
+      this.logger.error(`Workflow rules for ${event.type} on ${event.contentItemId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return executions;
+  }
+
   async createWorkflowTemplate(template: Omit<WorkflowTemplate, 'id' | 'createdAt'>): Promise<string> {
     try {
       const templateId = `wf_template_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
@@ -251,10 +356,10 @@ export class AdvancedWorkflowRulesService {
         const escalationRules = await this.getEscalationRules(organizationId);
         
         for (const rule of escalationRules) {
-          if (await this.evaluateRuleConditions(rule, contentItem)) {
+          if (evaluateConditions(rule.conditions, this.buildContext(contentItem, rule))) {
             for (const action of rule.actions) {
               try {
-                await this.executeAction(action, contentItem.id, organizationId);
+                await this.executeAction(action, contentItem.id, organizationId, this.buildContext(contentItem, rule));
                 escalationActions.push(`${action.type} for content ${contentItem.id}`);
             } catch (error) {
               this.logger.error(`Escalation action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -276,119 +381,191 @@ export class AdvancedWorkflowRulesService {
 
   private async getApplicableWorkflowRules(organizationId: string): Promise<WorkflowRule[]> {
     // Get enabled workflow rules for organization
-    return await this.db.getWorkflowRules(organizationId, true);
+    return (await this.db.getWorkflowRules(organizationId, true)).map(toWorkflowRule);
   }
 
-  private async evaluateRuleConditions(rule: WorkflowRule, contentItem: any): Promise<boolean> {
-    let result = true;
-    let logicalOperator: 'AND' | 'OR' = 'AND';
+  private async runRule(rule: WorkflowRule, event: WorkflowEvent, context: Record<string, any>): Promise<WorkflowExecution> {
+    const execution: WorkflowExecution = {
+      id: `wf_exec_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+      organizationId: event.organizationId,
+      contentItemId: event.contentItemId,
+      workflowId: rule.id,
+      eventType: event.type,
+      eventData: event.data || {},
+      status: 'running',
+      currentStep: 0,
+      executedActions: [],
+      pendingActions: [],
+      steps: [],
+      startedAt: new Date().toISOString(),
+    };
+    // Recorded up front so runs interrupted mid-way (e.g. during a delay) remain visible
+    await this.db.storeWorkflowExecution(execution);
+
+    await this.runActions(rule, execution, context);
+
+    execution.status = execution.pendingActions.length > 0 ? 'failed' : 'completed';
+    execution.completedAt = new Date().toISOString();
+    await this.db.storeWorkflowExecution(execution);
+
+    this.logger.log(`Rule ${rule.id} ${execution.status} for ${event.type} on ${event.contentItemId}`);
+    return execution;
+  }
 
-    for (const condition of rule.conditions) {
-      const conditionResult = this.evaluateCondition(condition, contentItem);
-      
-      if (logicalOperator === 'AND') {
-        result = result && conditionResult;
-      } else {
-        result = result || conditionResult;
-      }
-      
-      logicalOperator = condition.logicalOperator || 'AND';
-    }
+  /**
+   * Run a rule's actions in order, logging a step for each. Each action's output is available to later
+   * actions as {{last.*}} and {{steps.N.*}}; after a failure the remaining actions are skipped unless the
+   * failed action has continueOnError.
+   */
+  private async runActions(rule: WorkflowRule, execution: WorkflowExecution, context: Record<string, any>): Promise<void> {
+    let halted = false;
+
+    for (const action of rule.actions) {
+      const step: WorkflowStepLog = {
+        step: execution.steps.length + 1,
+        ruleId: rule.id,
+        action: action.type,
+        status: 'skipped',
+        startedAt: new Date().toISOString(),
+      };
+      execution.steps.push(step);
+      execution.currentStep = step.step;
 
-    return result;
-  }
+      if (halted) {
+        execution.pendingActions.push(action);
+        continue;
+      }
 
-  private evaluateCondition(condition: WorkflowCondition, contentItem: any): boolean {
-    const fieldValue = this.getFieldValue(contentItem, condition.field);
-    
-    switch (condition.operator) {
-      case 'equals':
-        return fieldValue === condition.value;
-      case 'not_equals':
-        return fieldValue !== condition.value;
-      case 'contains':
-        return String(fieldValue).toLowerCase().includes(String(condition.value).toLowerCase());
-      case 'not_contains':
-        return !String(fieldValue).toLowerCase().includes(String(condition.value).toLowerCase());
-      case 'greater_than':
-        return Number(fieldValue) > Number(condition.value);
-      case 'less_than':
-        return Number(fieldValue) < Number(condition.value);
-      case 'in':
-        return Array.isArray(condition.value) && condition.value.includes(fieldValue);
-      case 'not_in':
-        return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
-      default:
-        return false;
+      try {
+        const output = await this.executeAction(action, execution.contentItemId, execution.organizationId || rule.organizationId, context);
+        step.status = 'completed';
+        step.output = output;
+        execution.executedActions.push(action);
+        context.steps.push(output);
+        context.last = output;
+        this.logger.log(`Executed action ${action.type} for content ${execution.contentItemId}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Failed to execute action ${action.type}: ${message}`);
+        step.status = 'failed';
+        step.error = message;
+        execution.pendingActions.push(action);
+        execution.error = execution.error || `${action.type}: ${message}`;
+        halted = !action.continueOnError;
+      }
+      step.completedAt = new Date().toISOString();
     }
   }
 
-  private getFieldValue(contentItem: any, field: string): any {
-    // Support nested field access (e.g., 'metadata.channel', 'status')
-    const fields = field.split('.');
-    let value = contentItem;
-    
-    for (const f of fields) {
-      if (value && typeof value === 'object') {
-        value = value[f];
-      } else {
-        return undefined;
-      }
-    }
-    
-    return value;
+  /**
+   * Conditions see the content item's fields at the top level (e.g. 'status', 'metadata.channel') plus the
+   * triggering event as 'event.type' and 'event.data.*'
+   */
+  private buildContext(contentItem: any, rule: WorkflowRule, event?: WorkflowEvent): Record<string, any> {
+    return {
+      ...contentItem,
+      content: contentItem,
+      event: event ? { type: event.type, data: event.data || {} } : null,
+      rule: { id: rule.id, name: rule.name },
+      steps: [],
+      last: null,
+    };
   }
 
-  private async executeAction(action: WorkflowAction, contentItemId: string, organizationId: string): Promise<void> {
+  private async executeAction(
+    action: WorkflowAction,
+    contentItemId: string,
+    organizationId: string,
+    context: Record<string, any> = {},
+  ): Promise<Record<string, any>> {
     // Add delay if specified
-    if (action.delay !== undefined && action.delay > 0) {
-      await new Promise(resolve => setTimeout(resolve, action.delay * 1000));
+    const delay = action.delay ?? 0;
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay * 1000));
     }
 
+    // Placeholders resolve to whatever the context holds; the db calls below take the values as given
+    const parameters = interpolateParameters(action.parameters || {}, context) as Record<string, any>;
+
     switch (action.type) {
-      case 'approve':
-        await this.db.approveContent(contentItemId, 'workflow_rule', action.parameters.notes);
-        break;
+      case 'approve': {
+        const approved = await this.db.approveContent(contentItemId, parameters.approvedBy || 'workflow_rule', parameters.notes);
+        return { approved: Boolean(approved) };
+      }
       case 'reject':
-        await this.db.rejectContent(contentItemId, 'workflow_rule', action.parameters.reason);
-        break;
+        await this.db.rejectContent(contentItemId, 'workflow_rule', parameters.reason);
+        return { status: 'REJECTED' };
       case 'escalate':
-        await this.db.escalateContent(contentItemId, action.parameters.escalateTo, action.parameters.reason);
-        break;
+        await this.db.escalateContent(contentItemId, parameters.escalateTo, parameters.reason);
+        return { escalatedTo: parameters.escalateTo };
       case 'notify':
-        await this.sendNotification(action.parameters, contentItemId, organizationId);
-        break;
+        return this.sendNotification(parameters, contentItemId, organizationId, context);
       case 'schedule':
-        await this.db.createSchedule(
-          contentItemId,
-          action.parameters.platform,
-          new Date(action.parameters.scheduledAt),
-          action.parameters.mediaUrls || [],
-          action.parameters.adaptedContent
-        );
-        break;
+        return this.scheduleContent(parameters, contentItemId, organizationId);
       case 'assign':
-        await this.db.assignContent(contentItemId, action.parameters.assignee, action.parameters.notes);
-        break;
+        await this.db.assignContent(contentItemId, parameters.assignee, parameters.notes);
+        return { assignee: parameters.assignee };
       case 'add_tag':
-        await this.db.addContentTag(contentItemId, action.parameters.tag);
-        break;
+        await this.db.addContentTag(contentItemId, parameters.tag);
+        return { tag: parameters.tag };
       case 'change_status':
-        await this.db.updateContentItem(contentItemId, { status: action.parameters.status });
-        break;
+        await this.db.updateContentItem(contentItemId, { status: parameters.status });
+        return { status: parameters.status };
       default:
-        this.logger.warn(`Unknown action type: ${action.type}`);
+        throw new Error(`Unknown action type: ${(action as { type: string }).type}`);
     }
   }
 
-  private async sendNotification(parameters: any, contentItemId: string, organizationId: string): Promise<void> {
-    // This would integrate with the notification service
-    this.logger.log(`Sending notification: ${parameters.type} for content ${contentItemId}`);
+  private async sendNotification(parameters: any, contentItemId: string, organizationId: string, context: Record<string, any>): Promise<Record<string, any>> {
+    const notificationId = await this.notificationService.sendNotification({
+      organizationId,
+      userId: parameters.userId,
+      type: parameters.type || 'workflow',
+      title: parameters.title,
+      message: parameters.message,
+      data: { ...(parameters.data || {}), contentItemId, ruleId: context.rule?.id, eventType: context.event?.type },
+      channels: Array.isArray(parameters.channels) ? parameters.channels : [],
+    });
+    return { notificationId };
+  }
+
+  /**
+   * Schedule at parameters.scheduledAt, or at the time SmartSchedulingService suggests for the platform, within
+   * the organization's posting cadence. With parameters.autoShift a time the cadence blocks moves to the next
+   * allowed one; otherwise the action fails.
+   */
+  private async scheduleContent(parameters: any, contentItemId: string, organizationId: string): Promise<Record<string, any>> {
+    let scheduledAt = parameters.scheduledAt ? new Date(parameters.scheduledAt) : null;
+    const optimized = !scheduledAt;
+    if (!scheduledAt) {
+      const suggestion = await this.smartScheduling.suggestOptimalSchedule(contentItemId, parameters.platform, parameters.preferredTime);
+      scheduledAt = new Date(suggestion.suggestedTime);
+    }
+    if (isNaN(scheduledAt.getTime())) {
+      throw new Error(`Invalid scheduledAt: ${String(parameters.scheduledAt)}`);
+    }
+
+    const { scheduleId, slot } = await this.cadencePolicies.enforceAndCreate(
+      organizationId,
+      [{ platform: parameters.platform, scheduledAt }],
+      parameters.autoShift === true,
+      async ([slot]) => ({
+        slot,
+        scheduleId: await this.db.createSchedule(
+          contentItemId,
+          parameters.platform,
+          new Date(slot.scheduledAt as string),
+          parameters.mediaUrls || [],
+          parameters.adaptedContent
+        ),
+      })
+    );
+    return { scheduleId, platform: parameters.platform, scheduledAt: slot.scheduledAt, shifted: slot.shifted, optimized };
   }
 
   private async getEscalationRules(organizationId: string): Promise<WorkflowRule[]> {
     // Get escalation-specific workflow rules
-    return await this.db.getWorkflowRules(organizationId, true, 'escalation');
+    return (await this.db.getWorkflowRules(organizationId, true, 'escalation')).map(toWorkflowRule);
   }
 
   private generatePerformanceTrends(executions: WorkflowExecution[], days: number): Array<{
@@ -432,3 +609,39 @@ export class AdvancedWorkflowRulesService {
     return trends;
   }
 }
+
+function toWorkflowRule(row: any): WorkflowRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    organizationId: row.organization_id,
+    category: row.category || undefined,
+    triggers: row.triggers || [],
+    conditions: row.conditions || [],
+    actions: row.actions || [],
+    priority: row.priority,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toWorkflowExecution(row: any): WorkflowExecution {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    contentItemId: row.content_item_id,
+    workflowId: row.workflow_id,
+    eventType: row.event_type || undefined,
+    eventData: row.event_data || undefined,
+    status: row.status,
+    currentStep: row.current_step,
+    executedActions: row.executedActions,
+    pendingActions: row.pendingActions,
+    steps: row.steps,
+    error: row.error || undefined,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt || undefined,
+  };
+}
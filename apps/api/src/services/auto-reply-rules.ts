@@ -0,0 +1,173 @@
+/**
+ * Matching of auto-reply rules against inbound comments and messages.
+ * Every condition set on a rule must hold; a rule without conditions is rejected when saved.
+ */
+
+export type Sentiment = 'positive' | 'negative' | 'neutral';
+
+export interface AutoReplyConditions {
+  // At least one keyword (or all of them with matchAllKeywords) must appear as a whole word or phrase
+  keywords?: string[];
+  matchAllKeywords?: boolean;
+  regex?: string;
+  regexFlags?: string;
+  sentiment?: Sentiment;
+  minLeadScore?: number;
+}
+
+export interface AutoReplyRule {
+  id: string;
+  name: string;
+  platform: string | null;
+  kinds: string[];
+  conditions: AutoReplyConditions;
+  responseTemplate: string;
+  priority: number;
+  isActive: boolean;
+}
+
+export interface InboundContext {
+  platform: string;
+  kind: string;
+  body: string;
+  // QualityService sentiment score: 0-100, 50 is neutral
+  sentimentScore: number;
+  leadScore: number;
+}
+
+export class AutoReplyRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AutoReplyRuleError';
+  }
+}
+
+const SENTIMENTS: Sentiment[] = ['positive', 'negative', 'neutral'];
+const MAX_REGEX_LENGTH = 200;
+
+export function classifySentiment(score: number): Sentiment {
+  if (score > 55) return 'positive';
+  if (score < 45) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * QualityService's keyword scorer splits on whitespace, so punctuation is stripped first ("great!" counts as "great")
+ */
+export function normalizeForSentiment(text: string): string {
+  return text.replace(/[^\p{L}\p{N}\s']/gu, ' ').trim();
+}
+
+/**
+ * Check rule conditions before they are stored, so a bad regex fails the request rather than every evaluation
+ */
+export function validateConditions(input: unknown): AutoReplyConditions {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new AutoReplyRuleError('conditions must be an object');
+  }
+  const conditions = input as Record<string, unknown>;
+  const result: AutoReplyConditions = {};
+
+  if (conditions.keywords !== undefined) {
+    if (!Array.isArray(conditions.keywords)) throw new AutoReplyRuleError('keywords must be an array');
+    const values: unknown[] = conditions.keywords;
+    const keywords = values.map(k => String(k).trim()).filter(Boolean);
+    if (keywords.length) result.keywords = keywords;
+    if (conditions.matchAllKeywords) result.matchAllKeywords = true;
+  }
+  if (conditions.regex) {
+    const pattern = String(conditions.regex);
+    const flags = conditions.regexFlags !== undefined ? String(conditions.regexFlags) : 'i';
+    if (pattern.length > MAX_REGEX_LENGTH) throw new AutoReplyRuleError(`regex must be at most ${MAX_REGEX_LENGTH} characters`);
+    if (!/^[imsu]*$/.test(flags)) throw new AutoReplyRuleError('regexFlags may only contain i, m, s and u');
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      throw new AutoReplyRuleError(`Invalid regex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    result.regex = pattern;
+    result.regexFlags = flags;
+  }
+  if (conditions.sentiment !== undefined) {
+    const sentiment = SENTIMENTS.find(value => value === conditions.sentiment);
+    if (!sentiment) throw new AutoReplyRuleError(`sentiment must be one of ${SENTIMENTS.join(', ')}`);
+    result.sentiment = sentiment;
+  }
+  if (conditions.minLeadScore !== undefined) {
+    const score = Number(conditions.minLeadScore);
+    if (!Number.isFinite(score)) throw new AutoReplyRuleError('minLeadScore must be a number');
+    result.minLeadScore = score;
+  }
+
+  if (!result.keywords && !result.regex && !result.sentiment && result.minLeadScore === undefined) {
+    throw new AutoReplyRuleError('A rule needs at least one keyword, regex, sentiment or lead score condition');
+  }
+  return result;
+}
+
+export function ruleMatches(rule: AutoReplyRule, context: InboundContext): boolean {
+  if (!rule.isActive) return false;
+  if (rule.platform && rule.platform !== context.platform) return false;
+  if (rule.kinds.length && !rule.kinds.includes(context.kind)) return false;
+
+  const { keywords, matchAllKeywords, regex, regexFlags, sentiment, minLeadScore } = rule.conditions;
+
+  if (keywords && keywords.length) {
+    const found = keywords.map(keyword => containsPhrase(context.body, keyword));
+    if (matchAllKeywords ? found.includes(false) : !found.includes(true)) return false;
+  }
+  if (regex) {
+    try {
+      if (!new RegExp(regex, regexFlags ?? 'i').test(context.body)) return false;
+    } catch {
+      return false;
+    }
+  }
+  if (sentiment && classifySentiment(context.sentimentScore) !== sentiment) return false;
+  if (minLeadScore !== undefined && context.leadScore < minLeadScore) return false;
+
+  return true;
+}
+
+/**
+ * Highest priority active rule matching the message; earlier rules win ties
+ */
+export function findMatchingRule(rules: AutoReplyRule[], context: InboundContext): AutoReplyRule | null {
+  const ordered = rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index);
+  return ordered.find(({ rule }) => ruleMatches(rule, context))?.rule || null;
+}
+
+/**
+ * Whether `now` falls inside the quiet hours window (HH:MM, local to timeZone). Windows may wrap midnight.
+ */
+export function isWithinQuietHours(now: Date, start: string | null, end: string | null, timeZone: string = 'UTC'): boolean {
+  if (!start || !end) return false;
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(now);
+  const hour = Number(parts.find(p => p.type === 'hour')?.value);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value);
+  const current = hour * 60 + minute;
+
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+function toMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Case-insensitive whole word / phrase match; whitespace inside the phrase matches any whitespace
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
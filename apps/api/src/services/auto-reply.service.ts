@@ -0,0 +1,367 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AutoReplyRuleRow, AutoReplySettingsRow, DbService, InboxConversationRow } from '../db.service';
+import { QualityService } from './quality.service';
+import { TemplateRenderService } from './template-render.service';
+import { InboxService } from './inbox.service';
+import { TemplateError, compileTemplate } from './template-language';
+import {
+  AutoReplyRule,
+  AutoReplyRuleError,
+  InboundContext,
+  classifySentiment,
+  findMatchingRule,
+  isWithinQuietHours,
+  normalizeForSentiment,
+  validateConditions,
+} from './auto-reply-rules';
+
+export interface AutoReplyRuleInput {
+  name?: string;
+  description?: string | null;
+  platform?: string | null;
+  kinds?: string[];
+  conditions?: Record<string, unknown>;
+  responseTemplate?: string;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface AutoReplySettingsInput {
+  enabled?: boolean;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string;
+  maxRepliesPerConversation?: number;
+  rateWindowMinutes?: number;
+}
+
+export interface AutoReplyOutcome {
+  ruleId: string;
+  status: 'sent' | 'dry_run' | 'skipped' | 'failed';
+  reason?: string;
+  reply?: string;
+}
+
+const PLATFORMS = ['FACEBOOK', 'INSTAGRAM', 'LINKEDIN'];
+// Only these can be answered through InboxService.reply
+const REPLYABLE_KINDS = ['comment', 'message'];
+
+// The settings auto-replies are sent under; organizations without a settings row get DEFAULT_SETTINGS
+type AutoReplyLimits = Omit<AutoReplySettingsRow, 'organization_id' | 'updated_at'>;
+
+// Rule fields as the API sets them, already validated
+type RuleFields = Omit<Parameters<DbService['createAutoReplyRule']>[1], 'createdBy'>;
+
+const DEFAULT_SETTINGS: AutoReplyLimits = {
+  enabled: true,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'UTC',
+  max_replies_per_conversation: 1,
+  rate_window_minutes: 1440,
+};
+
+@Injectable()
+export class AutoReplyService {
+  private readonly logger = new Logger(AutoReplyService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly qualityService: QualityService,
+    private readonly templateRenderService: TemplateRenderService,
+    private readonly inboxService: InboxService,
+  ) {}
+
+  async getRules(organizationId: string) {
+    const rows = await this.dbService.getAutoReplyRules(organizationId);
+    return rows.map(toRule);
+  }
+
+  async createRule(organizationId: string, input: AutoReplyRuleInput, userId?: string) {
+    if (!input.name || !String(input.name).trim()) throw new AutoReplyRuleError('name is required');
+    if (!input.responseTemplate || !String(input.responseTemplate).trim()) throw new AutoReplyRuleError('responseTemplate is required');
+    const rule = normalizeRuleInput(input);
+    const row = await this.dbService.createAutoReplyRule(organizationId, {
+      ...rule,
+      name: String(input.name).trim(),
+      conditions: rule.conditions ?? validateConditions(input.conditions),
+      responseTemplate: String(input.responseTemplate),
+      createdBy: userId,
+    });
+    return toRule(row);
+  }
+
+  async updateRule(organizationId: string, ruleId: string, input: AutoReplyRuleInput) {
+    const row = await this.dbService.updateAutoReplyRule(ruleId, organizationId, normalizeRuleInput(input));
+    return row ? toRule(row) : null;
+  }
+
+  async deleteRule(organizationId: string, ruleId: string) {
+    return this.dbService.deleteAutoReplyRule(ruleId, organizationId);
+  }
+
+  async getSettings(organizationId: string) {
+    return toSettings((await this.dbService.getAutoReplySettings(organizationId)) || DEFAULT_SETTINGS);
+  }
+
+  async updateSettings(organizationId: string, input: AutoReplySettingsInput) {
+    const settings: AutoReplySettingsInput = {};
+    if (input.enabled !== undefined) settings.enabled = Boolean(input.enabled);
+    if (input.quietHoursStart !== undefined || input.quietHoursEnd !== undefined) {
+      const start = input.quietHoursStart || null;
+      const end = input.quietHoursEnd || null;
+      if (Boolean(start) !== Boolean(end)) throw new AutoReplyRuleError('quietHoursStart and quietHoursEnd must be set together');
+      for (const value of [start, end]) {
+        if (value && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(value)) throw new AutoReplyRuleError('Quiet hours must be HH:MM');
+      }
+      settings.quietHoursStart = start;
+      settings.quietHoursEnd = end;
+    }
+    if (input.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: input.timezone });
+      } catch {
+        throw new AutoReplyRuleError(`Unknown timezone: ${input.timezone}`);
+      }
+      settings.timezone = input.timezone;
+    }
+    if (input.maxRepliesPerConversation !== undefined) {
+      const max = Number(input.maxRepliesPerConversation);
+      if (!Number.isInteger(max) || max < 1) throw new AutoReplyRuleError('maxRepliesPerConversation must be a positive integer');
+      settings.maxRepliesPerConversation = max;
+    }
+    if (input.rateWindowMinutes !== undefined) {
+      const minutes = Number(input.rateWindowMinutes);
+      if (!Number.isInteger(minutes) || minutes < 1) throw new AutoReplyRuleError('rateWindowMinutes must be a positive integer');
+      settings.rateWindowMinutes = minutes;
+    }
+    return toSettings(await this.dbService.upsertAutoReplySettings(organizationId, settings));
+  }
+
+  async getLog(organizationId: string, options: { conversationId?: string; limit?: number }) {
+    const rows = await this.dbService.getAutoReplyLog(organizationId, options);
+    return rows.map(row => ({
+      id: row.id,
+      ruleId: row.rule_id,
+      ruleName: row.rule_name,
+      conversationId: row.conversation_id,
+      messageId: row.message_id,
+      replyMessageId: row.reply_message_id,
+      status: row.status,
+      reason: row.reason,
+      reply: row.reply_body,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Evaluate the organization's rules against a sample message without replying
+   */
+  async preview(organizationId: string, sample: { body: string; platform?: string; kind?: string; leadScore?: number; leadName?: string }) {
+    const rules = (await this.dbService.getAutoReplyRules(organizationId, true)).map(toRule);
+    const context: InboundContext = {
+      platform: (sample.platform || 'FACEBOOK').toUpperCase(),
+      kind: sample.kind || 'comment',
+      body: String(sample.body || ''),
+      sentimentScore: this.sentimentScore(String(sample.body || '')),
+      leadScore: Number(sample.leadScore) || 0,
+    };
+    const rule = findMatchingRule(rules, context);
+    return {
+      sentiment: classifySentiment(context.sentimentScore),
+      sentimentScore: context.sentimentScore,
+      rule: rule ? { id: rule.id, name: rule.name } : null,
+      reply: rule ? await this.render(rule, { name: sample.leadName }, { body: context.body }, context.platform) : null,
+    };
+  }
+
+  /**
+   * Run the rules for a newly stored inbound message. Never throws: auto-replies must not fail webhook processing.
+   */
+  async handleInbound(organizationId: string, inbound: {
+    conversationId: string;
+    messageId: string;
+    platform: string;
+    kind: string;
+    body: string;
+    authorName?: string;
+  }): Promise<AutoReplyOutcome | null> {
+    try {
+      const settings = (await this.dbService.getAutoReplySettings(organizationId)) || DEFAULT_SETTINGS;
+      if (!settings.enabled || !REPLYABLE_KINDS.includes(inbound.kind)) return null;
+
+      const rules = (await this.dbService.getAutoReplyRules(organizationId, true)).map(toRule);
+      if (rules.length === 0) return null;
+
+      const conversation = await this.dbService.getInboxConversation(inbound.conversationId, organizationId);
+      if (!conversation || conversation.status === 'spam') return null;
+
+      const rule = findMatchingRule(rules, {
+        platform: inbound.platform,
+        kind: inbound.kind,
+        body: inbound.body,
+        sentimentScore: this.sentimentScore(inbound.body),
+        leadScore: conversation.lead_score || 0,
+      });
+      if (!rule) return null;
+
+      const logId = await this.dbService.claimAutoReply({
+        organizationId,
+        ruleId: rule.id,
+        conversationId: inbound.conversationId,
+        messageId: inbound.messageId,
+      });
+      if (!logId) return null;
+
+      const outcome = await this.applyRule(organizationId, logId, rule, settings, conversation, inbound);
+      await this.dbService.completeAutoReply(logId, {
+        status: outcome.status,
+        reason: outcome.reason,
+        replyMessageId: outcome.replyMessageId,
+        replyBody: outcome.reply,
+      });
+      this.logger.log(`Auto-reply rule ${rule.id} on ${inbound.conversationId}: ${outcome.status}${outcome.reason ? ` (${outcome.reason})` : ''}`);
+      return { ruleId: rule.id, status: outcome.status, reason: outcome.reason, reply: outcome.reply };
+    } catch (error) {
+      this.logger.error(`Auto-reply failed for message ${inbound.messageId}: ${errorMessage(error)}`);
+      return null;
+    }
+  }
+
+  private async applyRule(
+    organizationId: string,
+    claimId: string,
+    rule: AutoReplyRule,
+    settings: AutoReplyLimits,
+    conversation: InboxConversationRow,
+    inbound: { conversationId: string; body: string; authorName?: string },
+  ): Promise<{ status: AutoReplyOutcome['status']; reason?: string; reply?: string; replyMessageId?: string | null }> {
+    if (isWithinQuietHours(new Date(), settings.quiet_hours_start, settings.quiet_hours_end, settings.timezone)) {
+      return { status: 'skipped', reason: 'quiet_hours' };
+    }
+    const recent = await this.dbService.countRecentAutoReplies(inbound.conversationId, settings.rate_window_minutes, claimId);
+    if (recent >= settings.max_replies_per_conversation) {
+      return { status: 'skipped', reason: 'rate_limited' };
+    }
+
+    const reply = await this.render(
+      rule,
+      { name: conversation.lead_name, email: conversation.lead_email, score: conversation.lead_score, status: conversation.lead_status },
+      { body: inbound.body, authorName: inbound.authorName },
+      conversation.platform,
+    );
+    if (!reply.trim()) {
+      return { status: 'skipped', reason: 'empty_reply' };
+    }
+
+    if (await this.isDryRun(organizationId)) {
+      return { status: 'dry_run', reply };
+    }
+
+    try {
+      const message = await this.inboxService.reply(organizationId, inbound.conversationId, reply, undefined, { autoReplyRuleId: rule.id });
+      return { status: 'sent', reply, replyMessageId: message?.id };
+    } catch (error) {
+      return { status: 'failed', reason: (error instanceof Error && error.message) || 'Reply failed', reply };
+    }
+  }
+
+  // Same precedence as publishing: per-org autopost settings override DRY_RUN, and disabled autopost only simulates
+  private async isDryRun(organizationId: string): Promise<boolean> {
+    let isDryRun = process.env.DRY_RUN === 'true';
+    try {
+      const settings = await this.dbService.getAutopostSettings(organizationId);
+      if (settings && typeof settings.dry_run === 'boolean') {
+        isDryRun = settings.dry_run;
+      }
+      if (settings && settings.autopost_enabled === false) {
+        isDryRun = true;
+      }
+    } catch {
+      // Without readable settings the DRY_RUN default applies
+    }
+    return isDryRun;
+  }
+
+  private render(rule: AutoReplyRule, lead: Record<string, unknown>, message: Record<string, unknown>, platform: string): Promise<string> {
+    const name = lead.name ? String(lead.name) : '';
+    return this.templateRenderService.renderWithPartials(rule.responseTemplate, {
+      lead: { ...lead, name, firstName: name.split(/\s+/)[0] || '' },
+      message,
+      platform: String(platform || '').toLowerCase(),
+    });
+  }
+
+  private sentimentScore(text: string): number {
+    return this.qualityService.computeSentimentScore(normalizeForSentiment(text));
+  }
+}
+
+function normalizeRuleInput(input: AutoReplyRuleInput): Partial<RuleFields> {
+  const rule: Partial<RuleFields> = {};
+  if (input.name !== undefined) {
+    if (!String(input.name).trim()) throw new AutoReplyRuleError('name cannot be empty');
+    rule.name = String(input.name).trim();
+  }
+  if (input.description !== undefined) rule.description = input.description;
+  if (input.platform !== undefined) {
+    const platform = input.platform && input.platform.toUpperCase() !== 'ALL' ? input.platform.toUpperCase() : null;
+    if (platform && !PLATFORMS.includes(platform)) throw new AutoReplyRuleError(`platform must be one of ${PLATFORMS.join(', ')} or ALL`);
+    rule.platform = platform;
+  }
+  if (input.kinds !== undefined) {
+    if (!Array.isArray(input.kinds) || input.kinds.length === 0 || input.kinds.some(k => !REPLYABLE_KINDS.includes(k))) {
+      throw new AutoReplyRuleError(`kinds must be a non-empty list of ${REPLYABLE_KINDS.join(', ')}`);
+    }
+    rule.kinds = Array.from(new Set(input.kinds));
+  }
+  if (input.conditions !== undefined) rule.conditions = validateConditions(input.conditions);
+  if (input.responseTemplate !== undefined) {
+    if (!String(input.responseTemplate).trim()) throw new AutoReplyRuleError('responseTemplate cannot be empty');
+    try {
+      compileTemplate(String(input.responseTemplate));
+    } catch (error) {
+      if (error instanceof TemplateError) throw new AutoReplyRuleError(`responseTemplate: ${error.message}`);
+      throw error;
+    }
+    rule.responseTemplate = String(input.responseTemplate);
+  }
+  if (input.priority !== undefined) {
+    if (!Number.isInteger(Number(input.priority))) throw new AutoReplyRuleError('priority must be an integer');
+    rule.priority = Number(input.priority);
+  }
+  if (input.isActive !== undefined) rule.isActive = Boolean(input.isActive);
+  return rule;
+}
+
+function toRule(row: AutoReplyRuleRow): AutoReplyRule & { description: string | null; createdAt: Date; updatedAt: Date } {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    platform: row.platform,
+    kinds: row.kinds || [],
+    conditions: row.conditions || {},
+    responseTemplate: row.response_template,
+    priority: row.priority,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSettings(row: AutoReplyLimits) {
+  return {
+    enabled: row.enabled,
+    // Postgres time columns come back as HH:MM:SS
+    quietHoursStart: row.quiet_hours_start ? row.quiet_hours_start.slice(0, 5) : null,
+    quietHoursEnd: row.quiet_hours_end ? row.quiet_hours_end.slice(0, 5) : null,
+    timezone: row.timezone,
+    maxRepliesPerConversation: row.max_replies_per_conversation,
+    rateWindowMinutes: row.rate_window_minutes,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
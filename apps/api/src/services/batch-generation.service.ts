@@ -4,80 +4,72 @@ import { ContentGenerationService } from './content-generation.service';
 import { QueueService } from '../queue.service';
 import { EnhancedErrorHandlingService } from './enhanced-error-handling.service';
 
+export type BatchBriefKind = 'BLOG' | 'NEWSLETTER' | 'SOCIAL';
+
+export interface BatchBrief {
+  id: string;
+  brief: string;
+  kind: BatchBriefKind;
+  angle?: string;
+  title?: string;
+  platform?: string;
+}
+
 export interface BatchGenerationRequest {
   organizationId: string;
   channel?: string;
-  briefs: Array<{
-    id: string;
-    brief: string;
-    kind: 'BLOG' | 'NEWSLETTER' | 'SOCIAL';
-    angle?: string;
-    title?: string;
-    platform?: string;
-  }>;
+  briefs: BatchBrief[];
   options?: {
+    // false runs the briefs one at a time
     parallel?: boolean;
+    // Running briefs for this batch; the organization-wide limit still applies
     maxConcurrency?: number;
     retryFailed?: boolean;
     notifyOnCompletion?: boolean;
   };
 }
 
-export interface BatchGenerationJob {
-  id: string;
-  organizationId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-  totalItems: number;
-  completedItems: number;
-  failedItems: number;
-  progress: number;
-  startedAt?: string;
-  completedAt?: string;
-  results: Array<{
-    briefId: string;
-    contentItemId?: string;
-    status: 'pending' | 'completed' | 'failed';
-    error?: string;
-    generatedAt?: string;
-  }>;
-  metadata: {
-    channel?: string;
-    options?: any;
-    createdBy?: string;
-  };
-}
+export type BatchGenerationStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type BatchGenerationItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface BatchGenerationProgress {
   jobId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status: BatchGenerationStatus;
   progress: number;
+  totalItems: number;
   completedItems: number;
   failedItems: number;
-  totalItems: number;
-  currentItem?: {
-    briefId: string;
-    brief: string;
-    kind: string;
-    status: string;
-  };
+  pendingItems: number;
+  cancelledItems: number;
+  // Briefs a worker is generating right now
+  runningItems: Array<{ briefId: string; kind: string; startedAt?: string }>;
   estimatedTimeRemaining?: number;
   startedAt?: string;
+  pausedAt?: string;
   completedAt?: string;
 }
 
+export interface BatchGenerationItemResult {
+  briefId: string;
+  status: BatchGenerationItemStatus;
+  // The DRAFT content item created for the brief
+  contentItemId?: string;
+  title?: string;
+  error?: string;
+  attempts: number;
+  generatedAt?: string;
+  durationMs?: number;
+  llm?: { provider?: string; model?: string };
+}
+
 export interface BatchGenerationResult {
   jobId: string;
+  status: BatchGenerationStatus;
   success: boolean;
   totalItems: number;
   completedItems: number;
   failedItems: number;
-  results: Array<{
-    briefId: string;
-    contentItemId?: string;
-    status: 'completed' | 'failed';
-    error?: string;
-    generatedContent?: any;
-  }>;
+  results: BatchGenerationItemResult[];
   summary: {
     successRate: number;
     averageGenerationTime: number;
@@ -85,415 +77,438 @@ export interface BatchGenerationResult {
   };
 }
 
+// What the worker should do with a child job
+export interface BatchItemOutcome {
+  status: 'completed' | 'failed' | 'skipped' | 'deferred';
+  reason?: string;
+  // For deferred: try the item again after this long
+  delayMs?: number;
+}
+
+export class BatchGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchGenerationError';
+  }
+}
+
+const BRIEF_KINDS: BatchBriefKind[] = ['BLOG', 'NEWSLETTER', 'SOCIAL'];
+const MAX_BRIEFS = 500;
+// A running item older than this belonged to a worker that died; it is claimable again
+const ITEM_STALE_MS = 15 * 60 * 1000;
+// Wait before trying an item again when its organization or batch is at its concurrency limit
+const LIMIT_RETRY_DELAY_MS = 15000;
+
+/**
+ * Batch generation driven by the batch-generation-jobs queue. Jobs and per-brief items live in Postgres, so
+ * progress, pause/resume, cancel and retry work from any API replica and survive restarts. The worker fans a
+ * batch out into one child job per brief; each child claims its item, generates a DRAFT content item and
+ * records the outcome. Claims enforce a per-organization limit of running briefs across all workers.
+ */
 @Injectable()
 export class BatchGenerationService {
   private readonly logger = new Logger(BatchGenerationService.name);
-  private readonly activeJobs: Map<string, BatchGenerationJob> = new Map();
+  private readonly organizationConcurrency: number;
 
   constructor(
     private readonly db: DbService,
     private readonly contentGeneration: ContentGenerationService,
     private readonly queueService: QueueService,
     private readonly errorHandling: EnhancedErrorHandlingService,
-  ) {}
+  ) {
+    this.organizationConcurrency = Math.max(1, parseInt(process.env.BATCH_GENERATION_ORG_CONCURRENCY || '3', 10) || 3);
+  }
 
-  async createBatchGenerationJob(request: BatchGenerationRequest): Promise<string> {
-    try {
-      const jobId = `batch_gen_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-      
-      const job: BatchGenerationJob = {
-        id: jobId,
-        organizationId: request.organizationId,
-        status: 'pending',
-        totalItems: request.briefs.length,
-        completedItems: 0,
-        failedItems: 0,
-        progress: 0,
-        results: request.briefs.map(brief => ({
-          briefId: brief.id,
-          status: 'pending'
-        })),
-        metadata: {
-          channel: request.channel,
-          options: request.options,
-          createdBy: 'system' // TODO: Get from auth context
-        }
-      };
-
-      this.activeJobs.set(jobId, job);
-      
-      // Store job in database
-      await this.db.createBatchGenerationJob(job);
-
-      // Queue the batch job for processing
-      await this.queueService.enqueueBatchGeneration({
-        jobId,
-        organizationId: request.organizationId,
-        briefs: request.briefs,
-        options: request.options || {}
-      });
+  /**
+   * Store the batch and queue it; throws BatchGenerationError for an invalid request
+   */
+  async createBatchGenerationJob(request: BatchGenerationRequest, createdBy = 'system'): Promise<string> {
+    const briefs = this.validateBriefs(request.briefs);
+    const jobId = `batch_gen_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+
+    await this.db.createBatchGenerationJob({
+      id: jobId,
+      organizationId: request.organizationId,
+      createdBy,
+      metadata: { channel: request.channel, options: request.options || {}, createdBy },
+      items: briefs.map(({ id, ...brief }) => ({
+        id: `batch_item_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+        briefId: id,
+        brief,
+      })),
+    });
+    await this.queueService.enqueueBatchGeneration({ jobId, organizationId: request.organizationId });
 
-      this.logger.log(`Created batch generation job: ${jobId}`, {
-        jobId,
-        totalItems: request.briefs.length,
-        organizationId: request.organizationId
-      });
+    this.logger.log(`Created batch generation job: ${jobId}`, {
+      jobId,
+      totalItems: briefs.length,
+      organizationId: request.organizationId
+    });
+    return jobId;
+  }
 
-      return jobId;
-    } catch (error) {
-      this.logger.error(`Failed to create batch generation job: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error(`Failed to create batch generation job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Worker: queue a child job for every pending brief. Safe to run again; queued items are not duplicated.
+   */
+  async startBatchGeneration(jobId: string): Promise<number> {
+    const job = await this.db.transitionBatchGenerationJob(jobId, ['pending', 'running'], 'running');
+    if (!job) {
+      // Paused or cancelled before it started; resume queues the briefs instead
+      return 0;
+    }
+    const pending = await this.db.getBatchGenerationItems(jobId, ['pending']);
+    await this.queueService.enqueueBatchGenerationItems(jobId, job.organization_id, pending.map(item => item.id));
+    if (pending.length === 0) {
+      await this.finishIfDone(jobId);
     }
+    this.logger.log(`Started batch generation job: ${jobId}`, { jobId, queuedItems: pending.length });
+    return pending.length;
   }
 
-  async processBatchGeneration(jobId: string): Promise<void> {
-    try {
-      const job = this.activeJobs.get(jobId);
-      if (!job) {
-        throw new Error(`Batch job ${jobId} not found`);
-      }
-
-      job.status = 'running';
-      job.startedAt = new Date().toISOString();
-      
-      this.logger.log(`Starting batch generation job: ${jobId}`, {
-        jobId,
-        totalItems: job.totalItems
-      });
-
-      const options = job.metadata.options || {};
-      const maxConcurrency = options.maxConcurrency || 3;
-      const parallel = options.parallel !== false;
-
-      if (parallel) {
-        await this.processBatchParallel(job, maxConcurrency);
-      } else {
-        await this.processBatchSequential(job);
-      }
+  /**
+   * Worker: generate one brief. Items of paused or cancelled batches are skipped (resume queues them again);
+   * items over the concurrency limits are deferred.
+   */
+  async processBatchItem(jobId: string, itemId: string): Promise<BatchItemOutcome> {
+    const job = await this.db.getBatchGenerationJob(jobId);
+    if (!job || job.status !== 'running') {
+      return { status: 'skipped', reason: job ? `batch is ${job.status}` : 'batch not found' };
+    }
 
-      job.status = job.failedItems === job.totalItems ? 'failed' : 'completed';
-      job.completedAt = new Date().toISOString();
-      job.progress = 100;
-
-      // Update job in database
-      await this.db.updateBatchGenerationJob(jobId, {
-        status: job.status,
-        completedItems: job.completedItems,
-        failedItems: job.failedItems,
-        progress: job.progress,
-        completedAt: job.completedAt,
-        results: job.results
-      });
+    const claim = await this.db.claimBatchGenerationItem(
+      itemId,
+      { organization: this.organizationConcurrency, job: this.jobConcurrency(job) },
+      ITEM_STALE_MS,
+    );
+    if (claim.outcome === 'closed') {
+      return { status: 'skipped', reason: claim.item ? `item is ${claim.item.status}` : 'item not found' };
+    }
+    if (claim.outcome !== 'claimed') {
+      // At a limit, or another worker holds the item; by the next try it will have finished or gone stale
+      return { status: 'deferred', reason: claim.outcome, delayMs: LIMIT_RETRY_DELAY_MS + Math.floor(Math.random() * 5000) };
+    }
 
-      this.logger.log(`Completed batch generation job: ${jobId}`, {
-        jobId,
-        status: job.status,
-        completedItems: job.completedItems,
-        failedItems: job.failedItems,
-        totalItems: job.totalItems
+    const item = claim.item;
+    const startedAt = Date.now();
+    let status: 'completed' | 'failed';
+    try {
+      const generated = await this.generateItem(job, item);
+      status = 'completed';
+      await this.db.finishBatchGenerationItem(itemId, {
+        status,
+        contentItemId: generated.contentItemId,
+        result: { ...generated.result, durationMs: Date.now() - startedAt },
       });
-
-      // Send notification if requested
-      if (options.notifyOnCompletion) {
-        await this.sendCompletionNotification(job);
-      }
-
     } catch (error) {
-      this.logger.error(`Batch generation job ${jobId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
-      const job = this.activeJobs.get(jobId);
-      if (job) {
-        job.status = 'failed';
-        job.completedAt = new Date().toISOString();
-        await this.db.updateBatchGenerationJob(jobId, {
-          status: 'failed',
-          completedAt: job.completedAt
-        });
-      }
-      
-      throw error;
+      status = 'failed';
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to process batch item ${item.brief_id}`, { jobId, briefId: item.brief_id, error: message });
+      await this.db.finishBatchGenerationItem(itemId, { status, error: message, result: { durationMs: Date.now() - startedAt } });
     }
+
+    await this.finishIfDone(jobId);
+    return { status };
   }
 
-  async getBatchGenerationProgress(jobId: string): Promise<BatchGenerationProgress> {
-    const job = this.activeJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Batch job ${jobId} not found`);
-    }
+  /**
+   * Worker: a child job that gave up after its last retry fails its item so the batch can still finish
+   */
+  async failBatchItem(jobId: string, itemId: string, error: string): Promise<void> {
+    await this.db.finishBatchGenerationItem(itemId, { status: 'failed', error });
+    await this.finishIfDone(jobId);
+  }
+
+  async getBatchGenerationProgress(organizationId: string, jobId: string): Promise<BatchGenerationProgress | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    const items = await this.db.getBatchGenerationItems(jobId);
+    const count = (status: BatchGenerationItemStatus) => items.filter(item => item.status === status).length;
 
-    const currentItem = job.results.find(r => r.status === 'pending');
-    
     return {
       jobId: job.id,
       status: job.status,
       progress: job.progress,
-      completedItems: job.completedItems,
-      failedItems: job.failedItems,
-      totalItems: job.totalItems,
-      currentItem: currentItem ? {
-        briefId: currentItem.briefId,
-        brief: '', // Would need to store this
-        kind: '', // Would need to store this
-        status: currentItem.status
-      } : undefined,
-      estimatedTimeRemaining: this.calculateEstimatedTimeRemaining(job),
-      startedAt: job.startedAt,
-      completedAt: job.completedAt
+      totalItems: job.total_items,
+      completedItems: count('completed'),
+      failedItems: count('failed'),
+      pendingItems: count('pending'),
+      cancelledItems: count('cancelled'),
+      runningItems: items
+        .filter(item => item.status === 'running')
+        .map(item => ({ briefId: item.brief_id, kind: item.brief?.kind, startedAt: this.iso(item.started_at) })),
+      estimatedTimeRemaining: this.calculateEstimatedTimeRemaining(items),
+      startedAt: this.iso(job.started_at),
+      pausedAt: this.iso(job.paused_at),
+      completedAt: this.iso(job.completed_at),
     };
   }
 
-  async getBatchGenerationResult(jobId: string): Promise<BatchGenerationResult> {
-    const job = this.activeJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Batch job ${jobId} not found`);
-    }
-
-    const successRate = job.totalItems > 0 ? (job.completedItems / job.totalItems) * 100 : 0;
-    const totalDuration = job.startedAt && job.completedAt 
-      ? new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime()
+  async getBatchGenerationResult(organizationId: string, jobId: string): Promise<BatchGenerationResult | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    const items = await this.db.getBatchGenerationItems(jobId);
+
+    const results: BatchGenerationItemResult[] = items.map(item => ({
+      briefId: item.brief_id,
+      status: item.status,
+      contentItemId: item.content_item_id || undefined,
+      title: item.result?.title,
+      error: item.error || undefined,
+      attempts: item.attempts,
+      generatedAt: item.status === 'completed' ? this.iso(item.completed_at) : undefined,
+      durationMs: item.result?.durationMs,
+      llm: item.result?.llm,
+    }));
+    const completed = results.filter(r => r.status === 'completed');
+    const failed = results.filter(r => r.status === 'failed');
+    const totalDuration = job.started_at && job.completed_at
+      ? new Date(job.completed_at).getTime() - new Date(job.started_at).getTime()
       : 0;
 
     return {
       jobId: job.id,
+      status: job.status,
       success: job.status === 'completed',
-      totalItems: job.totalItems,
-      completedItems: job.completedItems,
-      failedItems: job.failedItems,
-      results: job.results.map(r => ({
-        briefId: r.briefId,
-        contentItemId: r.contentItemId,
-        status: r.status as 'completed' | 'failed',
-        error: r.error,
-        generatedContent: r.status === 'completed' ? {} : undefined // Would need to store actual content
-      })),
+      totalItems: job.total_items,
+      completedItems: completed.length,
+      failedItems: failed.length,
+      results,
       summary: {
-        successRate: Math.round(successRate),
-        averageGenerationTime: job.completedItems > 0 ? totalDuration / job.completedItems : 0,
+        successRate: job.total_items > 0 ? Math.round((completed.length / job.total_items) * 100) : 0,
+        averageGenerationTime: completed.length > 0
+          ? Math.round(completed.reduce((sum, r) => sum + (r.durationMs || 0), 0) / completed.length)
+          : 0,
         totalDuration
       }
     };
   }
 
-  async cancelBatchGeneration(jobId: string): Promise<void> {
-    const job = this.activeJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Batch job ${jobId} not found`);
-    }
-
-    if (job.status === 'completed' || job.status === 'failed') {
-      throw new Error(`Cannot cancel completed job ${jobId}`);
+  /**
+   * Stop handing out briefs; those already generating finish. Null when the job does not exist.
+   */
+  async pauseBatchGeneration(organizationId: string, jobId: string): Promise<BatchGenerationProgress | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    if (!(await this.db.transitionBatchGenerationJob(jobId, ['pending', 'running'], 'paused'))) {
+      throw new BatchGenerationError(`Cannot pause a ${job.status} batch job`);
     }
-
-    job.status = 'cancelled';
-    job.completedAt = new Date().toISOString();
-
-    await this.db.updateBatchGenerationJob(jobId, {
-      status: 'cancelled',
-      completedAt: job.completedAt
-    });
-
-    this.logger.log(`Cancelled batch generation job: ${jobId}`);
+    const pending = await this.db.getBatchGenerationItems(jobId, ['pending']);
+    await this.queueService.removeBatchGenerationItems(pending.map(item => item.id));
+    this.logger.log(`Paused batch generation job: ${jobId}`);
+    return this.getBatchGenerationProgress(organizationId, jobId);
   }
 
-  async retryFailedItems(jobId: string): Promise<string> {
-    const job = this.activeJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Batch job ${jobId} not found`);
+  async resumeBatchGeneration(organizationId: string, jobId: string): Promise<BatchGenerationProgress | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    if (!(await this.db.transitionBatchGenerationJob(jobId, ['paused'], 'running'))) {
+      throw new BatchGenerationError(`Cannot resume a ${job.status} batch job`);
     }
+    await this.startBatchGeneration(jobId);
+    this.logger.log(`Resumed batch generation job: ${jobId}`);
+    return this.getBatchGenerationProgress(organizationId, jobId);
+  }
 
-    const failedItems = job.results.filter(r => r.status === 'failed');
-    if (failedItems.length === 0) {
-      throw new Error(`No failed items to retry in job ${jobId}`);
+  /**
+   * Cancel the briefs not started yet; content already generated is kept
+   */
+  async cancelBatchGeneration(organizationId: string, jobId: string): Promise<BatchGenerationProgress | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    if (!(await this.db.transitionBatchGenerationJob(jobId, ['pending', 'running', 'paused'], 'cancelled'))) {
+      throw new BatchGenerationError(`Cannot cancel a ${job.status} batch job`);
     }
-
-    // Create new batch job with only failed items
-    const retryRequest: BatchGenerationRequest = {
-      organizationId: job.organizationId,
-      channel: job.metadata.channel,
-      briefs: failedItems.map(item => ({
-        id: item.briefId,
-        brief: '', // Would need to store original brief
-        kind: 'BLOG' as const, // Would need to store original kind
-        angle: '',
-        title: ''
-      })),
-      options: {
-        ...job.metadata.options,
-        notifyOnCompletion: true
-      }
-    };
-
-    return await this.createBatchGenerationJob(retryRequest);
+    const cancelled = await this.db.resetBatchGenerationItems(jobId, 'pending', 'cancelled');
+    await this.queueService.removeBatchGenerationItems(cancelled.map(item => item.id));
+    await this.db.refreshBatchGenerationJob(jobId);
+    this.logger.log(`Cancelled batch generation job: ${jobId}`, { cancelledItems: cancelled.length });
+    return this.getBatchGenerationProgress(organizationId, jobId);
   }
 
-  private async processBatchParallel(job: BatchGenerationJob, maxConcurrency: number): Promise<void> {
-    const pendingItems = job.results.filter(r => r.status === 'pending');
-    const chunks = this.chunkArray(pendingItems, maxConcurrency);
-
-    for (const chunk of chunks) {
-      const promises = chunk.map(item => this.processBatchItem(job, item));
-      await Promise.allSettled(promises);
+  /**
+   * Run the failed briefs of a batch again from their stored briefs, within the same job. A paused batch
+   * picks them up on resume.
+   */
+  async retryFailedItems(organizationId: string, jobId: string): Promise<{ jobId: string; retriedItems: number } | null> {
+    const job = await this.db.getBatchGenerationJob(jobId, organizationId);
+    if (!job) return null;
+    if (job.status === 'cancelled') {
+      throw new BatchGenerationError('Cannot retry a cancelled batch job');
+    }
+    const failed = await this.db.getBatchGenerationItems(jobId, ['failed']);
+    if (failed.length === 0) {
+      throw new BatchGenerationError(`No failed items to retry in job ${jobId}`);
     }
-  }
 
-  private async processBatchSequential(job: BatchGenerationJob): Promise<void> {
-    const pendingItems = job.results.filter(r => r.status === 'pending');
-    
-    for (const item of pendingItems) {
-      await this.processBatchItem(job, item);
+    if (job.status === 'completed' || job.status === 'failed') {
+      await this.db.transitionBatchGenerationJob(jobId, ['completed', 'failed'], 'running');
     }
+    const retried = await this.db.resetBatchGenerationItems(jobId, 'failed', 'pending');
+    await this.db.refreshBatchGenerationJob(jobId);
+    if (job.status !== 'paused') {
+      await this.queueService.enqueueBatchGenerationItems(jobId, job.organization_id, retried.map(item => item.id));
+    }
+    this.logger.log(`Retrying ${retried.length} failed items of batch generation job: ${jobId}`);
+    return { jobId, retriedItems: retried.length };
   }
 
-  private async processBatchItem(job: BatchGenerationJob, item: any): Promise<void> {
-    try {
-      // This would need the original brief data
-      const briefData = await this.getBriefData(job.id, item.briefId);
-      
-      const context = this.errorHandling.createErrorContext(
-        'batch_content_generation',
-        job.metadata.createdBy,
-        job.organizationId,
-        { jobId: job.id, briefId: item.briefId }
-      );
-
-      const result = await this.errorHandling.executeWithRetry(
-        async () => {
-          return await this.contentGeneration.generatePost({
-            kind: briefData.kind,
-            brief: briefData.brief,
-            angle: briefData.angle,
-            organizationId: job.organizationId,
-            channel: job.metadata.channel || 'default',
-            platform: briefData.platform
-          });
-        },
-        'content_generation',
-        undefined,
-        context
-      );
-
-      if (result.success) {
-        // Create content item
-        const contentItemId = await this.db.createContentItem(
-          job.organizationId,
-          briefData.title || briefData.brief.substring(0, 100),
-          briefData.kind === 'SOCIAL' ? 'SOCIAL_POST' : briefData.kind,
-          'DRAFT',
-          [],
-          {
-            channel: job.metadata.channel,
-            brief: briefData.brief,
-            angle: briefData.angle,
-            generated: true,
-            batchJobId: job.id,
-            generationMetadata: {
-              sources: result.result?.sources,
-              factCheckResults: result.result?.factCheck
-            }
-          },
-          job.metadata.createdBy || 'system'
-        );
-
-        // Create version
-        const generatedContent = result.result?.draft?.answer || result.result?.draft?.data || '';
-        const versionId = await this.db.createContentVersion(
-          contentItemId,
-          generatedContent,
-          briefData.title || briefData.brief.substring(0, 100),
-          result.result?.outline?.answer || result.result?.outline?.data || '',
-          result.result?.citations || [],
-          {
-            citations: result.result?.citations || [],
-            factCheck: result.result?.factCheck,
-            sources: result.result?.sources,
-            batchJobId: job.id,
-            generationMetadata: {
-              promptTemplates: {
-                outline: result.result?.outline?.template || 'default',
-                draft: result.result?.draft?.template || 'default'
-              }
-            }
-          }
-        );
-
-        await this.db.setCurrentContentVersion(contentItemId, versionId);
-
-        item.status = 'completed';
-        item.contentItemId = contentItemId;
-        item.generatedAt = new Date().toISOString();
-        job.completedItems++;
-      } else {
-        item.status = 'failed';
-        item.error = result.error?.message || 'Unknown error';
-        job.failedItems++;
+  private validateBriefs(briefs: BatchBrief[] | undefined): BatchBrief[] {
+    if (!Array.isArray(briefs) || briefs.length === 0) {
+      throw new BatchGenerationError('briefs must be a non-empty list');
+    }
+    if (briefs.length > MAX_BRIEFS) {
+      throw new BatchGenerationError(`A batch can have at most ${MAX_BRIEFS} briefs`);
+    }
+    const ids = new Set<string>();
+    briefs.forEach((brief, index) => {
+      if (!brief || typeof brief.id !== 'string' || !brief.id.trim()) {
+        throw new BatchGenerationError(`briefs[${index}] needs an id`);
+      }
+      if (ids.has(brief.id)) {
+        throw new BatchGenerationError(`Duplicate brief id "${brief.id}"`);
+      }
+      ids.add(brief.id);
+      if (typeof brief.brief !== 'string' || !brief.brief.trim()) {
+        throw new BatchGenerationError(`Brief "${brief.id}" has no text`);
+      }
+      if (!BRIEF_KINDS.includes(brief.kind)) {
+        throw new BatchGenerationError(`Brief "${brief.id}" has kind "${brief.kind}"; expected one of ${BRIEF_KINDS.join(', ')}`);
       }
+    });
+    return briefs;
+  }
 
-      job.progress = Math.round(((job.completedItems + job.failedItems) / job.totalItems) * 100);
-      
-      this.logger.log(`Processed batch item ${item.briefId}`, {
-        jobId: job.id,
-        briefId: item.briefId,
-        status: item.status,
-        progress: job.progress
-      });
+  private jobConcurrency(job: any): number {
+    const options = job.metadata?.options || {};
+    if (options.parallel === false) return 1;
+    const max = Number(options.maxConcurrency);
+    return Number.isInteger(max) && max > 0 ? max : this.organizationConcurrency;
+  }
 
-    } catch (error) {
-      item.status = 'failed';
-      item.error = error instanceof Error ? error.message : 'Unknown error';
-      job.failedItems++;
-      job.progress = Math.round(((job.completedItems + job.failedItems) / job.totalItems) * 100);
-
-      this.logger.error(`Failed to process batch item ${item.briefId}`, {
-        jobId: job.id,
-        briefId: item.briefId,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+  private async generateItem(job: any, item: any): Promise<{ contentItemId: string; result: Record<string, any> }> {
+    const briefData = item.brief;
+    const channel = job.metadata?.channel;
+    const createdBy = job.created_by || job.metadata?.createdBy || 'system';
+    const title = briefData.title || briefData.brief.substring(0, 100);
+
+    const context = this.errorHandling.createErrorContext(
+      'batch_content_generation',
+      createdBy,
+      job.organization_id,
+      { jobId: job.id, briefId: item.brief_id }
+    );
+
+    const result = await this.errorHandling.executeWithRetry(
+      async () => {
+        return await this.contentGeneration.generatePost({
+          kind: briefData.kind,
+          brief: briefData.brief,
+          angle: briefData.angle,
+          organizationId: job.organization_id,
+          channel: channel || 'default',
+          platform: briefData.platform,
+          feature: 'batch_generation'
+        });
+      },
+      'content_generation',
+      undefined,
+      context
+    );
+    if (!result.success) {
+      throw result.error || new Error('Content generation failed');
     }
-  }
+    const generated = result.result!;
+
+    const contentItemId = await this.db.createContentItem(
+      job.organization_id,
+      title,
+      briefData.kind === 'SOCIAL' ? 'SOCIAL_POST' : briefData.kind,
+      'DRAFT',
+      [],
+      {
+        channel,
+        brief: briefData.brief,
+        angle: briefData.angle,
+        generated: true,
+        batchJobId: job.id,
+        batchBriefId: item.brief_id,
+        generationMetadata: {
+          sources: generated.sources,
+          factCheckResults: generated.factCheck
+        }
+      },
+      createdBy
+    );
+
+    const versionId = await this.db.createContentVersion(
+      contentItemId,
+      generated.draft.answer || '',
+      title,
+      generated.outline?.answer || '',
+      generated.citations || [],
+      {
+        citations: generated.citations || [],
+        factCheck: generated.factCheck,
+        sources: generated.sources,
+        batchJobId: job.id,
+        generationMetadata: {
+          llm: { provider: generated.draft.provider, model: generated.draft.model }
+        }
+      }
+    );
+    await this.db.setCurrentContentVersion(contentItemId, versionId);
 
-  private async getBriefData(jobId: string, briefId: string): Promise<any> {
-    // This would retrieve the original brief data from the database
-    // For now, return mock data
     return {
-      brief: `Generated brief for ${briefId}`,
-      kind: 'BLOG' as const,
-      angle: '',
-      title: '',
-      platform: undefined
+      contentItemId,
+      result: {
+        title,
+        llm: { provider: generated.draft.provider, model: generated.draft.model },
+        sources: (generated.sources || []).length,
+      },
     };
   }
 
-  private async sendCompletionNotification(job: BatchGenerationJob): Promise<void> {
-    try {
-      // This would integrate with the notification service
-      this.logger.log(`Sending completion notification for batch job ${job.id}`, {
-        jobId: job.id,
-        status: job.status,
-        completedItems: job.completedItems,
-        failedItems: job.failedItems
-      });
-    } catch (error) {
-      this.logger.error(`Failed to send completion notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
+  private async finishIfDone(jobId: string): Promise<void> {
+    const { job, finished } = await this.db.refreshBatchGenerationJob(jobId);
+    if (!job || !finished) return;
 
-  private calculateEstimatedTimeRemaining(job: BatchGenerationJob): number | undefined {
-    if (!job.startedAt || job.completedItems === 0) {
-      return undefined;
+    this.logger.log(`Completed batch generation job: ${jobId}`, {
+      jobId,
+      status: job.status,
+      completedItems: job.completed_items,
+      failedItems: job.failed_items,
+      totalItems: job.total_items
+    });
+    if (job.metadata?.options?.notifyOnCompletion) {
+      this.sendCompletionNotification(job);
     }
+  }
 
-    const elapsed = Date.now() - new Date(job.startedAt).getTime();
-    const averageTimePerItem = elapsed / job.completedItems;
-    const remainingItems = job.totalItems - job.completedItems - job.failedItems;
-    
-    return Math.round(averageTimePerItem * remainingItems);
+  private sendCompletionNotification(job: any): void {
+    // This would integrate with the notification service
+    this.logger.log(`Sending completion notification for batch job ${job.id}`, {
+      jobId: job.id,
+      status: job.status,
+      completedItems: job.completed_items,
+      failedItems: job.failed_items
+    });
   }
 
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
+  private calculateEstimatedTimeRemaining(items: any[]): number | undefined {
+    const durations = items
+      .filter(item => item.status === 'completed' || item.status === 'failed')
+      .map(item => Number(item.result?.durationMs))
+      .filter(duration => Number.isFinite(duration));
+    const remaining = items.filter(item => item.status === 'pending' || item.status === 'running').length;
+    if (durations.length === 0 || remaining === 0) {
+      return remaining === 0 ? 0 : undefined;
     }
-    return chunks;
+    const average = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+    // Briefs of one organization run at most organizationConcurrency at a time
+    return Math.round((average * remaining) / this.organizationConcurrency);
+  }
+
+  private iso(value: any): string | undefined {
+    return value ? new Date(value).toISOString() : undefined;
   }
 }
@@ -0,0 +1,381 @@
+import { Injectable } from '@nestjs/common';
+import { CadencePolicyRow, DbService } from '../db.service';
+import { isValidTimeZone, parseInTimeZone, wallClock, zonedToInstant } from './recurrence-rule';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEK_MS = 7 * DAY_MS;
+// Auto-shift gives up when no allowed slot exists this long after the requested time
+const MAX_SHIFT_DAYS = 30;
+const MAX_SHIFT_STEPS = 1000;
+const PLATFORMS = ['FACEBOOK', 'INSTAGRAM', 'LINKEDIN', 'YOUTUBE', 'GBP', 'WORDPRESS', 'MAIL'];
+
+export type CadenceRule = 'max_per_day' | 'max_per_week' | 'min_gap' | 'quiet_hours' | 'blackout';
+
+export interface QuietHours {
+  // Local HH:mm; a window whose end is not after its start runs past midnight
+  start: string;
+  end: string;
+  // Platforms the window applies to; all when empty
+  platforms?: string[];
+  // Weekdays (0 = Sunday) the window starts on; every day when empty
+  days?: number[];
+}
+
+export interface BlackoutWindow {
+  // Instants with Z or an offset, local date-times, or whole local dates (an end date includes that day)
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+export interface CadencePolicy {
+  id: string;
+  organizationId: string;
+  // Null for the organization-wide policy, whose limits count each platform separately
+  targetAccountId: string | null;
+  timezone: string;
+  maxPerDay: number | null;
+  maxPerWeek: number | null;
+  minGapMinutes: number | null;
+  quietHours: QuietHours[];
+  blackouts: BlackoutWindow[];
+  enabled: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CadencePolicyInput = Partial<Omit<CadencePolicy, 'id' | 'organizationId' | 'createdAt' | 'updatedAt'>>;
+
+export interface CadenceRequest {
+  platform: string;
+  scheduledAt: Date;
+  targetAccountId?: string | null;
+  // The schedule being moved, whose current time does not count against it
+  scheduleId?: string | null;
+}
+
+export interface CadenceViolation {
+  rule: CadenceRule;
+  policyId: string;
+  message: string;
+  // Earliest time this rule allows
+  allowedFrom: string;
+}
+
+export interface CadenceSlot {
+  platform: string;
+  targetAccountId: string | null;
+  requestedAt: string;
+  // The requested time, the next allowed slot when shifted, or null when the schedule is not allowed
+  scheduledAt: string | null;
+  shifted: boolean;
+  // Rules the requested time breaks
+  violations: CadenceViolation[];
+}
+
+export class CadencePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CadencePolicyError';
+  }
+}
+
+export class CadenceViolationError extends Error {
+  constructor(message: string, readonly slots: CadenceSlot[]) {
+    super(message);
+    this.name = 'CadenceViolationError';
+  }
+}
+
+interface Booking {
+  platform: string;
+  targetAccountId: string | null;
+  at: number;
+}
+
+// Local times are floating milliseconds, as returned by wallClock
+function dayStart(local: number): number {
+  return Math.floor(local / DAY_MS) * DAY_MS;
+}
+
+// Weeks start on Monday
+function weekStart(local: number): number {
+  const day = dayStart(local);
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(String(value || ''));
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return (Number(match[1]) * 60 + Number(match[2])) * MINUTE_MS;
+}
+
+function resolveBoundary(value: string, timezone: string, end: boolean): number | null {
+  const text = String(value || '').trim();
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const instant = Date.parse(text);
+    return isNaN(instant) ? null : instant;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const start = parseInTimeZone(text, timezone);
+    return start ? zonedToInstant(Date.parse(`${text}T00:00:00Z`) + (end ? DAY_MS : 0), timezone) : null;
+  }
+  const local = parseInTimeZone(text, timezone);
+  return local ? local.getTime() : null;
+}
+
+// End (floating) of the quiet window containing the local time, or null when it is outside every window
+function quietWindowEnd(local: number, quiet: QuietHours): number | null {
+  const start = parseTimeOfDay(quiet.start) as number;
+  const end = parseTimeOfDay(quiet.end) as number;
+  // A window running past midnight may have started the day before
+  for (const daysBack of [0, 1]) {
+    const day = dayStart(local) - daysBack * DAY_MS;
+    if (quiet.days?.length && !quiet.days.includes(new Date(day).getUTCDay())) continue;
+    const windowStart = day + start;
+    const windowEnd = day + end + (end <= start ? DAY_MS : 0);
+    if (local >= windowStart && local < windowEnd) return windowEnd;
+  }
+  return null;
+}
+
+function toCadencePolicy(row: CadencePolicyRow): CadencePolicy {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    targetAccountId: row.target_account_id || null,
+    timezone: row.timezone,
+    maxPerDay: row.max_per_day ?? null,
+    maxPerWeek: row.max_per_week ?? null,
+    minGapMinutes: row.min_gap_minutes ?? null,
+    quietHours: row.quiet_hours || [],
+    blackouts: row.blackouts || [],
+    enabled: row.enabled,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * The rules a schedule at `at` breaks. The organization-wide policy counts the request's platform across
+ * all accounts; an account policy counts that account's schedules.
+ */
+function cadenceViolations(policies: CadencePolicy[], request: CadenceRequest, at: number, bookings: Booking[]): CadenceViolation[] {
+  const violations: CadenceViolation[] = [];
+  const targetAccountId = request.targetAccountId || null;
+  for (const policy of policies) {
+    if (!policy.enabled || (policy.targetAccountId && policy.targetAccountId !== targetAccountId)) continue;
+    const scope = policy.targetAccountId ? `account ${policy.targetAccountId}` : request.platform;
+    const scoped = bookings.filter(b => (policy.targetAccountId ? b.targetAccountId === policy.targetAccountId : b.platform === request.platform));
+    const timezone = policy.timezone;
+    const local = wallClock(at, timezone);
+    const violation = (rule: CadenceRule, message: string, allowedFrom: number) =>
+      violations.push({ rule, policyId: policy.id, message, allowedFrom: new Date(allowedFrom).toISOString() });
+
+    for (const blackout of policy.blackouts) {
+      const start = resolveBoundary(blackout.start, timezone, false) as number;
+      const end = resolveBoundary(blackout.end, timezone, true) as number;
+      if (at >= start && at < end) {
+        violation('blackout', `Blackout${blackout.reason ? ` (${blackout.reason})` : ''} until ${new Date(end).toISOString()}`, end);
+      }
+    }
+    for (const quiet of policy.quietHours) {
+      if (quiet.platforms?.length && !quiet.platforms.includes(request.platform)) continue;
+      const end = quietWindowEnd(local, quiet);
+      if (end !== null) {
+        violation('quiet_hours', `Quiet hours ${quiet.start}-${quiet.end} (${timezone}) for ${request.platform}`, zonedToInstant(end, timezone));
+      }
+    }
+    if (policy.minGapMinutes) {
+      const gap = policy.minGapMinutes * MINUTE_MS;
+      const near = scoped.filter(b => Math.abs(b.at - at) < gap);
+      if (near.length > 0) {
+        violation('min_gap', `${scope} posts must be at least ${policy.minGapMinutes} minutes apart`, Math.max(...near.map(b => b.at)) + gap);
+      }
+    }
+    if (policy.maxPerDay) {
+      const day = dayStart(local);
+      const count = scoped.filter(b => dayStart(wallClock(b.at, timezone)) === day).length;
+      if (count >= policy.maxPerDay) {
+        const date = new Date(day).toISOString().slice(0, 10);
+        violation('max_per_day', `${scope} already has ${count} posts on ${date}; the limit is ${policy.maxPerDay} per day`, zonedToInstant(day + DAY_MS, timezone));
+      }
+    }
+    if (policy.maxPerWeek) {
+      const week = weekStart(local);
+      const count = scoped.filter(b => weekStart(wallClock(b.at, timezone)) === week).length;
+      if (count >= policy.maxPerWeek) {
+        const date = new Date(week).toISOString().slice(0, 10);
+        violation('max_per_week', `${scope} already has ${count} posts in the week of ${date}; the limit is ${policy.maxPerWeek} per week`, zonedToInstant(week + WEEK_MS, timezone));
+      }
+    }
+  }
+  return violations;
+}
+
+@Injectable()
+export class CadencePolicyService {
+  constructor(private readonly db: DbService) {}
+
+  async listPolicies(organizationId: string): Promise<CadencePolicy[]> {
+    return (await this.db.listCadencePolicies(organizationId)).map(toCadencePolicy);
+  }
+
+  // Saving replaces the whole policy of its scope (the organization, or one target account)
+  async savePolicy(organizationId: string, input: CadencePolicyInput): Promise<CadencePolicy> {
+    const timezone = input.timezone || 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      throw new CadencePolicyError(`Unknown timezone "${timezone}"`);
+    }
+    const limit = (name: string, value: number | null | undefined) => {
+      if (value === undefined || value === null) return null;
+      if (!Number.isInteger(value) || value < 1) throw new CadencePolicyError(`${name} must be a positive whole number`);
+      return value;
+    };
+    const quietHours = (input.quietHours || []).map(quiet => {
+      if (parseTimeOfDay(quiet?.start) === null || parseTimeOfDay(quiet?.end) === null) {
+        throw new CadencePolicyError('Quiet hours need start and end as HH:mm');
+      }
+      const platforms = (quiet.platforms || []).map(p => String(p).toUpperCase());
+      const unknown = platforms.filter(p => !PLATFORMS.includes(p));
+      if (unknown.length > 0) throw new CadencePolicyError(`Unknown platform ${unknown.join(', ')}`);
+      if ((quiet.days || []).some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new CadencePolicyError('Quiet hour days are weekdays from 0 (Sunday) to 6 (Saturday)');
+      }
+      return { start: quiet.start, end: quiet.end, ...(platforms.length ? { platforms } : {}), ...(quiet.days?.length ? { days: quiet.days } : {}) };
+    });
+    const blackouts = (input.blackouts || []).map(blackout => {
+      const start = resolveBoundary(blackout?.start, timezone, false);
+      const end = resolveBoundary(blackout?.end, timezone, true);
+      if (start === null || end === null) {
+        throw new CadencePolicyError('Blackouts need start and end as dates, local date-times or ISO instants');
+      }
+      if (end <= start) throw new CadencePolicyError('A blackout must end after it starts');
+      return { start: blackout.start, end: blackout.end, ...(blackout.reason ? { reason: String(blackout.reason) } : {}) };
+    });
+
+    const targetAccountId = input.targetAccountId || null;
+    if (targetAccountId && !(await this.db.getTargetAccount(targetAccountId, organizationId))) {
+      throw new CadencePolicyError(`Target account not found: ${targetAccountId}`);
+    }
+    const row = await this.db.upsertCadencePolicy({
+      organizationId,
+      targetAccountId,
+      timezone,
+      maxPerDay: limit('maxPerDay', input.maxPerDay),
+      maxPerWeek: limit('maxPerWeek', input.maxPerWeek),
+      minGapMinutes: limit('minGapMinutes', input.minGapMinutes),
+      quietHours,
+      blackouts,
+      enabled: input.enabled !== false,
+    });
+    return toCadencePolicy(row);
+  }
+
+  async deletePolicy(organizationId: string, policyId: string): Promise<boolean> {
+    return this.db.deleteCadencePolicy(policyId, organizationId);
+  }
+
+  /**
+   * Check requested schedules against the organization's policies. Requests are placed in order and count
+   * against each other, so a batch cannot exceed a limit that each of its schedules alone would respect.
+   * With autoShift a schedule that breaks a rule moves to the next allowed time.
+   */
+  async planSlots(organizationId: string, requests: CadenceRequest[], autoShift: boolean): Promise<CadenceSlot[]> {
+    const unchanged = (request: CadenceRequest): CadenceSlot => ({
+      platform: request.platform,
+      targetAccountId: request.targetAccountId || null,
+      requestedAt: request.scheduledAt.toISOString(),
+      scheduledAt: request.scheduledAt.toISOString(),
+      shifted: false,
+      violations: [],
+    });
+    const policies = (await this.db.listCadencePolicies(organizationId, true)).map(toCadencePolicy);
+    if (policies.length === 0 || requests.length === 0) return requests.map(unchanged);
+
+    // Enough history and future to count every day, week and gap a shifted slot can land in
+    const times = requests.map(r => r.scheduledAt.getTime());
+    const margin = Math.max(WEEK_MS, ...policies.map(p => (p.minGapMinutes || 0) * MINUTE_MS)) + DAY_MS;
+    const existing = await this.db.getCadenceSchedules(
+      organizationId,
+      [...new Set(requests.map(r => r.platform))],
+      new Date(Math.min(...times) - margin),
+      new Date(Math.max(...times) + MAX_SHIFT_DAYS * DAY_MS + margin),
+    );
+    const moving = new Set(requests.map(r => r.scheduleId).filter(Boolean));
+    const bookings: Booking[] = existing.filter(row => !moving.has(row.id)).map(row => ({
+      platform: row.platform,
+      targetAccountId: row.target_account_id || null,
+      at: row.scheduled_at.getTime(),
+    }));
+
+    return requests.map(request => {
+      const requestedAt = request.scheduledAt.getTime();
+      const violations = cadenceViolations(policies, request, requestedAt, bookings);
+      let at: number | null = requestedAt;
+      if (violations.length > 0) {
+        at = autoShift ? this.nextAllowed(policies, request, violations, bookings) : null;
+      }
+      if (at !== null) bookings.push({ platform: request.platform, targetAccountId: request.targetAccountId || null, at });
+      return {
+        ...unchanged(request),
+        scheduledAt: at === null ? null : new Date(at).toISOString(),
+        shifted: at !== null && at !== requestedAt,
+        violations,
+      };
+    });
+  }
+
+  // planSlots, failing when any schedule has no allowed time
+  async enforce(organizationId: string, requests: CadenceRequest[], autoShift: boolean): Promise<CadenceSlot[]> {
+    const slots = await this.planSlots(organizationId, requests, autoShift);
+    const blocked = slots.filter(slot => slot.scheduledAt === null);
+    if (blocked.length > 0) {
+      const message = autoShift
+        ? `No time within ${MAX_SHIFT_DAYS} days fits the posting cadence for ${blocked[0].platform} at ${blocked[0].requestedAt}`
+        : `${blocked[0].platform} at ${blocked[0].requestedAt} breaks the posting cadence: ${blocked[0].violations.map(v => v.message).join('; ')}`;
+      throw new CadenceViolationError(message, slots);
+    }
+    return slots;
+  }
+
+  /**
+   * planSlots and create the schedules it allows under the organization's cadence lock. `create` receives every
+   * slot, including blocked ones, for callers that leave those out rather than fail.
+   */
+  async planAndCreate<T>(
+    organizationId: string,
+    requests: CadenceRequest[],
+    autoShift: boolean,
+    create: (slots: CadenceSlot[]) => Promise<T>,
+  ): Promise<T> {
+    return this.db.withCadenceLock(organizationId, async () => create(await this.planSlots(organizationId, requests, autoShift)));
+  }
+
+  /**
+   * Enforce the cadence and create the schedules it allows under the organization's cadence lock, so concurrent
+   * requests cannot both take the last free slot. `create` receives the allowed slots in request order.
+   */
+  async enforceAndCreate<T>(
+    organizationId: string,
+    requests: CadenceRequest[],
+    autoShift: boolean,
+    create: (slots: CadenceSlot[]) => Promise<T>,
+  ): Promise<T> {
+    return this.db.withCadenceLock(organizationId, async () => create(await this.enforce(organizationId, requests, autoShift)));
+  }
+
+  // Each step jumps to the latest time a broken rule allows, so the search only moves forward
+  private nextAllowed(policies: CadencePolicy[], request: CadenceRequest, violations: CadenceViolation[], bookings: Booking[]): number | null {
+    const limit = request.scheduledAt.getTime() + MAX_SHIFT_DAYS * DAY_MS;
+    let current = violations;
+    for (let step = 0; step < MAX_SHIFT_STEPS; step++) {
+      const at = Math.max(...current.map(v => Date.parse(v.allowedFrom)));
+      if (at > limit) return null;
+      current = cadenceViolations(policies, request, at, bookings);
+      if (current.length === 0) return at;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { CLOSED_CIRCUIT, CircuitBreakerState } from './circuit-breaker';
+
+export interface CircuitBreakerChange<T> {
+  // New state to store, or null to leave it as is
+  next: CircuitBreakerState | null;
+  result: T;
+}
+
+const RETRY_WINDOW_MS = 60000;
+
+/**
+ * Where EnhancedErrorHandlingService keeps breaker state and retry budgets. Transitions are computed in
+ * circuit-breaker.ts and written with update(), which applies them atomically against concurrent writers.
+ */
+export abstract class CircuitBreakerStore {
+  // `change` may run more than once when another process changes the breaker in between
+  abstract update<T>(name: string, change: (current: CircuitBreakerState) => CircuitBreakerChange<T>): Promise<T>;
+  abstract get(name: string): Promise<CircuitBreakerState>;
+  abstract list(): Promise<Record<string, CircuitBreakerState>>;
+  // False when there is no such breaker
+  abstract reset(name: string): Promise<boolean>;
+  // Counts a retry against the provider's budget for the current minute; false once `limit` is spent
+  abstract takeRetry(provider: string, limit: number): Promise<boolean>;
+  abstract retriesUsed(provider: string): Promise<number>;
+}
+
+/**
+ * Process-local store, used when no shared store is configured (scripts, tests) and while Redis is unreachable
+ */
+export class InMemoryCircuitBreakerStore extends CircuitBreakerStore {
+  private readonly breakers = new Map<string, CircuitBreakerState>();
+  private readonly retries = new Map<string, { window: number; count: number }>();
+
+  update<T>(name: string, change: (current: CircuitBreakerState) => CircuitBreakerChange<T>): Promise<T> {
+    const { next, result } = change(this.breakers.get(name) || { ...CLOSED_CIRCUIT });
+    if (next) this.breakers.set(name, next);
+    return Promise.resolve(result);
+  }
+
+  get(name: string): Promise<CircuitBreakerState> {
+    return Promise.resolve(this.breakers.get(name) || { ...CLOSED_CIRCUIT });
+  }
+
+  list(): Promise<Record<string, CircuitBreakerState>> {
+    return Promise.resolve(Object.fromEntries(this.breakers.entries()));
+  }
+
+  reset(name: string): Promise<boolean> {
+    if (!this.breakers.has(name)) return Promise.resolve(false);
+    this.breakers.set(name, { ...CLOSED_CIRCUIT });
+    return Promise.resolve(true);
+  }
+
+  takeRetry(provider: string, limit: number): Promise<boolean> {
+    const window = Math.floor(Date.now() / RETRY_WINDOW_MS);
+    const used = this.retries.get(provider);
+    const count = used && used.window === window ? used.count + 1 : 1;
+    this.retries.set(provider, { window, count });
+    return Promise.resolve(count <= limit);
+  }
+
+  retriesUsed(provider: string): Promise<number> {
+    const used = this.retries.get(provider);
+    return Promise.resolve(used && used.window === Math.floor(Date.now() / RETRY_WINDOW_MS) ? used.count : 0);
+  }
+}
+
+const KEY_PREFIX = 'circuit_breaker:';
+const NAMES_KEY = 'circuit_breakers';
+// Replace the breaker only if nobody changed it since it was read
+const COMPARE_AND_SET = `
+local current = redis.call('GET', KEYS[1]) or ''
+if current ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SADD', KEYS[2], ARGV[3])
+return 1
+`;
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Breakers and retry budgets shared by every API replica and worker. Breaker bookkeeping must never fail the
+ * call it guards: while Redis is unreachable the process falls back to its own in-memory state.
+ */
+@Injectable()
+export class RedisCircuitBreakerStore extends CircuitBreakerStore implements OnModuleDestroy {
+  private readonly logger = new Logger(RedisCircuitBreakerStore.name);
+  private readonly redis: Redis;
+  private readonly fallback = new InMemoryCircuitBreakerStore();
+
+  constructor() {
+    super();
+    // Fail fast rather than queue: callers are waiting on an outbound request
+    this.redis = new Redis(process.env.REDIS_URL || 'redis://redis:6379', { maxRetriesPerRequest: 1, commandTimeout: 1000 });
+  }
+
+  async update<T>(name: string, change: (current: CircuitBreakerState) => CircuitBreakerChange<T>): Promise<T> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const raw = await this.redis.get(KEY_PREFIX + name);
+        const { next, result } = change(raw ? JSON.parse(raw) as CircuitBreakerState : { ...CLOSED_CIRCUIT });
+        if (!next) return result;
+        const written = await this.redis.eval(COMPARE_AND_SET, 2, KEY_PREFIX + name, NAMES_KEY, raw || '', JSON.stringify(next), name);
+        // Under heavy contention the last computed result stands even though it was not stored
+        if (written === 1 || attempt === MAX_UPDATE_ATTEMPTS) return result;
+      }
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.update(name, change);
+    }
+  }
+
+  async get(name: string): Promise<CircuitBreakerState> {
+    try {
+      const raw = await this.redis.get(KEY_PREFIX + name);
+      return raw ? JSON.parse(raw) as CircuitBreakerState : { ...CLOSED_CIRCUIT };
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.get(name);
+    }
+  }
+
+  async list(): Promise<Record<string, CircuitBreakerState>> {
+    try {
+      const names = (await this.redis.smembers(NAMES_KEY)).sort();
+      if (names.length === 0) return {};
+      const values = await this.redis.mget(...names.map(name => KEY_PREFIX + name));
+      return Object.fromEntries(names.map((name, i) => [name, values[i] ? JSON.parse(values[i]) : { ...CLOSED_CIRCUIT }]));
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.list();
+    }
+  }
+
+  async reset(name: string): Promise<boolean> {
+    try {
+      if (!(await this.redis.sismember(NAMES_KEY, name))) return false;
+      await this.redis.set(KEY_PREFIX + name, JSON.stringify(CLOSED_CIRCUIT));
+      return true;
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.reset(name);
+    }
+  }
+
+  async takeRetry(provider: string, limit: number): Promise<boolean> {
+    const key = `retry_budget:${provider}:${Math.floor(Date.now() / RETRY_WINDOW_MS)}`;
+    try {
+      const results = await this.redis.multi().incr(key).pexpire(key, RETRY_WINDOW_MS * 2).exec();
+      const count = Number(results?.[0]?.[1] ?? 0);
+      return count <= limit;
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.takeRetry(provider, limit);
+    }
+  }
+
+  async retriesUsed(provider: string): Promise<number> {
+    try {
+      return Number((await this.redis.get(`retry_budget:${provider}:${Math.floor(Date.now() / RETRY_WINDOW_MS)}`)) || 0);
+    } catch (error) {
+      this.warn(error);
+      return this.fallback.retriesUsed(provider);
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+
+  private warn(error: unknown) {
+    this.logger.warn(`Circuit breaker store unavailable, using process-local state: ${(error as Error).message}`);
+  }
+}
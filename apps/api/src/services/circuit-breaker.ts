@@ -0,0 +1,151 @@
+export interface CircuitBreakerConfig {
+  // Failures within monitoringPeriod that open the breaker
+  failureThreshold: number;
+  // How long an open breaker rejects calls before letting one probe through
+  recoveryTimeout: number;
+  monitoringPeriod: number;
+  // A half-open probe that has not reported back by then (e.g. its process died) is replaced by a new one
+  probeTimeout: number;
+}
+
+export interface CircuitBreakerState {
+  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  failureCount: number;
+  lastFailureTime?: string;
+  nextAttemptTime?: string;
+  // Failure times (epoch ms) still inside the monitoring period
+  failures?: number[];
+  // Set while a half-open probe is in flight
+  probeStartedAt?: string;
+}
+
+export interface CircuitAdmission {
+  allowed: boolean;
+  // This call is the half-open probe; its outcome closes or re-opens the breaker
+  probe: boolean;
+  state: CircuitBreakerState;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  recoveryTimeout: 60000, // 1 minute
+  monitoringPeriod: 300000, // 5 minutes
+  probeTimeout: 30000,
+};
+
+export const CLOSED_CIRCUIT: CircuitBreakerState = { state: 'CLOSED', failureCount: 0 };
+
+// Providers whose retries draw from a budget, reported even before RETRY_BUDGETS names them
+export const RETRY_BUDGET_PROVIDERS = ['meta', 'linkedin', 'perplexity'];
+
+/**
+ * The call is rejected because its circuit breaker is open (or another process is probing it)
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly nextAttemptTime?: string,
+  ) {
+    super(`Circuit breaker is OPEN for ${circuit}. Next attempt allowed at ${nextAttemptTime || 'after the current probe'}`);
+    this.name = 'CircuitOpenError';
+  }
+
+  // Seconds until a call may be tried again, for job backoff
+  get retryAfterSeconds(): number {
+    const wait = this.nextAttemptTime ? new Date(this.nextAttemptTime).getTime() - Date.now() : 0;
+    return Math.max(1, Math.ceil(wait / 1000));
+  }
+}
+
+/**
+ * Decide whether a call may go through. An open breaker whose recovery timeout has passed turns half-open and
+ * admits exactly one probe; everyone else keeps being rejected until the probe reports back.
+ * `next` is null when the stored state does not change.
+ */
+export function admitCall(
+  current: CircuitBreakerState,
+  config: CircuitBreakerConfig,
+  now: number,
+): { admission: CircuitAdmission; next: CircuitBreakerState | null } {
+  if (current.state === 'CLOSED') {
+    return { admission: { allowed: true, probe: false, state: current }, next: null };
+  }
+
+  if (current.state === 'OPEN' && now < new Date(current.nextAttemptTime || 0).getTime()) {
+    return { admission: { allowed: false, probe: false, state: current }, next: null };
+  }
+  if (current.state === 'HALF_OPEN' && current.probeStartedAt && now - new Date(current.probeStartedAt).getTime() < config.probeTimeout) {
+    return { admission: { allowed: false, probe: false, state: current }, next: null };
+  }
+
+  const next: CircuitBreakerState = { ...current, state: 'HALF_OPEN', probeStartedAt: new Date(now).toISOString() };
+  return { admission: { allowed: true, probe: true, state: next }, next };
+}
+
+/**
+ * A successful probe closes the breaker; successes while closed leave the failure window to age out
+ */
+export function recordCallSuccess(probe: boolean): CircuitBreakerState | null {
+  if (!probe) return null;
+  return { ...CLOSED_CIRCUIT };
+}
+
+/**
+ * A failed probe re-opens the breaker at once; otherwise it opens when the failures inside the monitoring
+ * period reach the threshold
+ */
+export function recordCallFailure(
+  current: CircuitBreakerState,
+  config: CircuitBreakerConfig,
+  now: number,
+  probe: boolean,
+): CircuitBreakerState {
+  const failures = [...(current.failures || []).filter(at => now - at < config.monitoringPeriod), now].slice(-config.failureThreshold);
+  const lastFailureTime = new Date(now).toISOString();
+  const open = (): CircuitBreakerState => ({
+    state: 'OPEN',
+    failureCount: failures.length,
+    failures,
+    lastFailureTime,
+    nextAttemptTime: new Date(now + config.recoveryTimeout).toISOString(),
+  });
+
+  if (probe) return open();
+  if (current.state !== 'CLOSED') {
+    // A call admitted before the breaker opened, finishing late; it does not extend the open period
+    return { ...current, failureCount: failures.length, failures, lastFailureTime };
+  }
+  if (failures.length >= config.failureThreshold) return open();
+  return { ...current, failureCount: failures.length, failures, lastFailureTime };
+}
+
+/**
+ * Retries each provider may make per minute across all processes, from RETRY_BUDGETS
+ * (e.g. {"default": 60, "perplexity": 30, "meta": 20}); providers without an entry get the default
+ */
+export function parseRetryBudgets(spec: string | undefined): Record<string, number> {
+  const budgets: Record<string, number> = { default: 60 };
+  if (!spec || !spec.trim()) return budgets;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(spec);
+  } catch {
+    throw new Error('RETRY_BUDGETS must be a JSON object of provider to retries per minute');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('RETRY_BUDGETS must be a JSON object of provider to retries per minute');
+  }
+  for (const [provider, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`RETRY_BUDGETS.${provider} must be a non-negative integer`);
+    }
+    budgets[provider] = value;
+  }
+  return budgets;
+}
+
+// Numeric breaker state for the Prometheus gauge
+export function circuitStateValue(state: CircuitBreakerState['state']): number {
+  return state === 'OPEN' ? 2 : state === 'HALF_OPEN' ? 1 : 0;
+}
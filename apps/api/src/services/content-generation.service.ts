@@ -1,5 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PerplexityService } from './perplexity.service';
+import { LlmAnswer, LlmCallContext, LlmService } from './llm.service';
+import { LlmFeature } from './llm-routing';
 import { DbService } from '../db.service';
 import { TemplateRenderService } from './template-render.service';
 import { BrandRuleEnforcementService } from './brand-rule-enforcement.service';
@@ -13,6 +15,19 @@ interface GenerateInput {
   organizationId: string;
   channel?: string; // template channel, e.g., 'default'
   platform?: string; // for social content: 'FACEBOOK', 'INSTAGRAM', 'LINKEDIN', etc.
+  feature?: LlmFeature; // usage accounting, defaults to 'content_generation'
+  pipelineId?: string; // chosen by the caller to follow progress over SSE; generated when omitted
+}
+
+export interface GeneratedPost {
+  outline: LlmAnswer | null;
+  // Social drafts carry the platform-optimized text plus its details
+  draft: LlmAnswer & { platform?: string; characterCount?: number; hashtags?: string[] };
+  citations: string[];
+  factCheck: any;
+  sources: string[];
+  brandValidation: any;
+  socialMetadata?: any;
 }
 
 @Injectable()
@@ -21,6 +36,7 @@ export class ContentGenerationService {
 
   constructor(
     private readonly perplexity: PerplexityService,
+    private readonly llm: LlmService,
     private readonly db: DbService,
     private readonly renderer: TemplateRenderService,
     private readonly brandEnforcement: BrandRuleEnforcementService,
@@ -28,141 +44,121 @@ export class ContentGenerationService {
     private readonly pipelineMonitoring: PipelineMonitoringService,
   ) {}
 
-  async generatePost(input: GenerateInput) {
-    const pipelineId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+  async generatePost(input: GenerateInput): Promise<GeneratedPost> {
+    const pipelineId = input.pipelineId || `gen_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
     const context = this.errorHandling.createErrorContext(
       'content_generation',
       undefined,
       input.organizationId,
-      { kind: input.kind, channel: input.channel }
+      { kind: input.kind, channel: input.channel, pipelineId }
     );
 
-    try {
-      // Start pipeline monitoring
-      await this.pipelineMonitoring.startPipeline(pipelineId, {
-        stages: [
+    // Social posts have no outline or fact-check pass
+    const stages = input.kind === 'SOCIAL'
+      ? [
+          { id: 'search', name: 'Source Search', timeout: 30000, retryable: true },
+          { id: 'draft', name: 'Social Post Drafting', timeout: 120000, retryable: true },
+          { id: 'brand', name: 'Brand Validation', timeout: 15000, retryable: false }
+        ]
+      : [
           { id: 'search', name: 'Source Search', timeout: 30000, retryable: true },
           { id: 'outline', name: 'Outline Generation', timeout: 60000, retryable: true },
           { id: 'draft', name: 'Content Drafting', timeout: 120000, retryable: true },
           { id: 'factcheck', name: 'Fact Checking', timeout: 30000, retryable: true },
           { id: 'brand', name: 'Brand Validation', timeout: 15000, retryable: false }
-        ],
-        options: {
-          timeout: 300000, // 5 minutes total
-          retryPolicy: { maxRetries: 3, backoffMultiplier: 2 }
-        }
-      }, { input });
-
-      const channel = input.channel || 'default';
-      
-      // Handle social content generation differently
-      if (input.kind === 'SOCIAL') {
-        return await this.generateSocialPostWithMonitoring(input, pipelineId, context);
+        ];
+
+    // Start pipeline monitoring
+    await this.pipelineMonitoring.startPipeline(pipelineId, input.organizationId, {
+      stages,
+      options: {
+        timeout: 300000, // 5 minutes total
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 2 }
       }
+    }, { input });
 
-      // Original blog/newsletter generation logic
-      return await this.generateLongFormContentWithMonitoring(input, pipelineId, context);
-    } catch (error) {
-      await this.pipelineMonitoring.updatePipelineStatus(pipelineId, 'failed', error instanceof Error ? error.message : 'Unknown error');
-      throw error;
-    }
-  }
-
-  private async generateLongFormContentWithMonitoring(input: GenerateInput, pipelineId: string, context: any) {
     try {
-      await this.pipelineMonitoring.startStage(pipelineId, 'search');
-      
       const result = await this.errorHandling.executeWithRetry(
-        () => this.generateLongFormContent(input),
-        'long_form_content_generation',
+        () => input.kind === 'SOCIAL' ? this.generateSocialPost(input, pipelineId) : this.generateLongFormContent(input, pipelineId),
+        input.kind === 'SOCIAL' ? 'social_content_generation' : 'long_form_content_generation',
         undefined,
         context
       );
-
-      if (result.success) {
-        await this.pipelineMonitoring.completeStage(pipelineId, 'search', true);
-        await this.pipelineMonitoring.updatePipelineStatus(pipelineId, 'completed');
-        return result.result;
-      } else {
-        await this.pipelineMonitoring.completeStage(pipelineId, 'search', false, result.error?.message);
+      if (!result.success) {
         throw result.error;
       }
+      await this.pipelineMonitoring.updatePipelineStatus(pipelineId, 'completed');
+      return result.result!;
     } catch (error) {
-      await this.pipelineMonitoring.completeStage(pipelineId, 'search', false, error instanceof Error ? error.message : 'Unknown error');
+      await this.pipelineMonitoring.updatePipelineStatus(pipelineId, 'failed', error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
   }
 
-  private async generateSocialPostWithMonitoring(input: GenerateInput, pipelineId: string, context: any) {
+  /**
+   * Run one step of generation as a pipeline stage, so its start and outcome are recorded and streamed
+   */
+  private async stage<T>(pipelineId: string, stageId: string, work: () => Promise<T>): Promise<T> {
+    await this.pipelineMonitoring.startStage(pipelineId, stageId);
     try {
-      await this.pipelineMonitoring.startStage(pipelineId, 'search');
-      
-      const result = await this.errorHandling.executeWithRetry(
-        () => this.generateSocialPost(input),
-        'social_content_generation',
-        undefined,
-        context
-      );
-
-      if (result.success) {
-        await this.pipelineMonitoring.completeStage(pipelineId, 'search', true);
-        await this.pipelineMonitoring.updatePipelineStatus(pipelineId, 'completed');
-        return result.result;
-      } else {
-        await this.pipelineMonitoring.completeStage(pipelineId, 'search', false, result.error?.message);
-        throw result.error;
-      }
+      const result = await work();
+      await this.pipelineMonitoring.completeStage(pipelineId, stageId, true);
+      return result;
     } catch (error) {
-      await this.pipelineMonitoring.completeStage(pipelineId, 'search', false, error instanceof Error ? error.message : 'Unknown error');
+      await this.pipelineMonitoring.completeStage(pipelineId, stageId, false, error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
   }
 
-  private async generateLongFormContent(input: GenerateInput) {
+  private async generateLongFormContent(input: GenerateInput, pipelineId: string): Promise<GeneratedPost> {
     const channel = input.channel || 'default';
     
     // 1) collect brief + angle (already provided in input)
 
     // 2) search sources (cached)
-    const searchRes = await this.perplexity.search(`${input.kind} topic: ${input.brief} angle: ${input.angle || ''}`.trim());
-    const sources: string[] = Array.isArray(searchRes?.data?.sources)
-      ? searchRes.data.sources
-      : (searchRes?.sources || []);
+    const llmContext = this.llmContext(input);
+    const { sources } = await this.stage(pipelineId, 'search', () =>
+      this.llm.search(llmContext, `${input.kind} topic: ${input.brief} angle: ${input.angle || ''}`.trim()));
 
     // 3) synthesize outline with brand rules
-    const outlineTemplate = await this.db.getLatestPromptTemplateByName('outline', channel);
-    let outlinePrompt = outlineTemplate
-      ? this.renderer.renderTemplate(outlineTemplate.template, { brief: input.brief, angle: input.angle, sources })
-      : `Create a structured outline for a ${input.kind} based on these sources: ${JSON.stringify(sources)}. Brief: ${input.brief}. Angle: ${input.angle || ''}.`;
-    
-    // Enhance prompt with brand rules
-    outlinePrompt = await this.brandEnforcement.generateBrandCompliantPrompt(outlinePrompt, input.organizationId);
-    
-    const outlineAns = await this.perplexity.answer(outlinePrompt, sources);
+    const outlineAns = await this.stage(pipelineId, 'outline', async () => {
+      const outlineTemplate = await this.db.getLatestPromptTemplateByName('outline', channel);
+      let outlinePrompt = outlineTemplate
+        ? await this.renderer.renderWithPartials(outlineTemplate.template, { brief: input.brief, angle: input.angle, sources })
+        : `Create a structured outline for a ${input.kind} based on these sources: ${JSON.stringify(sources)}. Brief: ${input.brief}. Angle: ${input.angle || ''}.`;
+
+      // Enhance prompt with brand rules
+      outlinePrompt = await this.brandEnforcement.generateBrandCompliantPrompt(outlinePrompt, input.organizationId);
+
+      return this.llm.answer(llmContext, outlinePrompt, sources);
+    });
 
     // 4) draft with brand rules
-    const draftTemplate = await this.db.getLatestPromptTemplateByName('draft', channel);
-    let draftPrompt = draftTemplate
-      ? this.renderer.renderTemplate(draftTemplate.template, { brief: input.brief, angle: input.angle, outline: outlineAns?.answer || outlineAns?.data || outlineAns })
-      : `Write a full ${input.kind} draft using this outline: ${outlineAns?.answer || outlineAns?.data || outlineAns}.`;
-    
-    // Enhance prompt with brand rules
-    draftPrompt = await this.brandEnforcement.generateBrandCompliantPrompt(draftPrompt, input.organizationId);
-    
-    const draftAns = await this.perplexity.answer(draftPrompt, sources);
+    const draftAns = await this.stage(pipelineId, 'draft', async () => {
+      const draftTemplate = await this.db.getLatestPromptTemplateByName('draft', channel);
+      let draftPrompt = draftTemplate
+        ? await this.renderer.renderWithPartials(draftTemplate.template, { brief: input.brief, angle: input.angle, outline: outlineAns.answer })
+        : `Write a full ${input.kind} draft using this outline: ${outlineAns.answer}.`;
+
+      // Enhance prompt with brand rules
+      draftPrompt = await this.brandEnforcement.generateBrandCompliantPrompt(draftPrompt, input.organizationId);
+
+      return this.llm.answer(llmContext, draftPrompt, sources);
+    });
 
     // 5) citations
     const citations = sources;
 
     // 6) fact-check pass (simple: check a few claims if present)
     const claims: string[] = [];
-    const draftText = (draftAns?.answer || draftAns?.data || draftAns || '').toString();
+    const draftText = draftAns.answer;
     const sentences = draftText.split(/(?<=[.!?])\s+/).slice(0, 5);
     claims.push(...sentences);
-    const factRes = await this.perplexity.factCheck(claims, 3);
+    const factRes = await this.stage(pipelineId, 'factcheck', () => this.perplexity.factCheck(claims, 3));
 
     // 7) brand rule validation
-    const brandValidation = await this.brandEnforcement.validateContentAgainstBrandRules(draftText, input.organizationId);
+    const brandValidation = await this.stage(pipelineId, 'brand', () =>
+      this.brandEnforcement.validateContentAgainstBrandRules(draftText, input.organizationId));
 
     return {
       outline: outlineAns,
@@ -174,12 +170,12 @@ export class ContentGenerationService {
     };
   }
 
-  private async generateSocialPost(input: GenerateInput) {
+  private async generateSocialPost(input: GenerateInput, pipelineId: string): Promise<GeneratedPost> {
     const channel = input.channel || 'default';
     const platform = input.platform || 'FACEBOOK';
     
     // Platform-specific character limits and requirements
-    const platformLimits = {
+    const platformLimits: Record<string, { maxLength: number; hashtags: number; requiresImage: boolean }> = {
       'FACEBOOK': { maxLength: 63206, hashtags: 30, requiresImage: false },
       'INSTAGRAM': { maxLength: 2200, hashtags: 30, requiresImage: true },
       'INSTAGRAM_STORY': { maxLength: 1000, hashtags: 10, requiresImage: true },
@@ -191,52 +187,53 @@ export class ContentGenerationService {
     const limits = platformLimits[platform] || platformLimits['FACEBOOK'];
 
     // 1) Search for trending/relevant content (shorter search for social)
-    const searchRes = await this.perplexity.search(`${platform} social media post about: ${input.brief}`, { topK: 5 });
-    const sources: string[] = Array.isArray(searchRes?.data?.sources)
-      ? searchRes.data.sources
-      : (searchRes?.sources || []);
-
-    // 2) Generate social-specific content
-    const socialTemplate = await this.db.getLatestPromptTemplateByName(`social_${platform.toLowerCase()}`, channel) ||
-                          await this.db.getLatestPromptTemplateByName('social', channel);
-    
-    let socialPrompt = socialTemplate
-      ? this.renderer.renderTemplate(socialTemplate.template, { 
-          brief: input.brief, 
-          angle: input.angle, 
-          platform,
-          maxLength: limits.maxLength,
-          maxHashtags: limits.hashtags,
-          sources 
-        })
-      : `Create a ${platform} social media post about: ${input.brief}. 
-         ${input.angle ? `Angle: ${input.angle}.` : ''}
-         Keep it under ${limits.maxLength} characters.
-         Include ${limits.hashtags} relevant hashtags.
-         Make it engaging and platform-appropriate for ${platform}.`;
-
-    // Enhance prompt with brand rules
-    socialPrompt = await this.brandEnforcement.generateBrandCompliantPrompt(socialPrompt, input.organizationId);
-
-    const socialAns = await this.perplexity.answer(socialPrompt, sources, { 
-      maxTokens: Math.min(500, limits.maxLength / 2), // Conservative token limit
-      temperature: 0.7 // More creative for social content
+    const llmContext = this.llmContext(input);
+    const { sources } = await this.stage(pipelineId, 'search', () =>
+      this.llm.search(llmContext, `${platform} social media post about: ${input.brief}`, { topK: 5 }));
+
+    // 2) Generate social-specific content, 3) extract hashtags and optimize it, 4) platform variations
+    const { socialAns, hashtags, optimizedContent, variations } = await this.stage(pipelineId, 'draft', async () => {
+      const socialTemplate = await this.db.getLatestPromptTemplateByName(`social_${platform.toLowerCase()}`, channel) ||
+                            await this.db.getLatestPromptTemplateByName('social', channel);
+
+      let socialPrompt = socialTemplate
+        ? await this.renderer.renderWithPartials(socialTemplate.template, { 
+            brief: input.brief, 
+            angle: input.angle, 
+            platform,
+            maxLength: limits.maxLength,
+            maxHashtags: limits.hashtags,
+            sources 
+          })
+        : `Create a ${platform} social media post about: ${input.brief}. 
+           ${input.angle ? `Angle: ${input.angle}.` : ''}
+           Keep it under ${limits.maxLength} characters.
+           Include ${limits.hashtags} relevant hashtags.
+           Make it engaging and platform-appropriate for ${platform}.`;
+
+      // Enhance prompt with brand rules
+      socialPrompt = await this.brandEnforcement.generateBrandCompliantPrompt(socialPrompt, input.organizationId);
+
+      const socialAns = await this.llm.answer(llmContext, socialPrompt, sources, { 
+        maxTokens: Math.min(500, limits.maxLength / 2), // Conservative token limit
+        temperature: 0.7 // More creative for social content
+      });
+
+      const generatedText = socialAns.answer;
+      const hashtags = this.extractHashtags(generatedText);
+      const optimizedContent = this.optimizeForPlatform(generatedText, platform, limits);
+      const variations = await this.generatePlatformVariations(optimizedContent, platform, input);
+      return { socialAns, hashtags, optimizedContent, variations };
     });
 
-    // 3) Extract hashtags and optimize content
-    const generatedText = socialAns?.answer || socialAns?.data || '';
-    const hashtags = this.extractHashtags(generatedText);
-    const optimizedContent = this.optimizeForPlatform(generatedText, platform, limits);
-
-    // 4) Generate platform-specific variations if needed
-    const variations = await this.generatePlatformVariations(optimizedContent, platform, input);
-
     // 5) brand rule validation
-    const brandValidation = await this.brandEnforcement.validateContentAgainstBrandRules(optimizedContent, input.organizationId);
+    const brandValidation = await this.stage(pipelineId, 'brand', () =>
+      this.brandEnforcement.validateContentAgainstBrandRules(optimizedContent, input.organizationId));
 
     return {
       outline: null, // Social posts don't need outlines
       draft: { 
+        ...socialAns,
         answer: optimizedContent,
         platform,
         characterCount: optimizedContent.length,
@@ -256,6 +253,10 @@ export class ContentGenerationService {
     };
   }
 
+  private llmContext(input: GenerateInput): LlmCallContext {
+    return { organizationId: input.organizationId, feature: input.feature || 'content_generation' };
+  }
+
   private extractHashtags(text: string): string[] {
     const hashtagRegex = /#[\w\u0590-\u05ff]+/g;
     return text.match(hashtagRegex) || [];
@@ -313,10 +314,10 @@ export class ContentGenerationService {
 Make it appropriate for ${targetPlatform} while keeping the core message.`;
           
           try {
-            const variation = await this.perplexity.answer(variationPrompt, [], { maxTokens: 200 });
-            variations[targetPlatform] = variation?.answer || variation?.data || content;
+            const variation = await this.llm.answer(this.llmContext(input), variationPrompt, [], { maxTokens: 200 });
+            variations[targetPlatform] = variation.answer || content;
           } catch (error) {
-            this.logger.warn(`Failed to generate variation for ${targetPlatform}: ${error.message}`);
+            this.logger.warn(`Failed to generate variation for ${targetPlatform}: ${error instanceof Error ? error.message : String(error)}`);
             variations[targetPlatform] = content; // Fallback to original
           }
         }
@@ -0,0 +1,243 @@
+/**
+ * Elasticsearch document shape, index definition and query building for content search.
+ * Kept free of services so queries can be checked without a cluster.
+ */
+import type { ContentSearchDocumentRow } from '../db.service';
+
+export interface ContentSearchDocument {
+  id: string;
+  organizationId: string;
+  type: string;
+  status: string;
+  title: string;
+  summary: string | null;
+  body: string;
+  versionId: string | null;
+  tags: string[];
+  platforms: string[];
+  authorId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContentSearchFilters {
+  type?: string;
+  status?: string;
+  platform?: string;
+  tags?: string[];
+  authorId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface ContentSearchHit {
+  id: string;
+  score: number | null;
+  title: string;
+  type: string;
+  status: string;
+  summary: string | null;
+  tags: string[];
+  platforms: string[];
+  createdAt: string;
+  updatedAt: string;
+  // Matched fragments per field, with matches wrapped in <mark>
+  highlights: Record<string, string[]>;
+}
+
+export type ContentSearchFacets = Record<'type' | 'status' | 'platform' | 'tags', Array<{ value: string; count: number }>>;
+
+// The parts of an Elasticsearch search response parseSearchResponse reads
+export interface SearchResponseBody {
+  hits?: {
+    total?: number | { value: number; relation?: string };
+    hits?: Array<{
+      _id: string;
+      _score?: number | null;
+      _source: Pick<ContentSearchDocument, 'title' | 'type' | 'status' | 'summary' | 'tags' | 'platforms' | 'createdAt' | 'updatedAt'>;
+      highlight?: Record<string, string[]>;
+    }>;
+  };
+  aggregations?: Record<string, { buckets?: Array<{ key: string | number; doc_count: number }> }>;
+}
+
+export interface ContentSearchResponse {
+  total: number;
+  results: ContentSearchHit[];
+  facets: ContentSearchFacets | null;
+}
+
+// Facet name -> document field
+export const SEARCH_FACETS: Record<keyof ContentSearchFacets, string> = {
+  type: 'type',
+  status: 'status',
+  platform: 'platforms',
+  tags: 'tags',
+};
+
+const FACET_SIZE = 20;
+
+/**
+ * Settings and mappings for the content index (test/es_content_index.json mirrors this)
+ */
+export const CONTENT_INDEX_DEFINITION = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 0,
+    analysis: {
+      analyzer: {
+        default: { type: 'standard' },
+        content_text: { type: 'custom', tokenizer: 'standard', filter: ['lowercase', 'asciifolding', 'porter_stem'] },
+      },
+    },
+  },
+  mappings: {
+    dynamic: 'strict',
+    properties: {
+      id: { type: 'keyword' },
+      organizationId: { type: 'keyword' },
+      type: { type: 'keyword' },
+      status: { type: 'keyword' },
+      title: { type: 'text', analyzer: 'content_text', fields: { raw: { type: 'keyword', ignore_above: 256 } } },
+      summary: { type: 'text', analyzer: 'content_text' },
+      body: { type: 'text', analyzer: 'content_text' },
+      versionId: { type: 'keyword' },
+      tags: { type: 'keyword' },
+      platforms: { type: 'keyword' },
+      authorId: { type: 'keyword' },
+      createdAt: { type: 'date' },
+      updatedAt: { type: 'date' },
+    },
+  },
+};
+
+const isPresent = (value: string | null): value is string => Boolean(value);
+
+/**
+ * Build the indexed document from a DbService.getContentSearchDocuments row
+ */
+export function toSearchDocument(row: ContentSearchDocumentRow): ContentSearchDocument {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    type: row.type,
+    status: row.status,
+    title: row.version_title || row.title,
+    summary: row.summary || null,
+    body: row.body || '',
+    versionId: row.version_id || null,
+    tags: Array.isArray(row.tags) ? row.tags.filter(isPresent) : [],
+    platforms: Array.isArray(row.platforms) ? row.platforms.filter(isPresent) : [],
+    authorId: row.author_id || null,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Relevance-ranked query scoped to one organization: exact phrases rank above scattered terms, titles above
+ * bodies, and small typos still match. Filters narrow the results; facets count over the filtered results.
+ */
+export function buildSearchQuery(
+  organizationId: string,
+  query: string,
+  filters: ContentSearchFilters = {},
+  page: number = 1,
+  limit: number = 20,
+) {
+  const filter: Array<Record<string, unknown>> = [{ term: { organizationId } }];
+  if (filters.type) filter.push({ term: { type: filters.type } });
+  if (filters.status) filter.push({ term: { status: filters.status } });
+  if (filters.platform) filter.push({ term: { platforms: filters.platform } });
+  if (filters.authorId) filter.push({ term: { authorId: filters.authorId } });
+  for (const tag of filters.tags || []) filter.push({ term: { tags: tag } });
+  if (filters.dateFrom || filters.dateTo) {
+    filter.push({
+      range: {
+        createdAt: {
+          ...(filters.dateFrom ? { gte: filters.dateFrom } : {}),
+          ...(filters.dateTo ? { lte: filters.dateTo } : {}),
+        },
+      },
+    });
+  }
+
+  const fields = ['title^3', 'summary^2', 'body', 'tags^2'];
+  return {
+    from: (Math.max(1, page) - 1) * limit,
+    size: limit,
+    track_total_hits: true,
+    query: {
+      bool: {
+        filter,
+        must: [{ multi_match: { query, fields, type: 'best_fields', fuzziness: 'AUTO', prefix_length: 1 } }],
+        should: [{ multi_match: { query, fields, type: 'phrase', boost: 2 } }],
+      },
+    },
+    highlight: {
+      pre_tags: ['<mark>'],
+      post_tags: ['</mark>'],
+      encoder: 'html',
+      fields: {
+        title: { number_of_fragments: 0 },
+        summary: { fragment_size: 150, number_of_fragments: 1 },
+        body: { fragment_size: 150, number_of_fragments: 3 },
+      },
+    },
+    aggs: Object.fromEntries(
+      Object.entries(SEARCH_FACETS).map(([facet, field]) => [facet, { terms: { field, size: FACET_SIZE } }]),
+    ),
+    _source: { excludes: ['body'] },
+  };
+}
+
+export function parseSearchResponse(response: SearchResponseBody): ContentSearchResponse {
+  const hits = response?.hits?.hits || [];
+  const total = typeof response?.hits?.total === 'number' ? response.hits.total : response?.hits?.total?.value || 0;
+
+  const facets = Object.fromEntries(
+    Object.keys(SEARCH_FACETS).map(facet => [
+      facet,
+      (response?.aggregations?.[facet]?.buckets || []).map(bucket => ({ value: String(bucket.key), count: bucket.doc_count })),
+    ]),
+  ) as ContentSearchFacets;
+
+  return {
+    total,
+    facets,
+    results: hits.map(hit => ({
+      id: hit._id,
+      score: hit._score ?? null,
+      title: hit._source.title,
+      type: hit._source.type,
+      status: hit._source.status,
+      summary: hit._source.summary ?? null,
+      tags: hit._source.tags || [],
+      platforms: hit._source.platforms || [],
+      createdAt: hit._source.createdAt,
+      updatedAt: hit._source.updatedAt,
+      highlights: hit.highlight || {},
+    })),
+  };
+}
+
+/**
+ * Accepts filters from the legacy `filters` JSON parameter merged with individual query parameters
+ */
+export function normalizeSearchFilters(input: Record<string, unknown> = {}): ContentSearchFilters {
+  const tags = ([] as unknown[])
+    .concat(input.tags ?? input.tag ?? [])
+    .flatMap(tag => String(tag).split(','))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+  const str = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value));
+  return {
+    type: str(input.type)?.toUpperCase(),
+    status: str(input.status)?.toUpperCase(),
+    platform: str(input.platform)?.toUpperCase(),
+    tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+    authorId: str(input.authorId),
+    dateFrom: str(input.dateFrom),
+    dateTo: str(input.dateTo),
+  };
+}
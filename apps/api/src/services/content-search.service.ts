@@ -0,0 +1,259 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ContentChange, DbService } from '../db.service';
+import { BulkOperation, ElasticsearchClient, ElasticsearchError } from '../platforms/search/elasticsearch-client';
+import {
+  CONTENT_INDEX_DEFINITION,
+  ContentSearchFacets,
+  ContentSearchFilters,
+  ContentSearchHit,
+  SearchResponseBody,
+  buildSearchQuery,
+  parseSearchResponse,
+  toSearchDocument,
+} from './content-search-query';
+
+export interface ContentSearchResult {
+  // Which backend answered; 'postgres' results have no scores, highlights or facets
+  engine: 'elasticsearch' | 'postgres';
+  total: number;
+  results: ContentSearchHit[];
+  facets: ContentSearchFacets | null;
+}
+
+export interface ReindexResult {
+  index: string;
+  indexed: number;
+  failed: number;
+  durationMs: number;
+}
+
+// Changes arriving within this window are sent to Elasticsearch in one bulk request
+const FLUSH_DELAY_MS = 500;
+const BULK_SIZE = 500;
+// After a connection failure, searches go straight to Postgres for this long instead of waiting on timeouts
+const UNAVAILABLE_BACKOFF_MS = 30000;
+const MAX_INDEX_RETRIES = 5;
+
+/**
+ * Mirrors content items (with their current version, tags and scheduled platforms) into Elasticsearch and
+ * serves ranked search with highlights and facets, falling back to Postgres ILIKE search when the cluster is
+ * unavailable or not configured.
+ *
+ * Incremental updates follow DbService content writes; the index is read and written through an alias so
+ * reindex() can build a fresh index and switch over atomically.
+ */
+@Injectable()
+export class ContentSearchService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ContentSearchService.name);
+  private readonly client: ElasticsearchClient | null;
+  private readonly alias: string;
+  private pending = new Map<string, { deleted: boolean; retries: number }>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private unavailableUntil = 0;
+  private indexReady = false;
+
+  constructor(private readonly db: DbService) {
+    const node = process.env.ELASTICSEARCH_NODE;
+    this.client = node ? new ElasticsearchClient(node) : null;
+    this.alias = process.env.ELASTICSEARCH_CONTENT_INDEX || 'content_items';
+  }
+
+  onModuleInit() {
+    if (!this.client) {
+      this.logger.warn('ELASTICSEARCH_NODE not configured; content search uses Postgres');
+      return;
+    }
+    this.db.onContentChanged(change => this.queueChange(change));
+  }
+
+  async onModuleDestroy() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    await this.flush();
+  }
+
+  get enabled(): boolean {
+    return this.client !== null;
+  }
+
+  async search(
+    organizationId: string,
+    query: string,
+    filters: ContentSearchFilters = {},
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<ContentSearchResult> {
+    if (this.client && Date.now() >= this.unavailableUntil) {
+      try {
+        const response = await this.client.search<SearchResponseBody>(this.alias, buildSearchQuery(organizationId, query, filters, page, limit));
+        return { engine: 'elasticsearch', ...parseSearchResponse(response) };
+      } catch (error) {
+        this.noteFailure(error);
+        this.logger.warn(`Elasticsearch search failed, using Postgres: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const rows = await this.db.searchContentItems(organizationId, query, filters, page, limit);
+    return {
+      engine: 'postgres',
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      facets: null,
+      results: rows.map(row => ({
+        id: row.id,
+        score: null,
+        title: row.version_title || row.title,
+        type: row.type,
+        status: row.status,
+        summary: row.summary || null,
+        tags: [],
+        platforms: [],
+        createdAt: row.created_at.toISOString(),
+        updatedAt: row.updated_at.toISOString(),
+        highlights: {},
+      })),
+    };
+  }
+
+  /**
+   * Rebuild the index from Postgres into a new physical index, switch the alias to it and drop the old one.
+   * Items changed while the rebuild ran are indexed again after the switch.
+   */
+  async reindex(): Promise<ReindexResult> {
+    if (!this.client) {
+      throw new Error('Elasticsearch is not configured (ELASTICSEARCH_NODE)');
+    }
+    const startedAt = new Date();
+    const index = `${this.alias}_${startedAt.getTime()}`;
+    await this.client.createIndex(index, CONTENT_INDEX_DEFINITION);
+
+    let indexed = 0;
+    let failed = 0;
+    let afterId: string | null = null;
+    try {
+      for (;;) {
+        const rows = await this.db.getContentSearchDocumentPage(afterId, BULK_SIZE);
+        if (rows.length === 0) break;
+        const result = await this.client.bulk(index, rows.map(row => ({ action: 'index' as const, id: row.id, document: toSearchDocument(row) })));
+        indexed += result.succeeded;
+        failed += result.failed.length;
+        for (const failure of result.failed.slice(0, 5)) {
+          this.logger.warn(`Reindex could not index ${failure.id}: ${failure.error}`);
+        }
+        afterId = rows[rows.length - 1].id;
+      }
+
+      const previous = await this.client.getAliasTargets(this.alias);
+      // A plain index left under the alias name (e.g. created by hand) would block the alias
+      if (previous.length === 0 && (await this.client.indexExists(this.alias))) {
+        await this.client.deleteIndex(this.alias);
+      }
+      await this.client.swapAlias(this.alias, index, previous);
+      for (const old of previous) await this.client.deleteIndex(old);
+      this.indexReady = true;
+    } catch (error) {
+      await this.client.deleteIndex(index).catch(() => undefined);
+      throw error;
+    }
+
+    for (const id of await this.db.getContentItemIdsUpdatedSince(startedAt)) {
+      this.queueChange({ contentItemId: id, deleted: false });
+    }
+    await this.flush();
+
+    const durationMs = Date.now() - startedAt.getTime();
+    this.logger.log(`Reindexed ${indexed} content items into ${index} (${failed} failed) in ${durationMs}ms`);
+    return { index, indexed, failed, durationMs };
+  }
+
+  /**
+   * Send queued changes now rather than after the batching delay
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    while (this.flushing) await this.flushing;
+    if (this.pending.size === 0 || !this.client) return;
+
+    this.flushing = this.flushBatch().finally(() => {
+      this.flushing = null;
+    });
+    await this.flushing;
+  }
+
+  private queueChange(change: ContentChange) {
+    const existing = this.pending.get(change.contentItemId);
+    this.pending.set(change.contentItemId, { deleted: change.deleted, retries: existing?.retries || 0 });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  private async flushBatch(): Promise<void> {
+    const batch = new Map(Array.from(this.pending.entries()).slice(0, BULK_SIZE));
+    for (const id of batch.keys()) this.pending.delete(id);
+
+    try {
+      await this.ensureIndex();
+      const rows = await this.db.getContentSearchDocuments(Array.from(batch.entries()).filter(([, c]) => !c.deleted).map(([id]) => id));
+      const found = new Map(rows.map(row => [row.id, row]));
+      // Items deleted since they were queued are removed from the index too
+      const operations: BulkOperation[] = Array.from(batch.keys()).map(id => {
+        const row = found.get(id);
+        return row ? { action: 'index', id, document: toSearchDocument(row) } : { action: 'delete', id };
+      });
+      const result = await this.client!.bulk(this.alias, operations);
+      for (const failure of result.failed) {
+        this.logger.warn(`Could not index content ${failure.id}: ${failure.error}`);
+      }
+    } catch (error) {
+      this.noteFailure(error);
+      this.logger.warn(`Search index update failed for ${batch.size} item(s): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.requeue(batch);
+    }
+
+    if (this.pending.size > 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, this.unavailableUntil > Date.now() ? UNAVAILABLE_BACKOFF_MS : FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Failed changes are retried a few times; anything still failing is picked up by the next reindex
+   */
+  private requeue(batch: Map<string, { deleted: boolean; retries: number }>) {
+    for (const [id, change] of batch) {
+      if (this.pending.has(id)) continue;
+      if (change.retries + 1 >= MAX_INDEX_RETRIES) {
+        this.logger.error(`Giving up indexing content ${id}; run a reindex once Elasticsearch is healthy`);
+        continue;
+      }
+      this.pending.set(id, { deleted: change.deleted, retries: change.retries + 1 });
+    }
+  }
+
+  /**
+   * Create the first index behind the alias on first use so incremental updates work before any reindex
+   */
+  private async ensureIndex(): Promise<void> {
+    if (this.indexReady || !this.client) return;
+    if (!(await this.client.indexExists(this.alias))) {
+      const index = `${this.alias}_${Date.now()}`;
+      await this.client.createIndex(index, CONTENT_INDEX_DEFINITION);
+      await this.client.swapAlias(this.alias, index, []);
+    }
+    this.indexReady = true;
+  }
+
+  private noteFailure(error: unknown) {
+    if (error instanceof ElasticsearchError && error.unavailable) {
+      this.unavailableUntil = Date.now() + UNAVAILABLE_BACKOFF_MS;
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CrmConnectionRow, CrmConnectionUpdates, CrmPushCandidateRow, CrmSyncLogRow, DbService } from '../db.service';
+import { decryptToken, encryptToken } from '../token.util';
+import { CrmConnector, CrmConnectorError, CrmProvider } from '../platforms/crm/crm-connector';
+import { HubSpotConnector } from '../platforms/crm/hubspot-connector';
+import {
+  CrmFieldMapping,
+  CrmMappingError,
+  DEFAULT_FIELD_MAPPINGS,
+  fromCrmProperties,
+  hashProperties,
+  importedCrmFields,
+  toCrmProperties,
+  validateFieldMappings,
+} from '../platforms/crm/crm-field-mapping';
+import { normalizeLeadInput, toLead } from './leads.service';
+
+export type CrmSyncFrequency = 'realtime' | 'hourly' | 'daily' | 'weekly';
+export type CrmSyncType = 'import' | 'export' | 'sync';
+
+export const CRM_PROVIDERS: CrmProvider[] = ['hubspot'];
+export const CRM_SYNC_FREQUENCIES: CrmSyncFrequency[] = ['realtime', 'hourly', 'daily', 'weekly'];
+
+export interface CrmConnectionInput {
+  name?: string;
+  type?: string;
+  apiKey?: string;
+  apiUrl?: string | null;
+  syncFrequency?: string;
+  fieldMappings?: CrmFieldMapping[];
+  // Only 'connected' / 'disconnected' can be set directly; the rest follow from syncs
+  status?: string;
+}
+
+export class CrmValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrmValidationError';
+  }
+}
+
+export class CrmSyncInProgressError extends Error {
+  constructor() {
+    super('A sync is already running for this connection');
+    this.name = 'CrmSyncInProgressError';
+  }
+}
+
+interface SyncRun {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: CrmSyncLogRow['errors'];
+  pushCursor: Date | null;
+  pullCursor: Date | null;
+}
+
+const PUSH_BATCH_SIZE = 100;
+// HubSpot search stops paging after 10,000 results; later records are picked up by the next sync
+const MAX_PULL_PAGES = 50;
+const MAX_LOGGED_ERRORS = 100;
+
+@Injectable()
+export class CrmSyncService {
+  private readonly logger = new Logger(CrmSyncService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  async listConnections(organizationId: string) {
+    const rows = await this.dbService.getCrmConnections(organizationId);
+    return rows.map(toConnection);
+  }
+
+  async getConnection(organizationId: string, id: string) {
+    const row = await this.dbService.getCrmConnection(id, organizationId);
+    return row ? toConnection(row) : null;
+  }
+
+  /**
+   * Store a connection after checking its credentials against the CRM. Field mappings default to the provider's.
+   */
+  async createConnection(organizationId: string, input: CrmConnectionInput) {
+    const provider = input.type as CrmProvider;
+    if (!CRM_PROVIDERS.includes(provider)) {
+      throw new CrmValidationError(`Unsupported CRM. Must be one of ${CRM_PROVIDERS.join(', ')}`);
+    }
+    const name = input.name?.trim();
+    if (!name) throw new CrmValidationError('name is required');
+    if (!input.apiKey?.trim()) throw new CrmValidationError('apiKey is required');
+    const apiUrl = normalizeApiUrl(input.apiUrl);
+
+    await this.checkCredentials(this.createConnector(provider, input.apiKey.trim(), apiUrl));
+    const row = await this.dbService.createCrmConnection(organizationId, {
+      name,
+      provider,
+      apiUrl,
+      credentialsEnc: encryptToken(input.apiKey.trim()),
+      syncFrequency: validateFrequency(input.syncFrequency),
+      fieldMappings: this.validateMappings(input.fieldMappings ?? DEFAULT_FIELD_MAPPINGS[provider]),
+    });
+    return toConnection(row);
+  }
+
+  async updateConnection(organizationId: string, id: string, input: CrmConnectionInput) {
+    const existing = await this.dbService.getCrmConnection(id, organizationId);
+    if (!existing) return null;
+
+    const updates: CrmConnectionUpdates = {};
+    if (input.name !== undefined) {
+      if (!input.name?.trim()) throw new CrmValidationError('name cannot be empty');
+      updates.name = input.name.trim();
+    }
+    if (input.apiUrl !== undefined) updates.apiUrl = normalizeApiUrl(input.apiUrl);
+    if (input.syncFrequency !== undefined) updates.syncFrequency = validateFrequency(input.syncFrequency);
+    if (input.fieldMappings !== undefined) updates.fieldMappings = this.validateMappings(input.fieldMappings);
+    if (input.status !== undefined) {
+      if (input.status !== 'connected' && input.status !== 'disconnected') {
+        throw new CrmValidationError('status must be connected or disconnected');
+      }
+      if (existing.status === 'syncing') throw new CrmSyncInProgressError();
+      updates.status = input.status;
+    }
+    // New credentials or a new endpoint are checked before they replace working ones
+    if (input.apiKey !== undefined || updates.apiUrl !== undefined) {
+      const apiKey = input.apiKey?.trim() || decryptToken(existing.credentials_enc);
+      const apiUrl = updates.apiUrl !== undefined ? updates.apiUrl : existing.api_url;
+      await this.checkCredentials(this.createConnector(existing.provider, apiKey, apiUrl));
+      updates.credentialsEnc = encryptToken(apiKey);
+      updates.lastError = null;
+    }
+
+    const row = await this.dbService.updateCrmConnection(id, organizationId, updates);
+    return row ? toConnection(row) : null;
+  }
+
+  async deleteConnection(organizationId: string, id: string) {
+    return this.dbService.deleteCrmConnection(id, organizationId);
+  }
+
+  /**
+   * Check stored credentials, updating the connection's status with the outcome
+   */
+  async testConnection(organizationId: string, id: string) {
+    const row = await this.dbService.getCrmConnection(id, organizationId);
+    if (!row) return null;
+    try {
+      const account = await this.connectorFor(row).testConnection();
+      if (row.status === 'error') await this.dbService.updateCrmConnection(id, organizationId, { status: 'connected', lastError: null });
+      return { success: true, account };
+    } catch (error) {
+      const message = errorMessage(error);
+      if (row.status === 'connected') await this.dbService.updateCrmConnection(id, organizationId, { status: 'error', lastError: message });
+      return { success: false, error: message };
+    }
+  }
+
+  async getSyncLogs(organizationId: string, connectionId?: string, limit: number = 50) {
+    const rows = await this.dbService.getCrmSyncLogs(organizationId, connectionId, limit);
+    return rows.map(toSyncLog);
+  }
+
+  /**
+   * Push leads changed since the last sync and pull back CRM changes to linked leads. Per-record failures are
+   * logged and the sync carries on; connection-wide failures (network, rate limits, outages) stop it. Cursors
+   * only move past records that were handled, so failures are retried on the next sync.
+   */
+  async sync(organizationId: string, id: string, type: CrmSyncType = 'sync') {
+    const connection = await this.dbService.claimCrmSync(id, organizationId);
+    if (!connection) {
+      const existing = await this.dbService.getCrmConnection(id, organizationId);
+      if (!existing) return null;
+      if (existing.status === 'disconnected') throw new CrmValidationError('Connection is disconnected');
+      throw new CrmSyncInProgressError();
+    }
+
+    const log = await this.dbService.createCrmSyncLog(id, organizationId, type);
+    const run: SyncRun = {
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      errors: [],
+      pushCursor: connection.push_cursor,
+      pullCursor: connection.pull_cursor,
+    };
+    let failure: string | null = null;
+
+    try {
+      const connector = this.connectorFor(connection);
+      const mappings: CrmFieldMapping[] = connection.field_mappings || [];
+      if (type !== 'import') await this.pushLeads(connector, connection, mappings, run);
+      if (type !== 'export') await this.pullContacts(connector, connection, mappings, run);
+    } catch (error) {
+      failure = (error instanceof Error && error.message) || 'CRM sync failed';
+      this.logger.error(`CRM sync ${id} stopped: ${failure}`);
+    }
+
+    const status = failure ? 'error' : run.failed > 0 ? 'partial' : 'success';
+    const completed = await this.dbService.completeCrmSyncLog(log.id, {
+      status,
+      processed: run.processed,
+      succeeded: run.succeeded,
+      failed: run.failed,
+      errors: run.errors.slice(0, MAX_LOGGED_ERRORS),
+      errorMessage: failure || (run.failed > 0 ? `${run.failed} records failed` : null),
+    });
+    await this.dbService.finishCrmSync(id, {
+      status: failure ? 'error' : 'connected',
+      lastError: failure,
+      pushCursor: run.pushCursor,
+      pullCursor: run.pullCursor,
+    });
+
+    this.logger.log(`CRM sync ${id} (${type}) finished: ${run.succeeded} succeeded, ${run.failed} failed`);
+    return toSyncLog(completed ?? log);
+  }
+
+  private async pushLeads(connector: CrmConnector, connection: CrmConnectionRow, mappings: CrmFieldMapping[], run: SyncRun) {
+    let since: Date | null = run.pushCursor;
+    let afterId = '';
+    let blocked = false;
+
+    for (;;) {
+      const rows = await this.dbService.getCrmPushCandidates(connection.id, connection.organization_id, since, afterId, PUSH_BATCH_SIZE);
+      for (const row of rows) {
+        try {
+          if (await this.pushLead(connector, connection, row, mappings)) {
+            run.processed++;
+            run.succeeded++;
+          }
+        } catch (error) {
+          if (error instanceof CrmConnectorError && error.retryable) throw error;
+          run.processed++;
+          run.failed++;
+          run.errors.push({ direction: 'export', leadId: row.id, error: describePushError(error) });
+          // Leave the cursor before the first failure so the lead is pushed again next time
+          blocked = true;
+        }
+        if (!blocked) run.pushCursor = row.changed_at;
+        since = row.changed_at;
+        afterId = row.id;
+      }
+      if (rows.length < PUSH_BATCH_SIZE) return;
+    }
+  }
+
+  /**
+   * Returns false when the lead has nothing to push or is unchanged since its last push
+   */
+  private async pushLead(connector: CrmConnector, connection: CrmConnectionRow, row: CrmPushCandidateRow, mappings: CrmFieldMapping[]): Promise<boolean> {
+    const properties = toCrmProperties(toLead(row), mappings);
+    if (Object.keys(properties).length === 0) return false;
+    const hash = hashProperties(properties);
+    if (row.crm_external_id && row.crm_pushed_hash === hash) return false;
+
+    let externalId: string | null = row.crm_external_id;
+    if (!externalId && row.email) {
+      // The contact may already exist in the CRM, e.g. entered by sales before the lead came in
+      externalId = (await connector.findContactByEmail(row.email))?.externalId || null;
+    }
+    const record = externalId
+      ? await connector.updateContact(externalId, properties)
+      : await connector.createContact(properties);
+    await this.dbService.upsertCrmLeadLink(connection.id, row.id, record.externalId, hash);
+    return true;
+  }
+
+  private async pullContacts(connector: CrmConnector, connection: CrmConnectionRow, mappings: CrmFieldMapping[], run: SyncRun) {
+    const fields = importedCrmFields(mappings);
+    if (fields.length === 0) return;
+
+    const since: Date | null = run.pullCursor;
+    let page: string | undefined;
+    let blocked = false;
+    for (let pages = 0; pages < MAX_PULL_PAGES; pages++) {
+      const { records, nextPage } = await connector.listModifiedContacts(since, fields, page);
+      for (const record of records) {
+        // Only contacts linked to a lead are pulled; contacts created in the CRM stay there
+        const lead = await this.dbService.getLeadByCrmExternalId(connection.id, record.externalId, connection.organization_id);
+        if (lead) {
+          try {
+            const updates = fromCrmProperties(toLead(lead), record.properties, mappings);
+            if (Object.keys(updates).length > 0) {
+              run.processed++;
+              await this.dbService.updateLead(lead.id, connection.organization_id, normalizeLeadInput(updates));
+              await this.dbService.markCrmLeadPulled(connection.id, lead.id);
+              run.succeeded++;
+            }
+          } catch (error) {
+            run.failed++;
+            run.errors.push({ direction: 'import', leadId: lead.id, externalId: record.externalId, error: errorMessage(error) });
+            blocked = true;
+          }
+        }
+        if (!blocked && (!run.pullCursor || record.updatedAt > run.pullCursor)) run.pullCursor = record.updatedAt;
+      }
+      if (!nextPage) return;
+      page = nextPage;
+    }
+  }
+
+  private validateMappings(mappings: unknown): CrmFieldMapping[] {
+    try {
+      return validateFieldMappings(mappings);
+    } catch (error) {
+      if (error instanceof CrmMappingError) throw new CrmValidationError(error.message);
+      throw error;
+    }
+  }
+
+  private async checkCredentials(connector: CrmConnector) {
+    try {
+      await connector.testConnection();
+    } catch (error) {
+      throw new CrmValidationError(`Could not connect to ${connector.provider}: ${errorMessage(error)}`);
+    }
+  }
+
+  private connectorFor(row: CrmConnectionRow): CrmConnector {
+    return this.createConnector(row.provider, decryptToken(row.credentials_enc), row.api_url);
+  }
+
+  private createConnector(provider: CrmProvider, apiKey: string, apiUrl: string | null): CrmConnector {
+    switch (provider) {
+      case 'hubspot':
+        return new HubSpotConnector(apiKey, apiUrl || undefined);
+      default:
+        throw new CrmValidationError(`Unsupported CRM: ${String(provider)}`);
+    }
+  }
+}
+
+function normalizeApiUrl(value: string | null | undefined): string | null {
+  const url = value?.trim();
+  if (!url) return null;
+  if (!/^https?:\/\/[^\s]+$/i.test(url)) throw new CrmValidationError('apiUrl must be an http(s) URL');
+  return url.replace(/\/+$/, '');
+}
+
+function validateFrequency(value: string | undefined): CrmSyncFrequency | undefined {
+  if (value === undefined) return undefined;
+  if (!CRM_SYNC_FREQUENCIES.includes(value as CrmSyncFrequency)) {
+    throw new CrmValidationError(`syncFrequency must be one of ${CRM_SYNC_FREQUENCIES.join(', ')}`);
+  }
+  return value as CrmSyncFrequency;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function describePushError(error: unknown): string {
+  // Two leads resolving to the same CRM contact (usually duplicates sharing an email)
+  if ((error as { code?: unknown } | null)?.code === '23505') return 'CRM contact is already linked to another lead; merge the duplicate leads';
+  return (error instanceof Error && error.message) || 'Push failed';
+}
+
+/**
+ * Database row to the CRMIntegration shape; credentials are never returned, only a masked hint
+ */
+function toConnection(row: CrmConnectionRow) {
+  let apiKey: string | undefined;
+  try {
+    apiKey = `***${decryptToken(row.credentials_enc).slice(-4)}`;
+  } catch {
+    apiKey = undefined;
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.provider,
+    status: row.status,
+    apiKey,
+    apiUrl: row.api_url,
+    lastSync: row.last_sync_at,
+    lastError: row.last_error,
+    syncFrequency: row.sync_frequency,
+    fieldMappings: row.field_mappings || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSyncLog(row: CrmSyncLogRow) {
+  return {
+    id: row.id,
+    connectionId: row.connection_id,
+    type: row.type,
+    status: row.status,
+    recordsProcessed: row.records_processed,
+    recordsSucceeded: row.records_succeeded,
+    recordsFailed: row.records_failed,
+    errors: row.errors || [],
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    errorMessage: row.error_message,
+  };
+}
@@ -1,4 +1,17 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import {
+  CircuitBreakerConfig,
+  CircuitBreakerState,
+  CircuitOpenError,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  admitCall,
+  RETRY_BUDGET_PROVIDERS,
+  parseRetryBudgets,
+  recordCallFailure,
+  recordCallSuccess,
+} from './circuit-breaker';
+import { CircuitBreakerStore, InMemoryCircuitBreakerStore } from './circuit-breaker-store';
+import { metrics } from './metrics.service';
 
 export interface RetryConfig {
   maxAttempts: number;
@@ -6,12 +19,8 @@ export interface RetryConfig {
   maxDelay: number;
   backoffMultiplier: number;
   retryableErrors: string[];
-}
-
-export interface CircuitBreakerConfig {
-  failureThreshold: number;
-  recoveryTimeout: number;
-  monitoringPeriod: number;
+  // Provider whose cluster-wide retry budget each retry draws from; retrying stops once it is spent
+  retryBudget?: string;
 }
 
 export interface ErrorContext {
@@ -31,17 +40,21 @@ export interface RetryResult<T> {
   totalDuration: number;
 }
 
-export interface CircuitBreakerState {
-  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
-  failureCount: number;
-  lastFailureTime?: string;
-  nextAttemptTime?: string;
+export interface RetryBudgetUsage {
+  limit: number;
+  used: number;
 }
 
+/**
+ * Retries, circuit breakers and graceful degradation for calls to external providers. Breaker state and
+ * retry budgets live in the CircuitBreakerStore, which AppModule and the worker back with Redis so every
+ * process sees the same breakers; without one (scripts, tests) they are process-local.
+ */
 @Injectable()
 export class EnhancedErrorHandlingService {
   private readonly logger = new Logger(EnhancedErrorHandlingService.name);
-  private circuitBreakers: Map<string, CircuitBreakerState> = new Map();
+  private readonly store: CircuitBreakerStore;
+  private readonly retryBudgets: Record<string, number>;
   private readonly defaultRetryConfig: RetryConfig = {
     maxAttempts: 3,
     baseDelay: 1000,
@@ -50,11 +63,11 @@ export class EnhancedErrorHandlingService {
     retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'ECONNREFUSED', 'rate_limit', 'timeout', 'temporary']
   };
 
-  private readonly defaultCircuitBreakerConfig: CircuitBreakerConfig = {
-    failureThreshold: 5,
-    recoveryTimeout: 60000, // 1 minute
-    monitoringPeriod: 300000 // 5 minutes
-  };
+  constructor(@Optional() store?: CircuitBreakerStore) {
+    this.store = store || new InMemoryCircuitBreakerStore();
+    this.retryBudgets = parseRetryBudgets(process.env.RETRY_BUDGETS);
+    metrics.setCircuitBreakerSource(() => this.getCircuitBreakerMetrics());
+  }
 
   async executeWithRetry<T>(
     operation: () => Promise<T>,
@@ -109,6 +122,14 @@ export class EnhancedErrorHandlingService {
           break;
         }
 
+        if (attempt < retryConfig.maxAttempts && retryConfig.retryBudget && !(await this.consumeRetryBudget(retryConfig.retryBudget))) {
+          this.logger.warn(`Retry budget for ${retryConfig.retryBudget} is spent, not retrying ${operationName}`, {
+            correlationId,
+            attempt
+          });
+          break;
+        }
+
         // Don't delay after the last attempt
         if (attempt < retryConfig.maxAttempts) {
           const delay = this.calculateDelay(attempt, retryConfig);
@@ -137,74 +158,67 @@ export class EnhancedErrorHandlingService {
     };
   }
 
+  /**
+   * Run the operation unless its breaker is open. Breakers are shared by name across processes: failures
+   * inside the monitoring period open it, and once the recovery timeout passes a single half-open probe
+   * decides whether it closes again. Rejected calls throw CircuitOpenError.
+   */
   async executeWithCircuitBreaker<T>(
     operation: () => Promise<T>,
     operationName: string,
     config?: Partial<CircuitBreakerConfig>,
     context?: ErrorContext
   ): Promise<T> {
-    const circuitConfig = { ...this.defaultCircuitBreakerConfig, ...config };
-    const circuitKey = `${operationName}_circuit`;
+    const circuitConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
     const correlationId = context?.correlationId || this.generateCorrelationId();
 
-    // Check circuit breaker state
-    const circuitState = this.getCircuitBreakerState(circuitKey);
-    
-    if (circuitState.state === 'OPEN') {
-      if (Date.now() < new Date(circuitState.nextAttemptTime || 0).getTime()) {
-        throw new Error(`Circuit breaker is OPEN for ${operationName}. Next attempt allowed at ${circuitState.nextAttemptTime}`);
-      } else {
-        // Transition to HALF_OPEN
-        circuitState.state = 'HALF_OPEN';
-        circuitState.failureCount = 0;
-        this.circuitBreakers.set(circuitKey, circuitState);
-        
-        this.logger.log(`Circuit breaker transitioning to HALF_OPEN for ${operationName}`, {
-          correlationId,
-          circuitKey
-        });
-      }
+    const admission = await this.store.update(operationName, current => {
+      const { admission, next } = admitCall(current, circuitConfig, Date.now());
+      return { next, result: admission };
+    });
+    if (!admission.allowed) {
+      // While another caller probes, the earliest retry is when that probe would be replaced
+      const { state, nextAttemptTime, probeStartedAt } = admission.state;
+      throw new CircuitOpenError(
+        operationName,
+        state === 'OPEN' ? nextAttemptTime : new Date(new Date(probeStartedAt || 0).getTime() + circuitConfig.probeTimeout).toISOString()
+      );
+    }
+    if (admission.probe) {
+      this.logger.log(`Circuit breaker HALF_OPEN for ${operationName}, probing`, {
+        correlationId,
+        circuit: operationName
+      });
     }
 
+    let result: T;
     try {
-      const result = await operation();
-      
-      // Success - reset circuit breaker if it was HALF_OPEN
-      if (circuitState.state === 'HALF_OPEN') {
-        circuitState.state = 'CLOSED';
-        circuitState.failureCount = 0;
-        circuitState.lastFailureTime = undefined;
-        circuitState.nextAttemptTime = undefined;
-        this.circuitBreakers.set(circuitKey, circuitState);
-        
-        this.logger.log(`Circuit breaker reset to CLOSED for ${operationName}`, {
-          correlationId,
-          circuitKey
-        });
-      }
-      
-      return result;
+      result = await operation();
     } catch (error) {
-      // Failure - update circuit breaker state
-      circuitState.failureCount++;
-      circuitState.lastFailureTime = new Date().toISOString();
-      
-      if (circuitState.failureCount >= circuitConfig.failureThreshold) {
-        circuitState.state = 'OPEN';
-        circuitState.nextAttemptTime = new Date(Date.now() + circuitConfig.recoveryTimeout).toISOString();
-        
+      const { state, opened } = await this.store.update(operationName, current => {
+        const next = recordCallFailure(current, circuitConfig, Date.now(), admission.probe);
+        return { next, result: { state: next, opened: next.state === 'OPEN' && current.state !== 'OPEN' } };
+      });
+      if (opened) {
         this.logger.error(`Circuit breaker opened for ${operationName}`, {
           correlationId,
-          circuitKey,
-          failureCount: circuitState.failureCount,
+          circuit: operationName,
+          failureCount: state.failureCount,
           threshold: circuitConfig.failureThreshold,
-          nextAttemptTime: circuitState.nextAttemptTime
+          nextAttemptTime: state.nextAttemptTime
         });
       }
-      
-      this.circuitBreakers.set(circuitKey, circuitState);
       throw error;
     }
+
+    if (admission.probe) {
+      await this.store.update(operationName, () => ({ next: recordCallSuccess(true), result: null }));
+      this.logger.log(`Circuit breaker reset to CLOSED for ${operationName}`, {
+        correlationId,
+        circuit: operationName
+      });
+    }
+    return result;
   }
 
   async executeWithGracefulDegradation<T>(
@@ -277,30 +291,49 @@ export class EnhancedErrorHandlingService {
     });
   }
 
-  getCircuitBreakerState(circuitKey: string): CircuitBreakerState {
-    if (!this.circuitBreakers.has(circuitKey)) {
-      this.circuitBreakers.set(circuitKey, {
-        state: 'CLOSED',
-        failureCount: 0
-      });
+  async getCircuitBreakerState(circuit: string): Promise<CircuitBreakerState> {
+    return this.store.get(circuit);
+  }
+
+  /**
+   * Close a breaker by hand, e.g. once an outage is known to be over. False when the breaker does not exist.
+   */
+  async resetCircuitBreaker(circuit: string): Promise<boolean> {
+    const reset = await this.store.reset(circuit);
+    if (reset) {
+      this.logger.log(`Circuit breaker reset for ${circuit}`);
     }
-    
-    return this.circuitBreakers.get(circuitKey)!;
+    return reset;
   }
 
-  resetCircuitBreaker(circuitKey: string): void {
-    this.circuitBreakers.set(circuitKey, {
-      state: 'CLOSED',
-      failureCount: 0,
-      lastFailureTime: undefined,
-      nextAttemptTime: undefined
-    });
-    
-    this.logger.log(`Circuit breaker reset for ${circuitKey}`);
+  async getCircuitBreakerMetrics(): Promise<Record<string, CircuitBreakerState>> {
+    return this.store.list();
+  }
+
+  /**
+   * Count one retry against the provider's per-minute budget (RETRY_BUDGETS). False when the budget is spent
+   * and the caller should give up instead of retrying.
+   */
+  async consumeRetryBudget(provider: string): Promise<boolean> {
+    const allowed = await this.store.takeRetry(provider, this.retryBudgetFor(provider));
+    if (!allowed) {
+      metrics.retryBudgetExhausted.inc({ provider });
+    }
+    return allowed;
+  }
+
+  async getRetryBudgets(): Promise<Record<string, RetryBudgetUsage>> {
+    const names = Array.from(new Set([...RETRY_BUDGET_PROVIDERS, ...Object.keys(this.retryBudgets).filter(p => p !== 'default')])).sort();
+    const usage = await Promise.all(names.map(async provider => ({
+      provider,
+      limit: this.retryBudgetFor(provider),
+      used: await this.store.retriesUsed(provider),
+    })));
+    return Object.fromEntries(usage.map(({ provider, limit, used }) => [provider, { limit, used }]));
   }
 
-  getCircuitBreakerMetrics(): Record<string, CircuitBreakerState> {
-    return Object.fromEntries(this.circuitBreakers.entries());
+  private retryBudgetFor(provider: string): number {
+    return this.retryBudgets[provider] ?? this.retryBudgets.default;
   }
 
   private isRetryableError(error: Error, retryableErrors: string[]): boolean {
@@ -0,0 +1,494 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { DbService } from '../db.service';
+import { isValidTimeZone, nextOccurrences, parseInTimeZone } from './recurrence-rule';
+import { CadencePolicyService, CadenceViolationError } from './cadence-policy.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PLATFORMS = ['FACEBOOK', 'INSTAGRAM', 'LINKEDIN', 'YOUTUBE', 'GBP', 'WORDPRESS', 'MAIL'];
+const CONTENT_TYPES = ['BLOG', 'NEWSLETTER', 'SOCIAL'];
+
+// Feeds show recent history and everything ahead, up to a size calendar apps handle comfortably
+const FEED_HISTORY_DAYS = 90;
+const FEED_EVENT_LIMIT = 2000;
+// Events last this long in calendar apps; a post has no real duration
+const FEED_EVENT_MINUTES = 15;
+// UIDs of feed events end with this, so a feed imported back into the app is recognised
+const FEED_UID_DOMAIN = '@agent-bowery';
+
+const MAX_IMPORT_EVENTS = 200;
+const MAX_OCCURRENCES_PER_EVENT = 52;
+const IMPORT_HORIZON_DAYS = 365;
+// All-day events become posts at this local time
+const ALL_DAY_TIME = '09:00';
+
+export class CalendarImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarImportError';
+  }
+}
+
+export interface CalendarFeedSchedule {
+  id: string;
+  content_item_id: string;
+  platform: string;
+  scheduled_at: string | Date;
+  status: string;
+  target_account_name?: string | null;
+  error_message?: string | null;
+  updated_at?: string | Date | null;
+  title: string;
+  type: string;
+}
+
+export interface CalendarFeedFilters {
+  platforms?: string[];
+  targetAccountIds?: string[];
+}
+
+export interface CalendarImportOptions {
+  // Platforms for events without a platform category
+  platforms?: string[];
+  targetAccountIds?: string[];
+  // Timezone of floating and all-day events, unless the calendar names one
+  timezone?: string;
+}
+
+export interface CalendarImportResult {
+  imported: Array<{ eventKey: string; title: string; contentItemId: string; scheduleIds: string[]; scheduledAt: string; platforms: string[] }>;
+  skipped: Array<{ uid: string | null; title: string; reason: string }>;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarEvent {
+  properties: ContentLine[];
+}
+
+// Import input: one post per event occurrence
+interface ImportOccurrence {
+  eventKey: string;
+  uid: string | null;
+  title: string;
+  body: string;
+  categories: string[];
+  scheduledAt: Date;
+}
+
+// RFC 5545 TEXT escaping
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a UTF-8 character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function feedEventStatus(status: string): string {
+  if (status === 'draft') return 'TENTATIVE';
+  if (status === 'cancelled') return 'CANCELLED';
+  return 'CONFIRMED';
+}
+
+/**
+ * An iCalendar document with one event per schedule. Events are titled "<content title> [<platform>]" and carry
+ * the platform and content type as categories, and the platform, account and schedule status in the description.
+ */
+export function buildCalendarFeed(name: string, schedules: CalendarFeedSchedule[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Agent Bowery//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT15M',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+  ];
+  for (const schedule of schedules) {
+    const description = [
+      `Platform: ${schedule.platform}`,
+      schedule.target_account_name ? `Account: ${schedule.target_account_name}` : null,
+      `Status: ${schedule.status}`,
+      schedule.status === 'failed' && schedule.error_message ? `Error: ${schedule.error_message}` : null,
+      `Content: ${schedule.content_item_id}`,
+    ].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${schedule.id}${FEED_UID_DOMAIN}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(new Date(schedule.scheduled_at))}`,
+      `DURATION:PT${FEED_EVENT_MINUTES}M`,
+      `SUMMARY:${escapeText(`${schedule.title || 'Untitled'} [${schedule.platform}]`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${schedule.platform},${schedule.type}`,
+      `STATUS:${feedEventStatus(schedule.status)}`,
+      `X-BOWERY-STATUS:${schedule.status}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (schedule.updated_at) lines.push(`LAST-MODIFIED:${formatUtc(new Date(schedule.updated_at))}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":value
+function parseContentLine(line: string): ContentLine | null {
+  const nameMatch = /^[A-Za-z0-9-]+/.exec(line);
+  if (!nameMatch) return null;
+  const params: Record<string, string> = {};
+  let index = nameMatch[0].length;
+  while (line[index] === ';') {
+    const equals = line.indexOf('=', index);
+    if (equals === -1) return null;
+    const key = line.slice(index + 1, equals).toUpperCase();
+    index = equals + 1;
+    let value = '';
+    if (line[index] === '"') {
+      const close = line.indexOf('"', index + 1);
+      if (close === -1) return null;
+      value = line.slice(index + 1, close);
+      index = close + 1;
+    } else {
+      while (index < line.length && line[index] !== ';' && line[index] !== ':') value += line[index++];
+    }
+    params[key] = value;
+  }
+  if (line[index] !== ':') return null;
+  return { name: nameMatch[0].toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+// Top-level VEVENTs and the calendar's own properties; nested components such as VALARM are ignored
+export function parseCalendar(ics: string): { properties: ContentLine[]; events: CalendarEvent[] } {
+  const lines = ics.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0 || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new CalendarImportError('Not an iCalendar file: expected BEGIN:VCALENDAR');
+  }
+  const properties: ContentLine[] = [];
+  const events: CalendarEvent[] = [];
+  const stack: string[] = [];
+  let event: CalendarEvent | null = null;
+  for (const raw of lines) {
+    const line = parseContentLine(raw.trim());
+    if (!line) continue;
+    if (line.name === 'BEGIN') {
+      const component = line.value.toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT' && stack.length === 2) event = { properties: [] };
+    } else if (line.name === 'END') {
+      if (stack.pop() === 'VEVENT' && stack.length === 1 && event) {
+        events.push(event);
+        event = null;
+      }
+    } else if (event && stack.length === 2) {
+      event.properties.push(line);
+    } else if (stack.length === 1) {
+      properties.push(line);
+    }
+  }
+  return { properties, events };
+}
+
+function property(event: CalendarEvent, name: string): ContentLine | undefined {
+  return event.properties.find(p => p.name === name);
+}
+
+// DATE or DATE-TIME values as the local time recurrence rules expand from, and the timezone it is in
+function resolveDateTime(line: ContentLine, defaultTimezone: string): { local: string; timezone: string; instant: Date } {
+  const value = line.value.trim();
+  const allDay = line.params.VALUE === 'DATE' || /^\d{8}$/.test(value);
+  let local = allDay ? `${value}T${ALL_DAY_TIME.replace(':', '')}00` : value;
+  let timezone = defaultTimezone;
+  if (!allDay && value.endsWith('Z')) {
+    local = value.slice(0, -1);
+    timezone = 'UTC';
+  } else if (!allDay && line.params.TZID) {
+    timezone = line.params.TZID.replace(/^\//, '');
+    if (!isValidTimeZone(timezone)) {
+      throw new CalendarImportError(`Unknown timezone "${timezone}"`);
+    }
+  }
+  const instant = parseInTimeZone(local, timezone);
+  if (!instant) {
+    throw new CalendarImportError(`Invalid ${line.name} "${value}"`);
+  }
+  return { local, timezone, instant };
+}
+
+function eventCategories(event: CalendarEvent): string[] {
+  return event.properties
+    .filter(p => p.name === 'CATEGORIES')
+    .flatMap(p => p.value.split(/(?<!\\),/))
+    .map(category => unescapeText(category).trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/**
+ * The future occurrences of a calendar's events within the import horizon. Recurring events are expanded with
+ * their RRULE and EXDATEs; an event with a RECURRENCE-ID replaces that occurrence of its series.
+ */
+export function calendarOccurrences(
+  ics: string,
+  defaultTimezone: string,
+  now: Date = new Date(),
+): { occurrences: ImportOccurrence[]; skipped: CalendarImportResult['skipped'] } {
+  const { properties, events } = parseCalendar(ics);
+  const calendarTimezone = properties.find(p => p.name === 'X-WR-TIMEZONE')?.value.trim();
+  const timezone = calendarTimezone && isValidTimeZone(calendarTimezone) ? calendarTimezone : defaultTimezone;
+  const horizon = now.getTime() + IMPORT_HORIZON_DAYS * DAY_MS;
+  const occurrences: ImportOccurrence[] = [];
+  const skipped: CalendarImportResult['skipped'] = [];
+
+  // Occurrences moved or cancelled by an override, per series UID
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    const uid = property(event, 'UID')?.value.trim();
+    const recurrenceId = property(event, 'RECURRENCE-ID');
+    if (!uid || !recurrenceId) continue;
+    try {
+      const { instant } = resolveDateTime(recurrenceId, timezone);
+      overridden.set(uid, (overridden.get(uid) || new Set()).add(instant.getTime()));
+    } catch {
+      // Reported when the override itself is processed
+    }
+  }
+
+  for (const event of events) {
+    const uid = property(event, 'UID')?.value.trim() || null;
+    const title = unescapeText(property(event, 'SUMMARY')?.value || '').trim() || 'Untitled event';
+    const skip = (reason: string) => skipped.push({ uid, title, reason });
+    if (uid?.endsWith(FEED_UID_DOMAIN)) {
+      skip('Event comes from an Agent Bowery feed');
+      continue;
+    }
+    if (property(event, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+      skip('Event is cancelled');
+      continue;
+    }
+    const dtstart = property(event, 'DTSTART');
+    if (!dtstart) {
+      skip('Event has no DTSTART');
+      continue;
+    }
+
+    try {
+      const start = resolveDateTime(dtstart, timezone);
+      const base = {
+        uid,
+        title,
+        body: unescapeText(property(event, 'DESCRIPTION')?.value || ''),
+        categories: eventCategories(event),
+      };
+      // Events without a UID are keyed by their content, which is stable across exports of the same calendar
+      const key = uid || crypto.createHash('sha256').update(`${title}|${dtstart.value}`).digest('hex');
+      const recurrenceId = property(event, 'RECURRENCE-ID');
+      const rrule = property(event, 'RRULE');
+
+      let instants: Date[];
+      if (recurrenceId) {
+        const original = resolveDateTime(recurrenceId, timezone).instant;
+        if (start.instant.getTime() <= now.getTime() || start.instant.getTime() > horizon) {
+          skip('Event is not in the coming year');
+          continue;
+        }
+        occurrences.push({ ...base, eventKey: `${key}@${original.toISOString()}`, scheduledAt: start.instant });
+        continue;
+      } else if (rrule) {
+        const exdates = event.properties
+          .filter(p => p.name === 'EXDATE')
+          .flatMap(p => p.value.split(',').map(value => {
+            // Whole-day exceptions skip every occurrence on that local date
+            if (p.params.VALUE === 'DATE' || /^\d{8}$/.test(value.trim())) return value.trim();
+            return resolveDateTime({ ...p, value }, timezone).instant.toISOString();
+          }));
+        const moved = overridden.get(key) || new Set<number>();
+        instants = nextOccurrences(
+          { rrule: rrule.value, dtstart: start.local, timezone: start.timezone, exdates },
+          now,
+          MAX_OCCURRENCES_PER_EVENT,
+        ).filter(instant => instant.getTime() <= horizon && !moved.has(instant.getTime()));
+        for (const instant of instants) {
+          occurrences.push({ ...base, eventKey: `${key}@${instant.toISOString()}`, scheduledAt: instant });
+        }
+      } else {
+        instants = start.instant.getTime() > now.getTime() && start.instant.getTime() <= horizon ? [start.instant] : [];
+        if (instants.length > 0) occurrences.push({ ...base, eventKey: key, scheduledAt: start.instant });
+      }
+      if (instants.length === 0) skip('Event is not in the coming year');
+    } catch (error) {
+      // Malformed dates, unknown timezones and unsupported recurrence rules skip the event, not the file
+      skip((error instanceof Error && error.message) || 'Event could not be read');
+    }
+  }
+  occurrences.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  return { occurrences, skipped };
+}
+
+// The target account fields an imported draft schedule is created with
+type ImportTargetAccount = NonNullable<Parameters<DbService['importCalendarEvent']>[0]['schedules'][number]['targetAccount']> & {
+  platform: string;
+};
+
+function defaultContentType(platforms: string[]): string {
+  if (platforms.length > 0 && platforms.every(p => p === 'WORDPRESS')) return 'BLOG';
+  if (platforms.length > 0 && platforms.every(p => p === 'MAIL')) return 'NEWSLETTER';
+  return 'SOCIAL';
+}
+
+@Injectable()
+export class ICalendarService {
+  constructor(
+    private readonly db: DbService,
+    private readonly cadencePolicies: CadencePolicyService,
+  ) {}
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static feedUrl(token: string): string {
+    const base = (process.env.API_BASE_URL || 'http://localhost:44000').replace(/\/+$/, '');
+    return `${base}/calendar/ics/${token}.ics`;
+  }
+
+  // The token is returned here only; the database keeps its hash
+  async createFeed(organizationId: string, name: string, createdBy: string | null) {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const feed = await this.db.createCalendarFeed({ organizationId, name, tokenHash: ICalendarService.hashToken(token), createdBy });
+    return { feed, token, url: ICalendarService.feedUrl(token) };
+  }
+
+  async listFeeds(organizationId: string) {
+    return this.db.listCalendarFeeds(organizationId);
+  }
+
+  async revokeFeed(organizationId: string, feedId: string): Promise<boolean> {
+    return this.db.revokeCalendarFeed(feedId, organizationId);
+  }
+
+  // Null for unknown and revoked tokens
+  async renderFeed(token: string, filters: CalendarFeedFilters, now: Date = new Date()): Promise<string | null> {
+    const feed = await this.db.useCalendarFeed(ICalendarService.hashToken(token));
+    if (!feed) return null;
+    const schedules = await this.db.getCalendarFeedSchedules(feed.organization_id, {
+      since: new Date(now.getTime() - FEED_HISTORY_DAYS * DAY_MS),
+      platforms: filters.platforms,
+      targetAccountIds: filters.targetAccountIds,
+      limit: FEED_EVENT_LIMIT,
+    });
+    return buildCalendarFeed(feed.name, schedules, now);
+  }
+
+  /**
+   * Create a draft content item per future event occurrence, with a draft schedule per platform (and target
+   * account). Platforms come from the event's categories, or the options when it has none. The drafts are not
+   * published until the content is approved; events imported before are skipped.
+   */
+  async importCalendar(organizationId: string, authorId: string, ics: string, options: CalendarImportOptions = {}, now: Date = new Date()): Promise<CalendarImportResult> {
+    const timezone = options.timezone || 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      throw new CalendarImportError(`Unknown timezone "${timezone}"`);
+    }
+    const defaultPlatforms = (options.platforms || []).map(p => String(p).toUpperCase());
+    const unknown = defaultPlatforms.filter(p => !PLATFORMS.includes(p));
+    if (unknown.length > 0) {
+      throw new CalendarImportError(`Unknown platform ${unknown.join(', ')}; use one of ${PLATFORMS.join(', ')}`);
+    }
+    const accounts: ImportTargetAccount[] = [];
+    for (const id of Array.from(new Set(options.targetAccountIds || []))) {
+      const account = await this.db.getTargetAccount(id, organizationId) as (ImportTargetAccount & { is_active: boolean }) | null;
+      if (!account) throw new CalendarImportError(`Target account not found: ${id}`);
+      if (!account.is_active) throw new CalendarImportError(`Target account "${account.account_name}" is disconnected`);
+      accounts.push(account);
+    }
+
+    const { occurrences, skipped } = calendarOccurrences(ics, timezone, now);
+    const result: CalendarImportResult = { imported: [], skipped };
+    for (const occurrence of occurrences) {
+      const skip = (reason: string) => skipped.push({ uid: occurrence.uid, title: occurrence.title, reason });
+      if (result.imported.length >= MAX_IMPORT_EVENTS) {
+        skip(`Only ${MAX_IMPORT_EVENTS} events are imported at a time`);
+        continue;
+      }
+      const categorized = occurrence.categories.filter(c => PLATFORMS.includes(c));
+      const platforms = categorized.length > 0 ? [...new Set(categorized)] : defaultPlatforms;
+      if (platforms.length === 0) {
+        skip(`No platform: add a category such as LINKEDIN to the event or choose default platforms`);
+        continue;
+      }
+      const type = occurrence.categories.find(c => CONTENT_TYPES.includes(c)) || defaultContentType(platforms);
+      const schedules: Parameters<DbService['importCalendarEvent']>[0]['schedules'] = platforms.flatMap(platform => {
+        const targets = accounts.filter(account => account.platform === platform);
+        return targets.length > 0
+          ? targets.map(targetAccount => ({ platform, scheduledAt: occurrence.scheduledAt, targetAccount }))
+          : [{ platform, scheduledAt: occurrence.scheduledAt }];
+      });
+
+      // Drafts count against the posting cadence, so an event whose time the cadence blocks is not imported
+      let created;
+      try {
+        created = await this.cadencePolicies.enforceAndCreate(
+          organizationId,
+          schedules.map(schedule => ({ platform: schedule.platform, scheduledAt: schedule.scheduledAt, targetAccountId: schedule.targetAccount?.id || null })),
+          false,
+          () => this.db.importCalendarEvent({
+            organizationId,
+            eventKey: occurrence.eventKey,
+            title: occurrence.title,
+            type,
+            body: occurrence.body,
+            authorId,
+            schedules,
+          }),
+        );
+      } catch (error) {
+        if (!(error instanceof CadenceViolationError)) throw error;
+        skip(error.message);
+        continue;
+      }
+      if (!created) {
+        skip('Event was imported before');
+        continue;
+      }
+      result.imported.push({
+        eventKey: occurrence.eventKey,
+        title: occurrence.title,
+        contentItemId: created.contentItemId,
+        scheduleIds: created.scheduleIds,
+        scheduledAt: occurrence.scheduledAt.toISOString(),
+        platforms,
+      });
+    }
+    return result;
+  }
+}
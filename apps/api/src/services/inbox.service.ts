@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService, InboxConversationRow, MessageRow } from '../db.service';
+import { TokenService } from '../token.service';
+import { MetaClientService } from '../platforms/meta/meta-client.service';
+import { LinkedInClientService } from '../platforms/linkedin/linkedin-client.service';
+
+export type ConversationStatus = 'active' | 'archived' | 'spam';
+
+export const CONVERSATION_STATUSES: ConversationStatus[] = ['active', 'archived', 'spam'];
+
+export interface InboxFilters {
+  status?: string;
+  platform?: string;
+  // A user id, or null for unassigned conversations
+  assignedTo?: string | null;
+  unreadOnly?: boolean;
+  search?: string;
+}
+
+export class InboxValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboxValidationError';
+  }
+}
+
+/**
+ * The platform rejected or could not be reached for a reply; the reply is kept as a failed outbound message
+ */
+export class InboxDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboxDeliveryError';
+  }
+}
+
+const MAX_REPLY_LENGTH = 8000;
+
+@Injectable()
+export class InboxService {
+  private readonly logger = new Logger(InboxService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly tokenService: TokenService,
+    private readonly metaClient: MetaClientService,
+    private readonly linkedinClient: LinkedInClientService,
+  ) {}
+
+  async listConversations(organizationId: string, filters: InboxFilters, page: number, limit: number) {
+    const { conversations, total } = await this.dbService.getInboxConversations(organizationId, filters, page, limit);
+    return { conversations: conversations.map(toConversation), total };
+  }
+
+  async getConversation(organizationId: string, conversationId: string, options: { limit?: number; before?: Date } = {}) {
+    const conversation = await this.dbService.getInboxConversation(conversationId, organizationId);
+    if (!conversation) return null;
+    const messages = await this.dbService.getConversationMessages(conversationId, organizationId, options.limit || 50, options.before);
+    return {
+      conversation: toConversation(conversation),
+      // Fetched newest first for paging; shown oldest first
+      messages: messages.reverse().map(toMessage),
+    };
+  }
+
+  async markRead(organizationId: string, conversationId: string) {
+    return this.dbService.markConversationRead(conversationId, organizationId);
+  }
+
+  async updateConversation(organizationId: string, conversationId: string, updates: { status?: string; assignedTo?: string | null }) {
+    if (updates.status !== undefined && !CONVERSATION_STATUSES.includes(updates.status as ConversationStatus)) {
+      throw new InboxValidationError(`Invalid status. Must be one of ${CONVERSATION_STATUSES.join(', ')}`);
+    }
+    const row = await this.dbService.updateConversation(conversationId, organizationId, updates);
+    return row ? toConversation(row) : null;
+  }
+
+  /**
+   * Post a reply back to the platform the conversation came from. The reply is recorded as a pending outbound
+   * message first, so one the platform accepted is kept even if settling it fails.
+   */
+  async reply(organizationId: string, conversationId: string, body: string, userId?: string, extraMetadata: Record<string, unknown> = {}) {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) {
+      throw new InboxValidationError('message is required');
+    }
+    if (text.length > MAX_REPLY_LENGTH) {
+      throw new InboxValidationError(`message must be at most ${MAX_REPLY_LENGTH} characters`);
+    }
+
+    const conversation = await this.dbService.getInboxConversation(conversationId, organizationId);
+    if (!conversation) return null;
+    if (!supportsReply(conversation.platform, conversation.kind)) {
+      throw new InboxValidationError(`Replying to ${conversation.platform} ${conversation.kind}s is not supported`);
+    }
+
+    const dryRun = process.env.DRY_RUN === 'true';
+    const metadata: Record<string, unknown> = dryRun ? { ...extraMetadata, dryRun: true } : { ...extraMetadata };
+    const pending = await this.dbService.recordOutboundMessage(conversationId, { body: text, sentBy: userId, metadata });
+
+    let externalId: string | null = null;
+    if (dryRun) {
+      this.logger.log(`[DRY_RUN] ${conversation.platform} reply to ${conversation.id} skipped`);
+    } else {
+      try {
+        externalId = await this.deliver(organizationId, conversation, text);
+      } catch (error) {
+        await this.dbService.failOutboundMessage(pending.id, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
+    }
+
+    const message = await this.dbService.completeOutboundMessage(pending.id, externalId);
+    return toMessage(message || pending);
+  }
+
+  private async deliver(organizationId: string, conversation: InboxConversationRow, text: string): Promise<string | null> {
+    const { platform, kind } = conversation;
+
+    if ((platform === 'FACEBOOK' || platform === 'INSTAGRAM') && (kind === 'comment' || kind === 'message')) {
+      const pageToken = await this.resolvePageToken(organizationId, platform, String(conversation.account_external_id));
+
+      let result;
+      if (kind === 'message') {
+        // Direct message threads are keyed `${accountId}:${senderId}`
+        const recipientId = String(conversation.external_id).slice(String(conversation.account_external_id).length + 1);
+        result = await this.metaClient.sendMessage(pageToken, recipientId, text);
+      } else if (platform === 'INSTAGRAM') {
+        result = await this.metaClient.replyToInstagramComment(conversation.external_id, pageToken, text);
+      } else {
+        result = await this.metaClient.replyToComment(conversation.external_id, pageToken, text);
+      }
+      if (!result.success) throw new InboxDeliveryError(result.error || `${platform} rejected the reply`);
+      return result.id || null;
+    }
+
+    if (platform === 'LINKEDIN' && kind === 'comment') {
+      const metadata = conversation.metadata || {};
+      const postUrn = typeof metadata.sourcePost === 'string' ? metadata.sourcePost : undefined;
+      const commentUrn = typeof metadata.commentUrn === 'string' ? metadata.commentUrn : conversation.external_id;
+      if (!postUrn) throw new InboxDeliveryError('LinkedIn conversation has no source post to reply on');
+      const account = String(conversation.account_external_id);
+      const actorUrn = account.startsWith('urn:') ? account : `urn:li:organization:${account}`;
+      const accessToken = await this.resolveCompanyToken(organizationId, actorUrn.slice('urn:li:organization:'.length));
+
+      const result = await this.linkedinClient.replyToComment(postUrn, commentUrn, accessToken, text, actorUrn);
+      if (!result.success) throw new InboxDeliveryError(result.error || 'LinkedIn rejected the reply');
+      return result.id || null;
+    }
+
+    throw new InboxValidationError(`Replying to ${platform} ${kind}s is not supported`);
+  }
+
+  // Replies are made as the page, so the user token is exchanged for the token of the page owning the account
+  // The page token of the account the conversation belongs to: its own connection, or the Meta connection managing it
+  private async resolvePageToken(organizationId: string, platform: string, accountId: string): Promise<string> {
+    const own = await this.tokenService.getAccountAccessToken(organizationId, platform, accountId);
+    if (own && platform === 'INSTAGRAM') return own.accessToken;
+    if (own) {
+      // A user connection is stored under its first page; exchange its user token for that page's token
+      const pages = await this.metaClient.getUserPages(own.accessToken).catch(() => []);
+      return pages.find(p => p.id === accountId)?.accessToken || own.accessToken;
+    }
+
+    const pageToken = await this.tokenService.findConnectedAccount(organizationId, 'FACEBOOK', async connection => {
+      for (const page of await this.metaClient.getUserPages(connection.accessToken)) {
+        if (platform === 'FACEBOOK' && page.id === accountId) return page.accessToken;
+        if (platform === 'INSTAGRAM') {
+          const accounts = await this.metaClient.getInstagramAccounts(page.accessToken, page.id);
+          if (accounts.some(a => a.id === accountId)) return page.accessToken;
+        }
+      }
+      return null;
+    });
+    if (!pageToken) {
+      throw new InboxDeliveryError(`No connected ${platform === 'INSTAGRAM' ? 'Instagram account' : 'Facebook page'} ${accountId}`);
+    }
+    return pageToken;
+  }
+
+  // A token of a member administering the company: the company's own connection, or the LinkedIn connection whose member does
+  private async resolveCompanyToken(organizationId: string, companyId: string): Promise<string> {
+    const own = await this.tokenService.getAccountAccessToken(organizationId, 'LINKEDIN', companyId);
+    if (own) return own.accessToken;
+    const accessToken = await this.tokenService.findConnectedAccount(organizationId, 'LINKEDIN', async connection => {
+      const companies = await this.linkedinClient.getUserCompanies(connection.accessToken);
+      return companies.some(c => String(c.id) === companyId) ? connection.accessToken : null;
+    });
+    if (!accessToken) throw new InboxDeliveryError(`No connected LinkedIn account administers company ${companyId}`);
+    return accessToken;
+  }
+}
+
+function toConversation(row: InboxConversationRow) {
+  return {
+    id: row.id,
+    platform: row.platform,
+    kind: row.kind,
+    externalId: row.external_id,
+    status: row.status,
+    assignedTo: row.assigned_to,
+    assignedAt: row.assigned_at,
+    unreadCount: row.unread_count || 0,
+    lastMessageAt: row.last_message_at,
+    lastReadAt: row.last_read_at,
+    lead: {
+      id: row.lead_id,
+      name: row.lead_name,
+      email: row.lead_email,
+      score: row.lead_score,
+      status: row.lead_status,
+      tags: row.lead_tags || [],
+    },
+    participants: [{ id: row.lead_external_ref || row.lead_id, name: row.lead_name }],
+    lastMessage: row.last_message_id ? {
+      id: row.last_message_id,
+      content: row.last_message_body,
+      direction: row.last_message_direction,
+      authorName: row.last_message_author,
+      sentAt: row.last_message_sent_at,
+    } : null,
+    createdAt: row.created_at,
+  };
+}
+
+function supportsReply(platform: string, kind: string): boolean {
+  return ((platform === 'FACEBOOK' || platform === 'INSTAGRAM') && (kind === 'comment' || kind === 'message'))
+    || (platform === 'LINKEDIN' && kind === 'comment');
+}
+
+function toMessage(row: MessageRow) {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    direction: row.direction,
+    isIncoming: row.direction === 'inbound',
+    content: row.body,
+    author: row.direction === 'inbound' ? { id: row.author_external_id, name: row.author_name } : null,
+    sentBy: row.sent_by,
+    sentAt: row.sent_at,
+    externalId: row.external_id,
+    // pending, sent or failed for outbound replies; null for inbound messages
+    deliveryStatus: row.delivery_status || null,
+    deliveryError: row.delivery_error || null,
+    metadata: row.metadata || {},
+  };
+}
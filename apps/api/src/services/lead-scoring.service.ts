@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService } from '../db.service';
+import { QualityService } from './quality.service';
+import { normalizeForSentiment } from './auto-reply-rules';
+import { LeadScoringConfig, computeLeadScore, mergeScoringConfig } from './lead-scoring';
+
+@Injectable()
+export class LeadScoringService {
+  private readonly logger = new Logger(LeadScoringService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly qualityService: QualityService,
+  ) {}
+
+  async getModel(organizationId: string): Promise<LeadScoringConfig> {
+    const row = await this.dbService.getLeadScoringModel(organizationId);
+    return mergeScoringConfig(row?.config);
+  }
+
+  /**
+   * Store model overrides (validated against the defaults) and return the effective model
+   */
+  async updateModel(organizationId: string, overrides: Record<string, unknown>): Promise<LeadScoringConfig> {
+    const model = mergeScoringConfig(overrides);
+    await this.dbService.upsertLeadScoringModel(organizationId, overrides);
+    return model;
+  }
+
+  /**
+   * Recompute one lead's score from its inbound messages. Merged leads score their primary instead.
+   */
+  async scoreLead(organizationId: string, leadId: string, model?: LeadScoringConfig) {
+    let signals = await this.dbService.getLeadScoringSignals(leadId, organizationId);
+    if (signals?.lead.merged_into_id) {
+      signals = await this.dbService.getLeadScoringSignals(signals.lead.merged_into_id, organizationId);
+    }
+    if (!signals) return null;
+
+    const config = model || (await this.getModel(organizationId));
+    const { score, breakdown } = computeLeadScore(
+      signals.lead.source,
+      signals.messages.map(m => ({
+        body: m.body || '',
+        sentAt: new Date(m.sent_at),
+        sentimentScore: this.qualityService.computeSentimentScore(normalizeForSentiment(m.body || '')),
+      })),
+      config,
+    );
+    await this.dbService.updateLeadScore(signals.lead.id, score, breakdown);
+    return { leadId: signals.lead.id, score, breakdown };
+  }
+
+  /**
+   * Re-score every active lead of an organization, e.g. after changing the model or to apply decay
+   */
+  async recomputeAll(organizationId: string) {
+    const model = await this.getModel(organizationId);
+    const leadIds = await this.dbService.getActiveLeadIds(organizationId);
+    let scored = 0;
+    let failed = 0;
+    for (const leadId of leadIds) {
+      try {
+        await this.scoreLead(organizationId, leadId, model);
+        scored++;
+      } catch (error) {
+        failed++;
+        this.logger.error(`Failed to score lead ${leadId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    this.logger.log(`Recomputed ${scored} lead scores for ${organizationId}${failed ? ` (${failed} failed)` : ''}`);
+    return { total: leadIds.length, scored, failed };
+  }
+}
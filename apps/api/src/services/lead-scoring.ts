@@ -0,0 +1,167 @@
+/**
+ * Lead scoring model: engagement points from inbound messages (count, sentiment and buying-intent keywords)
+ * that decay with message age, plus fixed points for the lead's source platform. Scores are clamped to 0-100.
+ */
+
+import { classifySentiment, containsPhrase } from './auto-reply-rules';
+
+export interface LeadScoringConfig {
+  // Points per inbound message, up to maxMessagePoints
+  messagePoints: number;
+  maxMessagePoints: number;
+  // Points per positive / negative message (use a negative number to penalise)
+  sentimentPoints: { positive: number; negative: number };
+  // Buying-intent phrases; each counts once per lead, up to maxIntentPoints
+  intentKeywords: Record<string, number>;
+  maxIntentPoints: number;
+  // Points by lead source (platform name or 'manual')
+  sourcePoints: Record<string, number>;
+  // Engagement from a message this many days old counts half; 0 disables decay
+  decayHalfLifeDays: number;
+}
+
+export interface ScoringMessage {
+  body: string;
+  sentAt: Date;
+  // QualityService sentiment score: 0-100, 50 is neutral
+  sentimentScore: number;
+}
+
+export interface LeadScoreBreakdown {
+  messages: number;
+  sentiment: number;
+  intent: number;
+  source: number;
+  matchedIntents: string[];
+}
+
+export class LeadScoringConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadScoringConfigError';
+  }
+}
+
+export const DEFAULT_LEAD_SCORING: LeadScoringConfig = {
+  messagePoints: 5,
+  maxMessagePoints: 30,
+  sentimentPoints: { positive: 5, negative: -5 },
+  intentKeywords: {
+    pricing: 20,
+    price: 15,
+    'how much': 15,
+    cost: 10,
+    demo: 25,
+    trial: 15,
+    quote: 25,
+    buy: 20,
+    purchase: 20,
+  },
+  maxIntentPoints: 50,
+  sourcePoints: { LINKEDIN: 10, FACEBOOK: 5, INSTAGRAM: 5, GBP: 5, manual: 0 },
+  decayHalfLifeDays: 30,
+};
+
+/**
+ * Apply an organization's overrides on top of the defaults, validating every number
+ */
+export function mergeScoringConfig(value: unknown): LeadScoringConfig {
+  const config = JSON.parse(JSON.stringify(DEFAULT_LEAD_SCORING)) as LeadScoringConfig;
+  if (!value) return config;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new LeadScoringConfigError('Scoring model must be an object');
+  }
+  const overrides = value as { [K in keyof LeadScoringConfig]?: unknown };
+
+  for (const field of ['messagePoints', 'maxMessagePoints', 'maxIntentPoints', 'decayHalfLifeDays'] as const) {
+    if (overrides[field] !== undefined) config[field] = toNumber(overrides[field], field, 0);
+  }
+  if (overrides.sentimentPoints !== undefined) {
+    const sentimentPoints = overrides.sentimentPoints as { positive?: unknown; negative?: unknown } | null;
+    for (const key of ['positive', 'negative'] as const) {
+      if (sentimentPoints?.[key] !== undefined) {
+        config.sentimentPoints[key] = toNumber(sentimentPoints[key], `sentimentPoints.${key}`);
+      }
+    }
+  }
+  // Keyword and source maps replace the defaults entirely so entries can be removed
+  if (overrides.intentKeywords !== undefined) {
+    config.intentKeywords = toPointMap(overrides.intentKeywords, 'intentKeywords', key => key.trim().toLowerCase());
+  }
+  if (overrides.sourcePoints !== undefined) {
+    config.sourcePoints = toPointMap(overrides.sourcePoints, 'sourcePoints', key => key.trim());
+  }
+  return config;
+}
+
+export function computeLeadScore(
+  source: string,
+  messages: ScoringMessage[],
+  config: LeadScoringConfig,
+  now: Date = new Date(),
+): { score: number; breakdown: LeadScoreBreakdown } {
+  let messagePoints = 0;
+  let sentimentPoints = 0;
+  // Best (least decayed) weight per matched intent keyword
+  const intentWeights = new Map<string, number>();
+
+  for (const message of messages) {
+    const weight = decayWeight(message.sentAt, now, config.decayHalfLifeDays);
+    messagePoints += config.messagePoints * weight;
+
+    const sentiment = classifySentiment(message.sentimentScore);
+    if (sentiment !== 'neutral') sentimentPoints += config.sentimentPoints[sentiment] * weight;
+
+    for (const keyword of Object.keys(config.intentKeywords)) {
+      if (containsPhrase(message.body, keyword)) {
+        intentWeights.set(keyword, Math.max(intentWeights.get(keyword) || 0, weight));
+      }
+    }
+  }
+
+  let intentPoints = 0;
+  for (const [keyword, weight] of intentWeights) {
+    intentPoints += config.intentKeywords[keyword] * weight;
+  }
+
+  const breakdown: LeadScoreBreakdown = {
+    messages: round(Math.min(messagePoints, config.maxMessagePoints)),
+    sentiment: round(sentimentPoints),
+    intent: round(Math.min(intentPoints, config.maxIntentPoints)),
+    source: config.sourcePoints[source] ?? 0,
+    matchedIntents: Array.from(intentWeights.keys()),
+  };
+  const total = breakdown.messages + breakdown.sentiment + breakdown.intent + breakdown.source;
+  return { score: Math.max(0, Math.min(100, Math.round(total))), breakdown };
+}
+
+function decayWeight(sentAt: Date, now: Date, halfLifeDays: number): number {
+  if (!halfLifeDays) return 1;
+  const ageDays = Math.max(0, (now.getTime() - sentAt.getTime()) / 86400000);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toNumber(value: unknown, field: string, min?: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || (min !== undefined && number < min)) {
+    throw new LeadScoringConfigError(`${field} must be a number${min !== undefined ? ` >= ${min}` : ''}`);
+  }
+  return number;
+}
+
+function toPointMap(value: unknown, field: string, normalizeKey: (key: string) => string): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new LeadScoringConfigError(`${field} must be an object of points`);
+  }
+  const map: Record<string, number> = {};
+  for (const [key, points] of Object.entries(value)) {
+    const normalized = normalizeKey(key);
+    if (!normalized) continue;
+    map[normalized] = toNumber(points, `${field}.${key}`);
+  }
+  return map;
+}
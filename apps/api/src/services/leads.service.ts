@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService, LeadRow } from '../db.service';
+
+export type LeadStatus = 'new' | 'contacted' | 'qualified' | 'converted' | 'archived';
+export type LeadPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'qualified', 'converted', 'archived'];
+export const LEAD_PRIORITIES: LeadPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export interface LeadInput {
+  name?: string;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  title?: string | null;
+  source?: string;
+  status?: LeadStatus;
+  score?: number;
+  tags?: string[];
+  notes?: string | null;
+  priority?: LeadPriority;
+  assignedTo?: string | null;
+  estimatedValue?: number | null;
+  lastContact?: string | null;
+  nextFollowUp?: string | null;
+  customFields?: Record<string, unknown>;
+}
+
+export interface LeadFilters {
+  status?: string;
+  source?: string;
+  minScore?: number;
+  maxScore?: number;
+  assignedTo?: string;
+  search?: string;
+}
+
+export class LeadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeadValidationError';
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+@Injectable()
+export class LeadsService {
+  private readonly logger = new Logger(LeadsService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  async listLeads(organizationId: string, filters: LeadFilters, page: number, limit: number, sort?: 'created_at' | 'updated_at' | 'score') {
+    const { leads, total } = await this.dbService.getLeads(organizationId, filters, page, limit, sort);
+    return { leads: leads.map(toLead), total };
+  }
+
+  async getLead(organizationId: string, id: string) {
+    let lead = await this.dbService.getLead(id, organizationId);
+    // Requests for a merged lead resolve to the lead it was merged into (merges never chain, see mergeLeads)
+    if (lead?.merged_into_id) {
+      lead = await this.dbService.getLead(lead.merged_into_id, organizationId);
+    }
+    return lead ? toLead(lead) : null;
+  }
+
+  async createLead(organizationId: string, input: LeadInput) {
+    const data = normalizeLeadInput(input);
+    if (!data.name && !data.email && !data.phone) {
+      throw new LeadValidationError('A lead needs at least a name, email or phone');
+    }
+    const row = await this.dbService.createLead(organizationId, { source: 'manual', ...data });
+    return toLead(row);
+  }
+
+  async updateLead(organizationId: string, id: string, input: LeadInput) {
+    const row = await this.dbService.updateLead(id, organizationId, normalizeLeadInput(input));
+    return row ? toLead(row) : null;
+  }
+
+  async deleteLead(organizationId: string, id: string) {
+    return this.dbService.deleteLead(id, organizationId);
+  }
+
+  async getConversations(organizationId: string, leadId: string) {
+    const rows = await this.dbService.getLeadConversations(leadId, organizationId);
+    return rows.map(c => ({
+      id: c.id,
+      platform: c.platform,
+      kind: c.kind,
+      externalId: c.external_id,
+      messageCount: c.message_count,
+      lastMessage: c.last_message,
+      lastMessageAt: c.last_message_at,
+      createdAt: c.created_at,
+    }));
+  }
+
+  async linkConversation(organizationId: string, leadId: string, conversationId: string) {
+    return this.dbService.linkConversationToLead(conversationId, leadId, organizationId);
+  }
+
+  async findDuplicates(organizationId: string) {
+    const groups = await this.dbService.findDuplicateLeadGroups(organizationId);
+    return groups.map(g => ({ matchOn: g.match_on, value: g.match_value, leadIds: g.lead_ids }));
+  }
+
+  async mergeLeads(organizationId: string, primaryId: string, duplicateIds: string[]) {
+    const ids = Array.from(new Set((duplicateIds || []).filter(id => id && id !== primaryId)));
+    if (!primaryId || ids.length === 0) {
+      throw new LeadValidationError('primaryId and at least one other duplicateId are required');
+    }
+    const result = await this.dbService.mergeLeads(organizationId, primaryId, ids);
+    if (!result) return null;
+    this.logger.log(`Merged leads ${result.mergedIds.join(', ')} into ${primaryId}`);
+    return { lead: toLead(result.lead), mergedIds: result.mergedIds };
+  }
+
+  /**
+   * Merge every group of leads sharing an email or phone into its oldest lead
+   */
+  async mergeAllDuplicates(organizationId: string) {
+    const merges: Array<{ primaryId: string; mergedIds: string[]; matchOn: string }> = [];
+    const consumed = new Set<string>();
+
+    for (const group of await this.dbService.findDuplicateLeadGroups(organizationId)) {
+      // A lead matching on both email and phone may already have been merged by an earlier group
+      const ids = group.lead_ids.filter(id => !consumed.has(id));
+      if (ids.length < 2) continue;
+      const [primaryId, ...duplicateIds] = ids;
+      const result = await this.dbService.mergeLeads(organizationId, primaryId, duplicateIds);
+      if (!result) continue;
+      result.mergedIds.forEach(id => consumed.add(id));
+      merges.push({ primaryId, mergedIds: result.mergedIds, matchOn: group.match_on });
+    }
+
+    return merges;
+  }
+}
+
+/**
+ * Validate and normalize client input; emails are lower-cased and phones reduced to digits (keeping a leading +)
+ * so duplicates can be matched.
+ */
+export function normalizeLeadInput(input: LeadInput): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  if (!input || typeof input !== 'object') return data;
+
+  const text = (value: string | null) => (value === null ? null : String(value).trim() || null);
+
+  if (input.name !== undefined) data.name = text(input.name);
+  if (input.company !== undefined) data.company = text(input.company);
+  if (input.title !== undefined) data.title = text(input.title);
+  if (input.notes !== undefined) data.notes = text(input.notes);
+  if (input.assignedTo !== undefined) data.assignedTo = text(input.assignedTo);
+  if (input.source !== undefined) data.source = text(input.source) || 'manual';
+
+  if (input.email !== undefined) {
+    const email = text(input.email);
+    if (email && !EMAIL_PATTERN.test(email)) throw new LeadValidationError('Invalid email address');
+    data.email = email ? email.toLowerCase() : null;
+  }
+  if (input.phone !== undefined) {
+    const phone = text(input.phone);
+    data.phone = phone ? normalizePhone(phone) : null;
+  }
+  if (input.status !== undefined) {
+    if (!LEAD_STATUSES.includes(input.status)) throw new LeadValidationError(`Invalid status. Must be one of ${LEAD_STATUSES.join(', ')}`);
+    data.status = input.status;
+  }
+  if (input.priority !== undefined) {
+    if (!LEAD_PRIORITIES.includes(input.priority)) throw new LeadValidationError(`Invalid priority. Must be one of ${LEAD_PRIORITIES.join(', ')}`);
+    data.priority = input.priority;
+  }
+  if (input.score !== undefined) {
+    const score = Number(input.score);
+    if (!Number.isFinite(score) || score < 0 || score > 100) throw new LeadValidationError('Score must be between 0 and 100');
+    data.score = Math.round(score);
+  }
+  if (input.estimatedValue !== undefined) {
+    const value = input.estimatedValue === null ? null : Number(input.estimatedValue);
+    if (value !== null && !Number.isFinite(value)) throw new LeadValidationError('estimatedValue must be a number');
+    data.estimatedValue = value;
+  }
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags)) throw new LeadValidationError('tags must be an array');
+    data.tags = Array.from(new Set(input.tags.map(t => String(t).trim()).filter(Boolean)));
+  }
+  for (const field of ['lastContact', 'nextFollowUp'] as const) {
+    if (input[field] === undefined) continue;
+    const value = input[field];
+    if (value !== null && isNaN(new Date(value).getTime())) throw new LeadValidationError(`${field} must be a date`);
+    data[field] = value === null ? null : new Date(value);
+  }
+  if (input.customFields !== undefined) {
+    if (!input.customFields || typeof input.customFields !== 'object' || Array.isArray(input.customFields)) {
+      throw new LeadValidationError('customFields must be an object');
+    }
+    data.customFields = input.customFields;
+  }
+
+  return data;
+}
+
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[^\d]/g, '');
+  return phone.trim().startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Database row to the shape used by the web leads pages
+ */
+export function toLead(row: LeadRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone,
+    company: row.company,
+    title: row.title,
+    source: row.source,
+    status: row.status,
+    score: row.score,
+    scoreBreakdown: row.score_breakdown || null,
+    scoreUpdatedAt: row.score_updated_at || null,
+    tags: row.tags || [],
+    notes: row.notes,
+    priority: row.priority,
+    assignedTo: row.assigned_to,
+    estimatedValue: row.estimated_value !== null && row.estimated_value !== undefined ? Number(row.estimated_value) : null,
+    lastContact: row.last_contact_at,
+    nextFollowUp: row.next_follow_up_at,
+    customFields: row.custom_fields || {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * LLM routing: which provider and model serve a call, in fallback order, and what it cost.
+ * An organization can set its own route and per-feature routes; the deployment default route
+ * (LLM_DEFAULT_ROUTE) is always appended as the last resort.
+ */
+
+import { LlmProviderType, LlmUsage } from '../platforms/llm/llm-provider';
+
+// Features generation is accounted under; also the keys allowed in per-feature routes
+export const LLM_FEATURES = ['content_generation', 'batch_generation', 'content_optimization'] as const;
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export interface LlmRouteStep {
+  provider: string;
+  // Provider default when omitted
+  model?: string;
+}
+
+export interface LlmSettings {
+  route: LlmRouteStep[];
+  features: Partial<Record<LlmFeature, LlmRouteStep[]>>;
+}
+
+export interface LlmProviderConfig {
+  id: string;
+  type: LlmProviderType;
+  baseUrl?: string;
+  apiKey?: string;
+  defaultModel: string;
+}
+
+// USD per 1,000 tokens, keyed by "provider:model" or by "provider" for every model of a provider
+export type LlmPricing = Record<string, { prompt: number; completion: number }>;
+
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmConfigError';
+  }
+}
+
+const MAX_ROUTE_STEPS = 5;
+
+/**
+ * Providers available in this deployment. Perplexity is always registered; OpenAI and a local
+ * OpenAI-compatible server are added when configured.
+ */
+export function loadLlmProviderConfigs(env: Record<string, string | undefined> = process.env): LlmProviderConfig[] {
+  const configs: LlmProviderConfig[] = [
+    { id: 'perplexity', type: 'perplexity', defaultModel: env.PERPLEXITY_MODEL || 'sonar-large-online' },
+  ];
+  if (env.OPENAI_API_KEY) {
+    configs.push({
+      id: 'openai',
+      type: 'openai-compatible',
+      baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: env.OPENAI_API_KEY,
+      defaultModel: env.OPENAI_MODEL || 'gpt-4o-mini',
+    });
+  }
+  if (env.LOCAL_LLM_BASE_URL) {
+    configs.push({
+      id: 'local',
+      type: 'openai-compatible',
+      baseUrl: env.LOCAL_LLM_BASE_URL,
+      apiKey: env.LOCAL_LLM_API_KEY,
+      defaultModel: env.LOCAL_LLM_MODEL || 'llama3.1',
+    });
+  }
+  return configs;
+}
+
+/**
+ * Parse a route written as "provider[:model],provider[:model]", e.g. "openai:gpt-4o-mini,local"
+ */
+export function parseRouteSpec(spec: string, providerIds: string[]): LlmRouteStep[] {
+  const steps = spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const separator = part.indexOf(':');
+      return separator > 0 ? { provider: part.slice(0, separator), model: part.slice(separator + 1) } : { provider: part };
+    });
+  return normalizeRoute(steps, providerIds, 'LLM route');
+}
+
+/**
+ * Validate organization settings as stored or submitted; unknown providers and features are rejected
+ */
+export function normalizeLlmSettings(raw: unknown, providerIds: string[]): LlmSettings {
+  if (raw !== undefined && raw !== null && (typeof raw !== 'object' || Array.isArray(raw))) {
+    throw new LlmConfigError('LLM settings must be an object');
+  }
+  const input = (raw ?? {}) as { route?: unknown; features?: unknown };
+  const route = input.route === undefined || input.route === null ? [] : normalizeRoute(input.route, providerIds, 'route');
+
+  const features: LlmSettings['features'] = {};
+  const rawFeatures = input.features ?? {};
+  if (typeof rawFeatures !== 'object' || Array.isArray(rawFeatures)) {
+    throw new LlmConfigError('features must map feature names to routes');
+  }
+  for (const [feature, steps] of Object.entries(rawFeatures as Record<string, unknown>)) {
+    if (!(LLM_FEATURES as readonly string[]).includes(feature)) {
+      throw new LlmConfigError(`Unknown feature "${feature}"; expected one of ${LLM_FEATURES.join(', ')}`);
+    }
+    features[feature as LlmFeature] = normalizeRoute(steps, providerIds, `features.${feature}`);
+  }
+  return { route, features };
+}
+
+function normalizeRoute(steps: unknown, providerIds: string[], label: string): LlmRouteStep[] {
+  if (!Array.isArray(steps)) {
+    throw new LlmConfigError(`${label} must be a list of { provider, model } steps`);
+  }
+  const entries: unknown[] = steps;
+  if (entries.length > MAX_ROUTE_STEPS) {
+    throw new LlmConfigError(`${label} can have at most ${MAX_ROUTE_STEPS} steps`);
+  }
+  return entries.map(step => {
+    const input = (step ?? {}) as { [K in keyof LlmRouteStep]?: unknown };
+    const provider = typeof input.provider === 'string' ? input.provider.trim() : '';
+    if (!providerIds.includes(provider)) {
+      throw new LlmConfigError(`${label}: unknown provider "${provider}"; available: ${providerIds.join(', ')}`);
+    }
+    const model = input.model;
+    if (model !== undefined && model !== null && (typeof model !== 'string' || !model.trim())) {
+      throw new LlmConfigError(`${label}: model for ${provider} must be a non-empty string`);
+    }
+    return typeof model === 'string' ? { provider, model: model.trim() } : { provider };
+  });
+}
+
+/**
+ * Steps to try in order for a call: the feature route, else the organization route, then the default route
+ */
+export function resolveRoute(settings: LlmSettings | null, feature: string, defaultRoute: LlmRouteStep[]): LlmRouteStep[] {
+  const preferred = settings?.features[feature as LlmFeature]?.length ? settings.features[feature as LlmFeature]! : settings?.route || [];
+  const steps: LlmRouteStep[] = [];
+  for (const step of [...preferred, ...defaultRoute]) {
+    if (!steps.some(s => s.provider === step.provider && (s.model || null) === (step.model || null))) {
+      steps.push(step);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Parse LLM_PRICING, a JSON object such as {"openai:gpt-4o-mini": {"prompt": 0.00015, "completion": 0.0006}}
+ */
+export function parseLlmPricing(json: string | undefined): LlmPricing {
+  if (!json) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new LlmConfigError('LLM_PRICING must be valid JSON');
+  }
+  const pricing: LlmPricing = {};
+  for (const [key, price] of Object.entries((parsed || {}) as Record<string, unknown>)) {
+    const entry = (price ?? {}) as { prompt?: unknown; completion?: unknown };
+    const prompt = Number(entry.prompt);
+    const completion = Number(entry.completion);
+    if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+      throw new LlmConfigError(`LLM_PRICING["${key}"] needs non-negative prompt and completion prices`);
+    }
+    pricing[key] = { prompt, completion };
+  }
+  return pricing;
+}
+
+/**
+ * Cost in USD of one call; calls without a configured price (e.g. a local model) cost nothing
+ */
+export function estimateCostUsd(pricing: LlmPricing, provider: string, model: string, usage: LlmUsage): number {
+  const price = pricing[`${provider}:${model}`] || pricing[provider];
+  if (!price) return 0;
+  const cost = (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1000;
+  return Math.round(cost * 1e6) / 1e6;
+}
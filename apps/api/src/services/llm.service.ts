@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService } from '../db.service';
+import { EnhancedErrorHandlingService } from './enhanced-error-handling.service';
+import { PerplexityService } from './perplexity.service';
+import { metrics } from './metrics.service';
+import { LlmProvider, LlmSearchOptions, LlmUsage } from '../platforms/llm/llm-provider';
+import { OpenAiCompatibleProvider } from '../platforms/llm/openai-compatible-provider';
+import { PerplexityProvider } from '../platforms/llm/perplexity-provider';
+import {
+  LlmFeature,
+  LlmPricing,
+  LlmRouteStep,
+  LlmSettings,
+  estimateCostUsd,
+  loadLlmProviderConfigs,
+  normalizeLlmSettings,
+  parseLlmPricing,
+  parseRouteSpec,
+  resolveRoute,
+} from './llm-routing';
+
+export interface LlmCallContext {
+  // Usage is only recorded per organization when set
+  organizationId?: string;
+  feature: LlmFeature;
+}
+
+export interface LlmAnswerOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmAnswer {
+  answer: string;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+  costUsd: number;
+  // Served by a later route step because an earlier provider failed or its circuit was open
+  fallback: boolean;
+  cached: boolean;
+}
+
+export interface LlmSources {
+  sources: string[];
+  // null when no provider could search
+  provider: string | null;
+}
+
+export class LlmUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+// Organization settings are read on every call, so keep them briefly
+const SETTINGS_TTL_MS = 60000;
+
+/**
+ * Single entry point for generation. Each call follows the organization's route (per feature, then
+ * organization-wide, then LLM_DEFAULT_ROUTE); a provider that fails or whose circuit breaker is open
+ * hands over to the next step. Tokens and estimated cost are recorded per organization and feature.
+ */
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers = new Map<string, LlmProvider>();
+  private readonly defaultRoute: LlmRouteStep[];
+  private readonly pricing: LlmPricing;
+  private readonly settingsCache = new Map<string, { settings: LlmSettings | null; expiresAt: number }>();
+
+  constructor(
+    private readonly db: DbService,
+    private readonly errorHandling: EnhancedErrorHandlingService,
+    perplexity: PerplexityService,
+  ) {
+    for (const config of loadLlmProviderConfigs()) {
+      this.registerProvider(
+        config.type === 'perplexity'
+          ? new PerplexityProvider(perplexity, config.defaultModel)
+          : new OpenAiCompatibleProvider({ id: config.id, baseUrl: config.baseUrl!, apiKey: config.apiKey, defaultModel: config.defaultModel }),
+      );
+    }
+    this.defaultRoute = parseRouteSpec(process.env.LLM_DEFAULT_ROUTE || 'perplexity', this.providerIds);
+    this.pricing = parseLlmPricing(process.env.LLM_PRICING);
+  }
+
+  registerProvider(provider: LlmProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  get providerIds(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  async listProviders() {
+    return {
+      providers: await Promise.all(Array.from(this.providers.values()).map(async p => ({
+        id: p.id,
+        type: p.type,
+        defaultModel: p.defaultModel,
+        search: typeof p.search === 'function',
+        circuit: (await this.errorHandling.getCircuitBreakerState(this.circuitName(p.id))).state,
+      }))),
+      defaultRoute: this.defaultRoute,
+    };
+  }
+
+  async getSettings(organizationId: string): Promise<LlmSettings | null> {
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) return cached.settings;
+
+    const row = await this.db.getLlmSettings(organizationId);
+    let settings: LlmSettings | null = null;
+    if (row) {
+      try {
+        settings = normalizeLlmSettings({ route: row.route, features: row.features }, this.providerIds);
+      } catch (error) {
+        // e.g. a provider that is no longer configured; the default route still applies
+        this.logger.warn(`Ignoring LLM settings for ${organizationId}: ${(error as Error).message}`);
+      }
+    }
+    this.settingsCache.set(organizationId, { settings, expiresAt: Date.now() + SETTINGS_TTL_MS });
+    return settings;
+  }
+
+  /**
+   * Validate and store an organization's routes; throws LlmConfigError for unknown providers or features
+   */
+  async updateSettings(organizationId: string, raw: unknown): Promise<LlmSettings> {
+    const settings = normalizeLlmSettings(raw, this.providerIds);
+    await this.db.upsertLlmSettings(organizationId, settings);
+    this.settingsCache.delete(organizationId);
+    return settings;
+  }
+
+  async getUsage(organizationId: string, since: Date, until: Date) {
+    const rows = await this.db.getLlmUsageSummary(organizationId, since, until);
+    const breakdown = rows.map(row => ({
+      feature: row.feature,
+      provider: row.provider,
+      model: row.model,
+      calls: Number(row.calls),
+      fallbackCalls: Number(row.fallback_calls),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      totalTokens: Number(row.total_tokens),
+      costUsd: Number(row.cost_usd),
+    }));
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      totalTokens: breakdown.reduce((sum, row) => sum + row.totalTokens, 0),
+      costUsd: Math.round(breakdown.reduce((sum, row) => sum + row.costUsd, 0) * 1e6) / 1e6,
+      breakdown,
+    };
+  }
+
+  async answer(ctx: LlmCallContext, prompt: string, context: string[] = [], options: LlmAnswerOptions = {}): Promise<LlmAnswer> {
+    const route = await this.routeFor(ctx);
+    const failures: string[] = [];
+
+    for (const step of route) {
+      const provider = this.providers.get(step.provider)!;
+      try {
+        const completion = await this.errorHandling.executeWithCircuitBreaker(
+          () => provider.complete({ prompt, context, model: step.model, maxTokens: options.maxTokens, temperature: options.temperature }),
+          this.circuitName(provider.id),
+        );
+        const fallback = failures.length > 0;
+        const costUsd = await this.recordUsage(ctx, provider.id, completion.model, 'answer', completion.usage, fallback);
+        return {
+          answer: completion.text,
+          provider: provider.id,
+          model: completion.model,
+          usage: completion.usage,
+          costUsd,
+          fallback,
+          cached: Boolean(completion.cached),
+        };
+      } catch (error) {
+        failures.push(`${provider.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        this.logger.warn(`LLM ${provider.id} failed for ${ctx.feature}, trying next provider: ${failures[failures.length - 1]}`);
+      }
+    }
+    throw new LlmUnavailableError(`No LLM provider could answer (${failures.join('; ') || 'no providers in route'})`);
+  }
+
+  /**
+   * Sources for grounding, from the first provider in the route that can search. Generation carries on
+   * without sources rather than failing when none can.
+   */
+  async search(ctx: LlmCallContext, query: string, options: LlmSearchOptions = {}): Promise<LlmSources> {
+    const route = await this.routeFor(ctx);
+    const candidates = route.map(step => this.providers.get(step.provider)!);
+    for (const provider of this.providers.values()) {
+      if (!candidates.includes(provider)) candidates.push(provider);
+    }
+
+    let failed = false;
+    for (const provider of candidates) {
+      if (!provider.search) continue;
+      try {
+        const result = await this.errorHandling.executeWithCircuitBreaker(() => provider.search!(query, options), this.circuitName(provider.id));
+        await this.recordUsage(ctx, provider.id, result.model, 'search', result.usage, failed);
+        return { sources: result.sources, provider: provider.id };
+      } catch (error) {
+        failed = true;
+        this.logger.warn(`LLM search via ${provider.id} failed for ${ctx.feature}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return { sources: [], provider: null };
+  }
+
+  private async routeFor(ctx: LlmCallContext): Promise<LlmRouteStep[]> {
+    const settings = ctx.organizationId ? await this.getSettings(ctx.organizationId) : null;
+    return resolveRoute(settings, ctx.feature, this.defaultRoute).filter(step => this.providers.has(step.provider));
+  }
+
+  private async recordUsage(
+    ctx: LlmCallContext,
+    provider: string,
+    model: string,
+    operation: 'answer' | 'search',
+    usage: LlmUsage,
+    fallback: boolean,
+  ): Promise<number> {
+    const costUsd = estimateCostUsd(this.pricing, provider, model, usage);
+    const labels = { provider, model, feature: ctx.feature };
+    if (usage.promptTokens) metrics.llmTokens.inc({ ...labels, token_type: 'prompt' }, usage.promptTokens);
+    if (usage.completionTokens) metrics.llmTokens.inc({ ...labels, token_type: 'completion' }, usage.completionTokens);
+    if (usage.totalTokens) metrics.llmTokens.inc({ ...labels, token_type: 'total' }, usage.totalTokens);
+    if (costUsd) metrics.llmCost.inc(labels, costUsd);
+    if (fallback) metrics.llmFallback.inc({ provider, feature: ctx.feature });
+
+    if (ctx.organizationId && usage.totalTokens > 0) {
+      try {
+        await this.db.recordLlmUsage({ organizationId: ctx.organizationId, feature: ctx.feature, provider, model, operation, ...usage, costUsd, fallback });
+      } catch (error) {
+        this.logger.warn(`Could not record LLM usage for ${ctx.organizationId}: ${(error as Error).message}`);
+      }
+    }
+    return costUsd;
+  }
+
+  private circuitName(providerId: string): string {
+    return `llm_${providerId}`;
+  }
+}
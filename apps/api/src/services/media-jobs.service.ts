@@ -0,0 +1,674 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService, MediaJobRow, MediaPresetRow } from '../db.service';
+import { QueueService } from '../queue.service';
+import { PLATFORM_ADAPTATION_RULES } from '../content-adaptation.service';
+import { ImageProcessingOptions, MediaProcessingService, VideoProcessingOptions } from './media-processing.service';
+import { MediaFile, MediaStorageService, StorageQuotaError, StorageValidationError } from './media-storage.service';
+
+export type MediaJobType = 'optimization' | 'conversion';
+export type MediaJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type MediaPresetCategory = 'web' | 'mobile' | 'print' | 'social' | 'custom';
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif';
+export type VideoFormat = 'mp4' | 'webm' | 'mov';
+
+// Settings shared by both job types. platform sizes the output by its adaptation rules; explicit
+// dimensions and quality win over the platform's.
+interface MediaJobCommonSettings {
+  platform?: string;
+  quality?: number;
+  width?: number;
+  height?: number;
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+}
+
+export interface MediaOptimizationSettings extends MediaJobCommonSettings {
+  // Images are re-encoded at lower quality until they fit, down to MIN_TARGET_QUALITY
+  targetSize?: number;
+  // Defaults to the source format
+  format?: ImageFormat | VideoFormat;
+  progressive?: boolean;
+  lossless?: boolean;
+  removeMetadata?: boolean;
+  optimizeForWeb?: boolean;
+}
+
+export interface MediaConversionSettings extends MediaJobCommonSettings {
+  targetFormat: ImageFormat | VideoFormat;
+  resolution?: { width?: number; height?: number };
+  framerate?: number;
+  // Video bitrate in kbps
+  bitrate?: number;
+  videoCodec?: 'h264' | 'h265' | 'vp9' | 'av1';
+  audioCodec?: 'aac' | 'mp3' | 'opus';
+}
+
+export type MediaJobSettings = MediaOptimizationSettings | MediaConversionSettings;
+
+// A job's settings as read back, without knowing which of the two kinds they are
+type StoredMediaJobSettings = MediaOptimizationSettings & Partial<MediaConversionSettings>;
+
+export interface MediaPreset {
+  id: string;
+  name: string;
+  description: string;
+  type: MediaJobType;
+  category: MediaPresetCategory;
+  settings: MediaJobSettings;
+  builtIn: boolean;
+  createdAt?: string;
+  createdBy?: string;
+}
+
+export interface MediaJobRequest {
+  type: MediaJobType;
+  presetId?: string;
+  // Override the preset's settings
+  settings?: Record<string, unknown>;
+}
+
+export interface MediaJobView {
+  id: string;
+  type: MediaJobType;
+  originalFileId: string | null;
+  processedFileId?: string;
+  status: MediaJobStatus;
+  progress: number;
+  batchId?: string;
+  presetId?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  metadata: { settings: MediaJobSettings; result?: Record<string, unknown> };
+  error?: string;
+}
+
+// What the worker did with a queued job
+export interface MediaJobOutcome {
+  status: 'completed' | 'failed' | 'cancelled' | 'skipped';
+  reason?: string;
+}
+
+/**
+ * The job request, its settings or preset are invalid, or the source file cannot be processed
+ */
+export class MediaJobValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaJobValidationError';
+  }
+}
+
+/**
+ * The job has already finished, or a preset with the name exists
+ */
+export class MediaJobConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaJobConflictError';
+  }
+}
+
+const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'avif', 'gif'];
+const VIDEO_FORMATS: VideoFormat[] = ['mp4', 'webm', 'mov'];
+const FITS = ['cover', 'contain', 'fill', 'inside', 'outside'];
+// Codec names accepted in settings and the ffmpeg encoders they select
+const VIDEO_CODECS: Record<string, VideoProcessingOptions['videoCodec']> = { h264: 'libx264', h265: 'libx265', vp9: 'libvpx-vp9', av1: 'libaom-av1' };
+const AUDIO_CODECS: Record<string, VideoProcessingOptions['audioCodec']> = { aac: 'aac', mp3: 'libmp3lame', opus: 'libopus' };
+const PRESET_CATEGORIES: MediaPresetCategory[] = ['web', 'mobile', 'print', 'social', 'custom'];
+const FORMAT_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+const MAX_DIMENSION = 8192;
+const MAX_BATCH_FILES = 100;
+const MIN_TARGET_QUALITY = 30;
+// A processing job that has not reported progress for this long belonged to a worker that died
+const JOB_STALE_MS = 15 * 60 * 1000;
+// Rough time per file for the estimate returned when a batch is queued
+const ESTIMATED_SECONDS = { image: 2, video: 30 };
+
+const PLATFORM_LABELS: Record<string, string> = {
+  GBP: 'Google Business Profile',
+  LINKEDIN: 'LinkedIn',
+  MAIL: 'Email',
+  WORDPRESS: 'WordPress',
+  YOUTUBE: 'YouTube',
+};
+
+/**
+ * Presets for every platform with media dimensions in its adaptation rules, plus generic web presets
+ */
+function buildBuiltInPresets(): MediaPreset[] {
+  const presets: MediaPreset[] = [];
+  for (const [platform, rules] of Object.entries(PLATFORM_ADAPTATION_RULES)) {
+    const label = PLATFORM_LABELS[platform]
+      || platform.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ');
+    const category: MediaPresetCategory = platform === 'WORDPRESS' || platform === 'MAIL' ? 'web' : 'social';
+    const { image, video } = rules.media || {};
+    if (image) {
+      presets.push({
+        id: `builtin-${platform.toLowerCase().replace(/_/g, '-')}-image`,
+        name: `${label} image`,
+        description: `${image.width}x${image.height} ${image.format.toUpperCase()} for ${label}`,
+        type: 'optimization',
+        category,
+        settings: { platform, format: image.format, quality: image.quality, width: image.width, height: image.height, fit: image.fit },
+        builtIn: true,
+      });
+    }
+    if (video) {
+      presets.push({
+        id: `builtin-${platform.toLowerCase().replace(/_/g, '-')}-video`,
+        name: `${label} video`,
+        description: `${video.width}x${video.height} ${video.format.toUpperCase()} at ${video.fps} fps for ${label}`,
+        type: 'conversion',
+        category,
+        settings: { platform, targetFormat: video.format, resolution: { width: video.width, height: video.height }, framerate: video.fps },
+        builtIn: true,
+      });
+    }
+  }
+  presets.push(
+    {
+      id: 'builtin-web-optimized',
+      name: 'Web optimized',
+      description: 'WebP, at most 1920 pixels on either side, metadata removed',
+      type: 'optimization',
+      category: 'web',
+      settings: { format: 'webp', quality: 80, width: 1920, height: 1920, fit: 'inside', removeMetadata: true, optimizeForWeb: true },
+      builtIn: true,
+    },
+    {
+      id: 'builtin-thumbnail',
+      name: 'Thumbnail',
+      description: '300x300 JPEG thumbnail',
+      type: 'optimization',
+      category: 'mobile',
+      settings: { format: 'jpeg', quality: 80, width: 300, height: 300, fit: 'cover', removeMetadata: true },
+      builtIn: true,
+    },
+  );
+  return presets;
+}
+
+export const BUILT_IN_MEDIA_PRESETS: MediaPreset[] = buildBuiltInPresets();
+
+/**
+ * Conversion and optimization of stored media as jobs on the media-jobs queue. Jobs live in Postgres so
+ * their status, progress and history are available from any API replica; the worker claims a job, reports
+ * progress as it goes (and stops when the job was cancelled) and stores the output as a new file derived
+ * from the source, in the source's category and with its tags.
+ */
+@Injectable()
+export class MediaJobsService {
+  private readonly logger = new Logger(MediaJobsService.name);
+
+  constructor(
+    private readonly db: DbService,
+    private readonly mediaStorage: MediaStorageService,
+    private readonly mediaProcessing: MediaProcessingService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  async getPresets(organizationId: string): Promise<MediaPreset[]> {
+    const custom = await this.db.listMediaPresets(organizationId);
+    return [...BUILT_IN_MEDIA_PRESETS, ...custom.map(row => this.toPreset(row))];
+  }
+
+  async createPreset(
+    organizationId: string,
+    createdBy: string | null,
+    input: { name?: unknown; description?: unknown; type?: unknown; category?: unknown; settings?: unknown },
+  ): Promise<MediaPreset> {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > 100) {
+      throw new MediaJobValidationError('name must be a non-empty string of at most 100 characters');
+    }
+    if (input.description !== undefined && input.description !== null
+      && (typeof input.description !== 'string' || input.description.length > 500)) {
+      throw new MediaJobValidationError('description must be a string of at most 500 characters');
+    }
+    const type = this.parseType(input.type);
+    const category = input.category === undefined ? 'custom' : input.category;
+    if (!PRESET_CATEGORIES.includes(category as MediaPresetCategory)) {
+      throw new MediaJobValidationError(`category must be one of ${PRESET_CATEGORIES.join(', ')}`);
+    }
+    const settings = this.normalizeSettings(type, input.settings ?? {});
+
+    const row = await this.db.createMediaPreset({
+      id: `media_preset_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+      organizationId,
+      name,
+      description: typeof input.description === 'string' && input.description.trim() ? input.description.trim() : null,
+      type,
+      category: category as MediaPresetCategory,
+      settings,
+      createdBy,
+    });
+    if (!row) {
+      throw new MediaJobConflictError(`A preset named "${name}" already exists`);
+    }
+    return this.toPreset(row);
+  }
+
+  /**
+   * Queue one job for a file. Null when the organization has no such file.
+   */
+  async createJob(organizationId: string, createdBy: string | null, fileId: string, request: MediaJobRequest): Promise<MediaJobView | null> {
+    if (!(await this.db.getMediaAsset(fileId, organizationId))) return null;
+    const [job] = await this.createJobs(organizationId, createdBy, [fileId], request, null);
+    return job;
+  }
+
+  /**
+   * Queue the same operation for several files, as one batch
+   */
+  async createBatch(
+    organizationId: string,
+    createdBy: string | null,
+    fileIds: unknown,
+    request: MediaJobRequest,
+  ): Promise<{ batchId: string; jobs: MediaJobView[]; estimatedTime: number }> {
+    if (!Array.isArray(fileIds) || fileIds.length === 0 || !fileIds.every(id => typeof id === 'string' && id)) {
+      throw new MediaJobValidationError('fileIds must be a non-empty list of file ids');
+    }
+    const uniqueIds = Array.from(new Set(fileIds as string[]));
+    if (uniqueIds.length > MAX_BATCH_FILES) {
+      throw new MediaJobValidationError(`A batch can process at most ${MAX_BATCH_FILES} files`);
+    }
+
+    const assets = await Promise.all(uniqueIds.map(id => this.db.getMediaAsset(id, organizationId)));
+    const missing = uniqueIds.filter((_id, index) => !assets[index]);
+    if (missing.length > 0) {
+      throw new MediaJobValidationError(`Files not found: ${missing.join(', ')}`);
+    }
+
+    const batchId = `media_batch_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+    const jobs = await this.createJobs(organizationId, createdBy, uniqueIds, request, batchId);
+    const estimatedTime = assets.reduce((sum, asset) =>
+      sum + (asset?.mime_type.startsWith('video/') ? ESTIMATED_SECONDS.video : ESTIMATED_SECONDS.image), 0);
+    return { batchId, jobs, estimatedTime };
+  }
+
+  async getJob(organizationId: string, jobId: string) {
+    const job = await this.db.getMediaJob(jobId, organizationId);
+    if (!job) return null;
+
+    const view = this.toView(job);
+    let processedUrl: string | undefined;
+    if (job.output_asset_id) {
+      processedUrl = (await this.mediaStorage.getFile(organizationId, job.output_asset_id))?.url;
+    }
+    return {
+      ...view,
+      result: job.status === 'completed'
+        ? { processedFileId: job.output_asset_id ?? undefined, processedUrl, metadata: job.result || {} }
+        : undefined,
+      estimatedTimeRemaining: this.estimateRemaining(job),
+    };
+  }
+
+  async listHistory(
+    organizationId: string,
+    query: { type?: string; status?: string; limit?: number; offset?: number },
+  ): Promise<{ history: MediaJobView[]; totalCount: number }> {
+    if (query.type !== undefined && query.type !== 'optimization' && query.type !== 'conversion') {
+      throw new MediaJobValidationError('type must be optimization or conversion');
+    }
+    if (query.status !== undefined && !['pending', 'processing', 'completed', 'failed', 'cancelled'].includes(query.status)) {
+      throw new MediaJobValidationError('status must be one of pending, processing, completed, failed, cancelled');
+    }
+    const { rows, total } = await this.db.listMediaJobs(organizationId, {
+      type: query.type,
+      status: query.status,
+      limit: Math.min(Math.max(Math.floor(query.limit || 50), 1), 200),
+      offset: Math.max(Math.floor(query.offset || 0), 0),
+    });
+    return { history: rows.map(row => this.toView(row)), totalCount: total };
+  }
+
+  /**
+   * Cancel a pending or processing job. A job the worker is running stops at its next progress report and
+   * keeps no output. Null when the organization has no such job.
+   */
+  async cancelJob(organizationId: string, jobId: string): Promise<MediaJobView | null> {
+    const outcome = await this.db.cancelMediaJob(jobId, organizationId);
+    if (!outcome) return null;
+    if (!outcome.cancelled) {
+      throw new MediaJobConflictError(`Job is already ${outcome.job.status}`);
+    }
+    await this.queueService.removeMediaJobs([jobId]);
+    this.logger.log(`Cancelled media job: ${jobId}`, { jobId, organizationId });
+    return this.toView(outcome.job);
+  }
+
+  /**
+   * Worker: run a queued job. Settings the source cannot be processed with fail the job at once; other
+   * errors put it back to pending and are rethrown for the queue to retry.
+   */
+  async processJob(jobId: string): Promise<MediaJobOutcome> {
+    const job = await this.db.claimMediaJob(jobId, JOB_STALE_MS);
+    if (!job) {
+      const existing = await this.db.getMediaJob(jobId, null);
+      return { status: 'skipped', reason: existing ? `job is ${existing.status}` : 'job not found' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const source = job.source_asset_id ? await this.mediaStorage.readFile(job.organization_id, job.source_asset_id) : null;
+      if (!source) {
+        throw new MediaJobValidationError('Source file no longer exists');
+      }
+      if (!(await this.db.updateMediaJobProgress(jobId, 10))) {
+        return { status: 'cancelled' };
+      }
+
+      const output = await this.transform(jobId, job.type, (job.settings || {}) as StoredMediaJobSettings, source.file, source.body);
+      if (!output) {
+        return { status: 'cancelled' };
+      }
+      if (!(await this.db.updateMediaJobProgress(jobId, 90))) {
+        return { status: 'cancelled' };
+      }
+
+      const { file, duplicate } = await this.mediaStorage.upload(job.organization_id, job.created_by, {
+        buffer: output.buffer,
+        fileName: `${source.file.fileName.replace(/\.[^.]+$/, '')}.${output.format === 'jpeg' ? 'jpg' : output.format}`,
+        mimeType: FORMAT_MIME_TYPES[output.format],
+        category: source.file.category,
+        tags: source.file.tags,
+        description: source.file.description,
+        sourceFileId: source.file.id,
+        metadata: { mediaJobId: jobId },
+      });
+      const result = {
+        originalFormat: source.file.mimeType,
+        format: output.format,
+        originalSize: source.body.length,
+        processedSize: output.buffer.length,
+        compressionRatio: Math.round((1 - output.buffer.length / source.body.length) * 10000) / 100,
+        width: output.width,
+        height: output.height,
+        duration: output.duration,
+        quality: output.quality,
+        optimizationsApplied: output.applied,
+        processingTime: Date.now() - startedAt,
+      };
+
+      if (!(await this.db.finishMediaJob(jobId, { status: 'completed', outputAssetId: file.id, result }))) {
+        // Cancelled while the output was being stored
+        if (!duplicate) await this.mediaStorage.deleteFile(job.organization_id, file.id);
+        return { status: 'cancelled' };
+      }
+      this.logger.log(`Completed media job: ${jobId}`, { jobId, outputFileId: file.id, processingTime: result.processingTime });
+      return { status: 'completed' };
+    } catch (error) {
+      const message = (error as Error).message || 'unknown_error';
+      if (error instanceof MediaJobValidationError || error instanceof StorageValidationError || error instanceof StorageQuotaError) {
+        await this.db.finishMediaJob(jobId, { status: 'failed', error: message });
+        return { status: 'failed', reason: message };
+      }
+      await this.db.finishMediaJob(jobId, { status: 'pending', error: message });
+      throw error;
+    }
+  }
+
+  /**
+   * Worker: record the failure of a job that has no retries left
+   */
+  async failJob(jobId: string, error: string): Promise<void> {
+    await this.db.finishMediaJob(jobId, { status: 'failed', error });
+  }
+
+  private async createJobs(
+    organizationId: string,
+    createdBy: string | null,
+    fileIds: string[],
+    request: MediaJobRequest,
+    batchId: string | null,
+  ): Promise<MediaJobView[]> {
+    const type = this.parseType(request?.type);
+    let presetSettings: Partial<MediaJobSettings> = {};
+    if (request.presetId) {
+      const preset = BUILT_IN_MEDIA_PRESETS.find(p => p.id === request.presetId)
+        || await this.db.getMediaPreset(request.presetId, organizationId).then(row => row ? this.toPreset(row) : null);
+      if (!preset) {
+        throw new MediaJobValidationError(`Unknown preset: ${request.presetId}`);
+      }
+      if (preset.type !== type) {
+        throw new MediaJobValidationError(`Preset ${preset.id} is for ${preset.type} jobs`);
+      }
+      presetSettings = preset.settings;
+    }
+    const settings = this.normalizeSettings(type, { ...presetSettings, ...(request.settings || {}) });
+
+    const rows = await this.db.createMediaJobs(fileIds.map(fileId => ({
+      id: `media_job_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+      organizationId,
+      batchId,
+      type,
+      sourceAssetId: fileId,
+      presetId: request.presetId || null,
+      settings,
+      createdBy,
+    })));
+    await this.queueService.enqueueMediaJobs(organizationId, rows.map(row => row.id));
+
+    this.logger.log(`Queued ${rows.length} media ${type} job(s)`, { organizationId, batchId, presetId: request.presetId });
+    return rows.map(row => this.toView(row));
+  }
+
+  /**
+   * Produce the output for a job; null when the job was cancelled along the way
+   */
+  private async transform(
+    jobId: string,
+    type: MediaJobType,
+    settings: StoredMediaJobSettings,
+    file: MediaFile,
+    body: Buffer,
+  ): Promise<{ buffer: Buffer; format: ImageFormat | VideoFormat; width: number; height: number; duration?: number; quality?: number; applied: string[] } | null> {
+    const platform: string = settings.platform || 'default';
+    const width = settings.resolution?.width ?? settings.width;
+    const height = settings.resolution?.height ?? settings.height;
+    const format: string | undefined = type === 'conversion' ? settings.targetFormat : settings.format;
+    const applied: string[] = [];
+    if (settings.platform) applied.push(`sized for ${settings.platform}`);
+
+    if (file.mimeType.startsWith('image/')) {
+      const sourceFormat = file.mimeType === 'image/jpg' ? 'jpeg' : file.mimeType.slice('image/'.length);
+      const targetFormat = (format ?? (IMAGE_FORMATS.includes(sourceFormat as ImageFormat) ? sourceFormat : 'jpeg')) as ImageFormat;
+      if (!IMAGE_FORMATS.includes(targetFormat)) {
+        throw new MediaJobValidationError(`Images cannot be converted to ${targetFormat}`);
+      }
+      const options: ImageProcessingOptions = this.definedOnly({
+        format: targetFormat,
+        width,
+        height,
+        fit: settings.fit ?? (settings.platform ? undefined : 'inside'),
+        quality: settings.quality,
+        progressive: settings.progressive ?? settings.optimizeForWeb,
+        lossless: settings.lossless,
+        keepMetadata: settings.removeMetadata === false,
+      });
+
+      let image = await this.mediaProcessing.processImage(body, platform, options);
+      let quality = options.quality;
+      // Lossy formats step their quality down until the output fits the target size
+      if (settings.targetSize && ['jpeg', 'webp', 'avif'].includes(targetFormat) && !settings.lossless) {
+        quality = quality ?? 85;
+        while (image.size > settings.targetSize && quality > MIN_TARGET_QUALITY) {
+          quality = Math.max(quality - 10, MIN_TARGET_QUALITY);
+          if (!(await this.db.updateMediaJobProgress(jobId, Math.round(80 - (quality - MIN_TARGET_QUALITY) / 2)))) {
+            return null;
+          }
+          image = await this.mediaProcessing.processImage(body, platform, { ...options, quality });
+        }
+        applied.push(image.size <= settings.targetSize ? `fit within ${settings.targetSize} bytes` : `reduced quality toward ${settings.targetSize} bytes`);
+      }
+      if (targetFormat !== sourceFormat) applied.push(`converted to ${targetFormat}`);
+      if (width || height) applied.push(`resized to ${image.width}x${image.height}`);
+      if (quality) applied.push(`quality ${quality}`);
+      if (options.progressive && (targetFormat === 'jpeg' || targetFormat === 'png')) applied.push('progressive encoding');
+      if (options.lossless) applied.push('lossless compression');
+      if (!options.keepMetadata) applied.push('metadata removed');
+      return { buffer: image.buffer, format: targetFormat, width: image.width, height: image.height, quality, applied };
+    }
+
+    if (file.mimeType.startsWith('video/')) {
+      const targetFormat = (format ?? 'mp4') as VideoFormat;
+      if (!VIDEO_FORMATS.includes(targetFormat)) {
+        throw new MediaJobValidationError(`Videos cannot be converted to ${targetFormat}`);
+      }
+      const options: VideoProcessingOptions = this.definedOnly({
+        format: targetFormat,
+        width,
+        height,
+        fps: settings.framerate,
+        bitrate: settings.bitrate ? `${settings.bitrate}k` : undefined,
+        quality: settings.quality === undefined ? undefined : settings.quality < 40 ? 'low' : settings.quality < 75 ? 'medium' : 'high',
+        videoCodec: settings.videoCodec ? VIDEO_CODECS[settings.videoCodec] : undefined,
+        audioCodec: settings.audioCodec ? AUDIO_CODECS[settings.audioCodec] : undefined,
+      });
+      const video = await this.mediaProcessing.processVideo(body, platform, options);
+      applied.push(`encoded as ${targetFormat}`);
+      if (width || height) applied.push(`resized to ${video.width}x${video.height}`);
+      return { buffer: video.buffer, format: targetFormat, width: video.width, height: video.height, duration: video.duration, applied };
+    }
+
+    throw new MediaJobValidationError(`Files of type ${file.mimeType} cannot be processed`);
+  }
+
+  private parseType(type: unknown): MediaJobType {
+    if (type !== 'optimization' && type !== 'conversion') {
+      throw new MediaJobValidationError('type must be optimization or conversion');
+    }
+    return type;
+  }
+
+  /**
+   * Validate job or preset settings; unknown fields are dropped
+   */
+  private normalizeSettings(type: MediaJobType, raw: unknown): MediaJobSettings {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new MediaJobValidationError('settings must be an object');
+    }
+    const input = raw as Record<string, unknown>;
+    const settings: Record<string, unknown> = {};
+
+    if (input.platform !== undefined) {
+      const platform = String(input.platform).toUpperCase();
+      if (!PLATFORM_ADAPTATION_RULES[platform]?.media) {
+        throw new MediaJobValidationError(`No media dimensions for platform ${String(input.platform)}`);
+      }
+      settings.platform = platform;
+    }
+    settings.quality = this.integer(input.quality, 'quality', 1, 100);
+    settings.width = this.integer(input.width, 'width', 1, MAX_DIMENSION);
+    settings.height = this.integer(input.height, 'height', 1, MAX_DIMENSION);
+    if (input.fit !== undefined) {
+      if (!FITS.includes(input.fit as string)) throw new MediaJobValidationError(`fit must be one of ${FITS.join(', ')}`);
+      settings.fit = input.fit;
+    }
+
+    if (type === 'optimization') {
+      // 0 means no target, as sent by forms with an empty size field
+      settings.targetSize = input.targetSize === 0 ? undefined : this.integer(input.targetSize, 'targetSize', 1, Number.MAX_SAFE_INTEGER);
+      if (input.format !== undefined && ![...IMAGE_FORMATS, ...VIDEO_FORMATS].includes(input.format as ImageFormat | VideoFormat)) {
+        throw new MediaJobValidationError(`format must be one of ${[...IMAGE_FORMATS, ...VIDEO_FORMATS].join(', ')}`);
+      }
+      settings.format = input.format;
+      for (const flag of ['progressive', 'lossless', 'removeMetadata', 'optimizeForWeb']) {
+        if (input[flag] !== undefined && typeof input[flag] !== 'boolean') {
+          throw new MediaJobValidationError(`${flag} must be a boolean`);
+        }
+        settings[flag] = input[flag];
+      }
+    } else {
+      if (![...IMAGE_FORMATS, ...VIDEO_FORMATS].includes(input.targetFormat as ImageFormat | VideoFormat)) {
+        throw new MediaJobValidationError(`targetFormat must be one of ${[...IMAGE_FORMATS, ...VIDEO_FORMATS].join(', ')}`);
+      }
+      settings.targetFormat = input.targetFormat;
+      if (input.resolution !== undefined) {
+        if (!input.resolution || typeof input.resolution !== 'object') {
+          throw new MediaJobValidationError('resolution must be an object with width and height');
+        }
+        const resolution = input.resolution as { width?: unknown; height?: unknown };
+        // 0 keeps the source's size in that direction
+        settings.resolution = this.definedOnly({
+          width: resolution.width === 0 ? undefined : this.integer(resolution.width, 'resolution.width', 1, MAX_DIMENSION),
+          height: resolution.height === 0 ? undefined : this.integer(resolution.height, 'resolution.height', 1, MAX_DIMENSION),
+        });
+      }
+      settings.framerate = this.integer(input.framerate, 'framerate', 1, 120);
+      settings.bitrate = this.integer(input.bitrate, 'bitrate', 1, 100000);
+      if (input.videoCodec !== undefined && !Object.prototype.hasOwnProperty.call(VIDEO_CODECS, input.videoCodec as string)) {
+        throw new MediaJobValidationError(`videoCodec must be one of ${Object.keys(VIDEO_CODECS).join(', ')}`);
+      }
+      if (input.audioCodec !== undefined && !Object.prototype.hasOwnProperty.call(AUDIO_CODECS, input.audioCodec as string)) {
+        throw new MediaJobValidationError(`audioCodec must be one of ${Object.keys(AUDIO_CODECS).join(', ')}`);
+      }
+      settings.videoCodec = input.videoCodec;
+      settings.audioCodec = input.audioCodec;
+    }
+    return this.definedOnly(settings) as MediaJobSettings;
+  }
+
+  private integer(value: unknown, field: string, min: number, max: number): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new MediaJobValidationError(`${field} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  // Processing options are merged over platform defaults, so unset fields must be absent rather than undefined
+  private definedOnly<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+  }
+
+  // Seconds left for a processing job, extrapolated from its progress so far
+  private estimateRemaining(job: MediaJobRow): number | undefined {
+    if (job.status !== 'processing' || !job.started_at || !job.progress) return undefined;
+    const elapsed = (Date.now() - new Date(job.started_at).getTime()) / 1000;
+    return Math.max(Math.round((elapsed * (100 - job.progress)) / job.progress), 0);
+  }
+
+  private toPreset(row: MediaPresetRow): MediaPreset {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || '',
+      type: row.type,
+      category: row.category,
+      settings: (row.settings || {}) as MediaJobSettings,
+      builtIn: false,
+      createdAt: new Date(row.created_at).toISOString(),
+      createdBy: row.created_by || '',
+    };
+  }
+
+  private toView(row: MediaJobRow): MediaJobView {
+    return {
+      id: row.id,
+      type: row.type,
+      originalFileId: row.source_asset_id,
+      processedFileId: row.output_asset_id ?? undefined,
+      status: row.status,
+      progress: row.progress,
+      batchId: row.batch_id ?? undefined,
+      presetId: row.preset_id ?? undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      startedAt: row.started_at ? new Date(row.started_at).toISOString() : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at).toISOString() : undefined,
+      metadata: { settings: (row.settings || {}) as MediaJobSettings, result: row.result ?? undefined },
+      error: row.error ?? undefined,
+    };
+  }
+}
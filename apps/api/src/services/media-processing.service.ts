@@ -5,6 +5,7 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PLATFORM_ADAPTATION_RULES } from '../content-adaptation.service';
 
 const execAsync = promisify(exec);
 
@@ -12,8 +13,12 @@ export interface ImageProcessingOptions {
   width?: number;
   height?: number;
   quality?: number;
-  format?: 'jpeg' | 'png' | 'webp';
+  format?: 'jpeg' | 'png' | 'webp' | 'avif' | 'gif';
   fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+  progressive?: boolean;
+  lossless?: boolean;
+  // EXIF, ICC and other metadata are dropped unless kept
+  keepMetadata?: boolean;
 }
 
 export interface ProcessedImage {
@@ -47,6 +52,8 @@ export interface VideoProcessingOptions {
   format?: 'mp4' | 'webm' | 'mov';
   quality?: 'low' | 'medium' | 'high';
   fps?: number;
+  videoCodec?: 'libx264' | 'libx265' | 'libvpx-vp9' | 'libaom-av1';
+  audioCodec?: 'aac' | 'libopus' | 'libmp3lame';
 }
 
 @Injectable()
@@ -76,17 +83,27 @@ export class MediaProcessingService {
       if (finalOptions.format) {
         switch (finalOptions.format) {
           case 'jpeg':
-            image.jpeg({ quality: finalOptions.quality || 85 });
+            image.jpeg({ quality: finalOptions.quality || 85, progressive: finalOptions.progressive });
             break;
           case 'png':
-            image.png({ quality: finalOptions.quality || 90 });
+            image.png({ quality: finalOptions.quality || 90, progressive: finalOptions.progressive });
             break;
           case 'webp':
-            image.webp({ quality: finalOptions.quality || 80 });
+            image.webp({ quality: finalOptions.quality || 80, lossless: finalOptions.lossless });
+            break;
+          case 'avif':
+            image.avif({ quality: finalOptions.quality || 50, lossless: finalOptions.lossless });
+            break;
+          case 'gif':
+            image.gif();
             break;
         }
       }
 
+      if (finalOptions.keepMetadata) {
+        image.withMetadata();
+      }
+
       const processedBuffer = await image.toBuffer();
       const processedMetadata = await sharp(processedBuffer).metadata();
 
@@ -145,8 +162,9 @@ export class MediaProcessingService {
         fs.mkdirSync(tempDir, { recursive: true });
       }
 
-      const inputPath = path.join(tempDir, `input_${Date.now()}.mp4`);
-      const outputPath = path.join(tempDir, `output_${Date.now()}.${finalOptions.format || 'mp4'}`);
+      const runId = `${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+      const inputPath = path.join(tempDir, `input_${runId}.mp4`);
+      const outputPath = path.join(tempDir, `output_${runId}.${finalOptions.format || 'mp4'}`);
 
       // Write input buffer to file
       fs.writeFileSync(inputPath, videoBuffer);
@@ -271,7 +289,9 @@ export class MediaProcessingService {
     let cmd = `ffmpeg -i "${inputPath}"`;
 
     // Video codec and quality
-    if (options.format === 'mp4') {
+    if (options.videoCodec) {
+      cmd += ` -c:v ${options.videoCodec}`;
+    } else if (options.format === 'mp4') {
       cmd += ' -c:v libx264';
     } else if (options.format === 'webm') {
       cmd += ' -c:v libvpx-vp9';
@@ -296,7 +316,7 @@ export class MediaProcessingService {
     }
 
     // Audio
-    cmd += ' -c:a aac -b:a 128k';
+    cmd += ` -c:a ${options.audioCodec || 'aac'} -b:a 128k`;
 
     // Output
     cmd += ` -y "${outputPath}"`;
@@ -308,38 +328,15 @@ export class MediaProcessingService {
    * Get platform-specific video options
    */
   private getPlatformVideoOptions(platform: string): VideoProcessingOptions {
-    switch (platform.toLowerCase()) {
-      case 'instagram':
-        return {
-          width: 1080,
-          height: 1080,
-          format: 'mp4',
-          quality: 'high',
-          fps: 30
-        };
-      case 'facebook':
-        return {
-          width: 1280,
-          height: 720,
-          format: 'mp4',
-          quality: 'medium',
-          fps: 30
-        };
-      case 'youtube':
-        return {
-          width: 1920,
-          height: 1080,
-          format: 'mp4',
-          quality: 'high',
-          fps: 30
-        };
-      default:
-        return {
-          format: 'mp4',
-          quality: 'medium',
-          fps: 30
-        };
+    const spec = PLATFORM_ADAPTATION_RULES[platform.toUpperCase()]?.media?.video;
+    if (spec) {
+      return { ...spec };
     }
+    return {
+      format: 'mp4',
+      quality: 'medium',
+      fps: 30
+    };
   }
 
   /**
@@ -374,34 +371,13 @@ export class MediaProcessingService {
    * Get platform-specific image requirements
    */
   private getPlatformImageOptions(platform: string): ImageProcessingOptions {
-    switch (platform.toLowerCase()) {
-      case 'facebook':
-        return {
-          width: 1200,
-          height: 630,
-          quality: 85,
-          format: 'jpeg',
-          fit: 'cover'
-        };
-
-      case 'instagram':
-        return {
-          width: 1080,
-          height: 1080,
-          quality: 90,
-          format: 'jpeg',
-          fit: 'cover'
-        };
-
-      case 'linkedin':
-        return {
-          width: 1200,
-          height: 627,
-          quality: 85,
-          format: 'jpeg',
-          fit: 'cover'
-        };
+    // Platforms we publish to are sized by their adaptation rules
+    const spec = PLATFORM_ADAPTATION_RULES[platform.toUpperCase()]?.media?.image;
+    if (spec) {
+      return { ...spec };
+    }
 
+    switch (platform.toLowerCase()) {
       case 'twitter':
         return {
           width: 1200,
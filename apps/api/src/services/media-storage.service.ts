@@ -0,0 +1,479 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { DbService, MediaAssetRow } from '../db.service';
+import { StorageDriver } from '../platforms/storage/storage-driver';
+
+export interface StorageQuota {
+  maxStorage: number;
+  maxFiles: number;
+  maxFileSize: number;
+  // MIME types or wildcards such as image/*
+  allowedTypes: string[];
+  // Delete files not downloaded for cleanupDays
+  autoCleanup: boolean;
+  cleanupDays: number;
+}
+
+export const DEFAULT_STORAGE_QUOTA: StorageQuota = {
+  maxStorage: 5 * 1024 * 1024 * 1024, // 5 GB
+  maxFiles: 10000,
+  maxFileSize: 100 * 1024 * 1024, // 100 MB
+  allowedTypes: ['image/*', 'video/*', 'audio/*', 'application/pdf'],
+  autoCleanup: false,
+  cleanupDays: 90,
+};
+
+export interface MediaUploadInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  category?: string;
+  tags?: string[];
+  description?: string;
+  // Set for files produced from another file by a media job
+  sourceFileId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface MediaFileQuery {
+  category?: string;
+  tags?: string[];
+  search?: string;
+  sortBy?: 'name' | 'size' | 'uploadedAt' | 'category';
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export interface MediaFile {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  // Signed download link, valid without a session until it expires
+  url: string;
+  thumbnailUrl?: string;
+  category: string;
+  tags: string[];
+  description?: string;
+  contentHash: string;
+  downloadCount: number;
+  uploadedAt: string;
+  uploadedBy: string;
+  sourceFileId?: string;
+  metadata: Record<string, unknown>;
+}
+
+export type StoragePeriod = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * The upload, file metadata or quota settings are invalid
+ */
+export class StorageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageValidationError';
+  }
+}
+
+/**
+ * The upload is larger than the organization allows, or would take it over its storage or file limit
+ */
+export class StorageQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Download links cannot be signed safely with the current configuration
+ */
+export class StorageSigningSecretError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSigningSecretError';
+  }
+}
+
+const DEV_SIGNING_SECRET = 'dev-secret-change-me';
+
+/**
+ * The secret download links are signed with. Outside production a development secret is used when none is
+ * configured; in production that would let anyone sign their own links, so it is an error.
+ */
+export function loadStorageSigningSecret(env: Record<string, string | undefined> = process.env): string {
+  const secret = env.STORAGE_SIGNING_SECRET || env.JWT_SECRET;
+  if (env.NODE_ENV !== 'production') return secret || DEV_SIGNING_SECRET;
+  if (!secret) {
+    throw new StorageSigningSecretError('STORAGE_SIGNING_SECRET or JWT_SECRET must be set in production');
+  }
+  if (secret === DEV_SIGNING_SECRET) {
+    throw new StorageSigningSecretError('The storage signing secret is the development secret, which is not allowed in production');
+  }
+  return secret;
+}
+
+const SORT_FIELDS = ['name', 'size', 'uploadedAt', 'category'];
+const PERIOD_DAYS: Record<StoragePeriod, number> = { day: 1, week: 7, month: 30, year: 365 };
+const MIME_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/(\*|[a-z0-9][a-z0-9!#$&^_.+-]*)$/i;
+// Presigned store URLs are only handed out by the download redirect, so they can be short-lived
+const REDIRECT_URL_TTL_SECONDS = 300;
+
+/**
+ * Organization files on top of the configured StorageDriver. Content is stored once per organization under
+ * its SHA-256 (re-uploading identical bytes returns the existing file), uploads are checked against the
+ * organization's quota, and files are downloaded through links signed by the API, which count downloads
+ * and then serve the bytes or redirect to the store.
+ */
+@Injectable()
+export class MediaStorageService {
+  private readonly logger = new Logger(MediaStorageService.name);
+  private readonly signingSecret = loadStorageSigningSecret();
+  private readonly urlTtlSeconds = Number(process.env.STORAGE_URL_TTL_SECONDS) || 3600;
+
+  constructor(
+    private readonly db: DbService,
+    private readonly driver: StorageDriver,
+  ) {}
+
+  async upload(organizationId: string, uploadedBy: string | null, input: MediaUploadInput): Promise<{ file: MediaFile; duplicate: boolean }> {
+    if (!input.buffer || input.buffer.length === 0) {
+      throw new StorageValidationError('file is required');
+    }
+    const fileName = this.normalizeFileName(input.fileName);
+    const mimeType = (input.mimeType || 'application/octet-stream').toLowerCase();
+    const details = this.normalizeDetails({ category: input.category, tags: input.tags, description: input.description });
+
+    const quota = await this.getQuota(organizationId);
+    if (input.buffer.length > quota.maxFileSize) {
+      throw new StorageQuotaError(`File exceeds the maximum file size of ${quota.maxFileSize} bytes`);
+    }
+    if (!quota.allowedTypes.some(type => this.matchesType(mimeType, type))) {
+      throw new StorageValidationError(`File type ${mimeType} is not allowed`);
+    }
+
+    const contentHash = crypto.createHash('sha256').update(input.buffer).digest('hex');
+    const existing = await this.db.getMediaAssetByHash(organizationId, contentHash);
+    if (existing) {
+      return { file: this.toMediaFile(existing), duplicate: true };
+    }
+
+    const storageKey = `${organizationId}/${contentHash}`;
+    await this.driver.put(storageKey, input.buffer, mimeType);
+
+    const created = await this.db.createMediaAsset(
+      {
+        id: `media_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+        organizationId,
+        storageDriver: this.driver.type,
+        storageKey,
+        contentHash,
+        fileName,
+        mimeType,
+        fileSize: input.buffer.length,
+        category: details.category || 'general',
+        tags: details.tags || [],
+        description: details.description ?? null,
+        metadata: { ...input.metadata, originalName: input.fileName },
+        uploadedBy,
+        sourceAssetId: input.sourceFileId ?? null,
+      },
+      quota,
+    );
+    if (created.exceeded) {
+      // Keep the object if an identical upload was recorded in the meantime
+      if (!(await this.db.getMediaAssetByHash(organizationId, contentHash))) {
+        await this.driver.delete(storageKey).catch((error: Error) => this.logger.warn(`Failed to remove rejected upload ${storageKey}: ${error.message}`));
+      }
+      throw new StorageQuotaError(created.exceeded === 'storage'
+        ? `Upload would exceed the storage quota of ${quota.maxStorage} bytes`
+        : `Upload would exceed the limit of ${quota.maxFiles} files`);
+    }
+    return { file: this.toMediaFile(created.asset), duplicate: created.duplicate };
+  }
+
+  async listFiles(organizationId: string, query: MediaFileQuery): Promise<{ files: MediaFile[]; totalCount: number; hasMore: boolean }> {
+    const limit = Math.min(Math.max(Math.floor(query.limit || 50), 1), 200);
+    const offset = Math.max(Math.floor(query.offset || 0), 0);
+    const { rows, total } = await this.db.listMediaAssets(organizationId, {
+      category: query.category || undefined,
+      tags: (query.tags || []).map(tag => tag.trim()).filter(Boolean),
+      search: query.search?.trim() || undefined,
+      sortBy: query.sortBy && SORT_FIELDS.includes(query.sortBy) ? query.sortBy : 'uploadedAt',
+      sortOrder: query.sortOrder === 'asc' ? 'asc' : 'desc',
+      limit,
+      offset,
+    });
+    return { files: rows.map(row => this.toMediaFile(row)), totalCount: total, hasMore: offset + rows.length < total };
+  }
+
+  async getFile(organizationId: string, fileId: string): Promise<MediaFile | null> {
+    const asset = await this.db.getMediaAsset(fileId, organizationId);
+    return asset ? this.toMediaFile(asset) : null;
+  }
+
+  /**
+   * A file's bytes as stored, for processing inside the API and worker
+   */
+  async readFile(organizationId: string, fileId: string): Promise<{ file: MediaFile; body: Buffer } | null> {
+    const asset = await this.db.getMediaAsset(fileId, organizationId);
+    if (!asset) return null;
+    const body = await this.driver.get(asset.storage_key);
+    if (!body) {
+      this.logger.error(`Stored object ${asset.storage_key} for media asset ${asset.id} is missing`);
+      return null;
+    }
+    return { file: this.toMediaFile(asset), body };
+  }
+
+  async updateMetadata(
+    organizationId: string,
+    fileId: string,
+    updates: { category?: string; tags?: string[]; description?: string | null },
+  ): Promise<MediaFile | null> {
+    const details = this.normalizeDetails(updates || {});
+    const asset = await this.db.updateMediaAssetMetadata(fileId, organizationId, details);
+    return asset ? this.toMediaFile(asset) : null;
+  }
+
+  async deleteFile(organizationId: string, fileId: string): Promise<boolean> {
+    const asset = await this.db.deleteMediaAsset(fileId, organizationId);
+    if (!asset) return false;
+    await this.removeObject(asset);
+    return true;
+  }
+
+  async getQuota(organizationId: string): Promise<StorageQuota> {
+    const row = await this.db.getStorageQuota(organizationId);
+    if (!row) return { ...DEFAULT_STORAGE_QUOTA, allowedTypes: [...DEFAULT_STORAGE_QUOTA.allowedTypes] };
+    return {
+      maxStorage: Number(row.max_storage),
+      maxFiles: row.max_files,
+      maxFileSize: Number(row.max_file_size),
+      allowedTypes: row.allowed_types,
+      autoCleanup: row.auto_cleanup,
+      cleanupDays: row.cleanup_days,
+    };
+  }
+
+  // Settings left out keep their current value
+  async updateQuota(organizationId: string, settings: Partial<StorageQuota>): Promise<StorageQuota> {
+    const quota = { ...(await this.getQuota(organizationId)) };
+    for (const field of ['maxStorage', 'maxFiles', 'maxFileSize', 'cleanupDays'] as const) {
+      const value = settings?.[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 1) {
+        throw new StorageValidationError(`${field} must be a positive integer`);
+      }
+      quota[field] = value;
+    }
+    if (settings?.allowedTypes !== undefined) {
+      if (!Array.isArray(settings.allowedTypes) || settings.allowedTypes.length === 0
+        || !settings.allowedTypes.every(type => typeof type === 'string' && MIME_PATTERN.test(type))) {
+        throw new StorageValidationError('allowedTypes must be a non-empty list of MIME types such as image/png or image/*');
+      }
+      quota.allowedTypes = Array.from(new Set(settings.allowedTypes.map(type => type.toLowerCase())));
+    }
+    if (settings?.autoCleanup !== undefined) {
+      if (typeof settings.autoCleanup !== 'boolean') throw new StorageValidationError('autoCleanup must be a boolean');
+      quota.autoCleanup = settings.autoCleanup;
+    }
+    if (quota.maxFileSize > quota.maxStorage) {
+      throw new StorageValidationError('maxFileSize cannot be larger than maxStorage');
+    }
+
+    await this.db.upsertStorageQuota(organizationId, quota);
+    return quota;
+  }
+
+  async getUsage(organizationId: string) {
+    const [quota, categories] = await Promise.all([this.getQuota(organizationId), this.db.getStorageUsage(organizationId)]);
+    const totalUsed = categories.reduce((sum, c) => sum + Number(c.used), 0);
+    const filesCount = categories.reduce((sum, c) => sum + c.files_count, 0);
+    return {
+      usage: {
+        totalUsed,
+        totalAvailable: Math.max(quota.maxStorage - totalUsed, 0),
+        percentageUsed: this.percentage(totalUsed, quota.maxStorage),
+        filesCount,
+        categories: categories.map(c => ({
+          category: c.category,
+          used: Number(c.used),
+          filesCount: c.files_count,
+          percentage: this.percentage(Number(c.used), totalUsed),
+        })),
+      },
+      quotas: {
+        maxStorage: quota.maxStorage,
+        maxFiles: quota.maxFiles,
+        maxFileSize: quota.maxFileSize,
+        allowedTypes: quota.allowedTypes,
+      },
+    };
+  }
+
+  /**
+   * Uploads and storage growth per day over the period, from the files the organization still has
+   */
+  async getAnalytics(organizationId: string, period: StoragePeriod = 'month') {
+    const days = PERIOD_DAYS[period] || PERIOD_DAYS.month;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [{ daily, usedBefore, topFiles }, categories] = await Promise.all([
+      this.db.getStorageAnalytics(organizationId, since),
+      this.db.getStorageUsage(organizationId),
+    ]);
+    const totalUsed = categories.reduce((sum, c) => sum + Number(c.used), 0);
+
+    let runningTotal = usedBefore;
+    const storageGrowth = daily.map(day => {
+      const previous = runningTotal;
+      runningTotal += Number(day.total_size);
+      return { date: day.date, totalUsed: runningTotal, growthRate: previous > 0 ? Math.round(((runningTotal - previous) / previous) * 10000) / 100 : 0 };
+    });
+
+    return {
+      uploadTrends: daily.map(day => ({ date: day.date, uploads: day.uploads, totalSize: Number(day.total_size) })),
+      categoryDistribution: categories.map(c => ({
+        category: c.category,
+        files: c.files_count,
+        size: Number(c.used),
+        percentage: this.percentage(Number(c.used), totalUsed),
+      })),
+      topFiles: topFiles.map(file => ({
+        id: file.id,
+        fileName: file.file_name,
+        fileSize: Number(file.file_size),
+        downloadCount: file.download_count,
+        lastAccessed: file.last_accessed_at ? new Date(file.last_accessed_at).toISOString() : null,
+      })),
+      storageGrowth,
+    };
+  }
+
+  /**
+   * Resolve a signed download link: the file's bytes when they are served by the API, or a short-lived
+   * URL on the store to redirect to. Null when the link is invalid, expired or the file is gone.
+   */
+  async openDownload(fileId: string, expires: number, signature: string): Promise<{ file: MediaFile; body?: Buffer; redirectUrl?: string } | null> {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now() || !this.verifySignature(fileId, expires, signature)) {
+      return null;
+    }
+    const asset = await this.db.recordMediaAssetDownload(fileId);
+    if (!asset) return null;
+
+    const redirectUrl = await this.driver.presignedDownloadUrl(asset.storage_key, REDIRECT_URL_TTL_SECONDS, asset.file_name);
+    if (redirectUrl) return { file: this.toMediaFile(asset), redirectUrl };
+
+    const body = await this.driver.get(asset.storage_key);
+    if (!body) {
+      this.logger.error(`Stored object ${asset.storage_key} for media asset ${asset.id} is missing`);
+      return null;
+    }
+    return { file: this.toMediaFile(asset), body };
+  }
+
+  /**
+   * Delete files of organizations with auto-cleanup that have not been downloaded within their cleanup
+   * period. Run periodically by the worker; safe to run from several processes at once.
+   */
+  async cleanupExpiredFiles(): Promise<number> {
+    let removed = 0;
+    for (const asset of await this.db.getExpiredMediaAssets()) {
+      const deleted = await this.db.deleteMediaAsset(asset.id, asset.organization_id);
+      if (!deleted) continue;
+      await this.removeObject(deleted);
+      removed++;
+    }
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} media files past their organization's cleanup period`);
+    }
+    return removed;
+  }
+
+  private async removeObject(asset: MediaAssetRow): Promise<void> {
+    try {
+      await this.driver.delete(asset.storage_key);
+    } catch (error) {
+      // The record is gone; an orphaned object is only wasted space
+      this.logger.warn(`Failed to delete stored object ${asset.storage_key}: ${(error as Error).message}`);
+    }
+  }
+
+  private toMediaFile(asset: MediaAssetRow): MediaFile {
+    const url = this.signedUrl(asset.id);
+    return {
+      id: asset.id,
+      fileName: asset.file_name,
+      fileSize: Number(asset.file_size),
+      mimeType: asset.mime_type,
+      url,
+      thumbnailUrl: asset.mime_type.startsWith('image/') ? url : undefined,
+      category: asset.category,
+      tags: asset.tags || [],
+      description: asset.description ?? undefined,
+      contentHash: asset.content_hash,
+      downloadCount: asset.download_count,
+      uploadedAt: new Date(asset.created_at).toISOString(),
+      uploadedBy: asset.uploaded_by || '',
+      sourceFileId: asset.source_asset_id ?? undefined,
+      metadata: asset.metadata || {},
+    };
+  }
+
+  private signedUrl(fileId: string): string {
+    const expires = Math.floor(Date.now() / 1000) + this.urlTtlSeconds;
+    const base = (process.env.API_BASE_URL || 'http://localhost:44000').replace(/\/+$/, '');
+    return `${base}/storage/files/${encodeURIComponent(fileId)}/download?expires=${expires}&signature=${this.sign(fileId, expires)}`;
+  }
+
+  private sign(fileId: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${fileId}:${expires}`).digest('hex');
+  }
+
+  private verifySignature(fileId: string, expires: number, signature: string): boolean {
+    const expected = Buffer.from(this.sign(fileId, expires), 'hex');
+    const given = Buffer.from(String(signature || ''), 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  private normalizeFileName(fileName: string): string {
+    // eslint-disable-next-line no-control-regex
+    const name = path.basename(String(fileName || '').replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f]/g, '').trim();
+    if (!name) throw new StorageValidationError('fileName is required');
+    return name.slice(0, 255);
+  }
+
+  private normalizeDetails(details: { category?: unknown; tags?: unknown; description?: unknown }): { category?: string; tags?: string[]; description?: string | null } {
+    const result: { category?: string; tags?: string[]; description?: string | null } = {};
+    if (details.category !== undefined) {
+      if (typeof details.category !== 'string' || !details.category.trim() || details.category.trim().length > 100) {
+        throw new StorageValidationError('category must be a non-empty string of at most 100 characters');
+      }
+      result.category = details.category.trim();
+    }
+    if (details.tags !== undefined) {
+      if (!Array.isArray(details.tags) || details.tags.length > 50 || !details.tags.every(tag => typeof tag === 'string' && tag.trim().length <= 50)) {
+        throw new StorageValidationError('tags must be a list of at most 50 strings of at most 50 characters');
+      }
+      result.tags = Array.from(new Set((details.tags as string[]).map(tag => tag.trim()).filter(Boolean)));
+    }
+    if (details.description !== undefined) {
+      if (details.description !== null && (typeof details.description !== 'string' || details.description.length > 2000)) {
+        throw new StorageValidationError('description must be a string of at most 2000 characters');
+      }
+      result.description = typeof details.description === 'string' && details.description.trim() ? details.description.trim() : null;
+    }
+    return result;
+  }
+
+  private matchesType(mimeType: string, allowed: string): boolean {
+    const pattern = allowed.toLowerCase();
+    return pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern;
+  }
+
+  private percentage(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+  }
+}
@@ -1,4 +1,5 @@
 import client from 'prom-client';
+import { CircuitBreakerState, circuitStateValue } from './circuit-breaker';
 
 export class MetricsService {
   queueLag: client.Gauge;
@@ -10,6 +11,14 @@ export class MetricsService {
   perplexityFailure: client.Counter;
   perplexityCacheHit: client.Counter;
   perplexityTokens: client.Counter;
+  llmTokens: client.Counter;
+  llmCost: client.Counter;
+  llmFallback: client.Counter;
+  circuitBreakerState: client.Gauge;
+  circuitBreakerFailures: client.Gauge;
+  retryBudgetExhausted: client.Counter;
+  // Breakers are shared through Redis, so gauges are read from the store at scrape time
+  private circuitBreakerSource?: () => Promise<Record<string, CircuitBreakerState>>;
 
   constructor() {
     client.collectDefaultMetrics();
@@ -69,6 +78,59 @@ export class MetricsService {
       help: 'Total tokens used by perplexity operations',
       labelNames: ['method', 'token_type'] as const // token_type: prompt|completion|total
     });
+
+    this.llmTokens = new client.Counter({
+      name: 'llm_tokens_total',
+      help: 'Total tokens used by LLM calls across providers',
+      labelNames: ['provider', 'model', 'feature', 'token_type'] as const // token_type: prompt|completion|total
+    });
+
+    this.llmCost = new client.Counter({
+      name: 'llm_cost_usd_total',
+      help: 'Estimated cost of LLM calls in USD',
+      labelNames: ['provider', 'model', 'feature'] as const
+    });
+
+    this.llmFallback = new client.Counter({
+      name: 'llm_fallback_total',
+      help: 'LLM calls served by a later provider in the route',
+      labelNames: ['provider', 'feature'] as const
+    });
+
+    const source = (): Promise<Record<string, CircuitBreakerState>> => this.circuitBreakerSource?.() ?? Promise.resolve({});
+    this.circuitBreakerState = new client.Gauge({
+      name: 'circuit_breaker_state',
+      help: 'Circuit breaker state shared across processes: 0 closed, 1 half-open, 2 open',
+      labelNames: ['circuit'] as const,
+      async collect() {
+        this.reset();
+        for (const [circuit, breaker] of Object.entries(await source())) {
+          this.set({ circuit }, circuitStateValue(breaker.state));
+        }
+      }
+    });
+
+    this.circuitBreakerFailures = new client.Gauge({
+      name: 'circuit_breaker_failures',
+      help: 'Failures inside the circuit breaker monitoring period',
+      labelNames: ['circuit'] as const,
+      async collect() {
+        this.reset();
+        for (const [circuit, breaker] of Object.entries(await source())) {
+          this.set({ circuit }, breaker.failureCount);
+        }
+      }
+    });
+
+    this.retryBudgetExhausted = new client.Counter({
+      name: 'retry_budget_exhausted_total',
+      help: 'Retries skipped because the provider retry budget was spent',
+      labelNames: ['provider'] as const
+    });
+  }
+
+  setCircuitBreakerSource(source: () => Promise<Record<string, CircuitBreakerState>>) {
+    this.circuitBreakerSource = source;
   }
 }
 
@@ -0,0 +1,265 @@
+import { Injectable, Logger } from '@nestjs/common';
+import crypto from 'crypto';
+import { DbService, SubscriberListRow, SubscriberRow } from '../db.service';
+import { MailTransportService, isHardBounce, isTransientMailError } from '../platforms/mail/mail-transport.service';
+import { escapeHtml, renderNewsletter } from '../platforms/mail/newsletter-renderer';
+
+export interface NewsletterSendRequest {
+  scheduleId: string;
+  contentItemId: string;
+  listId: string;
+}
+
+export interface NewsletterSendSummary {
+  listId: string;
+  total: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+  // Failures worth retrying (SMTP 4xx / connection errors); the publish job is retried while this is > 0
+  deferred: number;
+}
+
+// Where a newsletter's list can be set: the schedule's adapted content or the version metadata
+interface NewsletterListChoice {
+  listId?: string;
+}
+
+interface NewsletterVersion {
+  title?: string | null;
+  body?: string | null;
+  summary?: string | null;
+  metadata_json?: { newsletter?: NewsletterListChoice } | null;
+  metadata?: { newsletter?: NewsletterListChoice } | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+@Injectable()
+export class NewsletterService {
+  private readonly logger = new Logger(NewsletterService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly mailTransport: MailTransportService,
+  ) {}
+
+  async createList(organizationId: string, list: { name: string; description?: string; fromName?: string; fromEmail?: string; doubleOptIn?: boolean }) {
+    if (!list.name || !list.name.trim()) {
+      throw new Error('List name is required');
+    }
+    if (list.fromEmail && !EMAIL_PATTERN.test(list.fromEmail)) {
+      throw new Error('Invalid from email');
+    }
+    return this.dbService.createSubscriberList(organizationId, { ...list, name: list.name.trim() });
+  }
+
+  async getLists(organizationId: string) {
+    return this.dbService.getSubscriberLists(organizationId);
+  }
+
+  async deleteList(organizationId: string, listId: string) {
+    return this.dbService.deleteSubscriberList(listId, organizationId);
+  }
+
+  async getSubscribers(organizationId: string, listId: string, opts: { status?: string; limit?: number; offset?: number } = {}) {
+    const list = await this.dbService.getSubscriberList(listId, organizationId);
+    if (!list) return null;
+    const subscribers = await this.dbService.getSubscribers(listId, opts);
+    // Tokens grant confirm/unsubscribe rights and are only ever sent to the subscriber
+    return subscribers.map(subscriber => ({
+      id: subscriber.id,
+      email: subscriber.email,
+      name: subscriber.name,
+      status: subscriber.status,
+      confirmedAt: subscriber.confirmed_at,
+      unsubscribedAt: subscriber.unsubscribed_at,
+      createdAt: subscriber.created_at,
+    }));
+  }
+
+  /**
+   * Add an address to a list. Lists with double opt-in keep the subscriber pending
+   * until the emailed confirmation link is followed. Addresses that unsubscribed or bounced
+   * only return through that link, even when confirmation is skipped.
+   */
+  async subscribe(listId: string, email: string, name?: string, opts: { organizationId?: string; skipConfirmation?: boolean } = {}) {
+    const normalized = (email || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new Error('Invalid email address');
+    }
+
+    const list = await this.dbService.getSubscriberList(listId, opts.organizationId);
+    if (!list) {
+      throw new Error('Subscriber list not found');
+    }
+
+    const requiresConfirmation = list.double_opt_in && !opts.skipConfirmation;
+    const subscriber = await this.dbService.upsertSubscriber(listId, list.organization_id, {
+      email: normalized,
+      name,
+      status: requiresConfirmation ? 'pending' : 'subscribed',
+      confirmToken: this.generateToken(),
+      unsubscribeToken: this.generateToken(),
+    });
+
+    // Also sent to addresses that unsubscribed or bounced; they stay off the list unless they confirm
+    if (subscriber.status !== 'subscribed' && subscriber.confirm_token) {
+      await this.sendConfirmation(list, subscriber);
+    }
+
+    return { id: subscriber.id, email: subscriber.email, status: subscriber.status };
+  }
+
+  async confirm(token: string) {
+    const subscriber = await this.dbService.confirmSubscriber(token);
+    if (!subscriber) return null;
+    this.logger.log(`Subscriber ${subscriber.id} confirmed for list ${subscriber.list_id}`);
+    return { id: subscriber.id, email: subscriber.email, status: subscriber.status };
+  }
+
+  async unsubscribe(token: string) {
+    const subscriber = await this.dbService.unsubscribeByToken(token);
+    if (!subscriber) return null;
+    this.logger.log(`Subscriber ${subscriber.id} unsubscribed from list ${subscriber.list_id}`);
+    return { id: subscriber.id, email: subscriber.email, status: subscriber.status };
+  }
+
+  /**
+   * Resolve which list a newsletter goes to: schedule override, then version metadata, then the org's first list
+   */
+  async resolveListId(organizationId: string, scheduleContent: NewsletterListChoice | null | undefined, version: NewsletterVersion | null): Promise<string | null> {
+    const metadata = version?.metadata_json || version?.metadata || {};
+    const explicit = scheduleContent?.listId || metadata.newsletter?.listId;
+    if (explicit) {
+      const list = await this.dbService.getSubscriberList(explicit, organizationId);
+      return list ? list.id : null;
+    }
+    const lists = await this.dbService.getSubscriberLists(organizationId);
+    return lists[0]?.id || null;
+  }
+
+  /**
+   * Deliver the current version of a content item to every subscribed address on a list.
+   * Recipients already delivered for this schedule are skipped, so retried jobs only resend what failed.
+   */
+  async sendNewsletter(request: NewsletterSendRequest): Promise<NewsletterSendSummary> {
+    const { scheduleId, contentItemId, listId } = request;
+
+    const list = await this.dbService.getSubscriberList(listId);
+    if (!list) {
+      throw new Error('Subscriber list not found');
+    }
+    const content = await this.dbService.getContentItem(contentItemId) as { title: string } | null;
+    const version = await this.dbService.getCurrentContentVersion(contentItemId) as NewsletterVersion | null;
+    if (!content || !version) {
+      throw new Error('Content not found');
+    }
+
+    const subscribers = await this.dbService.getSubscribers(listId, { status: 'subscribed' });
+    const deliveries = await this.dbService.getNewsletterDeliveries(scheduleId);
+    const alreadySent = new Set(deliveries.filter(d => d.status === 'sent').map(d => d.subscriber_id));
+
+    const summary: NewsletterSendSummary = { listId, total: subscribers.length, sent: 0, skipped: 0, failed: 0, deferred: 0 };
+    const from = this.fromAddress(list);
+
+    for (const subscriber of subscribers) {
+      if (alreadySent.has(subscriber.id)) {
+        summary.skipped++;
+        continue;
+      }
+
+      const unsubscribeUrl = this.publicUrl(`/newsletter/unsubscribe/${subscriber.unsubscribe_token}`);
+      const rendered = renderNewsletter({
+        title: version.title || content.title,
+        body: version.body || '',
+        summary: version.summary,
+        listName: list.name,
+        unsubscribeUrl,
+      });
+
+      try {
+        const result = await this.mailTransport.send({
+          from,
+          to: subscriber.email,
+          subject: rendered.subject,
+          html: rendered.html,
+          text: rendered.text,
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+
+        await this.dbService.recordNewsletterDelivery({
+          scheduleId,
+          contentItemId,
+          listId,
+          subscriberId: subscriber.id,
+          email: subscriber.email,
+          status: result.accepted ? 'sent' : 'failed',
+          providerMessageId: result.messageId,
+          error: result.accepted ? undefined : 'Recipient rejected',
+        });
+        if (result.accepted) summary.sent++;
+        else summary.failed++;
+      } catch (error) {
+        const transient = isTransientMailError(error);
+        const message = (error instanceof Error && error.message) || 'Unknown error';
+        this.logger.warn(`Newsletter delivery to ${subscriber.id} failed (${transient ? 'transient' : 'permanent'}): ${message}`);
+
+        await this.dbService.recordNewsletterDelivery({
+          scheduleId,
+          contentItemId,
+          listId,
+          subscriberId: subscriber.id,
+          email: subscriber.email,
+          status: 'failed',
+          error: message,
+        });
+        if (isHardBounce(error)) {
+          await this.dbService.markSubscriberBounced(subscriber.id);
+        }
+        if (transient) summary.deferred++;
+        else summary.failed++;
+      }
+    }
+
+    this.logger.log(`Newsletter ${contentItemId} to list ${listId}: ${JSON.stringify(summary)}`);
+    return summary;
+  }
+
+  private async sendConfirmation(list: SubscriberListRow, subscriber: SubscriberRow): Promise<void> {
+    const confirmUrl = this.publicUrl(`/newsletter/confirm/${subscriber.confirm_token}`);
+    const listName = list.name;
+
+    try {
+      await this.mailTransport.send({
+        from: this.fromAddress(list),
+        to: subscriber.email,
+        subject: `Confirm your subscription to ${listName}`,
+        html: `<p>Please confirm your subscription to <strong>${escapeHtml(listName)}</strong>.</p><p><a href="${escapeHtml(confirmUrl)}">Confirm subscription</a></p><p style="font-size:12px;color:#666">If you did not request this, you can ignore this email.</p>`,
+        text: `Please confirm your subscription to ${listName}:\n${confirmUrl}\n\nIf you did not request this, you can ignore this email.\n`,
+      });
+    } catch (error) {
+      // The subscriber stays pending; subscribing again re-sends the confirmation
+      this.logger.error(`Failed to send confirmation to subscriber ${subscriber.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private fromAddress(list: SubscriberListRow): string {
+    if (list.from_email) {
+      return list.from_name ? `"${list.from_name.replace(/"/g, '')}" <${list.from_email}>` : list.from_email;
+    }
+    return this.mailTransport.defaultFrom;
+  }
+
+  private publicUrl(path: string): string {
+    const base = (process.env.API_BASE_URL || 'http://localhost:44000').replace(/\/+$/, '');
+    return `${base}${path}`;
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+}
@@ -1,12 +1,38 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DbService } from '../db.service';
+import { MailTransportService } from '../platforms/mail/mail-transport.service';
+import { escapeHtml } from '../platforms/mail/newsletter-renderer';
+import { decryptToken, encryptToken } from '../token.util';
+import {
+  DEFAULT_RETRY_POLICY,
+  DELIVERY_HEADER,
+  NotificationPayload,
+  NotificationTransportError,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  TransportResult,
+  buildSlackPayload,
+  buildTeamsPayload,
+  buildWebhookBody,
+  deliverWithRetry,
+  postJson,
+  signWebhookPayload,
+  toMailTransportError,
+} from '../platforms/notifications/notification-transports';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export interface NotificationChannel {
   id: string;
   type: 'email' | 'slack' | 'teams' | 'webhook' | 'push';
   name: string;
   organizationId: string;
+  // email: { to, from? }, slack/teams: { webhookUrl }, webhook: { url, secret }
   configuration: Record<string, any>;
+  // Attempts per delivery before the channel is marked failed (default 3)
+  maxAttempts?: number;
   enabled: boolean;
   createdAt: string;
 }
@@ -47,13 +73,39 @@ export interface Notification {
   message: string;
   data: Record<string, any>;
   channels: string[];
-  status: 'pending' | 'sent' | 'failed' | 'delivered';
+  // sent: every channel delivered, partial: some did, failed: none did
+  status: 'pending' | 'sent' | 'partial' | 'failed' | 'delivered';
   sentAt?: string;
   deliveredAt?: string;
   error?: string;
   createdAt: string;
 }
 
+export interface NotificationDelivery {
+  id: string;
+  notificationId: string;
+  channelId: string;
+  channelType?: NotificationChannel['type'];
+  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+export class NotificationChannelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationChannelError';
+  }
+}
+
+// Channel configuration keys that are credentials: stored encrypted and never returned
+const SECRET_KEYS: Partial<Record<NotificationChannel['type'], string>> = {
+  slack: 'webhookUrl',
+  teams: 'webhookUrl',
+  webhook: 'secret',
+};
+
 export interface NotificationPreferences {
   userId: string;
   organizationId: string;
@@ -83,7 +135,10 @@ export interface NotificationPreferences {
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
 
-  constructor(private readonly db: DbService) {}
+  constructor(
+    private readonly db: DbService,
+    private readonly mailTransport: MailTransportService,
+  ) {}
 
   async sendNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'status'>): Promise<string> {
     try {
@@ -105,26 +160,30 @@ export class NotificationService {
       this.logger.log(`Sent notification: ${notificationId}`);
       return notificationId;
     } catch (error) {
-      this.logger.error(`Failed to send notification: ${error.message}`);
-      throw new Error(`Failed to send notification: ${error.message}`);
+      this.logger.error(`Failed to send notification: ${errorMessage(error)}`);
+      throw new Error(`Failed to send notification: ${errorMessage(error)}`);
     }
   }
 
   async createNotificationChannel(channel: Omit<NotificationChannel, 'id' | 'createdAt'>): Promise<string> {
+    const { configuration, secret } = this.validateChannel(channel);
     try {
       const channelId = `channel_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
       
       await this.db.createNotificationChannel({
         id: channelId,
         ...channel,
+        configuration,
+        secretEnc: secret ? encryptToken(secret) : null,
+        maxAttempts: channel.maxAttempts,
         createdAt: new Date().toISOString()
       });
 
       this.logger.log(`Created notification channel: ${channelId}`);
       return channelId;
     } catch (error) {
-      this.logger.error(`Failed to create notification channel: ${error.message}`);
-      throw new Error(`Failed to create notification channel: ${error.message}`);
+      this.logger.error(`Failed to create notification channel: ${errorMessage(error)}`);
+      throw new Error(`Failed to create notification channel: ${errorMessage(error)}`);
     }
   }
 
@@ -141,8 +200,8 @@ export class NotificationService {
       this.logger.log(`Created notification template: ${templateId}`);
       return templateId;
     } catch (error) {
-      this.logger.error(`Failed to create notification template: ${error.message}`);
-      throw new Error(`Failed to create notification template: ${error.message}`);
+      this.logger.error(`Failed to create notification template: ${errorMessage(error)}`);
+      throw new Error(`Failed to create notification template: ${errorMessage(error)}`);
     }
   }
 
@@ -159,8 +218,8 @@ export class NotificationService {
       this.logger.log(`Created notification rule: ${ruleId}`);
       return ruleId;
     } catch (error) {
-      this.logger.error(`Failed to create notification rule: ${error.message}`);
-      throw new Error(`Failed to create notification rule: ${error.message}`);
+      this.logger.error(`Failed to create notification rule: ${errorMessage(error)}`);
+      throw new Error(`Failed to create notification rule: ${errorMessage(error)}`);
     }
   }
 
@@ -174,7 +233,7 @@ export class NotificationService {
         }
       }
     } catch (error) {
-      this.logger.error(`Failed to trigger notification rules: ${error.message}`);
+      this.logger.error(`Failed to trigger notification rules: ${errorMessage(error)}`);
     }
   }
 
@@ -183,8 +242,8 @@ export class NotificationService {
       await this.db.updateNotificationPreferences(preferences);
       this.logger.log(`Updated notification preferences for user ${preferences.userId}`);
     } catch (error) {
-      this.logger.error(`Failed to update notification preferences: ${error.message}`);
-      throw new Error(`Failed to update notification preferences: ${error.message}`);
+      this.logger.error(`Failed to update notification preferences: ${errorMessage(error)}`);
+      throw new Error(`Failed to update notification preferences: ${errorMessage(error)}`);
     }
   }
 
@@ -192,17 +251,19 @@ export class NotificationService {
     try {
       return await this.db.getNotificationHistory(userId, organizationId, limit);
     } catch (error) {
-      this.logger.error(`Failed to get notification history: ${error.message}`);
-      throw new Error(`Failed to get notification history: ${error.message}`);
+      this.logger.error(`Failed to get notification history: ${errorMessage(error)}`);
+      throw new Error(`Failed to get notification history: ${errorMessage(error)}`);
     }
   }
 
   async getNotificationAnalytics(organizationId: string, days: number = 30): Promise<{
     totalNotifications: number;
     sentNotifications: number;
+    partialNotifications: number;
     failedNotifications: number;
     deliveryRate: number;
     channelBreakdown: Record<string, number>;
+    channelDelivery: Record<string, { sent: number; failed: number; skipped: number; attempts: number; deliveryRate: number }>;
     typeBreakdown: Record<string, number>;
     trends: Array<{
       date: string;
@@ -213,19 +274,35 @@ export class NotificationService {
   }> {
     try {
       const notifications = await this.db.getNotificationAnalytics(organizationId, days);
+      const deliveryStats = await this.db.getNotificationDeliveryStats(organizationId, days);
       
       const totalNotifications = notifications.length;
       const sentNotifications = notifications.filter(n => n.status === 'sent' || n.status === 'delivered').length;
+      const partialNotifications = notifications.filter(n => n.status === 'partial').length;
       const failedNotifications = notifications.filter(n => n.status === 'failed').length;
-      const deliveryRate = totalNotifications > 0 ? (sentNotifications / totalNotifications) * 100 : 0;
 
-      // Channel breakdown
+      // Delivery rate over individual channel deliveries that were attempted (skipped channels excluded)
+      const channelDelivery: Record<string, { sent: number; failed: number; skipped: number; attempts: number; deliveryRate: number }> = {};
+      for (const stat of deliveryStats) {
+        const entry = channelDelivery[stat.channelType] || { sent: 0, failed: 0, skipped: 0, attempts: 0, deliveryRate: 0 };
+        if (stat.status === 'sent' || stat.status === 'failed' || stat.status === 'skipped') entry[stat.status] += stat.count;
+        entry.attempts += stat.attempts;
+        channelDelivery[stat.channelType] = entry;
+      }
+      let sentDeliveries = 0;
+      let attemptedDeliveries = 0;
+      for (const entry of Object.values(channelDelivery)) {
+        entry.deliveryRate = entry.sent + entry.failed > 0 ? Math.round((entry.sent / (entry.sent + entry.failed)) * 100) : 0;
+        sentDeliveries += entry.sent;
+        attemptedDeliveries += entry.sent + entry.failed;
+      }
+      const deliveryRate = attemptedDeliveries > 0 ? (sentDeliveries / attemptedDeliveries) * 100 : 0;
+
+      // Channel breakdown: deliveries per channel type
       const channelBreakdown: Record<string, number> = {};
-      notifications.forEach(n => {
-        n.channels.forEach(channel => {
-          channelBreakdown[channel] = (channelBreakdown[channel] || 0) + 1;
-        });
-      });
+      for (const [channelType, entry] of Object.entries(channelDelivery)) {
+        channelBreakdown[channelType] = entry.sent + entry.failed + entry.skipped;
+      }
 
       // Type breakdown
       const typeBreakdown: Record<string, number> = {};
@@ -239,109 +316,236 @@ export class NotificationService {
       return {
         totalNotifications,
         sentNotifications,
+        partialNotifications,
         failedNotifications,
         deliveryRate: Math.round(deliveryRate),
         channelBreakdown,
+        channelDelivery,
         typeBreakdown,
         trends
       };
     } catch (error) {
-      this.logger.error(`Failed to get notification analytics: ${error.message}`);
-      throw new Error(`Failed to get notification analytics: ${error.message}`);
+      this.logger.error(`Failed to get notification analytics: ${errorMessage(error)}`);
+      throw new Error(`Failed to get notification analytics: ${errorMessage(error)}`);
     }
   }
 
+  async getNotificationDeliveries(organizationId: string, notificationId: string): Promise<NotificationDelivery[] | null> {
+    const notification = await this.db.getNotification(notificationId);
+    if (!notification || notification.organizationId !== organizationId) return null;
+    const rows = await this.db.getNotificationDeliveries(notificationId, organizationId);
+    return rows.map(row => ({
+      id: row.id,
+      notificationId: row.notification_id,
+      channelId: row.channel_id,
+      channelType: row.channel_type || undefined,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.response_status ?? undefined,
+      error: row.last_error || undefined,
+    }));
+  }
+
+  /**
+   * Deliver through each channel (with per-channel retries) and record every channel's outcome.
+   * The notification is sent when all attempted channels delivered, partial when some did and failed when none did.
+   */
   private async processNotification(notification: Notification): Promise<void> {
     try {
       // Check user preferences
-      const preferences = await this.db.getNotificationPreferences(notification.userId, notification.organizationId);
+      const preferences = notification.userId
+        ? await this.db.getNotificationPreferences(notification.userId, notification.organizationId)
+        : null;
       
       if (preferences && !this.shouldSendNotification(notification, preferences)) {
         await this.db.updateNotificationStatus(notification.id, 'failed', 'User preferences block this notification');
         return;
       }
 
-      // Send through each channel
+      let sent = 0;
+      let failed = 0;
+      const errors: string[] = [];
+
       for (const channelId of notification.channels) {
-        try {
-          const channel = await this.db.getNotificationChannel(channelId);
-          if (!channel || !channel.enabled) {
-            continue;
-          }
-
-          await this.sendThroughChannel(channel, notification);
-        } catch (error) {
-          this.logger.error(`Failed to send through channel ${channelId}: ${error.message}`);
+        const deliveryId = `delivery_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+        const channel = await this.db.getNotificationChannel(channelId);
+        await this.db.createNotificationDelivery({
+          id: deliveryId,
+          notificationId: notification.id,
+          organizationId: notification.organizationId,
+          channelId,
+          channelType: channel?.type,
+          status: 'pending',
+        });
+
+        if (!channel || channel.organizationId !== notification.organizationId || !channel.enabled) {
+          await this.db.completeNotificationDelivery(deliveryId, {
+            status: 'skipped',
+            attempts: 0,
+            error: !channel || channel.organizationId !== notification.organizationId ? 'Channel not found' : 'Channel disabled',
+          });
+          continue;
+        }
+
+        const outcome = await deliverWithRetry(
+          () => this.sendThroughChannel(channel, notification, deliveryId),
+          { ...DEFAULT_RETRY_POLICY, maxAttempts: channel.max_attempts || DEFAULT_RETRY_POLICY.maxAttempts },
+        );
+        await this.db.completeNotificationDelivery(deliveryId, {
+          status: outcome.status,
+          attempts: outcome.attempts,
+          responseStatus: outcome.responseStatus,
+          providerMessageId: outcome.result?.providerMessageId,
+          error: outcome.error,
+        });
+
+        if (outcome.status === 'sent') {
+          sent++;
+        } else {
+          failed++;
+          errors.push(`${channel.type} ${channelId}: ${outcome.error}`);
+          this.logger.error(`Failed to send ${notification.id} through channel ${channelId} after ${outcome.attempts} attempt(s): ${outcome.error}`);
         }
       }
 
-      await this.db.updateNotificationStatus(notification.id, 'sent', null, new Date().toISOString());
+      if (sent === 0 && failed === 0) {
+        await this.db.updateNotificationStatus(notification.id, 'failed', 'No enabled channels to deliver through');
+      } else if (failed === 0) {
+        await this.db.updateNotificationStatus(notification.id, 'sent', undefined, new Date().toISOString());
+      } else {
+        await this.db.updateNotificationStatus(
+          notification.id,
+          sent > 0 ? 'partial' : 'failed',
+          errors.join('; ').slice(0, 2000),
+          sent > 0 ? new Date().toISOString() : undefined
+        );
+      }
     } catch (error) {
-      await this.db.updateNotificationStatus(notification.id, 'failed', error.message);
+      await this.db.updateNotificationStatus(notification.id, 'failed', errorMessage(error));
       throw error;
     }
   }
 
-  private async sendThroughChannel(channel: NotificationChannel, notification: Notification): Promise<void> {
-    switch (channel.type) {
+  private async sendThroughChannel(channel: any, notification: Notification, deliveryId: string): Promise<TransportResult> {
+    const config = channel.configuration || {};
+    const secret = channel.secret_enc ? decryptToken(channel.secret_enc) : undefined;
+    const payload: NotificationPayload = {
+      id: notification.id,
+      organizationId: notification.organizationId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data || {},
+      createdAt: notification.createdAt,
+    };
+
+    switch (channel.type as NotificationChannel['type']) {
       case 'email':
-        await this.sendEmail(channel.configuration, notification);
-        break;
+        return this.sendEmail(config, payload);
       case 'slack':
-        await this.sendSlackMessage(channel.configuration, notification);
-        break;
+        return postJson(this.requireSecret(secret, channel), buildSlackPayload(payload, config));
       case 'teams':
-        await this.sendTeamsMessage(channel.configuration, notification);
-        break;
+        return postJson(this.requireSecret(secret, channel), buildTeamsPayload(payload));
       case 'webhook':
-        await this.sendWebhook(channel.configuration, notification);
-        break;
-      case 'push':
-        await this.sendPushNotification(channel.configuration, notification);
-        break;
+        return this.sendWebhook(config, this.requireSecret(secret, channel), payload, deliveryId);
       default:
-        this.logger.warn(`Unknown channel type: ${channel.type}`);
+        throw new NotificationTransportError(`Channel type ${channel.type} has no delivery transport`, false);
     }
   }
 
-  private async sendEmail(config: any, notification: Notification): Promise<void> {
-    // Mock email sending - in real implementation, use SendGrid, AWS SES, etc.
-    this.logger.log(`Sending email to ${config.email}: ${notification.title}`);
-    
-    // Simulate email sending
-    await new Promise(resolve => setTimeout(resolve, 100));
+  private async sendEmail(config: any, notification: NotificationPayload): Promise<TransportResult> {
+    const recipients = ([] as string[]).concat(config.to || config.email || []);
+    if (recipients.length === 0) {
+      throw new NotificationTransportError('Email channel has no recipients', false);
+    }
+    try {
+      const result = await this.mailTransport.send({
+        from: config.from || this.mailTransport.defaultFrom,
+        to: recipients.join(', '),
+        subject: notification.title,
+        text: notification.message,
+        html: `<p>${escapeHtml(notification.message).replace(/\n/g, '<br>')}</p>`,
+        headers: { 'X-Bowery-Notification': notification.id },
+      });
+      if (!result.accepted) {
+        throw new NotificationTransportError('Some recipients were rejected by the mail server', false);
+      }
+      return { providerMessageId: result.messageId };
+    } catch (error) {
+      throw error instanceof NotificationTransportError ? error : toMailTransportError(error);
+    }
   }
 
-  private async sendSlackMessage(config: any, notification: Notification): Promise<void> {
-    // Mock Slack message - in real implementation, use Slack Web API
-    this.logger.log(`Sending Slack message to ${config.channel}: ${notification.title}`);
-    
-    // Simulate Slack API call
-    await new Promise(resolve => setTimeout(resolve, 100));
+  /**
+   * Generic webhook: the JSON body is signed with the channel secret; receivers verify
+   * X-Bowery-Signature = sha256=HMAC(secret, "<X-Bowery-Timestamp>.<body>")
+   */
+  private async sendWebhook(config: any, secret: string, notification: NotificationPayload, deliveryId: string): Promise<TransportResult> {
+    const body = buildWebhookBody(notification);
+    // Signed per attempt so the timestamp is fresh on retries
+    const timestamp = Math.floor(Date.now() / 1000);
+    return postJson(config.url, body, {
+      [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [DELIVERY_HEADER]: deliveryId,
+    });
   }
 
-  private async sendTeamsMessage(config: any, notification: Notification): Promise<void> {
-    // Mock Teams message - in real implementation, use Teams Webhook API
-    this.logger.log(`Sending Teams message to ${config.webhookUrl}: ${notification.title}`);
-    
-    // Simulate Teams API call
-    await new Promise(resolve => setTimeout(resolve, 100));
+  private requireSecret(secret: string | undefined, channel: any): string {
+    if (!secret) {
+      throw new NotificationTransportError(`${channel.type} channel ${channel.id} is missing its ${SECRET_KEYS[channel.type as NotificationChannel['type']]}`, false);
+    }
+    return secret;
   }
 
-  private async sendWebhook(config: any, notification: Notification): Promise<void> {
-    // Mock webhook - in real implementation, use HTTP client
-    this.logger.log(`Sending webhook to ${config.url}: ${notification.title}`);
-    
-    // Simulate webhook call
-    await new Promise(resolve => setTimeout(resolve, 100));
-  }
+  /**
+   * Check a channel's configuration and split out the credential that is stored encrypted
+   */
+  private validateChannel(channel: Omit<NotificationChannel, 'id' | 'createdAt'>): { configuration: Record<string, any>; secret?: string } {
+    const configuration = { ...(channel.configuration || {}) };
+    const isHttpUrl = (value: any, httpsOnly: boolean) => {
+      try {
+        const url = new URL(String(value));
+        return url.protocol === 'https:' || (!httpsOnly && url.protocol === 'http:');
+      } catch {
+        return false;
+      }
+    };
 
-  private async sendPushNotification(config: any, notification: Notification): Promise<void> {
-    // Mock push notification - in real implementation, use FCM, APNS, etc.
-    this.logger.log(`Sending push notification to ${config.deviceToken}: ${notification.title}`);
-    
-    // Simulate push notification
-    await new Promise(resolve => setTimeout(resolve, 100));
+    if (channel.maxAttempts !== undefined && (!Number.isInteger(channel.maxAttempts) || channel.maxAttempts < 1 || channel.maxAttempts > 10)) {
+      throw new NotificationChannelError('maxAttempts must be an integer between 1 and 10');
+    }
+
+    switch (channel.type) {
+      case 'email': {
+        const recipients = ([] as any[]).concat(configuration.to || configuration.email || []);
+        if (recipients.length === 0 || recipients.some(r => typeof r !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(r))) {
+          throw new NotificationChannelError('Email channels need configuration.to with one or more email addresses');
+        }
+        return { configuration };
+      }
+      case 'slack':
+      case 'teams':
+        if (!isHttpUrl(configuration.webhookUrl, true)) {
+          throw new NotificationChannelError(`${channel.type} channels need configuration.webhookUrl (https incoming webhook URL)`);
+        }
+        break;
+      case 'webhook':
+        if (!isHttpUrl(configuration.url, false)) {
+          throw new NotificationChannelError('Webhook channels need configuration.url');
+        }
+        if (typeof configuration.secret !== 'string' || configuration.secret.length < 16) {
+          throw new NotificationChannelError('Webhook channels need configuration.secret (at least 16 characters) for signing');
+        }
+        break;
+      default:
+        throw new NotificationChannelError(`Channel type ${channel.type} is not supported. Use email, slack, teams or webhook`);
+    }
+
+    const secretKey = SECRET_KEYS[channel.type]!;
+    const secret = String(configuration[secretKey]);
+    delete configuration[secretKey];
+    return { configuration, secret };
   }
 
   private shouldSendNotification(notification: Notification, preferences: NotificationPreferences): boolean {
@@ -454,7 +658,7 @@ export class NotificationService {
         channels: rule.channels
       });
     } catch (error) {
-      this.logger.error(`Failed to execute notification rule ${rule.id}: ${error.message}`);
+      this.logger.error(`Failed to execute notification rule ${rule.id}: ${errorMessage(error)}`);
     }
   }
 
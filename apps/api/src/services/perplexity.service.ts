@@ -1,8 +1,10 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import Redis from 'ioredis';
 import { metrics } from './metrics.service';
+import { parseUsage } from '../platforms/llm/llm-provider';
+import { EnhancedErrorHandlingService } from './enhanced-error-handling.service';
 
 interface SearchOptions {
   topK?: number;
@@ -12,6 +14,8 @@ interface SearchOptions {
 interface AnswerOptions {
   maxTokens?: number;
   temperature?: number;
+  // Overrides PERPLEXITY_MODEL, e.g. from an organization's LLM settings
+  model?: string;
 }
 
 @Injectable()
@@ -23,7 +27,8 @@ export class PerplexityService {
   private readonly baseUrl: string;
   private readonly model: string;
 
-  constructor() {
+  // Retries draw from the shared 'perplexity' retry budget when provided
+  constructor(@Optional() private readonly errorHandling?: EnhancedErrorHandlingService) {
     this.apiKey = process.env.PERPLEXITY_API_KEY;
     this.baseUrl = process.env.PERPLEXITY_BASE_URL || 'https://api.perplexity.ai';
     this.model = process.env.PERPLEXITY_MODEL || 'sonar-large-online';
@@ -92,7 +97,8 @@ export class PerplexityService {
 
   async answer(question: string, context: string[] = [], options: AnswerOptions = {}) {
     const start = Date.now();
-    const qHash = crypto.createHash('sha256').update(`${question}|${(context||[]).join('|')}|${options.maxTokens ?? 800}|${options.temperature ?? 0.3}`).digest('base64url');
+    const model = options.model || this.model;
+    const qHash = crypto.createHash('sha256').update(`${question}|${(context||[]).join('|')}|${options.maxTokens ?? 800}|${options.temperature ?? 0.3}|${model}`).digest('base64url');
     const key = `perplexity:answer:${this.dateBucket()}:${qHash}`;
     const cached = await this.cacheGet(key);
     if (cached) {
@@ -100,7 +106,7 @@ export class PerplexityService {
       return { ...cached, cached: true };
     }
     const doCall = async () => this.http.post('/v1/answer', {
-        model: this.model,
+        model,
         question,
         context,
         max_tokens: options.maxTokens ?? 800,
@@ -143,10 +149,7 @@ export class PerplexityService {
 
   private trackTokens(method: 'search'|'answer'|'factcheck', data: any) {
     try {
-      const usage = data?.usage || data?.meta?.usage || {};
-      const prompt = usage.prompt_tokens || usage.prompt || 0;
-      const completion = usage.completion_tokens || usage.completion || 0;
-      const total = usage.total_tokens || usage.total || (prompt + completion);
+      const { promptTokens: prompt, completionTokens: completion, totalTokens: total } = parseUsage(data);
       if (prompt) metrics.perplexityTokens.inc({ method, token_type: 'prompt' }, prompt);
       if (completion) metrics.perplexityTokens.inc({ method, token_type: 'completion' }, completion);
       if (total) metrics.perplexityTokens.inc({ method, token_type: 'total' }, total);
@@ -166,6 +169,10 @@ export class PerplexityService {
         if (attempt > maxRetries || (status && status < 500 && status !== 429)) {
           throw err;
         }
+        if (this.errorHandling && !(await this.errorHandling.consumeRetryBudget('perplexity'))) {
+          this.logger.warn(`perplexity.${method} not retried: retry budget spent`);
+          throw err;
+        }
         const backoff = retryAfter > 0 ? retryAfter * 1000 : delay;
         await new Promise(res => setTimeout(res, backoff));
         delay = Math.min(delay * 2, 8000);
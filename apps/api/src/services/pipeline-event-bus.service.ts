@@ -0,0 +1,86 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { Observable, Subject, filter } from 'rxjs';
+import type { PipelineProgress } from './pipeline-monitoring.service';
+
+export type PipelineEventType =
+  | 'pipeline_started'
+  | 'stage_started'
+  | 'stage_completed'
+  | 'stage_failed'
+  | 'pipeline_completed'
+  | 'pipeline_failed'
+  | 'pipeline_cancelled';
+
+export interface PipelineEvent {
+  type: PipelineEventType;
+  pipelineId: string;
+  organizationId: string;
+  // Stage the event is about, for stage_* events
+  stageId?: string;
+  error?: string;
+  // Pipeline state after the transition, so a client can render from any single event
+  pipeline: Omit<PipelineProgress, 'metadata'>;
+  at: string;
+}
+
+const CHANNEL_PREFIX = 'pipeline-events:';
+
+/**
+ * Pipeline transitions over Redis pub/sub, so events published by the worker or another API replica reach
+ * SSE clients connected to this one. Connections are opened on first use: the worker only publishes, and an
+ * API process only subscribes once a client streams.
+ */
+@Injectable()
+export class PipelineEventBus implements OnModuleDestroy {
+  private readonly logger = new Logger(PipelineEventBus.name);
+  private readonly events = new Subject<PipelineEvent>();
+  private publisher?: Redis;
+  private subscriber?: Redis;
+
+  /**
+   * Never throws: a lost event only delays what SSE clients see, it must not fail the pipeline
+   */
+  async publish(event: PipelineEvent): Promise<void> {
+    try {
+      this.publisher ??= this.connect();
+      await this.publisher.publish(`${CHANNEL_PREFIX}${event.organizationId}`, JSON.stringify(event));
+    } catch (error) {
+      this.logger.warn(`Could not publish ${event.type} for ${event.pipelineId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Events of one organization, optionally narrowed to one pipeline
+   */
+  stream(organizationId: string, pipelineId?: string): Observable<PipelineEvent> {
+    this.ensureSubscribed();
+    return this.events.pipe(
+      filter(event => event.organizationId === organizationId && (!pipelineId || event.pipelineId === pipelineId)),
+    );
+  }
+
+  async onModuleDestroy() {
+    this.events.complete();
+    await Promise.all([this.publisher?.quit(), this.subscriber?.quit()]);
+  }
+
+  private ensureSubscribed() {
+    if (this.subscriber) return;
+    this.subscriber = this.connect();
+    this.subscriber.on('pmessage', (_pattern: string, _channel: string, message: string) => {
+      try {
+        this.events.next(JSON.parse(message) as PipelineEvent);
+      } catch (error) {
+        this.logger.warn(`Ignoring malformed pipeline event: ${(error as Error).message}`);
+      }
+    });
+    this.subscriber.psubscribe(`${CHANNEL_PREFIX}*`).catch(error => {
+      this.logger.error(`Could not subscribe to pipeline events: ${(error as Error).message}`);
+    });
+  }
+
+  private connect(): Redis {
+    return new Redis(process.env.REDIS_URL || 'redis://redis:6379');
+  }
+}
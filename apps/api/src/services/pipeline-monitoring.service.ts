@@ -1,10 +1,12 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { DbService } from '../db.service';
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { DbService, PipelineProgressRow } from '../db.service';
+import { PipelineEvent, PipelineEventBus, PipelineEventType } from './pipeline-event-bus.service';
 
 export interface PipelineStage {
   id: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
   startedAt?: string;
   completedAt?: string;
   duration?: number;
@@ -14,6 +16,7 @@ export interface PipelineStage {
 
 export interface PipelineProgress {
   pipelineId: string;
+  organizationId?: string;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   currentStage: number;
   totalStages: number;
@@ -83,48 +86,69 @@ export interface PipelineConfiguration {
   };
 }
 
+export class PipelineStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineStateError';
+  }
+}
+
+// Pending or running pipelines older than this are not reported as active (their process likely died)
+const ACTIVE_WINDOW_MS = 60 * 60 * 1000;
+// Keeps proxies from closing idle event streams
+const HEARTBEAT_MS = 25000;
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Stage-by-stage progress of generation pipelines. Every transition is written to Postgres, so any API
+ * replica can report it, and published on the PipelineEventBus for live SSE streams. The process running a
+ * pipeline keeps its own copy in activePipelines until the pipeline finishes.
+ */
 @Injectable()
 export class PipelineMonitoringService {
   private readonly logger = new Logger(PipelineMonitoringService.name);
   private readonly activePipelines: Map<string, PipelineProgress> = new Map();
 
-  constructor(private readonly db: DbService) {}
+  constructor(
+    private readonly db: DbService,
+    private readonly events: PipelineEventBus,
+  ) {}
 
   async startPipeline(
     pipelineId: string,
+    organizationId: string,
     configuration: PipelineConfiguration,
     metadata?: Record<string, any>
   ): Promise<void> {
-    try {
-      const progress: PipelineProgress = {
-        pipelineId,
+    const progress: PipelineProgress = {
+      pipelineId,
+      organizationId,
+      status: 'pending',
+      currentStage: 0,
+      totalStages: configuration.stages.length,
+      progress: 0,
+      stages: configuration.stages.map(stage => ({
+        id: stage.id,
+        name: stage.name,
         status: 'pending',
-        currentStage: 0,
-        totalStages: configuration.stages.length,
-        progress: 0,
-        stages: configuration.stages.map(stage => ({
-          id: stage.id,
-          name: stage.name,
-          status: 'pending',
-          metadata: { timeout: stage.timeout, retryable: stage.retryable, critical: stage.critical }
-        })),
-        metadata
-      };
+        metadata: { timeout: stage.timeout, retryable: stage.retryable, critical: stage.critical }
+      })),
+      metadata
+    };
 
-      this.activePipelines.set(pipelineId, progress);
-      
-      // Store in database
+    try {
       await this.db.createPipelineProgress(progress);
-
-      this.logger.log(`Started pipeline: ${pipelineId}`, {
-        pipelineId,
-        totalStages: configuration.stages.length,
-        metadata
-      });
     } catch (error) {
       this.logger.error(`Failed to start pipeline ${pipelineId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw new Error(`Failed to start pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    this.activePipelines.set(pipelineId, progress);
+
+    this.logger.log(`Started pipeline: ${pipelineId}`, {
+      pipelineId,
+      totalStages: configuration.stages.length
+    });
+    await this.publish('pipeline_started', progress);
   }
 
   async updatePipelineStatus(
@@ -132,44 +156,32 @@ export class PipelineMonitoringService {
     status: 'running' | 'completed' | 'failed' | 'cancelled',
     error?: string
   ): Promise<void> {
-    try {
-      const progress = this.activePipelines.get(pipelineId);
-      if (!progress) {
-        throw new Error(`Pipeline ${pipelineId} not found`);
-      }
+    const progress = await this.runningPipeline(pipelineId);
+    if (progress.status === status) {
+      // e.g. completed already when its last stage finished
+      return;
+    }
 
-      progress.status = status;
-      
-      if (status === 'running' && !progress.startedAt) {
-        progress.startedAt = new Date().toISOString();
-      }
-      
-      if (status === 'completed' || status === 'failed' || status === 'cancelled') {
-        progress.completedAt = new Date().toISOString();
-        progress.progress = 100;
-      }
-
-      if (error) {
-        progress.metadata = { ...progress.metadata, error };
-      }
-
-      // Update in database
-      await this.db.updatePipelineProgress(pipelineId, {
-        status,
-        startedAt: progress.startedAt,
-        completedAt: progress.completedAt,
-        progress: progress.progress,
-        metadata: progress.metadata
-      });
+    progress.status = status;
+    if (status === 'running' && !progress.startedAt) {
+      progress.startedAt = new Date().toISOString();
+    }
+    if (TERMINAL_STATUSES.includes(status)) {
+      progress.completedAt = new Date().toISOString();
+      progress.progress = 100;
+    }
+    if (error) {
+      progress.metadata = { ...progress.metadata, error };
+    }
 
-      this.logger.log(`Updated pipeline status: ${pipelineId} -> ${status}`, {
-        pipelineId,
-        status,
-        error
-      });
-    } catch (error) {
-      this.logger.error(`Failed to update pipeline status: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+    if (!(await this.save(progress))) return;
+    this.logger.log(`Updated pipeline status: ${pipelineId} -> ${status}`, {
+      pipelineId,
+      status,
+      error
+    });
+    if (TERMINAL_STATUSES.includes(status)) {
+      await this.finish(progress);
     }
   }
 
@@ -178,42 +190,27 @@ export class PipelineMonitoringService {
     stageId: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    try {
-      const progress = this.activePipelines.get(pipelineId);
-      if (!progress) {
-        throw new Error(`Pipeline ${pipelineId} not found`);
-      }
-
-      const stage = progress.stages.find(s => s.id === stageId);
-      if (!stage) {
-        throw new Error(`Stage ${stageId} not found in pipeline ${pipelineId}`);
-      }
-
-      stage.status = 'running';
-      stage.startedAt = new Date().toISOString();
-      stage.metadata = { ...stage.metadata, ...metadata };
-
-      progress.status = 'running';
-      if (!progress.startedAt) {
-        progress.startedAt = new Date().toISOString();
-      }
-
-      // Update in database
-      await this.db.updatePipelineStage(pipelineId, stageId, {
-        status: 'running',
-        startedAt: stage.startedAt,
-        metadata: stage.metadata
-      });
-
-      this.logger.log(`Started stage: ${pipelineId}/${stageId}`, {
-        pipelineId,
-        stageId,
-        stageName: stage.name
-      });
-    } catch (error) {
-      this.logger.error(`Failed to start stage ${pipelineId}/${stageId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+    const progress = await this.runningPipeline(pipelineId);
+    const stage = this.findStage(progress, stageId);
+
+    stage.status = 'running';
+    stage.startedAt = new Date().toISOString();
+    delete stage.completedAt;
+    delete stage.error;
+    stage.metadata = { ...stage.metadata, ...metadata };
+
+    progress.status = 'running';
+    if (!progress.startedAt) {
+      progress.startedAt = new Date().toISOString();
     }
+
+    if (!(await this.save(progress))) return;
+    this.logger.log(`Started stage: ${pipelineId}/${stageId}`, {
+      pipelineId,
+      stageId,
+      stageName: stage.name
+    });
+    await this.publish('stage_started', progress, { stageId });
   }
 
   async completeStage(
@@ -223,95 +220,64 @@ export class PipelineMonitoringService {
     error?: string,
     metadata?: Record<string, any>
   ): Promise<void> {
-    try {
-      const progress = this.activePipelines.get(pipelineId);
-      if (!progress) {
-        throw new Error(`Pipeline ${pipelineId} not found`);
-      }
-
-      const stage = progress.stages.find(s => s.id === stageId);
-      if (!stage) {
-        throw new Error(`Stage ${stageId} not found in pipeline ${pipelineId}`);
-      }
-
-      stage.status = success ? 'completed' : 'failed';
-      stage.completedAt = new Date().toISOString();
-      stage.duration = stage.startedAt 
-        ? new Date(stage.completedAt).getTime() - new Date(stage.startedAt).getTime()
-        : 0;
-      
-      if (error) {
-        stage.error = error;
-      }
-      
-      if (metadata) {
-        stage.metadata = { ...stage.metadata, ...metadata };
-      }
-
-      // Update progress
-      const completedStages = progress.stages.filter(s => s.status === 'completed' || s.status === 'failed').length;
-      progress.currentStage = completedStages;
-      progress.progress = Math.round((completedStages / progress.totalStages) * 100);
-
-      // Check if pipeline is complete
-      if (completedStages === progress.totalStages) {
-        const hasFailures = progress.stages.some(s => s.status === 'failed');
-        progress.status = hasFailures ? 'failed' : 'completed';
-        progress.completedAt = new Date().toISOString();
-      }
-
-      // Update in database
-      await this.db.updatePipelineStage(pipelineId, stageId, {
-        status: stage.status,
-        completedAt: stage.completedAt,
-        duration: stage.duration,
-        error: stage.error,
-        metadata: stage.metadata
-      });
+    const progress = await this.runningPipeline(pipelineId);
+    const stage = this.findStage(progress, stageId);
 
-      await this.db.updatePipelineProgress(pipelineId, {
-        currentStage: progress.currentStage,
-        progress: progress.progress,
-        status: progress.status,
-        completedAt: progress.completedAt
-      });
-
-      this.logger.log(`Completed stage: ${pipelineId}/${stageId}`, {
-        pipelineId,
-        stageId,
-        stageName: stage.name,
-        success,
-        duration: stage.duration,
-        error
-      });
-    } catch (error) {
-      this.logger.error(`Failed to complete stage ${pipelineId}/${stageId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+    stage.status = success ? 'completed' : 'failed';
+    stage.completedAt = new Date().toISOString();
+    stage.duration = stage.startedAt 
+      ? new Date(stage.completedAt).getTime() - new Date(stage.startedAt).getTime()
+      : 0;
+    if (error) {
+      stage.error = error;
+    }
+    if (metadata) {
+      stage.metadata = { ...stage.metadata, ...metadata };
     }
-  }
 
-  async getPipelineProgress(pipelineId: string): Promise<PipelineProgress> {
-    const progress = this.activePipelines.get(pipelineId);
-    if (!progress) {
-      throw new Error(`Pipeline ${pipelineId} not found`);
+    // Update progress
+    const completedStages = progress.stages.filter(s => s.status === 'completed' || s.status === 'failed' || s.status === 'skipped').length;
+    progress.currentStage = completedStages;
+    progress.progress = Math.round((completedStages / progress.totalStages) * 100);
+
+    // Check if pipeline is complete
+    if (completedStages === progress.totalStages) {
+      const hasFailures = progress.stages.some(s => s.status === 'failed');
+      progress.status = hasFailures ? 'failed' : 'completed';
+      progress.completedAt = new Date().toISOString();
     }
 
-    // Calculate estimated time remaining
-    if (progress.startedAt && progress.currentStage > 0) {
-      const elapsed = Date.now() - new Date(progress.startedAt).getTime();
-      const averageTimePerStage = elapsed / progress.currentStage;
-      const remainingStages = progress.totalStages - progress.currentStage;
-      progress.estimatedTimeRemaining = Math.round(averageTimePerStage * remainingStages);
+    if (!(await this.save(progress))) return;
+    this.logger.log(`Completed stage: ${pipelineId}/${stageId}`, {
+      pipelineId,
+      stageId,
+      stageName: stage.name,
+      success,
+      duration: stage.duration,
+      error
+    });
+    await this.publish(success ? 'stage_completed' : 'stage_failed', progress, { stageId, error });
+    if (TERMINAL_STATUSES.includes(progress.status)) {
+      await this.finish(progress);
     }
+  }
 
-    return progress;
+  async getPipelineProgress(pipelineId: string, organizationId: string): Promise<PipelineProgress | null> {
+    const row = await this.db.getPipelineProgress(pipelineId, organizationId);
+    return row ? this.withEstimate(this.fromRow(row)) : null;
   }
 
-  async getPipelineMetrics(pipelineId: string): Promise<PipelineMetrics> {
-    const progress = this.activePipelines.get(pipelineId);
-    if (!progress) {
-      throw new Error(`Pipeline ${pipelineId} not found`);
-    }
+  /**
+   * Pipelines of the organization that are still pending or running, newest first
+   */
+  async getActivePipelines(organizationId: string): Promise<PipelineProgress[]> {
+    const rows = await this.db.getActivePipelines(organizationId, ACTIVE_WINDOW_MS);
+    return rows.map(row => this.withEstimate(this.fromRow(row)));
+  }
+
+  async getPipelineMetrics(pipelineId: string, organizationId: string): Promise<PipelineMetrics | null> {
+    const progress = await this.getPipelineProgress(pipelineId, organizationId);
+    if (!progress) return null;
 
     const totalDuration = progress.startedAt && progress.completedAt
       ? new Date(progress.completedAt).getTime() - new Date(progress.startedAt).getTime()
@@ -333,12 +299,64 @@ export class PipelineMonitoringService {
     };
   }
 
+  /**
+   * A live stream for SSE: a snapshot first (the pipeline, or the organization's active pipelines), then
+   * every transition. Events that arrive while the snapshot loads are held back so they follow it. A
+   * single-pipeline stream ends once the pipeline finishes.
+   */
+  streamEvents(organizationId: string, pipelineId?: string): Observable<MessageEvent> {
+    return new Observable<MessageEvent>(subscriber => {
+      let held: PipelineEvent[] | null = [];
+      const emit = (event: PipelineEvent) => {
+        subscriber.next({ type: event.type, data: event });
+        if (pipelineId && TERMINAL_STATUSES.includes(event.pipeline.status)) {
+          subscriber.complete();
+        }
+      };
+
+      const live = this.events.stream(organizationId, pipelineId).subscribe(event => {
+        if (held) held.push(event);
+        else emit(event);
+      });
+      const heartbeat = setInterval(() => subscriber.next({ type: 'heartbeat', data: { at: new Date().toISOString() } }), HEARTBEAT_MS);
+
+      const snapshot = pipelineId
+        ? this.getPipelineProgress(pipelineId, organizationId).then(progress => (progress ? [progress] : []))
+        : this.getActivePipelines(organizationId);
+      snapshot.then(
+        pipelines => {
+          subscriber.next({ type: 'snapshot', data: { pipelines: pipelines.map(p => this.summary(p)) } });
+          const pending = held || [];
+          held = null;
+          if (pipelineId && pipelines[0] && TERMINAL_STATUSES.includes(pipelines[0].status)) {
+            subscriber.complete();
+            return;
+          }
+          pending.forEach(emit);
+        },
+        error => subscriber.error(error),
+      );
+
+      return () => {
+        live.unsubscribe();
+        clearInterval(heartbeat);
+      };
+    });
+  }
+
   async getPipelineAnalytics(
     organizationId: string,
     timeRange: { start: string; end: string }
   ): Promise<PipelineAnalytics> {
     try {
-      const pipelines = await this.db.getPipelineAnalytics(organizationId, timeRange);
+      const rows = await this.db.getPipelineAnalytics(organizationId, timeRange);
+      const pipelines = rows.map(row => {
+        const progress = this.fromRow(row);
+        const totalDuration = progress.startedAt && progress.completedAt
+          ? new Date(progress.completedAt).getTime() - new Date(progress.startedAt).getTime()
+          : 0;
+        return { ...progress, totalDuration };
+      });
       
       const totalPipelines = pipelines.length;
       const successfulPipelines = pipelines.filter(p => p.status === 'completed').length;
@@ -371,43 +389,110 @@ export class PipelineMonitoringService {
     }
   }
 
-  async cancelPipeline(pipelineId: string, reason?: string): Promise<void> {
-    try {
-      const progress = this.activePipelines.get(pipelineId);
-      if (!progress) {
-        throw new Error(`Pipeline ${pipelineId} not found`);
-      }
+  /**
+   * Cancel a pending or running pipeline from any process; the process running it stops recording progress.
+   * Null when the pipeline does not exist; PipelineStateError when it has already finished.
+   */
+  async cancelPipeline(pipelineId: string, organizationId: string, reason?: string): Promise<PipelineProgress | null> {
+    const row = await this.db.cancelPipelineProgress(pipelineId, organizationId, reason);
+    if (!row) {
+      const existing = await this.db.getPipelineProgress(pipelineId, organizationId);
+      if (!existing) return null;
+      throw new PipelineStateError(`Cannot cancel ${existing.status} pipeline ${pipelineId}`);
+    }
 
-      if (progress.status === 'completed' || progress.status === 'failed') {
-        throw new Error(`Cannot cancel completed pipeline ${pipelineId}`);
-      }
+    const progress = this.fromRow(row);
+    this.activePipelines.delete(pipelineId);
+    this.logger.log(`Cancelled pipeline: ${pipelineId}`, {
+      pipelineId,
+      reason
+    });
+    await this.publish('pipeline_cancelled', progress);
+    return progress;
+  }
 
-      progress.status = 'cancelled';
-      progress.completedAt = new Date().toISOString();
-      progress.metadata = { ...progress.metadata, cancellationReason: reason };
+  private async runningPipeline(pipelineId: string): Promise<PipelineProgress> {
+    const local = this.activePipelines.get(pipelineId);
+    if (local) return local;
 
-      // Cancel any running stages
-      progress.stages.forEach(stage => {
-        if (stage.status === 'running') {
-          stage.status = 'cancelled';
-          stage.completedAt = new Date().toISOString();
-        }
-      });
+    // Started by another process, or already finished here (e.g. a retried stage)
+    const row = await this.db.getPipelineProgress(pipelineId);
+    if (!row) {
+      throw new Error(`Pipeline ${pipelineId} not found`);
+    }
+    const progress = this.fromRow(row);
+    if (!TERMINAL_STATUSES.includes(progress.status)) {
+      this.activePipelines.set(pipelineId, progress);
+    }
+    return progress;
+  }
 
-      await this.db.updatePipelineProgress(pipelineId, {
-        status: 'cancelled',
-        completedAt: progress.completedAt,
-        metadata: progress.metadata
-      });
+  private findStage(progress: PipelineProgress, stageId: string): PipelineStage {
+    const stage = progress.stages.find(s => s.id === stageId);
+    if (!stage) {
+      throw new Error(`Stage ${stageId} not found in pipeline ${progress.pipelineId}`);
+    }
+    return stage;
+  }
 
-      this.logger.log(`Cancelled pipeline: ${pipelineId}`, {
-        pipelineId,
-        reason
-      });
-    } catch (error) {
-      this.logger.error(`Failed to cancel pipeline ${pipelineId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+  private async save(progress: PipelineProgress): Promise<boolean> {
+    const saved = await this.db.savePipelineProgress(progress);
+    if (!saved) {
+      // Cancelled elsewhere; the work may finish but the pipeline stays cancelled
+      this.activePipelines.delete(progress.pipelineId);
+      this.logger.log(`Pipeline ${progress.pipelineId} was cancelled, not recording further progress`);
     }
+    return saved;
+  }
+
+  private async finish(progress: PipelineProgress): Promise<void> {
+    this.activePipelines.delete(progress.pipelineId);
+    await this.publish(`pipeline_${progress.status}` as PipelineEventType, progress, { error: progress.metadata?.error as string | undefined });
+  }
+
+  private async publish(type: PipelineEventType, progress: PipelineProgress, details: { stageId?: string; error?: string } = {}): Promise<void> {
+    if (!progress.organizationId) return;
+    await this.events.publish({
+      type,
+      pipelineId: progress.pipelineId,
+      organizationId: progress.organizationId,
+      ...details,
+      pipeline: this.summary(this.withEstimate(progress)),
+      at: new Date().toISOString(),
+    });
+  }
+
+  // Progress without its metadata (the generation input), as sent to clients
+  private summary(progress: PipelineProgress): Omit<PipelineProgress, 'metadata'> {
+    const summary: Partial<PipelineProgress> = { ...progress };
+    delete summary.metadata;
+    return summary as Omit<PipelineProgress, 'metadata'>;
+  }
+
+  private withEstimate(progress: PipelineProgress): PipelineProgress {
+    if (progress.startedAt && progress.currentStage > 0 && !TERMINAL_STATUSES.includes(progress.status)) {
+      const elapsed = Date.now() - new Date(progress.startedAt).getTime();
+      const averageTimePerStage = elapsed / progress.currentStage;
+      const remainingStages = progress.totalStages - progress.currentStage;
+      return { ...progress, estimatedTimeRemaining: Math.round(averageTimePerStage * remainingStages) };
+    }
+    return progress;
+  }
+
+  private fromRow(row: PipelineProgressRow): PipelineProgress {
+    const iso = (value: Date | null) => (value ? new Date(value).toISOString() : undefined);
+    return {
+      pipelineId: row.pipeline_id,
+      organizationId: row.organization_id || undefined,
+      status: row.status,
+      currentStage: row.current_stage,
+      totalStages: row.total_stages,
+      progress: row.progress,
+      stages: row.stages || [],
+      startedAt: iso(row.started_at),
+      completedAt: iso(row.completed_at),
+      metadata: row.metadata || {},
+    };
   }
 
   private calculateStagePerformance(pipelines: any[]): Array<{
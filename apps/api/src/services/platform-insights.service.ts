@@ -0,0 +1,396 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { DbService, ScheduleInsightsRow, TargetAccountInsightsRow } from '../db.service';
+import { TokenService, providerForPlatform } from '../token.service';
+import { MetaClientService, MetaInsight } from '../platforms/meta/meta-client.service';
+import { LinkedInClientService, LinkedInShareStatistics } from '../platforms/linkedin/linkedin-client.service';
+import { EnhancedErrorHandlingService } from './enhanced-error-handling.service';
+import { CircuitOpenError } from './circuit-breaker';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// History loaded when an account is first connected, and how long a post's insights keep being read
+const BACKFILL_DAYS = Number(process.env.INSIGHTS_BACKFILL_DAYS) || 90;
+const POST_TRACKING_DAYS = Number(process.env.INSIGHTS_POST_TRACKING_DAYS) || 30;
+// Platforms revise recent days, so each account sync re-reads its last few days
+const ACCOUNT_SYNC_INTERVAL_MS = 6 * HOUR_MS;
+const ACCOUNT_REFRESH_DAYS = 3;
+// Meta's insights endpoints accept at most 93 days per request
+const MAX_RANGE_DAYS = 90;
+const FAILURE_BACKOFF_BASE_MS = 15 * 60 * 1000;
+const MAX_FAILURE_BACKOFF_MS = DAY_MS;
+// Other workers skip a claimed post or account for this long, in case this one stops mid-sync
+const CLAIM_LEASE_MS = 15 * 60 * 1000;
+const CLAIM_BATCH_SIZE = 50;
+
+export interface DailyMetric {
+  date: string;
+  metric: string;
+  value: number;
+}
+
+export interface InsightsSyncSummary {
+  posts: { synced: number; failed: number };
+  accounts: { synced: number; failed: number };
+}
+
+/**
+ * When a post's insights are read next: hourly on its first day, every six hours in its first week, then
+ * daily. Null once the post is older than the tracking period.
+ */
+export function nextPostInsightsSyncAt(publishedAt: Date, now: Date, trackingDays = POST_TRACKING_DAYS): Date | null {
+  const age = now.getTime() - publishedAt.getTime();
+  if (age >= trackingDays * DAY_MS) return null;
+  const interval = age < DAY_MS ? HOUR_MS : age < 7 * DAY_MS ? 6 * HOUR_MS : DAY_MS;
+  return new Date(now.getTime() + interval);
+}
+
+// Delay after the given number of consecutive failures, never shorter than the provider asked for
+export function insightsFailureBackoffMs(failures: number, retryAfterSeconds?: number): number {
+  const backoff = Math.min(MAX_FAILURE_BACKOFF_MS, FAILURE_BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1));
+  return Math.max(backoff, (retryAfterSeconds || 0) * 1000);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function sumValues(value: unknown): number {
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((sum: number, v) => sum + (Number(v) || 0), 0);
+  }
+  return Number(value) || 0;
+}
+
+// Engagements per impression (reach where the platform reports no impressions); null without an audience
+function engagementRate(metrics: Record<string, number>): number | null {
+  const audience = metrics.impressions || metrics.reach;
+  return audience ? metrics.engagements / audience : null;
+}
+
+// Lifetime post metrics under the names analytics_daily uses for every platform
+function normalizeMetaPostInsights(raw: Record<string, unknown>): Record<string, number> {
+  return {
+    impressions: Number(raw.post_impressions) || 0,
+    engagements: Number(raw.post_engaged_users) || 0,
+    clicks: Number(raw.post_clicks) || 0,
+    reactions: sumValues(raw.post_reactions_by_type_total),
+  };
+}
+
+function normalizeInstagramMediaInsights(raw: Record<string, number>): Record<string, number> {
+  return {
+    reach: Number(raw.reach) || 0,
+    engagements: Number(raw.total_interactions) || 0,
+    reactions: Number(raw.likes) || 0,
+    comments: Number(raw.comments) || 0,
+    shares: Number(raw.shares) || 0,
+    saves: Number(raw.saved) || 0,
+  };
+}
+
+function normalizeLinkedInPostAnalytics(raw: { impressions: number; clicks: number; likes: number; comments: number; shares: number }): Record<string, number> {
+  return {
+    impressions: raw.impressions,
+    engagements: raw.clicks + raw.likes + raw.comments + raw.shares,
+    clicks: raw.clicks,
+    reactions: raw.likes,
+    comments: raw.comments,
+    shares: raw.shares,
+  };
+}
+
+const META_ACCOUNT_METRICS: Record<string, string> = {
+  page_fans: 'followers',
+  page_impressions: 'impressions',
+  page_engaged_users: 'engagements',
+  reach: 'reach',
+  follower_count: 'new_followers',
+};
+
+// Page and Instagram account insights: a daily value's end_time is the start of the following day
+function metaDailyMetrics(data: MetaInsight[]): DailyMetric[] {
+  const metrics: DailyMetric[] = [];
+  for (const insight of data || []) {
+    const metric = META_ACCOUNT_METRICS[insight.name];
+    if (!metric) continue;
+    for (const point of insight.values || []) {
+      const end = new Date(point.end_time || '');
+      if (isNaN(end.getTime()) || typeof point.value !== 'number') continue;
+      metrics.push({ date: toDateString(new Date(end.getTime() - DAY_MS)), metric, value: point.value });
+    }
+  }
+  return metrics;
+}
+
+const LINKEDIN_SHARE_METRICS: Record<string, string> = {
+  impressionCount: 'impressions',
+  clickCount: 'clicks',
+  likeCount: 'reactions',
+  commentCount: 'comments',
+  shareCount: 'shares',
+  engagement: 'engagement_rate',
+};
+
+function linkedInDailyMetrics(elements: LinkedInShareStatistics[]): DailyMetric[] {
+  const metrics: DailyMetric[] = [];
+  for (const element of elements || []) {
+    const start = Number(element.timeRange?.start);
+    const stats = element.totalShareStatistics;
+    if (!start || !stats) continue;
+    const date = toDateString(new Date(start));
+    for (const [field, metric] of Object.entries(LINKEDIN_SHARE_METRICS)) {
+      if (typeof stats[field] === 'number') metrics.push({ date, metric, value: stats[field] });
+    }
+    const engagements = ['clickCount', 'likeCount', 'commentCount', 'shareCount'].reduce((sum, field) => sum + (Number(stats[field]) || 0), 0);
+    metrics.push({ date, metric: 'engagements', value: engagements });
+  }
+  return metrics;
+}
+
+// Rate limits, 5xx responses and unreachable providers count against the provider's circuit breaker
+function isProviderOutage(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return !status || status === 429 || status >= 500;
+}
+
+function retryAfterSeconds(error: unknown): number | undefined {
+  if (error instanceof CircuitOpenError) return error.retryAfterSeconds;
+  if (axios.isAxiosError(error)) {
+    const seconds = Number(error.response?.headers?.['retry-after']);
+    return seconds > 0 ? seconds : undefined;
+  }
+  return undefined;
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { error?: { message?: string }; message?: string } | string | undefined;
+    const message = (data && typeof data === 'object' ? data.error?.message || data.message : undefined) || error.message;
+    return error.response?.status ? `${error.response.status}: ${message}` : message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+type InsightsOutcome<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+/**
+ * Reads platform insights into analytics_daily: lifetime metrics of published posts (one row per metric
+ * per sync day) and daily metrics of connected target accounts, whose history is backfilled on their first
+ * sync. Each post and account carries its own next sync time, which failures push out exponentially.
+ */
+@Injectable()
+export class PlatformInsightsService {
+  private readonly logger = new Logger(PlatformInsightsService.name);
+
+  constructor(
+    private readonly db: DbService,
+    private readonly tokenService: TokenService,
+    private readonly metaClient: MetaClientService,
+    private readonly linkedinClient: LinkedInClientService,
+    private readonly errorHandling: EnhancedErrorHandlingService,
+  ) {}
+
+  // Sync every account and post that is due, claiming them in batches so several workers can share the work
+  async syncDue(): Promise<InsightsSyncSummary> {
+    const summary: InsightsSyncSummary = { posts: { synced: 0, failed: 0 }, accounts: { synced: 0, failed: 0 } };
+
+    let accounts: TargetAccountInsightsRow[];
+    do {
+      accounts = await this.db.claimDueTargetAccountInsights(CLAIM_BATCH_SIZE, CLAIM_LEASE_MS);
+      for (const account of accounts) {
+        summary.accounts[(await this.syncAccount(account)) ? 'synced' : 'failed']++;
+      }
+    } while (accounts.length === CLAIM_BATCH_SIZE);
+
+    let posts: ScheduleInsightsRow[];
+    do {
+      posts = await this.db.claimDueScheduleInsights(CLAIM_BATCH_SIZE, CLAIM_LEASE_MS, POST_TRACKING_DAYS);
+      for (const post of posts) {
+        summary.posts[(await this.syncPost(post)) ? 'synced' : 'failed']++;
+      }
+    } while (posts.length === CLAIM_BATCH_SIZE);
+
+    return summary;
+  }
+
+  // A claimed schedule row; false when the sync failed and was rescheduled with backoff
+  async syncPost(post: ScheduleInsightsRow, now = new Date()): Promise<boolean> {
+    try {
+      const metrics = await this.fetchPostMetrics(post);
+      await this.db.recordScheduleInsights(
+        post.id,
+        post.organization_id,
+        post.platform,
+        toDateString(now),
+        metrics,
+        engagementRate(metrics),
+        nextPostInsightsSyncAt(new Date(post.scheduled_at), now),
+      );
+      return true;
+    } catch (error) {
+      await this.recordFailure('schedule', post.id, post.insights_failures, error);
+      return false;
+    }
+  }
+
+  // A claimed target account row; the first successful sync loads BACKFILL_DAYS of history
+  async syncAccount(account: TargetAccountInsightsRow, now = new Date()): Promise<boolean> {
+    const backfill = !account.insights_backfilled_at;
+    try {
+      const days = backfill ? BACKFILL_DAYS : ACCOUNT_REFRESH_DAYS;
+      const values = await this.fetchAccountMetrics(account, new Date(now.getTime() - days * DAY_MS), now);
+      await this.db.recordTargetAccountInsights(
+        account.id,
+        account.organization_id,
+        account.platform,
+        values,
+        new Date(now.getTime() + ACCOUNT_SYNC_INTERVAL_MS),
+        backfill,
+      );
+      if (backfill) {
+        this.logger.log(`Backfilled ${days} days of ${account.platform} insights for target account ${account.id}`);
+      }
+      return true;
+    } catch (error) {
+      await this.recordFailure('target_account', account.id, account.insights_failures, error);
+      return false;
+    }
+  }
+
+  private async fetchPostMetrics(post: ScheduleInsightsRow): Promise<Record<string, number>> {
+    switch (post.platform) {
+      case 'FACEBOOK': {
+        // Facebook post ids are "{pageId}_{postId}"; page posts are read with the page's own token
+        const pageId = post.provider_id.includes('_') ? post.provider_id.split('_')[0] : post.target_external_id ?? undefined;
+        const pageToken = await this.getFacebookPageToken(post.organization_id, pageId);
+        return normalizeMetaPostInsights(await this.callProvider('meta', () => this.metaClient.getPostInsights(post.provider_id, pageToken)));
+      }
+      case 'INSTAGRAM': {
+        const accessToken = await this.getAccessToken(post.organization_id, post.platform, post.target_external_id);
+        return normalizeInstagramMediaInsights(await this.callProvider('meta', () => this.metaClient.getInstagramMediaInsights(post.provider_id, accessToken)));
+      }
+      case 'LINKEDIN': {
+        const accessToken = await this.getAccessToken(post.organization_id, post.platform, post.target_external_id);
+        return normalizeLinkedInPostAnalytics(await this.callProvider('linkedin', () => this.linkedinClient.getPostAnalytics(post.provider_id, accessToken)));
+      }
+      default:
+        throw new Error(`Insights are not available for ${post.platform}`);
+    }
+  }
+
+  private async fetchAccountMetrics(account: TargetAccountInsightsRow, from: Date, to: Date): Promise<DailyMetric[]> {
+    const metadata = account.account_metadata || {};
+    const linkedPageId = [metadata.pageId, metadata.page_id].find((id): id is string => typeof id === 'string' && id !== '');
+    const token = account.platform === 'FACEBOOK'
+      ? await this.getFacebookPageToken(account.organization_id, account.account_id)
+      : await this.getAccessToken(account.organization_id, account.platform, account.account_id, linkedPageId);
+
+    const metrics: DailyMetric[] = [];
+    for (let start = from.getTime(); start < to.getTime(); start += MAX_RANGE_DAYS * DAY_MS) {
+      const end = Math.min(to.getTime(), start + MAX_RANGE_DAYS * DAY_MS);
+      const range = { since: toDateString(new Date(start)), until: toDateString(new Date(end)) };
+      switch (account.platform) {
+        case 'FACEBOOK':
+          metrics.push(...metaDailyMetrics(await this.callProvider('meta', () => this.metaClient.getPageInsights(account.account_id, token, range))));
+          break;
+        case 'INSTAGRAM':
+          metrics.push(...metaDailyMetrics(await this.callProvider('meta', () => this.metaClient.getInstagramAccountInsights(account.account_id, token, range))));
+          break;
+        case 'LINKEDIN':
+          metrics.push(...linkedInDailyMetrics(await this.callProvider('linkedin', () => this.linkedinClient.getCompanyAnalytics(account.account_id, token, { start, end }))));
+          break;
+        default:
+          throw new Error(`Insights are not available for ${account.platform}`);
+      }
+    }
+
+    // Windows share their boundary day; the later reading wins
+    const byDay = new Map<string, DailyMetric>();
+    for (const metric of metrics) byDay.set(`${metric.date}|${metric.metric}`, metric);
+    return [...byDay.values()];
+  }
+
+  /**
+   * The account's own connection, or the connection that manages it: the page an Instagram account is linked to,
+   * or the LinkedIn member administering the company. Posts published without a target account use the
+   * organization's connection for the provider.
+   */
+  private async getAccessToken(organizationId: string, platform: string, accountId?: string | null, linkedPageId?: string): Promise<string> {
+    if (!accountId) {
+      const provider = providerForPlatform(platform);
+      const tokenInfo = provider ? await this.tokenService.getValidAccessToken({ organizationId }, provider) : null;
+      if (!tokenInfo) throw new Error(`No valid ${platform} token available`);
+      return tokenInfo.accessToken;
+    }
+
+    const own = await this.tokenService.getAccountAccessToken(organizationId, platform, accountId);
+    if (own) return own.accessToken;
+    if (platform === 'INSTAGRAM' && linkedPageId) {
+      return this.getFacebookPageToken(organizationId, linkedPageId);
+    }
+
+    const managing = platform === 'INSTAGRAM'
+      ? await this.tokenService.findConnectedAccount(organizationId, 'FACEBOOK', async connection => {
+        for (const page of await this.callProvider('meta', () => this.metaClient.getUserPages(connection.accessToken))) {
+          const accounts = await this.callProvider('meta', () => this.metaClient.getInstagramAccounts(page.accessToken, page.id));
+          if (accounts.some(a => String(a.id) === String(accountId))) return page.accessToken;
+        }
+        return null;
+      })
+      : await this.tokenService.findConnectedAccount(organizationId, platform, async connection => {
+        const companies = await this.callProvider('linkedin', () => this.linkedinClient.getUserCompanies(connection.accessToken));
+        return companies.some(c => String(c.id) === String(accountId)) ? connection.accessToken : null;
+      });
+    if (!managing) {
+      throw new Error(`${platform} account ${accountId} is not accessible with any connected account`);
+    }
+    return managing;
+  }
+
+  // The page's own connection from OAuth, or the page token in the page list of the Meta user managing it
+  private async getFacebookPageToken(organizationId: string, pageId?: string): Promise<string> {
+    if (!pageId) {
+      throw new Error('Cannot tell which Facebook page the post belongs to');
+    }
+    const own = await this.tokenService.getAccountAccessToken(organizationId, 'FACEBOOK', pageId);
+    if (own) {
+      // A user connection is stored under its first page; exchange its user token for that page's token
+      const pages = await this.callProvider('meta', () => this.metaClient.getUserPages(own.accessToken)).catch(() => []);
+      return pages.find(p => p.id === pageId)?.accessToken || own.accessToken;
+    }
+    const pageToken = await this.tokenService.findConnectedAccount(organizationId, 'FACEBOOK', async connection =>
+      (await this.callProvider('meta', () => this.metaClient.getUserPages(connection.accessToken))).find(p => p.id === pageId)?.accessToken);
+    if (!pageToken) {
+      throw new Error(`Facebook page ${pageId} is not accessible with any connected Meta account`);
+    }
+    return pageToken;
+  }
+
+  /**
+   * Call the provider through its shared circuit breaker. Only outages count as breaker failures; errors
+   * about the request itself (expired token, deleted post) are rethrown without touching the breaker.
+   */
+  private async callProvider<T>(provider: 'meta' | 'linkedin', call: () => Promise<T>): Promise<T> {
+    const outcome = await this.errorHandling.executeWithCircuitBreaker(async (): Promise<InsightsOutcome<T>> => {
+      try {
+        return { ok: true, value: await call() };
+      } catch (error) {
+        if (isProviderOutage(error)) throw error;
+        return { ok: false, error };
+      }
+    }, provider);
+    if (!outcome.ok) throw outcome.error;
+    return outcome.value;
+  }
+
+  private async recordFailure(kind: 'schedule' | 'target_account', id: string, previousFailures: number, error: unknown): Promise<void> {
+    const failures = (Number(previousFailures) || 0) + 1;
+    const delayMs = insightsFailureBackoffMs(failures, retryAfterSeconds(error));
+    const message = describeError(error);
+    this.logger.warn(`Insights sync failed for ${kind} ${id} (attempt ${failures}), next try in ${Math.round(delayMs / 60000)} min: ${message}`);
+    await this.db.recordInsightsFailure(kind, id, message, new Date(Date.now() + delayMs));
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * RFC 5545 recurrence rules (RRULE) expanded in an IANA timezone.
+ *
+ * Occurrences are wall-clock times in the rule's timezone, so a 09:00 post stays at 09:00 local time across
+ * DST changes. A local time skipped by a DST change moves forward by the length of the gap (02:30 becomes
+ * 03:30); a local time that happens twice resolves to its first instance. DTSTART is an occurrence only when
+ * it matches the rule.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Periods expanded before giving up on a rule that never (or no longer) produces occurrences
+const MAX_PERIODS = 50000;
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  // UNTIL as written; resolved against the timezone when the rule is expanded
+  until?: string;
+  // weekday: 0 = Sunday … 6 = Saturday; ordinal picks the nth (negative: from the end) in the month or year
+  byDay?: Array<{ weekday: number; ordinal?: number }>;
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+  weekStart: number;
+}
+
+export interface RecurrenceDefinition {
+  rrule: string;
+  // Local start in the timezone: YYYY-MM-DDTHH:mm[:ss]; its time of day is used unless BYHOUR/BYMINUTE say otherwise
+  dtstart: string;
+  timezone: string;
+  // Local date-times, whole local dates, or absolute instants (with Z or an offset) to skip
+  exdates?: string[];
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+function parseIntegerList(name: string, value: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(item => {
+    const n = Number(item);
+    const magnitude = Math.abs(n);
+    if (!/^[+-]?\d+$/.test(item) || (n < 0 && !allowNegative) || magnitude < min || magnitude > max) {
+      throw new RecurrenceRuleError(`Invalid ${name} value "${item}"`);
+    }
+    return n;
+  });
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Throws RecurrenceRuleError for malformed or
+ * unsupported rules; HOURLY and finer frequencies, BYWEEKNO, BYYEARDAY and BYSECOND are not supported.
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const text = String(rrule || '').trim().replace(/^RRULE:/i, '');
+  if (!text) {
+    throw new RecurrenceRuleError('rrule is required');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';').filter(Boolean)) {
+    const [rawKey, value] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    if (!value) throw new RecurrenceRuleError(`Invalid rule part "${part}"`);
+    if (parts.has(key)) throw new RecurrenceRuleError(`${key} is given more than once`);
+    parts.set(key, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq) throw new RecurrenceRuleError('FREQ is required');
+  if (!FREQUENCIES.includes(freq)) throw new RecurrenceRuleError(`FREQ=${freq} is not supported; use ${FREQUENCIES.join(', ')}`);
+
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: WEEKDAYS.MO };
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(key, value, 1, 1000)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntegerList(key, value, 1, 100000)[0];
+        break;
+      case 'UNTIL':
+        if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) throw new RecurrenceRuleError(`Invalid UNTIL value "${value}"`);
+        rule.until = value;
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(item => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          const ordinal = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || ordinal === 0 || (ordinal !== undefined && Math.abs(ordinal) > 53)) {
+            throw new RecurrenceRuleError(`Invalid BYDAY value "${item}"`);
+          }
+          if (ordinal !== undefined && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+            throw new RecurrenceRuleError(`BYDAY=${item} takes an ordinal only with FREQ=MONTHLY or FREQ=YEARLY`);
+          }
+          return { weekday: WEEKDAYS[match[2]], ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq === 'WEEKLY') throw new RecurrenceRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+        rule.byMonthDay = parseIntegerList(key, value, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(key, value, 1, 12);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(key, value, 1, 366, true);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntegerList(key, value, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntegerList(key, value, 0, 59);
+        break;
+      case 'WKST':
+        if (WEEKDAYS[value] === undefined) throw new RecurrenceRuleError(`Invalid WKST value "${value}"`);
+        rule.weekStart = WEEKDAYS[value];
+        break;
+      default:
+        throw new RecurrenceRuleError(`${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot be used together');
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth && !rule.byHour && !rule.byMinute) {
+    throw new RecurrenceRuleError('BYSETPOS needs another BYxxx part to select from');
+  }
+  return rule;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock times are handled as "floating" milliseconds: the local fields read as if they were UTC
+const formatters = new Map<string, Intl.DateTimeFormat>();
+export function wallClock(instant: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour % 24, fields.minute, fields.second);
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const wholeSecond = Math.floor(instant / 1000) * 1000;
+  return wallClock(wholeSecond, timezone) - wholeSecond;
+}
+
+// The instant of a local wall-clock time, resolving DST gaps and overlaps as described above
+export function zonedToInstant(local: number, timezone: string): number {
+  const before = offsetAt(local - DAY_MS, timezone);
+  const after = offsetAt(local + DAY_MS, timezone);
+  const candidates = [...new Set([before, after])]
+    .map(offset => local - offset)
+    .filter(instant => offsetAt(instant, timezone) === local - instant);
+  return candidates.length > 0 ? Math.min(...candidates) : local - before;
+}
+
+// Local wall-clock time of an instant, as YYYY-MM-DDTHH:mm:ss
+export function formatInTimeZone(date: Date, timezone: string): string {
+  return new Date(wallClock(date.getTime(), timezone)).toISOString().slice(0, 19);
+}
+
+// YYYY-MM-DD[THH:mm[:ss]] or the compact YYYYMMDD[THHMMSS]; floating milliseconds and whether a time was given
+function parseLocal(value: string): { local: number; hasTime: boolean } | null {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})(?:T(\d{2}):?(\d{2})(?::?(\d{2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match;
+  const local = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h || 0), Number(mi || 0), Number(s || 0));
+  const check = new Date(local);
+  if (check.getUTCMonth() !== Number(mo) - 1 || check.getUTCDate() !== Number(d) || Number(h || 0) > 23 || Number(mi || 0) > 59) {
+    return null;
+  }
+  return { local, hasTime: h !== undefined };
+}
+
+// Instant of a local wall-clock time in the timezone, in either format parseLocal accepts; null when malformed
+export function parseInTimeZone(value: string, timezone: string): Date | null {
+  const parsed = parseLocal(value);
+  return parsed ? new Date(zonedToInstant(parsed.local, timezone)) : null;
+}
+
+function resolveUntil(until: string, timezone: string): number {
+  if (until.endsWith('Z')) {
+    return (parseLocal(until.slice(0, -1)) as { local: number }).local;
+  }
+  const parsed = parseLocal(until) as { local: number; hasTime: boolean };
+  // A date alone includes the whole local day
+  return parsed.hasTime ? zonedToInstant(parsed.local, timezone) : zonedToInstant(parsed.local + DAY_MS, timezone) - 1;
+}
+
+function parseExdates(exdates: string[], timezone: string): { instants: Set<number>; dates: Set<string> } {
+  const instants = new Set<number>();
+  const dates = new Set<string>();
+  for (const exdate of exdates) {
+    const value = String(exdate).trim();
+    if (/(Z|[+-]\d{2}:?\d{2})$/.test(value) && value.includes('T')) {
+      const compact = /^(\d{8}T\d{6})Z$/.exec(value);
+      const instant = compact ? (parseLocal(compact[1]) as { local: number }).local : new Date(value).getTime();
+      if (isNaN(instant)) throw new RecurrenceRuleError(`Invalid exception date "${value}"`);
+      instants.add(Math.floor(instant / 1000) * 1000);
+      continue;
+    }
+    const parsed = parseLocal(value);
+    if (!parsed) throw new RecurrenceRuleError(`Invalid exception date "${value}"`);
+    if (parsed.hasTime) {
+      instants.add(zonedToInstant(parsed.local, timezone));
+    } else {
+      dates.add(new Date(parsed.local).toISOString().slice(0, 10));
+    }
+  }
+  return { instants, dates };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Days (floating midnight) of one month selected by BYMONTHDAY / BYDAY, or the start's day of month
+function monthDays(rule: RecurrenceRule, year: number, month: number, defaultDay: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[] | null = null;
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1)).filter(day => day >= 1 && day <= length);
+  }
+  if (rule.byDay) {
+    const weekdayOfFirst = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matching: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const all: number[] = [];
+      for (let day = 1 + ((weekday - weekdayOfFirst + 7) % 7); day <= length; day += 7) all.push(day);
+      if (ordinal === undefined) {
+        matching.push(...all);
+      } else {
+        const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+        if (day !== undefined) matching.push(day);
+      }
+    }
+    days = days ? days.filter(day => matching.includes(day)) : matching;
+  }
+  if (!days) {
+    days = defaultDay <= length ? [defaultDay] : [];
+  }
+  return days.map(day => Date.UTC(year, month, day));
+}
+
+// Days of a year selected by BYDAY alone, where ordinals count within the year
+function yearWeekdays(rule: RecurrenceRule, year: number): number[] {
+  const days: number[] = [];
+  const first = Date.UTC(year, 0, 1);
+  const length = (Date.UTC(year + 1, 0, 1) - first) / DAY_MS;
+  for (const { weekday, ordinal } of rule.byDay || []) {
+    const all: number[] = [];
+    for (let offset = (weekday - new Date(first).getUTCDay() + 7) % 7; offset < length; offset += 7) all.push(first + offset * DAY_MS);
+    if (ordinal === undefined) {
+      days.push(...all);
+    } else {
+      const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+      if (day !== undefined) days.push(day);
+    }
+  }
+  return days;
+}
+
+// Candidate days (floating midnight) of the nth period after the start
+function periodDays(rule: RecurrenceRule, start: Date, period: number): number[] {
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const inMonths = (day: number) => !rule.byMonth || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + period * rule.interval * DAY_MS;
+      const date = new Date(day);
+      const monthDay = date.getUTCDate();
+      const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+      const dayMatches = !rule.byMonthDay || rule.byMonthDay.some(d => (d > 0 ? d : length + d + 1) === monthDay);
+      const weekdayMatches = !rule.byDay || rule.byDay.some(d => d.weekday === date.getUTCDay());
+      return inMonths(day) && dayMatches && weekdayMatches ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const weekStart = startDay - ((start.getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+      const days: number[] = [];
+      for (let i = 0; i < 7; i++) {
+        const day = weekStart + i * DAY_MS;
+        if (weekdays.includes(new Date(day).getUTCDay()) && inMonths(day)) days.push(day);
+      }
+      return days;
+    }
+    case 'MONTHLY': {
+      const index = start.getUTCFullYear() * 12 + start.getUTCMonth() + period * rule.interval;
+      const year = Math.floor(index / 12);
+      const month = index % 12;
+      if (rule.byMonth && !rule.byMonth.includes(month + 1)) return [];
+      return monthDays(rule, year, month, start.getUTCDate());
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + period * rule.interval;
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) return yearWeekdays(rule, year);
+      const months = rule.byMonth ? rule.byMonth.map(m => m - 1) : rule.byMonthDay ? [...Array(12).keys()] : [start.getUTCMonth()];
+      return months.flatMap(month => monthDays(rule, year, month, start.getUTCDate()));
+    }
+  }
+}
+
+/**
+ * The first `limit` occurrences strictly after `after`, as instants. COUNT counts every occurrence from
+ * DTSTART, including ones skipped by an exception date.
+ */
+export function nextOccurrences(definition: RecurrenceDefinition, after: Date, limit: number): Date[] {
+  const rule = parseRecurrenceRule(definition.rrule);
+  const timezone = definition.timezone;
+  if (!isValidTimeZone(timezone)) {
+    throw new RecurrenceRuleError(`Unknown timezone "${timezone}"`);
+  }
+  const start = parseLocal(String(definition.dtstart || ''));
+  if (!start) {
+    throw new RecurrenceRuleError(`Invalid dtstart "${definition.dtstart}"; use YYYY-MM-DDTHH:mm in the schedule's timezone`);
+  }
+  const until = rule.until ? resolveUntil(rule.until, timezone) : Infinity;
+  const excluded = parseExdates(definition.exdates || [], timezone);
+
+  const startDate = new Date(start.local);
+  const hours = [...new Set(rule.byHour || [startDate.getUTCHours()])].sort((a, b) => a - b);
+  const minutes = [...new Set(rule.byMinute || [startDate.getUTCMinutes()])].sort((a, b) => a - b);
+  const timesOfDay = hours.flatMap(h => minutes.map(m => (h * 60 + m) * 60000 + startDate.getUTCSeconds() * 1000));
+
+  const occurrences: Date[] = [];
+  let counted = 0;
+  let previous = -Infinity;
+  for (let period = 0; period < MAX_PERIODS && occurrences.length < limit; period++) {
+    const days = [...new Set(periodDays(rule, startDate, period))].sort((a, b) => a - b);
+    let candidates = days.flatMap(day => timesOfDay.map(time => day + time));
+    if (rule.bySetPos) {
+      const selected = rule.bySetPos.map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]));
+      candidates = [...new Set(selected.filter((c): c is number => c !== undefined))].sort((a, b) => a - b);
+    }
+
+    for (const local of candidates) {
+      if (local < start.local) continue;
+      const instant = zonedToInstant(local, timezone);
+      // Two local times in a DST gap can land on the same instant
+      if (instant <= previous) continue;
+      previous = instant;
+      if (instant > until) return occurrences;
+      counted++;
+      if (rule.count !== undefined && counted > rule.count) return occurrences;
+      const excludedDay = excluded.dates.has(new Date(local).toISOString().slice(0, 10));
+      if (instant > after.getTime() && !excludedDay && !excluded.instants.has(instant)) {
+        occurrences.push(new Date(instant));
+        if (occurrences.length >= limit) break;
+      }
+    }
+  }
+  return occurrences;
+}
@@ -1,5 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DbService } from '../db.service';
+import { RecurrenceDefinition, RecurrenceRuleError, formatInTimeZone, isValidTimeZone, nextOccurrences } from './recurrence-rule';
+import { CadencePolicyService, CadenceSlot } from './cadence-policy.service';
+
+// Recurring occurrences are turned into schedules this far ahead so they publish on time
+const RECURRENCE_LEAD_MS = 60 * 60 * 1000;
+// Occurrences missed by longer than this (e.g. the worker was down) are skipped rather than published late
+const MISSED_OCCURRENCE_GRACE_MS = 60 * 60 * 1000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
 export interface OptimalTiming {
   platform: string;
@@ -69,12 +80,22 @@ export interface RecurringSchedule {
   id: string;
   name: string;
   organizationId: string;
+  // Either an RFC 5545 rrule, or the older frequency/timeOfDay form, which is converted to one
   template: {
     platforms: string[];
-    frequency: 'daily' | 'weekly' | 'monthly';
-    timeOfDay: string; // HH:MM format
+    rrule?: string;
+    // IANA timezone the rule's wall-clock times are in; defaults to UTC
+    timezone?: string;
+    // Local start (YYYY-MM-DDTHH:mm); defaults to the time the schedule is created
+    dtstart?: string;
+    // Local date-times, whole local dates or absolute instants to skip
+    exdates?: string[];
+    frequency?: 'daily' | 'weekly' | 'monthly';
+    timeOfDay?: string; // HH:MM format
     daysOfWeek?: number[]; // For weekly frequency
     dayOfMonth?: number;   // For monthly frequency
+    // Move occurrences that break the posting cadence to the next allowed time instead of skipping them
+    autoShift?: boolean;
   };
   contentTemplate: {
     type: 'BLOG' | 'NEWSLETTER' | 'SOCIAL';
@@ -90,7 +111,10 @@ export interface RecurringSchedule {
 export class SmartSchedulingService {
   private readonly logger = new Logger(SmartSchedulingService.name);
 
-  constructor(private readonly db: DbService) {}
+  constructor(
+    private readonly db: DbService,
+    private readonly cadencePolicies: CadencePolicyService,
+  ) {}
 
   async getOptimalTiming(platform: string, organizationId: string, timezone: string = 'UTC'): Promise<OptimalTiming> {
     try {
@@ -113,8 +137,8 @@ export class SmartSchedulingService {
       this.logger.log(`Generated optimal timing for ${platform} with confidence ${optimalTiming.confidence}%`);
       return optimalTiming;
     } catch (error) {
-      this.logger.error(`Failed to get optimal timing: ${error.message}`);
-      throw new Error(`Failed to get optimal timing: ${error.message}`);
+      this.logger.error(`Failed to get optimal timing: ${errorMessage(error)}`);
+      throw new Error(`Failed to get optimal timing: ${errorMessage(error)}`);
     }
   }
 
@@ -145,8 +169,8 @@ export class SmartSchedulingService {
       this.logger.log(`Generated schedule recommendations for ${contentItemId} on ${platforms.length} platforms`);
       return recommendations;
     } catch (error) {
-      this.logger.error(`Failed to generate schedule recommendations: ${error.message}`);
-      throw new Error(`Failed to generate schedule recommendations: ${error.message}`);
+      this.logger.error(`Failed to generate schedule recommendations: ${errorMessage(error)}`);
+      throw new Error(`Failed to generate schedule recommendations: ${errorMessage(error)}`);
     }
   }
 
@@ -184,82 +208,152 @@ export class SmartSchedulingService {
         resolution
       };
     } catch (error) {
-      this.logger.error(`Failed to detect schedule conflicts: ${error.message}`);
-      throw new Error(`Failed to detect schedule conflicts: ${error.message}`);
+      this.logger.error(`Failed to detect schedule conflicts: ${errorMessage(error)}`);
+      throw new Error(`Failed to detect schedule conflicts: ${errorMessage(error)}`);
     }
   }
 
   async createRecurringSchedule(schedule: Omit<RecurringSchedule, 'id' | 'createdAt'>): Promise<string> {
     try {
       const scheduleId = `recurring_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-      
-      const nextExecution = this.calculateNextExecution(schedule.template);
-      
+
+      // The rule is stored resolved (rrule, timezone, dtstart) so later expansions agree with this one
+      const recurrence = this.resolveRecurrence(schedule.template);
+      const [nextExecution] = nextOccurrences(recurrence, new Date(), 1);
+      if (!nextExecution) {
+        throw new RecurrenceRuleError('The recurrence rule has no future occurrences');
+      }
+
       await this.db.createRecurringSchedule({
         id: scheduleId,
         ...schedule,
-        nextExecution,
+        template: { ...schedule.template, ...recurrence },
+        nextExecution: nextExecution.toISOString(),
         createdAt: new Date().toISOString()
       });
 
       this.logger.log(`Created recurring schedule: ${scheduleId}`);
       return scheduleId;
     } catch (error) {
-      this.logger.error(`Failed to create recurring schedule: ${error.message}`);
-      throw new Error(`Failed to create recurring schedule: ${error.message}`);
+      if (error instanceof RecurrenceRuleError) throw error;
+      this.logger.error(`Failed to create recurring schedule: ${errorMessage(error)}`);
+      throw new Error(`Failed to create recurring schedule: ${errorMessage(error)}`);
     }
   }
 
+  /**
+   * The next occurrences of a recurring schedule template, as instants and as wall-clock times in its timezone
+   */
+  previewRecurrence(template: RecurringSchedule['template'], count: number, after: Date = new Date()): {
+    rrule: string;
+    timezone: string;
+    dtstart: string;
+    occurrences: Array<{ at: string; local: string }>;
+  } {
+    const recurrence = this.resolveRecurrence(template);
+    const occurrences = nextOccurrences(recurrence, after, count).map(at => ({
+      at: at.toISOString(),
+      local: formatInTimeZone(at, recurrence.timezone),
+    }));
+    return { rrule: recurrence.rrule, timezone: recurrence.timezone, dtstart: recurrence.dtstart, occurrences };
+  }
+
+  /**
+   * Turn due occurrences into content and per-platform schedules. Runs from the worker every minute; each
+   * occurrence is claimed by moving the schedule to its next occurrence, so concurrent workers create it once.
+   */
   async processRecurringSchedules(): Promise<{
     processed: number;
     created: number;
     errors: number;
   }> {
     try {
-      const dueSchedules = await this.db.getDueRecurringSchedules();
+      const dueSchedules = await this.db.getDueRecurringSchedules(RECURRENCE_LEAD_MS);
       let processed = 0;
       let created = 0;
       let errors = 0;
 
       for (const schedule of dueSchedules) {
         try {
-          // Generate content for the schedule
-          const contentItemId = await this.generateContentForSchedule(schedule);
-          
-          // Create individual schedules for each platform
-          for (const platform of schedule.template.platforms) {
-            const scheduledAt = this.calculateScheduleTime(schedule.template, platform);
-            
-            await this.db.createSchedule(
-              contentItemId,
-              platform,
-              scheduledAt,
-              [],
-              null
-            );
-            
-            created++;
+          const occurrence = new Date(schedule.next_execution);
+          const now = Date.now();
+          // Occurrences missed while nothing was running are not caught up one by one
+          const [nextExecution] = nextOccurrences(this.resolveRecurrence(schedule.template), new Date(Math.max(occurrence.getTime(), now)), 1);
+          const claimed = await this.db.advanceRecurringSchedule(schedule.id, occurrence, nextExecution || null);
+          if (!claimed) continue;
+
+          if (occurrence.getTime() < now - MISSED_OCCURRENCE_GRACE_MS) {
+            this.logger.warn(`Skipped missed occurrence ${occurrence.toISOString()} of recurring schedule ${schedule.id}`);
+            continue;
           }
 
-          // Update next execution time
-          const nextExecution = this.calculateNextExecution(schedule.template);
-          await this.db.updateRecurringSchedule(schedule.id, { nextExecution });
-
+          // Planned and created under the cadence lock, so a concurrent schedule cannot take the same slot
+          const scheduled = await this.cadencePolicies.planAndCreate(
+            schedule.organizationId,
+            schedule.template.platforms.map((platform: string) => ({ platform, scheduledAt: occurrence })),
+            schedule.template.autoShift === true,
+            async slots => {
+              for (const slot of slots.filter(s => s.scheduledAt === null)) {
+                this.logger.warn(`Skipped ${slot.platform} for occurrence ${occurrence.toISOString()} of recurring schedule ${schedule.id}: ${slot.violations.map(v => v.message).join('; ')}`);
+              }
+              const allowed = slots.filter(s => s.scheduledAt !== null);
+              if (allowed.length === 0) return 0;
+
+              // Generate content for the schedule
+              const contentItemId = await this.generateContentForSchedule(schedule);
+
+              // Create individual schedules for each platform at the occurrence, or where the cadence moved it
+              for (const slot of allowed) {
+                await this.db.createSchedule(
+                  contentItemId,
+                  slot.platform,
+                  new Date(slot.scheduledAt as string),
+                  [],
+                  null
+                );
+              }
+              return allowed.length;
+            }
+          );
+          if (scheduled === 0) continue;
+
+          created += scheduled;
           processed++;
         } catch (error) {
-          this.logger.error(`Failed to process recurring schedule ${schedule.id}: ${error.message}`);
+          this.logger.error(`Failed to process recurring schedule ${schedule.id}: ${errorMessage(error)}`);
           errors++;
         }
       }
 
-      this.logger.log(`Processed ${processed} recurring schedules, created ${created} individual schedules, ${errors} errors`);
+      if (dueSchedules.length > 0) {
+        this.logger.log(`Processed ${processed} recurring schedules, created ${created} individual schedules, ${errors} errors`);
+      }
       return { processed, created, errors };
     } catch (error) {
-      this.logger.error(`Failed to process recurring schedules: ${error.message}`);
-      throw new Error(`Failed to process recurring schedules: ${error.message}`);
+      this.logger.error(`Failed to process recurring schedules: ${errorMessage(error)}`);
+      throw new Error(`Failed to process recurring schedules: ${errorMessage(error)}`);
     }
   }
 
+  /**
+   * Move a schedule to a new time within the posting cadence, checked and saved under the cadence lock. The
+   * schedule's current time does not count against the move. Returns null when the organization has no such
+   * schedule; throws CadenceViolationError when the cadence allows no time.
+   */
+  async reschedule(organizationId: string, scheduleId: string, scheduledAt: Date, autoShift: boolean, reason?: string): Promise<CadenceSlot | null> {
+    const schedule = await this.db.getSchedule(scheduleId, organizationId);
+    if (!schedule) return null;
+    return this.cadencePolicies.enforceAndCreate(
+      organizationId,
+      [{ platform: schedule.platform, scheduledAt, targetAccountId: schedule.target_account_id, scheduleId }],
+      autoShift,
+      async ([slot]) => {
+        await this.db.rescheduleContent(scheduleId, slot.scheduledAt as string, reason, organizationId);
+        return slot;
+      }
+    );
+  }
+
   async getScheduleAnalytics(platform: string, organizationId: string, days: number = 30): Promise<ScheduleAnalytics> {
     try {
       const schedules = await this.db.getScheduleAnalytics(platform, organizationId, days);
@@ -283,8 +377,8 @@ export class SmartSchedulingService {
         trends
       };
     } catch (error) {
-      this.logger.error(`Failed to get schedule analytics: ${error.message}`);
-      throw new Error(`Failed to get schedule analytics: ${error.message}`);
+      this.logger.error(`Failed to get schedule analytics: ${errorMessage(error)}`);
+      throw new Error(`Failed to get schedule analytics: ${errorMessage(error)}`);
     }
   }
 
@@ -342,8 +436,8 @@ export class SmartSchedulingService {
         alternatives
       };
     } catch (error) {
-      this.logger.error(`Failed to suggest optimal schedule: ${error.message}`);
-      throw new Error(`Failed to suggest optimal schedule: ${error.message}`);
+      this.logger.error(`Failed to suggest optimal schedule: ${errorMessage(error)}`);
+      throw new Error(`Failed to suggest optimal schedule: ${errorMessage(error)}`);
     }
   }
 
@@ -401,7 +495,7 @@ export class SmartSchedulingService {
     
     // Check consistency of top times
     const topTimes = timingAnalysis.bestTimes.slice(0, 3);
-    const scoreVariance = this.calculateVariance(topTimes.map(t => t.engagementScore));
+    const scoreVariance = this.calculateVariance(topTimes.map((t: { engagementScore: number }) => t.engagementScore));
     if (scoreVariance < 0.1) {
       confidence += 15; // Consistent performance
     }
@@ -474,7 +568,12 @@ export class SmartSchedulingService {
     conflictType: 'same_time' | 'too_close' | 'audience_overlap';
     severity: 'low' | 'medium' | 'high';
   }> {
-    const conflicts = [];
+    const conflicts: Array<{
+      scheduleId: string;
+      scheduledAt: string;
+      conflictType: 'same_time' | 'too_close' | 'audience_overlap';
+      severity: 'low' | 'medium' | 'high';
+    }> = [];
     const scheduledTime = new Date(scheduledAt);
     
     for (const schedule of existingSchedules) {
@@ -542,42 +641,47 @@ export class SmartSchedulingService {
     return time.toISOString();
   }
 
-  private calculateNextExecution(template: RecurringSchedule['template']): string {
-    const now = new Date();
-    
+  /**
+   * The template's recurrence as an rrule in its timezone. Older templates (frequency + timeOfDay) become the
+   * equivalent rule; dtstart defaults to the current local time.
+   */
+  private resolveRecurrence(template: RecurringSchedule['template']): RecurrenceDefinition {
+    const timezone = template.timezone || 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      throw new RecurrenceRuleError(`Unknown timezone "${timezone}"`);
+    }
+    const dtstart = template.dtstart || formatInTimeZone(new Date(), timezone).slice(0, 16);
+    if (template.rrule) {
+      return { rrule: template.rrule, timezone, dtstart, exdates: template.exdates || [] };
+    }
+
+    const match = /^(\d{1,2}):(\d{2})$/.exec(template.timeOfDay || '');
+    if (!match) {
+      throw new RecurrenceRuleError('Either rrule or frequency with timeOfDay (HH:MM) is required');
+    }
+    const time = `BYHOUR=${Number(match[1])};BYMINUTE=${Number(match[2])}`;
+    const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+    let rrule: string;
     switch (template.frequency) {
       case 'daily':
-        const tomorrow = new Date(now);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(parseInt(template.timeOfDay.split(':')[0]), parseInt(template.timeOfDay.split(':')[1]), 0, 0);
-        return tomorrow.toISOString();
-        
+        rrule = `FREQ=DAILY;${time}`;
+        break;
       case 'weekly':
-        const nextWeek = new Date(now);
-        const daysUntilNext = (7 - now.getDay() + template.daysOfWeek![0]) % 7;
-        nextWeek.setDate(nextWeek.getDate() + daysUntilNext);
-        nextWeek.setHours(parseInt(template.timeOfDay.split(':')[0]), parseInt(template.timeOfDay.split(':')[1]), 0, 0);
-        return nextWeek.toISOString();
-        
+        rrule = `FREQ=WEEKLY;BYDAY=${(template.daysOfWeek?.length ? template.daysOfWeek : [1]).map(day => weekdays[day]).join(',')};${time}`;
+        break;
       case 'monthly':
-        const nextMonth = new Date(now);
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
-        nextMonth.setDate(template.dayOfMonth!);
-        nextMonth.setHours(parseInt(template.timeOfDay.split(':')[0]), parseInt(template.timeOfDay.split(':')[1]), 0, 0);
-        return nextMonth.toISOString();
-        
+        rrule = `FREQ=MONTHLY;BYMONTHDAY=${template.dayOfMonth || 1};${time}`;
+        break;
       default:
-        return now.toISOString();
+        throw new RecurrenceRuleError(`Unsupported frequency "${template.frequency}"`);
     }
+    return { rrule, timezone, dtstart, exdates: template.exdates || [] };
   }
 
   private async generateContentForSchedule(schedule: RecurringSchedule): Promise<string> {
     // Generate content using the content generation service
     // This would integrate with ContentGenerationService
-    const contentItemId = `content_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-    
-    // Mock content generation
-    await this.db.createContentItem(
+    return this.db.createContentItem(
       schedule.organizationId,
       `Recurring: ${schedule.contentTemplate.brief}`,
       schedule.contentTemplate.type,
@@ -591,22 +695,6 @@ export class SmartSchedulingService {
       },
       'system'
     );
-    
-    return contentItemId;
-  }
-
-  private calculateScheduleTime(template: RecurringSchedule['template'], platform: string): Date {
-    const now = new Date();
-    const scheduledTime = new Date(now);
-    
-    // Set the time based on template
-    const [hours, minutes] = template.timeOfDay.split(':').map(Number);
-    scheduledTime.setHours(hours, minutes, 0, 0);
-    
-    // Add platform-specific adjustments if needed
-    // This could include timezone adjustments, platform-specific optimal times, etc.
-    
-    return scheduledTime;
   }
 
   private analyzeBestPerformingTimes(schedules: any[]): Array<{
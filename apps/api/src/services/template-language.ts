@@ -0,0 +1,461 @@
+/**
+ * The template language of prompt, reply and message templates.
+ *
+ *   {{ lead.name }}                      output; missing values render empty unless strict
+ *   {{ title | truncate: 60 | upper }}   filters, with arguments after a colon
+ *   {{#if a}}…{{else if b}}…{{else}}…{{/if}}, {{#unless a}}…{{/unless}}
+ *   {{#each items}}{{@index}}: {{this}}{{else}}none{{/each}}   also over objects, with {{@key}}
+ *   {{> signature}} or {{> signature author}}                   partials, optionally with a new context
+ *   {{! comment }}
+ *
+ * Names are looked up from the innermost {{#each}} item outwards. A block tag alone on its line takes the line
+ * with it, so templates can put tags on their own lines without leaving blank lines behind.
+ */
+import { formatInTimeZone, isValidTimeZone } from './recurrence-rule';
+
+const MAX_PARTIAL_DEPTH = 10;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class TemplateError extends Error {
+  constructor(readonly reason: string, readonly line: number, readonly column: number, readonly partial?: string) {
+    super(`${reason} at line ${line}, column ${column}${partial ? ` of partial "${partial}"` : ''}`);
+    this.name = 'TemplateError';
+  }
+}
+
+export class TemplateSyntaxError extends TemplateError {
+  constructor(reason: string, line: number, column: number, partial?: string) {
+    super(reason, line, column, partial);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateRenderError extends TemplateError {
+  constructor(reason: string, line: number, column: number, partial?: string) {
+    super(reason, line, column, partial);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+export interface RenderOptions {
+  // Fail on undefined variables instead of rendering them empty; conditions may still test missing values
+  strict?: boolean;
+  partial?: (name: string) => CompiledTemplate | undefined;
+}
+
+export interface CompiledTemplate {
+  // Partials the template names directly
+  partials: string[];
+  render(variables: Record<string, unknown>, options?: RenderOptions): string;
+}
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+type Operand = { type: 'path'; segments: string[]; raw: string } | { type: 'literal'; value: string | number | boolean | null };
+
+interface Expression {
+  head: Operand;
+  filters: Array<{ name: string; args: Operand[]; pos: Position }>;
+  pos: Position;
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expression; pos: Position }
+  | { type: 'if'; branches: Array<{ cond: Expression | null; negate: boolean; body: Node[] }>; pos: Position }
+  | { type: 'each'; expr: Expression; body: Node[]; elseBody: Node[]; pos: Position }
+  | { type: 'partial'; name: string; context: Expression | null; pos: Position };
+
+interface Token {
+  kind: 'text' | 'tag' | 'comment';
+  value: string;
+  pos: Position;
+  // Opening, closing, else and comment tags may stand alone on a line
+  standalone?: boolean;
+}
+
+interface Scope {
+  data: unknown;
+  index?: number;
+  key?: string;
+  first?: boolean;
+  last?: boolean;
+}
+
+// Filters throw this for bad input; the renderer adds the position, and outside strict mode renders nothing
+class FilterError extends Error {}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value ?? ''));
+  if (value === null || value === undefined || value === '' || isNaN(date.getTime())) {
+    throw new FilterError(`"${String(value)}" is not a date`);
+  }
+  return date;
+}
+
+const FILTERS: Record<string, (value: unknown, ...args: unknown[]) => unknown> = {
+  upper: value => String(value ?? '').toUpperCase(),
+  lower: value => String(value ?? '').toLowerCase(),
+  // Cut to at most `length` characters including the suffix
+  truncate: (value, length = 100, suffix = '…') => {
+    const text = String(value ?? '');
+    const max = Number(length);
+    if (!Number.isInteger(max) || max < 0) throw new FilterError('truncate needs a length');
+    if (text.length <= max) return text;
+    return `${text.slice(0, Math.max(0, max - String(suffix).length)).trimEnd()}${String(suffix)}`;
+  },
+  // YYYY, MM, MMM, DD, ddd, HH, mm and ss, in an IANA timezone (default UTC)
+  date: (value, format = 'YYYY-MM-DD', timezone = 'UTC') => {
+    const date = toDate(value);
+    if (!isValidTimeZone(String(timezone))) throw new FilterError(`Unknown timezone "${String(timezone)}"`);
+    const local = formatInTimeZone(date, String(timezone));
+    const weekday = new Date(`${local.slice(0, 10)}T00:00:00Z`).getUTCDay();
+    const parts: Record<string, string> = {
+      YYYY: local.slice(0, 4),
+      MMM: MONTHS[Number(local.slice(5, 7)) - 1],
+      MM: local.slice(5, 7),
+      DD: local.slice(8, 10),
+      ddd: WEEKDAYS[weekday],
+      HH: local.slice(11, 13),
+      mm: local.slice(14, 16),
+      ss: local.slice(17, 19),
+    };
+    return String(format).replace(/YYYY|MMM|MM|DD|ddd|HH|mm|ss/g, token => parts[token]);
+  },
+  // "spring product launch" becomes #SpringProductLaunch; lists become one hashtag per item
+  hashtagify: value => {
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    return items
+      .map(item => String(item ?? '').split(/[^\p{L}\p{N}_]+/u).filter(Boolean))
+      .filter(words => words.length > 0)
+      .map(words => `#${words.map(word => word[0].toUpperCase() + word.slice(1)).join('')}`)
+      .join(' ');
+  },
+  urlencode: value => encodeURIComponent(String(value ?? '')),
+  default: (value, fallback = '') => (value === undefined || value === null || value === '' ? fallback : value),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.join(String(separator)) : value),
+  json: value => JSON.stringify(value ?? null),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function positionAt(source: string, offset: number): Position {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+function tokenize(source: string, partial?: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  while (offset < source.length) {
+    const open = source.indexOf('{{', offset);
+    if (open === -1) {
+      tokens.push({ kind: 'text', value: source.slice(offset), pos: positionAt(source, offset) });
+      break;
+    }
+    if (open > offset) tokens.push({ kind: 'text', value: source.slice(offset, open), pos: positionAt(source, offset) });
+    const pos = positionAt(source, open);
+
+    if (source.startsWith('{{!', open)) {
+      const long = source.startsWith('{{!--', open);
+      const close = source.indexOf(long ? '--}}' : '}}', open);
+      if (close === -1) throw new TemplateSyntaxError('Unclosed comment', pos.line, pos.column, partial);
+      tokens.push({ kind: 'comment', value: '', pos });
+      offset = close + (long ? 4 : 2);
+      continue;
+    }
+
+    // '}}' inside a quoted filter argument does not close the tag
+    let index = open + 2;
+    let quote: string | null = null;
+    while (index < source.length) {
+      const char = source[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (source.startsWith('}}', index)) {
+        break;
+      }
+      index++;
+    }
+    if (index >= source.length) throw new TemplateSyntaxError('Unclosed tag', pos.line, pos.column, partial);
+    tokens.push({ kind: 'tag', value: source.slice(open + 2, index).trim(), pos });
+    offset = index + 2;
+  }
+
+  // Standalone block tags and comments: drop their line's indentation and newline
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const blockTag = token.kind === 'comment' || (token.kind === 'tag' && /^(#|\/|else\b)/.test(token.value));
+    if (!blockTag) continue;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const before = previous ? (previous.kind === 'text' ? previous.value : null) : '';
+    const after = next ? (next.kind === 'text' ? next.value : null) : '';
+    if (before === null || after === null) continue;
+    const lineStart = before.lastIndexOf('\n');
+    const leading = before.slice(lineStart + 1);
+    // The tag must start its line: the text before it ends in a newline, or the template starts there
+    if (!/^[ \t]*$/.test(leading) || (lineStart === -1 && i > 1)) continue;
+    const trailing = /^[ \t]*(\r?\n|$)/.exec(after);
+    if (!trailing) continue;
+    token.standalone = true;
+    if (previous) previous.value = before.slice(0, lineStart + 1);
+    if (next) next.value = after.slice(trailing[0].length);
+  }
+  return tokens;
+}
+
+// One filter argument or the expression's head: a quoted string, number, true/false/null or a path
+function parseOperand(text: string, pos: Position, partial?: string): Operand {
+  const value = text.trim();
+  if (/^"(?:[^"\\]|\\.)*"$/.test(value) || /^'(?:[^'\\]|\\.)*'$/.test(value)) {
+    return { type: 'literal', value: value.slice(1, -1).replace(/\\(.)/g, (_match, char: string) => (char === 'n' ? '\n' : char)) };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return { type: 'literal', value: Number(value) };
+  if (value === 'true' || value === 'false') return { type: 'literal', value: value === 'true' };
+  if (value === 'null') return { type: 'literal', value: null };
+  if (/^(this|@index|@key|@first|@last|[A-Za-z_$][\w$-]*)(\.[\w$-]+)*$/.test(value)) {
+    return { type: 'path', segments: value.split('.'), raw: value };
+  }
+  throw new TemplateSyntaxError(`Invalid expression "${value}"`, pos.line, pos.column, partial);
+}
+
+// Split on a separator outside quotes
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (text[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseExpression(text: string, pos: Position, partial?: string): Expression {
+  if (!text.trim()) throw new TemplateSyntaxError('Empty expression', pos.line, pos.column, partial);
+  const [head, ...filterTexts] = splitOutsideQuotes(text, '|');
+  const filters = filterTexts.map(filterText => {
+    const colon = splitOutsideQuotes(filterText, ':');
+    const name = colon[0].trim();
+    if (!FILTERS[name]) {
+      throw new TemplateSyntaxError(`Unknown filter "${name}"; use one of ${TEMPLATE_FILTERS.join(', ')}`, pos.line, pos.column, partial);
+    }
+    const argText = colon.slice(1).join(':');
+    const args = argText.trim() ? splitOutsideQuotes(argText, ',').map(arg => parseOperand(arg, pos, partial)) : [];
+    return { name, args, pos };
+  });
+  return { head: parseOperand(head, pos, partial), filters, pos };
+}
+
+function parse(tokens: Token[], partial?: string): { nodes: Node[]; partials: Set<string> } {
+  const partials = new Set<string>();
+  let index = 0;
+
+  // Parse until one of the closing tags; returns the nodes and the tag that stopped it
+  function parseUntil(stops: RegExp | null): { nodes: Node[]; stop: Token | null } {
+    const nodes: Node[] = [];
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.kind === 'comment') {
+        index++;
+        continue;
+      }
+      if (token.kind === 'text') {
+        if (token.value) nodes.push({ type: 'text', value: token.value });
+        index++;
+        continue;
+      }
+      const tag = token.value;
+      const { pos } = token;
+      if (stops && stops.test(tag)) return { nodes, stop: token };
+      index++;
+
+      let match: RegExpExecArray | null;
+      if ((match = /^#(if|unless)\s+([\s\S]+)$/.exec(tag))) {
+        nodes.push(parseIf(match[1] === 'unless', parseExpression(match[2], pos, partial), pos));
+      } else if ((match = /^#each\s+([\s\S]+)$/.exec(tag))) {
+        const expr = parseExpression(match[1], pos, partial);
+        const body = parseUntil(/^(else|\/each)$/);
+        let elseBody: Node[] = [];
+        if (body.stop?.value === 'else') {
+          index++;
+          const rest = parseUntil(/^\/each$/);
+          if (!rest.stop) throw new TemplateSyntaxError('{{#each}} is not closed with {{/each}}', pos.line, pos.column, partial);
+          elseBody = rest.nodes;
+        } else if (!body.stop) {
+          throw new TemplateSyntaxError('{{#each}} is not closed with {{/each}}', pos.line, pos.column, partial);
+        }
+        index++;
+        nodes.push({ type: 'each', expr, body: body.nodes, elseBody, pos });
+      } else if ((match = /^>\s*([\w.-]+)(?:\s+([\s\S]+))?$/.exec(tag))) {
+        partials.add(match[1]);
+        nodes.push({ type: 'partial', name: match[1], context: match[2] ? parseExpression(match[2], pos, partial) : null, pos });
+      } else if (/^(#|\/|else\b)/.test(tag)) {
+        throw new TemplateSyntaxError(`Unexpected {{${tag}}}`, pos.line, pos.column, partial);
+      } else {
+        nodes.push({ type: 'output', expr: parseExpression(tag, pos, partial), pos });
+      }
+    }
+    return { nodes, stop: null };
+  }
+
+  function parseIf(negate: boolean, cond: Expression, pos: Position): Node {
+    const closing = negate ? '/unless' : '/if';
+    const branches: Array<{ cond: Expression | null; negate: boolean; body: Node[] }> = [];
+    let current: { cond: Expression | null; negate: boolean } = { cond, negate };
+    for (;;) {
+      const { nodes, stop } = parseUntil(new RegExp(`^(else(\\s+if\\s+[\\s\\S]+)?|${closing.replace('/', '\\/')})$`));
+      if (!stop) {
+        throw new TemplateSyntaxError(`{{#${negate ? 'unless' : 'if'}}} is not closed with {{${closing}}}`, pos.line, pos.column, partial);
+      }
+      branches.push({ ...current, body: nodes });
+      index++;
+      if (stop.value === closing) break;
+      if (current.cond === null) {
+        throw new TemplateSyntaxError('{{else}} after {{else}}', stop.pos.line, stop.pos.column, partial);
+      }
+      const elseIf = /^else\s+if\s+([\s\S]+)$/.exec(stop.value);
+      current = { cond: elseIf ? parseExpression(elseIf[1], stop.pos, partial) : null, negate: false };
+    }
+    return { type: 'if', branches, pos };
+  }
+
+  const { nodes, stop } = parseUntil(null);
+  if (stop) throw new TemplateSyntaxError(`Unexpected {{${stop.value}}}`, stop.pos.line, stop.pos.column, partial);
+  return { nodes, partials };
+}
+
+function lookup(scopes: Scope[], path: Operand & { type: 'path' }): unknown {
+  const [first, ...rest] = path.segments;
+  const top = scopes[scopes.length - 1];
+  let value: unknown;
+  if (first === 'this') {
+    value = top.data;
+  } else if (first.startsWith('@')) {
+    value = top[first.slice(1) as keyof Scope];
+  } else {
+    const scope = [...scopes].reverse().find(s => s.data !== null && typeof s.data === 'object' && first in s.data);
+    if (!scope) return undefined;
+    value = (scope.data as Record<string, unknown>)[first];
+  }
+  for (const key of rest) {
+    if (value === null || value === undefined) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function compileTemplate(source: string, partialName?: string): CompiledTemplate {
+  const { nodes, partials } = parse(tokenize(String(source ?? ''), partialName), partialName);
+
+  function evaluate(expr: Expression, scopes: Scope[], options: RenderOptions, quiet: boolean): unknown {
+    let value: unknown = expr.head.type === 'literal' ? expr.head.value : lookup(scopes, expr.head);
+    // `default` is how strict templates mark a value as optional
+    const optional = quiet || expr.filters[0]?.name === 'default';
+    if (value === undefined && options.strict && !optional && expr.head.type === 'path') {
+      throw new TemplateRenderError(`"${expr.head.raw}" is undefined`, expr.pos.line, expr.pos.column, partialName);
+    }
+    for (const filter of expr.filters) {
+      const args = filter.args.map(arg => (arg.type === 'literal' ? arg.value : lookup(scopes, arg)));
+      try {
+        value = FILTERS[filter.name](value, ...args);
+      } catch (error) {
+        if (!(error instanceof FilterError)) throw error;
+        if (options.strict && !quiet) {
+          throw new TemplateRenderError(`${filter.name}: ${error.message}`, filter.pos.line, filter.pos.column, partialName);
+        }
+        value = undefined;
+      }
+    }
+    return value;
+  }
+
+  function renderNodes(list: Node[], scopes: Scope[], options: RenderOptions, depth: number): string {
+    let out = '';
+    for (const node of list) {
+      switch (node.type) {
+        case 'text':
+          out += node.value;
+          break;
+        case 'output':
+          out += stringify(evaluate(node.expr, scopes, options, false));
+          break;
+        case 'if': {
+          const branch = node.branches.find(b => b.cond === null || truthy(evaluate(b.cond, scopes, options, true)) !== b.negate);
+          if (branch) out += renderNodes(branch.body, scopes, options, depth);
+          break;
+        }
+        case 'each': {
+          const value = evaluate(node.expr, scopes, options, false);
+          const entries: Array<[string | number, unknown]> = Array.isArray(value)
+            ? value.map((item: unknown, i) => [i, item])
+            : value !== null && typeof value === 'object' ? Object.entries(value as Record<string, unknown>) : [];
+          if (entries.length === 0) {
+            out += renderNodes(node.elseBody, scopes, options, depth);
+            break;
+          }
+          entries.forEach(([key, item], i) => {
+            const scope: Scope = { data: item, index: i, first: i === 0, last: i === entries.length - 1 };
+            if (typeof key === 'string') scope.key = key;
+            out += renderNodes(node.body, [...scopes, scope], options, depth);
+          });
+          break;
+        }
+        case 'partial': {
+          const partial = options.partial?.(node.name);
+          if (!partial) {
+            throw new TemplateRenderError(`Unknown partial "${node.name}"`, node.pos.line, node.pos.column, partialName);
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new TemplateRenderError(`Partials nested more than ${MAX_PARTIAL_DEPTH} deep`, node.pos.line, node.pos.column, partialName);
+          }
+          const context = node.context ? [...scopes, { data: evaluate(node.context, scopes, options, false) }] : scopes;
+          out += (partial as CompiledTemplate & { renderScopes: RenderScopes }).renderScopes(context, options, depth + 1);
+          break;
+        }
+      }
+    }
+    return out;
+  }
+
+  const compiled: CompiledTemplate & { renderScopes: RenderScopes } = {
+    partials: [...partials],
+    render: (variables, options = {}) => renderNodes(nodes, [{ data: variables ?? {} }], options, 0),
+    renderScopes: (scopes, options, depth) => renderNodes(nodes, scopes, options, depth),
+  };
+  return compiled;
+}
+
+type RenderScopes = (scopes: Scope[], options: RenderOptions, depth: number) => string;
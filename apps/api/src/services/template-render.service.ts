@@ -1,27 +1,133 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import Ajv from 'ajv';
+import { DbService } from '../db.service';
+import { CompiledTemplate, compileTemplate } from './template-language';
+
+// Compiled templates kept by source; the oldest are dropped past this many
+const COMPILE_CACHE_SIZE = 500;
+// Stored partials are re-read after this long, so edits from other processes show up
+const PARTIAL_TTL_MS = 60 * 1000;
+const PARTIAL_NAME = /^[\w.-]{1,100}$/;
+
+export interface TemplateRenderOptions {
+  // Fail on undefined variables instead of rendering them empty
+  strict?: boolean;
+  // Partial sources by name; they take precedence over stored partials
+  partials?: Record<string, string>;
+}
+
+export class PromptPartialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptPartialError';
+  }
+}
 
 @Injectable()
 export class TemplateRenderService {
   private readonly ajv = new Ajv({ allErrors: true });
+  private readonly compiled = new Map<string, CompiledTemplate>();
+  // Stored partials by name; null remembers a name that has no partial
+  private readonly storedPartials = new Map<string, { template: CompiledTemplate | null; loadedAt: number }>();
+
+  constructor(private readonly db: DbService) {}
 
-  validateInput(variables: Record<string, any>, inputSchema?: object) {
+  validateInput(variables: Record<string, unknown>, inputSchema?: object) {
     if (!inputSchema) return;
-    const validate = this.ajv.compile(inputSchema as any);
+    const validate = this.ajv.compile(inputSchema);
     const ok = validate(variables);
     if (!ok) {
       throw new BadRequestException({ message: 'Template input validation failed', errors: validate.errors });
     }
   }
 
-  renderTemplate(template: string, variables: Record<string, any>, inputSchema?: object): string {
+  /**
+   * Parse a template, or reuse the parse of the same source. Throws TemplateSyntaxError with the line and column.
+   */
+  compile(template: string, partialName?: string): CompiledTemplate {
+    const key = `${partialName ?? ''}\u0000${template}`;
+    let compiled = this.compiled.get(key);
+    if (compiled) {
+      // Re-insert so the map's order stays least recently used first
+      this.compiled.delete(key);
+    } else {
+      compiled = compileTemplate(template, partialName);
+      if (this.compiled.size >= COMPILE_CACHE_SIZE) {
+        this.compiled.delete(this.compiled.keys().next().value as string);
+      }
+    }
+    this.compiled.set(key, compiled);
+    return compiled;
+  }
+
+  /**
+   * Render with only the given partials and any stored ones already cached. Use renderWithPartials to load stored
+   * partials the template needs.
+   */
+  renderTemplate(template: string, variables: Record<string, unknown>, inputSchema?: object, options: TemplateRenderOptions = {}): string {
     this.validateInput(variables, inputSchema);
-    return template.replace(/\{\{\s*([a-zA-Z0-9_\.]+)\s*\}\}/g, (_m, key) => {
-      // support dot paths like a.b.c
-      const value = key.split('.').reduce((acc: any, k: string) => (acc && acc[k] !== undefined ? acc[k] : undefined), variables);
-      return value !== undefined && value !== null ? String(value) : '';
+    return this.compile(template).render(variables, {
+      strict: options.strict,
+      partial: name => this.resolvePartial(name, options.partials),
     });
   }
-}
 
+  async renderWithPartials(template: string, variables: Record<string, unknown>, inputSchema?: object, options: TemplateRenderOptions = {}): Promise<string> {
+    await this.loadPartials(this.compile(template).partials, options.partials);
+    return this.renderTemplate(template, variables, inputSchema, options);
+  }
+
+  async listPartials() {
+    return this.db.listPromptPartials();
+  }
+
+  async savePartial(name: string, template: string, description?: string | null) {
+    if (!PARTIAL_NAME.test(String(name || ''))) {
+      throw new PromptPartialError('Partial names use letters, digits, _, - and . (at most 100)');
+    }
+    if (typeof template !== 'string') throw new PromptPartialError('template is required');
+    this.compile(template, name);
+    const row = await this.db.upsertPromptPartial({ name, template, description });
+    this.storedPartials.delete(name);
+    return row;
+  }
 
+  async deletePartial(name: string): Promise<boolean> {
+    const deleted = await this.db.deletePromptPartial(name);
+    this.storedPartials.delete(name);
+    return deleted;
+  }
+
+  invalidatePartials() {
+    this.storedPartials.clear();
+  }
+
+  private resolvePartial(name: string, given?: Record<string, string>): CompiledTemplate | undefined {
+    if (given && Object.prototype.hasOwnProperty.call(given, name)) return this.compile(given[name], name);
+    return this.storedPartials.get(name)?.template ?? undefined;
+  }
+
+  // Load the stored partials a template names, then the ones those name, until nothing new turns up
+  private async loadPartials(names: string[], given?: Record<string, string>) {
+    const seen = new Set<string>();
+    let pending = names;
+    while (pending.length > 0) {
+      const now = Date.now();
+      const fresh = [...new Set(pending)].filter(name => !seen.has(name));
+      fresh.forEach(name => seen.add(name));
+      const stale = fresh.filter(name => {
+        if (given && Object.prototype.hasOwnProperty.call(given, name)) return false;
+        const cached = this.storedPartials.get(name);
+        return !cached || now - cached.loadedAt > PARTIAL_TTL_MS;
+      });
+      if (stale.length > 0) {
+        const rows = await this.db.getPromptPartials(stale);
+        for (const name of stale) {
+          const row = rows.find(r => r.name === name);
+          this.storedPartials.set(name, { template: row ? this.compile(row.template, name) : null, loadedAt: now });
+        }
+      }
+      pending = fresh.flatMap(name => this.resolvePartial(name, given)?.partials ?? []);
+    }
+  }
+}
@@ -84,7 +84,6 @@ export class TemplateTuningService {
   async updateTemplatePerformance(templateId: string, platform: string, organizationId?: string, channel?: string) {
     try {
       // Get all metrics for this template/platform/org/channel combination
-      const client = await this.dbService.pool.connect();
       let sql = `
         SELECT 
           template_version_id,
@@ -116,8 +115,7 @@ export class TemplateTuningService {
 
       sql += ` GROUP BY template_version_id`;
 
-      const { rows } = await client.query(sql, params);
-      client.release();
+      const { rows } = await this.dbService.query(sql, params);
 
       // Update performance for each template version
       for (const row of rows) {
@@ -11,7 +11,9 @@ export type TokenAuditEvent =
   | 'refresh_attempt'
   | 'refresh_success'
   | 'refresh_failure'
-  | 'select_page';
+  | 'select_page'
+  | 'key_rotation'
+  | 'key_rotation_run';
 
 export interface TokenAuditRecord {
   orgId: string;
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService, ENCRYPTED_SECRET_COLUMNS, EncryptedSecretTable } from '../db.service';
+import { getTokenKeyRing, TokenKeyRing } from '../token.util';
+import { providerForPlatform } from '../token.service';
+import { TokenAuditService } from './token-audit.service';
+
+export interface ReencryptionCounts {
+  scanned: number;
+  reencrypted: number;
+  // Changed by a refresh or another run between read and write; already on a current key or picked up next run
+  skipped: number;
+  failed: number;
+}
+
+export interface ReencryptionStatus extends ReencryptionCounts {
+  runId: string;
+  state: 'running' | 'completed' | 'failed';
+  primaryKeyId: string;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+const PAGE_SIZE = 200;
+// Summary rows are not tied to one account, so they use these placeholders in the NOT NULL audit columns
+const RUN_AUDIT_SCOPE = { orgId: 'system', provider: 'system', socialAccountId: 'all' };
+
+/**
+ * Re-encrypts stored tokens (and the other encryptToken secrets) under the primary key so retired keys can
+ * be dropped from TOKEN_ENC_KEYS. Runs in the background alongside normal traffic: every write is
+ * compare-and-set against the ciphertext that was read, and progress is written to token_audit.
+ */
+@Injectable()
+export class TokenKeyRotationService {
+  private readonly logger = new Logger(TokenKeyRotationService.name);
+  private current: ReencryptionStatus | null = null;
+  private running: Promise<ReencryptionStatus> | null = null;
+
+  constructor(
+    private readonly db: DbService,
+    private readonly audit: TokenAuditService,
+  ) {}
+
+  private get keyRing(): TokenKeyRing {
+    return getTokenKeyRing();
+  }
+
+  /**
+   * Start a run in the background, or return the one already in progress
+   */
+  start(): ReencryptionStatus {
+    if (this.running && this.current) return this.current;
+    const status = this.begin();
+    this.running = this.execute(status)
+      .catch(error => this.abandon(status, error))
+      .finally(() => {
+        this.running = null;
+      });
+    return status;
+  }
+
+  /**
+   * The run in this process, otherwise the last run recorded in token_audit (possibly by another instance)
+   */
+  async getStatus(): Promise<ReencryptionStatus | null> {
+    if (this.current) return this.current;
+    const row = await this.db.getLatestTokenAuditEvent('key_rotation_run');
+    if (!row?.reason) return null;
+    try {
+      return JSON.parse(row.reason) as ReencryptionStatus;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Walk every encrypted column once and wait for the result
+   */
+  async run(): Promise<ReencryptionStatus> {
+    if (this.running && this.current?.state === 'running') return this.running;
+    return this.execute(this.begin());
+  }
+
+  private begin(): ReencryptionStatus {
+    const status: ReencryptionStatus = {
+      runId: `kr_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`,
+      state: 'running',
+      primaryKeyId: this.keyRing.primaryKeyId,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+      scanned: 0,
+      reencrypted: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    this.current = status;
+    return status;
+  }
+
+  private async execute(status: ReencryptionStatus): Promise<ReencryptionStatus> {
+    this.logger.log(`Token re-encryption ${status.runId} started (primary key ${status.primaryKeyId})`);
+    try {
+      await this.recordProgress(status);
+      await this.reencryptTokens(status);
+      for (const table of Object.keys(ENCRYPTED_SECRET_COLUMNS) as EncryptedSecretTable[]) {
+        await this.reencryptSecrets(table, status);
+      }
+      status.state = 'completed';
+    } catch (error) {
+      status.state = 'failed';
+      status.error = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Token re-encryption ${status.runId} stopped: ${status.error}`);
+    }
+    status.finishedAt = new Date().toISOString();
+    await this.recordProgress(status);
+    this.logger.log(
+      `Token re-encryption ${status.runId} ${status.state}: ${status.reencrypted} re-encrypted, ${status.skipped} skipped, ${status.failed} failed of ${status.scanned}`,
+    );
+    return status;
+  }
+
+  /**
+   * A background run whose final progress write failed; keep the failure visible in this process and try
+   * once more to record it
+   */
+  private async abandon(status: ReencryptionStatus, error: unknown): Promise<ReencryptionStatus> {
+    status.state = 'failed';
+    status.error = status.error || (error instanceof Error ? error.message : 'Unknown error');
+    status.finishedAt = status.finishedAt || new Date().toISOString();
+    this.logger.error(`Token re-encryption ${status.runId} could not record its result: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    try {
+      await this.recordProgress(status);
+    } catch (recordError) {
+      this.logger.error(`Token re-encryption ${status.runId} failed status not recorded: ${recordError instanceof Error ? recordError.message : 'Unknown error'}`);
+    }
+    return status;
+  }
+
+  private async reencryptTokens(status: ReencryptionStatus) {
+    let afterId: string | null = null;
+    for (;;) {
+      const rows = await this.db.getTokensForReencryption(afterId, PAGE_SIZE);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        status.scanned++;
+        const auditScope = {
+          orgId: row.organization_id || 'unknown',
+          provider: (row.platform && providerForPlatform(row.platform)) || 'unknown',
+          socialAccountId: row.social_account_id,
+          correlationId: status.runId,
+        };
+        try {
+          const ciphertexts = [row.access_token_enc, row.refresh_token_enc].filter((ct): ct is string => !!ct);
+          if (!ciphertexts.some(ct => this.keyRing.needsReencryption(ct))) continue;
+          const next = {
+            accessTokenEnc: this.rewrap(row.access_token_enc),
+            refreshTokenEnc: row.refresh_token_enc ? this.rewrap(row.refresh_token_enc) : null,
+          };
+          const updated = await this.db.replaceTokenCiphertexts(
+            row.id,
+            { accessTokenEnc: row.access_token_enc, refreshTokenEnc: row.refresh_token_enc },
+            next,
+          );
+          if (updated) {
+            status.reencrypted++;
+            await this.audit.record('key_rotation', { ...auditScope, success: true, reason: `token ${row.id} now on key ${this.keyRing.primaryKeyId}` });
+          } else {
+            status.skipped++;
+          }
+        } catch (error) {
+          status.failed++;
+          const reason = `token ${row.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          this.logger.warn(`Could not re-encrypt ${reason}`);
+          await this.audit.record('key_rotation', { ...auditScope, success: false, reason });
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.recordProgress(status);
+    }
+  }
+
+  private async reencryptSecrets(table: EncryptedSecretTable, status: ReencryptionStatus) {
+    let afterId: string | null = null;
+    for (;;) {
+      const rows = await this.db.getSecretsForReencryption(table, afterId, PAGE_SIZE);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        status.scanned++;
+        try {
+          if (!this.keyRing.needsReencryption(row.ciphertext)) continue;
+          const updated = await this.db.replaceSecretCiphertext(table, row.id, row.ciphertext, this.rewrap(row.ciphertext));
+          if (updated) status.reencrypted++;
+          else status.skipped++;
+        } catch (error) {
+          status.failed++;
+          this.logger.warn(`Could not re-encrypt ${table} ${row.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      afterId = rows[rows.length - 1].id;
+      await this.recordProgress(status);
+    }
+  }
+
+  private rewrap(ciphertext: string): string {
+    return this.keyRing.needsReencryption(ciphertext) ? this.keyRing.reencrypt(ciphertext) : ciphertext;
+  }
+
+  private async recordProgress(status: ReencryptionStatus) {
+    await this.audit.record('key_rotation_run', {
+      ...RUN_AUDIT_SCOPE,
+      success: status.state !== 'failed' && status.failed === 0,
+      reason: JSON.stringify(status),
+      correlationId: status.runId,
+    });
+  }
+}
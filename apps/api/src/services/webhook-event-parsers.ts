@@ -0,0 +1,294 @@
+/**
+ * Normalization of raw provider webhook payloads into inbox interactions
+ * (one interaction = one inbound comment, direct message, mention or review).
+ */
+
+export type InteractionKind = 'comment' | 'message' | 'mention' | 'review';
+
+export interface InboundInteraction {
+  platform: 'FACEBOOK' | 'INSTAGRAM' | 'LINKEDIN' | 'GBP';
+  kind: InteractionKind;
+  // Page / organization / location the interaction was addressed to; used to resolve the owning organization
+  accountExternalId: string;
+  // Conversation thread: the commenter's DM thread, the top-level comment, or the review
+  threadExternalId: string;
+  messageExternalId: string;
+  author: { externalId: string; name?: string };
+  body: string;
+  occurredAt: Date;
+  metadata: Record<string, unknown>;
+}
+
+// Provider ids arrive as strings or numbers and are compared as strings
+type ExternalId = string | number;
+
+// The parts of Meta page / Instagram webhook payloads the parsers read
+export interface MetaWebhookPayload {
+  object?: string;
+  entry?: MetaWebhookEntry[];
+}
+
+interface MetaWebhookEntry {
+  id?: ExternalId;
+  time?: number;
+  changes?: Array<{ field?: string; value?: MetaChangeValue }>;
+  messaging?: MetaMessagingEvent[];
+}
+
+interface MetaChangeValue {
+  item?: string;
+  verb?: string;
+  id?: ExternalId;
+  comment_id?: ExternalId;
+  post_id?: string;
+  parent_id?: string;
+  media_id?: string;
+  media?: { id?: string };
+  from?: { id?: ExternalId; name?: string; username?: string };
+  message?: string;
+  text?: string;
+  created_time?: number | string;
+}
+
+interface MetaMessagingEvent {
+  sender?: { id?: ExternalId };
+  recipient?: { id?: ExternalId };
+  timestamp?: number;
+  message?: {
+    mid?: string;
+    text?: string;
+    is_echo?: boolean;
+    attachments?: Array<{ type?: string; payload?: { url?: string } }>;
+  };
+}
+
+// A LinkedIn organization social action notification; payloads carry one or a batch of them
+export interface LinkedInNotification {
+  action?: string;
+  notificationId?: ExternalId;
+  organizationalEntity?: string;
+  actor?: string;
+  actorName?: string;
+  generatedActivity?: string;
+  sourcePost?: string;
+  lastModifiedAt?: number | string;
+  decoratedGeneratedActivity?: {
+    text?: string;
+    comment?: { text?: string; actorName?: string };
+    share?: { text?: string };
+  };
+}
+
+export type LinkedInWebhookPayload = LinkedInNotification & { notifications?: LinkedInNotification[] };
+
+export interface GooglePubSubPayload {
+  message?: { data?: string };
+}
+
+// Business Profile v4 review resource
+export interface GoogleReview {
+  name?: string;
+  reviewId?: string;
+  reviewer?: { displayName?: string; isAnonymous?: boolean };
+  starRating?: string;
+  comment?: string;
+  createTime?: string;
+  updateTime?: string;
+}
+
+export class WebhookParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookParseError';
+  }
+}
+
+/**
+ * Meta page (object=page) and Instagram (object=instagram) webhooks:
+ * feed/comments changes and Messenger/Instagram messaging events.
+ */
+export function parseMetaWebhook(payload: MetaWebhookPayload): InboundInteraction[] {
+  if (!payload || !Array.isArray(payload.entry)) {
+    throw new WebhookParseError('Meta webhook payload has no entry array');
+  }
+  const platform = payload.object === 'instagram' ? 'INSTAGRAM' : 'FACEBOOK';
+  const interactions: InboundInteraction[] = [];
+
+  for (const entry of payload.entry) {
+    const accountId = String(entry?.id || '');
+    if (!accountId) continue;
+
+    for (const change of entry.changes || []) {
+      const value = change?.value || {};
+
+      // Facebook page feed: comments on page posts
+      if (change.field === 'feed' && value.item === 'comment' && value.verb === 'add') {
+        const authorId = String(value.from?.id || '');
+        if (!authorId || authorId === accountId || !value.message) continue;
+        const parentId = value.parent_id && value.parent_id !== value.post_id ? String(value.parent_id) : null;
+        interactions.push({
+          platform,
+          kind: 'comment',
+          accountExternalId: accountId,
+          threadExternalId: parentId || String(value.comment_id),
+          messageExternalId: String(value.comment_id),
+          author: { externalId: authorId, name: value.from?.name },
+          body: String(value.message),
+          occurredAt: toDate(value.created_time ?? entry.time),
+          metadata: { postId: value.post_id, parentId, commentId: value.comment_id },
+        });
+      }
+
+      // Instagram comments on media
+      if (change.field === 'comments' && platform === 'INSTAGRAM') {
+        const authorId = String(value.from?.id || '');
+        if (!authorId || authorId === accountId || !value.text) continue;
+        interactions.push({
+          platform,
+          kind: 'comment',
+          accountExternalId: accountId,
+          threadExternalId: String(value.parent_id || value.id),
+          messageExternalId: String(value.id),
+          author: { externalId: authorId, name: value.from?.username },
+          body: String(value.text),
+          occurredAt: toDate(entry.time),
+          metadata: { mediaId: value.media?.id, parentId: value.parent_id || null, commentId: value.id },
+        });
+      }
+
+      // Instagram @mentions in captions/comments
+      if (change.field === 'mentions' && platform === 'INSTAGRAM' && value.comment_id) {
+        interactions.push({
+          platform,
+          kind: 'mention',
+          accountExternalId: accountId,
+          threadExternalId: String(value.comment_id),
+          messageExternalId: String(value.comment_id),
+          author: { externalId: String(value.from?.id || `mention:${value.comment_id}`), name: value.from?.username },
+          body: String(value.text || ''),
+          occurredAt: toDate(entry.time),
+          metadata: { mediaId: value.media_id, commentId: value.comment_id },
+        });
+      }
+    }
+
+    // Messenger / Instagram direct messages
+    for (const event of entry.messaging || []) {
+      const message = event?.message;
+      if (!message || message.is_echo || !message.mid) continue;
+      const senderId = String(event.sender?.id || '');
+      if (!senderId || senderId === accountId) continue;
+      const attachments = (message.attachments || []).map(a => ({ type: a.type, url: a.payload?.url }));
+      interactions.push({
+        platform,
+        kind: 'message',
+        accountExternalId: accountId,
+        threadExternalId: `${accountId}:${senderId}`,
+        messageExternalId: String(message.mid),
+        author: { externalId: senderId },
+        body: String(message.text || (attachments.length ? `[${attachments.map(a => a.type).join(', ')}]` : '')),
+        occurredAt: toDate(event.timestamp ?? entry.time),
+        metadata: { recipientId: event.recipient?.id, attachments },
+      });
+    }
+  }
+
+  return interactions;
+}
+
+/**
+ * LinkedIn organization social action notifications (comments and mentions on company posts)
+ */
+export function parseLinkedInWebhook(payload: LinkedInWebhookPayload): InboundInteraction[] {
+  if (!payload || typeof payload !== 'object') {
+    throw new WebhookParseError('LinkedIn webhook payload is empty');
+  }
+  const notifications = Array.isArray(payload.notifications) ? payload.notifications : [payload];
+  const interactions: InboundInteraction[] = [];
+
+  for (const notification of notifications) {
+    const action = notification?.action;
+    if (action !== 'COMMENT' && action !== 'SHARE_MENTION' && action !== 'COMMENT_MENTION') continue;
+
+    const organization = String(notification.organizationalEntity || '');
+    const actor = String(notification.actor || '');
+    const activity = String(notification.generatedActivity || notification.sourcePost || '');
+    if (!organization || !actor || !activity) {
+      throw new WebhookParseError(`LinkedIn ${action} notification is missing organization, actor or activity`);
+    }
+
+    const decorated = notification.decoratedGeneratedActivity || {};
+    const text = decorated.comment?.text || decorated.share?.text || decorated.text || '';
+    interactions.push({
+      platform: 'LINKEDIN',
+      kind: action === 'COMMENT' ? 'comment' : 'mention',
+      accountExternalId: organization,
+      threadExternalId: activity,
+      messageExternalId: String(notification.notificationId || activity),
+      author: { externalId: actor, name: decorated.comment?.actorName || notification.actorName },
+      body: String(text),
+      occurredAt: toDate(notification.lastModifiedAt),
+      metadata: { action, sourcePost: notification.sourcePost, commentUrn: notification.generatedActivity },
+    });
+  }
+
+  return interactions;
+}
+
+/**
+ * Decode a Google Business Profile Pub/Sub push notification.
+ * Returns the review resource name; the review body itself is fetched from the API.
+ */
+export function decodeGoogleNotification(payload: GooglePubSubPayload): { type: string; location: string; reviewName?: string; review?: GoogleReview } | null {
+  const data = payload?.message?.data;
+  if (!data) {
+    throw new WebhookParseError('Google webhook payload has no Pub/Sub message data');
+  }
+  let notification: { type?: string; location: string; review?: string; reviewData?: GoogleReview };
+  try {
+    notification = JSON.parse(Buffer.from(String(data), 'base64').toString('utf8')) as typeof notification;
+  } catch {
+    throw new WebhookParseError('Google Pub/Sub message data is not valid base64 JSON');
+  }
+  if (notification.type !== 'NEW_REVIEW' && notification.type !== 'UPDATED_REVIEW') return null;
+  return { type: notification.type, location: notification.location, reviewName: notification.review, review: notification.reviewData };
+}
+
+const STAR_RATINGS: Record<string, number> = { ONE: 1, TWO: 2, THREE: 3, FOUR: 4, FIVE: 5 };
+
+/**
+ * Google Business Profile review resource (v4) into an interaction
+ */
+export function reviewToInteraction(location: string, review: GoogleReview): InboundInteraction {
+  const reviewId = String(review?.reviewId || String(review?.name || '').split('/').pop() || '');
+  if (!reviewId) {
+    throw new WebhookParseError('Google review has no id');
+  }
+  const reviewer = review.reviewer || {};
+  const rating = (review.starRating && STAR_RATINGS[review.starRating]) || null;
+  return {
+    platform: 'GBP',
+    kind: 'review',
+    accountExternalId: location,
+    threadExternalId: review.name || `${location}/reviews/${reviewId}`,
+    messageExternalId: `${reviewId}:${review.updateTime || review.createTime || ''}`,
+    // Reviews carry no stable reviewer id; the display name is the best available key
+    author: {
+      externalId: reviewer.isAnonymous || !reviewer.displayName ? `anonymous:${reviewId}` : `reviewer:${reviewer.displayName}`,
+      name: reviewer.displayName,
+    },
+    body: String(review.comment || (rating ? `${rating}-star review` : '')),
+    occurredAt: toDate(review.updateTime || review.createTime),
+    metadata: { reviewName: review.name, starRating: rating },
+  };
+}
+
+function toDate(value: number | string | undefined): Date {
+  if (value === undefined || value === null || value === '') return new Date();
+  if (typeof value === 'number') {
+    // Meta sends seconds in change values and milliseconds in messaging events
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? new Date() : parsed;
+}
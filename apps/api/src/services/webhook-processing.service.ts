@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { DbService } from '../db.service';
+import { TokenService } from '../token.service';
+import { AutoReplyService } from './auto-reply.service';
+import { LeadScoringService } from './lead-scoring.service';
+import {
+  GooglePubSubPayload,
+  GoogleReview,
+  InboundInteraction,
+  LinkedInWebhookPayload,
+  MetaWebhookPayload,
+  WebhookParseError,
+  decodeGoogleNotification,
+  parseLinkedInWebhook,
+  parseMetaWebhook,
+  reviewToInteraction,
+} from './webhook-event-parsers';
+
+export interface WebhookProcessingResult {
+  eventId: string;
+  provider: string;
+  status: 'processed' | 'skipped';
+  interactions: number;
+  created: number;
+  // Interactions for accounts no organization has connected
+  skipped: number;
+}
+
+/**
+ * Thrown for events that can never succeed (malformed payloads, unknown accounts).
+ * The worker sends these straight to the webhook DLQ instead of retrying.
+ */
+export class PermanentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentWebhookError';
+  }
+}
+
+// Social account platforms that may own an event, by webhook provider
+const PROVIDER_PLATFORMS: Record<string, string[]> = {
+  meta: ['FACEBOOK', 'INSTAGRAM'],
+  linkedin: ['LINKEDIN'],
+  google: ['GBP'],
+};
+
+@Injectable()
+export class WebhookProcessingService {
+  private readonly logger = new Logger(WebhookProcessingService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly tokenService: TokenService,
+    private readonly autoReplyService: AutoReplyService,
+    private readonly leadScoringService: LeadScoringService,
+  ) {}
+
+  /**
+   * Process a stored webhook event into leads, conversations and messages
+   */
+  async processEvent(idemKey: string, provider: string): Promise<WebhookProcessingResult> {
+    const event = await this.dbService.getWebhookEventByIdemKey(idemKey);
+    if (!event) {
+      // The row is written before the job is enqueued, so a missing event is not going to appear later
+      throw new PermanentWebhookError(`Webhook event ${idemKey} not found`);
+    }
+    if (event.status === 'processed' || event.status === 'dlq') {
+      this.logger.log(`Skip webhook ${event.id}: already ${event.status}`);
+      return { eventId: event.id, provider, status: 'skipped', interactions: 0, created: 0, skipped: 0 };
+    }
+
+    await this.dbService.markWebhookEventAttempt(event.id);
+
+    let payload: unknown;
+    try {
+      payload = typeof event.payload === 'string' ? JSON.parse(event.payload) : event.payload;
+    } catch (error) {
+      throw new PermanentWebhookError(`Webhook event ${event.id} has a malformed payload: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const interactions = await this.parse(provider, payload);
+
+    // A single delivery can batch entries for several pages, so ownership is resolved per account and
+    // entries for accounts nobody has connected are skipped without holding up the rest
+    const presetOrg: string | null = event.organization_id && event.organization_id !== 'unknown' ? event.organization_id : null;
+    const orgByAccount = new Map<string, string | null>();
+    const unknownAccounts = new Set<string>();
+    let organizationId: string | null = presetOrg;
+    let created = 0;
+    let skipped = 0;
+    for (const interaction of interactions) {
+      let orgId = presetOrg;
+      if (!orgId) {
+        if (!orgByAccount.has(interaction.accountExternalId)) {
+          orgByAccount.set(interaction.accountExternalId, await this.resolveOrganization(provider, interaction.accountExternalId));
+        }
+        orgId = orgByAccount.get(interaction.accountExternalId) || null;
+      }
+      if (!orgId) {
+        if (!unknownAccounts.has(interaction.accountExternalId)) {
+          unknownAccounts.add(interaction.accountExternalId);
+          this.logger.warn(`Skipping ${provider} webhook ${event.id} entries for unconnected ${interaction.platform} account ${interaction.accountExternalId}`);
+        }
+        skipped++;
+        continue;
+      }
+      organizationId = organizationId || orgId;
+
+      const stored = await this.dbService.recordInboundInteraction(orgId, interaction);
+      if (stored.created && stored.messageId) {
+        created++;
+        // Score first so auto-reply lead score conditions see this message
+        await this.rescoreLead(orgId, stored.leadId);
+        // Only new messages are answered, so a retried event never replies twice
+        await this.autoReplyService.handleInbound(orgId, {
+          conversationId: stored.conversationId,
+          messageId: stored.messageId,
+          platform: interaction.platform,
+          kind: interaction.kind,
+          body: interaction.body,
+          authorName: interaction.author.name,
+        });
+      }
+    }
+
+    if (interactions.length > 0 && skipped === interactions.length) {
+      throw new PermanentWebhookError(`No connected account for ${[...unknownAccounts].join(', ')}`);
+    }
+
+    await this.dbService.markWebhookEventProcessed(idemKey, organizationId || undefined);
+
+    this.logger.log(`Processed ${provider} webhook ${event.id}: ${interactions.length} interactions, ${created} new messages, ${skipped} skipped`);
+    return { eventId: event.id, provider, status: 'processed', interactions: interactions.length, created, skipped };
+  }
+
+  private async rescoreLead(organizationId: string, leadId: string): Promise<void> {
+    try {
+      await this.leadScoringService.scoreLead(organizationId, leadId);
+    } catch (error) {
+      // The message is stored; a stale score is corrected by the next message or a recompute
+      this.logger.warn(`Failed to score lead ${leadId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Move an event that exhausted its retries (or failed permanently) to the webhook DLQ
+   */
+  async moveToDlq(idemKey: string, errorMessage: string): Promise<void> {
+    const event = await this.dbService.getWebhookEventByIdemKey(idemKey);
+    if (!event) {
+      this.logger.error(`Cannot dead-letter webhook ${idemKey}: event not found`);
+      return;
+    }
+    await this.dbService.moveWebhookToDLQ(event.id, errorMessage);
+  }
+
+  // The parsers check the shape they need and throw WebhookParseError for anything else
+  private async parse(provider: string, payload: unknown): Promise<InboundInteraction[]> {
+    try {
+      switch (provider) {
+        case 'meta':
+          return parseMetaWebhook(payload as MetaWebhookPayload);
+        case 'linkedin':
+          return parseLinkedInWebhook(payload as LinkedInWebhookPayload);
+        case 'google':
+          return await this.parseGoogle(payload as GooglePubSubPayload);
+        default:
+          throw new PermanentWebhookError(`Unsupported webhook provider: ${provider}`);
+      }
+    } catch (error) {
+      if (error instanceof WebhookParseError) {
+        throw new PermanentWebhookError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Pub/Sub notifications only name the review; its content comes from the Business Profile API
+  private async parseGoogle(payload: GooglePubSubPayload): Promise<InboundInteraction[]> {
+    const notification = decodeGoogleNotification(payload);
+    if (!notification) return [];
+
+    if (notification.review) {
+      return [reviewToInteraction(notification.location, notification.review)];
+    }
+    if (!notification.reviewName) {
+      throw new WebhookParseError('Google review notification has no review name');
+    }
+
+    const organizationId = await this.resolveOrganization('google', notification.location);
+    if (!organizationId) {
+      throw new PermanentWebhookError(`No connected GBP location ${notification.location}`);
+    }
+    // The location's own connection; locations may be stored by bare id rather than resource name
+    const bareLocation = notification.location.split('/').pop() || notification.location;
+    const token = await this.tokenService.getAccountAccessToken(organizationId, 'GBP', notification.location)
+      || await this.tokenService.getAccountAccessToken(organizationId, 'GBP', bareLocation);
+    if (!token) {
+      throw new PermanentWebhookError(`No valid Google token for organization ${organizationId}`);
+    }
+
+    const response = await axios.get<GoogleReview>(`https://mybusiness.googleapis.com/v4/${notification.reviewName}`, {
+      headers: { Authorization: `Bearer ${token.accessToken}` },
+      timeout: 15000,
+    });
+    return [reviewToInteraction(notification.location, response.data)];
+  }
+
+  private async resolveOrganization(provider: string, accountExternalId: string): Promise<string | null> {
+    const platforms = PROVIDER_PLATFORMS[provider] || [];
+    const direct = await this.dbService.findOrganizationBySocialAccount(platforms, accountExternalId);
+    if (direct) return direct;
+
+    // Accounts may be stored by bare id rather than URN / resource name
+    const bareId = accountExternalId.split(/[:/]/).pop();
+    if (bareId && bareId !== accountExternalId) {
+      return this.dbService.findOrganizationBySocialAccount(platforms, bareId);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Content lifecycle events, rule condition evaluation and action parameter templating for workflow rules.
+ * Kept free of services so rules can be checked without a database.
+ */
+
+export type WorkflowEventType =
+  | 'content_created'
+  | 'version_added'
+  | 'content_approved'
+  | 'content_scheduled'
+  | 'content_published'
+  | 'publish_failed';
+
+export const WORKFLOW_EVENT_TYPES: WorkflowEventType[] = [
+  'content_created',
+  'version_added',
+  'content_approved',
+  'content_scheduled',
+  'content_published',
+  'publish_failed',
+];
+
+export interface WorkflowEvent {
+  type: WorkflowEventType;
+  organizationId: string;
+  contentItemId: string;
+  // Event specifics, e.g. versionId, approvedBy, scheduleId, platform, error
+  data?: Record<string, unknown>;
+}
+
+export interface WorkflowCondition {
+  field: string;
+  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'greater_than' | 'less_than' | 'in' | 'not_in';
+  value: unknown;
+  logicalOperator?: 'AND' | 'OR';
+}
+
+export interface WorkflowAction {
+  type: 'approve' | 'reject' | 'escalate' | 'notify' | 'schedule' | 'assign' | 'add_tag' | 'change_status';
+  parameters: Record<string, unknown>;
+  delay?: number; // seconds
+  // By default a failed action stops the rest of the rule's actions
+  continueOnError?: boolean;
+}
+
+export class WorkflowRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowRuleError';
+  }
+}
+
+const OPERATORS: WorkflowCondition['operator'][] = ['equals', 'not_equals', 'contains', 'not_contains', 'greater_than', 'less_than', 'in', 'not_in'];
+const ACTION_TYPES: WorkflowAction['type'][] = ['approve', 'reject', 'escalate', 'notify', 'schedule', 'assign', 'add_tag', 'change_status'];
+// Parameters each action cannot run without
+const REQUIRED_PARAMETERS: Partial<Record<WorkflowAction['type'], string[]>> = {
+  escalate: ['escalateTo'],
+  notify: ['title', 'message'],
+  schedule: ['platform'],
+  assign: ['assignee'],
+  add_tag: ['tag'],
+  change_status: ['status'],
+};
+// Delays run in-process, so they are kept short
+const MAX_ACTION_DELAY_SECONDS = 300;
+
+/**
+ * Conditions are folded left to right; each condition's logicalOperator joins it to the next one
+ */
+export function evaluateConditions(conditions: WorkflowCondition[], context: Record<string, unknown>): boolean {
+  let result = true;
+  let logicalOperator: 'AND' | 'OR' = 'AND';
+
+  for (const condition of conditions) {
+    const conditionResult = evaluateCondition(condition, context);
+    result = logicalOperator === 'AND' ? result && conditionResult : result || conditionResult;
+    logicalOperator = condition.logicalOperator || 'AND';
+  }
+
+  return result;
+}
+
+export function evaluateCondition(condition: WorkflowCondition, context: Record<string, unknown>): boolean {
+  const fieldValue = getFieldValue(context, condition.field);
+
+  switch (condition.operator) {
+    case 'equals':
+      return fieldValue === condition.value;
+    case 'not_equals':
+      return fieldValue !== condition.value;
+    case 'contains':
+      return String(fieldValue).toLowerCase().includes(String(condition.value).toLowerCase());
+    case 'not_contains':
+      return !String(fieldValue).toLowerCase().includes(String(condition.value).toLowerCase());
+    case 'greater_than':
+      return Number(fieldValue) > Number(condition.value);
+    case 'less_than':
+      return Number(fieldValue) < Number(condition.value);
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(fieldValue);
+    case 'not_in':
+      return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Nested field access, e.g. 'metadata.channel' or 'event.data.platform'
+ */
+export function getFieldValue(source: unknown, field: string): unknown {
+  let value = source;
+  for (const f of field.split('.')) {
+    if (value && typeof value === 'object') {
+      value = (value as Record<string, unknown>)[f];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Replace {{path}} placeholders in string parameters (recursively) with values from the run context,
+ * so an action can use the event and the output of earlier actions, e.g. {{last.scheduledAt}}.
+ * A parameter that is exactly one placeholder keeps the value's type.
+ */
+export function interpolateParameters(parameters: unknown, context: Record<string, unknown>): unknown {
+  if (typeof parameters === 'string') {
+    const whole = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(parameters);
+    if (whole) return getFieldValue(context, whole[1]) ?? null;
+    return parameters.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+      const value = getFieldValue(context, path);
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+  if (Array.isArray(parameters)) return parameters.map(p => interpolateParameters(p, context));
+  if (parameters && typeof parameters === 'object') {
+    return Object.fromEntries(Object.entries(parameters).map(([key, value]) => [key, interpolateParameters(value, context)]));
+  }
+  return parameters;
+}
+
+export function validateTriggers(triggers: unknown): WorkflowEventType[] {
+  if (triggers === undefined || triggers === null) return [];
+  if (!Array.isArray(triggers)) throw new WorkflowRuleError('triggers must be an array');
+  const values: unknown[] = triggers;
+  const result: WorkflowEventType[] = [];
+  for (const trigger of values) {
+    const type = WORKFLOW_EVENT_TYPES.find(eventType => eventType === trigger);
+    if (!type) {
+      throw new WorkflowRuleError(`Unknown trigger ${String(trigger)}. Must be one of ${WORKFLOW_EVENT_TYPES.join(', ')}`);
+    }
+    result.push(type);
+  }
+  return Array.from(new Set(result));
+}
+
+// A condition or action as the API received it, before validation
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+function unchecked<T>(value: unknown): Unchecked<T> {
+  return value && typeof value === 'object' ? (value as Unchecked<T>) : {};
+}
+
+export function validateConditions(conditions: unknown): WorkflowCondition[] {
+  if (conditions === undefined || conditions === null) return [];
+  if (!Array.isArray(conditions)) throw new WorkflowRuleError('conditions must be an array');
+  const values: unknown[] = conditions;
+  return values.map((input, index) => {
+    const condition = unchecked<WorkflowCondition>(input);
+    if (!condition.field || typeof condition.field !== 'string') throw new WorkflowRuleError(`conditions[${index}].field is required`);
+    if (!OPERATORS.some(operator => operator === condition.operator)) {
+      throw new WorkflowRuleError(`conditions[${index}].operator must be one of ${OPERATORS.join(', ')}`);
+    }
+    if (condition.logicalOperator !== undefined && condition.logicalOperator !== 'AND' && condition.logicalOperator !== 'OR') {
+      throw new WorkflowRuleError(`conditions[${index}].logicalOperator must be AND or OR`);
+    }
+    return input as WorkflowCondition;
+  });
+}
+
+export function validateActions(actions: unknown): WorkflowAction[] {
+  if (!Array.isArray(actions) || actions.length === 0) throw new WorkflowRuleError('A rule needs at least one action');
+  const values: unknown[] = actions;
+  return values.map((input, index) => {
+    const action = unchecked<WorkflowAction>(input);
+    const type = ACTION_TYPES.find(actionType => actionType === action.type);
+    if (!type) {
+      throw new WorkflowRuleError(`actions[${index}].type must be one of ${ACTION_TYPES.join(', ')}`);
+    }
+    const parameters = action.parameters || {};
+    if (typeof parameters !== 'object' || Array.isArray(parameters)) throw new WorkflowRuleError(`actions[${index}].parameters must be an object`);
+    const params = parameters as Record<string, unknown>;
+    for (const name of REQUIRED_PARAMETERS[type] || []) {
+      if (params[name] === undefined || params[name] === '') {
+        throw new WorkflowRuleError(`actions[${index}] (${type}) needs parameters.${name}`);
+      }
+    }
+    if (action.delay !== undefined) {
+      const delay = Number(action.delay);
+      if (!Number.isFinite(delay) || delay < 0 || delay > MAX_ACTION_DELAY_SECONDS) {
+        throw new WorkflowRuleError(`actions[${index}].delay must be between 0 and ${MAX_ACTION_DELAY_SECONDS} seconds`);
+      }
+    }
+    return {
+      type,
+      parameters: params,
+      ...(action.delay !== undefined ? { delay: Number(action.delay) } : {}),
+      ...(action.continueOnError ? { continueOnError: true } : {}),
+    };
+  });
+}
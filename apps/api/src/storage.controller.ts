@@ -0,0 +1,246 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Put, Query, Req, Res, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { GatewayAuthGuard, GatewayRequest } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import {
+  MediaStorageService,
+  StoragePeriod,
+  StorageQuota,
+  StorageQuotaError,
+  StorageValidationError,
+} from './services/media-storage.service';
+
+// The multipart file as parsed by multer's memory storage
+interface UploadedMediaFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UpdateMediaMetadataDto {
+  category?: string;
+  tags?: string[];
+  description?: string | null;
+}
+
+// Hard cap on a single upload; organization quotas are usually lower
+const MAX_UPLOAD_BYTES = Number(process.env.STORAGE_MAX_UPLOAD_BYTES) || 500 * 1024 * 1024;
+
+// File downloads are public: they are reached through signed links from <img> tags and anchors
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly mediaStorage: MediaStorageService) {}
+
+  private extractOrganizationId(req: GatewayRequest): string {
+    const orgId = req.user?.orgId || req.user?.organizationId || req.user?.sub;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
+  // Quota routes name the organization; callers may only address their own
+  private assertOwnOrganization(req: GatewayRequest, organizationId: string): string {
+    const orgId = this.extractOrganizationId(req);
+    if (organizationId !== orgId) {
+      throw new HttpException('Cannot access another organization\'s storage', HttpStatus.FORBIDDEN);
+    }
+    return orgId;
+  }
+
+  private toHttpException(error: unknown): HttpException {
+    if (error instanceof HttpException) return error;
+    if (error instanceof StorageQuotaError) return new HttpException(error.message, HttpStatus.PAYLOAD_TOO_LARGE);
+    if (error instanceof StorageValidationError) return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    return new HttpException((error instanceof Error && error.message) || 'Storage request failed', HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+
+  @Post('upload')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } }))
+  async upload(@UploadedFile() file: UploadedMediaFile | undefined, @Body('metadata') rawMetadata: string | undefined, @Req() req: GatewayRequest) {
+    const organizationId = this.extractOrganizationId(req);
+    if (!file) {
+      throw new HttpException('file is required', HttpStatus.BAD_REQUEST);
+    }
+    let metadata: UpdateMediaMetadataDto = {};
+    if (rawMetadata) {
+      try {
+        metadata = JSON.parse(rawMetadata) as UpdateMediaMetadataDto;
+      } catch {
+        throw new HttpException('metadata must be a JSON object', HttpStatus.BAD_REQUEST);
+      }
+      if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+        throw new HttpException('metadata must be a JSON object', HttpStatus.BAD_REQUEST);
+      }
+    }
+
+    try {
+      const { file: stored, duplicate } = await this.mediaStorage.upload(organizationId, req.user?.sub || null, {
+        buffer: file.buffer,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        category: metadata.category,
+        tags: metadata.tags,
+        description: metadata.description ?? undefined,
+      });
+      return {
+        success: true,
+        duplicate,
+        fileId: stored.id,
+        fileName: stored.fileName,
+        fileSize: stored.fileSize,
+        mimeType: stored.mimeType,
+        url: stored.url,
+        thumbnailUrl: stored.thumbnailUrl,
+        metadata: {
+          category: stored.category,
+          tags: stored.tags,
+          description: stored.description,
+          uploadedAt: stored.uploadedAt,
+          uploadedBy: stored.uploadedBy,
+        },
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get('files')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async listFiles(
+    @Req() req: GatewayRequest,
+    @Query('category') category?: string,
+    @Query('tags') tags?: string | string[],
+    @Query('search') search?: string,
+    @Query('sortBy') sortBy?: 'name' | 'size' | 'uploadedAt' | 'category',
+    @Query('sortOrder') sortOrder?: 'asc' | 'desc',
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const result = await this.mediaStorage.listFiles(this.extractOrganizationId(req), {
+      category,
+      // Repeated (tags=a&tags=b) or comma-separated
+      tags: (Array.isArray(tags) ? tags : tags ? [tags] : []).flatMap(tag => String(tag).split(',')),
+      search,
+      sortBy,
+      sortOrder,
+      limit: limit ? parseInt(limit, 10) || 50 : 50,
+      offset: offset ? parseInt(offset, 10) || 0 : 0,
+    });
+    return { success: true, ...result };
+  }
+
+  @Get('files/:id')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getFile(@Param('id') fileId: string, @Req() req: GatewayRequest) {
+    const file = await this.mediaStorage.getFile(this.extractOrganizationId(req), fileId);
+    if (!file) {
+      throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, file };
+  }
+
+  @Put('files/:id/metadata')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async updateMetadata(@Param('id') fileId: string, @Body() body: UpdateMediaMetadataDto, @Req() req: GatewayRequest) {
+    const organizationId = this.extractOrganizationId(req);
+    let file;
+    try {
+      file = await this.mediaStorage.updateMetadata(organizationId, fileId, {
+        category: body?.category,
+        tags: body?.tags,
+        description: body?.description,
+      });
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+    if (!file) {
+      throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    }
+    return {
+      success: true,
+      message: 'File metadata updated successfully',
+      updatedMetadata: { category: file.category, tags: file.tags, description: file.description, updatedAt: new Date().toISOString() },
+    };
+  }
+
+  @Delete('files/:id')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin')
+  async deleteFile(@Param('id') fileId: string, @Req() req: GatewayRequest) {
+    const deleted = await this.mediaStorage.deleteFile(this.extractOrganizationId(req), fileId);
+    if (!deleted) {
+      throw new HttpException('File not found', HttpStatus.NOT_FOUND);
+    }
+    return { success: true, message: 'File deleted successfully', deletedFileId: fileId };
+  }
+
+  @Get('files/:id/download')
+  async download(
+    @Param('id') fileId: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ) {
+    const download = await this.mediaStorage.openDownload(fileId, Number(expires), signature);
+    if (!download) {
+      throw new HttpException('Download link is invalid or has expired', HttpStatus.NOT_FOUND);
+    }
+    if (download.redirectUrl) {
+      res.redirect(HttpStatus.FOUND, download.redirectUrl);
+      return;
+    }
+    res.setHeader('Content-Type', download.file.mimeType);
+    res.setHeader('Content-Length', String(download.body!.length));
+    res.setHeader('Content-Disposition', `inline; filename="${download.file.fileName.replace(/["\\\r\n]/g, '_')}"`);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.end(download.body);
+  }
+
+  @Get('usage')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getUsage(@Req() req: GatewayRequest) {
+    const usage = await this.mediaStorage.getUsage(this.extractOrganizationId(req));
+    return { success: true, ...usage };
+  }
+
+  @Get('quota/:organizationId')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getQuota(@Param('organizationId') organizationId: string, @Req() req: GatewayRequest) {
+    const quota = await this.mediaStorage.getQuota(this.assertOwnOrganization(req, organizationId));
+    return { success: true, organizationId, quota };
+  }
+
+  @Put('quota/:organizationId')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('admin')
+  async updateQuota(@Param('organizationId') organizationId: string, @Body() body: Partial<StorageQuota>, @Req() req: GatewayRequest) {
+    try {
+      const updatedSettings = await this.mediaStorage.updateQuota(this.assertOwnOrganization(req, organizationId), body || {});
+      return { success: true, message: 'Storage quota updated successfully', updatedSettings };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get('analytics')
+  @UseGuards(GatewayAuthGuard, RolesGuard)
+  @Roles('editor', 'admin', 'viewer')
+  async getAnalytics(@Req() req: GatewayRequest, @Query('period') period?: string) {
+    if (period && !['day', 'week', 'month', 'year'].includes(period)) {
+      throw new HttpException('period must be one of day, week, month, year', HttpStatus.BAD_REQUEST);
+    }
+    const analytics = await this.mediaStorage.getAnalytics(this.extractOrganizationId(req), (period as StoragePeriod) || 'month');
+    return { success: true, analytics };
+  }
+}
@@ -26,8 +26,8 @@ export class TokenCacheService {
 
   async evictTokenCache(orgId: string, platform: string, socialAccountId?: string): Promise<number> {
     if (socialAccountId) {
-      const key = this.buildKey(orgId, platform, socialAccountId);
-      return this.redis.del(key);
+      // The org-level key may hold this account's token when it is the default account
+      return this.redis.del(this.buildKey(orgId, platform, socialAccountId), this.buildKey(orgId, platform));
     }
     // Wildcard evict: scan matching keys
     const pattern = `token_cache:${orgId}:${platform}:*`;
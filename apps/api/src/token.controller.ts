@@ -1,13 +1,27 @@
-import { Controller, Get, Post, Param, Body } from '@nestjs/common';
+import { Controller, Get, Post, Param, Body, Query, Req, UseGuards, HttpException, HttpStatus } from '@nestjs/common';
 import { TokenService } from './token.service';
+import { GatewayAuthGuard } from './guards/gateway-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
 
+@UseGuards(GatewayAuthGuard, RolesGuard)
 @Controller('tokens')
 export class TokenController {
   constructor(private readonly tokenService: TokenService) {}
 
+  private extractOrganizationId(req: any): string {
+    const orgId = req?.user?.orgId || req?.user?.organizationId;
+    if (!orgId) {
+      throw new HttpException('Organization context required', HttpStatus.BAD_REQUEST);
+    }
+    return orgId;
+  }
+
   @Get(':provider/status')
-  async getTokenStatus(@Param('provider') provider: string) {
-    const result = await this.tokenService.getValidAccessToken(provider as any);
+  @Roles('admin', 'editor')
+  async getTokenStatus(@Param('provider') provider: string, @Req() req: any, @Query('socialAccountId') socialAccountId?: string) {
+    // Without ?socialAccountId= this reports the organization's most recently connected account for the provider
+    const result = await this.tokenService.getValidAccessToken({ organizationId: this.extractOrganizationId(req), socialAccountId }, provider as any);
     if (!result) {
       return { 
         ok: false, 
@@ -26,9 +40,12 @@ export class TokenController {
   }
 
   @Post(':provider/refresh')
-  async refreshToken(@Param('provider') provider: string, @Body() body: any) {
-    const oldToken = body?.oldToken || 'test_token';
-    const newToken = await this.tokenService.handleTokenRefresh(provider as any, oldToken);
+  @Roles('admin')
+  async refreshToken(@Param('provider') provider: string, @Body() body: { socialAccountId?: string }, @Req() req: any) {
+    const newToken = await this.tokenService.handleTokenRefresh(
+      { organizationId: this.extractOrganizationId(req), socialAccountId: body?.socialAccountId, correlationId: req?.correlationId },
+      provider as any,
+    );
     
     if (newToken) {
       return {
@@ -47,6 +64,7 @@ export class TokenController {
   }
 
   @Get('audit/:provider')
+  @Roles('admin')
   async getTokenAudit(@Param('provider') provider: string) {
     // This would query the audit table in a real implementation
     return {
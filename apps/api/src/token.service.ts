@@ -1,5 +1,4 @@
 import { Injectable, Logger } from '@nestjs/common';
-import Redis from 'ioredis';
 import { DbService } from './db.service';
 import { decryptToken, encryptToken } from './token.util';
 import axios from 'axios';
@@ -7,7 +6,7 @@ import { TokenAuditService } from './services/token-audit.service';
 import { TokenCacheService } from './token-cache.service';
 import { redactToken } from './utils/logger';
 
-export type Provider = 'meta' | 'linkedin' | 'google' | 'youtube';
+export type Provider = 'meta' | 'linkedin' | 'google' | 'youtube' | 'wordpress';
 
 function mapPlatform(provider: Provider): string {
   switch (provider) {
@@ -19,11 +18,69 @@ function mapPlatform(provider: Provider): string {
       return 'YOUTUBE';
     case 'google':
       return 'GBP';
+    case 'wordpress':
+      return 'WORDPRESS';
     default:
       return 'GBP';
   }
 }
 
+/**
+ * The OAuth provider whose token publishes to a platform (Instagram posts with the Meta token)
+ */
+export function providerForPlatform(platform: string): Provider | null {
+  switch (platform.toUpperCase()) {
+    case 'FACEBOOK':
+    case 'INSTAGRAM':
+      return 'meta';
+    case 'LINKEDIN':
+      return 'linkedin';
+    case 'YOUTUBE':
+      return 'youtube';
+    case 'GBP':
+      return 'google';
+    case 'WORDPRESS':
+      return 'wordpress';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whose token to use. Passed on every call: TokenService is a shared singleton, so it must not hold
+ * per-request state.
+ */
+export interface TokenContext {
+  organizationId: string;
+  // social_accounts.id, of any of the provider's platforms (an Instagram account holds a Meta page token);
+  // only lookups not tied to an account, such as listing a new connection's pages, leave it out and get
+  // the organization's most recently connected account for the provider
+  socialAccountId?: string;
+  correlationId?: string;
+}
+
+export interface AccessTokenInfo {
+  accessToken: string;
+  dummy: boolean;
+  socialAccountId: string | null;
+}
+
+// Cached tokens remember the account they were resolved to, so org-level hits report it too
+interface CachedToken {
+  socialAccountId: string;
+  token: string;
+}
+
+function parseCachedToken(value: string): CachedToken | null {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed?.token === 'string' && typeof parsed?.socialAccountId === 'string' ? parsed : null;
+  } catch {
+    // Entries written before accounts were cached with the token
+    return null;
+  }
+}
+
 interface TokenRefreshResult {
   accessToken: string;
   refreshToken?: string;
@@ -35,34 +92,25 @@ interface TokenRefreshResult {
 
 @Injectable()
 export class TokenService {
-  private redis: Redis;
-  private orgId?: string;
   private readonly logger = new Logger(TokenService.name);
 
-  constructor(private readonly db: DbService, private readonly tokenAudit: TokenAuditService, private readonly tokenCache: TokenCacheService) {
-    const url = process.env.REDIS_URL || 'redis://redis:6379';
-    this.redis = new Redis(url);
-  }
-
-  setOrgId(orgId: string) {
-    this.orgId = orgId;
-  }
+  constructor(private readonly db: DbService, private readonly tokenAudit: TokenAuditService, private readonly tokenCache: TokenCacheService) {}
 
-  async getValidAccessToken(provider: Provider): Promise<{ accessToken: string; dummy: boolean } | null> {
+  async getValidAccessToken(ctx: TokenContext, provider: Provider): Promise<AccessTokenInfo | null> {
+    const { organizationId, socialAccountId } = ctx;
+    if (!organizationId) return null;
     const platform = mapPlatform(provider);
-    const cacheKey = `token_cache:${this.orgId}:${platform}`;
 
     // Check cache first
-    const cached = this.orgId ? await this.tokenCache.getCachedToken(this.orgId, platform) : null;
+    const cachedValue = await this.tokenCache.getCachedToken(organizationId, platform, socialAccountId);
+    const cached = cachedValue ? parseCachedToken(cachedValue) : null;
     if (cached) {
-      const dec = decryptToken(cached);
-      return { accessToken: dec, dummy: dec.startsWith('dummy_access_') };
+      const dec = decryptToken(cached.token);
+      return { accessToken: dec, dummy: dec.startsWith('dummy_access_'), socialAccountId: cached.socialAccountId };
     }
 
     // Get latest token from DB
-    if (!this.orgId) return null;
-    if (!this.orgId) return null;
-    const rec = await this.db.getLatestTokenForPlatform(this.orgId, platform);
+    const rec = await this.db.getLatestTokenForPlatform(organizationId, platform, socialAccountId);
     if (!rec) return null;
 
     const access = decryptToken(rec.access_token_enc);
@@ -75,24 +123,63 @@ export class TokenService {
     const nearExpiry = expiresAt ? expiresAt.getTime() - now < 15 * 60 * 1000 : false;
 
     let usable = access;
+    const tokenCtx = { ...ctx, socialAccountId: rec.social_account_id };
     if (!isDummy && nearExpiry && refresh) {
       // Proactive refresh
       this.logger.log(`Proactive refresh needed for ${platform}`);
       const refreshResult = await this.refreshAccessToken(provider, refresh);
       if (refreshResult.accessToken) {
         usable = refreshResult.accessToken;
-        await this.auditTokenExchange(platform, 'proactive_refresh', true, null);
+        await this.storeNewTokenVersion(tokenCtx, platform, refreshResult);
+        await this.auditTokenExchange(tokenCtx, platform, 'proactive_refresh', true, null);
       } else {
         this.logger.warn(`Proactive refresh failed for ${platform}: ${refreshResult.error}`);
-        await this.auditTokenExchange(platform, 'proactive_refresh', false, refreshResult.error || null);
+        await this.auditTokenExchange(tokenCtx, platform, 'proactive_refresh', false, refreshResult.error || null);
       }
     }
 
     // Cache for 5 minutes
-    if (this.orgId) {
-      await this.tokenCache.setCachedToken(this.orgId, platform, encryptToken(usable), 300);
+    const entry: CachedToken = { socialAccountId: rec.social_account_id, token: encryptToken(usable) };
+    await this.tokenCache.setCachedToken(organizationId, platform, JSON.stringify(entry), 300, socialAccountId);
+    return { accessToken: usable, dummy: isDummy, socialAccountId: rec.social_account_id };
+  }
+
+  /**
+   * The token stored for a platform account itself: a selected Facebook page, Instagram account or LinkedIn
+   * company, or a WordPress site. Null when the account was never connected on its own.
+   */
+  async getAccountAccessToken(organizationId: string, platform: string, externalId: string, correlationId?: string): Promise<AccessTokenInfo | null> {
+    const provider = providerForPlatform(platform);
+    if (!provider) return null;
+    const account = await this.db.getSocialAccount(organizationId, platform, externalId);
+    if (!account) return null;
+    return this.getValidAccessToken({ organizationId, socialAccountId: account.id, correlationId }, provider);
+  }
+
+  /**
+   * Try the organization's connections for a platform, most recently connected first, and return the first
+   * result `reach` finds with one (e.g. the Meta user whose pages include a page). Connections whose token
+   * is missing or whose check fails are skipped.
+   */
+  async findConnectedAccount<T>(
+    organizationId: string,
+    platform: string,
+    reach: (token: AccessTokenInfo & { externalId: string }) => Promise<T | null | undefined>,
+    correlationId?: string,
+  ): Promise<T | null> {
+    const provider = providerForPlatform(platform);
+    if (!provider) return null;
+    for (const account of await this.db.getConnectedSocialAccounts(organizationId, platform)) {
+      const token = await this.getValidAccessToken({ organizationId, socialAccountId: account.id, correlationId }, provider);
+      if (!token) continue;
+      try {
+        const found = await reach({ ...token, externalId: account.external_id });
+        if (found) return found;
+      } catch (error: any) {
+        this.logger.warn(`Skipping ${platform} connection ${account.id}: ${error?.message || error}`);
+      }
     }
-    return { accessToken: usable, dummy: isDummy };
+    return null;
   }
 
   async refreshAccessToken(provider: Provider, refreshToken: string, correlationId?: string): Promise<TokenRefreshResult> {
@@ -105,6 +192,9 @@ export class TokenService {
         case 'google':
         case 'youtube':
           return await this.refreshGoogleToken(refreshToken);
+        case 'wordpress':
+          // Application passwords do not expire and have no refresh flow
+          return { accessToken: '', error: 'WordPress application passwords cannot be refreshed' };
         default:
           return { accessToken: '', error: 'Unsupported provider' };
       }
@@ -167,54 +257,54 @@ export class TokenService {
     };
   }
 
-  async handleTokenRefresh(provider: Provider, oldToken: string, correlationId?: string): Promise<string | null> {
+  async handleTokenRefresh(ctx: TokenContext, provider: Provider): Promise<string | null> {
+    const { organizationId, correlationId } = ctx;
     const platform = mapPlatform(provider);
     this.logger.log(`Reactive refresh triggered for ${platform}`);
     
     // Get refresh token from DB
-    if (!this.orgId) return null;
-    const rec = await this.db.getLatestTokenForPlatform(this.orgId, platform);
+    if (!organizationId) return null;
+    const rec = await this.db.getLatestTokenForPlatform(organizationId, platform, ctx.socialAccountId);
+    const tokenCtx = { ...ctx, socialAccountId: rec?.social_account_id || ctx.socialAccountId };
+    const socialAccountId = tokenCtx.socialAccountId || 'unknown';
     if (!rec?.refresh_token_enc) {
-      await this.auditTokenExchange(platform, 'reactive_refresh', false, 'No refresh token available');
-      await this.tokenAudit.record('refresh_failure', { orgId: this.orgId, provider: platform, socialAccountId: rec?.social_account_id || 'unknown', success: false, reason: 'No refresh token available', correlationId });
+      await this.auditTokenExchange(tokenCtx, platform, 'reactive_refresh', false, 'No refresh token available');
+      await this.tokenAudit.record('refresh_failure', { orgId: organizationId, provider: platform, socialAccountId, success: false, reason: 'No refresh token available', correlationId });
       return null;
     }
 
     const refreshToken = decryptToken(rec.refresh_token_enc);
-    await this.tokenAudit.record('refresh_attempt', { orgId: this.orgId, provider: platform, socialAccountId: rec.social_account_id || 'unknown', success: true, correlationId, scopes: Array.isArray(rec.scopes) ? rec.scopes.join(' ') : (rec.scopes || null) });
+    await this.tokenAudit.record('refresh_attempt', { orgId: organizationId, provider: platform, socialAccountId, success: true, correlationId, scopes: Array.isArray(rec.scopes) ? rec.scopes.join(' ') : (rec.scopes || null) });
     const refreshResult = await this.refreshAccessToken(provider, refreshToken, correlationId);
     
     if (refreshResult.accessToken) {
       // Store new token version
-      await this.storeNewTokenVersion(platform, refreshResult);
-      await this.auditTokenExchange(platform, 'reactive_refresh', true, null);
-      await this.tokenAudit.record('refresh_success', { orgId: this.orgId, provider: platform, socialAccountId: rec.social_account_id || 'unknown', success: true, correlationId, expiresAt: refreshResult.expiresAt || null, scopes: refreshResult.scopes || null });
-      
-      // Clear cache
-      await this.evictTokenCache(this.orgId, platform, rec.social_account_id);
-      
+      await this.storeNewTokenVersion(tokenCtx, platform, refreshResult);
+      await this.auditTokenExchange(tokenCtx, platform, 'reactive_refresh', true, null);
+      await this.tokenAudit.record('refresh_success', { orgId: organizationId, provider: platform, socialAccountId, success: true, correlationId, expiresAt: refreshResult.expiresAt || null, scopes: refreshResult.scopes || null });
       return refreshResult.accessToken;
     } else {
-      await this.auditTokenExchange(platform, 'reactive_refresh', false, refreshResult.error || null);
-      await this.tokenAudit.record('refresh_failure', { orgId: this.orgId, provider: platform, socialAccountId: rec.social_account_id || 'unknown', success: false, reason: refreshResult.error, correlationId });
+      await this.auditTokenExchange(tokenCtx, platform, 'reactive_refresh', false, refreshResult.error || null);
+      await this.tokenAudit.record('refresh_failure', { orgId: organizationId, provider: platform, socialAccountId, success: false, reason: refreshResult.error, correlationId });
       return null;
     }
   }
 
-  private async storeNewTokenVersion(platform: string, refreshResult: TokenRefreshResult) {
-    const socialAccountId = await this.db.upsertSocialAccount(
-      this.orgId!, 
-      platform, 
-      'external_id', 
-      'Display Name'
-    );
+  /**
+   * Add a token version to the account the refreshed token came from and drop its cached copies
+   */
+  private async storeNewTokenVersion(ctx: TokenContext, platform: string, refreshResult: TokenRefreshResult) {
+    if (!ctx.socialAccountId) {
+      this.logger.warn(`Refreshed ${platform} token not stored: no social account in context`);
+      return;
+    }
 
     const expiresAt = refreshResult.expiresAt ?? (refreshResult.expiresIn 
       ? new Date(Date.now() + refreshResult.expiresIn * 1000)
       : null);
 
     await this.db.insertToken(
-      socialAccountId,
+      ctx.socialAccountId,
       encryptToken(refreshResult.accessToken),
       refreshResult.refreshToken ? encryptToken(refreshResult.refreshToken) : null,
       expiresAt,
@@ -222,7 +312,7 @@ export class TokenService {
     );
 
     this.logger.log(`New token version stored for ${platform}`);
-    await this.evictTokenCache(this.orgId!, platform, socialAccountId);
+    await this.evictTokenCache(ctx.organizationId, platform, ctx.socialAccountId);
   }
 
   encryptToken(plaintext: string): string {
@@ -233,14 +323,14 @@ export class TokenService {
     return decryptToken(ciphertext);
   }
 
-  private async auditTokenExchange(platform: string, type: string, success: boolean, error: string | null) {
+  private async auditTokenExchange(ctx: TokenContext, platform: string, type: string, success: boolean, error: string | null) {
     try {
       const auditId = `audit_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
       const sql = `
-        INSERT INTO token_audit (id, organization_id, provider, social_account_id, event, success, reason, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, now())
+        INSERT INTO token_audit (id, organization_id, provider, social_account_id, event, success, reason, correlation_id, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, now())
       `;
-      await this.db.query(sql, [auditId, this.orgId, platform, 'unknown', type, success, error]);
+      await this.db.query(sql, [auditId, ctx.organizationId, platform, ctx.socialAccountId || 'unknown', type, success, error, ctx.correlationId || null]);
       this.logger.log(`Token exchange audit logged: ${platform} ${type} ${success ? 'SUCCESS' : 'FAILED'}`);
     } catch (auditError) {
       this.logger.error('Failed to log token audit:', auditError);
@@ -1,24 +1,157 @@
 import crypto from 'crypto';
 
-const SECRET = process.env.TOKEN_ENC_KEY || 'dev-secret';
-const ENC_KEY = crypto.createHash('sha256').update(SECRET).digest(); // 32 bytes
 const AUTH_TAG_LEN = 16;
+const IV_LEN = 12;
+const FORMAT_VERSION = 'v1';
+// Key id for TOKEN_ENC_KEY, which encrypted the untagged ciphertexts written before key rotation existed
+export const LEGACY_KEY_ID = 'legacy';
+const DEV_FALLBACK_SECRET = 'dev-secret';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export class TokenKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenKeyError';
+  }
+}
+
+const deriveKey = (secret: string) => crypto.createHash('sha256').update(secret).digest(); // 32 bytes
+
+/**
+ * AES-256-GCM keys by id. Ciphertexts are written as `v1:<keyId>:<base64(iv|tag|data)>` with the primary
+ * key; any key in the ring can decrypt, so old keys stay until every ciphertext has been re-encrypted.
+ * Untagged ciphertexts are from before rotation and are read with the legacy key.
+ */
+export class TokenKeyRing {
+  constructor(
+    private readonly keys: Map<string, Buffer>,
+    readonly primaryKeyId: string,
+    // True when no key was configured and the development secret is in use
+    readonly usesDevFallback: boolean = false,
+  ) {
+    if (!keys.has(primaryKeyId)) {
+      throw new TokenKeyError(`Primary token key "${primaryKeyId}" is not in the key ring`);
+    }
+  }
+
+  get keyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_LEN);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(this.primaryKeyId)!, iv);
+    // Binding the key id stops a ciphertext being relabelled with another key's id
+    cipher.setAAD(Buffer.from(this.primaryKeyId));
+    const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${FORMAT_VERSION}:${this.primaryKeyId}:${Buffer.concat([iv, tag, enc]).toString('base64')}`;
+  }
+
+  decrypt(ciphertext: string): string {
+    const { keyId, payload, tagged } = parseCiphertext(ciphertext);
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new TokenKeyError(
+        tagged
+          ? `Token was encrypted with key "${keyId}", which is not in TOKEN_ENC_KEYS`
+          : 'Token predates key rotation and needs TOKEN_ENC_KEY to decrypt',
+      );
+    }
+    const buf = Buffer.from(payload, 'base64');
+    const iv = buf.subarray(0, IV_LEN);
+    const tag = buf.subarray(IV_LEN, IV_LEN + AUTH_TAG_LEN);
+    const data = buf.subarray(IV_LEN + AUTH_TAG_LEN);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    if (tagged) decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(tag);
+    const dec = Buffer.concat([decipher.update(data), decipher.final()]);
+    return dec.toString('utf8');
+  }
+
+  /**
+   * Whether the ciphertext was written with anything other than the current primary key
+   */
+  needsReencryption(ciphertext: string): boolean {
+    const { keyId, tagged } = parseCiphertext(ciphertext);
+    return !tagged || keyId !== this.primaryKeyId;
+  }
+
+  reencrypt(ciphertext: string): string {
+    return this.encrypt(this.decrypt(ciphertext));
+  }
+}
+
+function parseCiphertext(ciphertext: string): { keyId: string; payload: string; tagged: boolean } {
+  // ':' is not in the base64 alphabet, so untagged ciphertexts never contain one
+  const parts = ciphertext.split(':');
+  if (parts.length === 1) {
+    return { keyId: LEGACY_KEY_ID, payload: ciphertext, tagged: false };
+  }
+  if (parts.length !== 3 || parts[0] !== FORMAT_VERSION) {
+    throw new TokenKeyError('Unrecognised token ciphertext format');
+  }
+  return { keyId: parts[1], payload: parts[2], tagged: true };
+}
+
+/**
+ * Build the key ring from the environment:
+ * - TOKEN_ENC_KEYS: comma-separated `id:secret` pairs, newest first
+ * - TOKEN_ENC_PRIMARY_KEY_ID: key that encrypts (defaults to the first TOKEN_ENC_KEYS entry)
+ * - TOKEN_ENC_KEY: the pre-rotation key, kept as id "legacy" so untagged ciphertexts stay readable
+ * Outside production a missing configuration falls back to a development secret, which also stays readable as the
+ * legacy key once TOKEN_ENC_KEYS is set. In production a missing configuration or the development secret is an error.
+ */
+export function loadTokenKeyRing(env: Record<string, string | undefined> = process.env): TokenKeyRing {
+  const production = env.NODE_ENV === 'production';
+  const keys = new Map<string, Buffer>();
+  for (const entry of (env.TOKEN_ENC_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = separator > 0 ? entry.slice(0, separator) : '';
+    const secret = separator > 0 ? entry.slice(separator + 1) : '';
+    if (!KEY_ID_PATTERN.test(id) || !secret) {
+      throw new TokenKeyError('TOKEN_ENC_KEYS entries must look like "<id>:<secret>" with ids of letters, digits, "-" or "_"');
+    }
+    if (keys.has(id)) {
+      throw new TokenKeyError(`Token key "${id}" is listed twice in TOKEN_ENC_KEYS`);
+    }
+    if (production && secret === DEV_FALLBACK_SECRET) {
+      throw new TokenKeyError(`Token key "${id}" uses the development secret, which is not allowed in production`);
+    }
+    keys.set(id, deriveKey(secret));
+  }
+
+  if (production && env.TOKEN_ENC_KEY === DEV_FALLBACK_SECRET) {
+    throw new TokenKeyError('TOKEN_ENC_KEY is the development secret, which is not allowed in production');
+  }
+  const usesDevFallback = !env.TOKEN_ENC_KEY && keys.size === 0 && !production;
+  // Tokens written in development before TOKEN_ENC_KEYS was set stay readable; new ones use the configured keys
+  const legacySecret = env.TOKEN_ENC_KEY || (production ? undefined : DEV_FALLBACK_SECRET);
+  if (legacySecret && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, deriveKey(legacySecret));
+  }
+
+  if (keys.size === 0) {
+    throw new TokenKeyError('No token encryption key configured; set TOKEN_ENC_KEYS (or TOKEN_ENC_KEY)');
+  }
+  const primaryKeyId = env.TOKEN_ENC_PRIMARY_KEY_ID || keys.keys().next().value!;
+  return new TokenKeyRing(keys, primaryKeyId, usesDevFallback);
+}
+
+let keyRing: TokenKeyRing | null = null;
+
+/**
+ * The process-wide key ring, loaded from the environment on first use
+ */
+export function getTokenKeyRing(): TokenKeyRing {
+  if (!keyRing) keyRing = loadTokenKeyRing();
+  return keyRing;
+}
 
 export function encryptToken(plaintext: string): string {
-  const iv = crypto.randomBytes(12);
-  const cipher = crypto.createCipheriv('aes-256-gcm', ENC_KEY, iv);
-  const enc = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
-  const tag = cipher.getAuthTag();
-  return Buffer.concat([iv, tag, enc]).toString('base64');
+  return getTokenKeyRing().encrypt(plaintext);
 }
 
 export function decryptToken(ciphertext: string): string {
-  const buf = Buffer.from(ciphertext, 'base64');
-  const iv = buf.subarray(0, 12);
-  const tag = buf.subarray(12, 12 + AUTH_TAG_LEN);
-  const data = buf.subarray(12 + AUTH_TAG_LEN);
-  const decipher = crypto.createDecipheriv('aes-256-gcm', ENC_KEY, iv);
-  decipher.setAuthTag(tag);
-  const dec = Buffer.concat([decipher.update(data), decipher.final()]);
-  return dec.toString('utf8');
+  return getTokenKeyRing().decrypt(ciphertext);
 }
@@ -41,7 +41,6 @@ export class WebhooksController {
       signature || null,
       idemKey,
     );
-    await this.db.markWebhookEventProcessed(idemKey);
     await this.queue.enqueueWebhook({ idemKey, provider: 'meta' });
     return { ok: true, idemKey };
   }
@@ -83,7 +82,6 @@ export class WebhooksController {
       signature || null,
       idemKey,
     );
-    await this.db.markWebhookEventProcessed(idemKey);
     await this.queue.enqueueWebhook({ idemKey, provider: 'linkedin' });
     return { ok: true, idemKey };
   }
@@ -112,7 +110,6 @@ export class WebhooksController {
       signature || null,
       idemKey,
     );
-    await this.db.markWebhookEventProcessed(idemKey);
     await this.queue.enqueueWebhook({ idemKey, provider: 'google' });
     return { ok: true, idemKey };
   }
@@ -8,6 +8,7 @@ import QualityCheckResults from '@/components/content/QualityCheckResults';
 import OptimizationSuggestions from '@/components/content/OptimizationSuggestions';
 import { apiClient } from '@/lib/api-client';
 import { ContentManager } from '@/components/auth/RoleGuard';
+import { PipelineStageState } from '@/types';
 
 export default function AIGenerationPage() {
   const router = useRouter();
@@ -15,6 +16,8 @@ export default function AIGenerationPage() {
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string>('');
+  // Stages of the running generation, streamed from the API
+  const [stages, setStages] = useState<PipelineStageState[]>([]);
   const [formData, setFormData] = useState({
     prompt: '',
     contentType: 'BLOG',
@@ -31,9 +34,26 @@ export default function AIGenerationPage() {
     }
 
     setGenerating(true);
-    
+    setStages([]);
+
+    // Subscribe to the pipeline's events before generation starts, so no stage is missed
+    const pipelineId = `gen_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
+    const stream = new AbortController();
+    apiClient
+      .streamPipelineEvents(pipelineId, (event) => {
+        if (event.type === 'snapshot') {
+          if (event.data.pipelines[0]) setStages(event.data.pipelines[0].stages);
+        } else {
+          setStages(event.data.pipeline.stages);
+        }
+      }, stream.signal)
+      .catch((error) => console.warn('Live generation progress unavailable:', error));
+
     try {
       const result = await apiClient.generateContent({
+        pipelineId,
+        kind: formData.contentType,
+        brief: formData.prompt,
         prompt: formData.prompt,
         contentType: formData.contentType,
         tone: formData.tone,
@@ -42,7 +62,7 @@ export default function AIGenerationPage() {
         targetAudience: formData.targetAudience,
       });
       
-      setGeneratedContent(result.content || 'Content generated successfully!');
+      setGeneratedContent(result.generatedContent?.draft || result.content || 'Content generated successfully!');
     } catch (error) {
       console.error('Failed to generate content:', error);
       // Mock content for demo purposes
@@ -60,6 +80,7 @@ ${formData.targetAudience ? `**Target Audience:** ${formData.targetAudience}` :
 
 *This is a demonstration of AI content generation. In a real implementation, this would be generated by the AI system.*`);
     } finally {
+      stream.abort();
       setGenerating(false);
     }
   };
@@ -259,6 +280,21 @@ ${formData.targetAudience ? `**Target Audience:** ${formData.targetAudience}` :
                       Clear
                     </button>
                   </div>
+
+                  {generating && stages.length > 0 && (
+                    <ul className="space-y-2 pt-2">
+                      {stages.map(stage => (
+                        <li key={stage.id} className="flex items-center justify-between text-sm">
+                          <span className={stage.status === 'running' ? 'font-medium text-blue-600' : 'text-gray-700'}>
+                            {stage.status === 'completed' ? '✅' : stage.status === 'running' ? '🔄' : stage.status === 'failed' ? '❌' : '⏳'} {stage.name}
+                          </span>
+                          {stage.duration !== undefined && (
+                            <span className="text-xs text-gray-500">{(stage.duration / 1000).toFixed(1)}s</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
             </div>
@@ -19,10 +19,11 @@ export default function MediaFormatConversion({ fileId, onConverted }: MediaForm
     resolution: { width: 0, height: 0 },
     framerate: 30,
     bitrate: 1000,
-    audioCodec: 'aac',
-    videoCodec: 'h264'
+    audioCodec: 'aac' as 'aac' | 'mp3' | 'opus',
+    videoCodec: 'h264' as 'h264' | 'h265' | 'vp9' | 'av1'
   });
   const [conversionResult, setConversionResult] = useState<any>(null);
+  const [progress, setProgress] = useState(0);
 
   const loadFile = async () => {
     try {
@@ -59,15 +60,33 @@ export default function MediaFormatConversion({ fileId, onConverted }: MediaForm
   const handleConvert = async () => {
     try {
       setConverting(true);
+      setProgress(0);
       setError(null);
       
-      const result = await apiClient.convertMediaFormat(fileId, conversionSettings);
-      
-      if (result.success) {
-        setConversionResult(result);
-        if (onConverted) {
-          onConverted(result);
+      const queued = await apiClient.convertMediaFormat(fileId, conversionSettings);
+      const job = await apiClient.waitForMediaJob(queued.jobId, {
+        onProgress: status => setProgress(status.progress)
+      });
+      const metadata = job.result?.metadata;
+      const result = {
+        success: true,
+        jobId: queued.jobId,
+        originalFileId: fileId,
+        convertedFileId: job.result?.processedFileId,
+        convertedUrl: job.result?.processedUrl,
+        conversion: {
+          originalFormat: metadata?.originalFormat ?? file?.mimeType,
+          targetFormat: metadata?.format ?? conversionSettings.targetFormat,
+          originalSize: metadata?.originalSize ?? 0,
+          convertedSize: metadata?.processedSize ?? 0,
+          processingTime: metadata?.processingTime ?? 0,
+          conversionSettings
         }
+      };
+
+      setConversionResult(result);
+      if (onConverted) {
+        onConverted(result);
       }
     } catch (err: any) {
       console.error('Failed to convert media:', err);
@@ -338,7 +357,7 @@ export default function MediaFormatConversion({ fileId, onConverted }: MediaForm
                     value={conversionSettings.videoCodec}
                     onChange={(e) => setConversionSettings(prev => ({
                       ...prev,
-                      videoCodec: e.target.value
+                      videoCodec: e.target.value as any
                     }))}
                   >
                     <option value="h264">H.264 (Universal)</option>
@@ -357,7 +376,7 @@ export default function MediaFormatConversion({ fileId, onConverted }: MediaForm
                     value={conversionSettings.audioCodec}
                     onChange={(e) => setConversionSettings(prev => ({
                       ...prev,
-                      audioCodec: e.target.value
+                      audioCodec: e.target.value as any
                     }))}
                   >
                     <option value="aac">AAC (Universal)</option>
@@ -376,7 +395,7 @@ export default function MediaFormatConversion({ fileId, onConverted }: MediaForm
               disabled={converting}
               className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
-              {converting ? 'Converting...' : 'Convert Media'}
+              {converting ? `Converting... ${progress}%` : 'Convert Media'}
             </button>
           </div>
         </div>
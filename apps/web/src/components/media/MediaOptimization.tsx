@@ -23,6 +23,7 @@ export default function MediaOptimization({ fileId, onOptimized }: MediaOptimiza
     optimizeForWeb: true
   });
   const [optimizationResult, setOptimizationResult] = useState<any>(null);
+  const [progress, setProgress] = useState(0);
 
   const loadFile = async () => {
     try {
@@ -48,15 +49,33 @@ export default function MediaOptimization({ fileId, onOptimized }: MediaOptimiza
   const handleOptimize = async () => {
     try {
       setOptimizing(true);
+      setProgress(0);
       setError(null);
       
-      const result = await apiClient.optimizeMedia(fileId, optimizationSettings);
-      
-      if (result.success) {
-        setOptimizationResult(result);
-        if (onOptimized) {
-          onOptimized(result);
+      const queued = await apiClient.optimizeMedia(fileId, optimizationSettings);
+      const job = await apiClient.waitForMediaJob(queued.jobId, {
+        onProgress: status => setProgress(status.progress)
+      });
+      const metadata = job.result?.metadata;
+      const result = {
+        success: true,
+        jobId: queued.jobId,
+        originalFileId: fileId,
+        optimizedFileId: job.result?.processedFileId,
+        optimizedUrl: job.result?.processedUrl,
+        optimization: {
+          originalSize: metadata?.originalSize ?? 0,
+          optimizedSize: metadata?.processedSize ?? 0,
+          compressionRatio: metadata?.compressionRatio ?? 0,
+          qualityScore: metadata?.quality ?? optimizationSettings.quality,
+          processingTime: metadata?.processingTime ?? 0,
+          optimizationsApplied: metadata?.optimizationsApplied ?? []
         }
+      };
+
+      setOptimizationResult(result);
+      if (onOptimized) {
+        onOptimized(result);
       }
     } catch (err: any) {
       console.error('Failed to optimize media:', err);
@@ -300,7 +319,7 @@ export default function MediaOptimization({ fileId, onOptimized }: MediaOptimiza
               disabled={optimizing}
               className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
-              {optimizing ? 'Optimizing...' : 'Optimize Media'}
+              {optimizing ? `Optimizing... ${progress}%` : 'Optimize Media'}
             </button>
           </div>
         </div>
@@ -17,7 +17,7 @@ export default function MediaProcessing({ organizationId }: MediaProcessingProps
   const [activeTab, setActiveTab] = useState<'files' | 'history' | 'presets'>('files');
   const [showProcessingModal, setShowProcessingModal] = useState(false);
   const [processingSettings, setProcessingSettings] = useState({
-    type: 'optimization' as 'optimization' | 'conversion' | 'processing',
+    type: 'optimization' as 'optimization' | 'conversion',
     presetId: '',
     customSettings: {
       quality: 80,
@@ -81,7 +81,12 @@ export default function MediaProcessing({ organizationId }: MediaProcessingProps
       
       const result = await apiClient.batchProcessMedia(selectedFiles, {
         type: processingSettings.type,
-        settings: processingSettings.customSettings,
+        // A preset carries its own settings; conversions name their output format targetFormat
+        settings: processingSettings.presetId
+          ? {}
+          : processingSettings.type === 'conversion'
+            ? { quality: processingSettings.customSettings.quality, targetFormat: processingSettings.customSettings.format }
+            : processingSettings.customSettings,
         presetId: processingSettings.presetId || undefined
       });
       
@@ -429,7 +434,6 @@ export default function MediaProcessing({ organizationId }: MediaProcessingProps
                 >
                   <option value="optimization">Optimization</option>
                   <option value="conversion">Format Conversion</option>
-                  <option value="processing">Custom Processing</option>
                 </select>
               </div>
               
@@ -446,7 +450,7 @@ export default function MediaProcessing({ organizationId }: MediaProcessingProps
                   }))}
                 >
                   <option value="">No preset</option>
-                  {presets.map(preset => (
+                  {presets.filter(preset => preset.type === processingSettings.type).map(preset => (
                     <option key={preset.id} value={preset.id}>
                       {preset.name} ({preset.type})
                     </option>
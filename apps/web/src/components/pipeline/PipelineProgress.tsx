@@ -2,21 +2,36 @@
 
 import { useState, useEffect } from 'react';
 import { apiClient } from '@/lib/api-client';
+import { PipelineProgressState, PipelineStreamEvent } from '@/types';
 
 interface PipelineProgressProps {
   pipelineId?: string;
-  onProgressUpdate?: (progress: any) => void;
+  onProgressUpdate?: (progress: PipelineProgressState) => void;
 }
 
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
 export default function PipelineProgress({ pipelineId, onProgressUpdate }: PipelineProgressProps) {
-  const [progressData, setProgressData] = useState<any>(null);
+  const [progressData, setProgressData] = useState<PipelineProgressState | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPipelineId, setSelectedPipelineId] = useState(pipelineId || '');
-  const [autoRefresh, setAutoRefresh] = useState(false);
+  // The loaded pipeline, followed over SSE while liveUpdates is on
+  const [watchedPipelineId, setWatchedPipelineId] = useState<string | null>(null);
+  const [liveUpdates, setLiveUpdates] = useState(true);
+  const [streaming, setStreaming] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+
+  const applyProgress = (progress: PipelineProgressState) => {
+    setProgressData(progress);
+    setUpdatedAt(new Date().toISOString());
+    if (onProgressUpdate) {
+      onProgressUpdate(progress);
+    }
+  };
 
-  const loadProgress = async () => {
-    if (!selectedPipelineId.trim()) {
+  const loadProgress = async (id = selectedPipelineId) => {
+    if (!id.trim()) {
       setError('Pipeline ID is required');
       return;
     }
@@ -25,12 +40,9 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
       setLoading(true);
       setError(null);
 
-      const result = await apiClient.getPipelineProgress(selectedPipelineId);
-      setProgressData(result);
-
-      if (onProgressUpdate) {
-        onProgressUpdate(result);
-      }
+      const result = await apiClient.getPipelineProgress(id.trim());
+      applyProgress(result.progress);
+      setWatchedPipelineId(id.trim());
     } catch (err: any) {
       console.error('Failed to load pipeline progress:', err);
       setError(err.message || 'Failed to load pipeline progress');
@@ -40,16 +52,31 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
   };
 
   useEffect(() => {
-    if (selectedPipelineId && autoRefresh) {
-      const interval = setInterval(loadProgress, 5000); // Refresh every 5 seconds
-      return () => clearInterval(interval);
-    }
-  }, [selectedPipelineId, autoRefresh]);
+    if (!watchedPipelineId || !liveUpdates) return;
+
+    const controller = new AbortController();
+    setStreaming(true);
+    apiClient
+      .streamPipelineEvents(watchedPipelineId, (event: PipelineStreamEvent) => {
+        if (event.type === 'snapshot') {
+          if (event.data.pipelines[0]) applyProgress(event.data.pipelines[0]);
+        } else {
+          applyProgress(event.data.pipeline);
+        }
+      }, controller.signal)
+      .catch((err: any) => {
+        console.error('Pipeline event stream error:', err);
+        setError(err.message || 'Lost the live pipeline updates');
+      })
+      .finally(() => setStreaming(false));
+
+    return () => controller.abort();
+  }, [watchedPipelineId, liveUpdates]);
 
   useEffect(() => {
     if (pipelineId) {
       setSelectedPipelineId(pipelineId);
-      loadProgress();
+      loadProgress(pipelineId);
     }
   }, [pipelineId]);
 
@@ -143,7 +170,7 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                   placeholder="Enter pipeline ID to monitor..."
                 />
                 <button
-                  onClick={loadProgress}
+                  onClick={() => loadProgress()}
                   disabled={loading || !selectedPipelineId.trim()}
                   className="btn-primary"
                 >
@@ -157,15 +184,20 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                 <label className="flex items-center space-x-2">
                   <input
                     type="checkbox"
-                    checked={autoRefresh}
-                    onChange={(e) => setAutoRefresh(e.target.checked)}
+                    checked={liveUpdates}
+                    onChange={(e) => setLiveUpdates(e.target.checked)}
                     className="text-blue-600 focus:ring-blue-500"
                   />
-                  <span className="text-sm text-gray-700">Auto-refresh every 5 seconds</span>
+                  <span className="text-sm text-gray-700">Live updates</span>
                 </label>
-                <div className="text-sm text-gray-500">
-                  Last updated: {formatDate(progressData.updatedAt)}
-                </div>
+                {streaming && !FINISHED_STATUSES.includes(progressData.status) && (
+                  <span className="text-xs px-2 py-1 rounded-full text-blue-600 bg-blue-100">● Live</span>
+                )}
+                {updatedAt && (
+                  <div className="text-sm text-gray-500">
+                    Last updated: {formatDate(updatedAt)}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -207,21 +239,23 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                 {/* Key Metrics */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="text-center p-3 bg-gray-50 rounded-lg">
-                    <div className="text-lg font-bold text-gray-900">{progressData.completedSteps}</div>
+                    <div className="text-lg font-bold text-gray-900">{progressData.stages.filter(stage => stage.status === 'completed').length}</div>
                     <div className="text-sm text-gray-600">Completed</div>
                   </div>
                   <div className="text-center p-3 bg-gray-50 rounded-lg">
-                    <div className="text-lg font-bold text-gray-900">{progressData.totalSteps}</div>
-                    <div className="text-sm text-gray-600">Total Steps</div>
+                    <div className="text-lg font-bold text-gray-900">{progressData.totalStages}</div>
+                    <div className="text-sm text-gray-600">Total Stages</div>
                   </div>
                   <div className="text-center p-3 bg-gray-50 rounded-lg">
-                    <div className="text-lg font-bold text-gray-900">{progressData.currentStep}</div>
-                    <div className="text-sm text-gray-600">Current Step</div>
+                    <div className="text-lg font-bold text-gray-900">
+                      {progressData.stages.find(stage => stage.status === 'running')?.name || '—'}
+                    </div>
+                    <div className="text-sm text-gray-600">Current Stage</div>
                   </div>
                   {progressData.estimatedTimeRemaining && (
                     <div className="text-center p-3 bg-gray-50 rounded-lg">
                       <div className="text-lg font-bold text-gray-900">
-                        {formatDuration(progressData.estimatedTimeRemaining)}
+                        {formatDuration(Math.round(progressData.estimatedTimeRemaining / 1000))}
                       </div>
                       <div className="text-sm text-gray-600">Est. Remaining</div>
                     </div>
@@ -232,8 +266,8 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Timeline</label>
                   <div className="text-sm text-gray-600">
-                    <div>Started: {formatDate(progressData.startedAt)}</div>
-                    <div>Updated: {formatDate(progressData.updatedAt)}</div>
+                    <div>Started: {progressData.startedAt ? formatDate(progressData.startedAt) : 'Not started'}</div>
+                    {progressData.completedAt && <div>Finished: {formatDate(progressData.completedAt)}</div>}
                   </div>
                 </div>
               </div>
@@ -243,11 +277,11 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
           {/* Step Details */}
           <div className="card">
             <div className="card-header">
-              <h4 className="card-title">Step Details</h4>
+              <h4 className="card-title">Stage Details</h4>
             </div>
             <div className="card-content">
               <div className="space-y-3">
-                {progressData.steps.map((step: any, index: number) => (
+                {progressData.stages.map((step, index) => (
                   <div key={step.id} className={`border rounded-lg p-4 ${
                     step.status === 'completed' ? 'border-green-200 bg-green-50' :
                     step.status === 'running' ? 'border-blue-200 bg-blue-50' :
@@ -259,7 +293,7 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                         <span className="text-lg">{getStepStatusIcon(step.status)}</span>
                         <div>
                           <h5 className="font-medium text-gray-900">{step.name}</h5>
-                          <p className="text-sm text-gray-600">Step {index + 1}</p>
+                          <p className="text-sm text-gray-600">Stage {index + 1}</p>
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -268,7 +302,7 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
                         </span>
                         {step.duration && (
                           <span className="text-xs text-gray-500">
-                            {formatDuration(step.duration)}
+                            {formatDuration(Math.round(step.duration / 1000))}
                           </span>
                         )}
                       </div>
@@ -323,8 +357,8 @@ export default function PipelineProgress({ pipelineId, onProgressUpdate }: Pipel
           <div className="flex items-start space-x-2">
             <span className="text-blue-600 text-lg">🔄</span>
             <div>
-              <p className="font-medium">Auto-refresh</p>
-              <p>Enable auto-refresh to get real-time updates on pipeline progress and status changes.</p>
+              <p className="font-medium">Live updates</p>
+              <p>Stage starts, completions and failures stream in as they happen, until the pipeline finishes.</p>
             </div>
           </div>
           <div className="flex items-start space-x-2">
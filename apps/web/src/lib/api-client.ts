@@ -1,5 +1,5 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { ApiResponse, PaginatedResponse } from '@/types';
+import { ApiResponse, MediaJobQueued, MediaJobStatusResponse, PaginatedResponse, PipelineProgressState, PipelineStreamEvent } from '@/types';
 import { CSRFManager } from './csrf';
 
 class APIClient {
@@ -224,6 +224,18 @@ class APIClient {
     return this.request('GET', `/content/generate/batch/${jobId}/progress`);
   }
 
+  async getBatchJobResult(jobId: string): Promise<any> {
+    return this.request('GET', `/content/generate/batch/${jobId}/result`);
+  }
+
+  async pauseBatchJob(jobId: string): Promise<any> {
+    return this.request('POST', `/content/generate/batch/${jobId}/pause`);
+  }
+
+  async resumeBatchJob(jobId: string): Promise<any> {
+    return this.request('POST', `/content/generate/batch/${jobId}/resume`);
+  }
+
   async cancelBatchJob(jobId: string): Promise<any> {
     return this.request('POST', `/content/generate/batch/${jobId}/cancel`);
   }
@@ -287,6 +299,7 @@ class APIClient {
     organizationId: string;
     name: string;
     description: string;
+    triggers?: string[];
     conditions: Array<{
       field: string;
       operator: string;
@@ -295,7 +308,10 @@ class APIClient {
     actions: Array<{
       type: string;
       parameters: Record<string, any>;
+      delay?: number;
+      continueOnError?: boolean;
     }>;
+    priority?: number;
     enabled: boolean;
   }): Promise<any> {
     return this.request('POST', '/content/workflow/rules', data);
@@ -309,6 +325,24 @@ class APIClient {
     return this.request('POST', `/content/workflow/execute/${ruleId}`);
   }
 
+  async updateWorkflowRule(ruleId: string, data: Record<string, any>): Promise<any> {
+    return this.request('PUT', `/content/workflow/rules/${ruleId}`, data);
+  }
+
+  async deleteWorkflowRule(ruleId: string): Promise<any> {
+    return this.request('DELETE', `/content/workflow/rules/${ruleId}`);
+  }
+
+  async getWorkflowExecutions(params?: {
+    ruleId?: string;
+    contentItemId?: string;
+    eventType?: string;
+    status?: string;
+    limit?: number;
+  }): Promise<any> {
+    return this.request('GET', '/content/workflow/executions', undefined, params);
+  }
+
   // Token Management endpoints
   async getTokenStatus(provider: string): Promise<{
     ok: boolean;
@@ -321,13 +355,13 @@ class APIClient {
     return this.request('GET', `/tokens/${provider}/status`);
   }
 
-  async refreshToken(provider: string, oldToken?: string): Promise<{
+  async refreshToken(provider: string, socialAccountId?: string): Promise<{
     ok: boolean;
     provider: string;
     message: string;
     newTokenPreview?: string;
   }> {
-    return this.request('POST', `/tokens/${provider}/refresh`, { oldToken });
+    return this.request('POST', `/tokens/${provider}/refresh`, { socialAccountId });
   }
 
   async getTokenAudit(provider: string): Promise<{
@@ -561,10 +595,14 @@ class APIClient {
   }
 
   // Lead endpoints
-  async getLeads(params?: any): Promise<any[]> {
+  async getLeads(params?: any): Promise<any> {
     return this.request('GET', '/leads', undefined, params);
   }
 
+  async getLead(id: string): Promise<any> {
+    return this.request('GET', `/leads/${id}`);
+  }
+
   async createLead(data: any): Promise<any> {
     return this.request('POST', '/leads', data);
   }
@@ -573,6 +611,105 @@ class APIClient {
     return this.request('PUT', `/leads/${id}`, data);
   }
 
+  async deleteLead(id: string): Promise<any> {
+    return this.request('DELETE', `/leads/${id}`);
+  }
+
+  async getLeadConversations(id: string): Promise<any> {
+    return this.request('GET', `/leads/${id}/conversations`);
+  }
+
+  async getDuplicateLeads(): Promise<any> {
+    return this.request('GET', '/leads/duplicates');
+  }
+
+  async mergeLeads(primaryId: string, duplicateIds: string[]): Promise<any> {
+    return this.request('POST', '/leads/merge', { primaryId, duplicateIds });
+  }
+
+  // Inbox endpoints
+  async getInboxConversations(params?: any): Promise<any> {
+    return this.request('GET', '/inbox/conversations', undefined, params);
+  }
+
+  async getInboxConversation(id: string, params?: any): Promise<any> {
+    return this.request('GET', `/inbox/conversations/${id}`, undefined, params);
+  }
+
+  async markConversationRead(id: string): Promise<any> {
+    return this.request('POST', `/inbox/conversations/${id}/read`);
+  }
+
+  async updateConversation(id: string, data: { status?: string; assignedTo?: string | null }): Promise<any> {
+    return this.request('PUT', `/inbox/conversations/${id}`, data);
+  }
+
+  async replyToConversation(id: string, message: string): Promise<any> {
+    return this.request('POST', `/inbox/conversations/${id}/reply`, { message });
+  }
+
+  // Auto-reply endpoints
+  async getAutoReplyRules(): Promise<any> {
+    return this.request('GET', '/inbox/auto-replies/rules');
+  }
+
+  async createAutoReplyRule(data: any): Promise<any> {
+    return this.request('POST', '/inbox/auto-replies/rules', data);
+  }
+
+  async updateAutoReplyRule(id: string, data: any): Promise<any> {
+    return this.request('PUT', `/inbox/auto-replies/rules/${id}`, data);
+  }
+
+  async deleteAutoReplyRule(id: string): Promise<any> {
+    return this.request('DELETE', `/inbox/auto-replies/rules/${id}`);
+  }
+
+  async previewAutoReply(data: { message: string; platform?: string; kind?: string; leadScore?: number }): Promise<any> {
+    return this.request('POST', '/inbox/auto-replies/preview', data);
+  }
+
+  async getAutoReplySettings(): Promise<any> {
+    return this.request('GET', '/inbox/auto-replies/settings');
+  }
+
+  async updateAutoReplySettings(data: any): Promise<any> {
+    return this.request('PUT', '/inbox/auto-replies/settings', data);
+  }
+
+  // CRM sync endpoints
+  async getCrmConnections(): Promise<any> {
+    return this.request('GET', '/crm/connections');
+  }
+
+  async createCrmConnection(data: any): Promise<any> {
+    return this.request('POST', '/crm/connections', data);
+  }
+
+  async updateCrmConnection(id: string, data: any): Promise<any> {
+    return this.request('PUT', `/crm/connections/${id}`, data);
+  }
+
+  async deleteCrmConnection(id: string): Promise<any> {
+    return this.request('DELETE', `/crm/connections/${id}`);
+  }
+
+  async testCrmConnection(id: string): Promise<any> {
+    return this.request('POST', `/crm/connections/${id}/test`);
+  }
+
+  async syncCrmConnection(id: string, type: 'import' | 'export' | 'sync' = 'sync'): Promise<any> {
+    return this.request('POST', `/crm/connections/${id}/sync`, { type });
+  }
+
+  async getCrmSyncLogs(params?: { connectionId?: string; limit?: number }): Promise<any> {
+    return this.request('GET', '/crm/sync-logs', undefined, params);
+  }
+
+  async getDefaultCrmFieldMappings(): Promise<any> {
+    return this.request('GET', '/crm/field-mappings/defaults');
+  }
+
   // Utility methods
   setAuthToken(token: string): void {
     if (typeof window !== 'undefined') {
@@ -694,13 +831,24 @@ class APIClient {
     query?: string;
     type?: string;
     status?: string;
+    platform?: string;
     tags?: string[];
     dateFrom?: string;
     dateTo?: string;
     page?: number;
     limit?: number;
   }): Promise<PaginatedResponse<any>> {
-    return this.request('GET', '/content/search', undefined, params);
+    const { query, tags, dateFrom, dateTo, ...rest } = params;
+    return this.request('GET', '/content/search', undefined, {
+      ...rest,
+      q: query,
+      tags: tags?.length ? tags.join(',') : undefined,
+      filters: dateFrom || dateTo ? JSON.stringify({ dateFrom, dateTo }) : undefined,
+    });
+  }
+
+  async reindexContentSearch(): Promise<{ index: string; indexed: number; failed: number; durationMs: number }> {
+    return this.request('POST', '/content/search/reindex');
   }
 
   async getTargetAccounts(): Promise<any[]> {
@@ -976,6 +1124,21 @@ class APIClient {
     return this.request('GET', `/content/notifications/history/${userId}`);
   }
 
+  async getNotificationDeliveries(notificationId: string): Promise<{
+    notificationId: string;
+    deliveries: Array<{
+      id: string;
+      channelId: string;
+      channelType?: string;
+      status: 'pending' | 'sent' | 'failed' | 'skipped';
+      attempts: number;
+      responseStatus?: number;
+      error?: string;
+    }>;
+  }> {
+    return this.request('GET', `/content/notifications/${notificationId}/deliveries`);
+  }
+
   async getNotificationAnalytics(): Promise<{
     totalNotifications: number;
     sentNotifications: number;
@@ -1174,28 +1337,76 @@ class APIClient {
 
   // Pipeline Monitoring endpoints
   async getPipelineProgress(pipelineId: string): Promise<{
-    pipelineId: string;
-    status: 'running' | 'completed' | 'failed' | 'cancelled' | 'paused';
-    progress: number;
-    currentStep: string;
-    totalSteps: number;
-    completedSteps: number;
-    steps: Array<{
-      id: string;
-      name: string;
-      status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
-      startedAt?: string;
-      completedAt?: string;
-      error?: string;
-      duration?: number;
-    }>;
-    estimatedTimeRemaining?: number;
-    startedAt: string;
-    updatedAt: string;
+    success: boolean;
+    progress: PipelineProgressState;
+    insights: {
+      stageProgress: number;
+      estimatedTimeRemaining?: number;
+      currentStage: string;
+    };
   }> {
     return this.request('GET', `/content/pipeline/${pipelineId}/progress`);
   }
 
+  /**
+   * Follow pipeline events over SSE: one pipeline when pipelineId is given, otherwise every pipeline of the
+   * organization. EventSource cannot send the Authorization header, so the stream is read through fetch.
+   * Resolves when the server ends the stream (a single pipeline finished) or the signal aborts it.
+   */
+  async streamPipelineEvents(
+    pipelineId: string | undefined,
+    onEvent: (event: PipelineStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const path = pipelineId ? `/content/pipeline/${pipelineId}/events` : '/content/pipeline/events';
+    const token = this.getAuthToken();
+    const response = await fetch(`${this.baseURL}${path}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal,
+    });
+    if (response.status === 401) {
+      this.handleUnauthorized();
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Pipeline event stream failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; each has an "event:" and a "data:" field
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary >= 0) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          let type = 'message';
+          const data: string[] = [];
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) type = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+          }
+          if (data.length === 0 || type === 'heartbeat') continue;
+          onEvent({ type, data: JSON.parse(data.join('\n')) } as PipelineStreamEvent);
+        }
+      }
+    } catch (error: any) {
+      if (error?.name !== 'AbortError') throw error;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   async getPipelineMetrics(pipelineId: string): Promise<{
     pipelineId: string;
     metrics: {
@@ -1847,6 +2058,8 @@ class APIClient {
     organizationId?: string;
   }): Promise<{
     success: boolean;
+    // The organization already had this exact file; the existing one is returned
+    duplicate: boolean;
     fileId: string;
     fileName: string;
     fileSize: number;
@@ -1957,20 +2170,9 @@ class APIClient {
     lossless?: boolean; // For PNG/WebP lossless compression
     removeMetadata?: boolean; // Remove EXIF and other metadata
     optimizeForWeb?: boolean; // Web-specific optimizations
-  }): Promise<{
-    success: boolean;
-    optimizedFileId: string;
-    originalFileId: string;
-    optimizedUrl: string;
-    optimization: {
-      originalSize: number;
-      optimizedSize: number;
-      compressionRatio: number;
-      qualityScore: number;
-      processingTime: number;
-      optimizationsApplied: string[];
-    };
-  }> {
+    platform?: string; // Size for a platform, e.g. INSTAGRAM
+    presetId?: string;
+  }): Promise<MediaJobQueued> {
     return this.request('POST', `/media/optimize/${fileId}`, optimizationSettings);
   }
 
@@ -1979,47 +2181,47 @@ class APIClient {
     quality?: number;
     resolution?: { width?: number; height?: number };
     framerate?: number; // For video conversions
-    bitrate?: number; // For video conversions
-    audioCodec?: string; // For video conversions
-    videoCodec?: string; // For video conversions
-  }): Promise<{
-    success: boolean;
-    convertedFileId: string;
-    originalFileId: string;
-    convertedUrl: string;
-    conversion: {
-      originalFormat: string;
-      targetFormat: string;
-      originalSize: number;
-      convertedSize: number;
-      processingTime: number;
-      conversionSettings: any;
-    };
-  }> {
+    bitrate?: number; // For video conversions, in kbps
+    audioCodec?: 'aac' | 'mp3' | 'opus'; // For video conversions
+    videoCodec?: 'h264' | 'h265' | 'vp9' | 'av1'; // For video conversions
+    platform?: string;
+    presetId?: string;
+  }): Promise<MediaJobQueued> {
     return this.request('POST', `/media/convert/${fileId}`, conversionSettings);
   }
 
-  async getMediaProcessingStatus(jobId: string): Promise<{
-    success: boolean;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
-    progress: number; // 0-100
-    result?: {
-      processedFileId?: string;
-      processedUrl?: string;
-      metadata?: any;
-    };
-    error?: string;
-    estimatedTimeRemaining?: number; // in seconds
-  }> {
+  async getMediaProcessingStatus(jobId: string): Promise<MediaJobStatusResponse> {
     return this.request('GET', `/media/status/${jobId}`);
   }
 
+  // Poll a queued media job until it completes; rejects when it fails, is cancelled or takes too long
+  async waitForMediaJob(jobId: string, options?: {
+    intervalMs?: number;
+    timeoutMs?: number;
+    onProgress?: (status: MediaJobStatusResponse) => void;
+  }): Promise<MediaJobStatusResponse> {
+    const intervalMs = options?.intervalMs ?? 1000;
+    const deadline = Date.now() + (options?.timeoutMs ?? 10 * 60 * 1000);
+    for (;;) {
+      const status = await this.getMediaProcessingStatus(jobId);
+      options?.onProgress?.(status);
+      if (status.status === 'completed') return status;
+      if (status.status === 'failed' || status.status === 'cancelled') {
+        throw new Error(status.error || `Media job ${status.status}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error('Media job is still running; check its status later');
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
+
   async getMediaProcessingHistory(params?: {
     organizationId?: string;
     limit?: number;
     offset?: number;
-    type?: 'optimization' | 'conversion' | 'processing';
-    status?: 'completed' | 'failed' | 'pending';
+    type?: 'optimization' | 'conversion';
+    status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   }): Promise<{
     success: boolean;
     history: Array<{
@@ -2042,6 +2244,7 @@ class APIClient {
   async cancelMediaProcessing(jobId: string): Promise<{
     success: boolean;
     message: string;
+    job: any;
   }> {
     return this.request('POST', `/media/cancel/${jobId}`);
   }
@@ -2055,6 +2258,7 @@ class APIClient {
       type: 'optimization' | 'conversion';
       settings: any;
       category: 'web' | 'mobile' | 'print' | 'social' | 'custom';
+      builtIn: boolean;
     }>;
   }> {
     return this.request('GET', '/media/presets');
@@ -2084,7 +2288,7 @@ class APIClient {
   }
 
   async batchProcessMedia(fileIds: string[], operations: {
-    type: 'optimization' | 'conversion' | 'processing';
+    type: 'optimization' | 'conversion';
     settings: any;
     presetId?: string;
   }): Promise<{
@@ -2095,7 +2299,7 @@ class APIClient {
     jobs: Array<{
       fileId: string;
       jobId: string;
-      status: 'queued' | 'processing' | 'completed' | 'failed';
+      status: 'queued';
     }>;
   }> {
     return this.request('POST', '/media/batch', { fileIds, operations });
@@ -2131,6 +2335,27 @@ class APIClient {
     return this.request('GET', '/storage/files', undefined, params);
   }
 
+  async getMediaFile(fileId: string): Promise<{
+    success: boolean;
+    file: {
+      id: string;
+      fileName: string;
+      fileSize: number;
+      mimeType: string;
+      url: string;
+      thumbnailUrl?: string;
+      category: string;
+      tags: string[];
+      description?: string;
+      uploadedAt: string;
+      uploadedBy: string;
+      sourceFileId?: string;
+      metadata: Record<string, any>;
+    };
+  }> {
+    return this.request('GET', `/storage/files/${fileId}`);
+  }
+
   async deleteMedia(fileId: string): Promise<{
     success: boolean;
     message: string;
@@ -164,3 +164,72 @@ export interface Notification {
 }
 
 export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+// Pipeline Types
+export interface PipelineStageState {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+  startedAt?: string;
+  completedAt?: string;
+  duration?: number;
+  error?: string;
+}
+
+export interface PipelineProgressState {
+  pipelineId: string;
+  organizationId?: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  currentStage: number;
+  totalStages: number;
+  progress: number;
+  stages: PipelineStageState[];
+  startedAt?: string;
+  completedAt?: string;
+  estimatedTimeRemaining?: number;
+}
+
+// What the pipeline event streams send: a snapshot on connect, then one event per transition
+export type PipelineStreamEvent =
+  | { type: 'snapshot'; data: { pipelines: PipelineProgressState[] } }
+  | {
+      type: 'pipeline_started' | 'stage_started' | 'stage_completed' | 'stage_failed' | 'pipeline_completed' | 'pipeline_failed' | 'pipeline_cancelled';
+      data: { pipelineId: string; stageId?: string; error?: string; pipeline: PipelineProgressState; at: string };
+    };
+
+// A media conversion or optimization queued on the worker
+export interface MediaJobQueued {
+  success: boolean;
+  jobId: string;
+  status: 'pending';
+  originalFileId: string;
+  statusUrl: string;
+}
+
+export interface MediaJobStatusResponse {
+  success: boolean;
+  jobId: string;
+  type: 'optimization' | 'conversion';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  progress: number; // 0-100
+  originalFileId: string | null;
+  result?: {
+    processedFileId?: string;
+    processedUrl?: string;
+    metadata?: {
+      originalFormat: string;
+      format: string;
+      originalSize: number;
+      processedSize: number;
+      compressionRatio: number;
+      width: number;
+      height: number;
+      duration?: number;
+      quality?: number;
+      optimizationsApplied: string[];
+      processingTime: number;
+    };
+  };
+  error?: string;
+  estimatedTimeRemaining?: number; // in seconds
+}
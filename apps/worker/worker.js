@@ -1,5 +1,5 @@
 import pkg from 'bullmq';
-const { Worker } = pkg;
+const { Worker, UnrecoverableError, DelayedError } = pkg;
 import './cron.js';
 
 const connection = { url: process.env.REDIS_URL || 'redis://redis:6379' };
@@ -18,32 +18,59 @@ testWorker.on('failed', (job, err) => {
   console.error(`Job ${job?.id} failed:`, err);
 });
 
-const publishWorker = new Worker('publish-jobs', async job => {
-  const startTime = Date.now();
-  const now = new Date().toISOString();
-  console.log(`[publish] job ${job.id} at ${now}:`, job.data);
-  
-  try {
-    // Import the platform publish service
+// Circuit breakers and retry budgets, shared with the API replicas through Redis
+let errorHandlingService;
+async function getErrorHandlingService() {
+  if (!errorHandlingService) {
+    const { EnhancedErrorHandlingService } = await import('../api/src/services/enhanced-error-handling.service.js');
+    const { RedisCircuitBreakerStore } = await import('../api/src/services/circuit-breaker-store.js');
+    errorHandlingService = new EnhancedErrorHandlingService(new RedisCircuitBreakerStore());
+  }
+  return errorHandlingService;
+}
+
+// One publish service for all jobs; token lookups carry each job's organization explicitly
+let platformPublishService;
+async function getPublishService() {
+  if (!platformPublishService) {
     const { PlatformPublishService } = await import('../api/src/platform-publish.service.js');
     const { TokenService } = await import('../api/src/token.service.js');
+    const { TokenAuditService } = await import('../api/src/services/token-audit.service.js');
+    const { TokenCacheService } = await import('../api/src/token-cache.service.js');
     const { DbService } = await import('../api/src/db.service.js');
     const { MetaClientService } = await import('../api/src/platforms/meta/meta-client.service.js');
     const { LinkedInClientService } = await import('../api/src/platforms/linkedin/linkedin-client.service.js');
     const { MediaProcessingService } = await import('../api/src/services/media-processing.service.js');
+    const { TemplateTuningService } = await import('../api/src/services/template-tuning.service.js');
+    const { WordPressClientService } = await import('../api/src/platforms/wordpress/wordpress-client.service.js');
+    const { MailTransportService } = await import('../api/src/platforms/mail/mail-transport.service.js');
+    const { NewsletterService } = await import('../api/src/services/newsletter.service.js');
 
-    const tokenService = new TokenService();
     const dbService = new DbService();
-    const metaClient = new MetaClientService();
-    const linkedinClient = new LinkedInClientService();
-    const mediaProcessingService = new MediaProcessingService();
-    const publishService = new PlatformPublishService(
+    await dbService.onModuleInit();
+    const tokenService = new TokenService(dbService, new TokenAuditService(dbService), new TokenCacheService());
+    platformPublishService = new PlatformPublishService(
       tokenService,
       dbService,
-      metaClient,
-      linkedinClient,
-      mediaProcessingService
+      new MetaClientService(),
+      new LinkedInClientService(),
+      new MediaProcessingService(),
+      new TemplateTuningService(dbService),
+      new WordPressClientService(),
+      new NewsletterService(dbService, new MailTransportService()),
+      await getErrorHandlingService()
     );
+  }
+  return platformPublishService;
+}
+
+const publishWorker = new Worker('publish-jobs', async job => {
+  const startTime = Date.now();
+  const now = new Date().toISOString();
+  console.log(`[publish] job ${job.id} at ${now}:`, job.data);
+  
+  try {
+    const publishService = await getPublishService();
     
     // Publish to platform (with idempotency guard)
     const result = await publishService.publishToPlatform(job.data);
@@ -67,6 +94,24 @@ const publishWorker = new Worker('publish-jobs', async job => {
     if (scheduleId) {
       await publishService.recordPublishOutcome(scheduleId, result, job.id, duration);
     }
+
+    // Retryable failures are not final yet, so workflow rules only hear about them once retries stop
+    if (job.data.contentItemId && job.data.organizationId && (result.success || !result.retryable)) {
+      const workflowRules = await getWorkflowRulesService();
+      workflowRules.emit({
+        type: result.success ? 'content_published' : 'publish_failed',
+        organizationId: job.data.organizationId,
+        contentItemId: job.data.contentItemId,
+        data: { scheduleId, platform: job.data.platform, providerId: result.providerId, error: result.error },
+      });
+    }
+
+    // Transient failures (e.g. deferred newsletter recipients) go back through BullMQ retries and, when exhausted, the DLQ
+    if (!result.success && result.retryable) {
+      const retryError = new Error(result.error || 'retryable publish failure');
+      retryError.retryAfterSeconds = result.retryAfter;
+      throw retryError;
+    }
     
     console.log(`[publish] job ${job.id} completed: ${result.success ? 'SUCCESS' : 'FAILED'}`);
     return { 
@@ -105,19 +150,146 @@ const publishWorker = new Worker('publish-jobs', async job => {
     }
   }
 });
+// Workflow rules listening for publish outcomes
+let workflowRulesService;
+async function getWorkflowRulesService() {
+  if (!workflowRulesService) {
+    const { AdvancedWorkflowRulesService } = await import('../api/src/services/advanced-workflow-rules.service.js');
+    const { NotificationService } = await import('../api/src/services/notification.service.js');
+    const { SmartSchedulingService } = await import('../api/src/services/smart-scheduling.service.js');
+    const { CadencePolicyService } = await import('../api/src/services/cadence-policy.service.js');
+    const { MailTransportService } = await import('../api/src/platforms/mail/mail-transport.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    const notificationService = new NotificationService(dbService, new MailTransportService());
+    const cadencePolicies = new CadencePolicyService(dbService);
+    workflowRulesService = new AdvancedWorkflowRulesService(dbService, notificationService, new SmartSchedulingService(dbService, cadencePolicies), cadencePolicies);
+  }
+  return workflowRulesService;
+}
+
 // Webhook processing worker with retries and DLQ fallback
+let webhookProcessing;
+async function getWebhookProcessingService() {
+  if (!webhookProcessing) {
+    const { WebhookProcessingService } = await import('../api/src/services/webhook-processing.service.js');
+    const { TokenService } = await import('../api/src/token.service.js');
+    const { TokenAuditService } = await import('../api/src/services/token-audit.service.js');
+    const { TokenCacheService } = await import('../api/src/token-cache.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const { MetaClientService } = await import('../api/src/platforms/meta/meta-client.service.js');
+    const { LinkedInClientService } = await import('../api/src/platforms/linkedin/linkedin-client.service.js');
+    const { QualityService } = await import('../api/src/services/quality.service.js');
+    const { TemplateRenderService } = await import('../api/src/services/template-render.service.js');
+    const { InboxService } = await import('../api/src/services/inbox.service.js');
+    const { AutoReplyService } = await import('../api/src/services/auto-reply.service.js');
+    const { LeadScoringService } = await import('../api/src/services/lead-scoring.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    const tokenService = new TokenService(dbService, new TokenAuditService(dbService), new TokenCacheService());
+    const inboxService = new InboxService(dbService, tokenService, new MetaClientService(), new LinkedInClientService());
+    const qualityService = new QualityService();
+    const autoReplyService = new AutoReplyService(dbService, qualityService, new TemplateRenderService(dbService), inboxService);
+    const leadScoringService = new LeadScoringService(dbService, qualityService);
+    webhookProcessing = new WebhookProcessingService(dbService, tokenService, autoReplyService, leadScoringService);
+  }
+  return webhookProcessing;
+}
+
 const webhookWorker = new Worker('webhook-jobs', async job => {
   const { idemKey, provider } = job.data;
   const now = new Date().toISOString();
   console.log(`[webhook] processing ${provider} idemKey=${idemKey} at ${now}`);
-  // Simulate processing success
-  return { processedAt: now };
+  const service = await getWebhookProcessingService();
+  try {
+    const result = await service.processEvent(idemKey, provider);
+    return { processedAt: now, ...result };
+  } catch (error) {
+    // Malformed payloads and unknown accounts won't succeed on retry
+    if (error && error.name === 'PermanentWebhookError') {
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;
+  }
 }, { connection, 
   settings: { backoffStrategies: {} },
 });
 
 webhookWorker.on('failed', async (job, err) => {
-  console.error(`[webhook] job ${job.id} failed:`, err.message);
+  console.error(`[webhook] job ${job?.id} failed:`, err.message);
+  if (!job) return;
+  const exhausted = err?.name === 'UnrecoverableError' || job.attemptsMade >= (job.opts?.attempts || 1);
+  if (!exhausted) return;
+  try {
+    const service = await getWebhookProcessingService();
+    await service.moveToDlq(job.data.idemKey, err?.message || 'unknown_error');
+  } catch (e) {
+    console.error('[webhook] failed to persist to webhook_dlq:', e?.message);
+  }
+});
+
+// Batch generation: state lives in Postgres, this worker fans batches out and generates one brief per child job
+let batchGeneration;
+async function getBatchGenerationService() {
+  if (!batchGeneration) {
+    const { BatchGenerationService } = await import('../api/src/services/batch-generation.service.js');
+    const { ContentGenerationService } = await import('../api/src/services/content-generation.service.js');
+    const { PerplexityService } = await import('../api/src/services/perplexity.service.js');
+    const { LlmService } = await import('../api/src/services/llm.service.js');
+    const { TemplateRenderService } = await import('../api/src/services/template-render.service.js');
+    const { BrandRuleEnforcementService } = await import('../api/src/services/brand-rule-enforcement.service.js');
+    const { PipelineMonitoringService } = await import('../api/src/services/pipeline-monitoring.service.js');
+    const { PipelineEventBus } = await import('../api/src/services/pipeline-event-bus.service.js');
+    const { QueueService } = await import('../api/src/queue.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    const errorHandling = await getErrorHandlingService();
+    const perplexity = new PerplexityService(errorHandling);
+    const contentGeneration = new ContentGenerationService(
+      perplexity,
+      new LlmService(dbService, errorHandling, perplexity),
+      dbService,
+      new TemplateRenderService(dbService),
+      new BrandRuleEnforcementService(dbService),
+      errorHandling,
+      new PipelineMonitoringService(dbService, new PipelineEventBus())
+    );
+    batchGeneration = new BatchGenerationService(dbService, contentGeneration, new QueueService(dbService), errorHandling);
+  }
+  return batchGeneration;
+}
+
+// Total briefs generated at once by this process; BATCH_GENERATION_ORG_CONCURRENCY caps each organization across workers
+const batchWorker = new Worker('batch-generation-jobs', async (job, token) => {
+  const service = await getBatchGenerationService();
+  if (job.name === 'process-batch-generation') {
+    const queuedItems = await service.startBatchGeneration(job.data.jobId);
+    return { queuedItems };
+  }
+
+  const outcome = await service.processBatchItem(job.data.jobId, job.data.itemId);
+  if (outcome.status === 'deferred') {
+    await job.moveToDelayed(Date.now() + outcome.delayMs, token);
+    throw new DelayedError();
+  }
+  return outcome;
+}, {
+  connection,
+  concurrency: Number(process.env.BATCH_GENERATION_WORKER_CONCURRENCY || 4),
+});
+
+batchWorker.on('failed', async (job, err) => {
+  console.error(`[batch] job ${job?.id} failed:`, err?.message);
+  if (!job || job.name !== 'generate-batch-item') return;
+  if (job.attemptsMade < (job.opts?.attempts || 1)) return;
+  try {
+    const service = await getBatchGenerationService();
+    await service.failBatchItem(job.data.jobId, job.data.itemId, err?.message || 'unknown_error');
+  } catch (e) {
+    console.error('[batch] failed to record item failure:', e?.message);
+  }
 });
 
 webhookWorker.on('completed', job => {
@@ -140,8 +312,154 @@ publishWorker.on('failed', async (job, err) => {
   } catch (e) {
     console.error('[publish] failed to persist to publish_dlq:', e?.message);
   }
+
+  // Publishes that gave up after their last retry are final failures
+  const payload = job?.data || {};
+  const exhausted = job && job.attemptsMade >= (job.opts?.attempts || 1);
+  if (exhausted && payload.contentItemId && payload.organizationId) {
+    try {
+      const workflowRules = await getWorkflowRulesService();
+      workflowRules.emit({
+        type: 'publish_failed',
+        organizationId: payload.organizationId,
+        contentItemId: payload.contentItemId,
+        data: { scheduleId: payload.scheduleId || null, platform: payload.platform, error: err?.message || 'unknown_error' },
+      });
+    } catch (e) {
+      console.error('[publish] failed to run workflow rules:', e?.message);
+    }
+  }
+});
+
+// Media files of organizations with auto-cleanup enabled are removed once unused for their cleanup period
+let mediaStorageService;
+async function getMediaStorageService() {
+  if (!mediaStorageService) {
+    const { MediaStorageService } = await import('../api/src/services/media-storage.service.js');
+    const { createStorageDriver } = await import('../api/src/platforms/storage/create-storage-driver.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    mediaStorageService = new MediaStorageService(dbService, createStorageDriver());
+  }
+  return mediaStorageService;
+}
+
+setInterval(async () => {
+  try {
+    const service = await getMediaStorageService();
+    await service.cleanupExpiredFiles();
+  } catch (e) {
+    console.error('[storage] media cleanup failed:', e?.message);
+  }
+}, 60 * 60 * 1000);
+
+// Media conversion and optimization: jobs, progress and cancellation live in Postgres, outputs in media storage
+let mediaJobsService;
+async function getMediaJobsService() {
+  if (!mediaJobsService) {
+    const { MediaJobsService } = await import('../api/src/services/media-jobs.service.js');
+    const { MediaProcessingService } = await import('../api/src/services/media-processing.service.js');
+    const { QueueService } = await import('../api/src/queue.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    mediaJobsService = new MediaJobsService(dbService, await getMediaStorageService(), new MediaProcessingService(), new QueueService(dbService));
+  }
+  return mediaJobsService;
+}
+
+const mediaWorker = new Worker('media-jobs', async job => {
+  const service = await getMediaJobsService();
+  return service.processJob(job.data.mediaJobId);
+}, {
+  connection,
+  concurrency: Number(process.env.MEDIA_JOBS_WORKER_CONCURRENCY || 2),
 });
 
-console.log('Worker ready. Listening for jobs on queues: test-jobs, publish-jobs');
+mediaWorker.on('failed', async (job, err) => {
+  console.error(`[media] job ${job?.id} failed:`, err?.message);
+  if (!job || job.attemptsMade < (job.opts?.attempts || 1)) return;
+  try {
+    const service = await getMediaJobsService();
+    await service.failJob(job.data.mediaJobId, err?.message || 'unknown_error');
+  } catch (e) {
+    console.error('[media] failed to record job failure:', e?.message);
+  }
+});
+
+// Platform insights: published posts and connected target accounts are read into analytics_daily on their
+// own cadence; each run syncs whatever is due and failures back off per post or account
+let platformInsightsService;
+async function getPlatformInsightsService() {
+  if (!platformInsightsService) {
+    const { PlatformInsightsService } = await import('../api/src/services/platform-insights.service.js');
+    const { TokenService } = await import('../api/src/token.service.js');
+    const { TokenAuditService } = await import('../api/src/services/token-audit.service.js');
+    const { TokenCacheService } = await import('../api/src/token-cache.service.js');
+    const { MetaClientService } = await import('../api/src/platforms/meta/meta-client.service.js');
+    const { LinkedInClientService } = await import('../api/src/platforms/linkedin/linkedin-client.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    platformInsightsService = new PlatformInsightsService(
+      dbService,
+      new TokenService(dbService, new TokenAuditService(dbService), new TokenCacheService()),
+      new MetaClientService(),
+      new LinkedInClientService(),
+      await getErrorHandlingService()
+    );
+  }
+  return platformInsightsService;
+}
+
+let insightsSyncRunning = false;
+setInterval(async () => {
+  // A slow run (e.g. a large backfill) is not overlapped by the next one
+  if (insightsSyncRunning) return;
+  insightsSyncRunning = true;
+  try {
+    const service = await getPlatformInsightsService();
+    const { posts, accounts } = await service.syncDue();
+    if (posts.synced + posts.failed + accounts.synced + accounts.failed > 0) {
+      console.log(`[insights] synced ${posts.synced} posts (${posts.failed} failed), ${accounts.synced} accounts (${accounts.failed} failed)`);
+    }
+  } catch (e) {
+    console.error('[insights] sync failed:', e?.message);
+  } finally {
+    insightsSyncRunning = false;
+  }
+}, Number(process.env.INSIGHTS_SYNC_INTERVAL_MINUTES || 15) * 60 * 1000);
+
+// Recurring schedules: due occurrences (RRULE in the schedule's timezone) become content and schedules.
+// Each occurrence is claimed in Postgres, so every worker can run the tick.
+let smartSchedulingService;
+async function getSmartSchedulingService() {
+  if (!smartSchedulingService) {
+    const { SmartSchedulingService } = await import('../api/src/services/smart-scheduling.service.js');
+    const { CadencePolicyService } = await import('../api/src/services/cadence-policy.service.js');
+    const { DbService } = await import('../api/src/db.service.js');
+    const dbService = new DbService();
+    await dbService.onModuleInit();
+    smartSchedulingService = new SmartSchedulingService(dbService, new CadencePolicyService(dbService));
+  }
+  return smartSchedulingService;
+}
+
+let recurringTickRunning = false;
+setInterval(async () => {
+  if (recurringTickRunning) return;
+  recurringTickRunning = true;
+  try {
+    const service = await getSmartSchedulingService();
+    await service.processRecurringSchedules();
+  } catch (e) {
+    console.error('[recurring] tick failed:', e?.message);
+  } finally {
+    recurringTickRunning = false;
+  }
+}, 60 * 1000);
+
+console.log('Worker ready. Listening for jobs on queues: test-jobs, publish-jobs, webhook-jobs, batch-generation-jobs, media-jobs');
 
 setInterval(() => {}, 1 << 30);
@@ -4,6 +4,7 @@ export type Env = {
   DATABASE_URL: string;
   REDIS_URL: string;
   ELASTICSEARCH_NODE?: string;
+  ELASTICSEARCH_CONTENT_INDEX?: string;
   OAUTH_REDIRECT_BASE?: string;
   OAUTH_REDIRECT_ALLOWLIST?: string;
   OAUTH_COOKIE_SECRET?: string;
@@ -22,9 +23,38 @@ export type Env = {
   LINKEDIN_WEBHOOK_SECRET?: string;
   GOOGLE_WEBHOOK_SECRET?: string;
   TOKEN_ENC_KEY?: string;
+  TOKEN_ENC_KEYS?: string;
+  TOKEN_ENC_PRIMARY_KEY_ID?: string;
   PERPLEXITY_API_KEY?: string;
   PERPLEXITY_BASE_URL?: string;
   PERPLEXITY_MODEL?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL?: string;
+  LOCAL_LLM_BASE_URL?: string;
+  LOCAL_LLM_API_KEY?: string;
+  LOCAL_LLM_MODEL?: string;
+  LLM_DEFAULT_ROUTE?: string;
+  LLM_PRICING?: string;
+  BATCH_GENERATION_ORG_CONCURRENCY?: string;
+  BATCH_GENERATION_WORKER_CONCURRENCY?: string;
+  RETRY_BUDGETS?: string;
+  STORAGE_DRIVER?: string;
+  STORAGE_LOCAL_DIR?: string;
+  STORAGE_S3_BUCKET?: string;
+  STORAGE_S3_REGION?: string;
+  STORAGE_S3_ENDPOINT?: string;
+  STORAGE_S3_ACCESS_KEY_ID?: string;
+  STORAGE_S3_SECRET_ACCESS_KEY?: string;
+  STORAGE_SIGNING_SECRET?: string;
+  STORAGE_URL_TTL_SECONDS?: string;
+  STORAGE_MAX_UPLOAD_BYTES?: string;
+  MEDIA_JOBS_WORKER_CONCURRENCY?: string;
+  INSIGHTS_SYNC_INTERVAL_MINUTES?: string;
+  INSIGHTS_BACKFILL_DAYS?: string;
+  INSIGHTS_POST_TRACKING_DAYS?: string;
+  SMTP_URL?: string;
+  MAIL_FROM?: string;
 };
 
 export function loadEnv(): Env {
@@ -41,6 +71,7 @@ export function loadEnv(): Env {
     DATABASE_URL: required('DATABASE_URL'),
     REDIS_URL: required('REDIS_URL'),
     ELASTICSEARCH_NODE: get('ELASTICSEARCH_NODE'),
+    ELASTICSEARCH_CONTENT_INDEX: get('ELASTICSEARCH_CONTENT_INDEX') || 'content_items',
     OAUTH_REDIRECT_BASE: get('OAUTH_REDIRECT_BASE'),
     OAUTH_REDIRECT_ALLOWLIST: get('OAUTH_REDIRECT_ALLOWLIST'),
     OAUTH_COOKIE_SECRET: get('OAUTH_COOKIE_SECRET'),
@@ -59,9 +90,38 @@ export function loadEnv(): Env {
     LINKEDIN_WEBHOOK_SECRET: get('LINKEDIN_WEBHOOK_SECRET'),
     GOOGLE_WEBHOOK_SECRET: get('GOOGLE_WEBHOOK_SECRET'),
     TOKEN_ENC_KEY: get('TOKEN_ENC_KEY'),
+    TOKEN_ENC_KEYS: get('TOKEN_ENC_KEYS'),
+    TOKEN_ENC_PRIMARY_KEY_ID: get('TOKEN_ENC_PRIMARY_KEY_ID'),
     PERPLEXITY_API_KEY: get('PERPLEXITY_API_KEY'),
     PERPLEXITY_BASE_URL: get('PERPLEXITY_BASE_URL') || 'https://api.perplexity.ai',
     PERPLEXITY_MODEL: get('PERPLEXITY_MODEL') || 'sonar-large-online',
+    OPENAI_API_KEY: get('OPENAI_API_KEY'),
+    OPENAI_BASE_URL: get('OPENAI_BASE_URL'),
+    OPENAI_MODEL: get('OPENAI_MODEL'),
+    LOCAL_LLM_BASE_URL: get('LOCAL_LLM_BASE_URL'),
+    LOCAL_LLM_API_KEY: get('LOCAL_LLM_API_KEY'),
+    LOCAL_LLM_MODEL: get('LOCAL_LLM_MODEL'),
+    LLM_DEFAULT_ROUTE: get('LLM_DEFAULT_ROUTE'),
+    LLM_PRICING: get('LLM_PRICING'),
+    BATCH_GENERATION_ORG_CONCURRENCY: get('BATCH_GENERATION_ORG_CONCURRENCY') || '3',
+    BATCH_GENERATION_WORKER_CONCURRENCY: get('BATCH_GENERATION_WORKER_CONCURRENCY') || '4',
+    RETRY_BUDGETS: get('RETRY_BUDGETS'),
+    STORAGE_DRIVER: get('STORAGE_DRIVER') || 'local',
+    STORAGE_LOCAL_DIR: get('STORAGE_LOCAL_DIR'),
+    STORAGE_S3_BUCKET: get('STORAGE_S3_BUCKET'),
+    STORAGE_S3_REGION: get('STORAGE_S3_REGION'),
+    STORAGE_S3_ENDPOINT: get('STORAGE_S3_ENDPOINT'),
+    STORAGE_S3_ACCESS_KEY_ID: get('STORAGE_S3_ACCESS_KEY_ID'),
+    STORAGE_S3_SECRET_ACCESS_KEY: get('STORAGE_S3_SECRET_ACCESS_KEY'),
+    STORAGE_SIGNING_SECRET: get('STORAGE_SIGNING_SECRET'),
+    STORAGE_URL_TTL_SECONDS: get('STORAGE_URL_TTL_SECONDS'),
+    STORAGE_MAX_UPLOAD_BYTES: get('STORAGE_MAX_UPLOAD_BYTES'),
+    MEDIA_JOBS_WORKER_CONCURRENCY: get('MEDIA_JOBS_WORKER_CONCURRENCY') || '2',
+    INSIGHTS_SYNC_INTERVAL_MINUTES: get('INSIGHTS_SYNC_INTERVAL_MINUTES') || '15',
+    INSIGHTS_BACKFILL_DAYS: get('INSIGHTS_BACKFILL_DAYS') || '90',
+    INSIGHTS_POST_TRACKING_DAYS: get('INSIGHTS_POST_TRACKING_DAYS') || '30',
+    SMTP_URL: get('SMTP_URL'),
+    MAIL_FROM: get('MAIL_FROM'),
   };
 
   return env;